@@ -0,0 +1,172 @@
+/**
+ * Encrypted wallet backup archive: pack named files into one blob sealed
+ * under a passphrase, and open it again. No Electron dependency — the
+ * export / restore flow around it lives in walletBackup.ts.
+ *
+ * Layout:
+ *
+ *   MAGIC (8 bytes) | header length (u32 BE) | header JSON | AES-256-GCM ciphertext || tag
+ *
+ * The header (format version, KDF, nonce) is readable without the passphrase
+ * and bound to the ciphertext as AAD. The plaintext is gzip of
+ *
+ *   manifest length (u32 BE) | manifest JSON | entry bytes, in manifest order
+ *
+ * and the manifest records each entry's size and SHA-256, checked on open.
+ */
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+import { gunzipSync, gzipSync } from 'zlib'
+import { b64, defaultKdf, derivePassphraseKey, fromB64, type ScryptKdf } from './vaultCrypto.js'
+
+export const BACKUP_MAGIC = Buffer.from('BSVDBAK\n', 'utf8')
+export const BACKUP_FORMAT_VERSION = 1
+export const BACKUP_FILE_EXTENSION = 'bsvbackup'
+
+const TAG_LEN = 16
+/** Refuse headers larger than this before parsing them. */
+const MAX_HEADER_BYTES = 64 * 1024
+
+export interface BackupHeader {
+  format: 'bsv-desktop-backup'
+  version: number
+  createdAt: string
+  kdf: ScryptKdf
+  nonce: string
+}
+
+export interface BackupManifestEntry {
+  name: string
+  size: number
+  sha256: string
+}
+
+export interface BackupManifest {
+  version: number
+  createdAt: string
+  /** Anything the writer wants restored alongside the entries (identity, chain, counts…). */
+  meta: Record<string, unknown>
+  entries: BackupManifestEntry[]
+}
+
+export interface OpenedBackup {
+  header: BackupHeader
+  manifest: BackupManifest
+  entries: Map<string, Buffer>
+}
+
+function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+function u32(n: number): Buffer {
+  const out = Buffer.alloc(4)
+  out.writeUInt32BE(n)
+  return out
+}
+
+/** Seal `entries` under `passphrase`. Entry names must be unique. */
+export function sealBackup(
+  entries: Array<{ name: string; data: Buffer }>,
+  meta: Record<string, unknown>,
+  passphrase: string,
+  now: Date = new Date()
+): Buffer {
+  const names = new Set<string>()
+  for (const { name } of entries) {
+    if (names.has(name)) throw new Error(`duplicate backup entry: ${name}`)
+    names.add(name)
+  }
+
+  const createdAt = now.toISOString()
+  const manifest: BackupManifest = {
+    version: BACKUP_FORMAT_VERSION,
+    createdAt,
+    meta,
+    entries: entries.map(({ name, data }) => ({ name, size: data.length, sha256: sha256(data) })),
+  }
+  const manifestBytes = Buffer.from(JSON.stringify(manifest), 'utf8')
+  const plain = gzipSync(Buffer.concat([u32(manifestBytes.length), manifestBytes, ...entries.map(e => e.data)]))
+
+  const kdf = defaultKdf()
+  const nonce = randomBytes(12)
+  const header: BackupHeader = {
+    format: 'bsv-desktop-backup',
+    version: BACKUP_FORMAT_VERSION,
+    createdAt,
+    kdf,
+    nonce: b64(nonce),
+  }
+  const headerBytes = Buffer.from(JSON.stringify(header), 'utf8')
+  const prefix = Buffer.concat([BACKUP_MAGIC, u32(headerBytes.length), headerBytes])
+
+  const key = derivePassphraseKey(passphrase, kdf)
+  try {
+    const cipher = createCipheriv('aes-256-gcm', key, nonce)
+    cipher.setAAD(prefix)
+    const body = Buffer.concat([cipher.update(plain), cipher.final(), cipher.getAuthTag()])
+    return Buffer.concat([prefix, body])
+  } finally {
+    key.fill(0)
+  }
+}
+
+/** Parse the unencrypted header, e.g. to show when a backup was made. */
+export function readBackupHeader(archive: Buffer): { header: BackupHeader; prefix: Buffer } {
+  if (archive.length < BACKUP_MAGIC.length + 4 || !archive.subarray(0, BACKUP_MAGIC.length).equals(BACKUP_MAGIC)) {
+    throw new Error('Not a BSV Desktop backup file.')
+  }
+  const headerLen = archive.readUInt32BE(BACKUP_MAGIC.length)
+  const headerStart = BACKUP_MAGIC.length + 4
+  if (headerLen > MAX_HEADER_BYTES || headerStart + headerLen + TAG_LEN > archive.length) {
+    throw new Error('Backup file is truncated or corrupt.')
+  }
+  let header: BackupHeader
+  try {
+    header = JSON.parse(archive.subarray(headerStart, headerStart + headerLen).toString('utf8'))
+  } catch {
+    throw new Error('Backup file is truncated or corrupt.')
+  }
+  if (header?.format !== 'bsv-desktop-backup' || typeof header.nonce !== 'string' || !header.kdf) {
+    throw new Error('Not a BSV Desktop backup file.')
+  }
+  if (header.version > BACKUP_FORMAT_VERSION) {
+    throw new Error('This backup was made by a newer version of BSV Desktop. Update the app to restore it.')
+  }
+  return { header, prefix: archive.subarray(0, headerStart + headerLen) }
+}
+
+/**
+ * Decrypt and verify a backup. Throws if the passphrase is wrong, any byte was
+ * altered, or an entry does not match its recorded size and hash.
+ */
+export function openBackup(archive: Buffer, passphrase: string): OpenedBackup {
+  const { header, prefix } = readBackupHeader(archive)
+  const body = archive.subarray(prefix.length)
+  const key = derivePassphraseKey(passphrase, header.kdf)
+  let plain: Buffer
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, fromB64(header.nonce))
+    decipher.setAAD(prefix)
+    decipher.setAuthTag(body.subarray(body.length - TAG_LEN))
+    plain = gunzipSync(Buffer.concat([decipher.update(body.subarray(0, body.length - TAG_LEN)), decipher.final()]))
+  } catch {
+    throw new Error('Wrong backup passphrase, or the file has been altered.')
+  } finally {
+    key.fill(0)
+  }
+
+  const manifestLen = plain.readUInt32BE(0)
+  const manifest = JSON.parse(plain.subarray(4, 4 + manifestLen).toString('utf8')) as BackupManifest
+  const entries = new Map<string, Buffer>()
+  let offset = 4 + manifestLen
+  for (const entry of manifest.entries) {
+    const data = plain.subarray(offset, offset + entry.size)
+    offset += entry.size
+    if (data.length !== entry.size || sha256(data) !== entry.sha256) {
+      throw new Error(`Backup entry ${entry.name} failed its integrity check.`)
+    }
+    entries.set(entry.name, data)
+  }
+  if (offset !== plain.length) throw new Error('Backup file has unexpected trailing data.')
+  return { header, manifest, entries }
+}
@@ -96,11 +96,17 @@ export async function promptBiometrics(reason = 'Unlock BSV Desktop wallet'): Pr
   return false
 }
 
-/** Create SE wrap metadata + persist bioKey. Returns wrap for vault.dat. */
+/**
+ * Create SE wrap metadata for vault.dat. One bioKey wraps the DEK of every
+ * vault profile, so an existing key is reused; otherwise a new one is persisted.
+ */
 export function createSeWrap(dek: Buffer): SeWrapMeta {
-  const bioKey = randomDek()
+  let bioKey = loadBioKey()
+  if (!bioKey) {
+    bioKey = randomDek()
+    storeBioKey(bioKey)
+  }
   const blob = wrapKey(bioKey, dek)
-  storeBioKey(bioKey)
   return {
     platform: process.platform,
     label: BIO_LABEL,
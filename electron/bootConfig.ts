@@ -7,6 +7,24 @@ import fs from 'fs'
 
 export type UnlockMethod = 'se' | 'passphrase'
 
+/** When the vault locks itself; see vaultAutoLock.ts. */
+export interface AutoLockSettings {
+  /** Minutes without UI input or bridge calls before locking; 0 disables. */
+  idleMinutes: number
+  lockOnSuspend: boolean
+  lockOnScreenLock: boolean
+}
+
+/** Scheduled wallet database snapshots; see dbSnapshots.ts. */
+export interface SnapshotSettings {
+  /** Minutes between scheduled snapshots of each open wallet database; 0 disables. */
+  intervalMinutes: number
+  /** Automatic snapshots kept: the newest of each of this many recent hours… */
+  keepHourly: number
+  /** …and of each of this many recent days. */
+  keepDaily: number
+}
+
 export interface BootConfig {
   version: 1
   hasVault: boolean
@@ -20,6 +38,8 @@ export interface BootConfig {
   useRemoteStorage?: boolean
   useMessageBox?: boolean
   backupStorageUrls?: string[]
+  autoLock?: AutoLockSettings
+  snapshots?: SnapshotSettings
 }
 
 function filePath(): string {
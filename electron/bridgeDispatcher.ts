@@ -0,0 +1,249 @@
+/**
+ * Main-process hand-off between the bridge listeners and the wallet renderer.
+ *
+ * Every bridge call that needs the wallet goes through `forwardToWallet`,
+ * which delivers it to whichever renderer last announced itself with
+ * `bridge:renderer-ready` (onWalletReady sends it once its request listener
+ * is registered). A recreated or reloaded window therefore picks the bridge
+ * back up instead of leaving it bound to a dead `webContents`.
+ *
+ * While no renderer is live (the window is reloading, or the wallet has not
+ * loaded yet) calls wait up to `RENDERER_GRACE_MS` before failing with
+ * WALLET_BRIDGE_UNAVAILABLE. Calls already handed to a renderer that then goes
+ * away fail straight away and are never replayed: the renderer may already
+ * have signed or broadcast on their behalf.
+ *
+ * Prompts can also be shown in a compact approval window the renderer opens
+ * beside the dashboard; `promptWindow()` tells the focus handlers which window
+ * to raise so the dashboard does not have to come forward for every prompt.
+ */
+import { ipcMain } from 'electron'
+import type { BrowserWindow, WebContents } from 'electron'
+
+export interface HttpRequestEvent {
+  method: string
+  path: string
+  headers: Record<string, string>
+  body: string
+  request_id: number
+  /** Origin resolved in the main process; bound to the caller's bearer token once paired. */
+  origin?: string
+  /** On /pair: the pairing this origin already has, which approving would replace. */
+  existingPairing?: { createdAt: number; lastUsedAt: number | null } | null
+}
+
+export interface HttpResponseEvent {
+  request_id: number
+  status: number
+  body: string
+}
+
+/** Frame name the renderer passes to `window.open` for the approval window. */
+export const APPROVAL_WINDOW_NAME = 'bsv-desktop-approvals'
+
+/** How long a call waits for a wallet renderer to become ready. */
+export const RENDERER_GRACE_MS = 15_000
+
+type Renderer = Pick<WebContents, 'id' | 'send' | 'isDestroyed'>
+
+interface Call {
+  event: HttpRequestEvent
+  resolve: (response: HttpResponseEvent) => void
+  reject: (error: Error) => void
+  /** Renderer the call was delivered to; null while it waits for one. */
+  target: Renderer | null
+  timer: ReturnType<typeof setTimeout> | null
+}
+
+const calls = new Map<number, Call>()
+/** webContents ids of wallet windows; only these may answer or announce readiness. */
+const walletContents = new Set<number>()
+let walletWindow: BrowserWindow | null = null
+let live: Renderer | null = null
+let approvalWindow: BrowserWindow | null = null
+let approvalMode = false
+
+function settle(call: Call): void {
+  calls.delete(call.event.request_id)
+  if (call.timer) clearTimeout(call.timer)
+}
+
+/**
+ * Tell the renderer working on `call` to stop: dismiss its prompts and sign
+ * nothing more for it. `reason` is the error code, e.g. 'WALLET_LOCKED'.
+ */
+function notifyCancelled(call: Call, reason: string): void {
+  const target = call.target
+  if (!target || target.isDestroyed()) return
+  try {
+    target.send('http-request-cancelled', { request_id: call.event.request_id, reason })
+  } catch (err) {
+    console.warn(`[HTTP] failed to notify renderer of ${reason}:`, err)
+  }
+}
+
+function deliver(call: Call, renderer: Renderer): void {
+  if (call.timer) clearTimeout(call.timer)
+  call.timer = null
+  call.target = renderer
+  renderer.send('http-request', call.event)
+}
+
+/**
+ * Hand a call to the wallet renderer and wait for its answer, the caller
+ * going away (`onClientGone`, rejects with CLIENT_DISCONNECTED) or the
+ * renderer becoming unavailable (rejects with WALLET_BRIDGE_UNAVAILABLE).
+ * There is no timeout once delivered: a visible prompt may legitimately wait.
+ */
+export function forwardToWallet(
+  event: HttpRequestEvent,
+  onClientGone: (abandon: () => void) => void
+): Promise<HttpResponseEvent> {
+  return new Promise<HttpResponseEvent>((resolve, reject) => {
+    const call: Call = { event, resolve, reject, target: null, timer: null }
+    calls.set(event.request_id, call)
+
+    onClientGone(() => {
+      if (calls.get(event.request_id) !== call) return
+      console.warn(`[HTTP] client disconnected (request_id: ${event.request_id})`)
+      settle(call)
+      reject(new Error('CLIENT_DISCONNECTED: client closed the connection'))
+      // Tell the renderer to dismiss permission UI for this abandoned call.
+      notifyCancelled(call, 'CLIENT_DISCONNECTED')
+    })
+    if (calls.get(event.request_id) !== call) return
+
+    if (live && !live.isDestroyed()) {
+      deliver(call, live)
+      return
+    }
+    call.timer = setTimeout(() => {
+      settle(call)
+      reject(new Error(`WALLET_BRIDGE_UNAVAILABLE: no wallet window became ready within ${RENDERER_GRACE_MS / 1000}s`))
+    }, RENDERER_GRACE_MS)
+  })
+}
+
+/** Route a renderer's answer to its call. Answers from any other renderer are ignored. */
+export function completeFromRenderer(sender: Renderer, response: HttpResponseEvent): void {
+  const call = calls.get(response?.request_id)
+  if (!call || call.target?.id !== sender.id) return
+  settle(call)
+  call.resolve(response)
+}
+
+/** A wallet renderer has registered its request listener; deliver anything waiting. */
+export function walletRendererReady(renderer: Renderer): void {
+  if (!walletContents.has(renderer.id)) return
+  live = renderer
+  for (const call of calls.values()) {
+    if (!call.target) deliver(call, renderer)
+  }
+}
+
+/** Fail calls delivered to `renderer`; new calls wait for the next ready renderer. */
+export function walletRendererLost(renderer: Renderer, reason: string): void {
+  if (live?.id === renderer.id) live = null
+  const error = new Error(`WALLET_BRIDGE_UNAVAILABLE: ${reason}`)
+  for (const call of [...calls.values()]) {
+    if (call.target?.id !== renderer.id) continue
+    settle(call)
+    call.reject(error)
+  }
+}
+
+/**
+ * Fail every call, delivered or waiting (shutdown, vault lock). Renderers
+ * still working on a delivered call are told to cancel it, so nothing queued
+ * behind a prompt is signed after the caller has been answered.
+ */
+export function failAllBridgeCalls(reason: string): void {
+  if (calls.size === 0) return
+  console.error(`[HTTP] failing ${calls.size} pending request(s): ${reason}`)
+  const error = new Error(reason)
+  const code = reason.split(':')[0]
+  for (const call of [...calls.values()]) {
+    settle(call)
+    call.reject(error)
+    notifyCancelled(call, code)
+  }
+}
+
+/**
+ * Register a wallet window. Its renderer becomes the bridge target once it
+ * reports ready, and stops being one when it reloads, crashes or closes.
+ */
+export function attachWalletWindow(win: BrowserWindow): void {
+  const contents = win.webContents
+  walletWindow = win
+  walletContents.add(contents.id)
+  const lost = (reason: string) => {
+    walletRendererLost(contents, reason)
+    // The approval window's prompts are rendered by this renderer; without it
+    // the window would show stale prompts nobody can answer.
+    if (approvalWindow && !approvalWindow.isDestroyed()) approvalWindow.close()
+  }
+
+  contents.on('render-process-gone', (_event, details) => lost(`renderer process gone (${details.reason})`))
+  // Full reloads drop in-flight IPC handlers; the reloaded page reports ready
+  // again. In-page (hash route) and subframe navigations keep the renderer.
+  contents.on('did-start-navigation', (event) => {
+    if (event.isMainFrame && !event.isSameDocument) lost('renderer reloading')
+  })
+  contents.on('destroyed', () => {
+    lost('webContents destroyed')
+    walletContents.delete(contents.id)
+  })
+  win.on('closed', () => {
+    lost('window closed')
+    if (walletWindow === win) walletWindow = null
+  })
+
+  contents.on('did-create-window', (child, details) => {
+    if (details.frameName !== APPROVAL_WINDOW_NAME) return
+    approvalWindow = child
+    child.on('closed', () => {
+      if (approvalWindow === child) approvalWindow = null
+    })
+    child.focus()
+  })
+}
+
+/** Whether prompts go to the approval window rather than the dashboard. */
+export function setApprovalMode(enabled: boolean): void {
+  approvalMode = enabled
+}
+
+/**
+ * The window permission prompts are shown in: the approval window when open,
+ * otherwise the dashboard. Null in approval mode before the approval window
+ * exists; it takes focus itself when it opens.
+ */
+export function promptWindow(): BrowserWindow | null {
+  if (approvalWindow && !approvalWindow.isDestroyed()) return approvalWindow
+  if (approvalMode) return null
+  return walletWindow && !walletWindow.isDestroyed() ? walletWindow : null
+}
+
+export function registerBridgeDispatcherIpc(): void {
+  ipcMain.on('http-response', (event, response: HttpResponseEvent) => {
+    completeFromRenderer(event.sender, response)
+  })
+  ipcMain.on('bridge:renderer-ready', (event) => {
+    walletRendererReady(event.sender)
+  })
+  ipcMain.on('bridge:set-approval-window', (_event, enabled: boolean) => {
+    setApprovalMode(enabled === true)
+  })
+}
+
+/** Test-only: forget windows and drop pending calls without settling them. */
+export function _resetForTests(): void {
+  for (const call of calls.values()) if (call.timer) clearTimeout(call.timer)
+  calls.clear()
+  walletContents.clear()
+  walletWindow = null
+  live = null
+  approvalWindow = null
+  approvalMode = false
+}
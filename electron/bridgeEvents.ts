@@ -0,0 +1,378 @@
+/**
+ * Server-sent event stream of wallet events for connected apps.
+ *
+ * `GET /events` keeps a response open and pushes one SSE message per wallet
+ * event, so apps can react to payments and state changes without polling:
+ *
+ *   id: 42
+ *   event: action.status
+ *   data: {"txid":"…","status":"completed","blockHeight":880000}
+ *
+ * Events come from the main process (vault lock state, storage writes), the
+ * monitor worker (broadcast / proof results) and the renderer (peer-token
+ * messages, forwarded over `bridge-events:publish`). A short
+ * history lets a reconnecting client resume with `Last-Event-ID`.
+ *
+ * A stream only carries its own app's events. Vault lock state goes to every
+ * app; any other event goes to an app only when it names a txid the app's
+ * calls created or brought in, or a basket the app has used through the
+ * bridge (which the wallet's basket permission had to allow). Both are
+ * learned from bridge calls as they complete (`trackBridgeCall`) and kept
+ * for this run of the wallet only.
+ *
+ * Browsers' `EventSource` cannot send the bearer token, so `/events` also
+ * takes a single-use `ticket` minted by `POST /events/ticket`. The pairing
+ * token itself never goes in a URL.
+ */
+import { ipcMain } from 'electron'
+import { randomBytes } from 'crypto'
+import type { ServerResponse } from 'http'
+
+export type BridgeEventType =
+  | 'action.status'
+  | 'output.internalized'
+  | 'peertoken.incoming'
+  | 'vault.locked'
+  | 'vault.unlocked'
+
+export const BRIDGE_EVENT_TYPES: ReadonlySet<BridgeEventType> = new Set<BridgeEventType>([
+  'action.status',
+  'output.internalized',
+  'peertoken.incoming',
+  'vault.locked',
+  'vault.unlocked',
+])
+
+/** Types the renderer may publish; the rest originate in the main process. */
+const RENDERER_EVENT_TYPES: ReadonlySet<BridgeEventType> = new Set<BridgeEventType>([
+  'peertoken.incoming',
+])
+
+export interface BridgeEvent {
+  id: number
+  type: BridgeEventType
+  /** ISO timestamp of when the wallet saw the event. */
+  at: string
+  data: Record<string, unknown>
+}
+
+/** Events kept for `Last-Event-ID` replay. */
+const HISTORY_SIZE = 200
+/** Comment line sent on idle streams so proxies and clients keep them open. */
+const HEARTBEAT_MS = 15_000
+/** Open streams allowed per origin; a POS terminal needs one. */
+export const MAX_STREAMS_PER_ORIGIN = 4
+/** How long a stream ticket can be redeemed. */
+export const STREAM_TICKET_TTL_MS = 30_000
+/** Txids and baskets remembered per run; the oldest are forgotten first. */
+const MAX_TRACKED_KEYS = 10_000
+
+type Listener = (event: BridgeEvent) => void
+
+let nextId = 1
+let history: BridgeEvent[] = []
+const listeners = new Set<Listener>()
+/** Open streams by origin, so a revoked pairing can be cut off immediately. */
+const streams = new Map<string, Set<ServerResponse>>()
+/** txid → origins whose calls created or internalized it. */
+const actionOwners = new Map<string, Set<string>>()
+/** basket → origins that have used it through the bridge. */
+const basketHolders = new Map<string, Set<string>>()
+/** Unredeemed stream tickets. */
+const tickets = new Map<string, { origin: string; expiresAt: number }>()
+
+function addHolder(map: Map<string, Set<string>>, key: string, origin: string): void {
+  const holders = map.get(key) ?? new Set<string>()
+  holders.add(origin)
+  // Re-insert so the map stays oldest-first for eviction.
+  map.delete(key)
+  map.set(key, holders)
+  for (const oldest of map.keys()) {
+    if (map.size <= MAX_TRACKED_KEYS) break
+    map.delete(oldest)
+  }
+}
+
+function parseJson(text: string): any {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return null
+  }
+}
+
+/** Subject txid of an AtomicBEEF (BRC-95): a 4-byte prefix, then the txid reversed. */
+export function atomicBeefTxid(tx: unknown): string | null {
+  if (!Array.isArray(tx) || tx.length < 36) return null
+  if (tx[0] !== 1 || tx[1] !== 1 || tx[2] !== 1 || tx[3] !== 1) return null
+  const bytes = tx.slice(4, 36)
+  if (!bytes.every((b) => Number.isInteger(b) && b >= 0 && b <= 255)) return null
+  return bytes.reverse().map((b: number) => b.toString(16).padStart(2, '0')).join('')
+}
+
+function txidsOf(reply: any): string[] {
+  const txids: string[] = []
+  if (typeof reply?.txid === 'string') txids.push(reply.txid)
+  if (Array.isArray(reply?.txids)) txids.push(...reply.txids.filter((t: unknown) => typeof t === 'string'))
+  return txids
+}
+
+function basketsOf(path: string, request: any): string[] {
+  switch (path) {
+    case '/createAction':
+      return (request?.outputs ?? []).map((o: any) => o?.basket)
+    case '/internalizeAction':
+      return (request?.outputs ?? []).map((o: any) => o?.insertionRemittance?.basket)
+    case '/listOutputs':
+    case '/relinquishOutput':
+      return [request?.basket]
+    default:
+      return []
+  }
+}
+
+/** The calls in one bridge request: itself, or each method of a `/rpc` call or batch. */
+function callsOf(path: string, request: any): Array<{ path: string; request: any; id?: unknown }> {
+  if (path !== '/rpc') return [{ path, request }]
+  return (Array.isArray(request) ? request : [request])
+    .filter((c: any) => typeof c?.method === 'string')
+    .map((c: any) => ({ path: `/${c.method}`, request: c.params, id: c.id }))
+}
+
+/**
+ * Learn what a bridge call shows `origin` owns. Call before forwarding it;
+ * call the returned function with the reply. Nothing is recorded until the
+ * call succeeds, so an app cannot claim a tx or basket by naming it in a call
+ * that is still running or fails: reply `txid` / `txids`, the tx an
+ * `internalizeAction` brought in, and the baskets the call wrote to or listed.
+ */
+export function trackBridgeCall(
+  origin: string,
+  path: string,
+  body: string
+): (status: number, replyBody: string) => void {
+  const calls = callsOf(path, parseJson(body))
+
+  return (status, replyBody) => {
+    const reply = status >= 200 && status < 300 ? parseJson(replyBody) : null
+    const rpcReplies = Array.isArray(reply) ? reply : [reply]
+    calls.forEach((call) => {
+      let result = reply
+      if (path === '/rpc') {
+        const match = rpcReplies.find((r: any) => r && call.id !== undefined && r.id === call.id)
+        result = match && !match.error ? match.result ?? {} : null
+      }
+      if (!result) return
+      const internalized = call.path === '/internalizeAction' ? atomicBeefTxid(call.request?.tx) : null
+      if (internalized) addHolder(actionOwners, internalized, origin)
+      for (const txid of txidsOf(result)) addHolder(actionOwners, txid, origin)
+      for (const basket of basketsOf(call.path, call.request)) {
+        if (typeof basket === 'string' && basket) addHolder(basketHolders, basket, origin)
+      }
+    })
+  }
+}
+
+/** Whether `origin` may see `event`. */
+export function eventVisibleTo(event: BridgeEvent, origin: string): boolean {
+  if (event.type === 'vault.locked' || event.type === 'vault.unlocked') return true
+  const { txid, basket } = event.data
+  if (typeof txid === 'string' && actionOwners.get(txid)?.has(origin)) return true
+  if (typeof basket === 'string' && basketHolders.get(basket)?.has(origin)) return true
+  return false
+}
+
+/** Mint a single-use ticket that opens one stream for `origin`. */
+export function issueStreamTicket(origin: string, now: number = Date.now()): string {
+  for (const [ticket, entry] of tickets) {
+    if (entry.expiresAt <= now) tickets.delete(ticket)
+  }
+  const ticket = randomBytes(24).toString('base64url')
+  tickets.set(ticket, { origin, expiresAt: now + STREAM_TICKET_TTL_MS })
+  return ticket
+}
+
+/** Redeem a ticket; the origin it was minted for, or null if unknown, used or expired. */
+export function redeemStreamTicket(ticket: string, now: number = Date.now()): string | null {
+  const entry = tickets.get(ticket)
+  if (!entry) return null
+  tickets.delete(ticket)
+  return entry.expiresAt > now ? entry.origin : null
+}
+
+export function publishBridgeEvent(
+  type: BridgeEventType,
+  data: Record<string, unknown> = {}
+): BridgeEvent {
+  const event: BridgeEvent = { id: nextId++, type, at: new Date().toISOString(), data }
+  history.push(event)
+  if (history.length > HISTORY_SIZE) history = history.slice(-HISTORY_SIZE)
+  for (const listener of [...listeners]) {
+    try {
+      listener(event)
+    } catch (err) {
+      console.warn('[BridgeEvents] listener failed:', err)
+    }
+  }
+  return event
+}
+
+/**
+ * Publish one `output.internalized` event per basket that `internalizeAction`
+ * stored outputs in. Wallet payments land in the `default` basket, whose
+ * event also carries the change to the spendable balance.
+ */
+export function publishInternalizedOutputs(
+  args: { outputs?: Array<{ outputIndex: number; protocol: string; insertionRemittance?: { basket?: string } }> },
+  result: { txid?: string; satoshis?: number; isMerge?: boolean }
+): void {
+  const byBasket = new Map<string, number[]>()
+  for (const output of args?.outputs ?? []) {
+    const basket = output.protocol === 'wallet payment'
+      ? 'default'
+      : output.insertionRemittance?.basket
+    if (!basket) continue
+    byBasket.set(basket, [...(byBasket.get(basket) ?? []), output.outputIndex])
+  }
+  for (const [basket, outputIndexes] of byBasket) {
+    publishBridgeEvent('output.internalized', {
+      txid: result?.txid,
+      basket,
+      outputIndexes,
+      merged: Boolean(result?.isMerge),
+      ...(basket === 'default' && typeof result?.satoshis === 'number' ? { satoshis: result.satoshis } : {}),
+    })
+  }
+}
+
+export function subscribeBridgeEvents(listener: Listener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/** Buffered events newer than `lastEventId`, oldest first. */
+export function bridgeEventsSince(lastEventId: number): BridgeEvent[] {
+  return history.filter((e) => e.id > lastEventId)
+}
+
+/**
+ * Parse a `?types=a,b` filter. Null means "everything"; an error string names
+ * the first type this wallet does not emit.
+ */
+export function parseEventTypes(
+  raw: string | undefined
+): { ok: true; types: Set<BridgeEventType> | null } | { ok: false; error: string } {
+  if (!raw) return { ok: true, types: null }
+  const types = new Set<BridgeEventType>()
+  for (const part of raw.split(',')) {
+    const name = part.trim()
+    if (!name) continue
+    if (!BRIDGE_EVENT_TYPES.has(name as BridgeEventType)) {
+      return { ok: false, error: `Unknown event type "${name}".` }
+    }
+    types.add(name as BridgeEventType)
+  }
+  return { ok: true, types: types.size > 0 ? types : null }
+}
+
+export function formatSseEvent(event: BridgeEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify({ ...event.data, at: event.at })}\n\n`
+}
+
+export function openStreamCount(origin: string): number {
+  return streams.get(origin)?.size ?? 0
+}
+
+/**
+ * Turn `res` into an event stream for `origin`. The caller has already
+ * authenticated the request; this only writes headers, replays missed events
+ * and forwards new ones until either side closes.
+ */
+export function serveEventStream(
+  res: ServerResponse,
+  options: { origin: string; types: Set<BridgeEventType> | null; lastEventId?: number }
+): void {
+  const { origin, types } = options
+  const wanted = (event: BridgeEvent) => (!types || types.has(event.type)) && eventVisibleTo(event, origin)
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Tell reverse proxies not to buffer the stream.
+    'X-Accel-Buffering': 'no',
+  })
+  res.write('retry: 2000\n\n')
+
+  if (options.lastEventId !== undefined) {
+    for (const event of bridgeEventsSince(options.lastEventId)) {
+      if (wanted(event)) res.write(formatSseEvent(event))
+    }
+  }
+
+  const unsubscribe = subscribeBridgeEvents((event) => {
+    if (wanted(event) && !res.writableEnded) res.write(formatSseEvent(event))
+  })
+  const heartbeat = setInterval(() => {
+    if (!res.writableEnded) res.write(': keep-alive\n\n')
+  }, HEARTBEAT_MS)
+
+  let open = streams.get(origin)
+  if (!open) {
+    open = new Set()
+    streams.set(origin, open)
+  }
+  open.add(res)
+
+  const close = () => {
+    clearInterval(heartbeat)
+    unsubscribe()
+    const set = streams.get(origin)
+    set?.delete(res)
+    if (set && set.size === 0) streams.delete(origin)
+  }
+  // Not req 'close': for a bodyless GET that can fire once the request has
+  // been read, long before the client goes away.
+  res.on('close', close)
+}
+
+/** End every open stream for `origin`, e.g. after its pairing is revoked. */
+export function closeEventStreams(origin: string): void {
+  for (const res of [...(streams.get(origin) ?? [])]) {
+    res.end()
+  }
+  streams.delete(origin)
+  for (const [ticket, entry] of tickets) {
+    if (entry.origin === origin) tickets.delete(ticket)
+  }
+}
+
+/** End every open stream (app shutdown). */
+export function closeAllEventStreams(): void {
+  for (const origin of [...streams.keys()]) closeEventStreams(origin)
+}
+
+/**
+ * Accept peer-token notifications from the renderer, which owns the
+ * MessageBox clients. Other event types are only ever raised in this process.
+ */
+export function registerBridgeEventsIpc(): void {
+  ipcMain.on('bridge-events:publish', (_event, type: BridgeEventType, data: unknown) => {
+    if (!RENDERER_EVENT_TYPES.has(type)) return
+    if (!data || typeof data !== 'object' || Array.isArray(data)) return
+    publishBridgeEvent(type, data as Record<string, unknown>)
+  })
+}
+
+/** Test-only: clear module state */
+export function _resetForTests(): void {
+  nextId = 1
+  history = []
+  listeners.clear()
+  streams.clear()
+  actionOwners.clear()
+  basketHolders.clear()
+  tickets.clear()
+}
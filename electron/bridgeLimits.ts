@@ -0,0 +1,290 @@
+import { app, ipcMain } from 'electron';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Admission limits for the wallet bridge (HTTP listeners and the local socket).
+ *
+ * Request rates use token buckets: `*PerSecond` is the sustained refill rate and
+ * `*Burst` the bucket size. In-flight caps count calls the renderer has not
+ * answered yet — including ones parked behind a permission prompt — so a looping
+ * dApp cannot stack up modals. Body limits are keyed by route path, with `*` as
+ * the fallback.
+ */
+export interface BridgeLimits {
+  perOriginRequestsPerSecond: number;
+  perOriginBurst: number;
+  globalRequestsPerSecond: number;
+  globalBurst: number;
+  maxInFlightPerOrigin: number;
+  maxInFlightGlobal: number;
+  maxBodyBytes: Record<string, number>;
+}
+
+export const DEFAULT_BRIDGE_LIMITS: BridgeLimits = {
+  perOriginRequestsPerSecond: 20,
+  perOriginBurst: 40,
+  globalRequestsPerSecond: 100,
+  globalBurst: 200,
+  maxInFlightPerOrigin: 8,
+  maxInFlightGlobal: 64,
+  maxBodyBytes: {
+    '*': 1024 * 1024,
+    // BEEF-carrying calls can legitimately be large.
+    '/createAction': 20 * 1024 * 1024,
+    '/signAction': 20 * 1024 * 1024,
+    '/internalizeAction': 20 * 1024 * 1024,
+    // JSON-RPC batches can carry any of the above.
+    '/rpc': 20 * 1024 * 1024,
+  },
+};
+
+/** No route's body limit may be configured above this. */
+export const HARD_MAX_BODY_BYTES = 50 * 1024 * 1024;
+
+export type BridgeAdmission =
+  | { ok: true; release: () => void }
+  | {
+    ok: false;
+    status: 413 | 429;
+    code: 'PAYLOAD_TOO_LARGE' | 'RATE_LIMITED' | 'TOO_MANY_IN_FLIGHT';
+    description: string;
+    retryAfterSeconds?: number;
+  };
+
+/** Callers without an origin header share one bucket. */
+const UNKNOWN_ORIGIN = '(unknown)';
+
+/**
+ * `/pair` takes no token, so its `Origin` proves nothing. Every pairing
+ * request shares this one bucket, and only one may wait on the user at a time.
+ */
+const PAIRING_KEY = '(pairing)';
+
+/**
+ * Upper bound on per-origin buckets. `Origin` is caller-chosen, so without
+ * one a client rotating it grows the map for the life of the process.
+ */
+export const MAX_ORIGIN_BUCKETS = 1000;
+
+/** How often buckets that have refilled to full are dropped. */
+const BUCKET_SWEEP_INTERVAL_MS = 60_000;
+
+let cachedLimits: BridgeLimits | null = null;
+
+function getLimitsPath(): string {
+  return path.join(app.getPath('userData'), 'bridge-limits.json');
+}
+
+function positiveInt(value: unknown, fallback: number): number {
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 1 ? Math.floor(n) : fallback;
+}
+
+/** Coerce untrusted input (disk or IPC) into a complete, sane limits object. */
+export function normalizeBridgeLimits(input: Partial<BridgeLimits> | null | undefined): BridgeLimits {
+  const d = DEFAULT_BRIDGE_LIMITS;
+  const src = input ?? {};
+  const maxBodyBytes: Record<string, number> = {};
+  const rawBody = src.maxBodyBytes && typeof src.maxBodyBytes === 'object' ? src.maxBodyBytes : d.maxBodyBytes;
+  for (const [route, bytes] of Object.entries(rawBody)) {
+    const key = route.trim();
+    if (key !== '*' && !key.startsWith('/')) continue;
+    maxBodyBytes[key] = Math.min(positiveInt(bytes, d.maxBodyBytes['*']), HARD_MAX_BODY_BYTES);
+  }
+  if (!maxBodyBytes['*']) maxBodyBytes['*'] = d.maxBodyBytes['*'];
+
+  const limits: BridgeLimits = {
+    perOriginRequestsPerSecond: positiveInt(src.perOriginRequestsPerSecond, d.perOriginRequestsPerSecond),
+    perOriginBurst: positiveInt(src.perOriginBurst, d.perOriginBurst),
+    globalRequestsPerSecond: positiveInt(src.globalRequestsPerSecond, d.globalRequestsPerSecond),
+    globalBurst: positiveInt(src.globalBurst, d.globalBurst),
+    maxInFlightPerOrigin: positiveInt(src.maxInFlightPerOrigin, d.maxInFlightPerOrigin),
+    maxInFlightGlobal: positiveInt(src.maxInFlightGlobal, d.maxInFlightGlobal),
+    maxBodyBytes,
+  };
+  // A global cap below the per-origin one would make the per-origin one meaningless.
+  limits.globalBurst = Math.max(limits.globalBurst, limits.perOriginBurst);
+  limits.maxInFlightGlobal = Math.max(limits.maxInFlightGlobal, limits.maxInFlightPerOrigin);
+  return limits;
+}
+
+export function getBridgeLimits(): BridgeLimits {
+  if (cachedLimits) return cachedLimits;
+  try {
+    const filePath = getLimitsPath();
+    if (fs.existsSync(filePath)) {
+      cachedLimits = normalizeBridgeLimits(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+      return cachedLimits;
+    }
+  } catch (error) {
+    console.error('[BridgeLimits] Failed to read limits, using defaults:', error);
+  }
+  cachedLimits = normalizeBridgeLimits(DEFAULT_BRIDGE_LIMITS);
+  return cachedLimits;
+}
+
+function writeBridgeLimits(limits: BridgeLimits): void {
+  fs.mkdirSync(app.getPath('userData'), { recursive: true });
+  fs.writeFileSync(getLimitsPath(), JSON.stringify(limits, null, 2), 'utf-8');
+  cachedLimits = limits;
+}
+
+export function maxBodyBytesFor(limits: BridgeLimits, route: string): number {
+  return limits.maxBodyBytes[route] ?? limits.maxBodyBytes['*'];
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Tracks buckets and in-flight counts. Limits are re-read on every call so
+ * changes from the settings panel apply without restarting the bridge.
+ */
+export class BridgeLimiter {
+  /** Least recently used first — `admit` re-inserts the bucket it touches. */
+  private readonly originBuckets = new Map<string, Bucket>();
+  private readonly globalBucket: Bucket;
+  private lastSweep: number;
+  private readonly inFlight = new Map<string, number>();
+  private inFlightTotal = 0;
+
+  constructor(
+    private readonly getLimits: () => BridgeLimits = getBridgeLimits,
+    private readonly now: () => number = Date.now
+  ) {
+    this.globalBucket = { tokens: getLimits().globalBurst, updatedAt: now() };
+    this.lastSweep = now();
+  }
+
+  /**
+   * Check one call against every limit. On success the caller holds an
+   * in-flight slot and must call `release()` exactly once when it finishes.
+   */
+  admit(origin: string | null, route: string, bodyBytes: number): BridgeAdmission {
+    const limits = this.getLimits();
+    const pairing = route === '/pair';
+    const key = pairing ? PAIRING_KEY : origin || UNKNOWN_ORIGIN;
+
+    const maxBody = maxBodyBytesFor(limits, route);
+    if (bodyBytes > maxBody) {
+      return {
+        ok: false,
+        status: 413,
+        code: 'PAYLOAD_TOO_LARGE',
+        description: `Request body is ${bodyBytes} bytes; ${route} accepts at most ${maxBody}.`,
+      };
+    }
+
+    const originInFlight = this.inFlight.get(key) ?? 0;
+    const maxInFlight = pairing ? 1 : limits.maxInFlightPerOrigin;
+    if (originInFlight >= maxInFlight || this.inFlightTotal >= limits.maxInFlightGlobal) {
+      const perOrigin = originInFlight >= maxInFlight;
+      return {
+        ok: false,
+        status: 429,
+        code: 'TOO_MANY_IN_FLIGHT',
+        description: pairing && perOrigin
+          ? 'A pairing request is already waiting for the user. Try again once it is answered.'
+          : perOrigin
+          ? `${key} already has ${originInFlight} unanswered wallet calls (limit ${limits.maxInFlightPerOrigin}). Wait for them to finish.`
+          : `The wallet is handling ${this.inFlightTotal} calls (limit ${limits.maxInFlightGlobal}). Try again shortly.`,
+        retryAfterSeconds: 1,
+      };
+    }
+
+    const t = this.now();
+    this.evictBuckets(limits, t);
+    const originBucket = this.originBuckets.get(key) ?? { tokens: limits.perOriginBurst, updatedAt: t };
+    this.originBuckets.delete(key);
+    this.originBuckets.set(key, originBucket);
+    refill(originBucket, limits.perOriginRequestsPerSecond, limits.perOriginBurst, t);
+    refill(this.globalBucket, limits.globalRequestsPerSecond, limits.globalBurst, t);
+
+    if (originBucket.tokens < 1 || this.globalBucket.tokens < 1) {
+      const waitOrigin = (1 - originBucket.tokens) / limits.perOriginRequestsPerSecond;
+      const waitGlobal = (1 - this.globalBucket.tokens) / limits.globalRequestsPerSecond;
+      const limitedByOrigin = originBucket.tokens < 1;
+      return {
+        ok: false,
+        status: 429,
+        code: 'RATE_LIMITED',
+        description: limitedByOrigin
+          ? `${key} exceeded ${limits.perOriginRequestsPerSecond} requests per second.`
+          : `The wallet bridge exceeded ${limits.globalRequestsPerSecond} requests per second.`,
+        retryAfterSeconds: Math.max(1, Math.ceil(Math.max(waitOrigin, waitGlobal))),
+      };
+    }
+
+    originBucket.tokens -= 1;
+    this.globalBucket.tokens -= 1;
+    this.inFlight.set(key, originInFlight + 1);
+    this.inFlightTotal += 1;
+
+    let released = false;
+    return {
+      ok: true,
+      release: () => {
+        if (released) return;
+        released = true;
+        const remaining = (this.inFlight.get(key) ?? 1) - 1;
+        if (remaining > 0) this.inFlight.set(key, remaining);
+        else this.inFlight.delete(key);
+        this.inFlightTotal = Math.max(0, this.inFlightTotal - 1);
+      },
+    };
+  }
+
+  /**
+   * Drop buckets that have refilled to full — a fresh bucket starts full, so
+   * forgetting one changes nothing. Past `MAX_ORIGIN_BUCKETS` the least
+   * recently used go too; that origin merely gets its burst back, and the
+   * global bucket still bounds the total.
+   */
+  private evictBuckets(limits: BridgeLimits, t: number): void {
+    const due = t - this.lastSweep >= BUCKET_SWEEP_INTERVAL_MS;
+    if (!due && this.originBuckets.size < MAX_ORIGIN_BUCKETS) return;
+    this.lastSweep = t;
+    for (const [key, bucket] of this.originBuckets) {
+      const elapsed = Math.max(0, t - bucket.updatedAt) / 1000;
+      if (bucket.tokens + elapsed * limits.perOriginRequestsPerSecond >= limits.perOriginBurst) {
+        this.originBuckets.delete(key);
+      }
+    }
+    for (const key of this.originBuckets.keys()) {
+      if (this.originBuckets.size < MAX_ORIGIN_BUCKETS) break;
+      this.originBuckets.delete(key);
+    }
+  }
+}
+
+function refill(bucket: Bucket, perSecond: number, burst: number, t: number): void {
+  const elapsed = Math.max(0, t - bucket.updatedAt) / 1000;
+  bucket.tokens = Math.min(burst, bucket.tokens + elapsed * perSecond);
+  bucket.updatedAt = t;
+}
+
+export function registerBridgeLimitsIpc(): void {
+  ipcMain.handle('bridge:get-limits', async () => ({
+    limits: getBridgeLimits(),
+    defaults: DEFAULT_BRIDGE_LIMITS,
+  }));
+
+  ipcMain.handle('bridge:set-limits', async (_event, limits: Partial<BridgeLimits>) => {
+    try {
+      const normalized = normalizeBridgeLimits(limits);
+      writeBridgeLimits(normalized);
+      return { success: true, limits: normalized };
+    } catch (error: any) {
+      console.error('[IPC] bridge:set-limits error:', error);
+      return { success: false, error: error.message };
+    }
+  });
+}
+
+/** Test helper: forget the cached file contents. */
+export function _resetForTests(): void {
+  cachedLimits = null;
+}
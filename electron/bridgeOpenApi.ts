@@ -0,0 +1,1052 @@
+/**
+ * Machine-readable contract for the wallet HTTP bridge.
+ *
+ * `BRIDGE_ROUTES` lists every path the bridge answers: the BRC-100 methods,
+ * the pairing / JSON-RPC / event endpoints and the BSV Desktop token routes
+ * (`/stas/*`, `/bsv-21/*`, `/dstas/transfer`, `/tokens/*`, `/peerToken/*`). It is served as
+ * an OpenAPI 3.1 document at `GET /openapi.json`, and request bodies are
+ * checked against the same schemas before they reach the renderer.
+ *
+ * When adding a `case` to the switch in src/onWalletReady.ts, add the route
+ * here too — test/bridgeOpenApi.test.ts fails until both sides agree.
+ */
+import { validateSchema, type JsonSchema } from './bridgeSchema.js'
+
+export interface BridgeRoute {
+  path: string
+  method: 'get' | 'post'
+  tag: 'BRC-100' | 'Bridge' | 'STAS' | 'BSV-21' | 'DSTAS' | 'Tokens' | 'Peer tokens'
+  summary: string
+  description?: string
+  /** JSON request body. Routes without one ignore any body they are sent. */
+  request?: JsonSchema
+  /** Example request body, also used to prefill the self-test page. */
+  example?: unknown
+  /**
+   * False when the body is documented but checked by the handler itself,
+   * e.g. `/rpc`, which must answer malformed calls with JSON-RPC errors.
+   */
+  validate?: boolean
+  response: JsonSchema
+  /** Route-specific error bodies, by status, on top of the shared ones. */
+  errors?: Record<number, { description: string; schema: JsonSchema }>
+  /** Reachable without a capability token (see UNPAIRED_PATHS in httpServer). */
+  unpaired?: boolean
+  /** Answered in the main process instead of the renderer's route switch. */
+  mainProcess?: boolean
+}
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` })
+const obj = (properties: Record<string, JsonSchema>, required: string[] = []): JsonSchema =>
+  ({ type: 'object', properties, required })
+const arrayOf = (items: JsonSchema): JsonSchema => ({ type: 'array', items })
+const str: JsonSchema = { type: 'string' }
+const bool: JsonSchema = { type: 'boolean' }
+const int: JsonSchema = { type: 'integer' }
+const count: JsonSchema = { type: 'integer', minimum: 0 }
+
+/** Shared schemas, published under `components.schemas` and used via $ref. */
+export const BRIDGE_SCHEMAS: Record<string, JsonSchema> = {
+  HexString: { type: 'string', pattern: '^[0-9a-fA-F]*$', description: 'a hex string' },
+  Base64String: { type: 'string', pattern: '^[A-Za-z0-9+/]*={0,2}$', description: 'a base64 string' },
+  TXIDHexString: { type: 'string', pattern: '^[0-9a-fA-F]{64}$', description: 'a 64-character hex txid' },
+  OutpointString: {
+    type: 'string',
+    pattern: '^[0-9a-fA-F]{64}\\.\\d+$',
+    description: 'an outpoint "<txid>.<vout>"',
+  },
+  PubKeyHex: {
+    type: 'string',
+    pattern: '^0[23][0-9a-fA-F]{64}$',
+    description: 'a compressed public key (66 hex characters)',
+  },
+  Base58Address: {
+    type: 'string',
+    pattern: '^[1-9A-HJ-NP-Za-km-z]{25,35}$',
+    description: 'a base58 P2PKH address',
+  },
+  Byte: { type: 'integer', minimum: 0, maximum: 255 },
+  Bytes: { type: 'array', items: { type: 'integer', minimum: 0, maximum: 255 } },
+  Satoshis: { type: 'integer', minimum: 0, maximum: 2_100_000_000_000_000 },
+  TokenAmount: {
+    anyOf: [
+      { type: 'string', pattern: '^\\d+$', description: 'a decimal integer string' },
+      { type: 'integer', minimum: 0 },
+    ],
+  },
+  WalletProtocol: {
+    type: 'array',
+    description: '[securityLevel, protocolName]',
+    prefixItems: [{ type: 'integer', minimum: 0, maximum: 2 }, { type: 'string' }],
+    minItems: 2,
+    maxItems: 2,
+  },
+  WalletCounterparty: {
+    anyOf: [ref('PubKeyHex'), { type: 'string', enum: ['self', 'anyone'] }],
+  },
+
+  // ── Errors ──────────────────────────────────────────────────────────────
+  BridgeError: {
+    type: 'object',
+    description: 'Raised by the bridge itself, before or instead of the wallet call.',
+    properties: {
+      status: { const: 'error' },
+      code: {
+        type: 'string',
+        enum: [
+          'INVALID_REQUEST',
+          'BRIDGE_TOKEN_REQUIRED',
+          'BRIDGE_TOKEN_INVALID',
+          'BRIDGE_TOKEN_ORIGIN_MISMATCH',
+          'PAYLOAD_TOO_LARGE',
+          'RATE_LIMITED',
+          'TOO_MANY_IN_FLIGHT',
+          'TOO_MANY_STREAMS',
+          'UNKNOWN_EVENT_TYPE',
+          'WALLET_LOCKED',
+          'WALLET_BRIDGE_UNAVAILABLE',
+          'HTTP_BRIDGE_ERROR',
+        ],
+      },
+      description: str,
+      retryAfterSeconds: count,
+      errors: { ...arrayOf(str), description: 'Every schema problem, for INVALID_REQUEST.' },
+    },
+    required: ['status', 'code', 'description'],
+  },
+  WalletError: {
+    type: 'object',
+    description: 'The wallet rejected a BRC-100 call.',
+    properties: { message: str },
+    required: ['message'],
+  },
+  RouteError: {
+    type: 'object',
+    description: 'A token route failed or its services are not ready yet.',
+    properties: { error: str },
+    required: ['error'],
+  },
+  TransferFailure: {
+    type: 'object',
+    properties: { ok: { const: false }, reason: str },
+    required: ['ok', 'reason'],
+  },
+  WerrReviewActions: {
+    type: 'object',
+    description:
+      'WERR_REVIEW_ACTIONS (code 5): the transaction was signed but broadcast needs review. ' +
+      '`tx` / `txid` let the caller recover it.',
+    properties: {
+      name: str,
+      code: { const: 5 },
+      isError: { const: true },
+      message: str,
+      reviewActionResults: arrayOf(obj({ txid: ref('TXIDHexString'), status: str }, ['txid', 'status'])),
+      sendWithResults: arrayOf(obj({ txid: ref('TXIDHexString'), status: str }, ['txid', 'status'])),
+      txid: ref('TXIDHexString'),
+      tx: ref('Bytes'),
+      noSendChange: arrayOf(ref('OutpointString')),
+    },
+    required: ['code', 'reviewActionResults', 'sendWithResults'],
+  },
+
+  // ── Results ─────────────────────────────────────────────────────────────
+  SendWithResult: obj({ txid: ref('TXIDHexString'), status: { type: 'string', enum: ['unproven', 'sending', 'failed'] } }),
+  WalletCertificate: obj({
+    type: ref('Base64String'),
+    subject: ref('PubKeyHex'),
+    serialNumber: ref('Base64String'),
+    certifier: ref('PubKeyHex'),
+    revocationOutpoint: ref('OutpointString'),
+    signature: ref('HexString'),
+    fields: { type: 'object', additionalProperties: str },
+  }, ['type', 'subject', 'serialNumber', 'certifier', 'revocationOutpoint', 'signature', 'fields']),
+  CertificateList: obj({
+    totalCertificates: count,
+    certificates: arrayOf(ref('WalletCertificate')),
+  }, ['totalCertificates', 'certificates']),
+  ReceiveAddress: obj({
+    address: ref('Base58Address'),
+    ownerFieldHash160: ref('HexString'),
+    brc42KeyId: str,
+    keyIndex: count,
+  }, ['address', 'ownerFieldHash160', 'brc42KeyId', 'keyIndex']),
+  TxidRequest: obj({ txid: ref('TXIDHexString') }, ['txid']),
+  RegistrationResult: { type: 'object', description: 'Discovery service report for the registered transaction.' },
+}
+
+const keyArgs = {
+  protocolID: ref('WalletProtocol'),
+  keyID: str,
+  counterparty: ref('WalletCounterparty'),
+  privileged: bool,
+  privilegedReason: str,
+  seekPermission: bool,
+}
+
+const TOKEN_SPEND_NOTE =
+  'The user approves each transfer in a prompt unless an allowance granted to this app ' +
+  'for the token still covers the amount.'
+
+const noBody = (
+  path: string,
+  summary: string,
+  response: JsonSchema,
+  extra: Partial<BridgeRoute> = {}
+): BridgeRoute => ({ path, method: 'get', tag: 'BRC-100', summary, response, ...extra })
+
+export const BRIDGE_ROUTES: BridgeRoute[] = [
+  // ── Bridge ────────────────────────────────────────────────────────────────
+  {
+    path: '/openapi.json',
+    method: 'get',
+    tag: 'Bridge',
+    summary: 'This document',
+    response: { type: 'object' },
+    unpaired: true,
+    mainProcess: true,
+  },
+  {
+    path: '/pair',
+    method: 'post',
+    tag: 'Bridge',
+    summary: 'Request a capability token for the calling origin',
+    description: 'Shows an approval prompt. Send the token as `Authorization: Bearer <token>` afterwards.',
+    response: obj({ status: { const: 'paired' }, origin: str, token: str }, ['status', 'origin', 'token']),
+    errors: {
+      403: { description: 'The user declined the pairing.', schema: ref('WalletError') },
+    },
+    unpaired: true,
+  },
+  {
+    path: '/rpc',
+    method: 'post',
+    tag: 'Bridge',
+    summary: 'JSON-RPC 2.0 call or batch of BRC-100 methods',
+    description:
+      'Always answers 200 (or 204 for notifications only); per-call failures are JSON-RPC error ' +
+      'objects. A WERR_REVIEW_ACTIONS failure has code 5 and the REST error body in `error.data`.',
+    request: {
+      anyOf: [
+        ref('JsonRpcRequest'),
+        { type: 'array', minItems: 1, maxItems: 1000, items: ref('JsonRpcRequest') },
+      ],
+    },
+    example: [{ jsonrpc: '2.0', id: 1, method: 'getHeight', params: {} }],
+    validate: false,
+    response: {
+      anyOf: [ref('JsonRpcResponse'), arrayOf(ref('JsonRpcResponse'))],
+    },
+  },
+  {
+    path: '/events',
+    method: 'get',
+    tag: 'Bridge',
+    summary: 'Server-sent stream of wallet events',
+    description:
+      'Responds with `text/event-stream`. Carries vault lock state plus only the events for txids ' +
+      'this app created or internalized and baskets it has used. Query: `types` (comma-separated ' +
+      'event names), `ticket` (from /events/ticket, for EventSource, which cannot send headers), ' +
+      '`lastEventId`.',
+    response: { type: 'string', description: 'SSE messages named action.status, output.internalized, ' +
+      'peertoken.incoming, vault.locked, vault.unlocked.' },
+    mainProcess: true,
+  },
+  {
+    path: '/events/ticket',
+    method: 'post',
+    tag: 'Bridge',
+    summary: 'Mint a single-use ticket for opening /events',
+    description: 'Pass it as `/events?ticket=` within `expiresInSeconds`, from the same origin. ' +
+      'The pairing token never has to appear in a URL.',
+    response: obj({ ticket: str, expiresInSeconds: int }, ['ticket', 'expiresInSeconds']),
+    mainProcess: true,
+  },
+
+  // ── BRC-100 ───────────────────────────────────────────────────────────────
+  {
+    path: '/createAction',
+    method: 'post',
+    tag: 'BRC-100',
+    summary: 'Create (and by default sign and broadcast) a transaction',
+    request: obj({
+      description: str,
+      inputBEEF: ref('Bytes'),
+      inputs: arrayOf(obj({
+        outpoint: ref('OutpointString'),
+        inputDescription: str,
+        unlockingScript: ref('HexString'),
+        unlockingScriptLength: count,
+        sequenceNumber: count,
+      }, ['outpoint', 'inputDescription'])),
+      outputs: arrayOf(obj({
+        lockingScript: ref('HexString'),
+        satoshis: ref('Satoshis'),
+        outputDescription: str,
+        basket: str,
+        customInstructions: str,
+        tags: arrayOf(str),
+      }, ['lockingScript', 'satoshis', 'outputDescription'])),
+      lockTime: count,
+      version: count,
+      labels: arrayOf(str),
+      options: obj({
+        signAndProcess: bool,
+        acceptDelayedBroadcast: bool,
+        trustSelf: { type: 'string', enum: ['known'] },
+        knownTxids: arrayOf(ref('TXIDHexString')),
+        returnTXIDOnly: bool,
+        noSend: bool,
+        noSendChange: arrayOf(ref('OutpointString')),
+        sendWith: arrayOf(ref('TXIDHexString')),
+        randomizeOutputs: bool,
+      }),
+    }, ['description']),
+    example: {
+      description: 'Tip the author',
+      outputs: [{ lockingScript: '76a914000000000000000000000000000000000000000088ac', satoshis: 1000, outputDescription: 'tip' }],
+    },
+    response: obj({
+      txid: ref('TXIDHexString'),
+      tx: ref('Bytes'),
+      noSendChange: arrayOf(ref('OutpointString')),
+      sendWithResults: arrayOf(ref('SendWithResult')),
+      signableTransaction: obj({ tx: ref('Bytes'), reference: ref('Base64String') }, ['tx', 'reference']),
+    }),
+    errors: {
+      400: { description: 'Wallet error or review required.', schema: { anyOf: [ref('WalletError'), ref('WerrReviewActions')] } },
+    },
+  },
+  {
+    path: '/signAction',
+    method: 'post',
+    tag: 'BRC-100',
+    summary: 'Sign a transaction created with signAndProcess: false',
+    request: obj({
+      spends: {
+        type: 'object',
+        description: 'Unlocking scripts keyed by input index.',
+        additionalProperties: obj({ unlockingScript: ref('HexString'), sequenceNumber: count }, ['unlockingScript']),
+      },
+      reference: ref('Base64String'),
+      options: obj({
+        acceptDelayedBroadcast: bool,
+        returnTXIDOnly: bool,
+        noSend: bool,
+        sendWith: arrayOf(ref('TXIDHexString')),
+      }),
+    }, ['spends', 'reference']),
+    response: obj({
+      txid: ref('TXIDHexString'),
+      tx: ref('Bytes'),
+      sendWithResults: arrayOf(ref('SendWithResult')),
+    }),
+    errors: {
+      400: { description: 'Wallet error or review required.', schema: { anyOf: [ref('WalletError'), ref('WerrReviewActions')] } },
+    },
+  },
+  {
+    path: '/abortAction',
+    method: 'post',
+    tag: 'BRC-100',
+    summary: 'Abort an unsigned or unprocessed action',
+    request: obj({ reference: str }, ['reference']),
+    response: obj({ aborted: { const: true } }, ['aborted']),
+  },
+  {
+    path: '/listActions',
+    method: 'post',
+    tag: 'BRC-100',
+    summary: 'List transactions carrying the given labels',
+    request: obj({
+      labels: arrayOf(str),
+      labelQueryMode: { type: 'string', enum: ['any', 'all'] },
+      includeLabels: bool,
+      includeInputs: bool,
+      includeInputSourceLockingScripts: bool,
+      includeInputUnlockingScripts: bool,
+      includeOutputs: bool,
+      includeOutputLockingScripts: bool,
+      limit: { type: 'integer', minimum: 1, maximum: 10000 },
+      offset: int,
+      seekPermission: bool,
+    }, ['labels']),
+    example: { labels: [], limit: 10 },
+    response: obj({ totalActions: count, actions: arrayOf({ type: 'object' }) }, ['totalActions', 'actions']),
+  },
+  {
+    path: '/internalizeAction',
+    method: 'post',
+    tag: 'BRC-100',
+    summary: 'Take ownership of outputs in an incoming transaction',
+    request: obj({
+      tx: { ...ref('Bytes'), description: 'AtomicBEEF' },
+      outputs: {
+        type: 'array',
+        minItems: 1,
+        items: obj({
+          outputIndex: count,
+          protocol: { type: 'string', enum: ['wallet payment', 'basket insertion'] },
+          paymentRemittance: obj({
+            derivationPrefix: ref('Base64String'),
+            derivationSuffix: ref('Base64String'),
+            senderIdentityKey: ref('PubKeyHex'),
+          }, ['derivationPrefix', 'derivationSuffix', 'senderIdentityKey']),
+          insertionRemittance: obj({ basket: str, customInstructions: str, tags: arrayOf(str) }, ['basket']),
+        }, ['outputIndex', 'protocol']),
+      },
+      description: str,
+      labels: arrayOf(str),
+      seekPermission: bool,
+    }, ['tx', 'outputs', 'description']),
+    response: obj({ accepted: { const: true } }, ['accepted']),
+    errors: {
+      400: { description: 'Wallet error or review required.', schema: { anyOf: [ref('WalletError'), ref('WerrReviewActions')] } },
+    },
+  },
+  {
+    path: '/listOutputs',
+    method: 'post',
+    tag: 'BRC-100',
+    summary: 'List spendable outputs in a basket',
+    request: obj({
+      basket: str,
+      tags: arrayOf(str),
+      tagQueryMode: { type: 'string', enum: ['any', 'all'] },
+      include: { type: 'string', enum: ['locking scripts', 'entire transactions'] },
+      includeCustomInstructions: bool,
+      includeTags: bool,
+      includeLabels: bool,
+      limit: { type: 'integer', minimum: 1, maximum: 10000 },
+      offset: int,
+      seekPermission: bool,
+    }, ['basket']),
+    example: { basket: 'default', limit: 10 },
+    response: obj({
+      totalOutputs: count,
+      BEEF: ref('Bytes'),
+      outputs: arrayOf(obj({
+        outpoint: ref('OutpointString'),
+        satoshis: ref('Satoshis'),
+        lockingScript: ref('HexString'),
+        spendable: bool,
+        customInstructions: str,
+        tags: arrayOf(str),
+        labels: arrayOf(str),
+      }, ['outpoint', 'satoshis', 'spendable'])),
+    }, ['totalOutputs', 'outputs']),
+  },
+  {
+    path: '/relinquishOutput',
+    method: 'post',
+    tag: 'BRC-100',
+    summary: 'Remove an output from a basket without spending it',
+    request: obj({ basket: str, output: ref('OutpointString') }, ['basket', 'output']),
+    response: obj({ relinquished: bool }, ['relinquished']),
+  },
+  {
+    path: '/getPublicKey',
+    method: 'post',
+    tag: 'BRC-100',
+    summary: 'Identity key, or a key derived for a protocol',
+    request: obj({ identityKey: bool, ...keyArgs, forSelf: bool }),
+    example: { identityKey: true },
+    response: obj({ publicKey: ref('PubKeyHex') }, ['publicKey']),
+  },
+  {
+    path: '/revealCounterpartyKeyLinkage',
+    method: 'post',
+    tag: 'BRC-100',
+    summary: 'Reveal the shared secret with a counterparty to a verifier',
+    request: obj({
+      counterparty: ref('PubKeyHex'),
+      verifier: ref('PubKeyHex'),
+      privileged: bool,
+      privilegedReason: str,
+    }, ['counterparty', 'verifier']),
+    response: obj({
+      prover: ref('PubKeyHex'),
+      verifier: ref('PubKeyHex'),
+      counterparty: ref('PubKeyHex'),
+      revelationTime: str,
+      encryptedLinkage: ref('Bytes'),
+      encryptedLinkageProof: ref('Bytes'),
+    }),
+  },
+  {
+    path: '/revealSpecificKeyLinkage',
+    method: 'post',
+    tag: 'BRC-100',
+    summary: 'Reveal the linkage for one protocol key to a verifier',
+    request: obj({
+      counterparty: ref('WalletCounterparty'),
+      verifier: ref('PubKeyHex'),
+      protocolID: ref('WalletProtocol'),
+      keyID: str,
+      privileged: bool,
+      privilegedReason: str,
+    }, ['counterparty', 'verifier', 'protocolID', 'keyID']),
+    response: obj({
+      prover: ref('PubKeyHex'),
+      verifier: ref('PubKeyHex'),
+      counterparty: ref('PubKeyHex'),
+      protocolID: ref('WalletProtocol'),
+      keyID: str,
+      encryptedLinkage: ref('Bytes'),
+      encryptedLinkageProof: ref('Bytes'),
+      proofType: ref('Byte'),
+    }),
+  },
+  {
+    path: '/encrypt',
+    method: 'post',
+    tag: 'BRC-100',
+    summary: 'Encrypt data with a derived key',
+    request: obj({ plaintext: ref('Bytes'), ...keyArgs }, ['plaintext', 'protocolID', 'keyID']),
+    example: { plaintext: [104, 105], protocolID: [0, 'self test'], keyID: '1' },
+    response: obj({ ciphertext: ref('Bytes') }, ['ciphertext']),
+  },
+  {
+    path: '/decrypt',
+    method: 'post',
+    tag: 'BRC-100',
+    summary: 'Decrypt data with a derived key',
+    request: obj({ ciphertext: ref('Bytes'), ...keyArgs }, ['ciphertext', 'protocolID', 'keyID']),
+    response: obj({ plaintext: ref('Bytes') }, ['plaintext']),
+  },
+  {
+    path: '/createHmac',
+    method: 'post',
+    tag: 'BRC-100',
+    summary: 'HMAC data with a derived key',
+    request: obj({ data: ref('Bytes'), ...keyArgs }, ['data', 'protocolID', 'keyID']),
+    response: obj({ hmac: ref('Bytes') }, ['hmac']),
+  },
+  {
+    path: '/verifyHmac',
+    method: 'post',
+    tag: 'BRC-100',
+    summary: 'Verify an HMAC made with a derived key',
+    request: obj({ data: ref('Bytes'), hmac: ref('Bytes'), ...keyArgs }, ['data', 'hmac', 'protocolID', 'keyID']),
+    response: obj({ valid: { const: true } }, ['valid']),
+  },
+  {
+    path: '/createSignature',
+    method: 'post',
+    tag: 'BRC-100',
+    summary: 'Sign data (or a 32-byte hash) with a derived key',
+    request: obj({ data: ref('Bytes'), hashToDirectlySign: ref('Bytes'), ...keyArgs }, ['protocolID', 'keyID']),
+    response: obj({ signature: ref('Bytes') }, ['signature']),
+  },
+  {
+    path: '/verifySignature',
+    method: 'post',
+    tag: 'BRC-100',
+    summary: 'Verify a signature made with a derived key',
+    request: obj({
+      data: ref('Bytes'),
+      hashToDirectlyVerify: ref('Bytes'),
+      signature: ref('Bytes'),
+      forSelf: bool,
+      ...keyArgs,
+    }, ['signature', 'protocolID', 'keyID']),
+    response: obj({ valid: { const: true } }, ['valid']),
+  },
+  {
+    path: '/acquireCertificate',
+    method: 'post',
+    tag: 'BRC-100',
+    summary: 'Store or request issuance of an identity certificate',
+    request: obj({
+      type: ref('Base64String'),
+      certifier: ref('PubKeyHex'),
+      acquisitionProtocol: { type: 'string', enum: ['direct', 'issuance'] },
+      fields: { type: 'object', additionalProperties: str },
+      serialNumber: ref('Base64String'),
+      revocationOutpoint: ref('OutpointString'),
+      signature: ref('HexString'),
+      certifierUrl: str,
+      keyringRevealer: { anyOf: [ref('PubKeyHex'), { const: 'certifier' }] },
+      keyringForSubject: { type: 'object', additionalProperties: ref('Base64String') },
+      privileged: bool,
+      privilegedReason: str,
+    }, ['type', 'certifier', 'acquisitionProtocol', 'fields']),
+    response: ref('WalletCertificate'),
+  },
+  {
+    path: '/listCertificates',
+    method: 'post',
+    tag: 'BRC-100',
+    summary: 'List certificates by certifier and type',
+    request: obj({
+      certifiers: arrayOf(ref('PubKeyHex')),
+      types: arrayOf(ref('Base64String')),
+      limit: { type: 'integer', minimum: 1, maximum: 10000 },
+      offset: count,
+      privileged: bool,
+      privilegedReason: str,
+    }, ['certifiers', 'types']),
+    example: { certifiers: [], types: [] },
+    response: ref('CertificateList'),
+  },
+  {
+    path: '/proveCertificate',
+    method: 'post',
+    tag: 'BRC-100',
+    summary: 'Reveal certificate fields to a verifier',
+    request: obj({
+      certificate: { type: 'object' },
+      fieldsToReveal: arrayOf(str),
+      verifier: ref('PubKeyHex'),
+      privileged: bool,
+      privilegedReason: str,
+    }, ['certificate', 'fieldsToReveal', 'verifier']),
+    response: obj({ keyringForVerifier: { type: 'object', additionalProperties: ref('Base64String') } }, ['keyringForVerifier']),
+  },
+  {
+    path: '/relinquishCertificate',
+    method: 'post',
+    tag: 'BRC-100',
+    summary: 'Delete a stored certificate',
+    request: obj({
+      type: ref('Base64String'),
+      serialNumber: ref('Base64String'),
+      certifier: ref('PubKeyHex'),
+    }, ['type', 'serialNumber', 'certifier']),
+    response: obj({ relinquished: bool }, ['relinquished']),
+  },
+  {
+    path: '/discoverByIdentityKey',
+    method: 'post',
+    tag: 'BRC-100',
+    summary: 'Find certificates issued to an identity key',
+    request: obj({
+      identityKey: ref('PubKeyHex'),
+      limit: { type: 'integer', minimum: 1, maximum: 10000 },
+      offset: count,
+      seekPermission: bool,
+    }, ['identityKey']),
+    response: ref('CertificateList'),
+  },
+  {
+    path: '/discoverByAttributes',
+    method: 'post',
+    tag: 'BRC-100',
+    summary: 'Find certificates by field values',
+    request: obj({
+      attributes: { type: 'object', additionalProperties: str },
+      limit: { type: 'integer', minimum: 1, maximum: 10000 },
+      offset: count,
+      seekPermission: bool,
+    }, ['attributes']),
+    response: ref('CertificateList'),
+  },
+  noBody('/isAuthenticated', 'Whether a user is logged in', obj({ authenticated: bool }, ['authenticated']), { unpaired: true }),
+  noBody('/waitForAuthentication', 'Resolve once a user is logged in', obj({ authenticated: { const: true } }, ['authenticated'])),
+  noBody('/getHeight', 'Current chain height', obj({ height: count }, ['height'])),
+  {
+    path: '/getHeaderForHeight',
+    method: 'post',
+    tag: 'BRC-100',
+    summary: 'Block header at a height',
+    request: obj({ height: count }, ['height']),
+    example: { height: 1 },
+    response: obj({ header: ref('HexString') }, ['header']),
+  },
+  noBody('/getNetwork', 'Chain the wallet is on', obj({ network: { type: 'string', enum: ['mainnet', 'testnet'] } }, ['network']), { unpaired: true }),
+  noBody('/getVersion', 'Wallet version string', obj({ version: str }, ['version']), { unpaired: true }),
+
+  // ── STAS ──────────────────────────────────────────────────────────────────
+  {
+    path: '/stas/list',
+    method: 'get',
+    tag: 'STAS',
+    summary: 'STAS UTXOs held by this wallet',
+    response: obj({
+      holdings: arrayOf(obj({
+        outpoint: ref('OutpointString'),
+        txid: ref('TXIDHexString'),
+        vout: count,
+        satoshis: ref('Satoshis'),
+        spendable: bool,
+        tokenId: str,
+        symbol: { type: ['string', 'null'] },
+        name: { type: ['string', 'null'] },
+        brc42KeyId: { type: ['string', 'null'] },
+        ownerFieldHash160: ref('HexString'),
+        frozen: bool,
+        confiscated: bool,
+      })),
+      total: count,
+    }, ['holdings', 'total']),
+  },
+  {
+    path: '/stas/tokens',
+    method: 'get',
+    tag: 'STAS',
+    summary: 'STAS token definitions with per-token totals',
+    response: obj({
+      tokens: arrayOf(obj({
+        tokenId: str,
+        symbol: str,
+        name: { type: ['string', 'null'] },
+        satoshisPerToken: count,
+        freezeEnabled: bool,
+        confiscationEnabled: bool,
+        redemptionPkh: { type: ['string', 'null'] },
+        issuerIdentityKey: { type: ['string', 'null'] },
+        outputCount: count,
+        totalSatoshis: count,
+      })),
+    }, ['tokens']),
+  },
+  {
+    path: '/stas/receive-address',
+    method: 'get',
+    tag: 'STAS',
+    summary: 'Next unused STAS receive address',
+    response: ref('ReceiveAddress'),
+  },
+  {
+    path: '/stas/transfer',
+    method: 'post',
+    tag: 'STAS',
+    summary: 'Send a whole STAS UTXO to an address',
+    description: TOKEN_SPEND_NOTE,
+    request: obj({ outpoint: ref('OutpointString'), recipientAddress: ref('Base58Address') }, ['outpoint', 'recipientAddress']),
+    response: obj({ ok: bool, txid: ref('TXIDHexString'), reason: str }, ['ok']),
+    errors: {
+      403: { description: 'The user denied the transfer.', schema: ref('TransferFailure') },
+      404: { description: 'The outpoint is not a STAS UTXO in this wallet.', schema: ref('RouteError') },
+    },
+  },
+  {
+    path: '/stas/register-by-txid',
+    method: 'post',
+    tag: 'STAS',
+    summary: 'Register STAS outputs of a just-broadcast transaction',
+    request: ref('TxidRequest'),
+    response: ref('RegistrationResult'),
+  },
+
+  // ── BSV-21 ────────────────────────────────────────────────────────────────
+  {
+    path: '/bsv-21/receive-address',
+    method: 'get',
+    tag: 'BSV-21',
+    summary: 'Next unused BSV-21 receive address',
+    response: ref('ReceiveAddress'),
+  },
+  {
+    path: '/bsv-21/register-by-txid',
+    method: 'post',
+    tag: 'BSV-21',
+    summary: 'Register BSV-21 outputs of a just-broadcast transaction',
+    request: ref('TxidRequest'),
+    response: ref('RegistrationResult'),
+  },
+  {
+    path: '/bsv-21/recover-by-outpoint',
+    method: 'post',
+    tag: 'BSV-21',
+    summary: 'Re-attach basket metadata to an orphaned BSV-21 output',
+    request: obj({ txid: ref('TXIDHexString'), vout: count }, ['txid', 'vout']),
+    response: obj({ alreadyHadBasket: bool }),
+  },
+  {
+    path: '/bsv-21/transfer',
+    method: 'post',
+    tag: 'BSV-21',
+    summary: 'Send BSV-21 tokens to an address',
+    description: `\`amount\` is in raw token units and defaults to the whole balance of the UTXO. ${TOKEN_SPEND_NOTE}`,
+    request: obj({
+      outpoint: ref('OutpointString'),
+      recipientAddress: ref('Base58Address'),
+      amount: ref('TokenAmount'),
+    }, ['outpoint', 'recipientAddress']),
+    response: { type: 'object', description: 'Transfer service result.' },
+    errors: {
+      403: { description: 'The user denied the transfer.', schema: ref('TransferFailure') },
+      404: { description: 'No holding with that outpoint.', schema: ref('RouteError') },
+    },
+  },
+
+  // ── DSTAS ─────────────────────────────────────────────────────────────────
+  {
+    path: '/dstas/transfer',
+    method: 'post',
+    tag: 'DSTAS',
+    summary: 'Send a whole DSTAS UTXO to an address',
+    description: TOKEN_SPEND_NOTE,
+    request: obj({ outpoint: ref('OutpointString'), recipientAddress: ref('Base58Address') }, ['outpoint', 'recipientAddress']),
+    response: { type: 'object', description: 'Transfer service result.' },
+    errors: {
+      403: { description: 'The user denied the transfer.', schema: ref('TransferFailure') },
+      404: { description: 'No holding with that outpoint.', schema: ref('RouteError') },
+    },
+  },
+
+  // ── Tokens ────────────────────────────────────────────────────────────────
+  {
+    path: '/tokens/batch-transfer',
+    method: 'post',
+    tag: 'Tokens',
+    summary: 'Pay one token out to many recipients',
+    description:
+      'Rows come as `rows` or as `csv` text of `recipient,amount` lines. A recipient is an address ' +
+      '(sent on-chain) or an identity key (sent over MessageBox); amounts are raw token units. ' +
+      '`dryRun` returns the plan — transactions, fee estimate and totals — without signing; it needs ' +
+      'basket access to the protocol\'s token basket, and answers 403 without it. ' +
+      'The whole batch is one token-spend request for its total, and exactly the approved plan is sent: ' +
+      `rows whose inputs were spent in the meantime are reported not sent. ${TOKEN_SPEND_NOTE}`,
+    request: obj({
+      protocol: { type: 'string', enum: ['stas', 'dstas', 'bsv-21'] },
+      assetId: {
+        type: 'string',
+        minLength: 1,
+        description: 'Token id as /peerToken/holdings reports it (not the symbol).',
+      },
+      rows: {
+        ...arrayOf(obj({
+          recipient: { anyOf: [ref('Base58Address'), ref('PubKeyHex')] },
+          amount: ref('TokenAmount'),
+        }, ['recipient', 'amount'])),
+        maxItems: 1000,
+      },
+      csv: str,
+      dryRun: bool,
+    }, ['protocol', 'assetId']),
+    example: {
+      protocol: 'bsv-21',
+      assetId: '<txid>_0',
+      rows: [{ recipient: '1BoatSLRHtKNngkdXEeobR76b53LETtpyT', amount: '100' }],
+      dryRun: true,
+    },
+    response: obj({
+      dryRun: bool,
+      plan: { type: 'object', description: 'Transactions, fee estimate, totals and the tx paying each row.' },
+      ok: bool,
+      results: arrayOf(obj({
+        line: count,
+        recipient: str,
+        amount: str,
+        ok: bool,
+        txid: ref('TXIDHexString'),
+        reason: str,
+      }, ['line', 'recipient', 'amount', 'ok'])),
+      txids: arrayOf(ref('TXIDHexString')),
+    }, ['dryRun']),
+    errors: {
+      403: { description: 'The user denied the transfer.', schema: ref('TransferFailure') },
+      404: { description: 'No holdings of that token.', schema: ref('RouteError') },
+      422: {
+        description: 'Some rows cannot be sent (e.g. balance too low); the plan says why. Nothing was signed.',
+        schema: obj({ dryRun: { const: true }, plan: { type: 'object' } }, ['dryRun', 'plan']),
+      },
+    },
+  },
+
+  // ── Peer tokens ───────────────────────────────────────────────────────────
+  {
+    path: '/peerToken/identity',
+    method: 'get',
+    tag: 'Peer tokens',
+    summary: 'Identity key that peers send tokens to',
+    response: obj({ identityKey: ref('PubKeyHex') }, ['identityKey']),
+  },
+  {
+    path: '/peerToken/holdings',
+    method: 'get',
+    tag: 'Peer tokens',
+    summary: 'Token holdings across STAS, DSTAS and BSV-21',
+    response: obj({
+      holdings: arrayOf(obj({
+        outpoint: ref('OutpointString'),
+        protocol: { type: 'string', enum: ['stas', 'dstas', 'bsv-21'] },
+        label: str,
+        amount: str,
+        assetId: { type: 'string', description: 'Token id: STAS / DSTAS token id or BSV-21 deploy outpoint.' },
+      })),
+    }, ['holdings']),
+  },
+  {
+    path: '/peerToken/send',
+    method: 'post',
+    tag: 'Peer tokens',
+    summary: 'Send a holding to another identity over MessageBox',
+    description: `\`dryRun\` builds the token message without sending it. ${TOKEN_SPEND_NOTE}`,
+    request: obj({
+      outpoint: ref('OutpointString'),
+      recipient: ref('PubKeyHex'),
+      amount: ref('TokenAmount'),
+      dryRun: bool,
+    }, ['outpoint', 'recipient']),
+    response: obj({ dryRun: bool, txid: { type: ['string', 'null'] }, token: { type: 'object' } }, ['dryRun']),
+    errors: {
+      403: { description: 'The user denied the transfer.', schema: ref('TransferFailure') },
+      404: { description: 'No holding with that outpoint.', schema: ref('RouteError') },
+    },
+  },
+  {
+    path: '/peerToken/incoming',
+    method: 'get',
+    tag: 'Peer tokens',
+    summary: 'Token transfers waiting to be accepted',
+    response: obj({ incoming: arrayOf({ type: 'object' }) }, ['incoming']),
+  },
+  {
+    path: '/peerToken/accept',
+    method: 'post',
+    tag: 'Peer tokens',
+    summary: 'Accept an incoming token transfer',
+    request: obj({ messageId: { type: 'string', minLength: 1 } }, ['messageId']),
+    response: obj({ accepted: { const: true }, protocol: str }, ['accepted']),
+    errors: {
+      404: { description: 'No incoming transfer with that messageId.', schema: ref('RouteError') },
+    },
+  },
+]
+
+// JSON-RPC envelopes are documented but only checked by the /rpc handler.
+BRIDGE_SCHEMAS.JsonRpcRequest = obj({
+  jsonrpc: { const: '2.0' },
+  id: { type: ['string', 'integer', 'null'] },
+  method: { type: 'string', enum: BRIDGE_ROUTES.filter((r) => r.tag === 'BRC-100').map((r) => r.path.slice(1)) },
+  params: { type: 'object' },
+}, ['jsonrpc', 'method'])
+BRIDGE_SCHEMAS.JsonRpcResponse = obj({
+  jsonrpc: { const: '2.0' },
+  id: { type: ['string', 'integer', 'null'] },
+  result: {},
+  error: obj({ code: int, message: str, data: {} }, ['code', 'message']),
+}, ['jsonrpc', 'id'])
+
+const ROUTES_BY_PATH = new Map(BRIDGE_ROUTES.map((r) => [r.path, r]))
+
+export function bridgeRoute(path: string): BridgeRoute | undefined {
+  return ROUTES_BY_PATH.get(path)
+}
+
+/**
+ * Check a request body against its route's schema before dispatch. Returns
+ * null when the request may proceed (valid, unknown path, or a route without
+ * a body), otherwise the 400 reply to send.
+ */
+export function validateBridgeRequest(
+  path: string,
+  body: string
+): { status: 400; body: string } | null {
+  const route = ROUTES_BY_PATH.get(path)
+  if (!route?.request || route.validate === false) return null
+
+  let value: unknown = {}
+  if (body.trim()) {
+    try {
+      value = JSON.parse(body)
+    } catch (e) {
+      return invalid(`Request body is not valid JSON: ${e instanceof Error ? e.message : String(e)}`, [])
+    }
+  }
+  const errors = validateSchema(route.request, value, 'body', BRIDGE_SCHEMAS)
+  if (errors.length === 0) return null
+  return invalid(`Invalid ${path} request: ${errors[0]}`, errors)
+}
+
+function invalid(description: string, errors: string[]): { status: 400; body: string } {
+  return {
+    status: 400,
+    body: JSON.stringify({ status: 'error', code: 'INVALID_REQUEST', description, errors }),
+  }
+}
+
+const jsonContent = (schema: JsonSchema) => ({ 'application/json': { schema } })
+
+/** Build the OpenAPI 3.1 document served at `/openapi.json`. */
+export function buildOpenApiDocument(version: string): Record<string, unknown> {
+  const paths: Record<string, unknown> = {}
+  for (const route of BRIDGE_ROUTES) {
+    const responses: Record<string, unknown> = {
+      200: route.path === '/events'
+        ? { description: 'Event stream', content: { 'text/event-stream': { schema: route.response } } }
+        : { description: 'Success', content: jsonContent(route.response) },
+    }
+    if (route.request && route.validate !== false) responses[400] = { $ref: '#/components/responses/InvalidRequest' }
+    if (!route.unpaired) responses[401] = { $ref: '#/components/responses/Unauthorized' }
+    if (route.request) responses[413] = { $ref: '#/components/responses/PayloadTooLarge' }
+    if (route.path !== '/openapi.json') {
+      responses[429] = { $ref: '#/components/responses/TooManyRequests' }
+    }
+    if (!route.mainProcess) {
+      responses[500] = { $ref: '#/components/responses/InternalError' }
+      responses[503] = { $ref: '#/components/responses/Unavailable' }
+    }
+    for (const [status, { description, schema }] of Object.entries(route.errors ?? {})) {
+      responses[status] = Number(status) === 400
+        ? {
+            description: `${description} Or a bridge INVALID_REQUEST error.`,
+            content: jsonContent({ anyOf: [schema, ref('BridgeError')] }),
+          }
+        : { description, content: jsonContent(schema) }
+    }
+
+    paths[route.path] = {
+      [route.method]: {
+        operationId: route.path.slice(1).replace(/[/.-](\w)/g, (_m, c: string) => c.toUpperCase()),
+        summary: route.summary,
+        ...(route.description ? { description: route.description } : {}),
+        tags: [route.tag],
+        security: route.unpaired ? [] : [{ bridgeToken: [] }],
+        ...(route.request
+          ? {
+              requestBody: {
+                required: true,
+                content: {
+                  'application/json': {
+                    schema: route.request,
+                    ...(route.example !== undefined ? { example: route.example } : {}),
+                  },
+                },
+              },
+            }
+          : {}),
+        responses,
+      },
+    }
+  }
+
+  const bridgeError = (description: string) => ({ description, content: jsonContent(ref('BridgeError')) })
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'BSV Desktop wallet bridge',
+      version,
+      description:
+        'Local HTTP interface to the BSV Desktop wallet: BRC-100 plus token extensions. ' +
+        'Every route except the unpaired probes needs a bearer token from POST /pair. ' +
+        'The HTTP method is not significant to the wallet; the one listed is the conventional one.',
+    },
+    servers: [{ url: 'https://127.0.0.1:2121' }, { url: 'http://127.0.0.1:3321' }],
+    tags: ['Bridge', 'BRC-100', 'STAS', 'BSV-21', 'DSTAS', 'Tokens', 'Peer tokens'].map((name) => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        bridgeToken: { type: 'http', scheme: 'bearer', description: 'Capability token from POST /pair.' },
+      },
+      schemas: BRIDGE_SCHEMAS,
+      responses: {
+        InvalidRequest: bridgeError('INVALID_REQUEST: the body does not match the schema; `errors` lists every problem.'),
+        Unauthorized: bridgeError('BRIDGE_TOKEN_REQUIRED, BRIDGE_TOKEN_INVALID or BRIDGE_TOKEN_ORIGIN_MISMATCH.'),
+        PayloadTooLarge: bridgeError('PAYLOAD_TOO_LARGE: body exceeds the per-route limit.'),
+        TooManyRequests: bridgeError('RATE_LIMITED or TOO_MANY_IN_FLIGHT; honour Retry-After.'),
+        InternalError: {
+          description: 'HTTP_BRIDGE_ERROR, or a token route handler failed.',
+          content: jsonContent({ anyOf: [ref('BridgeError'), ref('RouteError'), ref('TransferFailure')] }),
+        },
+        Unavailable: {
+          description: 'WALLET_LOCKED, WALLET_BRIDGE_UNAVAILABLE, or the route\'s services are not ready yet.',
+          content: jsonContent({ anyOf: [ref('BridgeError'), ref('RouteError'), ref('WalletError')] }),
+        },
+      },
+    },
+  }
+}
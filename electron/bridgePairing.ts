@@ -0,0 +1,188 @@
+/**
+ * Capability-token pairing for the localhost BRC-100 bridge.
+ *
+ * An app calls `POST /pair` once. After the user approves the wallet prompt,
+ * the main process mints a random bearer token bound to the app's origin.
+ * Every later call must present it as `Authorization: Bearer <token>` from
+ * that same origin. Only SHA-256 digests of tokens are persisted, so the
+ * pairing file on its own cannot be replayed against the bridge.
+ */
+import { app } from 'electron'
+import path from 'path'
+import fs from 'fs'
+import { createHash, randomBytes } from 'crypto'
+
+export interface BridgePairing {
+  origin: string
+  createdAt: number
+  lastUsedAt: number | null
+}
+
+interface StoredPairing extends BridgePairing {
+  tokenHash: string
+}
+
+interface PairingFile {
+  version: 1
+  pairings: StoredPairing[]
+}
+
+export type BridgeTokenErrorCode =
+  | 'BRIDGE_TOKEN_REQUIRED'
+  | 'BRIDGE_TOKEN_INVALID'
+  | 'BRIDGE_TOKEN_ORIGIN_MISMATCH'
+
+export type BridgeTokenCheck =
+  | { ok: true; origin: string }
+  | { ok: false; code: BridgeTokenErrorCode; description: string }
+
+/** `lastUsedAt` is kept in memory on every call but only flushed this often. */
+const LAST_USED_FLUSH_MS = 60_000
+
+let cache: StoredPairing[] | null = null
+
+function filePath(): string {
+  return path.join(app.getPath('userData'), 'bridge-pairings.json')
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token, 'utf8').digest('hex')
+}
+
+function load(): StoredPairing[] {
+  if (cache) return cache
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath(), 'utf8')) as PairingFile
+    if (parsed && parsed.version === 1 && Array.isArray(parsed.pairings)) {
+      cache = parsed.pairings.filter(
+        (p) => typeof p?.origin === 'string' && typeof p?.tokenHash === 'string'
+      )
+      return cache
+    }
+  } catch {
+    // missing/corrupt — start with no pairings
+  }
+  cache = []
+  return cache
+}
+
+function persist(pairings: StoredPairing[]): void {
+  cache = pairings
+  const file: PairingFile = { version: 1, pairings }
+  fs.mkdirSync(app.getPath('userData'), { recursive: true })
+  const tmp = filePath() + '.tmp'
+  fs.writeFileSync(tmp, JSON.stringify(file, null, 2), { mode: 0o600 })
+  fs.renameSync(tmp, filePath())
+}
+
+/** Lower-cased `host[:port]`, the same shape the renderer passes as originator. */
+export function normalizePairingOrigin(origin: string): string {
+  return String(origin || '')
+    .trim()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//i, '')
+    .replace(/\/.*$/, '')
+    .toLowerCase()
+}
+
+/**
+ * Resolve the caller's origin from `origin` (browsers) or the legacy
+ * `originator` header (Node clients). Mirrors `parseOrigin` in the renderer.
+ */
+export function originFromHeaders(headers: Record<string, string>): string | null {
+  const raw = headers['origin'] || headers['originator']
+  if (!raw) return null
+  try {
+    const candidate = raw.includes('://') ? raw : `http://${raw}`
+    return normalizePairingOrigin(new URL(candidate).host) || null
+  } catch {
+    return null
+  }
+}
+
+export function bearerFromHeaders(headers: Record<string, string>): string | null {
+  const raw = headers['authorization']
+  if (!raw) return null
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(raw)
+  return match ? match[1] : null
+}
+
+/**
+ * Mint a fresh token for `origin`, replacing any earlier pairing. The
+ * plaintext token is returned once and never stored.
+ */
+export function issueToken(origin: string): string {
+  const norm = normalizePairingOrigin(origin)
+  if (!norm) throw new Error('origin is required')
+  const token = randomBytes(32).toString('base64url')
+  const rest = load().filter((p) => p.origin !== norm)
+  persist([
+    ...rest,
+    { origin: norm, tokenHash: hashToken(token), createdAt: Date.now(), lastUsedAt: null },
+  ])
+  return token
+}
+
+/** Check a bearer token against the origin the request claims to come from. */
+export function verifyToken(token: string | null, origin: string | null): BridgeTokenCheck {
+  if (!token) {
+    return {
+      ok: false,
+      code: 'BRIDGE_TOKEN_REQUIRED',
+      description: 'This app is not paired with BSV Desktop. POST /pair to request access.',
+    }
+  }
+  const digest = hashToken(token)
+  const pairings = load()
+  const pairing = pairings.find((p) => p.tokenHash === digest)
+  if (!pairing) {
+    return {
+      ok: false,
+      code: 'BRIDGE_TOKEN_INVALID',
+      description: 'Bearer token is unknown or has been revoked. POST /pair to pair again.',
+    }
+  }
+  if (!origin || pairing.origin !== normalizePairingOrigin(origin)) {
+    return {
+      ok: false,
+      code: 'BRIDGE_TOKEN_ORIGIN_MISMATCH',
+      description: 'Bearer token was issued to a different origin.',
+    }
+  }
+
+  const now = Date.now()
+  const shouldFlush = pairing.lastUsedAt == null || now - pairing.lastUsedAt > LAST_USED_FLUSH_MS
+  pairing.lastUsedAt = now
+  if (shouldFlush) {
+    try {
+      persist(pairings)
+    } catch (err) {
+      console.warn('[bridgePairing] failed to record lastUsedAt:', err)
+    }
+  }
+  return { ok: true, origin: pairing.origin }
+}
+
+export function listPairings(): BridgePairing[] {
+  return load().map(({ origin, createdAt, lastUsedAt }) => ({ origin, createdAt, lastUsedAt }))
+}
+
+/** The pairing `origin` already has, if any; a new /pair for it would replace it. */
+export function findPairing(origin: string): BridgePairing | null {
+  const norm = normalizePairingOrigin(origin)
+  return listPairings().find((p) => p.origin === norm) ?? null
+}
+
+/** Forget the token for `origin`. Returns false when it was not paired. */
+export function revokePairing(origin: string): boolean {
+  const norm = normalizePairingOrigin(origin)
+  const pairings = load()
+  const rest = pairings.filter((p) => p.origin !== norm)
+  if (rest.length === pairings.length) return false
+  persist(rest)
+  return true
+}
+
+/** Test helper: drop the in-memory cache so the next call re-reads disk. */
+export function _resetForTests(): void {
+  cache = null
+}
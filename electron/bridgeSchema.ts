@@ -0,0 +1,201 @@
+/**
+ * The JSON Schema subset used to describe bridge request and response bodies,
+ * and a validator for it.
+ *
+ * The same schema objects are embedded in `/openapi.json` (OpenAPI 3.1, i.e.
+ * JSON Schema 2020-12) and checked against request bodies before they are
+ * dispatched, so the published contract and the enforced one cannot drift.
+ * Only the keywords below are supported; anything else is documentation only.
+ */
+
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean' | 'null'
+    | Array<'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean' | 'null'>
+  description?: string
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean | JsonSchema
+  items?: JsonSchema
+  prefixItems?: JsonSchema[]
+  minItems?: number
+  maxItems?: number
+  enum?: Array<string | number | boolean | null>
+  const?: string | number | boolean | null
+  pattern?: string
+  minLength?: number
+  maxLength?: number
+  minimum?: number
+  maximum?: number
+  oneOf?: JsonSchema[]
+  anyOf?: JsonSchema[]
+  $ref?: string
+  examples?: unknown[]
+}
+
+/** Stop collecting after this many problems; one bad BEEF could yield millions. */
+const MAX_ERRORS = 20
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number'
+  return typeof value
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  const actual = typeOf(value)
+  const allowed = Array.isArray(type) ? type : [type]
+  return allowed.some((t) => t === actual || (t === 'number' && actual === 'integer'))
+}
+
+function describe(value: unknown): string {
+  const t = typeOf(value)
+  if (t === 'string') {
+    const s = value as string
+    return `string "${s.length > 24 ? `${s.slice(0, 24)}…` : s}"`
+  }
+  if (t === 'integer' || t === 'number' || t === 'boolean') return `${t} ${String(value)}`
+  return t
+}
+
+function isPlainIntegerSchema(schema: JsonSchema): boolean {
+  return schema.type === 'integer' &&
+    Object.keys(schema).every((k) => k === 'type' || k === 'minimum' || k === 'maximum' || k === 'description')
+}
+
+/**
+ * Validate `value` against `schema`. Returns human-readable problems, each
+ * prefixed with the JSON path that failed (`body.outputs[0].satoshis`); an
+ * empty array means the value is valid. `$ref`s are resolved against `defs`.
+ */
+export function validateSchema(
+  schema: JsonSchema,
+  value: unknown,
+  at = 'body',
+  defs: Record<string, JsonSchema> = {}
+): string[] {
+  const errors: string[] = []
+  walk(schema, value, at, defs, errors)
+  return errors
+}
+
+function walk(
+  schema: JsonSchema,
+  value: unknown,
+  at: string,
+  defs: Record<string, JsonSchema>,
+  errors: string[]
+): void {
+  if (errors.length >= MAX_ERRORS) return
+
+  if (schema.$ref) {
+    const name = schema.$ref.replace('#/components/schemas/', '')
+    const target = defs[name]
+    if (!target) throw new Error(`Unknown schema reference ${schema.$ref}`)
+    walk(target, value, at, defs, errors)
+    return
+  }
+
+  if (schema.oneOf || schema.anyOf) {
+    const options = schema.oneOf ?? schema.anyOf ?? []
+    const passing = options.filter((option) => validateSchema(option, value, at, defs).length === 0)
+    if (passing.length === 0 || (schema.oneOf && passing.length > 1)) {
+      // Report the closest option's problems rather than a bare "no match",
+      // preferring an option whose type matched over one that did not.
+      const score = (problems: string[]) =>
+        problems.length + (problems[0]?.startsWith(`${at}: expected `) ? 0.5 : 0)
+      const attempts = options.map((option) => validateSchema(option, value, at, defs))
+      const closest = attempts.sort((a, b) => score(a) - score(b))[0]
+      if (passing.length === 0 && closest && closest.length > 0) {
+        errors.push(...closest.slice(0, MAX_ERRORS - errors.length))
+      } else {
+        errors.push(`${at}: does not match exactly one allowed shape`)
+      }
+    }
+    return
+  }
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    const expected = Array.isArray(schema.type) ? schema.type.join(' or ') : schema.type
+    errors.push(`${at}: expected ${expected}, got ${describe(value)}`)
+    return
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    errors.push(`${at}: must be ${JSON.stringify(schema.const)}`)
+    return
+  }
+  if (schema.enum && !schema.enum.includes(value as any)) {
+    errors.push(`${at}: must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`)
+    return
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${at}: must be at least ${schema.minLength} characters`)
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${at}: must be at most ${schema.maxLength} characters`)
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${at}: must be ${schema.description ?? `a string matching ${schema.pattern}`}`)
+    }
+    return
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${at}: must be >= ${schema.minimum}`)
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${at}: must be <= ${schema.maximum}`)
+    }
+    return
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${at}: must have at least ${schema.minItems} items`)
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${at}: must have at most ${schema.maxItems} items`)
+    }
+    const prefix = schema.prefixItems ?? []
+    if (prefix.length === 0 && schema.items && isPlainIntegerSchema(schema.items)) {
+      // Byte arrays (BEEF, scripts) can hold millions of entries; check inline.
+      const { minimum = -Infinity, maximum = Infinity } = schema.items
+      for (let i = 0; i < value.length; i++) {
+        const n = value[i]
+        if (!Number.isInteger(n) || n < minimum || n > maximum) {
+          walk(schema.items, n, `${at}[${i}]`, defs, errors)
+          if (errors.length >= MAX_ERRORS) return
+        }
+      }
+      return
+    }
+    for (let i = 0; i < value.length && errors.length < MAX_ERRORS; i++) {
+      const itemSchema = i < prefix.length ? prefix[i] : schema.items
+      if (itemSchema) walk(itemSchema, value[i], `${at}[${i}]`, defs, errors)
+    }
+    return
+  }
+
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) errors.push(`${at}.${key}: is required`)
+    }
+    for (const [key, child] of Object.entries(record)) {
+      if (errors.length >= MAX_ERRORS) return
+      if (child === undefined) continue
+      const propSchema = schema.properties?.[key]
+      if (propSchema) {
+        walk(propSchema, child, `${at}.${key}`, defs, errors)
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${at}.${key}: is not a recognised field`)
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        walk(schema.additionalProperties, child, `${at}.${key}`, defs, errors)
+      }
+    }
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * `GET /self-test`: a single page that lists every operation in
+ * `/openapi.json` with an editable request body and a Send button, so a
+ * developer can exercise the bridge from a browser without writing a client.
+ *
+ * The page pairs like any other app (POST /pair, user approves) and keeps the
+ * token in memory only. Everything is rendered with DOM APIs — never
+ * innerHTML — because response bodies are untrusted text.
+ */
+
+const STYLE = `
+body { font: 14px system-ui, sans-serif; margin: 24px; max-width: 960px; color: #222 }
+h1 { font-size: 20px }
+h2 { font-size: 15px; margin: 24px 0 4px }
+details { border: 1px solid #ddd; border-radius: 4px; margin: 6px 0; padding: 6px 10px }
+summary { cursor: pointer }
+code, textarea, pre { font: 12px ui-monospace, monospace }
+textarea { width: 100%; min-height: 90px; box-sizing: border-box }
+pre { background: #f6f6f6; padding: 8px; white-space: pre-wrap; word-break: break-all; max-height: 320px; overflow: auto }
+.ok { color: #1b5e20 } .err { color: #b71c1c } .muted { color: #777 }
+button { margin: 6px 6px 0 0 }
+`
+
+const SCRIPT = `
+(() => {
+  let token = null
+  const status = document.getElementById('pair-status')
+  const el = (tag, props = {}, children = []) => {
+    const node = Object.assign(document.createElement(tag), props)
+    for (const child of children) node.append(child)
+    return node
+  }
+
+  document.getElementById('pair').addEventListener('click', async () => {
+    status.textContent = 'Waiting for approval in BSV Desktop…'
+    try {
+      const res = await fetch('/pair', { method: 'POST' })
+      const body = await res.json()
+      if (res.ok && body.token) {
+        token = body.token
+        status.textContent = 'Paired as ' + body.origin
+        status.className = 'ok'
+      } else {
+        status.textContent = 'Pairing failed: ' + (body.description || body.message || res.status)
+        status.className = 'err'
+      }
+    } catch (e) {
+      status.textContent = 'Pairing failed: ' + e
+      status.className = 'err'
+    }
+  })
+
+  const send = async (path, method, textarea, out) => {
+    out.textContent = '…'
+    out.className = 'muted'
+    const headers = { 'Content-Type': 'application/json' }
+    if (token) headers.Authorization = 'Bearer ' + token
+    const started = performance.now()
+    try {
+      const res = await fetch(path, method === 'get' ? { headers } : { method: 'POST', headers, body: textarea.value })
+      const text = await res.text()
+      let shown = text
+      try { shown = JSON.stringify(JSON.parse(text), null, 2) } catch {}
+      out.textContent = res.status + ' (' + Math.round(performance.now() - started) + ' ms)\\n' + shown
+      out.className = res.ok ? 'ok' : 'err'
+    } catch (e) {
+      out.textContent = String(e)
+      out.className = 'err'
+    }
+  }
+
+  fetch('/openapi.json').then((r) => r.json()).then((doc) => {
+    document.getElementById('version').textContent = 'Wallet ' + doc.info.version
+    const root = document.getElementById('operations')
+    const byTag = new Map()
+    for (const [path, item] of Object.entries(doc.paths)) {
+      for (const [method, op] of Object.entries(item)) {
+        // Streams and this document are not useful to send from here.
+        if (path === '/events' || path === '/openapi.json') continue
+        const tag = (op.tags && op.tags[0]) || 'Other'
+        if (!byTag.has(tag)) byTag.set(tag, [])
+        byTag.get(tag).push({ path, method, op })
+      }
+    }
+    for (const [tag, ops] of byTag) {
+      root.append(el('h2', { textContent: tag }))
+      for (const { path, method, op } of ops) {
+        const media = op.requestBody && op.requestBody.content['application/json']
+        const out = el('pre', { className: 'muted', textContent: 'No response yet.' })
+        const textarea = media
+          ? el('textarea', { value: JSON.stringify(media.example !== undefined ? media.example : {}, null, 2) })
+          : null
+        const button = el('button', { textContent: 'Send' })
+        button.addEventListener('click', () => send(path, method, textarea, out))
+        root.append(el('details', {}, [
+          el('summary', {}, [el('code', { textContent: method.toUpperCase() + ' ' + path }), ' — ' + op.summary]),
+          ...(op.description ? [el('p', { className: 'muted', textContent: op.description })] : []),
+          ...(textarea ? [textarea] : []),
+          button,
+          out,
+        ]))
+      }
+    }
+  }).catch((e) => {
+    document.getElementById('operations').textContent = 'Could not load /openapi.json: ' + e
+  })
+})()
+`
+
+export function renderSelfTestPage(nonce: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>BSV Desktop bridge self-test</title>
+<style nonce="${nonce}">${STYLE}</style>
+</head>
+<body>
+<h1>BSV Desktop bridge self-test</h1>
+<p class="muted" id="version"></p>
+<p>Pair first; calls without a token only reach the unpaired probes. Requests go to the running wallet and may spend funds.</p>
+<button id="pair">Pair this page</button> <span id="pair-status" class="muted">Not paired</span>
+<div id="operations"></div>
+<script nonce="${nonce}">${SCRIPT}</script>
+</body>
+</html>
+`
+}
@@ -0,0 +1,240 @@
+/**
+ * Filesystem-socket transport for the wallet bridge.
+ *
+ * Runs next to the HTTPS (2121) and HTTP (3321) listeners: a Unix domain
+ * socket at `<userData>/bridge.sock` with mode 0600 or, on Windows, a named
+ * pipe derived from the userData path. Only the owning OS user can connect,
+ * and no other process can squat on it the way it can on a fixed TCP port.
+ *
+ * Frames are newline-delimited JSON using the same fields as
+ * HttpRequestEvent / HttpResponseEvent:
+ *
+ *   → {"request_id":1,"method":"POST","path":"/listOutputs","headers":{"origin":"app.example"},"body":"{...}"}
+ *   ← {"request_id":1,"status":200,"body":"{...}"}
+ *
+ * `request_id` is chosen by the client and echoed back unchanged. Calls on one
+ * connection may be pipelined and can complete out of order.
+ */
+import { app } from 'electron'
+import net from 'net'
+import fs from 'fs'
+import path from 'path'
+import { createHash } from 'crypto'
+import type { BridgeDispatcher } from './httpServer.js'
+
+/** Matches the HTTP listeners' `express.json({ limit: '50mb' })`. */
+const MAX_FRAME_BYTES = 50 * 1024 * 1024
+
+export interface SocketRequestFrame {
+  request_id?: string | number | null
+  method?: string
+  path: string
+  headers?: Record<string, string>
+  body?: string
+}
+
+export interface SocketResponseFrame {
+  request_id: string | number | null
+  status: number
+  body: string
+  headers?: Record<string, string>
+}
+
+export function bridgeSocketPath(): string {
+  const userData = app.getPath('userData')
+  if (process.platform === 'win32') {
+    // Named pipes live in a flat namespace; key it by profile so two users
+    // (or a dev build next to a release) never collide. File modes do not
+    // apply here — the default pipe DACL already limits it to this user.
+    const tag = createHash('sha256').update(userData).digest('hex').slice(0, 16)
+    return `\\\\.\\pipe\\bsv-desktop-bridge-${tag}`
+  }
+  return path.join(userData, 'bridge.sock')
+}
+
+function errorFrame(
+  request_id: SocketResponseFrame['request_id'],
+  code: string,
+  description: string
+): SocketResponseFrame {
+  return { request_id, status: 400, body: JSON.stringify({ status: 'error', code, description }) }
+}
+
+/** Validate one decoded line. Returns an error frame when it is unusable. */
+export function parseRequestFrame(line: string): SocketRequestFrame | SocketResponseFrame {
+  let parsed: any
+  try {
+    parsed = JSON.parse(line)
+  } catch {
+    return errorFrame(null, 'BAD_FRAME', 'Frame is not valid JSON.')
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return errorFrame(null, 'BAD_FRAME', 'Frame must be a JSON object.')
+  }
+  const id = parsed.request_id
+  const request_id = typeof id === 'string' || typeof id === 'number' ? id : null
+  if (typeof parsed.path !== 'string' || !parsed.path.startsWith('/')) {
+    return errorFrame(request_id, 'BAD_FRAME', 'Frame needs a "path" starting with "/".')
+  }
+  if (parsed.body != null && typeof parsed.body !== 'string') {
+    return errorFrame(request_id, 'BAD_FRAME', '"body" must be a string (JSON-encode it first).')
+  }
+  const headers: Record<string, string> = {}
+  if (parsed.headers && typeof parsed.headers === 'object') {
+    for (const [key, value] of Object.entries(parsed.headers)) {
+      if (typeof value === 'string') headers[key.toLowerCase()] = value
+    }
+  }
+  return {
+    request_id,
+    method: typeof parsed.method === 'string' ? parsed.method.toUpperCase() : 'POST',
+    path: parsed.path,
+    headers,
+    body: parsed.body ?? '',
+  }
+}
+
+function isErrorFrame(frame: SocketRequestFrame | SocketResponseFrame): frame is SocketResponseFrame {
+  return typeof (frame as SocketResponseFrame).status === 'number'
+}
+
+/**
+ * A leftover socket file from a crashed run blocks `listen`. Remove it when
+ * nothing answers; leave it alone (return false) when another instance does.
+ */
+async function claimSocketPath(socketPath: string): Promise<boolean> {
+  if (process.platform === 'win32' || !fs.existsSync(socketPath)) return true
+  const live = await new Promise<boolean>((resolve) => {
+    const probe = net.connect(socketPath)
+    probe.once('connect', () => {
+      probe.destroy()
+      resolve(true)
+    })
+    probe.once('error', () => resolve(false))
+  })
+  if (live) return false
+  fs.unlinkSync(socketPath)
+  return true
+}
+
+function serveConnection(conn: net.Socket, dispatch: BridgeDispatcher): void {
+  let buffered = ''
+  const abandonHandlers = new Set<() => void>()
+
+  const write = (frame: SocketResponseFrame) => {
+    if (!conn.destroyed && conn.writable) conn.write(JSON.stringify(frame) + '\n')
+  }
+
+  const handleLine = async (line: string) => {
+    const frame = parseRequestFrame(line)
+    if (isErrorFrame(frame)) {
+      write(frame)
+      return
+    }
+    const reply = await dispatch({
+      method: frame.method,
+      path: frame.path,
+      headers: frame.headers,
+      body: frame.body,
+      onClientGone: (abandon) => {
+        abandonHandlers.add(abandon)
+      },
+    })
+    if (!reply) return
+    write({
+      request_id: frame.request_id ?? null,
+      status: reply.status,
+      body: reply.body,
+      ...(reply.headers ? { headers: reply.headers } : {}),
+    })
+  }
+
+  conn.setEncoding('utf8')
+  conn.on('data', (chunk: string) => {
+    buffered += chunk
+    let newline: number
+    while ((newline = buffered.indexOf('\n')) !== -1) {
+      const line = buffered.slice(0, newline).trim()
+      buffered = buffered.slice(newline + 1)
+      if (line) void handleLine(line)
+    }
+    if (buffered.length > MAX_FRAME_BYTES) {
+      write(errorFrame(null, 'FRAME_TOO_LARGE', `Frames are limited to ${MAX_FRAME_BYTES} bytes.`))
+      conn.destroy()
+    }
+  })
+  conn.on('error', (err) => {
+    console.warn('[BridgeSocket] connection error:', err.message)
+  })
+  conn.on('close', () => {
+    for (const abandon of abandonHandlers) abandon()
+    abandonHandlers.clear()
+  })
+}
+
+/**
+ * Start the socket listener. Failures are logged and leave the HTTP
+ * listeners running; the returned cleanup is always safe to call.
+ */
+export async function startBridgeSocket(
+  dispatch: BridgeDispatcher,
+  socketPath: string = bridgeSocketPath()
+): Promise<() => Promise<void>> {
+  const noop = async () => {}
+  try {
+    if (!(await claimSocketPath(socketPath))) {
+      console.error(`[BridgeSocket] ${socketPath} is served by another process — socket transport disabled.`)
+      return noop
+    }
+  } catch (err) {
+    console.error('[BridgeSocket] could not clear stale socket:', err)
+    return noop
+  }
+
+  // `server.close()` waits for every connection to end, and an idle client
+  // may hold its socket open indefinitely — cleanup destroys them first.
+  const connections = new Set<net.Socket>()
+  const server = net.createServer((conn) => {
+    connections.add(conn)
+    conn.on('close', () => connections.delete(conn))
+    serveConnection(conn, dispatch)
+  })
+  const started = await new Promise<boolean>((resolve) => {
+    server.once('error', (err) => {
+      console.error('[BridgeSocket] listen failed — socket transport disabled:', err)
+      resolve(false)
+    })
+    // Create the socket file as 0600 from the start so there is no window in
+    // which another local user could connect; chmod again once bound.
+    const previousUmask = process.platform === 'win32' ? null : process.umask(0o177)
+    try {
+      server.listen(socketPath, () => resolve(true))
+    } finally {
+      if (previousUmask !== null) process.umask(previousUmask)
+    }
+  })
+  if (!started) return noop
+
+  if (process.platform !== 'win32') {
+    try {
+      fs.chmodSync(socketPath, 0o600)
+    } catch (err) {
+      console.warn('[BridgeSocket] chmod 0600 failed:', err)
+    }
+  }
+  console.log(`[BridgeSocket] listening on ${socketPath}`)
+
+  return async () => {
+    const closed = new Promise<void>((resolve) => server.close(() => resolve()))
+    for (const conn of connections) conn.destroy()
+    connections.clear()
+    await closed
+    if (process.platform !== 'win32') {
+      try {
+        fs.unlinkSync(socketPath)
+      } catch {
+        // already gone
+      }
+    }
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Encryption at rest for the wallet databases.
+ *
+ * Connections go through better-sqlite3-multiple-ciphers (storage-loader.cjs),
+ * whose SQLite encrypts every page with the SQLCipher scheme (AES-256-CBC
+ * with an HMAC-SHA512 per page). The 256-bit key comes from the unlocked
+ * vault profile's DEK (vault.ts `databaseKey`) and is handed to SQLite as a
+ * raw key, so no passphrase KDF runs on open. Without a vault there is no
+ * key and databases stay plaintext.
+ *
+ * Files written before a key existed — the database, its snapshots and
+ * pre-restore copies — are encrypted in place the first time the database
+ * opens with one. Copies that leave this machine (encrypted backups,
+ * watch-only exports) are decrypted first, and encrypted again when they are
+ * restored here.
+ *
+ * No Electron imports: the monitor worker uses this module too, and gets its
+ * key from StorageManager with its start command.
+ */
+import fs from 'fs'
+
+const CIPHER = 'sqlcipher'
+const SQLITE_HEADER = Buffer.from('SQLite format 3\0', 'latin1')
+
+type CreateKnex = (config: Record<string, any>) => any
+
+/** True for a database file SQLite can read without a key; false when missing, empty or encrypted. */
+export function isPlaintextDatabase(filePath: string): boolean {
+  let fd: number
+  try {
+    fd = fs.openSync(filePath, 'r')
+  } catch {
+    return false
+  }
+  try {
+    const header = Buffer.alloc(SQLITE_HEADER.length)
+    const read = fs.readSync(fd, header, 0, header.length, 0)
+    return read === header.length && header.equals(SQLITE_HEADER)
+  } finally {
+    fs.closeSync(fd)
+  }
+}
+
+/** Key a raw connection. Must run before anything else on it. */
+export function applyDatabaseKey(conn: any, key: Buffer): void {
+  conn.pragma(`cipher = '${CIPHER}'`)
+  conn.pragma(`key = "x'${key.toString('hex')}'"`)
+}
+
+/** Readable error for a file the given key (or no key) does not open. */
+export function describeOpenError(error: any, filePath: string): Error {
+  if (error?.code === 'SQLITE_NOTADB') {
+    return new Error(`${filePath} is encrypted with a different key, or is not a wallet database.`)
+  }
+  return error
+}
+
+/**
+ * Whether `key` opens an existing database file. False only when SQLite
+ * reports the file is not a database under that key; other errors throw.
+ */
+export async function opensWithKey(createKnex: CreateKnex, filePath: string, key: Buffer): Promise<boolean> {
+  const db = createKnex({
+    client: 'better-sqlite3',
+    connection: { filename: filePath, options: { readonly: true, fileMustExist: true } },
+    useNullAsDefault: true,
+    pool: {
+      afterCreate: (conn: any, cb: any) => {
+        applyDatabaseKey(conn, key)
+        cb(null, conn)
+      }
+    }
+  })
+  try {
+    await db.raw('SELECT count(*) FROM sqlite_master')
+    return true
+  } catch (error: any) {
+    if (error?.code === 'SQLITE_NOTADB') return false
+    throw error
+  } finally {
+    await db.destroy()
+  }
+}
+
+/**
+ * Rewrite a database file in place under `to` (null: plaintext), reading it
+ * with `from`. Its WAL is folded in first: SQLite rekeys under a rollback
+ * journal, which also makes the rewrite all-or-nothing.
+ */
+async function rekeyDatabaseFile(createKnex: CreateKnex, filePath: string, from: Buffer | null, to: Buffer | null): Promise<void> {
+  const db = createKnex({
+    client: 'better-sqlite3',
+    connection: { filename: filePath, options: { fileMustExist: true } },
+    useNullAsDefault: true,
+    pool: {
+      afterCreate: (conn: any, cb: any) => {
+        if (from) applyDatabaseKey(conn, from)
+        else conn.pragma(`cipher = '${CIPHER}'`)
+        cb(null, conn)
+      }
+    }
+  })
+  try {
+    await db.raw('PRAGMA wal_checkpoint(TRUNCATE)')
+    await db.raw('PRAGMA journal_mode = DELETE')
+    await db.raw(to ? `PRAGMA rekey = "x'${to.toString('hex')}'"` : "PRAGMA rekey = ''")
+  } catch (error) {
+    throw describeOpenError(error, filePath)
+  } finally {
+    await db.destroy()
+  }
+}
+
+/** Encrypt a plaintext database file in place. */
+export async function encryptDatabaseFile(createKnex: CreateKnex, filePath: string, key: Buffer): Promise<void> {
+  await rekeyDatabaseFile(createKnex, filePath, null, key)
+}
+
+/** Decrypt a database file in place, for a copy leaving this machine. */
+export async function decryptDatabaseFile(createKnex: CreateKnex, filePath: string, key: Buffer): Promise<void> {
+  await rekeyDatabaseFile(createKnex, filePath, key, null)
+}
+
+/**
+ * The one-time migration: encrypt whichever of `files` are still plaintext.
+ * The first file is the database itself and must succeed; a copy that fails
+ * (snapshot, pre-restore file) is logged and left for the next open.
+ * Resolves the number of files encrypted.
+ */
+export async function encryptPlaintextFiles(createKnex: CreateKnex, files: string[], key: Buffer): Promise<number> {
+  let encrypted = 0
+  for (const [i, filePath] of files.entries()) {
+    if (!isPlaintextDatabase(filePath)) continue
+    try {
+      await encryptDatabaseFile(createKnex, filePath, key)
+      encrypted++
+    } catch (error) {
+      if (i === 0) throw error
+      console.warn(`[dbEncryption] Could not encrypt ${filePath}:`, error)
+    }
+  }
+  return encrypted
+}
@@ -0,0 +1,252 @@
+/**
+ * Maintenance of the local wallet databases, shown under Settings → Wallet
+ * Diagnosis:
+ *
+ * - integrity: `PRAGMA integrity_check`, `PRAGMA foreign_key_check` over the
+ *   wallet-toolbox tables and bsv-desktop's satellite tables, and
+ *   `stas_outputs` rows whose `outputId` is gone from `outputs`
+ * - size report: rows and bytes per table (indexes counted with their
+ *   table), WAL size and free pages
+ * - WAL checkpoint: `wal_checkpoint(TRUNCATE)`, folding the WAL back into the
+ *   database file and emptying it
+ * - VACUUM: rebuilds the file without free pages, then truncates the WAL the
+ *   rebuild filled
+ *
+ * The functions here take an open knex connection; StorageManager supplies
+ * it (checkDatabase, databaseSizeReport, ...). Each runs on the storage
+ * connection, so wallet calls wait for it to finish. One task runs per
+ * database at a time.
+ */
+import { ipcMain } from 'electron'
+import fs from 'fs'
+
+type Chain = 'main' | 'test' | 'ttn'
+
+/** Who owns a table: wallet-toolbox's schema, or bsv-desktop's (stas-migrations). */
+export type TableOwner = 'wallet-toolbox' | 'bsv-desktop'
+
+export interface ForeignKeyProblem {
+  table: string
+  parent: string
+  rows: number
+}
+
+export interface IntegrityReport {
+  ok: boolean
+  /** `PRAGMA integrity_check` messages (at most 100) when not ok. */
+  problems: string[]
+  /** Rows whose foreign key points at a missing parent, by table and parent. */
+  foreignKeys: ForeignKeyProblem[]
+  /** `stas_outputs` rows whose `outputId` no longer exists in `outputs`. */
+  orphanedStasOutputs: { count: number; outputIds: number[] }
+  tablesChecked: number
+  durationMs: number
+}
+
+export interface TableStat {
+  name: string
+  owner: TableOwner
+  rows: number
+  /** Table plus its indexes; null when SQLite was built without `dbstat`. */
+  bytes: number | null
+}
+
+export interface SizeReport {
+  databaseBytes: number
+  walBytes: number
+  /** Space in free pages, given back by VACUUM. */
+  freeBytes: number
+  /** Largest first. */
+  tables: TableStat[]
+}
+
+export interface CheckpointResult {
+  /** True when a reader kept part of the WAL from being folded in. */
+  busy: boolean
+  walBytesBefore: number
+  walBytesAfter: number
+}
+
+export interface VacuumResult {
+  bytesBefore: number
+  bytesAfter: number
+  durationMs: number
+}
+
+const OWN_TABLES = /^(stas_|bsv21_|knex_migrations_stas)|^(token_verifications|bridge_audit_log)$/
+const MAX_LISTED_ORPHANS = 50
+const IDENTITY_KEY = /^0[23][0-9a-f]{64}$/
+const CHAINS: ReadonlySet<string> = new Set(['main', 'test', 'ttn'])
+
+/** The parts of StorageManager this module drives; each resolves null without a local database. */
+export interface MaintenanceStorage {
+  checkDatabase(identityKey: string, chain: Chain): Promise<IntegrityReport | null>
+  databaseSizeReport(identityKey: string, chain: Chain): Promise<SizeReport | null>
+  checkpointDatabase(identityKey: string, chain: Chain): Promise<CheckpointResult | null>
+  vacuumDatabase(identityKey: string, chain: Chain): Promise<VacuumResult | null>
+}
+
+export interface DbMaintenanceDeps {
+  storage: () => Promise<MaintenanceStorage>
+}
+
+const running = new Set<string>()
+
+function fileSize(filePath: string): number {
+  try {
+    return fs.statSync(filePath).size
+  } catch {
+    return 0
+  }
+}
+
+async function userTables(db: any): Promise<string[]> {
+  const rows: Array<{ name: string }> = await db.raw(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name"
+  )
+  return rows.map(r => r.name)
+}
+
+export function tableOwner(name: string): TableOwner {
+  return OWN_TABLES.test(name) ? 'bsv-desktop' : 'wallet-toolbox'
+}
+
+/** `stas_outputs` rows whose `outputId` is missing from wallet-toolbox's `outputs`. */
+export async function findOrphanedStasOutputs(db: any): Promise<IntegrityReport['orphanedStasOutputs']> {
+  if (!(await db.schema.hasTable('stas_outputs')) || !(await db.schema.hasTable('outputs'))) {
+    return { count: 0, outputIds: [] }
+  }
+  const orphans = () => db('stas_outputs as so')
+    .leftJoin('outputs as o', 'o.outputId', 'so.outputId')
+    .whereNull('o.outputId')
+  const [{ n }] = await orphans().count({ n: '*' })
+  const rows: Array<{ outputId: number }> = await orphans()
+    .select('so.outputId as outputId')
+    .orderBy('so.outputId')
+    .limit(MAX_LISTED_ORPHANS)
+  return { count: Number(n), outputIds: rows.map(r => r.outputId) }
+}
+
+export async function checkIntegrity(db: any): Promise<IntegrityReport> {
+  const started = Date.now()
+  const integrity: Array<{ integrity_check: string }> = await db.raw('PRAGMA integrity_check(100)')
+  const problems = integrity.map(r => r.integrity_check).filter(m => m !== 'ok')
+
+  const violations: Array<{ table: string; parent: string }> = await db.raw('PRAGMA foreign_key_check')
+  const grouped = new Map<string, ForeignKeyProblem>()
+  for (const { table, parent } of violations) {
+    const key = `${table}\u0000${parent}`
+    const entry = grouped.get(key) ?? { table, parent, rows: 0 }
+    entry.rows++
+    grouped.set(key, entry)
+  }
+  const foreignKeys = [...grouped.values()].sort((a, b) => b.rows - a.rows)
+
+  const orphanedStasOutputs = await findOrphanedStasOutputs(db)
+  return {
+    ok: problems.length === 0 && foreignKeys.length === 0 && orphanedStasOutputs.count === 0,
+    problems,
+    foreignKeys,
+    orphanedStasOutputs,
+    tablesChecked: (await userTables(db)).length,
+    durationMs: Date.now() - started,
+  }
+}
+
+/** Bytes per table (indexes included) from `dbstat`, or null when it is not compiled in. */
+async function bytesByTable(db: any): Promise<Map<string, number> | null> {
+  let pages: Array<{ name: string; bytes: number }>
+  try {
+    pages = await db.raw('SELECT name, SUM(pgsize) AS bytes FROM dbstat GROUP BY name')
+  } catch {
+    return null
+  }
+  const owners: Array<{ name: string; tbl_name: string }> = await db.raw(
+    "SELECT name, tbl_name FROM sqlite_master WHERE type IN ('table', 'index')"
+  )
+  const tableOf = new Map(owners.map(o => [o.name, o.tbl_name]))
+  const out = new Map<string, number>()
+  for (const { name, bytes } of pages) {
+    const table = tableOf.get(name) ?? name
+    out.set(table, (out.get(table) ?? 0) + Number(bytes))
+  }
+  return out
+}
+
+export async function sizeReport(db: any, dbPath: string): Promise<SizeReport> {
+  const bytes = await bytesByTable(db)
+  const tables: TableStat[] = []
+  for (const name of await userTables(db)) {
+    const [{ n }] = await db(name).count({ n: '*' })
+    tables.push({ name, owner: tableOwner(name), rows: Number(n), bytes: bytes ? bytes.get(name) ?? 0 : null })
+  }
+  tables.sort((a, b) => (b.bytes ?? 0) - (a.bytes ?? 0) || b.rows - a.rows)
+
+  const [{ freelist_count: free }] = await db.raw('PRAGMA freelist_count')
+  const [{ page_size: pageSize }] = await db.raw('PRAGMA page_size')
+  return {
+    databaseBytes: fileSize(dbPath),
+    walBytes: fileSize(`${dbPath}-wal`),
+    freeBytes: Number(free) * Number(pageSize),
+    tables,
+  }
+}
+
+export async function checkpointWal(db: any, dbPath: string): Promise<CheckpointResult> {
+  const walBytesBefore = fileSize(`${dbPath}-wal`)
+  const [{ busy }] = await db.raw('PRAGMA wal_checkpoint(TRUNCATE)')
+  return { busy: Number(busy) !== 0, walBytesBefore, walBytesAfter: fileSize(`${dbPath}-wal`) }
+}
+
+export async function vacuum(db: any, dbPath: string): Promise<VacuumResult> {
+  const started = Date.now()
+  const total = () => fileSize(dbPath) + fileSize(`${dbPath}-wal`)
+  const bytesBefore = total()
+  await db.raw('VACUUM')
+  await db.raw('PRAGMA wal_checkpoint(TRUNCATE)')
+  return { bytesBefore, bytesAfter: total(), durationMs: Date.now() - started }
+}
+
+function describeError(err: any): string {
+  if (err?.code === 'SQLITE_BUSY' || err?.code === 'SQLITE_LOCKED') {
+    return 'The database is busy with background sync. Try again in a moment.'
+  }
+  return err?.message || String(err)
+}
+
+function checkTarget(identityKey: unknown, chain: unknown): string | null {
+  if (typeof identityKey !== 'string' || !IDENTITY_KEY.test(identityKey) || typeof chain !== 'string' || !CHAINS.has(chain)) {
+    return 'No wallet is loaded.'
+  }
+  return null
+}
+
+/** Register the `db-maintenance:*` IPC channels. Call once. */
+export function registerDbMaintenanceIpc(loaders: DbMaintenanceDeps): void {
+  const handle = <T>(
+    channel: string,
+    task: (storage: MaintenanceStorage, identityKey: string, chain: Chain) => Promise<T | null>
+  ) => {
+    ipcMain.handle(channel, async (_event, identityKey: string, chain: Chain) => {
+      const invalid = checkTarget(identityKey, chain)
+      if (invalid) return { ok: false, error: invalid }
+      const key = `${identityKey}-${chain}`
+      if (running.has(key)) return { ok: false, error: 'Database maintenance is already running.' }
+      running.add(key)
+      try {
+        const result = await task(await loaders.storage(), identityKey, chain)
+        return result ? { ok: true, result } : { ok: false, error: 'This wallet has no local database.' }
+      } catch (err: any) {
+        console.error(`[db-maintenance] ${channel} failed:`, err)
+        return { ok: false, error: describeError(err) }
+      } finally {
+        running.delete(key)
+      }
+    })
+  }
+
+  handle('db-maintenance:check', (s, id, chain) => s.checkDatabase(id, chain))
+  handle('db-maintenance:report', (s, id, chain) => s.databaseSizeReport(id, chain))
+  handle('db-maintenance:checkpoint', (s, id, chain) => s.checkpointDatabase(id, chain))
+  handle('db-maintenance:vacuum', (s, id, chain) => s.vacuumDatabase(id, chain))
+}
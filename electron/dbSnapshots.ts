@@ -0,0 +1,337 @@
+/**
+ * Point-in-time snapshots of the local wallet databases.
+ *
+ * Each `wallet-<identity>-<chain>.db` gets a folder beside it,
+ * `snapshots/wallet-<identity>-<chain>/`, holding whole-database copies taken
+ * with SQLite's online backup API (StorageManager.snapshotDatabase), so they
+ * are consistent while the monitor worker writes. A snapshot is taken:
+ *
+ * - on a schedule, for every database open in this process (`scheduled`)
+ * - on demand from Settings (`manual`)
+ * - before schema migrations run on an existing database (`pre-migration`)
+ * - before the first `processSyncChunk` of a sync, at most every 10 minutes
+ *   (`pre-sync`)
+ * - before a snapshot is restored, so the restore can be undone
+ *   (`pre-restore`)
+ *
+ * Scheduled and pre-sync snapshots are pruned: the newest of each of the last
+ * `keepHourly` hours and `keepDaily` days are kept. The others stay until
+ * deleted from Settings.
+ */
+import { ipcMain } from 'electron'
+import path from 'path'
+import fs from 'fs'
+import { getBootConfig, updateBootConfig, type SnapshotSettings } from './bootConfig.js'
+
+export type { SnapshotSettings }
+
+type Chain = 'main' | 'test' | 'ttn'
+
+export type SnapshotKind = 'scheduled' | 'manual' | 'pre-migration' | 'pre-sync' | 'pre-restore'
+
+export interface SnapshotInfo {
+  /** File name without `.db`: `<UTC timestamp>-<kind>`. */
+  id: string
+  kind: SnapshotKind
+  createdAt: number
+  size: number
+}
+
+export const DEFAULT_SNAPSHOT_SETTINGS: SnapshotSettings = {
+  intervalMinutes: 60,
+  keepHourly: 24,
+  keepDaily: 7,
+}
+
+const LIMITS = { intervalMinutes: 24 * 60, keepHourly: 7 * 24, keepDaily: 365 }
+const PRUNED_KINDS: ReadonlySet<SnapshotKind> = new Set(['scheduled', 'pre-sync'])
+const SNAPSHOT_ID = /^(\d{8}T\d{9}Z)-(scheduled|manual|pre-migration|pre-sync|pre-restore)$/
+const PRE_SYNC_MIN_INTERVAL_MS = 10 * 60_000
+const MINUTE_MS = 60_000
+const IDENTITY_KEY = /^0[23][0-9a-f]{64}$/
+const CHAINS: ReadonlySet<string> = new Set(['main', 'test', 'ttn'])
+
+/** The parts of StorageManager this module drives. */
+export interface SnapshotStorage {
+  openDatabases(): Array<{ identityKey: string; chain: Chain }>
+  snapshotDatabase(identityKey: string, chain: Chain, kind: SnapshotKind): Promise<SnapshotInfo | null>
+  restoreSnapshot(identityKey: string, chain: Chain, id: string): Promise<void>
+}
+
+export interface DbSnapshotDeps {
+  /** Loads the storage module if needed (IPC requests). */
+  storage: () => Promise<SnapshotStorage>
+  /** The storage manager if already loaded, without loading it (scheduled runs). */
+  loadedStorage: () => SnapshotStorage | null
+}
+
+let deps: DbSnapshotDeps | null = null
+let settings: SnapshotSettings | null = null
+let timer: ReturnType<typeof setTimeout> | null = null
+const lastPreSync = new Map<string, number>()
+
+/** Folder holding the snapshots of the database at `dbPath`. */
+export function snapshotDir(dbPath: string): string {
+  return path.join(path.dirname(dbPath), 'snapshots', path.basename(dbPath, '.db'))
+}
+
+/** Path of snapshot `id` of `dbPath`. Throws on anything that is not a snapshot id. */
+export function snapshotPath(dbPath: string, id: string): string {
+  if (!SNAPSHOT_ID.test(id)) throw new Error('Unknown snapshot.')
+  return path.join(snapshotDir(dbPath), `${id}.db`)
+}
+
+function stamp(date: Date): string {
+  return date.toISOString().replace(/[-:.]/g, '')
+}
+
+function parseStamp(value: string): number {
+  const m = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(\d{3})Z$/.exec(value)
+  return m ? Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6], +m[7]) : NaN
+}
+
+/** Snapshots of `dbPath`, newest first. */
+export function listSnapshots(dbPath: string): SnapshotInfo[] {
+  let names: string[]
+  try {
+    names = fs.readdirSync(snapshotDir(dbPath))
+  } catch {
+    return []
+  }
+  const out: SnapshotInfo[] = []
+  for (const name of names) {
+    const match = SNAPSHOT_ID.exec(name.replace(/\.db$/, ''))
+    if (!match || !name.endsWith('.db')) continue
+    try {
+      const { size } = fs.statSync(path.join(snapshotDir(dbPath), name))
+      out.push({ id: match[0], kind: match[2] as SnapshotKind, createdAt: parseStamp(match[1]), size })
+    } catch {
+      // removed meanwhile
+    }
+  }
+  return out.sort((a, b) => b.createdAt - a.createdAt)
+}
+
+function localHour(t: number): string {
+  const d = new Date(t)
+  return `${d.getFullYear()}-${d.getMonth()}-${d.getDate()} ${d.getHours()}`
+}
+
+function localDay(t: number): string {
+  const d = new Date(t)
+  return `${d.getFullYear()}-${d.getMonth()}-${d.getDate()}`
+}
+
+/**
+ * Snapshots the retention policy drops: of the scheduled and pre-sync ones,
+ * everything but the newest of each of the `keepHourly` most recent hours and
+ * `keepDaily` most recent days that have one.
+ */
+export function expiredSnapshots(
+  snapshots: SnapshotInfo[],
+  policy: Pick<SnapshotSettings, 'keepHourly' | 'keepDaily'>
+): SnapshotInfo[] {
+  const pruned = snapshots.filter(s => PRUNED_KINDS.has(s.kind)).sort((a, b) => b.createdAt - a.createdAt)
+  const keep = new Set<string>()
+  const keepNewestPer = (bucketOf: (t: number) => string, limit: number) => {
+    const buckets = new Set<string>()
+    for (const snapshot of pruned) {
+      const bucket = bucketOf(snapshot.createdAt)
+      if (buckets.has(bucket)) continue
+      if (buckets.size >= limit) break
+      buckets.add(bucket)
+      keep.add(snapshot.id)
+    }
+  }
+  keepNewestPer(localHour, policy.keepHourly)
+  keepNewestPer(localDay, policy.keepDaily)
+  return pruned.filter(s => !keep.has(s.id))
+}
+
+export function pruneSnapshots(dbPath: string): void {
+  for (const snapshot of expiredSnapshots(listSnapshots(dbPath), getSnapshotSettings())) {
+    fs.rmSync(snapshotPath(dbPath, snapshot.id), { force: true })
+  }
+}
+
+/**
+ * Take a snapshot of `dbPath`: `backup` writes a consistent copy to the path
+ * it is given, which becomes the snapshot once complete. Prunes afterwards.
+ */
+export async function createSnapshot(
+  dbPath: string,
+  kind: SnapshotKind,
+  backup: (destPath: string) => Promise<void>,
+  now: Date = new Date()
+): Promise<SnapshotInfo> {
+  fs.mkdirSync(snapshotDir(dbPath), { recursive: true, mode: 0o700 })
+  const id = `${stamp(now)}-${kind}`
+  const target = snapshotPath(dbPath, id)
+  const partial = `${target}.partial`
+  try {
+    await backup(partial)
+    fs.chmodSync(partial, 0o600)
+    fs.renameSync(partial, target)
+  } finally {
+    fs.rmSync(partial, { force: true })
+  }
+  pruneSnapshots(dbPath)
+  console.log(`[snapshots] ${kind} snapshot of ${path.basename(dbPath)}: ${id}`)
+  return { id, kind, createdAt: now.getTime(), size: fs.statSync(target).size }
+}
+
+/** Whether a pre-sync snapshot of `dbPath` is due (none in the last 10 minutes); marks it taken. */
+export function claimPreSyncSnapshot(dbPath: string, now = Date.now()): boolean {
+  const last = lastPreSync.get(dbPath) ?? 0
+  if (now - last < PRE_SYNC_MIN_INTERVAL_MS) return false
+  lastPreSync.set(dbPath, now)
+  return true
+}
+
+/**
+ * Put snapshot `id` in place of the database at `dbPath`. The database must
+ * be closed (no connection, no monitor worker). Its old WAL and shared-memory
+ * files are removed so they are not replayed onto the snapshot.
+ */
+export function replaceDatabaseWithSnapshot(dbPath: string, id: string): void {
+  const source = snapshotPath(dbPath, id)
+  const staged = `${dbPath}.restore-${Date.now()}.tmp`
+  try {
+    fs.copyFileSync(source, staged)
+    fs.chmodSync(staged, 0o600)
+    for (const suffix of ['-wal', '-shm']) fs.rmSync(dbPath + suffix, { force: true })
+    fs.renameSync(staged, dbPath)
+  } finally {
+    fs.rmSync(staged, { force: true })
+  }
+}
+
+export function deleteSnapshot(dbPath: string, id: string): void {
+  fs.rmSync(snapshotPath(dbPath, id), { force: true })
+}
+
+export function getSnapshotSettings(): SnapshotSettings {
+  if (!settings) settings = { ...DEFAULT_SNAPSHOT_SETTINGS, ...getBootConfig()?.snapshots }
+  return { ...settings }
+}
+
+/** Validate, persist and apply new settings. Throws on out-of-range values. */
+export function setSnapshotSettings(patch: Partial<SnapshotSettings>): SnapshotSettings {
+  const next = { ...getSnapshotSettings(), ...patch }
+  for (const name of Object.keys(LIMITS) as Array<keyof SnapshotSettings>) {
+    if (!Number.isInteger(next[name]) || next[name] < 0 || next[name] > LIMITS[name]) {
+      throw new Error(`${name} must be a whole number from 0 to ${LIMITS[name]}`)
+    }
+  }
+  settings = {
+    intervalMinutes: next.intervalMinutes,
+    keepHourly: next.keepHourly,
+    keepDaily: next.keepDaily,
+  }
+  updateBootConfig({ snapshots: settings })
+  schedule()
+  return { ...settings }
+}
+
+async function runScheduled(): Promise<void> {
+  const manager = deps?.loadedStorage()
+  if (!manager) return
+  for (const { identityKey, chain } of manager.openDatabases()) {
+    try {
+      await manager.snapshotDatabase(identityKey, chain, 'scheduled')
+    } catch (err) {
+      console.error(`[snapshots] scheduled snapshot of ${identityKey}-${chain} failed:`, err)
+    }
+  }
+}
+
+function schedule(): void {
+  if (timer) clearTimeout(timer)
+  timer = null
+  const { intervalMinutes } = getSnapshotSettings()
+  if (!deps || intervalMinutes === 0) return
+  timer = setTimeout(() => {
+    timer = null
+    void runScheduled().finally(schedule)
+  }, intervalMinutes * MINUTE_MS)
+  timer.unref?.()
+}
+
+function checkTarget(identityKey: unknown, chain: unknown): string | null {
+  if (typeof identityKey !== 'string' || !IDENTITY_KEY.test(identityKey) || typeof chain !== 'string' || !CHAINS.has(chain)) {
+    return 'No wallet is loaded.'
+  }
+  return null
+}
+
+/** Register the snapshot IPC channels and start the schedule. Call once. */
+export function registerDbSnapshotIpc(loaders: DbSnapshotDeps): void {
+  deps = loaders
+
+  ipcMain.handle('snapshots:list', async (_event, identityKey: string, chain: Chain) => {
+    const invalid = checkTarget(identityKey, chain)
+    if (invalid) return { ok: false, error: invalid }
+    const { walletDatabasePath } = await import('./storage.js')
+    return {
+      ok: true,
+      snapshots: listSnapshots(walletDatabasePath(identityKey, chain)),
+      settings: getSnapshotSettings(),
+      defaults: DEFAULT_SNAPSHOT_SETTINGS,
+    }
+  })
+
+  ipcMain.handle('snapshots:create', async (_event, identityKey: string, chain: Chain) => {
+    const invalid = checkTarget(identityKey, chain)
+    if (invalid) return { ok: false, error: invalid }
+    try {
+      const snapshot = await (await loaders.storage()).snapshotDatabase(identityKey, chain, 'manual')
+      return snapshot ? { ok: true, snapshot } : { ok: false, error: 'This wallet has no local database.' }
+    } catch (err: any) {
+      console.error('[snapshots] manual snapshot failed:', err)
+      return { ok: false, error: err?.message || String(err) }
+    }
+  })
+
+  ipcMain.handle('snapshots:restore', async (_event, identityKey: string, chain: Chain, id: string) => {
+    const invalid = checkTarget(identityKey, chain)
+    if (invalid) return { ok: false, error: invalid }
+    try {
+      await (await loaders.storage()).restoreSnapshot(identityKey, chain, id)
+      return { ok: true }
+    } catch (err: any) {
+      console.error('[snapshots] restore failed:', err)
+      return { ok: false, error: err?.message || String(err) }
+    }
+  })
+
+  ipcMain.handle('snapshots:delete', async (_event, identityKey: string, chain: Chain, id: string) => {
+    const invalid = checkTarget(identityKey, chain)
+    if (invalid) return { ok: false, error: invalid }
+    try {
+      const { walletDatabasePath } = await import('./storage.js')
+      deleteSnapshot(walletDatabasePath(identityKey, chain), id)
+      return { ok: true }
+    } catch (err: any) {
+      return { ok: false, error: err?.message || String(err) }
+    }
+  })
+
+  ipcMain.handle('snapshots:set-settings', (_event, patch: Partial<SnapshotSettings>) => {
+    try {
+      return { success: true, settings: setSnapshotSettings(patch) }
+    } catch (error: any) {
+      return { success: false, error: error?.message || String(error) }
+    }
+  })
+
+  schedule()
+}
+
+/** Test-only: forget settings, throttles and the pending timer. */
+export function _resetForTests(): void {
+  if (timer) clearTimeout(timer)
+  timer = null
+  deps = null
+  settings = null
+  lastPreSync.clear()
+}
@@ -1,55 +1,316 @@
-import express, { Request, Response } from 'express';
+import express, { Request, RequestHandler, Response } from 'express';
 import cors from 'cors';
-import { BrowserWindow } from 'electron';
+import { app as electronApp } from 'electron';
+import { randomBytes } from 'crypto';
 import { Server } from 'https';
 import https from 'https';
+import http from 'http';
 import { generateSelfSignedCert, ensureCertTrusted } from './sslCert.js';
-
-interface HttpRequestEvent {
+import {
+  bearerFromHeaders,
+  findPairing,
+  issueToken,
+  originFromHeaders,
+  verifyToken,
+} from './bridgePairing.js';
+import { startBridgeSocket } from './bridgeSocket.js';
+import { BridgeLimiter, getBridgeLimits, maxBodyBytesFor } from './bridgeLimits.js';
+import {
+  MAX_STREAMS_PER_ORIGIN,
+  STREAM_TICKET_TTL_MS,
+  closeAllEventStreams,
+  issueStreamTicket,
+  openStreamCount,
+  parseEventTypes,
+  redeemStreamTicket,
+  serveEventStream,
+  trackBridgeCall,
+} from './bridgeEvents.js';
+import { buildOpenApiDocument, validateBridgeRequest } from './bridgeOpenApi.js';
+import { renderSelfTestPage } from './bridgeSelfTest.js';
+import { failAllBridgeCalls, forwardToWallet, type HttpRequestEvent } from './bridgeDispatcher.js';
+import { noteVaultActivity } from './vaultAutoLock.js';
+
+/** One bridge call, independent of the transport it arrived on. */
+export interface BridgeCall {
   method: string;
   path: string;
   headers: Record<string, string>;
   body: string;
-  request_id: number;
+  /** Registers a callback to run if the caller goes away before the reply. */
+  onClientGone: (abandon: () => void) => void;
 }
 
-interface HttpResponseEvent {
-  request_id: number;
+export interface BridgeReply {
   status: number;
   body: string;
+  /** Extra response headers, e.g. `Retry-After` on 429. */
+  headers?: Record<string, string>;
 }
 
-interface PendingRequest {
-  resolve: (response: HttpResponseEvent) => void;
-  reject: (error: Error) => void;
-}
+/** Resolves null when the caller disconnected and there is nobody to answer. */
+export type BridgeDispatcher = (call: BridgeCall) => Promise<BridgeReply | null>;
+
+/**
+ * Routes reachable without a capability token: the pairing handshake itself
+ * and the read-only probes SDK clients use to detect a running wallet.
+ */
+const UNPAIRED_PATHS = new Set(['/pair', '/getVersion', '/getNetwork', '/isAuthenticated']);
 
 let requestIdCounter = 1;
-const pendingRequests = new Map<number, PendingRequest>();
-
-function failAllPendingRequests(reason: string): void {
-  if (pendingRequests.size === 0) return;
-  console.error(`[HTTP] failing ${pendingRequests.size} pending request(s): ${reason}`);
-  const error = new Error(reason);
-  for (const pending of pendingRequests.values()) {
-    pending.reject(error);
-  }
-  pendingRequests.clear();
+
+/** Answer for calls refused, or cut short, because the vault is locked. */
+function walletLocked(): BridgeReply {
+  return {
+    status: 503,
+    body: JSON.stringify({
+      status: 'error',
+      code: 'WALLET_LOCKED',
+      description: 'Wallet vault is locked. Unlock BSV Desktop and try again.',
+    }),
+  };
 }
 
+/**
+ * Request headers bridge clients send. Listed explicitly: the Fetch spec
+ * keeps `Authorization` out of the `*` wildcard, so a wildcard would fail
+ * every paired cross-origin preflight.
+ */
+const ALLOWED_REQUEST_HEADERS = ['Authorization', 'Content-Type', 'Originator', 'Last-Event-ID'];
+
 function setCorsHeaders(res: Response): void {
   res.header('Access-Control-Allow-Origin', '*');
-  res.header('Access-Control-Allow-Headers', '*');
+  res.header('Access-Control-Allow-Headers', ALLOWED_REQUEST_HEADERS.join(', '));
   res.header('Access-Control-Allow-Methods', '*');
   res.header('Access-Control-Expose-Headers', '*');
   res.header('Access-Control-Allow-Private-Network', 'true');
 }
 
+/** Flatten Node's header map to the single-valued shape the bridge passes around. */
+function headersOf(req: Request): Record<string, string> {
+  const headers: Record<string, string> = {};
+  Object.entries(req.headers).forEach(([key, value]) => {
+    if (typeof value === 'string') {
+      headers[key] = value;
+    } else if (Array.isArray(value)) {
+      headers[key] = value[0];
+    }
+  });
+  return headers;
+}
+
 function canWriteResponse(res: Response): boolean {
   return !res.writableEnded && !res.destroyed && res.writable;
 }
 
-export async function startHttpServer(mainWindow: BrowserWindow): Promise<() => Promise<void>> {
+/**
+ * Body parsing capped at each route's limit (bridgeLimits `maxBodyBytes`). A
+ * declared Content-Length over it is refused before anything is read, and a
+ * chunked upload is cut off once it passes it; both get 413. The dispatcher's
+ * limiter checks the size again for the socket transport.
+ */
+export function bridgeBodyParser(): RequestHandler {
+  const parsers = new Map<number, [RequestHandler, RequestHandler]>();
+  return (req, res, next) => {
+    const max = maxBodyBytesFor(getBridgeLimits(), req.path);
+    const tooLarge = (description: string) => {
+      setCorsHeaders(res);
+      res.status(413).send(JSON.stringify({ status: 'error', code: 'PAYLOAD_TOO_LARGE', description }));
+    };
+
+    const declared = Number(req.headers['content-length']);
+    if (Number.isFinite(declared) && declared > max) {
+      tooLarge(`Request body is ${declared} bytes; ${req.path} accepts at most ${max}.`);
+      return;
+    }
+
+    let pair = parsers.get(max);
+    if (!pair) {
+      pair = [express.json({ limit: max }), express.text({ type: '*/*', limit: max })];
+      parsers.set(max, pair);
+    }
+    const [json, text] = pair;
+    const done = (err?: any) => {
+      if (err?.type === 'entity.too.large') {
+        tooLarge(`Request body is over the ${max} bytes ${req.path} accepts.`);
+        return;
+      }
+      next(err);
+    };
+    json(req, res, (err?: any) => (err ? done(err) : text(req, res, done)));
+  };
+}
+
+/**
+ * Transport-agnostic dispatch: token gate, vault gate, renderer round trip
+ * (through bridgeDispatcher, so it survives the window being recreated).
+ * Shared by the HTTP(S) listeners and the filesystem socket.
+ */
+export function createBridgeDispatcher(limiter: BridgeLimiter): BridgeDispatcher {
+  return async (call) => {
+    const request_id = requestIdCounter++;
+    let releaseSlot: (() => void) | null = null;
+    try {
+      // The API description is public and answered here on every transport.
+      if (call.path === '/openapi.json') {
+        return {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(buildOpenApiDocument(electronApp.getVersion())),
+        };
+      }
+
+      console.log(`[HTTP] ${call.method} ${call.path} → renderer (request_id: ${request_id})`);
+
+      const headers = { ...call.headers };
+
+      // Capability-token gate: the token must exist and be bound to the
+      // origin this request claims. The header never reaches the renderer.
+      const origin = originFromHeaders(headers);
+      const bearer = bearerFromHeaders(headers);
+      delete headers['authorization'];
+      let authenticated = false;
+      if (!UNPAIRED_PATHS.has(call.path) || bearer) {
+        const check = verifyToken(bearer, origin);
+        if (check.ok === false) {
+          return {
+            status: 401,
+            body: JSON.stringify({
+              status: 'error',
+              code: check.code,
+              description: check.description,
+            }),
+          };
+        }
+        authenticated = true;
+      }
+
+      // Per-origin and global rate / in-flight / body-size limits. Applied after
+      // the token gate so spoofed-origin 401s cannot drain a real app's budget.
+      // /pair is unauthenticated, so it has one budget of its own whatever
+      // Origin it claims, and one prompt pending at a time.
+      const admission = limiter.admit(origin, call.path, Buffer.byteLength(call.body, 'utf8'));
+      if (admission.ok === false) {
+        console.warn(`[HTTP] ${admission.code} ${call.method} ${call.path} from ${origin ?? 'unknown origin'}`);
+        return {
+          status: admission.status,
+          headers: admission.retryAfterSeconds
+            ? { 'Retry-After': String(admission.retryAfterSeconds) }
+            : undefined,
+          body: JSON.stringify({
+            status: 'error',
+            code: admission.code,
+            description: admission.description,
+            ...(admission.retryAfterSeconds ? { retryAfterSeconds: admission.retryAfterSeconds } : {}),
+          }),
+        };
+      }
+      releaseSlot = admission.release;
+
+      // A single-use ticket that lets a browser's EventSource open /events
+      // without putting the pairing token in the URL.
+      if (call.path === '/events/ticket' && origin) {
+        return {
+          status: 200,
+          body: JSON.stringify({
+            ticket: issueStreamTicket(origin),
+            expiresInSeconds: STREAM_TICKET_TTL_MS / 1000,
+          }),
+        };
+      }
+
+      // Reject bodies that do not match the published schema before they
+      // reach the wallet, with every problem listed rather than a bare 400.
+      const invalid = validateBridgeRequest(call.path, call.body);
+      if (invalid) return invalid;
+
+      // Only calls that presented a valid token keep the vault from idling
+      // into a lock; unpaired probes (/getVersion, /pair, ...) do not.
+      if (authenticated) noteVaultActivity();
+
+      // Refuse wallet methods while the vault is locked (cold-start gate).
+      try {
+        const vault = await import('./vault.js');
+        if (vault.hasVaultFile() && !vault.isUnlocked()) {
+          return walletLocked();
+        }
+      } catch (e) {
+        console.warn('[HTTP] vault lock check failed:', e);
+      }
+
+      const requestEvent: HttpRequestEvent = {
+        method: call.method,
+        path: call.path,
+        headers,
+        body: call.body,
+        request_id,
+        ...(origin ? { origin } : {}),
+      };
+      // The prompt says when approving would sign an already-paired app out.
+      if (call.path === '/pair' && origin) {
+        const existing = findPairing(origin);
+        requestEvent.existingPairing = existing
+          ? { createdAt: existing.createdAt, lastUsedAt: existing.lastUsedAt }
+          : null;
+      }
+
+      // Delivered to whichever wallet window is live, or held briefly while
+      // one reloads. No short timeout: a visible permission prompt is a
+      // legitimate pending state.
+      // Note what the call shows this app owns, so /events can scope its stream.
+      const settle = origin && !UNPAIRED_PATHS.has(call.path)
+        ? trackBridgeCall(origin, call.path, call.body)
+        : null;
+      let httpResponse;
+      try {
+        httpResponse = await forwardToWallet(requestEvent, call.onClientGone);
+      } catch (error) {
+        settle?.(0, '');
+        throw error;
+      }
+      settle?.(httpResponse.status, httpResponse.body);
+
+      // The renderer only answers 200 to /pair once the user approved the
+      // prompt; mint the token here so it never crosses into the renderer.
+      if (call.path === '/pair' && httpResponse.status === 200 && origin) {
+        return {
+          status: 200,
+          body: JSON.stringify({
+            status: 'paired',
+            origin,
+            token: issueToken(origin),
+          }),
+        };
+      }
+
+      return { status: httpResponse.status, body: httpResponse.body };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message.includes('CLIENT_DISCONNECTED')) {
+        // Connection is gone; nothing useful to write.
+        return null;
+      }
+      if (message.includes('WALLET_LOCKED')) {
+        // The vault locked (idle, suspend, screen lock) while this call was pending.
+        return walletLocked();
+      }
+      console.error('Error handling bridge request:', error);
+      const isBridgeUnavailable = message.includes('WALLET_BRIDGE_UNAVAILABLE');
+      return {
+        status: isBridgeUnavailable ? 503 : 500,
+        body: JSON.stringify({
+          status: 'error',
+          code: isBridgeUnavailable ? 'WALLET_BRIDGE_UNAVAILABLE' : 'HTTP_BRIDGE_ERROR',
+          description: message,
+        }),
+      };
+    } finally {
+      releaseSlot?.();
+    }
+  };
+}
+
+export async function startHttpServer(): Promise<() => Promise<void>> {
   const app = express();
 
   // Private Network Access header on ALL responses (must be before cors middleware)
@@ -62,23 +323,19 @@ export async function startHttpServer(mainWindow: BrowserWindow): Promise<() =>
   app.use(cors({
     origin: '*',
     methods: '*',
-    allowedHeaders: '*',
+    allowedHeaders: ALLOWED_REQUEST_HEADERS,
     exposedHeaders: '*',
     credentials: false,
     preflightContinue: true
   }));
 
-  // Parse JSON bodies
-  app.use(express.json({ limit: '50mb' }));
-  app.use(express.text({ type: '*/*', limit: '50mb' }));
+  const limiter = new BridgeLimiter();
+
+  app.use(bridgeBodyParser());
 
   // Handle OPTIONS for all routes (runs after cors middleware with preflightContinue)
   app.options('*', (_req: Request, res: Response) => {
-    res.header('Access-Control-Allow-Origin', '*');
-    res.header('Access-Control-Allow-Headers', '*');
-    res.header('Access-Control-Allow-Methods', '*');
-    res.header('Access-Control-Expose-Headers', '*');
-    res.header('Access-Control-Allow-Private-Network', 'true');
+    setCorsHeaders(res);
     res.sendStatus(200);
   });
 
@@ -112,159 +369,122 @@ export async function startHttpServer(mainWindow: BrowserWindow): Promise<() =>
     res.json(manifest);
   });
 
-  // Listen for responses from renderer
-  mainWindow.webContents.on('ipc-message', (_event, channel, response) => {
-    if (channel === 'http-response') {
-      const typedResponse = response as HttpResponseEvent;
-      const pending = pendingRequests.get(typedResponse.request_id);
-      if (pending) {
-        pending.resolve(typedResponse);
-        pendingRequests.delete(typedResponse.request_id);
-      }
-    }
-  });
+  const dispatch = createBridgeDispatcher(limiter);
 
-  // Fail in-flight bridge waits when the renderer can no longer answer.
-  // Permission prompts may wait indefinitely while healthy; dead sessions must not.
-  const onRendererUnavailable = (reason: string) => {
-    failAllPendingRequests(`WALLET_BRIDGE_UNAVAILABLE: ${reason}`);
-  };
+  // Server-sent wallet events. Answered here rather than through the renderer
+  // because the response stays open; the same token gate and rate budget apply.
+  app.get('/events', (req: Request, res: Response) => {
+    const headers = headersOf(req);
+    const origin = originFromHeaders(headers);
+    const reject = (status: number, code: string, description: string) => {
+      setCorsHeaders(res);
+      res.status(status).send(JSON.stringify({ status: 'error', code, description }));
+    };
 
-  mainWindow.webContents.on('render-process-gone', (_event, details) => {
-    onRendererUnavailable(`renderer process gone (${details.reason})`);
-  });
+    // EventSource cannot set headers, so browsers redeem a ticket from
+    // POST /events/ticket instead. It must come back from the origin it was
+    // minted for.
+    const bearer = bearerFromHeaders(headers);
+    const ticket = typeof req.query.ticket === 'string' ? req.query.ticket : null;
+    let streamOrigin: string;
+    if (bearer || !ticket) {
+      const check = verifyToken(bearer, origin);
+      if (check.ok === false) {
+        reject(401, check.code, check.description);
+        return;
+      }
+      streamOrigin = check.origin;
+    } else {
+      const ticketOrigin = redeemStreamTicket(ticket);
+      if (!ticketOrigin || ticketOrigin !== origin) {
+        reject(401, 'BRIDGE_TICKET_INVALID', 'Unknown, used or expired event stream ticket.');
+        return;
+      }
+      streamOrigin = ticketOrigin;
+    }
 
-  // Full reloads drop in-flight IPC handlers; settle waits rather than hang forever.
-  mainWindow.webContents.on('did-start-loading', () => {
-    onRendererUnavailable('renderer reloading');
-  });
+    const types = parseEventTypes(typeof req.query.types === 'string' ? req.query.types : undefined);
+    if (types.ok === false) {
+      reject(400, 'UNKNOWN_EVENT_TYPE', types.error);
+      return;
+    }
 
-  mainWindow.webContents.on('destroyed', () => {
-    onRendererUnavailable('webContents destroyed');
+    if (openStreamCount(streamOrigin) >= MAX_STREAMS_PER_ORIGIN) {
+      reject(429, 'TOO_MANY_STREAMS', `At most ${MAX_STREAMS_PER_ORIGIN} event streams per app.`);
+      return;
+    }
+    const admission = limiter.admit(streamOrigin, '/events', 0);
+    if (admission.ok === false) {
+      if (admission.retryAfterSeconds) res.set('Retry-After', String(admission.retryAfterSeconds));
+      reject(admission.status, admission.code, admission.description);
+      return;
+    }
+    // Opening a stream spends rate budget but does not hold an in-flight slot.
+    admission.release();
+
+    const resumeFrom = Number(headers['last-event-id'] ?? req.query.lastEventId);
+    setCorsHeaders(res);
+    serveEventStream(res, {
+      origin: streamOrigin,
+      types: types.types,
+      lastEventId: Number.isInteger(resumeFrom) && resumeFrom >= 0 ? resumeFrom : undefined,
+    });
   });
 
-  mainWindow.on('closed', () => {
-    onRendererUnavailable('window closed');
+  // Interactive page for trying every documented route against this wallet.
+  // Static and token-free: it pairs like any other app before calling routes.
+  app.get('/self-test', (_req: Request, res: Response) => {
+    const nonce = randomBytes(16).toString('base64');
+    res.set({
+      'Content-Type': 'text/html; charset=utf-8',
+      'Content-Security-Policy':
+        `default-src 'none'; script-src 'nonce-${nonce}'; style-src 'nonce-${nonce}'; connect-src 'self'`,
+      'X-Content-Type-Options': 'nosniff',
+    });
+    res.status(200).send(renderSelfTestPage(nonce));
   });
 
   // Handle all HTTP requests
   app.all('*', async (req: Request, res: Response) => {
-    const request_id = requestIdCounter++;
-    try {
-      console.log(`[HTTP] ${req.method} ${req.path} → renderer (request_id: ${request_id})`);
-
-      // Convert headers to simple object
-      const headers: Record<string, string> = {};
-      Object.entries(req.headers).forEach(([key, value]) => {
-        if (typeof value === 'string') {
-          headers[key] = value;
-        } else if (Array.isArray(value)) {
-          headers[key] = value[0];
-        }
-      });
-
-      // Get body as string
-      let body = '';
-      if (typeof req.body === 'string') {
-        body = req.body;
-      } else if (req.body) {
-        body = JSON.stringify(req.body);
-      }
-
-      // Refuse wallet methods while the vault is locked (cold-start gate).
-      try {
-        const vault = await import('./vault.js');
-        if (vault.hasVaultFile() && !vault.isUnlocked()) {
-          setCorsHeaders(res);
-          res.status(503).send(JSON.stringify({
-            status: 'error',
-            code: 'WALLET_LOCKED',
-            description: 'Wallet vault is locked. Unlock BSV Desktop and try again.',
-          }));
-          return;
-        }
-      } catch (e) {
-        console.warn('[HTTP] vault lock check failed:', e);
-      }
-
-      if (mainWindow.isDestroyed() || mainWindow.webContents.isDestroyed()) {
-        throw new Error('WALLET_BRIDGE_UNAVAILABLE: window is not available');
-      }
-
-      const requestEvent: HttpRequestEvent = {
-        method: req.method,
-        path: req.path,
-        headers,
-        body,
-        request_id
-      };
-
-      // Wait until the renderer answers, the HTTP client disconnects, or the bridge dies.
-      // No short timeout: a visible permission prompt is a legitimate pending state.
-      const responsePromise = new Promise<HttpResponseEvent>((resolve, reject) => {
-        pendingRequests.set(request_id, { resolve, reject });
-
-        // req "close" also fires after a normal completed response — only treat as
-        // abandon when we never finished writing and the entry is still pending.
-        const onClientGone = () => {
-          if (!pendingRequests.has(request_id)) return;
-          if (res.writableEnded) return;
-          console.warn(`[HTTP] client disconnected (request_id: ${request_id})`);
-          pendingRequests.delete(request_id);
-          reject(new Error('CLIENT_DISCONNECTED: HTTP client closed the connection'));
-
-          // Tell the renderer to dismiss permission UI for this abandoned call.
-          try {
-            if (!mainWindow.isDestroyed() && !mainWindow.webContents.isDestroyed()) {
-              mainWindow.webContents.send('http-request-cancelled', {
-                request_id,
-                reason: 'CLIENT_DISCONNECTED',
-              });
-            }
-          } catch (err) {
-            console.warn('[HTTP] failed to notify renderer of client disconnect:', err);
-          }
-        };
-        req.on('close', onClientGone);
-      });
-
-      // Send to renderer
-      mainWindow.webContents.send('http-request', requestEvent);
-
-      // Wait for response
-      const httpResponse = await responsePromise;
+    const headers = headersOf(req);
+
+    // Get body as string
+    let body = '';
+    if (typeof req.body === 'string') {
+      body = req.body;
+    } else if (req.body) {
+      body = JSON.stringify(req.body);
+    }
 
-      if (!canWriteResponse(res)) {
-        console.warn(`[HTTP] dropping response — client already gone (request_id: ${request_id})`);
-        return;
-      }
+    const reply = await dispatch({
+      method: req.method,
+      path: req.path,
+      headers,
+      body,
+      // req "close" also fires after a normal completed response — only treat as
+      // abandon when we never finished writing.
+      onClientGone: (abandon) => {
+        req.on('close', () => {
+          if (!res.writableEnded) abandon();
+        });
+      },
+    });
 
-      // Send response back to HTTP client
-      setCorsHeaders(res);
-      res.status(httpResponse.status).send(httpResponse.body);
-    } catch (error) {
-      console.error('Error handling HTTP request:', error);
-      // Client already left (or response already finished) — nothing useful to write.
-      if (!canWriteResponse(res)) {
-        return;
-      }
-      setCorsHeaders(res);
-      const message = error instanceof Error ? error.message : String(error);
-      const isBridgeUnavailable = message.includes('WALLET_BRIDGE_UNAVAILABLE');
-      const isClientDisconnected = message.includes('CLIENT_DISCONNECTED');
-      if (isClientDisconnected) {
-        // Connection is gone; avoid racing a write. canWriteResponse should usually
-        // have short-circuited, but keep this path defensive.
-        return;
-      }
-      res.status(isBridgeUnavailable ? 503 : 500).send(JSON.stringify({
-        status: 'error',
-        code: isBridgeUnavailable ? 'WALLET_BRIDGE_UNAVAILABLE' : 'HTTP_BRIDGE_ERROR',
-        description: message,
-      }));
+    // Client already left (or response already finished) — nothing useful to write.
+    if (!reply || !canWriteResponse(res)) {
+      console.warn(`[HTTP] dropping response — client already gone (${req.method} ${req.path})`);
+      return;
     }
+
+    setCorsHeaders(res);
+    if (reply.headers) res.set(reply.headers);
+    res.status(reply.status).send(reply.body);
   });
 
+  // Filesystem socket first: it needs no port, so it stays available even
+  // when another process holds 2121/3321.
+  const closeSocket = await startBridgeSocket(dispatch);
+
   // Generate self-signed certificate
   const { cert, key, certPath } = await generateSelfSignedCert();
 
@@ -272,34 +492,47 @@ export async function startHttpServer(mainWindow: BrowserWindow): Promise<() =>
   await ensureCertTrusted(certPath);
 
   // Start HTTPS server (2121) + HTTP fallback (3321)
-  const server: Server = await new Promise((resolve, reject) => {
-    const srv = https.createServer({ cert, key }, app);
-
-    srv.listen(2121, '127.0.0.1', () => {
-      console.log('HTTPS server listening on https://127.0.0.1:2121');
-      app.listen(3321, '127.0.0.1', () => {
-        console.log('HTTP server listening on http://127.0.0.1:3321');
-        resolve(srv);
-      });
-    });
+  const httpsServer: Server = https.createServer({ cert, key }, app);
+  const httpServer: http.Server = http.createServer(app);
+  const listening: Array<Server | http.Server> = [];
+  if (await listenLocal(httpsServer, 2121, 'https')) listening.push(httpsServer);
+  if (await listenLocal(httpServer, 3321, 'http')) listening.push(httpServer);
 
-    srv.on('error', (error: NodeJS.ErrnoException) => {
+  // Return cleanup function
+  return async () => {
+    failAllBridgeCalls('WALLET_BRIDGE_UNAVAILABLE: HTTP server shutting down');
+    // Open event streams would otherwise keep server.close() waiting forever.
+    closeAllEventStreams();
+    await closeSocket();
+    await Promise.all(listening.map((srv) => new Promise<void>((resolve) => {
+      srv.close(() => resolve());
+    })));
+    console.log('HTTP bridge listeners closed');
+  };
+}
+
+/**
+ * Listen on 127.0.0.1:port. A port held by another process disables just
+ * this listener (resolves false) instead of exiting the app.
+ */
+function listenLocal(server: Server | http.Server, port: number, scheme: 'https' | 'http'): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const onError = (error: NodeJS.ErrnoException) => {
+      server.off('listening', onListening);
       if (error.code === 'EADDRINUSE') {
-        console.error('Port 2121 is already in use!');
-        process.exit(1);
+        console.error(`Port ${port} is already in use — ${scheme.toUpperCase()} listener disabled.`);
+        resolve(false);
+        return;
       }
       reject(error);
-    });
+    };
+    const onListening = () => {
+      server.off('error', onError);
+      console.log(`${scheme.toUpperCase()} server listening on ${scheme}://127.0.0.1:${port}`);
+      resolve(true);
+    };
+    server.once('error', onError);
+    server.once('listening', onListening);
+    server.listen(port, '127.0.0.1');
   });
-
-  // Return cleanup function
-  return async () => {
-    failAllPendingRequests('WALLET_BRIDGE_UNAVAILABLE: HTTP server shutting down');
-    return new Promise<void>((resolve) => {
-      server.close(() => {
-        console.log('HTTPS server closed');
-        resolve();
-      });
-    });
-  };
 }
@@ -6,6 +6,21 @@ import fs from 'fs';
 import { startHttpServer } from './httpServer.js';
 import { buildApplicationMenu } from './appMenu.js';
 import { applyPersistedProxySettings, registerNetworkIpc } from './networkSettings.js';
+import { registerBridgeLimitsIpc } from './bridgeLimits.js';
+import { listPairings, normalizePairingOrigin, revokePairing } from './bridgePairing.js';
+import { closeEventStreams, publishBridgeEvent, registerBridgeEventsIpc } from './bridgeEvents.js';
+import {
+  APPROVAL_WINDOW_NAME,
+  attachWalletWindow,
+  failAllBridgeCalls,
+  promptWindow,
+  registerBridgeDispatcherIpc,
+} from './bridgeDispatcher.js';
+import { startVaultAutoLock, vaultLockStateChanged } from './vaultAutoLock.js';
+import { registerWalletBackupIpc } from './walletBackup.js';
+import { registerDbSnapshotIpc } from './dbSnapshots.js';
+import { registerDbMaintenanceIpc } from './dbMaintenance.js';
+import { registerWatchOnlyIpc } from './watchOnly.js';
 
 const require = createRequire(import.meta.url);
 
@@ -15,6 +30,9 @@ async function getStorageManager() {
   if (!storageManager) {
     const module = await import('./storage.js');
     storageManager = module.storageManager;
+    // Wallet databases are encrypted under a key from the unlocked vault.
+    storageManager.setDatabaseKeyProvider(async (identityKey: string, chain: string) =>
+      (await getVault()).databaseKey(identityKey, chain));
   }
   return storageManager;
 }
@@ -42,6 +60,19 @@ let vaultModule: typeof import('./vault.js') | null = null;
 async function getVault() {
   if (!vaultModule) {
     vaultModule = await import('./vault.js');
+    // Connected apps watching /events learn when the wallet locks or unlocks.
+    vaultModule.onLockStateChange((locked) => {
+      publishBridgeEvent(locked ? 'vault.locked' : 'vault.unlocked');
+      vaultLockStateChanged(locked);
+      if (locked) {
+        // Calls the renderer was still working on cannot finish without keys.
+        failAllBridgeCalls('WALLET_LOCKED: wallet vault locked while the request was pending');
+        // Locks can start here (idle timer, suspend, screen lock); the gate re-prompts.
+        if (mainWindow && !mainWindow.isDestroyed()) {
+          mainWindow.webContents.send('vault:locked');
+        }
+      }
+    });
   }
   return vaultModule;
 }
@@ -154,14 +185,33 @@ function createWindow() {
     mainWindow = null;
   });
 
+  // The HTTP bridge follows whichever wallet window is live.
+  attachWalletWindow(mainWindow);
+
   // Open external links in the default browser
-  mainWindow.webContents.setWindowOpenHandler(({ url }) => {
+  mainWindow.webContents.setWindowOpenHandler(({ url, frameName }) => {
+    // The compact approval window: a blank same-origin child the renderer
+    // portals its permission prompts into.
+    if (frameName === APPROVAL_WINDOW_NAME && url === 'about:blank') {
+      return {
+        action: 'allow',
+        overrideBrowserWindowOptions: {
+          width: 460,
+          height: 640,
+          minWidth: 380,
+          minHeight: 480,
+          icon: getIconPath(),
+          title: 'BSV Desktop — Approvals',
+          autoHideMenuBar: true,
+        },
+      };
+    }
     // Only ever hand http(s) URLs to the OS; deny everything else
     // (javascript:, file:, data:, custom protocol handlers, etc.).
     if (isSafeExternalUrl(url)) {
       shell.openExternal(url);
     }
-    return { action: 'deny' }; // Never let the renderer open a new Electron window
+    return { action: 'deny' }; // Never let the renderer open any other Electron window
   });
 
   // Handle navigation attempts (like clicking links). Cover both will-navigate
@@ -207,9 +257,18 @@ registerNetworkIpc({
   }
 });
 
-// Check if window is focused
+registerBridgeLimitsIpc();
+registerBridgeEventsIpc();
+registerBridgeDispatcherIpc();
+registerWalletBackupIpc({ storage: getStorageManager, vault: getVault });
+// Scheduled snapshots only cover databases already open, so they never load storage themselves.
+registerDbSnapshotIpc({ storage: getStorageManager, loadedStorage: () => storageManager });
+registerDbMaintenanceIpc({ storage: getStorageManager });
+registerWatchOnlyIpc({ storage: getStorageManager });
+
+// Check if the window prompts appear in (dashboard or approval window) is focused
 ipcMain.handle('is-focused', () => {
-  return mainWindow?.isFocused() ?? false;
+  return promptWindow()?.isFocused() ?? false;
 });
 
 // The app's own bundle ID — used to avoid capturing ourselves as prevBundleId
@@ -217,7 +276,8 @@ const OWN_BUNDLE_ID = 'com.bsvblockchain.bsvdesktop';
 
 // Request focus - platform-specific implementations
 ipcMain.handle('request-focus', async () => {
-  if (!mainWindow) return;
+  const win = promptWindow();
+  if (!win) return;
 
   if (process.platform === 'darwin') {
     // macOS specific focus handling
@@ -241,46 +301,47 @@ ipcMain.handle('request-focus', async () => {
     }
 
     // Show and focus the window
-    if (mainWindow.isMinimized()) mainWindow.restore();
-    mainWindow.show();
+    if (win.isMinimized()) win.restore();
+    win.show();
 
     // Request attention (bounces dock icon)
     app.dock?.bounce('informational');
 
     // Multiple focus attempts
     for (let i = 0; i < 3; i++) {
-      mainWindow.focus();
-      if (mainWindow.isFocused()) break;
+      win.focus();
+      if (win.isFocused()) break;
       await new Promise(resolve => setTimeout(resolve, 50));
     }
   } else if (process.platform === 'win32') {
     // Windows specific focus handling
-    if (mainWindow.isMinimized()) mainWindow.restore();
-    mainWindow.show();
-    mainWindow.focus();
+    if (win.isMinimized()) win.restore();
+    win.show();
+    win.focus();
 
     // Temporarily set always-on-top to force focus
-    mainWindow.setAlwaysOnTop(true);
+    win.setAlwaysOnTop(true);
     setTimeout(() => {
-      mainWindow?.setAlwaysOnTop(false);
+      if (!win.isDestroyed()) win.setAlwaysOnTop(false);
     }, 100);
   } else {
     // Linux focus handling
-    if (mainWindow.isMinimized()) mainWindow.restore();
-    mainWindow.show();
-    mainWindow.focus();
+    if (win.isMinimized()) win.restore();
+    win.show();
+    win.focus();
 
     // Sometimes need multiple attempts on Linux
     await new Promise(resolve => setTimeout(resolve, 30));
-    if (!mainWindow.isFocused()) {
-      mainWindow.focus();
+    if (!win.isFocused()) {
+      win.focus();
     }
   }
 });
 
 // Relinquish focus
 ipcMain.handle('relinquish-focus', async () => {
-  if (!mainWindow) return;
+  const win = promptWindow();
+  if (!win) return;
 
   if (process.platform === 'darwin') {
     // macOS: try to restore previous app
@@ -298,7 +359,7 @@ ipcMain.handle('relinquish-focus', async () => {
       }
       try {
         // Blur our window first so macOS doesn't fight the activation
-        mainWindow.blur();
+        win.blur();
         // Note: 'tell application id "..." to activate' is ignored by macOS 26
         // when called from a subprocess. 'set frontmost' via System Events works.
         await execFilePromise('osascript', [
@@ -313,7 +374,7 @@ ipcMain.handle('relinquish-focus', async () => {
     // from an empty queue on mount) must not wipe a valid stored value.
   } else {
     // Windows/Linux: minimize the window
-    mainWindow.minimize();
+    win.minimize();
   }
 });
 
@@ -492,11 +553,17 @@ ipcMain.handle('app:restart', async () => {
   app.exit(0);
 });
 
-// Forward HTTP requests to renderer
-ipcMain.on('http-response', (_event, response) => {
-  if (mainWindow) {
-    mainWindow.webContents.send('http-response', response);
-  }
+// ===== Bridge Pairing IPC Handlers =====
+
+ipcMain.handle('bridge:list-pairings', async () => {
+  return listPairings();
+});
+
+ipcMain.handle('bridge:revoke-pairing', async (_event, origin: string) => {
+  const revoked = revokePairing(origin);
+  // A revoked app must stop receiving events, not just lose future calls.
+  if (revoked) closeEventStreams(normalizePairingOrigin(origin));
+  return revoked;
 });
 
 // ===== Storage IPC Handlers =====
@@ -548,6 +615,18 @@ ipcMain.handle('storage:initialize-services', async (_event, identityKey: string
   }
 });
 
+// Set aside a database the unlocked profile cannot open, at the user's request
+ipcMain.handle('storage:start-fresh', async (_event, identityKey: string, chain: 'main' | 'test' | 'ttn') => {
+  try {
+    const manager = await getStorageManager();
+    const movedTo = await manager.startFreshDatabase(identityKey, chain);
+    return { success: true, movedTo };
+  } catch (error: any) {
+    console.error('[IPC] storage:start-fresh error:', error);
+    return { success: false, error: error.message };
+  }
+});
+
 // ===== Vault + Secret IPC Handlers =====
 
 ipcMain.handle('vault:status', async () => {
@@ -555,14 +634,28 @@ ipcMain.handle('vault:status', async () => {
   return vault.status();
 });
 
-ipcMain.handle('vault:unlock-passphrase', async (_event, passphrase: string) => {
+// An optional profile id unlocks (or switches to) that vault profile.
+ipcMain.handle('vault:unlock-passphrase', async (_event, passphrase: string, profileId?: string) => {
   const vault = await getVault();
-  return vault.unlockWithPassphrase(passphrase);
+  return vault.unlockWithPassphrase(passphrase, profileId);
 });
 
-ipcMain.handle('vault:unlock-biometrics', async () => {
+ipcMain.handle('vault:unlock-biometrics', async (_event, profileId?: string) => {
   const vault = await getVault();
-  return vault.unlockWithBiometrics();
+  return vault.unlockWithBiometrics(profileId);
+});
+
+ipcMain.handle(
+  'vault:create-profile',
+  async (_event, options: { name: string; passphrase: string; ownPassphrase: boolean; enableBiometrics: boolean }) => {
+    const vault = await getVault();
+    return vault.createProfile(options);
+  }
+);
+
+ipcMain.handle('vault:delete-profile', async (_event, profileId: string, passphrase: string) => {
+  const vault = await getVault();
+  return vault.deleteProfile(profileId, passphrase);
 });
 
 ipcMain.handle(
@@ -586,6 +679,33 @@ ipcMain.handle(
   }
 );
 
+ipcMain.handle(
+  'vault:change-passphrase',
+  async (_event, currentPassphrase: string, newPassphrase: string) => {
+    const vault = await getVault();
+    return vault.changePassphrase(currentPassphrase, newPassphrase);
+  }
+);
+
+// Duress passphrase: a second passphrase that opens a decoy wallet.
+ipcMain.handle('vault:has-duress', async () => {
+  const vault = await getVault();
+  return vault.hasDuressPassphrase();
+});
+
+ipcMain.handle(
+  'vault:set-duress',
+  async (_event, currentPassphrase: string, duressPassphrase: string) => {
+    const vault = await getVault();
+    return vault.setDuressPassphrase(currentPassphrase, duressPassphrase);
+  }
+);
+
+ipcMain.handle('vault:clear-duress', async (_event, currentPassphrase: string) => {
+  const vault = await getVault();
+  return vault.clearDuressPassphrase(currentPassphrase);
+});
+
 ipcMain.handle('vault:lock', async () => {
   const vault = await getVault();
   vault.lock();
@@ -719,12 +839,13 @@ app.whenReady().then(async () => {
   }
 
   buildApplicationMenu({ getMainWindow: () => mainWindow });
+  startVaultAutoLock(() => vaultModule?.lock());
   createWindow();
 
   // Start HTTPS server on port 2121
-  if (mainWindow) {
-    httpServerCleanup = await startHttpServer(mainWindow);
+  httpServerCleanup = await startHttpServer();
 
+  if (mainWindow) {
     // Initialize auto-updater
     const { initAutoUpdater } = getUpdaterModule();
     initAutoUpdater(mainWindow);
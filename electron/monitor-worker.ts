@@ -15,6 +15,7 @@ import path from 'path';
 import os from 'os';
 import { createRequire } from 'module';
 import { StorageKnex, Services, Monitor, WalletStorageManager } from '@bsv/wallet-toolbox';
+import { applyDatabaseKey } from './dbEncryption.js';
 
 const require = createRequire(import.meta.url);
 
@@ -30,6 +31,8 @@ function getCreateKnex() {
 interface MonitorConfig {
   identityKey: string;
   chain: 'main' | 'test' | 'ttn';
+  /** Hex key the database is encrypted under (dbEncryption.ts); null when plaintext. */
+  databaseKey: string | null;
 }
 
 let monitor: Monitor | null = null;
@@ -54,7 +57,8 @@ async function startMonitor(config: MonitorConfig): Promise<void> {
 
     console.log(`[Monitor Worker] Connecting to database: ${dbPath}`);
 
-    // Create knex instance with WAL mode
+    // Create knex instance with WAL mode, keyed when the database is encrypted
+    const databaseKey = config.databaseKey ? Buffer.from(config.databaseKey, 'hex') : null;
     const knexFactory = getCreateKnex();
     const db = knexFactory({
       client: 'better-sqlite3',
@@ -64,6 +68,9 @@ async function startMonitor(config: MonitorConfig): Promise<void> {
       useNullAsDefault: true,
       pool: {
         afterCreate: (conn: any, cb: any) => {
+          if (databaseKey) {
+            applyDatabaseKey(conn, databaseKey);
+          }
           // Enable WAL mode for concurrent access
           conn.pragma('journal_mode = WAL');
           cb(null, conn);
@@ -111,6 +118,29 @@ async function startMonitor(config: MonitorConfig): Promise<void> {
     // Override services
     monitorOptions.services = services;
 
+    // Report broadcast and proof results to the parent, which publishes them
+    // as `action.status` events for apps watching GET /events.
+    monitorOptions.onTransactionBroadcasted = async (result) => {
+      const status = result.status === 'success'
+        ? 'unproven'
+        : result.status === 'serviceError' ? 'sending' : 'failed';
+      process.send?.({
+        type: 'action-status',
+        event: { txid: result.txid, status, broadcastResult: result.status }
+      });
+    };
+    monitorOptions.onTransactionProven = async (proven) => {
+      process.send?.({
+        type: 'action-status',
+        event: {
+          txid: proven.txid,
+          status: 'completed',
+          blockHeight: proven.blockHeight,
+          blockHash: proven.blockHash
+        }
+      });
+    };
+
     monitor = new Monitor(monitorOptions);
     console.log(`[Monitor Worker] Monitor created`);
 
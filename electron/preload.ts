@@ -54,6 +54,18 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.removeAllListeners('http-request-cancelled');
   },
 
+  // HTTP bridge capability-token pairings
+  bridge: {
+    listPairings: () => ipcRenderer.invoke('bridge:list-pairings'),
+    revokePairing: (origin: string) => ipcRenderer.invoke('bridge:revoke-pairing', origin),
+    getLimits: () => ipcRenderer.invoke('bridge:get-limits'),
+    setLimits: (limits: any) => ipcRenderer.invoke('bridge:set-limits', limits),
+    publishEvent: (type: string, data: Record<string, unknown>) =>
+      ipcRenderer.send('bridge-events:publish', type, data),
+    rendererReady: () => ipcRenderer.send('bridge:renderer-ready'),
+    setApprovalWindow: (enabled: boolean) => ipcRenderer.send('bridge:set-approval-window', enabled),
+  },
+
   // Storage operations
   storage: {
     isAvailable: (identityKey: string, chain: 'main' | 'test' | 'ttn') =>
@@ -63,7 +75,9 @@ contextBridge.exposeInMainWorld('electronAPI', {
     initializeServices: (identityKey: string, chain: 'main' | 'test' | 'ttn') =>
       ipcRenderer.invoke('storage:initialize-services', identityKey, chain),
     callMethod: (identityKey: string, chain: 'main' | 'test' | 'ttn', method: string, args: any[]) =>
-      ipcRenderer.invoke('storage:call-method', identityKey, chain, method, args)
+      ipcRenderer.invoke('storage:call-method', identityKey, chain, method, args),
+    startFresh: (identityKey: string, chain: 'main' | 'test' | 'ttn') =>
+      ipcRenderer.invoke('storage:start-fresh', identityKey, chain)
   },
 
   // Secret store (vault-backed; requires unlock)
@@ -84,20 +98,98 @@ contextBridge.exposeInMainWorld('electronAPI', {
       methods: Array<'se' | 'passphrase'>
       biometricsAvailable: boolean
       needsMigration: boolean
+      profiles: VaultProfileInfo[]
+      activeProfile: string | null
     }> => ipcRenderer.invoke('vault:status'),
-    unlockWithPassphrase: (passphrase: string): Promise<{ ok: true } | { ok: false; error: string }> =>
-      ipcRenderer.invoke('vault:unlock-passphrase', passphrase),
-    unlockWithBiometrics: (): Promise<{ ok: true } | { ok: false; error: string }> =>
-      ipcRenderer.invoke('vault:unlock-biometrics'),
+    unlockWithPassphrase: (passphrase: string, profileId?: string): Promise<{ ok: true } | { ok: false; error: string }> =>
+      ipcRenderer.invoke('vault:unlock-passphrase', passphrase, profileId),
+    unlockWithBiometrics: (profileId?: string): Promise<{ ok: true } | { ok: false; error: string }> =>
+      ipcRenderer.invoke('vault:unlock-biometrics', profileId),
+    createProfile: (options: {
+      name: string
+      passphrase: string
+      ownPassphrase: boolean
+      enableBiometrics: boolean
+    }): Promise<{ ok: true; profileId: string } | { ok: false; error: string }> =>
+      ipcRenderer.invoke('vault:create-profile', options),
+    deleteProfile: (profileId: string, passphrase: string): Promise<{ ok: true } | { ok: false; error: string }> =>
+      ipcRenderer.invoke('vault:delete-profile', profileId, passphrase),
     enroll: (options: {
       passphrase: string
       enableBiometrics: boolean
       initialSecrets?: Record<string, string>
     }): Promise<{ ok: true } | { ok: false; error: string }> =>
       ipcRenderer.invoke('vault:enroll', options),
+    changePassphrase: (currentPassphrase: string, newPassphrase: string): Promise<{ ok: true } | { ok: false; error: string }> =>
+      ipcRenderer.invoke('vault:change-passphrase', currentPassphrase, newPassphrase),
+    hasDuress: (): Promise<boolean> => ipcRenderer.invoke('vault:has-duress'),
+    setDuress: (currentPassphrase: string, duressPassphrase: string): Promise<{ ok: true } | { ok: false; error: string }> =>
+      ipcRenderer.invoke('vault:set-duress', currentPassphrase, duressPassphrase),
+    clearDuress: (currentPassphrase: string): Promise<{ ok: true } | { ok: false; error: string }> =>
+      ipcRenderer.invoke('vault:clear-duress', currentPassphrase),
     lock: (): Promise<void> => ipcRenderer.invoke('vault:lock'),
     endSession: (): Promise<void> => ipcRenderer.invoke('vault:end-session'),
     destroy: (): Promise<void> => ipcRenderer.invoke('vault:destroy'),
+    // Auto-lock (idle timeout, suspend, screen lock)
+    noteActivity: () => ipcRenderer.send('vault:activity'),
+    getAutoLock: () => ipcRenderer.invoke('vault:get-auto-lock'),
+    setAutoLock: (patch: Partial<AutoLockSettings>) => ipcRenderer.invoke('vault:set-auto-lock', patch),
+    onLocked: (callback: () => void) => {
+      const listener = () => callback();
+      ipcRenderer.on('vault:locked', listener);
+      return () => {
+        ipcRenderer.removeListener('vault:locked', listener);
+      };
+    },
+  },
+
+  // Encrypted full-wallet backup / restore
+  backup: {
+    export: (options: {
+      passphrase: string
+      identityKey: string
+      chain: 'main' | 'test' | 'ttn'
+      rendererState: Record<string, string>
+    }) => ipcRenderer.invoke('backup:export', options),
+    chooseFile: () => ipcRenderer.invoke('backup:choose-file'),
+    inspect: (filePath: string, passphrase: string) => ipcRenderer.invoke('backup:inspect', filePath, passphrase),
+    restore: (filePath: string, passphrase: string, options?: { vaultPassphrase?: string; enableBiometrics?: boolean }) =>
+      ipcRenderer.invoke('backup:restore', filePath, passphrase, options),
+  },
+
+  // Point-in-time wallet database snapshots
+  snapshots: {
+    list: (identityKey: string, chain: 'main' | 'test' | 'ttn') =>
+      ipcRenderer.invoke('snapshots:list', identityKey, chain),
+    create: (identityKey: string, chain: 'main' | 'test' | 'ttn') =>
+      ipcRenderer.invoke('snapshots:create', identityKey, chain),
+    restore: (identityKey: string, chain: 'main' | 'test' | 'ttn', id: string) =>
+      ipcRenderer.invoke('snapshots:restore', identityKey, chain, id),
+    delete: (identityKey: string, chain: 'main' | 'test' | 'ttn', id: string) =>
+      ipcRenderer.invoke('snapshots:delete', identityKey, chain, id),
+    setSettings: (patch: Partial<SnapshotSettings>) => ipcRenderer.invoke('snapshots:set-settings', patch),
+  },
+
+  // Wallet database maintenance
+  dbMaintenance: {
+    check: (identityKey: string, chain: 'main' | 'test' | 'ttn') =>
+      ipcRenderer.invoke('db-maintenance:check', identityKey, chain),
+    report: (identityKey: string, chain: 'main' | 'test' | 'ttn') =>
+      ipcRenderer.invoke('db-maintenance:report', identityKey, chain),
+    checkpoint: (identityKey: string, chain: 'main' | 'test' | 'ttn') =>
+      ipcRenderer.invoke('db-maintenance:checkpoint', identityKey, chain),
+    vacuum: (identityKey: string, chain: 'main' | 'test' | 'ttn') =>
+      ipcRenderer.invoke('db-maintenance:vacuum', identityKey, chain),
+  },
+
+  // Read-only wallets opened from a wallet database or watch-only export
+  watchOnly: {
+    chooseFile: () => ipcRenderer.invoke('watch-only:choose-file'),
+    open: (filePath: string, identityKey?: string) => ipcRenderer.invoke('watch-only:open', filePath, identityKey),
+    status: () => ipcRenderer.invoke('watch-only:status'),
+    close: () => ipcRenderer.invoke('watch-only:close'),
+    export: (identityKey: string, chain: 'main' | 'test' | 'ttn') =>
+      ipcRenderer.invoke('watch-only:export', identityKey, chain),
   },
 
   bootConfig: {
@@ -139,6 +231,73 @@ contextBridge.exposeInMainWorld('electronAPI', {
 });
 
 // Type definitions for window.electronAPI
+interface BridgeLimits {
+  perOriginRequestsPerSecond: number;
+  perOriginBurst: number;
+  globalRequestsPerSecond: number;
+  globalBurst: number;
+  maxInFlightPerOrigin: number;
+  maxInFlightGlobal: number;
+  maxBodyBytes: Record<string, number>;
+}
+
+interface VaultProfileInfo {
+  id: string;
+  name: string;
+  createdAt: number;
+  ownPassphrase: boolean;
+  methods: Array<'se' | 'passphrase'>;
+  active: boolean;
+}
+
+interface AutoLockSettings {
+  idleMinutes: number;
+  lockOnSuspend: boolean;
+  lockOnScreenLock: boolean;
+}
+
+interface WalletBackupSummary {
+  createdAt: string;
+  identityKey: string;
+  chain: 'main' | 'test' | 'ttn';
+  appVersion: string | null;
+  hasSecrets: boolean;
+  hasDatabase: boolean;
+  receiveContexts: { stas: number; bsv21: number } | null;
+  replacesDatabase: boolean;
+  replacesOtherWallet: boolean;
+  needsVaultPassphrase: boolean;
+}
+
+interface DbSnapshotInfo {
+  id: string;
+  kind: 'scheduled' | 'manual' | 'pre-migration' | 'pre-sync' | 'pre-restore';
+  createdAt: number;
+  size: number;
+}
+
+interface SnapshotSettings {
+  intervalMinutes: number;
+  keepHourly: number;
+  keepDaily: number;
+}
+
+interface DbIntegrityReport {
+  ok: boolean;
+  problems: string[];
+  foreignKeys: Array<{ table: string; parent: string; rows: number }>;
+  orphanedStasOutputs: { count: number; outputIds: number[] };
+  tablesChecked: number;
+  durationMs: number;
+}
+
+interface DbSizeReport {
+  databaseBytes: number;
+  walBytes: number;
+  freeBytes: number;
+  tables: Array<{ name: string; owner: 'wallet-toolbox' | 'bsv-desktop'; rows: number; bytes: number | null }>;
+}
+
 export interface ElectronAPI {
   isFocused: () => Promise<boolean>;
   requestFocus: () => Promise<void>;
@@ -162,11 +321,25 @@ export interface ElectronAPI {
   onHttpRequestCancelled: (callback: (event: { request_id: number; reason?: string }) => void) => void;
   sendHttpResponse: (response: any) => void;
   removeHttpRequestListener: () => void;
+  bridge: {
+    listPairings: () => Promise<Array<{ origin: string; createdAt: number; lastUsedAt: number | null }>>;
+    revokePairing: (origin: string) => Promise<boolean>;
+    getLimits: () => Promise<{ limits: BridgeLimits; defaults: BridgeLimits }>;
+    setLimits: (limits: BridgeLimits) => Promise<{ success: boolean; limits?: BridgeLimits; error?: string }>;
+    /** Forward a PeerPay / peer-token notification to apps on GET /events. */
+    publishEvent: (type: 'peertoken.incoming', data: Record<string, unknown>) => void;
+    /** Tell the main process this renderer's bridge listener is registered. */
+    rendererReady: () => void;
+    /** Show permission prompts in the compact approval window instead of the dashboard. */
+    setApprovalWindow: (enabled: boolean) => void;
+  };
   storage: {
     isAvailable: (identityKey: string, chain: 'main' | 'test' | 'ttn') => Promise<boolean>;
     makeAvailable: (identityKey: string, chain: 'main' | 'test' | 'ttn') => Promise<{ success: boolean; settings?: any; error?: string }>;
     initializeServices: (identityKey: string, chain: 'main' | 'test' | 'ttn') => Promise<{ success: boolean; error?: string }>;
     callMethod: (identityKey: string, chain: 'main' | 'test' | 'ttn', method: string, args: any[]) => Promise<{ success: boolean; result?: any; error?: string }>;
+    /** Set aside a database the unlocked profile cannot open; the next open starts empty. */
+    startFresh: (identityKey: string, chain: 'main' | 'test' | 'ttn') => Promise<{ success: boolean; movedTo?: string; error?: string }>;
   };
   secrets: {
     getAll: () => Promise<Record<string, string>>;
@@ -180,17 +353,108 @@ export interface ElectronAPI {
       methods: Array<'se' | 'passphrase'>;
       biometricsAvailable: boolean;
       needsMigration: boolean;
+      profiles: VaultProfileInfo[];
+      activeProfile: string | null;
     }>;
-    unlockWithPassphrase: (passphrase: string) => Promise<{ ok: true } | { ok: false; error: string }>;
-    unlockWithBiometrics: () => Promise<{ ok: true } | { ok: false; error: string }>;
+    /** Unlock the active profile, or switch to `profileId`. */
+    unlockWithPassphrase: (passphrase: string, profileId?: string) => Promise<{ ok: true } | { ok: false; error: string }>;
+    unlockWithBiometrics: (profileId?: string) => Promise<{ ok: true } | { ok: false; error: string }>;
+    /** Add an empty, separately sealed profile; does not switch to it. */
+    createProfile: (options: {
+      name: string;
+      passphrase: string;
+      ownPassphrase: boolean;
+      enableBiometrics: boolean;
+    }) => Promise<{ ok: true; profileId: string } | { ok: false; error: string }>;
+    deleteProfile: (profileId: string, passphrase: string) => Promise<{ ok: true } | { ok: false; error: string }>;
     enroll: (options: {
       passphrase: string;
       enableBiometrics: boolean;
       initialSecrets?: Record<string, string>;
     }) => Promise<{ ok: true } | { ok: false; error: string }>;
+    /** Rewrap the vault key under a new passphrase; the current one is required. */
+    changePassphrase: (currentPassphrase: string, newPassphrase: string) => Promise<{ ok: true } | { ok: false; error: string }>;
+    /** Whether the open profile has a duress passphrase (always false while the decoy wallet is open). */
+    hasDuress: () => Promise<boolean>;
+    /** Set or change the passphrase that opens the decoy wallet instead of the real one. */
+    setDuress: (currentPassphrase: string, duressPassphrase: string) => Promise<{ ok: true } | { ok: false; error: string }>;
+    clearDuress: (currentPassphrase: string) => Promise<{ ok: true } | { ok: false; error: string }>;
     lock: () => Promise<void>;
     endSession: () => Promise<void>;
     destroy: () => Promise<void>;
+    /** Report UI input; postpones the idle auto-lock. */
+    noteActivity: () => void;
+    getAutoLock: () => Promise<{ settings: AutoLockSettings; defaults: AutoLockSettings }>;
+    setAutoLock: (patch: Partial<AutoLockSettings>) => Promise<{ success: boolean; settings?: AutoLockSettings; error?: string }>;
+    /** Called when the main process locks the vault; returns an unsubscribe function. */
+    onLocked: (callback: () => void) => () => void;
+  };
+  backup: {
+    /** Ask where to save, then write an encrypted backup of the loaded wallet. */
+    export: (options: {
+      passphrase: string;
+      identityKey: string;
+      chain: 'main' | 'test' | 'ttn';
+      rendererState: Record<string, string>;
+    }) => Promise<{ ok: true; path: string } | { ok: false; error: string; canceled?: boolean }>;
+    chooseFile: () => Promise<{ path: string; createdAt?: string; error?: string } | null>;
+    /** Decrypt and verify a backup without restoring it. */
+    inspect: (filePath: string, passphrase: string) => Promise<{ ok: true; summary: WalletBackupSummary } | { ok: false; error: string }>;
+    restore: (
+      filePath: string,
+      passphrase: string,
+      options?: { vaultPassphrase?: string; enableBiometrics?: boolean }
+    ) => Promise<
+      | {
+          ok: true;
+          rendererState: Record<string, string>;
+          identityKey: string;
+          chain: 'main' | 'test' | 'ttn';
+          previousDatabase: string | null;
+        }
+      | { ok: false; error: string }
+    >;
+  };
+  snapshots: {
+    /** Snapshots of the wallet database for an identity/chain, newest first. */
+    list: (identityKey: string, chain: 'main' | 'test' | 'ttn') => Promise<
+      | { ok: true; snapshots: DbSnapshotInfo[]; settings: SnapshotSettings; defaults: SnapshotSettings }
+      | { ok: false; error: string }
+    >;
+    create: (identityKey: string, chain: 'main' | 'test' | 'ttn') => Promise<{ ok: true; snapshot: DbSnapshotInfo } | { ok: false; error: string }>;
+    /** Replace the wallet database with a snapshot; reload the window afterwards. */
+    restore: (identityKey: string, chain: 'main' | 'test' | 'ttn', id: string) => Promise<{ ok: true } | { ok: false; error: string }>;
+    delete: (identityKey: string, chain: 'main' | 'test' | 'ttn', id: string) => Promise<{ ok: true } | { ok: false; error: string }>;
+    setSettings: (patch: Partial<SnapshotSettings>) => Promise<{ success: boolean; settings?: SnapshotSettings; error?: string }>;
+  };
+  dbMaintenance: {
+    /** Integrity and foreign-key checks, plus orphaned STAS output rows. */
+    check: (identityKey: string, chain: 'main' | 'test' | 'ttn') => Promise<{ ok: true; result: DbIntegrityReport } | { ok: false; error: string }>;
+    /** Rows and bytes per table, WAL size and reclaimable free space. */
+    report: (identityKey: string, chain: 'main' | 'test' | 'ttn') => Promise<{ ok: true; result: DbSizeReport } | { ok: false; error: string }>;
+    checkpoint: (identityKey: string, chain: 'main' | 'test' | 'ttn') => Promise<
+      | { ok: true; result: { busy: boolean; walBytesBefore: number; walBytesAfter: number } }
+      | { ok: false; error: string }
+    >;
+    vacuum: (identityKey: string, chain: 'main' | 'test' | 'ttn') => Promise<
+      | { ok: true; result: { bytesBefore: number; bytesAfter: number; durationMs: number } }
+      | { ok: false; error: string }
+    >;
+  };
+  watchOnly: {
+    chooseFile: () => Promise<string | null>;
+    /** Open a wallet database file read-only; `identityKey` picks the wallet in a file holding several. */
+    open: (filePath: string, identityKey?: string) => Promise<
+      | { ok: true; identityKey: string; chain: 'main' | 'test' | 'ttn' }
+      | { ok: false; error: string }
+    >;
+    status: () => Promise<{ identityKey: string; chain: 'main' | 'test' | 'ttn' } | null>;
+    close: () => Promise<{ ok: true } | { ok: false; error: string }>;
+    /** Write a watch-only export of the wallet database to a file the user picks. */
+    export: (identityKey: string, chain: 'main' | 'test' | 'ttn') => Promise<
+      | { ok: true; path: string }
+      | { ok: false; canceled?: boolean; error: string }
+    >;
   };
   bootConfig: {
     get: () => Promise<any>;
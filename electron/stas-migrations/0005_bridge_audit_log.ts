@@ -0,0 +1,38 @@
+/**
+ * bsv-desktop extension schema — migration 0005.
+ *
+ * Creates `bridge_audit_log`: one row per request an external app sent
+ * through the BRC-100 bridge (HTTP or local socket) that reached the
+ * renderer's route switch. It answers "what did this app do with my
+ * wallet?" from the Activity page.
+ *
+ * Arguments are never stored — only a SHA-256 of the raw request body
+ * (`argsHash`), enough to correlate repeats without keeping payloads that
+ * may hold plaintext, keys or BEEF. `prompts` is a JSON array of the
+ * permission prompt kinds the call raised (e.g. `["spending","protocol"]`).
+ * `outcome` is one of approved | denied | cancelled | disconnected | error.
+ */
+
+export async function up(knex: any): Promise<void> {
+  if (!(await knex.schema.hasTable('bridge_audit_log'))) {
+    await knex.schema.createTable('bridge_audit_log', (t: any) => {
+      t.increments('id').primary();
+      t.text('createdAt').notNullable(); // ISO timestamp the request arrived
+      t.text('origin').notNullable();
+      t.text('method').notNullable(); // HTTP verb
+      t.text('path').notNullable(); // bridge route, e.g. '/createAction'
+      t.integer('status').notNullable();
+      t.integer('latencyMs').notNullable();
+      t.text('argsHash');
+      t.text('prompts').notNullable().defaultTo('[]');
+      t.text('outcome').notNullable();
+      t.index(['createdAt']);
+      t.index(['origin', 'createdAt']);
+      t.index(['path']);
+    });
+  }
+}
+
+export async function down(knex: any): Promise<void> {
+  await knex.schema.dropTableIfExists('bridge_audit_log');
+}
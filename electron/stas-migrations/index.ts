@@ -15,6 +15,7 @@ import * as m0001 from './0001_create_stas_tables.js';
 import * as m0002 from './0002_add_protocol_column.js';
 import * as m0003 from './0003_bsv21_receive_contexts.js';
 import * as m0004 from './0004_token_verifications.js';
+import * as m0005 from './0005_bridge_audit_log.js';
 
 type StasMigration = {
   name: string;
@@ -27,6 +28,7 @@ const migrations: StasMigration[] = [
   { name: '0002_add_protocol_column', up: m0002.up, down: m0002.down },
   { name: '0003_bsv21_receive_contexts', up: m0003.up, down: m0003.down },
   { name: '0004_token_verifications', up: m0004.up, down: m0004.down },
+  { name: '0005_bridge_audit_log', up: m0005.up, down: m0005.down },
 ];
 
 /** Knex MigrationSource over the statically-imported STAS migrations. */
@@ -12,7 +12,7 @@
  */
 
 /** Token-protocol discriminator. Mirrors TokenProtocolId in the renderer. */
-export type TokenProtocolId = 'stas' | 'dstas' | 'bsv-21';
+export type TokenProtocolId = 'stas' | 'dstas' | 'bsv-21' | 'ordinals';
 
 export interface StasTokenRow {
   tokenId: string;
@@ -83,6 +83,35 @@ export interface Bsv21ReceiveContextRow {
   createdAt: string;
 }
 
+/** Outcome of one bridge request, as recorded in `bridge_audit_log`. */
+export type BridgeAuditOutcome = 'approved' | 'denied' | 'cancelled' | 'disconnected' | 'error';
+
+/** One bridge request (migration 0005). `prompts` is a JSON array of prompt kinds. */
+export interface BridgeAuditRow {
+  id?: number;
+  createdAt: string;
+  origin: string;
+  method: string;
+  path: string;
+  status: number;
+  latencyMs: number;
+  argsHash?: string | null;
+  prompts: string;
+  outcome: BridgeAuditOutcome;
+}
+
+export interface BridgeAuditFilter {
+  origin?: string;
+  path?: string;
+  outcome?: BridgeAuditOutcome;
+  /** Inclusive ISO lower bound on createdAt. */
+  since?: string;
+  /** Exclusive ISO upper bound on createdAt. */
+  until?: string;
+  limit?: number;
+  offset?: number;
+}
+
 /** Query/command surface over the STAS extension tables. */
 export class StasQueries {
   constructor(private readonly knex: any) {}
@@ -195,6 +224,28 @@ export class StasQueries {
     return this.knex('token_verifications').select('*');
   }
 
+  /**
+   * Raw transactions the wallet already holds, for the local Back-to-Genesis
+   * verifier: proven txs with their merkle path, and the wallet's own and
+   * pending txs with the input BEEF they arrived with (which carries their
+   * ancestors). Blobs go back as byte arrays; a txid the wallet never saw is
+   * simply absent.
+   */
+  async getStoredTransactions(txids: string[]): Promise<
+    Array<{ txid: string; rawTx: number[] | null; merklePath: number[] | null; inputBEEF: number[] | null }>
+  > {
+    const bytes = (b: any): number[] | null => (b ? Array.from(b as Uint8Array) : null);
+    const [proven, own, pending] = await Promise.all([
+      this.knex('proven_txs').whereIn('txid', txids).select('txid', 'rawTx', 'merklePath'),
+      this.knex('transactions').whereIn('txid', txids).select('txid', 'rawTx', 'inputBEEF'),
+      this.knex('proven_tx_reqs').whereIn('txid', txids).select('txid', 'rawTx', 'inputBEEF'),
+    ]);
+    return [
+      ...proven.map((r: any) => ({ txid: r.txid, rawTx: bytes(r.rawTx), merklePath: bytes(r.merklePath), inputBEEF: null })),
+      ...[...own, ...pending].map((r: any) => ({ txid: r.txid, rawTx: bytes(r.rawTx), merklePath: null, inputBEEF: bytes(r.inputBEEF) })),
+    ];
+  }
+
   /**
    * Mark a wallet-toolbox `outputs` row as spendable / not-spendable.
    *
@@ -515,8 +566,42 @@ export class StasQueries {
         spendable: true,
       });
 
+    await this.mapOutputTags(outputId, userId, args.tags);
+
+    return { ok: true, outputId };
+  }
+
+  /**
+   * Set an output's customInstructions and add tags, leaving its basket as
+   * it is. Used after a BSV-21 deploy+mint: the token id IS the mint's own
+   * outpoint, so its `id:` tag and customInstructions can only be written
+   * once the tx is signed — after createAction already filed the output.
+   */
+  async annotateOutput(args: {
+    txid: string;
+    vout: number;
+    customInstructions?: string;
+    tags: string[];
+  }): Promise<{ ok: boolean; outputId?: number; reason?: string }> {
+    const row = await this.knex('outputs')
+      .where({ txid: args.txid, vout: args.vout })
+      .first('outputId', 'userId');
+    if (!row) {
+      return { ok: false, reason: `no outputs row matches ${args.txid}:${args.vout}` };
+    }
+    if (args.customInstructions !== undefined) {
+      await this.knex('outputs')
+        .where({ outputId: row.outputId })
+        .update({ customInstructions: args.customInstructions });
+    }
+    await this.mapOutputTags(row.outputId, row.userId, args.tags);
+    return { ok: true, outputId: row.outputId };
+  }
+
+  /** Attach `tags` to an output, creating the user's tag rows as needed. Idempotent. */
+  private async mapOutputTags(outputId: number, userId: number, tags: string[]): Promise<void> {
     const now = new Date().toISOString();
-    for (const tag of args.tags) {
+    for (const tag of tags) {
       let tagRow = await this.knex('output_tags')
         .where({ tag, userId })
         .first('outputTagId');
@@ -545,8 +630,6 @@ export class StasQueries {
         });
       }
     }
-
-    return { ok: true, outputId };
   }
 
   // --- receive contexts ---------------------------------------------------
@@ -597,6 +680,48 @@ export class StasQueries {
     await this.knex('bsv21_receive_contexts').insert(row);
   }
 
+  // --- bridge audit log --------------------------------------------------
+
+  async insertBridgeAudit(row: BridgeAuditRow): Promise<void> {
+    const { id: _id, ...rest } = row;
+    await this.knex('bridge_audit_log').insert(rest);
+  }
+
+  /**
+   * Newest-first page of audit rows plus the total matching `filter`, so the
+   * Activity page can paginate and exports can fetch everything in one go
+   * (omit `limit`).
+   */
+  async listBridgeAudit(filter: BridgeAuditFilter = {}): Promise<{
+    rows: BridgeAuditRow[];
+    total: number;
+  }> {
+    const applyFilter = (q: any) => {
+      if (filter.origin) q.where('origin', filter.origin);
+      if (filter.path) q.where('path', filter.path);
+      if (filter.outcome) q.where('outcome', filter.outcome);
+      if (filter.since) q.where('createdAt', '>=', filter.since);
+      if (filter.until) q.where('createdAt', '<', filter.until);
+      return q;
+    };
+    const [{ c }] = await applyFilter(this.knex('bridge_audit_log')).count('* as c');
+    const q = applyFilter(this.knex('bridge_audit_log').select('*'))
+      .orderBy('createdAt', 'desc')
+      .orderBy('id', 'desc');
+    if (filter.limit) q.limit(filter.limit).offset(filter.offset ?? 0);
+    return { rows: await q, total: Number(c) };
+  }
+
+  /** Distinct origins and paths seen so far — options for the Activity filters. */
+  async listBridgeAuditFacets(): Promise<{ origins: string[]; paths: string[] }> {
+    const origins = await this.knex('bridge_audit_log').distinct('origin').orderBy('origin', 'asc');
+    const paths = await this.knex('bridge_audit_log').distinct('path').orderBy('path', 'asc');
+    return {
+      origins: origins.map((r: any) => r.origin),
+      paths: paths.map((r: any) => r.path),
+    };
+  }
+
   // --- resync snapshot ----------------------------------------------------
 
   /**
@@ -2,11 +2,29 @@
  * CommonJS wrapper for loading better-sqlite3
  * This is needed because better-sqlite3 is a native CommonJS module
  * that doesn't work well with ESM imports in Electron
+ *
+ * Connections use better-sqlite3-multiple-ciphers, a drop-in build of
+ * better-sqlite3 whose SQLite can encrypt database pages (see
+ * dbEncryption.ts). Files without a key open exactly as before.
  */
 
+let CipherClient = null;
+
+function cipherClient() {
+  if (!CipherClient) {
+    const Client = require('knex/lib/dialects/better-sqlite3');
+    CipherClient = class extends Client {
+      _driver() {
+        return require('better-sqlite3-multiple-ciphers');
+      }
+    };
+  }
+  return CipherClient;
+}
+
 module.exports = {
   createKnex: function(config) {
     const knex = require('knex');
-    return knex(config);
+    return knex(config.client === 'better-sqlite3' ? { ...config, client: cipherClient() } : config);
   }
 };
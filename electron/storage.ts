@@ -21,6 +21,41 @@ import { StorageKnex, KnexMigrations, Services, Monitor, WalletStorageManager, C
 import { patchListCertificates } from './optimized-queries.js';
 import { stasMigrationSource } from './stas-migrations/index.js';
 import { StasQueries } from './stas-queries.js';
+import { publishBridgeEvent, publishInternalizedOutputs } from './bridgeEvents.js';
+import {
+  claimPreSyncSnapshot,
+  createSnapshot,
+  listSnapshots,
+  replaceDatabaseWithSnapshot,
+  snapshotPath,
+  type SnapshotInfo,
+  type SnapshotKind,
+} from './dbSnapshots.js';
+import {
+  checkIntegrity,
+  checkpointWal,
+  sizeReport,
+  vacuum,
+  type CheckpointResult,
+  type IntegrityReport,
+  type SizeReport,
+  type VacuumResult,
+} from './dbMaintenance.js';
+import {
+  pruneForWatchOnly,
+  readWatchOnlyTarget,
+  WATCH_ONLY_ERROR,
+  WATCH_ONLY_STORAGE_METHODS,
+  type WatchOnlyTarget,
+} from './watchOnly.js';
+import {
+  applyDatabaseKey,
+  decryptDatabaseFile,
+  describeOpenError,
+  encryptPlaintextFiles,
+  isPlaintextDatabase,
+  opensWithKey,
+} from './dbEncryption.js';
 
 const require = createRequire(import.meta.url);
 const __filename = fileURLToPath(import.meta.url);
@@ -66,6 +101,12 @@ const ALLOWED_STORAGE_METHODS: ReadonlySet<string> = new Set([
   'abortAction', 'createAction', 'processAction', 'internalizeAction', 'listActions',
 ]);
 
+/**
+ * Start of the error for a database the unlocked profile's key does not open.
+ * The renderer matches it to offer starting a fresh database.
+ */
+export const UNREADABLE_DATABASE_ERROR = 'WALLET_DB_UNREADABLE';
+
 // Lazy-load knex to avoid loading better-sqlite3 until actually needed
 let createKnex: any = null;
 function getCreateKnex() {
@@ -75,6 +116,35 @@ function getCreateKnex() {
   return createKnex;
 }
 
+/** Directory holding the local wallet databases. */
+export function walletDataDir(): string {
+  return path.join(os.homedir(), '.bsv-desktop');
+}
+
+/** Local SQLite file for one identity and chain: wallet-<identityKey>-<chain>.db */
+export function walletDatabasePath(identityKey: string, chain: 'main' | 'test' | 'ttn'): string {
+  return path.join(walletDataDir(), `wallet-${identityKey}-${chain}.db`);
+}
+
+/** Directory holding the working copy of an open watch-only wallet (see watchOnly.ts). */
+function watchOnlyDir(): string {
+  return path.join(walletDataDir(), 'watch-only');
+}
+
+/**
+ * Key a wallet database is encrypted under (see dbEncryption.ts); null keeps
+ * it plaintext. Rejects with VAULT_LOCKED while the vault is locked.
+ */
+export type DatabaseKeyProvider = (identityKey: string, chain: 'main' | 'test' | 'ttn') => Promise<Buffer | null>;
+
+/** Result of checking a wallet database file before it is trusted (e.g. restored). */
+export interface DatabaseFileCheck {
+  ok: boolean;
+  /** `PRAGMA integrity_check` messages when not ok. */
+  problems: string[];
+  receiveContexts: { stas: number; bsv21: number };
+}
+
 /**
  * Storage instance manager
  * Maintains a map of storage instances keyed by identityKey
@@ -87,6 +157,41 @@ class StorageManager {
   private monitors: Map<string, Monitor> = new Map();
   // Monitor worker processes
   private monitorWorkers: Map<string, ChildProcess> = new Map();
+  // Databases being replaced by a snapshot; storage calls for them fail until done
+  private restoring: Set<string> = new Set();
+  // The open watch-only wallet, served read-only from a copy at dbPath
+  private watchOnly: (WatchOnlyTarget & { dbPath: string }) | null = null;
+  // Keys of the open encrypted databases, for copies and the monitor worker
+  private databaseKeys: Map<string, Buffer> = new Map();
+  private databaseKeyProvider: DatabaseKeyProvider = async () => null;
+
+  /** Where database keys come from; main.ts points this at the vault. */
+  setDatabaseKeyProvider(provider: DatabaseKeyProvider): void {
+    this.databaseKeyProvider = provider;
+  }
+
+  private async databaseKey(identityKey: string, chain: 'main' | 'test' | 'ttn'): Promise<Buffer | null> {
+    try {
+      return await this.databaseKeyProvider(identityKey, chain);
+    } catch (error: any) {
+      if (error?.message === 'VAULT_LOCKED') {
+        throw new Error('Unlock the vault to open the wallet database.');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Files to bring under the key when a database first opens with one: the
+   * database, then its snapshots and the copies a backup restore set aside.
+   */
+  private encryptionCandidates(dbPath: string): string[] {
+    const prefix = `${path.basename(dbPath)}.pre-restore-`;
+    const setAside = fs.readdirSync(path.dirname(dbPath))
+      .filter(name => name.startsWith(prefix) && !name.endsWith('-wal') && !name.endsWith('-shm'))
+      .map(name => path.join(path.dirname(dbPath), name));
+    return [dbPath, ...listSnapshots(dbPath).map(s => snapshotPath(dbPath, s.id)), ...setAside];
+  }
 
   /** True when any forked monitor worker is still running (inherits env at fork time). */
   hasActiveMonitorWorkers(): boolean {
@@ -99,38 +204,74 @@ class StorageManager {
   async getOrCreateStorage(identityKey: string, chain: 'main' | 'test' | 'ttn'): Promise<StorageKnex> {
     const key = `${identityKey}-${chain}`;
 
+    if (this.restoring.has(key)) {
+      throw new Error('The wallet database is being restored from a snapshot. Try again shortly.');
+    }
+
     if (this.storages.has(key)) {
       return this.storages.get(key)!;
     }
 
     // Create new storage instance
-    const homeDir = os.homedir();
-    const bsvDir = path.join(homeDir, '.bsv-desktop');
+    const bsvDir = walletDataDir();
 
     // Ensure directory exists
     if (!fs.existsSync(bsvDir)) {
       fs.mkdirSync(bsvDir, { recursive: true });
     }
 
-    // Use separate database files for different identities and chains
-    // Format: wallet-<identityKey>-<chain>.db
-    const dbFileName = `wallet-${key}.db`;
-    const dbPath = path.join(bsvDir, dbFileName);
+    // Use separate database files for different identities and chains. A
+    // watch-only wallet reads its copy instead, opened read-only.
+    const watchOnly = this.isWatchOnly(key);
+    const dbPath = watchOnly ? this.watchOnly!.dbPath : walletDatabasePath(identityKey, chain);
+    const existed = fs.existsSync(dbPath);
 
-    console.log(`[Storage] Creating storage at: ${dbPath}`);
+    console.log(`[Storage] Creating ${watchOnly ? 'watch-only ' : ''}storage at: ${dbPath}`);
 
-    // Create knex instance via CommonJS wrapper
     const knexFactory = getCreateKnex();
-    const db = knexFactory({
+
+    // Encrypted at rest under a key from the vault (see dbEncryption.ts). A
+    // watch-only copy is a plaintext export and stays one.
+    const databaseKey = watchOnly ? null : await this.databaseKey(identityKey, chain);
+
+    // A key that does not open the file means it was encrypted under another
+    // vault profile, or a vault that was reset. Leave the file untouched and
+    // fail; the user can unlock the profile it belongs to, or choose to start
+    // fresh (startFreshDatabase).
+    if (databaseKey && existed && !isPlaintextDatabase(dbPath) && !(await opensWithKey(knexFactory, dbPath, databaseKey))) {
+      console.error(`[Storage] ${key} does not open with the unlocked profile's key`);
+      throw new Error(
+        `${UNREADABLE_DATABASE_ERROR}: The wallet database for this identity does not open with the unlocked vault profile. ` +
+        'It was created under another profile or a vault that was reset. Unlock the profile it belongs to, or start a fresh database.'
+      );
+    }
+
+    if (databaseKey && existed) {
+      const encrypted = await encryptPlaintextFiles(knexFactory, this.encryptionCandidates(dbPath), databaseKey);
+      if (encrypted > 0) {
+        console.log(`[Storage] Encrypted ${encrypted} database file(s) for ${key}`);
+      }
+    }
+
+    // Create knex instance via CommonJS wrapper
+    const open = () => knexFactory({
       client: 'better-sqlite3',
-      connection: {
-        filename: dbPath
-      },
+      connection: watchOnly
+        ? { filename: dbPath, options: { readonly: true, fileMustExist: true } }
+        : { filename: dbPath },
       useNullAsDefault: true,
       pool: {
         afterCreate: (conn: any, cb: any) => {
-          // Enable WAL mode for better concurrent access
-          conn.pragma('journal_mode = WAL');
+          if (databaseKey) {
+            applyDatabaseKey(conn, databaseKey);
+          }
+          if (watchOnly) {
+            // Refuse writes even from code that goes around callStorageMethod
+            conn.pragma('query_only = ON');
+          } else {
+            // Enable WAL mode for better concurrent access
+            conn.pragma('journal_mode = WAL');
+          }
           // Keep up to 64MB in memory before flushing to disk
           conn.pragma('cache_size = -64000');
           // Store temp tables/indices in memory instead of disk
@@ -141,28 +282,13 @@ class StorageManager {
         }
       }
     });
+    const db = open();
 
-    // Run database migrations to create tables
-    console.log(`[Storage] Running database migrations for ${key}...`);
-    const migrations = new KnexMigrations(
-      chain,
-      'BSV Desktop Wallet',
-      identityKey,
-      10000 // maxOutputScriptLength
-    );
-    await db.migrate.latest({
-      migrationSource: migrations
-    });
-    console.log(`[Storage] Migrations complete`);
-
-    // Run STAS extension migrations (bsv-desktop-owned). A separate tracking
-    // table keeps them isolated from wallet-toolbox's own migration ledger.
-    console.log(`[Storage] Running STAS extension migrations for ${key}...`);
-    await db.migrate.latest({
-      migrationSource: stasMigrationSource,
-      tableName: 'knex_migrations_stas'
-    });
-    console.log(`[Storage] STAS migrations complete`);
+    // Run database migrations to create tables, then the STAS extension
+    // migrations. A watch-only copy was migrated when it was opened.
+    if (!watchOnly) {
+      await this.runMigrations(db, dbPath, existed, key, this.migrationSets(identityKey, chain));
+    }
 
     // Create StorageKnex instance.
     //
@@ -188,12 +314,80 @@ class StorageManager {
     // Store references
     this.databases.set(key, db);
     this.storages.set(key, storage);
+    if (databaseKey) {
+      this.databaseKeys.set(key, databaseKey);
+    }
 
     console.log(`[Storage] Created storage instance for ${key}`);
 
     return storage;
   }
 
+  /**
+   * wallet-toolbox's migrations, then the STAS extension migrations
+   * (bsv-desktop-owned). A separate tracking table keeps those isolated from
+   * wallet-toolbox's own migration ledger.
+   */
+  private migrationSets(
+    identityKey: string,
+    chain: 'main' | 'test' | 'ttn'
+  ): Array<{ label: string; config: Record<string, any> }> {
+    const migrations = new KnexMigrations(
+      chain,
+      'BSV Desktop Wallet',
+      identityKey,
+      10000 // maxOutputScriptLength
+    );
+    return [
+      { label: 'database', config: { migrationSource: migrations } },
+      { label: 'STAS extension', config: { migrationSource: stasMigrationSource, tableName: 'knex_migrations_stas' } },
+    ];
+  }
+
+  /**
+   * Run migration sets in order. On an existing database with pending
+   * migrations a pre-migration snapshot is taken first; if a migration fails,
+   * the connection is closed and the file put back to that snapshot before
+   * the error is rethrown, so a failed upgrade leaves the wallet as it was.
+   */
+  private async runMigrations(
+    db: any,
+    dbPath: string,
+    existed: boolean,
+    key: string,
+    sets: Array<{ label: string; config: Record<string, any> }>
+  ): Promise<void> {
+    let snapshot: SnapshotInfo | null = null;
+    if (existed) {
+      const lists = await Promise.all(sets.map(({ config }) => db.migrate.list(config)));
+      if (lists.some(([, pending]: [unknown[], unknown[]]) => pending.length > 0)) {
+        snapshot = await createSnapshot(dbPath, 'pre-migration', dest => this.backupConnection(db, dest));
+      }
+    }
+    try {
+      for (const { label, config } of sets) {
+        console.log(`[Storage] Running ${label} migrations for ${key}...`);
+        await db.migrate.latest(config);
+        console.log(`[Storage] ${label} migrations complete`);
+      }
+    } catch (error) {
+      await db.destroy();
+      if (snapshot) {
+        replaceDatabaseWithSnapshot(dbPath, snapshot.id);
+        console.error(`[Storage] Migration failed for ${key}; database restored from snapshot ${snapshot.id}`);
+      }
+      throw error;
+    }
+  }
+
+  /** Identity/chain pairs with a wallet database connection open in this process (watch-only copies excluded). */
+  openDatabases(): Array<{ identityKey: string; chain: 'main' | 'test' | 'ttn' }> {
+    return [...this.databases.keys()].filter(key => !this.isWatchOnly(key)).map(key => {
+      const split = key.lastIndexOf('-');
+      return { identityKey: key.slice(0, split), chain: key.slice(split + 1) as 'main' | 'test' | 'ttn' };
+    });
+  }
+
   /**
    * Check if storage is available for the given identity key
    */
@@ -225,6 +419,12 @@ class StorageManager {
     const storage = await this.getOrCreateStorage(identityKey, chain);
     const key = `${identityKey}-${chain}`;
 
+    // A watch-only wallet never broadcasts or syncs, so it needs no monitor
+    if (this.isWatchOnly(key)) {
+      console.log(`[Storage] ${key} is watch-only, skipping services`);
+      return;
+    }
+
     // Check if already initialized to prevent duplicates
     if (this.monitorWorkers.has(key)) {
       console.log(`[Storage] Services already initialized for ${key}, skipping`);
@@ -296,6 +496,10 @@ class StorageManager {
         if (message.type === 'monitor-error') {
           console.error(`[Monitor Worker] Error in ${key}:`, message.error);
         }
+
+        if (message.type === 'action-status') {
+          publishBridgeEvent('action.status', message.event);
+        }
       });
 
       worker.on('error', (error) => {
@@ -358,12 +562,14 @@ class StorageManager {
 
       console.log(`[Monitor Worker] Worker ready for ${key}`);
 
-      // Send start command to worker
+      // Send start command to worker. The database key goes over this IPC
+      // channel only, never the environment or arguments.
       worker.send({
         type: 'start',
         config: {
           identityKey,
-          chain
+          chain,
+          databaseKey: this.databaseKeys.get(key)?.toString('hex') ?? null
         }
       });
 
@@ -428,6 +634,9 @@ class StorageManager {
     if (!ALLOWED_STORAGE_METHODS.has(method)) {
       throw new Error(`Storage method not permitted: ${method}`);
     }
+    if (this.isWatchOnly(`${identityKey}-${chain}`) && !WATCH_ONLY_STORAGE_METHODS.has(method)) {
+      throw new Error(WATCH_ONLY_ERROR);
+    }
 
     const storage = await this.getOrCreateStorage(identityKey, chain);
 
@@ -440,8 +649,16 @@ class StorageManager {
 
     console.log(`[Storage] Calling ${method} for ${identityKey}-${chain}`);
 
+    if (method === 'processSyncChunk') {
+      // A bad chunk can leave the wallet inconsistent; keep a way back.
+      await this.snapshotBeforeSync(identityKey, chain);
+    }
+
     try {
       const result = await storageAny[method](...args);
+      if (method === 'internalizeAction') {
+        publishInternalizedOutputs(args[1], result);
+      }
       return result;
     } catch (error: any) {
       console.error(`[Storage] Error calling ${method}:`, error);
@@ -472,7 +689,349 @@ class StorageManager {
     if (typeof fn !== 'function') {
       throw new Error(`Unknown STAS query: ${method}`);
     }
-    return fn.apply(queries, args || []);
+    try {
+      return await fn.apply(queries, args || []);
+    } catch (error: any) {
+      if (error?.code === 'SQLITE_READONLY' && this.isWatchOnly(key)) {
+        throw new Error(WATCH_ONLY_ERROR);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Consistent copy of an open knex database at `destPath`, under the same
+   * key. VACUUM INTO rather than the online backup API, which refuses an
+   * encrypted source.
+   */
+  private async backupConnection(db: any, destPath: string): Promise<void> {
+    fs.rmSync(destPath, { force: true });
+    await db.raw('VACUUM INTO ?', [destPath]);
+  }
+
+  /**
+   * Write a consistent copy of the wallet database to `destPath`, safe while
+   * the monitor worker writes. `decrypt` leaves the copy plaintext, for one
+   * that leaves this machine. Resolves false when there is no local database
+   * for this identity/chain.
+   */
+  async backupDatabase(
+    identityKey: string,
+    chain: 'main' | 'test' | 'ttn',
+    destPath: string,
+    options: { decrypt?: boolean } = {}
+  ): Promise<boolean> {
+    const open = await this.openExistingDatabase(identityKey, chain);
+    if (!open) {
+      return false;
+    }
+    await this.backupConnection(open.db, destPath);
+    const databaseKey = this.databaseKeys.get(`${identityKey}-${chain}`);
+    if (options.decrypt && databaseKey) {
+      await decryptDatabaseFile(getCreateKnex(), destPath, databaseKey);
+    }
+    return true;
+  }
+
+  /**
+   * Take a point-in-time snapshot of the wallet database (see dbSnapshots.ts).
+   * Resolves null when there is no local database for this identity/chain.
+   */
+  async snapshotDatabase(
+    identityKey: string,
+    chain: 'main' | 'test' | 'ttn',
+    kind: SnapshotKind
+  ): Promise<SnapshotInfo | null> {
+    const open = await this.openExistingDatabase(identityKey, chain);
+    return open && createSnapshot(open.dbPath, kind, dest => this.backupConnection(open.db, dest));
+  }
+
+  /**
+   * The knex connection and file path of an existing wallet database, opening
+   * it if needed; null when there is no local database for this identity/chain.
+   */
+  private async openExistingDatabase(
+    identityKey: string,
+    chain: 'main' | 'test' | 'ttn'
+  ): Promise<{ db: any; dbPath: string } | null> {
+    if (this.isWatchOnly(`${identityKey}-${chain}`)) {
+      throw new Error('Not available for a watch-only wallet.');
+    }
+    const dbPath = walletDatabasePath(identityKey, chain);
+    if (!fs.existsSync(dbPath)) {
+      return null;
+    }
+    await this.getOrCreateStorage(identityKey, chain);
+    return { db: this.databases.get(`${identityKey}-${chain}`), dbPath };
+  }
+
+  // Database maintenance (see dbMaintenance.ts). Each resolves null when
+  // there is no local database for this identity/chain.
+
+  async checkDatabase(identityKey: string, chain: 'main' | 'test' | 'ttn'): Promise<IntegrityReport | null> {
+    const open = await this.openExistingDatabase(identityKey, chain);
+    return open && checkIntegrity(open.db);
+  }
+
+  async databaseSizeReport(identityKey: string, chain: 'main' | 'test' | 'ttn'): Promise<SizeReport | null> {
+    const open = await this.openExistingDatabase(identityKey, chain);
+    return open && sizeReport(open.db, open.dbPath);
+  }
+
+  async checkpointDatabase(identityKey: string, chain: 'main' | 'test' | 'ttn'): Promise<CheckpointResult | null> {
+    const open = await this.openExistingDatabase(identityKey, chain);
+    return open && checkpointWal(open.db, open.dbPath);
+  }
+
+  async vacuumDatabase(identityKey: string, chain: 'main' | 'test' | 'ttn'): Promise<VacuumResult | null> {
+    const open = await this.openExistingDatabase(identityKey, chain);
+    return open && vacuum(open.db, open.dbPath);
+  }
+
+  /** Pre-sync snapshot, at most one per 10 minutes; a failure is logged and the sync goes on. */
+  private async snapshotBeforeSync(identityKey: string, chain: 'main' | 'test' | 'ttn'): Promise<void> {
+    if (!claimPreSyncSnapshot(walletDatabasePath(identityKey, chain))) {
+      return;
+    }
+    try {
+      await this.snapshotDatabase(identityKey, chain, 'pre-sync');
+    } catch (error) {
+      console.warn(`[Storage] Pre-sync snapshot failed for ${identityKey}-${chain}:`, error);
+    }
+  }
+
+  /**
+   * Replace the wallet database with snapshot `id`. The snapshot is
+   * integrity-checked and the current database snapshotted (`pre-restore`)
+   * first. Then the monitor worker is stopped and the connection closed, and
+   * storage calls for this database fail until the file is in place. The
+   * renderer reloads afterwards so its storage starts over.
+   */
+  async restoreSnapshot(identityKey: string, chain: 'main' | 'test' | 'ttn', id: string): Promise<void> {
+    const key = `${identityKey}-${chain}`;
+    const dbPath = walletDatabasePath(identityKey, chain);
+    const source = snapshotPath(dbPath, id);
+    if (!fs.existsSync(source)) {
+      throw new Error('Unknown snapshot.');
+    }
+    const check = await this.inspectDatabaseFile(source, (await this.databaseKey(identityKey, chain)) ?? undefined);
+    if (!check.ok) {
+      throw new Error(`The snapshot is damaged: ${check.problems[0]}`);
+    }
+    await this.snapshotDatabase(identityKey, chain, 'pre-restore');
+
+    this.restoring.add(key);
+    try {
+      await this.closeStorage(identityKey, chain);
+      replaceDatabaseWithSnapshot(dbPath, id);
+      console.log(`[Storage] Restored ${key} from snapshot ${id}`);
+    } finally {
+      this.restoring.delete(key);
+    }
+  }
+
+  /**
+   * Whether this identity/chain has an encrypted database here that opens
+   * with the unlocked profile's key, i.e. a wallet kept under that profile.
+   */
+  async opensWithUnlockedProfile(identityKey: string, chain: 'main' | 'test' | 'ttn'): Promise<boolean> {
+    const dbPath = walletDatabasePath(identityKey, chain);
+    if (!fs.existsSync(dbPath) || isPlaintextDatabase(dbPath)) {
+      return false;
+    }
+    const databaseKey = await this.databaseKey(identityKey, chain);
+    return databaseKey != null && await opensWithKey(getCreateKnex(), dbPath, databaseKey);
+  }
+
+  /**
+   * Set aside a database the unlocked profile's key does not open, at the
+   * user's request, so the next open starts an empty one. The files are
+   * renamed, not deleted: unlocking the profile they belong to and moving
+   * them back recovers the wallet. Refuses a database that opens.
+   * Resolves the path the database was moved to.
+   */
+  async startFreshDatabase(identityKey: string, chain: 'main' | 'test' | 'ttn'): Promise<string> {
+    const key = `${identityKey}-${chain}`;
+    if (this.isWatchOnly(key)) {
+      throw new Error('Not available for a watch-only wallet.');
+    }
+    const dbPath = walletDatabasePath(identityKey, chain);
+    const databaseKey = await this.databaseKey(identityKey, chain);
+    if (
+      this.storages.has(key) || !databaseKey || !fs.existsSync(dbPath) ||
+      isPlaintextDatabase(dbPath) || await opensWithKey(getCreateKnex(), dbPath, databaseKey)
+    ) {
+      throw new Error('This wallet database opens with the unlocked profile; there is nothing to set aside.');
+    }
+    const unreadable = `${dbPath}.unreadable-${Date.now()}`;
+    for (const suffix of ['', '-wal', '-shm']) {
+      if (fs.existsSync(dbPath + suffix)) {
+        fs.renameSync(dbPath + suffix, unreadable + suffix);
+      }
+    }
+    console.warn(`[Storage] ${key} set aside at the user's request: ${unreadable}`);
+    return unreadable;
+  }
+
+  /**
+   * Open a database file read-only and check it: SQLite's integrity check,
+   * plus the number of STAS / BSV-21 receive contexts it holds. `databaseKey`
+   * opens an encrypted file; a plaintext one is read without it.
+   */
+  async inspectDatabaseFile(filePath: string, databaseKey?: Buffer): Promise<DatabaseFileCheck> {
+    const keyed = databaseKey && !isPlaintextDatabase(filePath);
+    const db = getCreateKnex()({
+      client: 'better-sqlite3',
+      connection: { filename: filePath, options: { readonly: true, fileMustExist: true } },
+      useNullAsDefault: true,
+      pool: {
+        afterCreate: (conn: any, cb: any) => {
+          if (keyed) {
+            applyDatabaseKey(conn, databaseKey);
+          }
+          cb(null, conn);
+        }
+      }
+    });
+    try {
+      const rows: Array<{ integrity_check: string }> = await db.raw('PRAGMA integrity_check');
+      const problems = rows.map(r => r.integrity_check).filter(m => m !== 'ok');
+      const count = async (table: string) => {
+        if (!(await db.schema.hasTable(table))) return 0;
+        const [{ n }] = await db(table).count({ n: '*' });
+        return Number(n);
+      };
+      return {
+        ok: problems.length === 0,
+        problems,
+        receiveContexts: {
+          stas: await count('stas_receive_contexts'),
+          bsv21: await count('bsv21_receive_contexts'),
+        },
+      };
+    } catch (error) {
+      throw describeOpenError(error, filePath);
+    } finally {
+      await db.destroy();
+    }
+  }
+
+  private isWatchOnly(key: string): boolean {
+    return this.watchOnly !== null && `${this.watchOnly.identityKey}-${this.watchOnly.chain}` === key;
+  }
+
+  /** The open watch-only wallet, if any. */
+  watchOnlyTarget(): WatchOnlyTarget | null {
+    return this.watchOnly && { identityKey: this.watchOnly.identityKey, chain: this.watchOnly.chain };
+  }
+
+  /**
+   * Open a wallet database file as a watch-only wallet (see watchOnly.ts).
+   * The file is integrity-checked and copied, the copy migrated while still
+   * writable, and from then on storage for its identity/chain is served
+   * read-only from the copy. Any open connection to this identity's own
+   * database is closed first. `identityKey` picks the wallet in a file
+   * holding several.
+   */
+  async openWatchOnly(filePath: string, identityKey?: string): Promise<WatchOnlyTarget> {
+    const check = await this.inspectDatabaseFile(filePath);
+    if (!check.ok) {
+      throw new Error(`The file is damaged: ${check.problems[0]}`);
+    }
+    await this.closeWatchOnly();
+    fs.rmSync(watchOnlyDir(), { recursive: true, force: true });
+    fs.mkdirSync(watchOnlyDir(), { recursive: true, mode: 0o700 });
+
+    const source = getCreateKnex()({
+      client: 'better-sqlite3',
+      connection: { filename: filePath, options: { readonly: true, fileMustExist: true } },
+      useNullAsDefault: true,
+    });
+    let target: WatchOnlyTarget;
+    let dbPath: string;
+    try {
+      target = await readWatchOnlyTarget(source, identityKey);
+      dbPath = path.join(watchOnlyDir(), `wallet-${target.identityKey}-${target.chain}.db`);
+      await this.backupConnection(source, dbPath);
+    } finally {
+      await source.destroy();
+    }
+
+    const key = `${target.identityKey}-${target.chain}`;
+    const copy = getCreateKnex()({ client: 'better-sqlite3', connection: { filename: dbPath }, useNullAsDefault: true });
+    try {
+      for (const { config } of this.migrationSets(target.identityKey, target.chain)) {
+        await copy.migrate.latest(config);
+      }
+      // A read-only connection cannot create the WAL's shared-memory file
+      await copy.raw('PRAGMA journal_mode = DELETE');
+    } finally {
+      await copy.destroy();
+    }
+
+    await this.closeStorage(target.identityKey, target.chain);
+    this.watchOnly = { ...target, dbPath };
+    console.log(`[Storage] Opened ${key} watch-only from ${filePath}`);
+    return target;
+  }
+
+  /** Close the watch-only wallet and delete its copy. */
+  async closeWatchOnly(): Promise<void> {
+    if (!this.watchOnly) {
+      return;
+    }
+    const { identityKey, chain } = this.watchOnly;
+    await this.closeStorage(identityKey, chain);
+    this.watchOnly = null;
+    fs.rmSync(watchOnlyDir(), { recursive: true, force: true });
+    console.log(`[Storage] Closed watch-only ${identityKey}-${chain}`);
+  }
+
+  /**
+   * Write a watch-only export of the wallet database to `destPath`: a
+   * decrypted copy with WATCH_ONLY_PRUNED_TABLES emptied and the file compacted.
+   * Resolves false when there is no local database for this identity/chain.
+   */
+  async exportWatchOnly(identityKey: string, chain: 'main' | 'test' | 'ttn', destPath: string): Promise<boolean> {
+    const tmpPath = `${destPath}.tmp`;
+    if (!(await this.backupDatabase(identityKey, chain, tmpPath, { decrypt: true }))) {
+      return false;
+    }
+    try {
+      const copy = getCreateKnex()({ client: 'better-sqlite3', connection: { filename: tmpPath }, useNullAsDefault: true });
+      try {
+        await pruneForWatchOnly(copy);
+        await copy.raw('PRAGMA journal_mode = DELETE');
+        await copy.raw('VACUUM');
+      } finally {
+        await copy.destroy();
+      }
+      fs.chmodSync(tmpPath, 0o600);
+      fs.renameSync(tmpPath, destPath);
+    } catch (error) {
+      fs.rmSync(tmpPath, { force: true });
+      throw error;
+    }
+    console.log(`[Storage] Wrote watch-only export of ${identityKey}-${chain} to ${destPath}`);
+    return true;
+  }
+
+  /**
+   * Stop the monitor worker and close the connection for one identity/chain,
+   * so its database file can be replaced. The next storage call reopens it.
+   */
+  async closeStorage(identityKey: string, chain: 'main' | 'test' | 'ttn'): Promise<void> {
+    const key = `${identityKey}-${chain}`;
+    await this.stopMonitorWorker(identityKey, chain);
+    const db = this.databases.get(key);
+    if (db) {
+      await db.destroy();
+      console.log(`[Storage] Closed database connection for ${key}`);
+    }
+    this.databases.delete(key);
+    this.storages.delete(key);
+    this.databaseKeys.get(key)?.fill(0);
+    this.databaseKeys.delete(key);
   }
 
   /**
@@ -516,6 +1075,15 @@ class StorageManager {
 
     this.storages.clear();
     this.databases.clear();
+    for (const databaseKey of this.databaseKeys.values()) {
+      databaseKey.fill(0);
+    }
+    this.databaseKeys.clear();
+
+    if (this.watchOnly) {
+      fs.rmSync(watchOnlyDir(), { recursive: true, force: true });
+      this.watchOnly = null;
+    }
   }
 }
 
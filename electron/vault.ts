@@ -4,20 +4,37 @@
  * Secrets on disk live only inside AES-GCM ciphertext under a random DEK.
  * The DEK is wrapped by a passphrase (always) and optionally by a biometric wrap.
  * In-memory DEK + plaintext secrets exist only after unlock until lock/exit.
+ *
+ * The vault holds one or more profiles, each a separate wallet identity with
+ * its own DEK, wraps and sealed secrets. Only one profile is unlocked at a
+ * time; switching unlocks the target and drops the previous profile's key.
+ * Profiles share one passphrase (each wrapped under its own salt) unless
+ * created with their own.
+ *
+ * A profile can also carry a duress passphrase: a second passphrase wrap that
+ * opens a separate decoy secret set (and so a separate wallet and database)
+ * instead of the real one. Profiles without one hold random filler in the
+ * same shape, and unlock derives both wraps every time, so neither the file,
+ * the unlock time nor `status()` shows whether a duress passphrase is set or
+ * which set is open.
  */
 import { app } from 'electron'
 import path from 'path'
 import fs from 'fs'
+import { randomBytes } from 'crypto'
 import {
   AAD,
   aesGcmDecrypt,
   aesGcmEncrypt,
-  b64,
   defaultKdf,
+  deriveSubkey,
+  kdfNeedsUpgrade,
   randomDek,
   ScryptKdf,
   unwrapDekWithPassphrase,
+  unwrapKey,
   wrapDekWithPassphrase,
+  wrapKey,
 } from './vaultCrypto.js'
 import * as biometric from './biometric.js'
 import { BootConfig, UnlockMethod, updateBootConfig, getBootConfig, clearBootConfig } from './bootConfig.js'
@@ -26,24 +43,72 @@ export const ALLOWED: ReadonlySet<string> = new Set(['snap', 'primaryKeyHex', 'm
 
 export type SecretMap = Record<string, string>
 
-interface VaultFile {
-  version: 2
+interface SealedProfile {
+  id: string
+  name: string
+  createdAt: number
+  /** Unlocks with its own passphrase rather than the one the other profiles share. */
+  ownPassphrase: boolean
   kdf: ScryptKdf
   wraps: {
     se?: { platform: string; label: string; blob: string }
     passphrase: { blob: string }
+    /** Decoy DEK under the duress passphrase, with its own salt; filler when unset. */
+    duress?: { kdf: ScryptKdf; blob: string }
   }
   nonce: string
   ciphertext: string
   aad: string
+  decoy?: DecoySeal
+}
+
+/** The decoy secret set, sealed under the decoy DEK; filler when no duress passphrase is set. */
+interface DecoySeal {
+  /** Decoy DEK wrapped under the profile's own DEK, so the real session can manage it. */
+  escrow: string
+  nonce: string
+  ciphertext: string
+  aad: string
+}
+
+interface VaultFile {
+  version: 3
+  activeProfile: string
+  profiles: SealedProfile[]
+}
+
+/** Single-profile layout written before profiles existed; read as the default profile. */
+type LegacyVaultFile = { version: 2 } & Pick<SealedProfile, 'kdf' | 'wraps' | 'nonce' | 'ciphertext' | 'aad'>
+
+export const DEFAULT_PROFILE_ID = 'default'
+const MAX_PROFILE_NAME = 40
+
+/**
+ * Decoy seals, real and filler alike, are padded to a multiple of this many
+ * plaintext bytes: a fresh decoy set and filler come out the same length, and
+ * neither follows the size of the profile's own secrets.
+ */
+const DECOY_SEAL_BYTES = 16 * 1024
+
+export interface VaultProfileInfo {
+  id: string
+  name: string
+  createdAt: number
+  ownPassphrase: boolean
+  methods: UnlockMethod[]
+  /** The profile the next unlock opens (and the unlocked one, while unlocked). */
+  active: boolean
 }
 
 export interface VaultStatus {
   locked: boolean
   hasVault: boolean
+  /** Unlock methods of the active profile. */
   methods: UnlockMethod[]
   biometricsAvailable: boolean
   needsMigration: boolean
+  profiles: VaultProfileInfo[]
+  activeProfile: string | null
 }
 
 export type VaultResult = { ok: true } | { ok: false; error: string }
@@ -54,6 +119,9 @@ const RATE_LIMIT_MAX_MS = 15_000
 let dek: Buffer | null = null
 let secrets: SecretMap = {}
 let unlocked = false
+let unlockedProfile: string | null = null
+/** The open set is the decoy one (unlocked with the duress passphrase). */
+let unlockedDecoy = false
 let failCount = 0
 let nextAttemptAt = 0
 
@@ -72,31 +140,127 @@ function secretsDatPath(): string {
 function readVaultFile(): VaultFile | null {
   try {
     const parsed = JSON.parse(fs.readFileSync(vaultPath(), 'utf8'))
-    if (parsed && parsed.version === 2 && parsed.wraps?.passphrase) return parsed as VaultFile
+    if (parsed?.version === 3 && Array.isArray(parsed.profiles) && parsed.profiles.length > 0) {
+      return parsed as VaultFile
+    }
+    if (parsed?.version === 2 && parsed.wraps?.passphrase) {
+      // Upgraded on disk by the next write.
+      const legacy = parsed as LegacyVaultFile
+      return {
+        version: 3,
+        activeProfile: DEFAULT_PROFILE_ID,
+        profiles: [{
+          id: DEFAULT_PROFILE_ID,
+          name: 'Default',
+          createdAt: 0,
+          ownPassphrase: false,
+          kdf: legacy.kdf,
+          wraps: legacy.wraps,
+          nonce: legacy.nonce,
+          ciphertext: legacy.ciphertext,
+          aad: legacy.aad,
+        }],
+      }
+    }
   } catch {
     // missing/corrupt
   }
   return null
 }
 
+function findProfile(file: VaultFile, id: string): SealedProfile | null {
+  return file.profiles.find(p => p.id === id) ?? null
+}
+
+function activeProfileOf(file: VaultFile): SealedProfile {
+  return findProfile(file, file.activeProfile) ?? file.profiles[0]
+}
+
+function writeProfile(file: VaultFile, profile: SealedProfile): void {
+  writeVaultFile({ ...file, profiles: file.profiles.map(p => (p.id === profile.id ? profile : p)) })
+}
+
+function methodsOf(profile: SealedProfile): UnlockMethod[] {
+  return profile.wraps.se ? ['passphrase', 'se'] : ['passphrase']
+}
+
 function writeVaultFile(file: VaultFile): void {
+  const out: VaultFile = { ...file, profiles: file.profiles.map(p => (p.wraps.duress && p.decoy ? p : withDuressFiller(p))) }
   const tmp = vaultPath() + '.tmp'
-  fs.writeFileSync(tmp, JSON.stringify(file), { mode: 0o600 })
+  fs.writeFileSync(tmp, JSON.stringify(out), { mode: 0o600 })
   fs.renameSync(tmp, vaultPath())
 }
 
-function sealWithDek(currentDek: Buffer, map: SecretMap): Pick<VaultFile, 'nonce' | 'ciphertext' | 'aad'> {
+/**
+ * Random stand-ins for the duress wrap and decoy seal, shaped like real ones
+ * (the filler is an empty set sealed and padded like a new decoy, under a key
+ * nobody holds), so a file without a duress passphrase looks like one with.
+ */
+function withDuressFiller(profile: SealedProfile): SealedProfile {
+  return {
+    ...profile,
+    wraps: { ...profile.wraps, duress: { kdf: defaultKdf(), blob: wrapKey(randomDek(), randomDek()) } },
+    decoy: { escrow: wrapKey(randomDek(), randomDek()), ...sealDecoy(randomDek(), {}) },
+  }
+}
+
+/** The decoy DEK, if `profile` has a real duress wrap set up from the session holding `currentDek`. */
+function escrowedDecoyDek(profile: SealedProfile, currentDek: Buffer): Buffer | null {
+  if (!profile.decoy) return null
+  try {
+    return unwrapKey(currentDek, profile.decoy.escrow)
+  } catch {
+    return null
+  }
+}
+
+function tryUnwrap(passphrase: string, blob: string, kdf: ScryptKdf): Buffer | null {
+  try {
+    return unwrapDekWithPassphrase(passphrase, blob, kdf)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Open `profile` with `passphrase`: its own secrets, or the decoy set for the
+ * duress passphrase. Both wraps are always derived so the two take the same
+ * time. Throws if neither opens.
+ */
+function openWithPassphrase(passphrase: string, profile: SealedProfile): { dek: Buffer; map: SecretMap; decoy: boolean } {
+  const real = tryUnwrap(passphrase, profile.wraps.passphrase.blob, profile.kdf)
+  const duress = profile.wraps.duress
+  const decoyDek = duress ? tryUnwrap(passphrase, duress.blob, duress.kdf) : null
+  if (real) {
+    decoyDek?.fill(0)
+    return { dek: real, map: openWithDek(real, profile), decoy: false }
+  }
+  if (decoyDek && profile.decoy) {
+    return { dek: decoyDek, map: openWithDek(decoyDek, profile.decoy), decoy: true }
+  }
+  throw new Error('incorrect passphrase')
+}
+
+/** Seal `map` under `currentDek`; with `padTo`, the JSON is space-padded to a multiple of that many bytes. */
+function sealWithDek(currentDek: Buffer, map: SecretMap, padTo = 0): Pick<SealedProfile, 'nonce' | 'ciphertext' | 'aad'> {
   const payload: SecretMap = {}
   for (const name of ALLOWED) {
     if (map[name] != null) payload[name] = map[name]
   }
-  const plain = Buffer.from(JSON.stringify(payload), 'utf8')
+  const json = Buffer.from(JSON.stringify(payload), 'utf8')
+  const plain = padTo > 0
+    ? Buffer.concat([json, Buffer.alloc(Math.ceil(json.length / padTo) * padTo - json.length, ' ')])
+    : json
   const { nonce, ciphertext } = aesGcmEncrypt(currentDek, plain, AAD)
   return { nonce, ciphertext, aad: 'bsv-desktop-vault-v2' }
 }
 
-function openWithDek(currentDek: Buffer, file: VaultFile): SecretMap {
-  const plain = aesGcmDecrypt(currentDek, file.nonce, file.ciphertext, AAD)
+function sealDecoy(decoyDek: Buffer, map: SecretMap): Pick<SealedProfile, 'nonce' | 'ciphertext' | 'aad'> {
+  return sealWithDek(decoyDek, map, DECOY_SEAL_BYTES)
+}
+
+function openWithDek(currentDek: Buffer, sealed: Pick<SealedProfile, 'nonce' | 'ciphertext'>): SecretMap {
+  const plain = aesGcmDecrypt(currentDek, sealed.nonce, sealed.ciphertext, AAD)
   const obj = JSON.parse(plain.toString('utf8')) as SecretMap
   const out: SecretMap = {}
   for (const name of Object.keys(obj)) {
@@ -106,11 +270,13 @@ function openWithDek(currentDek: Buffer, file: VaultFile): SecretMap {
 }
 
 function persistUnlocked(): void {
-  if (!unlocked || !dek) throw new Error('VAULT_LOCKED')
+  if (!unlocked || !dek || !unlockedProfile) throw new Error('VAULT_LOCKED')
   const file = readVaultFile()
-  if (!file) throw new Error('vault file missing')
-  const sealed = sealWithDek(dek, secrets)
-  writeVaultFile({ ...file, ...sealed })
+  const profile = file && findProfile(file, unlockedProfile)
+  if (!file || !profile) throw new Error('vault file missing')
+  writeProfile(file, unlockedDecoy && profile.decoy
+    ? { ...profile, decoy: { ...profile.decoy, ...sealDecoy(dek, secrets) } }
+    : { ...profile, ...sealWithDek(dek, secrets) })
 }
 
 function checkRateLimit(): string | null {
@@ -133,11 +299,48 @@ function recordSuccess(): void {
   nextAttemptAt = 0
 }
 
-function setUnlocked(currentDek: Buffer, map: SecretMap): void {
+type LockStateListener = (locked: boolean) => void
+const lockStateListeners = new Set<LockStateListener>()
+
+/** Called with the new state whenever the vault locks or unlocks. */
+export function onLockStateChange(listener: LockStateListener): () => void {
+  lockStateListeners.add(listener)
+  return () => {
+    lockStateListeners.delete(listener)
+  }
+}
+
+function notifyLockState(locked: boolean): void {
+  for (const listener of [...lockStateListeners]) {
+    try {
+      listener(locked)
+    } catch (err) {
+      console.warn('[vault] lock state listener failed:', err)
+    }
+  }
+}
+
+function setUnlocked(currentDek: Buffer, map: SecretMap, profileId: string, decoy = false): void {
+  // Switching profiles (or between a profile's real and decoy sets): the
+  // previous one locks first, so listeners see its session end before the
+  // next one starts.
+  if (unlocked && (unlockedProfile !== profileId || unlockedDecoy !== decoy)) lock()
+  const wasUnlocked = unlocked
   dek = currentDek
   secrets = { ...map }
   unlocked = true
+  unlockedProfile = profileId
+  unlockedDecoy = decoy
   recordSuccess()
+  if (!wasUnlocked) notifyLockState(false)
+}
+
+/** Make `profile` the one the next unlock opens; boot config mirrors its unlock methods. */
+function activateProfile(file: VaultFile, profile: SealedProfile): void {
+  if (file.activeProfile !== profile.id) {
+    writeVaultFile({ ...file, activeProfile: profile.id })
+  }
+  updateBootConfig({ hasVault: true, unlockMethods: methodsOf(profile) })
 }
 
 export function isUnlocked(): boolean {
@@ -148,23 +351,41 @@ export function hasVaultFile(): boolean {
   return readVaultFile() != null
 }
 
+/**
+ * Key for one wallet database (see dbEncryption.ts), derived from the
+ * unlocked profile's DEK. Null when there is no vault: without one the
+ * databases stay plaintext.
+ */
+export function databaseKey(identityKey: string, chain: string): Buffer | null {
+  if (!hasVaultFile()) return null
+  if (!unlocked || !dek) throw new Error('VAULT_LOCKED')
+  return deriveSubkey(dek, `bsv-desktop-wallet-db-v1:${identityKey}-${chain}`)
+}
+
 export function needsMigration(): boolean {
   return !hasVaultFile() && fs.existsSync(secretsDatPath())
 }
 
 export function status(): VaultStatus {
   const file = readVaultFile()
-  const methods: UnlockMethod[] = []
-  if (file) {
-    methods.push('passphrase')
-    if (file.wraps.se) methods.push('se')
-  }
+  const active = file ? activeProfileOf(file) : null
   return {
     locked: file != null && !unlocked,
     hasVault: file != null,
-    methods,
+    methods: active ? methodsOf(active) : [],
     biometricsAvailable: biometric.biometricsAvailable(),
     needsMigration: needsMigration(),
+    profiles: file
+      ? file.profiles.map(p => ({
+        id: p.id,
+        name: p.name,
+        createdAt: p.createdAt,
+        ownPassphrase: p.ownPassphrase,
+        methods: methodsOf(p),
+        active: p.id === active!.id,
+      }))
+      : [],
+    activeProfile: active?.id ?? null,
   }
 }
 
@@ -187,53 +408,289 @@ export function enroll(options: {
   const currentDek = randomDek()
   const kdf = defaultKdf()
   const passphraseBlob = wrapDekWithPassphrase(options.passphrase, currentDek, kdf)
-  const wraps: VaultFile['wraps'] = { passphrase: { blob: passphraseBlob } }
+  const wraps: SealedProfile['wraps'] = { passphrase: { blob: passphraseBlob } }
 
   if (options.enableBiometrics && biometric.biometricsAvailable()) {
     wraps.se = biometric.createSeWrap(currentDek)
   }
 
-  const sealed = sealWithDek(currentDek, map)
-  writeVaultFile({
-    version: 2,
+  const profile: SealedProfile = {
+    id: DEFAULT_PROFILE_ID,
+    name: 'Default',
+    createdAt: Date.now(),
+    ownPassphrase: false,
     kdf,
     wraps,
-    ...sealed,
-  })
-
-  const unlockMethods: UnlockMethod[] = ['passphrase']
-  if (wraps.se) unlockMethods.push('se')
-  updateBootConfig({ hasVault: true, unlockMethods })
+    ...sealWithDek(currentDek, map),
+  }
+  writeVaultFile({ version: 3, activeProfile: profile.id, profiles: [profile] })
+  updateBootConfig({ hasVault: true, unlockMethods: methodsOf(profile) })
 
-  setUnlocked(currentDek, map)
+  setUnlocked(currentDek, map, profile.id)
   return { ok: true }
 }
 
-export async function unlockWithPassphrase(passphrase: string): Promise<VaultResult> {
+/**
+ * Unlock the active profile, or `profileId` — which then becomes the active
+ * profile. Unlocking another profile while one is open switches to it.
+ */
+export async function unlockWithPassphrase(passphrase: string, profileId?: string): Promise<VaultResult> {
   const limited = checkRateLimit()
   if (limited) return { ok: false, error: limited }
 
   const file = readVaultFile()
   if (!file) return { ok: false, error: 'No vault found.' }
+  const profile = profileId ? findProfile(file, profileId) : activeProfileOf(file)
+  if (!profile) return { ok: false, error: 'Unknown vault profile.' }
 
+  let opened: ReturnType<typeof openWithPassphrase>
   try {
-    const currentDek = unwrapDekWithPassphrase(passphrase, file.wraps.passphrase.blob, file.kdf)
-    const map = openWithDek(currentDek, file)
-    setUnlocked(currentDek, map)
-    return { ok: true }
+    opened = openWithPassphrase(passphrase, profile)
   } catch {
     recordFailure()
     return { ok: false, error: 'Incorrect passphrase.' }
   }
+  setUnlocked(opened.dek, opened.map, profile.id, opened.decoy)
+  activateProfile(file, profile)
+
+  // Only a passphrase unlock has the passphrase in hand to re-derive with.
+  const usedKdf = opened.decoy ? profile.wraps.duress!.kdf : profile.kdf
+  if (kdfNeedsUpgrade(usedKdf)) {
+    try {
+      if (opened.decoy) rewrapDuress(passphrase, opened.dek, profile.id)
+      else rewrapPassphrase(passphrase, opened.dek, profile.id)
+    } catch (err) {
+      console.warn('[vault] KDF upgrade failed; keeping the existing wrap:', err)
+    }
+  }
+  return { ok: true }
+}
+
+/**
+ * Replace the passphrase wrap of `currentDek` with one derived from
+ * `passphrase` at the current KDF preset and a fresh salt. Sealed secrets and
+ * the biometric wrap wrap the same DEK, so neither is touched.
+ */
+function rewrapPassphrase(passphrase: string, currentDek: Buffer, profileId: string): void {
+  const file = readVaultFile()
+  const profile = file && findProfile(file, profileId)
+  if (!file || !profile) throw new Error('vault file missing')
+  const kdf = defaultKdf()
+  const blob = wrapDekWithPassphrase(passphrase, currentDek, kdf)
+  writeProfile(file, { ...profile, kdf, wraps: { ...profile.wraps, passphrase: { blob } } })
 }
 
-export async function unlockWithBiometrics(): Promise<VaultResult> {
+/** rewrapPassphrase for the duress wrap: `decoyDek` under `passphrase` at the current preset. */
+function rewrapDuress(passphrase: string, decoyDek: Buffer, profileId: string): void {
+  const file = readVaultFile()
+  const profile = file && findProfile(file, profileId)
+  if (!file || !profile) throw new Error('vault file missing')
+  const kdf = defaultKdf()
+  const blob = wrapDekWithPassphrase(passphrase, decoyDek, kdf)
+  writeProfile(file, { ...profile, wraps: { ...profile.wraps, duress: { kdf, blob } } })
+}
+
+/**
+ * Change the unlock passphrase of the active profile. The current passphrase
+ * is checked against the file (attempts share the unlock rate limit) and the
+ * DEK is rewrapped under the new one; secrets are not re-sealed. If the
+ * profile uses the shared passphrase, every other profile that opens with it
+ * moves to the new one too.
+ */
+export async function changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<VaultResult> {
+  if (!newPassphrase || newPassphrase.length < 8) {
+    return { ok: false, error: 'Passphrase must be at least 8 characters.' }
+  }
+  if (newPassphrase === currentPassphrase) {
+    return { ok: false, error: 'Choose a passphrase different from the current one.' }
+  }
   const limited = checkRateLimit()
   if (limited) return { ok: false, error: limited }
 
   const file = readVaultFile()
   if (!file) return { ok: false, error: 'No vault found.' }
-  if (!file.wraps.se) return { ok: false, error: 'Biometric unlock is not enrolled.' }
+  const profile = activeProfileOf(file)
+  if (unlocked && unlockedDecoy) return changeDecoyPassphrase(profile, currentPassphrase, newPassphrase)
+
+  let currentDek: Buffer
+  try {
+    currentDek = unwrapDekWithPassphrase(currentPassphrase, profile.wraps.passphrase.blob, profile.kdf)
+  } catch {
+    recordFailure()
+    return { ok: false, error: 'Current passphrase is incorrect.' }
+  }
+  recordSuccess()
+
+  const decoyDek = escrowedDecoyDek(profile, currentDek)
+  if (decoyDek) {
+    const duress = profile.wraps.duress!
+    const clash = tryUnwrap(newPassphrase, duress.blob, duress.kdf)
+    decoyDek.fill(0)
+    if (clash) {
+      clash.fill(0)
+      if (currentDek !== dek) currentDek.fill(0)
+      return { ok: false, error: 'Choose a passphrase different from your duress passphrase.' }
+    }
+  }
+
+  const keys = new Map<string, Buffer>([[profile.id, currentDek]])
+  if (!profile.ownPassphrase) {
+    for (const other of file.profiles) {
+      if (other.id === profile.id || other.ownPassphrase) continue
+      try {
+        keys.set(other.id, unwrapDekWithPassphrase(currentPassphrase, other.wraps.passphrase.blob, other.kdf))
+      } catch {
+        console.warn(`[vault] profile ${other.id} does not open with the shared passphrase; left unchanged`)
+      }
+    }
+  }
+
+  try {
+    for (const [id, key] of keys) rewrapPassphrase(newPassphrase, key, id)
+    return { ok: true }
+  } catch (err) {
+    console.error('[vault] passphrase change failed:', err)
+    return { ok: false, error: 'Failed to save the new passphrase.' }
+  } finally {
+    // The unlocked session keeps its own copy of the DEK.
+    for (const key of keys.values()) {
+      if (key !== dek) key.fill(0)
+    }
+  }
+}
+
+/**
+ * changePassphrase in a decoy session: the duress passphrase is the one in
+ * use, so only the duress wrap moves and the real wrap is never touched.
+ */
+function changeDecoyPassphrase(profile: SealedProfile, currentPassphrase: string, newPassphrase: string): VaultResult {
+  const duress = profile.wraps.duress
+  const decoyDek = duress ? tryUnwrap(currentPassphrase, duress.blob, duress.kdf) : null
+  if (!decoyDek) {
+    recordFailure()
+    return { ok: false, error: 'Current passphrase is incorrect.' }
+  }
+  recordSuccess()
+  try {
+    rewrapDuress(newPassphrase, decoyDek, profile.id)
+    return { ok: true }
+  } catch (err) {
+    console.error('[vault] passphrase change failed:', err)
+    return { ok: false, error: 'Failed to save the new passphrase.' }
+  } finally {
+    if (decoyDek !== dek) decoyDek.fill(0)
+  }
+}
+
+/** Whether the open profile has a duress passphrase. Always false in a decoy session. */
+export function hasDuressPassphrase(): boolean {
+  if (!unlocked || !dek || !unlockedProfile || unlockedDecoy) return false
+  const file = readVaultFile()
+  const profile = file && findProfile(file, unlockedProfile)
+  const decoyDek = profile ? escrowedDecoyDek(profile, dek) : null
+  decoyDek?.fill(0)
+  return decoyDek != null
+}
+
+/**
+ * Set or change the duress passphrase of the open profile. The first time, it
+ * opens a new, empty decoy set — unlock with it once to set up the decoy
+ * wallet; after that only the passphrase changes and the decoy wallet stays.
+ * Needs the real session and its passphrase.
+ */
+export async function setDuressPassphrase(currentPassphrase: string, duressPassphrase: string): Promise<VaultResult> {
+  if (!unlocked || !dek || !unlockedProfile) return { ok: false, error: 'Unlock the vault first.' }
+  if (!duressPassphrase || duressPassphrase.length < 8) {
+    return { ok: false, error: 'Passphrase must be at least 8 characters.' }
+  }
+  if (duressPassphrase === currentPassphrase) {
+    return { ok: false, error: 'The duress passphrase must differ from your vault passphrase.' }
+  }
+  const limited = checkRateLimit()
+  if (limited) return { ok: false, error: limited }
+
+  const file = readVaultFile()
+  const profile = file && findProfile(file, unlockedProfile)
+  if (!file || !profile) return { ok: false, error: 'No vault found.' }
+
+  if (unlockedDecoy) {
+    // A decoy set has no duress passphrase of its own. Fail the way a save
+    // failure would rather than saying why.
+    const duress = profile.wraps.duress!
+    const check = tryUnwrap(currentPassphrase, duress.blob, duress.kdf)
+    if (!check) {
+      recordFailure()
+      return { ok: false, error: 'Current passphrase is incorrect.' }
+    }
+    check.fill(0)
+    recordSuccess()
+    return { ok: false, error: 'Failed to save the duress passphrase.' }
+  }
+
+  const check = tryUnwrap(currentPassphrase, profile.wraps.passphrase.blob, profile.kdf)
+  if (!check) {
+    recordFailure()
+    return { ok: false, error: 'Current passphrase is incorrect.' }
+  }
+  check.fill(0)
+  recordSuccess()
+
+  const existing = escrowedDecoyDek(profile, dek)
+  const decoyDek = existing ?? randomDek()
+  try {
+    const kdf = defaultKdf()
+    const duress = { kdf, blob: wrapDekWithPassphrase(duressPassphrase, decoyDek, kdf) }
+    const decoy = existing && profile.decoy
+      ? profile.decoy
+      : { escrow: wrapKey(dek, decoyDek), ...sealDecoy(decoyDek, {}) }
+    writeProfile(file, { ...profile, wraps: { ...profile.wraps, duress }, decoy })
+    return { ok: true }
+  } catch (err) {
+    console.error('[vault] duress passphrase save failed:', err)
+    return { ok: false, error: 'Failed to save the duress passphrase.' }
+  } finally {
+    decoyDek.fill(0)
+  }
+}
+
+/**
+ * Remove the duress passphrase of the open profile; the decoy secrets are
+ * erased with it. In a decoy session there is none to remove, so this
+ * succeeds without changing anything.
+ */
+export async function clearDuressPassphrase(currentPassphrase: string): Promise<VaultResult> {
+  if (!unlocked || !dek || !unlockedProfile) return { ok: false, error: 'Unlock the vault first.' }
+  const limited = checkRateLimit()
+  if (limited) return { ok: false, error: limited }
+
+  const file = readVaultFile()
+  const profile = file && findProfile(file, unlockedProfile)
+  if (!file || !profile) return { ok: false, error: 'No vault found.' }
+
+  const wrap = unlockedDecoy ? profile.wraps.duress! : { ...profile.wraps.passphrase, kdf: profile.kdf }
+  const check = tryUnwrap(currentPassphrase, wrap.blob, wrap.kdf)
+  if (!check) {
+    recordFailure()
+    return { ok: false, error: 'Current passphrase is incorrect.' }
+  }
+  check.fill(0)
+  recordSuccess()
+  if (unlockedDecoy) return { ok: true }
+
+  writeProfile(file, withDuressFiller(profile))
+  return { ok: true }
+}
+
+/** Biometric counterpart of unlockWithPassphrase; same profile selection. */
+export async function unlockWithBiometrics(profileId?: string): Promise<VaultResult> {
+  const limited = checkRateLimit()
+  if (limited) return { ok: false, error: limited }
+
+  const file = readVaultFile()
+  if (!file) return { ok: false, error: 'No vault found.' }
+  const profile = profileId ? findProfile(file, profileId) : activeProfileOf(file)
+  if (!profile) return { ok: false, error: 'Unknown vault profile.' }
+  if (!profile.wraps.se) return { ok: false, error: 'Biometric unlock is not enrolled.' }
 
   const ok = await biometric.promptBiometrics('Unlock BSV Desktop wallet')
   if (!ok) {
@@ -241,27 +698,126 @@ export async function unlockWithBiometrics(): Promise<VaultResult> {
     return { ok: false, error: 'Biometric authentication failed or was cancelled.' }
   }
 
-  const currentDek = biometric.unwrapSeWrap(file.wraps.se)
+  const currentDek = biometric.unwrapSeWrap(profile.wraps.se)
   if (!currentDek) {
     recordFailure()
     return { ok: false, error: 'Biometric key unavailable. Use your unlock passphrase.' }
   }
 
+  let map: SecretMap
   try {
-    const map = openWithDek(currentDek, file)
-    setUnlocked(currentDek, map)
-    return { ok: true }
+    map = openWithDek(currentDek, profile)
   } catch {
     recordFailure()
     return { ok: false, error: 'Failed to open vault with biometrics.' }
   }
+  setUnlocked(currentDek, map, profile.id)
+  activateProfile(file, profile)
+  return { ok: true }
+}
+
+/**
+ * Add an empty profile with its own DEK. It opens with the shared passphrase
+ * (which must be given, and is checked) unless `ownPassphrase` is set, in
+ * which case `passphrase` becomes its private one. The current session is
+ * left as it is; unlock the new profile to switch to it.
+ */
+export function createProfile(options: {
+  name: string
+  passphrase: string
+  ownPassphrase: boolean
+  enableBiometrics: boolean
+}): { ok: true; profileId: string } | { ok: false; error: string } {
+  if (!unlocked) return { ok: false, error: 'Unlock the vault before adding a profile.' }
+  const name = options.name?.trim() ?? ''
+  if (!name || name.length > MAX_PROFILE_NAME) {
+    return { ok: false, error: `Profile name must be 1–${MAX_PROFILE_NAME} characters.` }
+  }
+  if (!options.passphrase || options.passphrase.length < 8) {
+    return { ok: false, error: 'Passphrase must be at least 8 characters.' }
+  }
+  const file = readVaultFile()
+  if (!file) return { ok: false, error: 'No vault found.' }
+  if (file.profiles.some(p => p.name.toLowerCase() === name.toLowerCase())) {
+    return { ok: false, error: 'A profile with that name already exists.' }
+  }
+
+  if (!options.ownPassphrase) {
+    const shared = file.profiles.find(p => !p.ownPassphrase)
+    if (shared) {
+      const limited = checkRateLimit()
+      if (limited) return { ok: false, error: limited }
+      try {
+        unwrapDekWithPassphrase(options.passphrase, shared.wraps.passphrase.blob, shared.kdf).fill(0)
+      } catch {
+        recordFailure()
+        return { ok: false, error: 'That is not the shared vault passphrase.' }
+      }
+      recordSuccess()
+    }
+  }
+
+  const profileDek = randomDek()
+  try {
+    const kdf = defaultKdf()
+    const wraps: SealedProfile['wraps'] = {
+      passphrase: { blob: wrapDekWithPassphrase(options.passphrase, profileDek, kdf) },
+    }
+    if (options.enableBiometrics && biometric.biometricsAvailable()) {
+      wraps.se = biometric.createSeWrap(profileDek)
+    }
+    const profile: SealedProfile = {
+      id: randomBytes(8).toString('hex'),
+      name,
+      createdAt: Date.now(),
+      ownPassphrase: options.ownPassphrase,
+      kdf,
+      wraps,
+      ...sealWithDek(profileDek, {}),
+    }
+    writeVaultFile({ ...file, profiles: [...file.profiles, profile] })
+    return { ok: true, profileId: profile.id }
+  } finally {
+    profileDek.fill(0)
+  }
+}
+
+/**
+ * Remove a profile and its sealed secrets. Its passphrase is required, and
+ * the profile in use cannot be removed — switch away from it first.
+ */
+export function deleteProfile(profileId: string, passphrase: string): VaultResult {
+  const file = readVaultFile()
+  if (!file) return { ok: false, error: 'No vault found.' }
+  const profile = findProfile(file, profileId)
+  if (!profile) return { ok: false, error: 'Unknown vault profile.' }
+  if (profile.id === activeProfileOf(file).id || profile.id === unlockedProfile) {
+    return { ok: false, error: 'Switch to another profile before removing this one.' }
+  }
+
+  const limited = checkRateLimit()
+  if (limited) return { ok: false, error: limited }
+  try {
+    unwrapDekWithPassphrase(passphrase, profile.wraps.passphrase.blob, profile.kdf).fill(0)
+  } catch {
+    recordFailure()
+    return { ok: false, error: 'Incorrect passphrase.' }
+  }
+  recordSuccess()
+
+  writeVaultFile({ ...file, profiles: file.profiles.filter(p => p.id !== profile.id) })
+  return { ok: true }
 }
 
 export function lock(): void {
+  const wasUnlocked = unlocked
   if (dek) dek.fill(0)
   dek = null
   secrets = {}
   unlocked = false
+  unlockedProfile = null
+  unlockedDecoy = false
+  if (wasUnlocked) notifyLockState(true)
 }
 
 /**
@@ -311,7 +867,18 @@ export function deleteSecret(name: string): void {
   persistUnlocked()
 }
 
-/** Wipe vault file, bio key, boot vault flags, and memory. */
+/** Replace every secret at once (restore from backup); names outside ALLOWED are dropped. */
+export function replaceSecrets(map: SecretMap): void {
+  if (!unlocked || !dek) throw new Error('VAULT_LOCKED')
+  const next: SecretMap = {}
+  for (const [name, value] of Object.entries(map)) {
+    if (ALLOWED.has(name) && typeof value === 'string') next[name] = value
+  }
+  secrets = next
+  persistUnlocked()
+}
+
+/** Wipe vault file (every profile), bio key, boot vault flags, and memory. */
 export function destroyVault(): void {
   lock()
   try {
@@ -353,6 +920,7 @@ export function migrateFromSecretMap(
 /** Test helper: reset module state between tests. */
 export function _resetForTests(): void {
   lock()
+  lockStateListeners.clear()
   failCount = 0
   nextAttemptAt = 0
 }
@@ -0,0 +1,140 @@
+/**
+ * Locks the vault on its own: after a period of inactivity, when the machine
+ * suspends, and when the screen locks.
+ *
+ * Inactivity counts both sides of the wallet: input in the wallet window
+ * (reported by the renderer over `vault:activity`, throttled) and bridge calls
+ * that presented a valid pairing token (`noteVaultActivity`, from the HTTP
+ * dispatcher). The unpaired endpoints (/getVersion, /getNetwork,
+ * /isAuthenticated, /pair) answer without a token and do not count, so a local
+ * process polling them cannot keep the vault open.
+ *
+ * The timer only runs while the vault is unlocked; main.ts reports lock state
+ * changes through `vaultLockStateChanged`. Settings live in the boot config so
+ * they are readable before the first unlock.
+ */
+import { ipcMain, powerMonitor } from 'electron'
+import { getBootConfig, updateBootConfig, type AutoLockSettings } from './bootConfig.js'
+
+export type { AutoLockSettings }
+
+export const DEFAULT_AUTO_LOCK: AutoLockSettings = {
+  idleMinutes: 15,
+  lockOnSuspend: true,
+  lockOnScreenLock: true,
+}
+
+/** Longest idle timeout the settings accept (one day). */
+export const MAX_IDLE_MINUTES = 24 * 60
+
+const MINUTE_MS = 60_000
+
+let lockVault: (() => void) | null = null
+let settings: AutoLockSettings | null = null
+let unlocked = false
+let lastActivity = 0
+let timer: ReturnType<typeof setTimeout> | null = null
+
+export function getAutoLockSettings(): AutoLockSettings {
+  if (!settings) settings = { ...DEFAULT_AUTO_LOCK, ...getBootConfig()?.autoLock }
+  return { ...settings }
+}
+
+/** Validate, persist and apply new settings. Throws on out-of-range values. */
+export function setAutoLockSettings(patch: Partial<AutoLockSettings>): AutoLockSettings {
+  const next = { ...getAutoLockSettings(), ...patch }
+  if (!Number.isInteger(next.idleMinutes) || next.idleMinutes < 0 || next.idleMinutes > MAX_IDLE_MINUTES) {
+    throw new Error(`idleMinutes must be a whole number from 0 to ${MAX_IDLE_MINUTES}`)
+  }
+  if (typeof next.lockOnSuspend !== 'boolean' || typeof next.lockOnScreenLock !== 'boolean') {
+    throw new Error('lockOnSuspend and lockOnScreenLock must be true or false')
+  }
+  settings = {
+    idleMinutes: next.idleMinutes,
+    lockOnSuspend: next.lockOnSuspend,
+    lockOnScreenLock: next.lockOnScreenLock,
+  }
+  updateBootConfig({ autoLock: settings })
+  schedule()
+  return { ...settings }
+}
+
+/**
+ * Arm a single timer for the moment the vault would become idle. Activity only
+ * moves `lastActivity`; when the timer fires it re-arms for the remainder
+ * instead of locking, so busy bridge traffic costs no timer churn.
+ */
+function schedule(): void {
+  if (timer) clearTimeout(timer)
+  timer = null
+  const { idleMinutes } = getAutoLockSettings()
+  if (!unlocked || idleMinutes === 0) return
+  const due = lastActivity + idleMinutes * MINUTE_MS
+  timer = setTimeout(() => {
+    timer = null
+    if (Date.now() >= lastActivity + getAutoLockSettings().idleMinutes * MINUTE_MS) {
+      lockNow(`idle for ${getAutoLockSettings().idleMinutes} min`)
+    } else {
+      schedule()
+    }
+  }, Math.max(0, due - Date.now()))
+}
+
+function lockNow(reason: string): void {
+  if (!unlocked || !lockVault) return
+  console.log(`[vault] auto-lock: ${reason}`)
+  lockVault()
+}
+
+/** UI input or an authenticated bridge call; postpones the idle lock. */
+export function noteVaultActivity(): void {
+  lastActivity = Date.now()
+}
+
+/** Called on every vault lock / unlock so the idle timer only runs while unlocked. */
+export function vaultLockStateChanged(locked: boolean): void {
+  unlocked = !locked
+  if (unlocked) lastActivity = Date.now()
+  schedule()
+}
+
+/**
+ * Hook up IPC and power events. `lock` zeroes the DEK (vault.lock); it must
+ * report back through `vaultLockStateChanged`. Call once the app is ready —
+ * `powerMonitor` is unavailable before that.
+ */
+export function startVaultAutoLock(lock: () => void): void {
+  lockVault = lock
+
+  ipcMain.on('vault:activity', () => {
+    noteVaultActivity()
+  })
+  ipcMain.handle('vault:get-auto-lock', () => ({
+    settings: getAutoLockSettings(),
+    defaults: DEFAULT_AUTO_LOCK,
+  }))
+  ipcMain.handle('vault:set-auto-lock', (_event, patch: Partial<AutoLockSettings>) => {
+    try {
+      return { success: true, settings: setAutoLockSettings(patch) }
+    } catch (error: any) {
+      return { success: false, error: error?.message || String(error) }
+    }
+  })
+
+  powerMonitor.on('suspend', () => {
+    if (getAutoLockSettings().lockOnSuspend) lockNow('system suspending')
+  })
+  powerMonitor.on('lock-screen', () => {
+    if (getAutoLockSettings().lockOnScreenLock) lockNow('screen locked')
+  })
+}
+
+/** Test-only: forget settings, state and the pending timer. */
+export function _resetForTests(): void {
+  if (timer) clearTimeout(timer)
+  timer = null
+  lockVault = null
+  settings = null
+  unlocked = false
+  lastActivity = 0
+}
@@ -2,12 +2,25 @@
  * Pure crypto helpers for the vault: AES-256-GCM seal/open and scrypt-based
  * passphrase wrapping of the DEK. No Electron dependency — fully unit-testable.
  */
-import { createCipheriv, createDecipheriv, randomBytes, scryptSync, timingSafeEqual } from 'crypto'
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes, scryptSync, timingSafeEqual } from 'crypto'
 
 export const AAD = Buffer.from('bsv-desktop-vault-v2', 'utf8')
 export const DEK_LEN = 32
 export const SCRYPT = { N: 16384, r: 8, p: 1, keyLen: 32, maxmem: 64 * 1024 * 1024 }
 
+/**
+ * Versioned scrypt cost presets for the passphrase wrap. Version 1 is the
+ * original cost (files written before versioning carry no `version` and are
+ * treated as 1). New wraps use `CURRENT_KDF_VERSION`; older ones are re-derived
+ * on the next passphrase unlock. Add a version here to raise the cost again.
+ */
+export const KDF_VERSIONS: Readonly<Record<number, { N: number; r: number; p: number }>> = {
+  1: { N: SCRYPT.N, r: SCRYPT.r, p: SCRYPT.p },
+  // 2^17 / r=8: 128 MiB per derivation (OWASP's scrypt recommendation).
+  2: { N: 131072, r: 8, p: 1 },
+}
+export const CURRENT_KDF_VERSION = 2
+
 export function randomDek(): Buffer {
   return randomBytes(DEK_LEN)
 }
@@ -45,25 +58,36 @@ export function aesGcmDecrypt(key: Buffer, nonceB64: string, ciphertextB64: stri
 
 export interface ScryptKdf {
   alg: 'scrypt'
+  /** Entry in KDF_VERSIONS the params came from; absent on pre-versioning files (1). */
+  version?: number
   salt: string
   params: { N: number; r: number; p: number }
 }
 
+/** Fresh salt at the current cost preset. */
 export function defaultKdf(salt?: Buffer): ScryptKdf {
   return {
     alg: 'scrypt',
+    version: CURRENT_KDF_VERSION,
     salt: b64(salt ?? randomBytes(16)),
-    params: { N: SCRYPT.N, r: SCRYPT.r, p: SCRYPT.p },
+    params: { ...KDF_VERSIONS[CURRENT_KDF_VERSION] },
   }
 }
 
+/** Whether a wrap was derived at an older cost preset than new wraps use. */
+export function kdfNeedsUpgrade(kdf: ScryptKdf): boolean {
+  return (kdf.version ?? 1) < CURRENT_KDF_VERSION
+}
+
 export function derivePassphraseKey(passphrase: string, kdf: ScryptKdf): Buffer {
   if (kdf.alg !== 'scrypt') throw new Error(`unsupported kdf: ${kdf.alg}`)
+  const { N, r, p } = kdf.params
   return scryptSync(passphrase, fromB64(kdf.salt), SCRYPT.keyLen, {
-    N: kdf.params.N,
-    r: kdf.params.r,
-    p: kdf.params.p,
-    maxmem: SCRYPT.maxmem,
+    N,
+    r,
+    p,
+    // scrypt needs 128·N·r bytes; leave headroom for the stronger presets.
+    maxmem: Math.max(SCRYPT.maxmem, 256 * N * r),
   })
 }
 
@@ -86,6 +110,11 @@ export function unwrapDekWithPassphrase(passphrase: string, blobB64: string, kdf
   return unwrapKey(derivePassphraseKey(passphrase, kdf), blobB64)
 }
 
+/** HKDF-SHA256 subkey of the DEK for one purpose, so the DEK itself never leaves the vault. */
+export function deriveSubkey(dek: Buffer, info: string): Buffer {
+  return Buffer.from(hkdfSync('sha256', dek, Buffer.alloc(0), Buffer.from(info, 'utf8'), 32))
+}
+
 /** Constant-time-ish check that two buffers are equal (same length required). */
 export function safeEqual(a: Buffer, b: Buffer): boolean {
   if (a.length !== b.length) return false
@@ -0,0 +1,403 @@
+/**
+ * Export and restore of the whole wallet as one encrypted archive
+ * (backupArchive.ts), for moving a wallet to another machine.
+ *
+ * An archive holds:
+ * - `vault-secrets.json` — the unlocked vault profile's secrets (snapshot, keys)
+ * - `wallet.db` — a consistent copy of the local wallet database, decrypted
+ *   so it opens on the new machine (dbEncryption.ts). It carries the wallet's permission tokens and the STAS /
+ *   BSV-21 receive contexts; their counts go in the manifest and are checked
+ *   again on restore.
+ * - `boot-config.json` — network, login type and service URLs
+ * - `renderer-state.json` — grants the renderer keeps itself (token spending
+ *   allowances), limited to RENDERER_STATE_KEYS and to the exported wallet's
+ *   own entries
+ *
+ * Bridge pairings are left out: their tokens live in the paired apps on the
+ * old machine, so apps pair again after a move.
+ *
+ * Restore decrypts the archive, checks every entry hash, stages the database
+ * and runs SQLite's integrity check on it before anything on disk is replaced.
+ * A database it replaces is kept beside the new one as
+ * `<name>.pre-restore-<timestamp>`. The restored database is encrypted under
+ * this machine's vault the next time it opens.
+ *
+ * With a vault, the secrets go into the unlocked profile. Restore refuses
+ * when that profile already holds another wallet (or one it cannot tell is
+ * the backup's), since replacing its secrets would lose that wallet's keys;
+ * the user adds a new profile and restores there.
+ */
+import { app, BrowserWindow, dialog, ipcMain } from 'electron'
+import fs from 'fs'
+import path from 'path'
+import { PrivateKey } from '@bsv/sdk'
+import { BACKUP_FILE_EXTENSION, openBackup, readBackupHeader, sealBackup, type OpenedBackup } from './backupArchive.js'
+import { getBootConfig, setBootConfig, type BootConfig } from './bootConfig.js'
+
+type Chain = 'main' | 'test' | 'ttn'
+
+/**
+ * Renderer state entries a backup may carry, each holding the exported
+ * wallet's value only. The renderer maps them to its per-wallet localStorage
+ * keys; must match RENDERER_STATE in src/lib/services/walletBackup.ts.
+ */
+export const RENDERER_STATE_KEYS: readonly string[] = ['tokenSpendAllowances']
+
+const ENTRY = {
+  secrets: 'vault-secrets.json',
+  database: 'wallet.db',
+  bootConfig: 'boot-config.json',
+  rendererState: 'renderer-state.json',
+} as const
+
+const CHAINS: ReadonlySet<string> = new Set(['main', 'test', 'ttn'])
+const IDENTITY_KEY = /^0[23][0-9a-f]{64}$/i
+const MIN_PASSPHRASE = 8
+
+export interface BackupSummary {
+  createdAt: string
+  identityKey: string
+  chain: Chain
+  appVersion: string | null
+  hasSecrets: boolean
+  hasDatabase: boolean
+  receiveContexts: { stas: number; bsv21: number } | null
+  /** A database for this identity/chain already exists here and would be replaced. */
+  replacesDatabase: boolean
+  /** The unlocked vault profile holds a different wallet; restore refuses to replace it. */
+  replacesOtherWallet: boolean
+  /** No vault on this machine yet: restoring creates one with a new passphrase. */
+  needsVaultPassphrase: boolean
+}
+
+export type BackupResult<T = {}> = ({ ok: true } & T) | { ok: false; error: string }
+
+type StorageModule = typeof import('./storage.js')
+type VaultModule = typeof import('./vault.js')
+
+/**
+ * main.ts loads storage and the vault lazily and hooks listeners onto them;
+ * go through its loaders so those are in place whichever side loads first.
+ */
+export interface WalletBackupDeps {
+  storage: () => Promise<StorageModule['storageManager']>
+  vault: () => Promise<VaultModule>
+}
+
+let deps: WalletBackupDeps = {
+  storage: async () => (await import('./storage.js')).storageManager,
+  vault: () => import('./vault.js'),
+}
+
+function pickRendererState(state: unknown): Record<string, string> {
+  const out: Record<string, string> = {}
+  if (!state || typeof state !== 'object') return out
+  for (const key of RENDERER_STATE_KEYS) {
+    const value = (state as Record<string, unknown>)[key]
+    if (typeof value === 'string') out[key] = value
+  }
+  return out
+}
+
+function json(value: unknown): Buffer {
+  return Buffer.from(JSON.stringify(value), 'utf8')
+}
+
+function parseJson<T>(opened: OpenedBackup, name: string): T | null {
+  const data = opened.entries.get(name)
+  return data ? (JSON.parse(data.toString('utf8')) as T) : null
+}
+
+function tempPath(dir: string, label: string): string {
+  return path.join(dir, `.${label}-${process.pid}-${Date.now()}.tmp`)
+}
+
+function removeQuietly(filePath: string): void {
+  try {
+    fs.rmSync(filePath, { force: true })
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * Whether the unlocked vault profile holds a wallet other than `identityKey`'s.
+ * Its secrets are that wallet when its primary key is the identity's, or when
+ * the identity's database opens under the profile's key; any other non-empty
+ * set counts as another wallet.
+ */
+async function holdsOtherWallet(vault: VaultModule, identityKey: string, chain: Chain): Promise<boolean> {
+  const current = vault.getAll()
+  if (Object.keys(current).length === 0) return false
+  if (current.primaryKeyHex) {
+    return new PrivateKey(current.primaryKeyHex, 'hex').toPublicKey().toString() !== identityKey.toLowerCase()
+  }
+  return !(await (await deps.storage()).opensWithUnlockedProfile(identityKey, chain))
+}
+
+/** Seal the current wallet into `filePath`. The vault must be unlocked. */
+export async function exportWalletBackup(
+  filePath: string,
+  options: { passphrase: string; identityKey: string; chain: Chain; rendererState?: unknown }
+): Promise<BackupResult<{ path: string }>> {
+  if (!options.passphrase || options.passphrase.length < MIN_PASSPHRASE) {
+    return { ok: false, error: `Backup passphrase must be at least ${MIN_PASSPHRASE} characters.` }
+  }
+  if (!IDENTITY_KEY.test(options.identityKey) || !CHAINS.has(options.chain)) {
+    return { ok: false, error: 'No wallet is loaded.' }
+  }
+  const vault = await deps.vault()
+  if (vault.hasVaultFile() && !vault.isUnlocked()) {
+    return { ok: false, error: 'Unlock the wallet before exporting a backup.' }
+  }
+
+  const entries: Array<{ name: string; data: Buffer }> = [
+    { name: ENTRY.secrets, data: json(vault.getAll()) },
+    { name: ENTRY.bootConfig, data: json(getBootConfig()) },
+    { name: ENTRY.rendererState, data: json(pickRendererState(options.rendererState)) },
+  ]
+
+  let receiveContexts: BackupSummary['receiveContexts'] = null
+  // Decrypted for the archive, so staged beside the wallet databases rather than in the shared temp dir
+  const { walletDataDir } = await import('./storage.js')
+  const dbCopy = tempPath(walletDataDir(), 'backup-db')
+  try {
+    const manager = await deps.storage()
+    if (await manager.backupDatabase(options.identityKey, options.chain, dbCopy, { decrypt: true })) {
+      const check = await manager.inspectDatabaseFile(dbCopy)
+      if (!check.ok) {
+        return { ok: false, error: `The wallet database failed its integrity check: ${check.problems[0]}` }
+      }
+      receiveContexts = check.receiveContexts
+      entries.push({ name: ENTRY.database, data: fs.readFileSync(dbCopy) })
+    }
+  } finally {
+    removeQuietly(dbCopy)
+  }
+
+  const archive = sealBackup(entries, {
+    identityKey: options.identityKey,
+    chain: options.chain,
+    appVersion: app.getVersion(),
+    receiveContexts,
+  }, options.passphrase)
+  const tmp = filePath + '.tmp'
+  fs.writeFileSync(tmp, archive, { mode: 0o600 })
+  fs.renameSync(tmp, filePath)
+  console.log(`[backup] exported ${entries.length} entries to ${filePath}`)
+  return { ok: true, path: filePath }
+}
+
+interface VerifiedBackup {
+  opened: OpenedBackup
+  summary: BackupSummary
+  /** Database written next to its final location and integrity-checked; caller removes or moves it. */
+  stagedDatabase: string | null
+}
+
+/**
+ * Decrypt, check every entry and stage + integrity-check the database.
+ * Nothing outside the staging file is written.
+ */
+async function verifyBackup(filePath: string, passphrase: string): Promise<VerifiedBackup> {
+  const opened = openBackup(fs.readFileSync(filePath), passphrase)
+  const meta = opened.manifest.meta as {
+    identityKey?: string
+    chain?: string
+    appVersion?: string
+    receiveContexts?: { stas: number; bsv21: number } | null
+  }
+  if (typeof meta.identityKey !== 'string' || !IDENTITY_KEY.test(meta.identityKey) || !CHAINS.has(meta.chain as string)) {
+    throw new Error('Backup does not name a valid wallet identity.')
+  }
+  const identityKey = meta.identityKey
+  const chain = meta.chain as Chain
+
+  const manager = await deps.storage()
+  const { walletDatabasePath, walletDataDir } = await import('./storage.js')
+  let stagedDatabase: string | null = null
+  const dbData = opened.entries.get(ENTRY.database)
+  if (dbData) {
+    fs.mkdirSync(walletDataDir(), { recursive: true })
+    stagedDatabase = tempPath(walletDataDir(), 'restore')
+    fs.writeFileSync(stagedDatabase, dbData, { mode: 0o600 })
+    try {
+      const check = await manager.inspectDatabaseFile(stagedDatabase)
+      if (!check.ok) throw new Error(`The backed-up database is damaged: ${check.problems[0]}`)
+      const expected = meta.receiveContexts
+      if (expected && (expected.stas !== check.receiveContexts.stas || expected.bsv21 !== check.receiveContexts.bsv21)) {
+        throw new Error('The backed-up database does not match its manifest (receive contexts differ).')
+      }
+    } catch (err) {
+      removeQuietly(stagedDatabase)
+      throw err
+    }
+  }
+
+  const vault = await deps.vault()
+  return {
+    opened,
+    stagedDatabase,
+    summary: {
+      createdAt: opened.manifest.createdAt,
+      identityKey,
+      chain,
+      appVersion: meta.appVersion ?? null,
+      hasSecrets: opened.entries.has(ENTRY.secrets),
+      hasDatabase: dbData != null,
+      receiveContexts: meta.receiveContexts ?? null,
+      replacesDatabase: fs.existsSync(walletDatabasePath(identityKey, chain)),
+      replacesOtherWallet: vault.isUnlocked() && await holdsOtherWallet(vault, identityKey, chain),
+      needsVaultPassphrase: !vault.hasVaultFile(),
+    },
+  }
+}
+
+/** Fully verify a backup and describe it, without restoring anything. */
+export async function inspectWalletBackup(filePath: string, passphrase: string): Promise<BackupResult<{ summary: BackupSummary }>> {
+  try {
+    const { summary, stagedDatabase } = await verifyBackup(filePath, passphrase)
+    if (stagedDatabase) removeQuietly(stagedDatabase)
+    return { ok: true, summary }
+  } catch (err: any) {
+    return { ok: false, error: err?.message || String(err) }
+  }
+}
+
+/**
+ * Verify a backup, then replace the wallet database, boot config and vault
+ * secrets with its contents. Returns the renderer state, and the wallet it
+ * belongs to, for the caller to write back into localStorage before reloading.
+ */
+export async function restoreWalletBackup(
+  filePath: string,
+  passphrase: string,
+  options: { vaultPassphrase?: string; enableBiometrics?: boolean } = {}
+): Promise<
+  BackupResult<{ rendererState: Record<string, string>; identityKey: string; chain: Chain; previousDatabase: string | null }>
+> {
+  const vault = await deps.vault()
+  if (vault.hasVaultFile() && !vault.isUnlocked()) {
+    return { ok: false, error: 'Unlock the wallet before restoring a backup.' }
+  }
+  if (!vault.hasVaultFile() && (!options.vaultPassphrase || options.vaultPassphrase.length < MIN_PASSPHRASE)) {
+    return { ok: false, error: `Choose a vault passphrase of at least ${MIN_PASSPHRASE} characters.` }
+  }
+
+  let verified: VerifiedBackup
+  try {
+    verified = await verifyBackup(filePath, passphrase)
+  } catch (err: any) {
+    return { ok: false, error: err?.message || String(err) }
+  }
+  const { opened, summary, stagedDatabase } = verified
+  if (summary.replacesOtherWallet) {
+    if (stagedDatabase) removeQuietly(stagedDatabase)
+    return {
+      ok: false,
+      error: 'The unlocked vault profile holds a different wallet. Add a new profile, unlock it, and restore the backup there.',
+    }
+  }
+
+  // Everything checked out; from here on the current wallet is replaced.
+  let previousDatabase: string | null = null
+  if (stagedDatabase) {
+    const { walletDatabasePath } = await import('./storage.js')
+    const target = walletDatabasePath(summary.identityKey, summary.chain)
+    await (await deps.storage()).closeStorage(summary.identityKey, summary.chain)
+    if (fs.existsSync(target)) {
+      previousDatabase = `${target}.pre-restore-${Date.now()}`
+      for (const suffix of ['', '-wal', '-shm']) {
+        if (fs.existsSync(target + suffix)) fs.renameSync(target + suffix, previousDatabase + suffix)
+      }
+    }
+    fs.renameSync(stagedDatabase, target)
+  }
+
+  const boot = parseJson<BootConfig>(opened, ENTRY.bootConfig)
+  if (boot) {
+    // Vault enrollment belongs to this machine, not the one the backup came from.
+    const current = getBootConfig()
+    setBootConfig({
+      ...boot,
+      version: 1,
+      hasVault: current?.hasVault ?? false,
+      unlockMethods: current?.unlockMethods ?? [],
+    })
+  }
+
+  const secrets = parseJson<Record<string, string>>(opened, ENTRY.secrets) ?? {}
+  if (vault.hasVaultFile()) {
+    vault.replaceSecrets(secrets)
+  } else {
+    const enrolled = vault.enroll({
+      passphrase: options.vaultPassphrase!,
+      enableBiometrics: options.enableBiometrics === true,
+      initialSecrets: secrets,
+    })
+    if (enrolled.ok === false) return { ok: false, error: enrolled.error }
+  }
+
+  console.log(`[backup] restored ${summary.identityKey}-${summary.chain} from ${filePath}`)
+  return {
+    ok: true,
+    rendererState: pickRendererState(parseJson(opened, ENTRY.rendererState)),
+    identityKey: summary.identityKey,
+    chain: summary.chain,
+    previousDatabase,
+  }
+}
+
+export function registerWalletBackupIpc(loaders?: WalletBackupDeps): void {
+  if (loaders) deps = loaders
+  ipcMain.handle('backup:export', async (event, options) => {
+    const win = BrowserWindow.fromWebContents(event.sender)
+    const defaultPath = path.join(
+      app.getPath('documents'),
+      `bsv-desktop-${new Date().toISOString().slice(0, 10)}.${BACKUP_FILE_EXTENSION}`
+    )
+    const choice = win
+      ? await dialog.showSaveDialog(win, {
+        defaultPath,
+        filters: [{ name: 'BSV Desktop backup', extensions: [BACKUP_FILE_EXTENSION] }],
+      })
+      : await dialog.showSaveDialog({ defaultPath })
+    if (choice.canceled || !choice.filePath) return { ok: false, canceled: true, error: 'Canceled' }
+    try {
+      return await exportWalletBackup(choice.filePath, options)
+    } catch (err: any) {
+      console.error('[backup] export failed:', err)
+      return { ok: false, error: err?.message || String(err) }
+    }
+  })
+
+  ipcMain.handle('backup:choose-file', async (event) => {
+    const win = BrowserWindow.fromWebContents(event.sender)
+    const options = {
+      properties: ['openFile' as const],
+      filters: [{ name: 'BSV Desktop backup', extensions: [BACKUP_FILE_EXTENSION] }],
+    }
+    const choice = win ? await dialog.showOpenDialog(win, options) : await dialog.showOpenDialog(options)
+    const filePath = choice.canceled ? undefined : choice.filePaths[0]
+    if (!filePath) return null
+    try {
+      const { header } = readBackupHeader(fs.readFileSync(filePath))
+      return { path: filePath, createdAt: header.createdAt }
+    } catch (err: any) {
+      return { path: filePath, error: err?.message || String(err) }
+    }
+  })
+
+  ipcMain.handle('backup:inspect', (_event, filePath: string, passphrase: string) =>
+    inspectWalletBackup(filePath, passphrase)
+  )
+
+  ipcMain.handle('backup:restore', async (_event, filePath: string, passphrase: string, options) => {
+    try {
+      return await restoreWalletBackup(filePath, passphrase, options)
+    } catch (err: any) {
+      console.error('[backup] restore failed:', err)
+      return { ok: false, error: err?.message || String(err) }
+    }
+  })
+}
@@ -0,0 +1,164 @@
+/**
+ * Watch-only wallets: browsing a wallet's history, baskets and token
+ * holdings with no keys on this machine.
+ *
+ * A watch-only wallet opens from a wallet database file — a copy of
+ * `wallet-<identityKey>-<chain>.db`, a database snapshot, or a watch-only
+ * export written here. An export is the wallet database copied with SQLite's
+ * online backup API, with the rows that say how the wallet runs rather than
+ * what it holds cleared (WATCH_ONLY_PRUNED_TABLES).
+ *
+ * StorageManager copies the chosen file into `~/.bsv-desktop/watch-only/`,
+ * brings the copy up to the current schema, then serves it read-only: the
+ * connection is opened `readonly` with `query_only`, storage methods outside
+ * WATCH_ONLY_STORAGE_METHODS are refused, and no monitor worker starts. The
+ * copy is deleted when the watch-only wallet is closed.
+ */
+import { app, BrowserWindow, dialog, ipcMain } from 'electron'
+import path from 'path'
+
+type Chain = 'main' | 'test' | 'ttn'
+
+export const WATCH_ONLY_FILE_EXTENSION = 'bsvwatch'
+
+/** Tables emptied in a watch-only export: monitor bookkeeping, sync cursors and app request history. */
+export const WATCH_ONLY_PRUNED_TABLES: readonly string[] = ['monitor_events', 'sync_states', 'bridge_audit_log']
+
+/** StorageKnex methods a watch-only wallet may call; all of them only read. */
+export const WATCH_ONLY_STORAGE_METHODS: ReadonlySet<string> = new Set([
+  'findCertificates', 'findCertificatesAuth', 'listCertificates',
+  'findOutputs', 'findOutputsAuth', 'listOutputs',
+  'findTransactions', 'findCommissions',
+  'findOutputBaskets', 'findOutputBasketsAuth',
+  'findProvenTxs', 'findProvenTxReqs',
+  'findTxLabels', 'findOutputTags', 'findCounterparties',
+  'getWalletStatus', 'getHeight',
+  'findPermissions', 'findSettings',
+  'findOrInsertUser', 'listActions',
+])
+
+export const WATCH_ONLY_ERROR = 'This wallet is watch-only.'
+
+const IDENTITY_KEY = /^0[23][0-9a-f]{64}$/
+const CHAINS: ReadonlySet<string> = new Set(['main', 'test', 'ttn'])
+
+export interface WatchOnlyTarget {
+  identityKey: string
+  chain: Chain
+}
+
+/**
+ * The identity and chain a wallet database belongs to. `identityKey` picks
+ * one user when the file holds several, and must be among them when given.
+ */
+export async function readWatchOnlyTarget(db: any, identityKey?: string): Promise<WatchOnlyTarget> {
+  if (!(await db.schema.hasTable('users')) || !(await db.schema.hasTable('settings'))) {
+    throw new Error('This file is not a wallet database.')
+  }
+  const [settings] = await db('settings').select('chain').limit(1)
+  if (!settings || !CHAINS.has(settings.chain)) {
+    throw new Error('This wallet database has no network set.')
+  }
+  const users: Array<{ identityKey: string }> = await db('users').select('identityKey')
+  const keys = users.map(u => u.identityKey)
+  if (identityKey) {
+    if (!keys.includes(identityKey)) {
+      throw new Error('This file holds no wallet for that identity key.')
+    }
+    return { identityKey, chain: settings.chain }
+  }
+  if (keys.length !== 1) {
+    throw new Error(keys.length === 0
+      ? 'This wallet database holds no wallet.'
+      : 'This file holds several wallets. Enter the identity key of the one to open.')
+  }
+  return { identityKey: keys[0], chain: settings.chain }
+}
+
+/** Empty WATCH_ONLY_PRUNED_TABLES in a copy being exported. */
+export async function pruneForWatchOnly(db: any): Promise<void> {
+  for (const table of WATCH_ONLY_PRUNED_TABLES) {
+    if (await db.schema.hasTable(table)) {
+      await db(table).delete()
+    }
+  }
+}
+
+/** The parts of StorageManager this module drives. */
+export interface WatchOnlyStorage {
+  openWatchOnly(filePath: string, identityKey?: string): Promise<WatchOnlyTarget>
+  closeWatchOnly(): Promise<void>
+  watchOnlyTarget(): WatchOnlyTarget | null
+  exportWatchOnly(identityKey: string, chain: Chain, destPath: string): Promise<boolean>
+}
+
+export interface WatchOnlyDeps {
+  storage: () => Promise<WatchOnlyStorage>
+}
+
+/** Register the `watch-only:*` IPC channels. Call once. */
+export function registerWatchOnlyIpc(loaders: WatchOnlyDeps): void {
+  ipcMain.handle('watch-only:choose-file', async (event) => {
+    const win = BrowserWindow.fromWebContents(event.sender)
+    const options = {
+      properties: ['openFile' as const],
+      filters: [
+        { name: 'Wallet data', extensions: [WATCH_ONLY_FILE_EXTENSION, 'db', 'sqlite'] },
+        { name: 'All files', extensions: ['*'] },
+      ],
+    }
+    const choice = win ? await dialog.showOpenDialog(win, options) : await dialog.showOpenDialog(options)
+    return choice.canceled ? null : choice.filePaths[0] ?? null
+  })
+
+  ipcMain.handle('watch-only:open', async (_event, filePath: string, identityKey?: string) => {
+    if (typeof filePath !== 'string' || !filePath) return { ok: false, error: 'Choose a file to open.' }
+    if (identityKey !== undefined && (typeof identityKey !== 'string' || !IDENTITY_KEY.test(identityKey))) {
+      return { ok: false, error: 'The identity key must be a 33-byte compressed public key in hex.' }
+    }
+    try {
+      const target = await (await loaders.storage()).openWatchOnly(filePath, identityKey)
+      return { ok: true, ...target }
+    } catch (err: any) {
+      console.error('[watch-only] open failed:', err)
+      return { ok: false, error: err?.message || String(err) }
+    }
+  })
+
+  ipcMain.handle('watch-only:status', async () => {
+    return (await loaders.storage()).watchOnlyTarget()
+  })
+
+  ipcMain.handle('watch-only:close', async () => {
+    try {
+      await (await loaders.storage()).closeWatchOnly()
+      return { ok: true }
+    } catch (err: any) {
+      console.error('[watch-only] close failed:', err)
+      return { ok: false, error: err?.message || String(err) }
+    }
+  })
+
+  ipcMain.handle('watch-only:export', async (event, identityKey: string, chain: Chain) => {
+    if (typeof identityKey !== 'string' || !IDENTITY_KEY.test(identityKey) || typeof chain !== 'string' || !CHAINS.has(chain)) {
+      return { ok: false, error: 'No wallet is loaded.' }
+    }
+    const win = BrowserWindow.fromWebContents(event.sender)
+    const defaultPath = path.join(
+      app.getPath('documents'),
+      `bsv-desktop-watch-only-${identityKey.slice(0, 8)}-${chain}.${WATCH_ONLY_FILE_EXTENSION}`
+    )
+    const filters = [{ name: 'Watch-only wallet', extensions: [WATCH_ONLY_FILE_EXTENSION] }]
+    const choice = win
+      ? await dialog.showSaveDialog(win, { defaultPath, filters })
+      : await dialog.showSaveDialog({ defaultPath, filters })
+    if (choice.canceled || !choice.filePath) return { ok: false, canceled: true, error: 'Canceled' }
+    try {
+      const written = await (await loaders.storage()).exportWatchOnly(identityKey, chain, choice.filePath)
+      return written ? { ok: true, path: choice.filePath } : { ok: false, error: 'This wallet has no local database.' }
+    } catch (err: any) {
+      console.error('[watch-only] export failed:', err)
+      return { ok: false, error: err?.message || String(err) }
+    }
+  })
+}
@@ -1,5 +1,82 @@
 // Global type declarations for Electron IPC API
 
+export interface BridgeLimits {
+  perOriginRequestsPerSecond: number;
+  perOriginBurst: number;
+  globalRequestsPerSecond: number;
+  globalBurst: number;
+  maxInFlightPerOrigin: number;
+  maxInFlightGlobal: number;
+  /** Route path → max body bytes; `*` is the fallback. */
+  maxBodyBytes: Record<string, number>;
+}
+
+export interface VaultProfileInfo {
+  id: string;
+  name: string;
+  createdAt: number;
+  /** Opens with its own passphrase instead of the shared one. */
+  ownPassphrase: boolean;
+  methods: Array<'se' | 'passphrase'>;
+  /** The profile the next unlock opens. */
+  active: boolean;
+}
+
+export interface AutoLockSettings {
+  /** Minutes without UI input or bridge calls before the vault locks; 0 disables. */
+  idleMinutes: number;
+  lockOnSuspend: boolean;
+  lockOnScreenLock: boolean;
+}
+
+export interface WalletBackupSummary {
+  createdAt: string;
+  identityKey: string;
+  chain: 'main' | 'test' | 'ttn';
+  appVersion: string | null;
+  hasSecrets: boolean;
+  hasDatabase: boolean;
+  receiveContexts: { stas: number; bsv21: number } | null;
+  /** A wallet database for this identity/chain exists here and would be replaced. */
+  replacesDatabase: boolean;
+  /** The unlocked vault profile holds a different wallet; restore refuses to replace it. */
+  replacesOtherWallet: boolean;
+  /** No vault on this computer yet; restore creates one with a new passphrase. */
+  needsVaultPassphrase: boolean;
+}
+
+export interface DbSnapshotInfo {
+  id: string;
+  kind: 'scheduled' | 'manual' | 'pre-migration' | 'pre-sync' | 'pre-restore';
+  createdAt: number;
+  size: number;
+}
+
+export interface SnapshotSettings {
+  /** Minutes between scheduled snapshots; 0 disables. */
+  intervalMinutes: number;
+  /** Automatic snapshots kept: newest of each of this many recent hours… */
+  keepHourly: number;
+  /** …and of each of this many recent days. */
+  keepDaily: number;
+}
+
+export interface DbIntegrityReport {
+  ok: boolean;
+  problems: string[];
+  foreignKeys: Array<{ table: string; parent: string; rows: number }>;
+  orphanedStasOutputs: { count: number; outputIds: number[] };
+  tablesChecked: number;
+  durationMs: number;
+}
+
+export interface DbSizeReport {
+  databaseBytes: number;
+  walBytes: number;
+  freeBytes: number;
+  tables: Array<{ name: string; owner: 'wallet-toolbox' | 'bsv-desktop'; rows: number; bytes: number | null }>;
+}
+
 export interface ElectronAPI {
   isFocused: () => Promise<boolean>;
   requestFocus: () => Promise<void>;
@@ -23,11 +100,25 @@ export interface ElectronAPI {
   onHttpRequestCancelled: (callback: (event: { request_id: number; reason?: string }) => void) => void;
   sendHttpResponse: (response: any) => void;
   removeHttpRequestListener: () => void;
+  bridge: {
+    listPairings: () => Promise<Array<{ origin: string; createdAt: number; lastUsedAt: number | null }>>;
+    revokePairing: (origin: string) => Promise<boolean>;
+    getLimits: () => Promise<{ limits: BridgeLimits; defaults: BridgeLimits }>;
+    setLimits: (limits: BridgeLimits) => Promise<{ success: boolean; limits?: BridgeLimits; error?: string }>;
+    /** Forward a peer-token notification to apps on GET /events. */
+    publishEvent: (type: 'peertoken.incoming', data: Record<string, unknown>) => void;
+    /** Tell the main process this renderer's bridge listener is registered. */
+    rendererReady: () => void;
+    /** Show permission prompts in the compact approval window instead of the dashboard. */
+    setApprovalWindow: (enabled: boolean) => void;
+  };
   storage: {
     isAvailable: (identityKey: string, chain: 'main' | 'test' | 'ttn') => Promise<boolean>;
     makeAvailable: (identityKey: string, chain: 'main' | 'test' | 'ttn') => Promise<{ success: boolean; settings?: any; error?: string }>;
     callMethod: (identityKey: string, chain: 'main' | 'test' | 'ttn', method: string, args: any[]) => Promise<{ success: boolean; result?: any; error?: string }>;
     initializeServices: (identityKey: string, chain: 'main' | 'test' | 'ttn') => Promise<{ success: boolean; error?: string }>;
+    /** Set aside a database the unlocked profile cannot open; the next open starts empty. */
+    startFresh: (identityKey: string, chain: 'main' | 'test' | 'ttn') => Promise<{ success: boolean; movedTo?: string; error?: string }>;
   };
   secrets: {
     getAll: () => Promise<Record<string, string>>;
@@ -41,17 +132,108 @@ export interface ElectronAPI {
       methods: Array<'se' | 'passphrase'>;
       biometricsAvailable: boolean;
       needsMigration: boolean;
+      profiles: VaultProfileInfo[];
+      activeProfile: string | null;
     }>;
-    unlockWithPassphrase: (passphrase: string) => Promise<{ ok: true } | { ok: false; error: string }>;
-    unlockWithBiometrics: () => Promise<{ ok: true } | { ok: false; error: string }>;
+    /** Unlock the active profile, or switch to `profileId`. */
+    unlockWithPassphrase: (passphrase: string, profileId?: string) => Promise<{ ok: true } | { ok: false; error: string }>;
+    unlockWithBiometrics: (profileId?: string) => Promise<{ ok: true } | { ok: false; error: string }>;
+    /** Add an empty, separately sealed profile; does not switch to it. */
+    createProfile: (options: {
+      name: string;
+      passphrase: string;
+      ownPassphrase: boolean;
+      enableBiometrics: boolean;
+    }) => Promise<{ ok: true; profileId: string } | { ok: false; error: string }>;
+    deleteProfile: (profileId: string, passphrase: string) => Promise<{ ok: true } | { ok: false; error: string }>;
     enroll: (options: {
       passphrase: string;
       enableBiometrics: boolean;
       initialSecrets?: Record<string, string>;
     }) => Promise<{ ok: true } | { ok: false; error: string }>;
+    /** Rewrap the vault key under a new passphrase; the current one is required. */
+    changePassphrase: (currentPassphrase: string, newPassphrase: string) => Promise<{ ok: true } | { ok: false; error: string }>;
+    /** Whether the open profile has a duress passphrase (always false while the decoy wallet is open). */
+    hasDuress: () => Promise<boolean>;
+    /** Set or change the passphrase that opens the decoy wallet instead of the real one. */
+    setDuress: (currentPassphrase: string, duressPassphrase: string) => Promise<{ ok: true } | { ok: false; error: string }>;
+    clearDuress: (currentPassphrase: string) => Promise<{ ok: true } | { ok: false; error: string }>;
     lock: () => Promise<void>;
     endSession: () => Promise<void>;
     destroy: () => Promise<void>;
+    /** Report UI input; postpones the idle auto-lock. */
+    noteActivity: () => void;
+    getAutoLock: () => Promise<{ settings: AutoLockSettings; defaults: AutoLockSettings }>;
+    setAutoLock: (patch: Partial<AutoLockSettings>) => Promise<{ success: boolean; settings?: AutoLockSettings; error?: string }>;
+    /** Called when the main process locks the vault; returns an unsubscribe function. */
+    onLocked: (callback: () => void) => () => void;
+  };
+  backup: {
+    /** Ask where to save, then write an encrypted backup of the loaded wallet. */
+    export: (options: {
+      passphrase: string;
+      identityKey: string;
+      chain: 'main' | 'test' | 'ttn';
+      rendererState: Record<string, string>;
+    }) => Promise<{ ok: true; path: string } | { ok: false; error: string; canceled?: boolean }>;
+    chooseFile: () => Promise<{ path: string; createdAt?: string; error?: string } | null>;
+    /** Decrypt and verify a backup without restoring it. */
+    inspect: (filePath: string, passphrase: string) => Promise<{ ok: true; summary: WalletBackupSummary } | { ok: false; error: string }>;
+    restore: (
+      filePath: string,
+      passphrase: string,
+      options?: { vaultPassphrase?: string; enableBiometrics?: boolean }
+    ) => Promise<
+      | {
+          ok: true;
+          rendererState: Record<string, string>;
+          identityKey: string;
+          chain: 'main' | 'test' | 'ttn';
+          previousDatabase: string | null;
+        }
+      | { ok: false; error: string }
+    >;
+  };
+  snapshots: {
+    /** Snapshots of the wallet database for an identity/chain, newest first. */
+    list: (identityKey: string, chain: 'main' | 'test' | 'ttn') => Promise<
+      | { ok: true; snapshots: DbSnapshotInfo[]; settings: SnapshotSettings; defaults: SnapshotSettings }
+      | { ok: false; error: string }
+    >;
+    create: (identityKey: string, chain: 'main' | 'test' | 'ttn') => Promise<{ ok: true; snapshot: DbSnapshotInfo } | { ok: false; error: string }>;
+    /** Replace the wallet database with a snapshot; reload the window afterwards. */
+    restore: (identityKey: string, chain: 'main' | 'test' | 'ttn', id: string) => Promise<{ ok: true } | { ok: false; error: string }>;
+    delete: (identityKey: string, chain: 'main' | 'test' | 'ttn', id: string) => Promise<{ ok: true } | { ok: false; error: string }>;
+    setSettings: (patch: Partial<SnapshotSettings>) => Promise<{ success: boolean; settings?: SnapshotSettings; error?: string }>;
+  };
+  dbMaintenance: {
+    /** Integrity and foreign-key checks, plus orphaned STAS output rows. */
+    check: (identityKey: string, chain: 'main' | 'test' | 'ttn') => Promise<{ ok: true; result: DbIntegrityReport } | { ok: false; error: string }>;
+    /** Rows and bytes per table, WAL size and reclaimable free space. */
+    report: (identityKey: string, chain: 'main' | 'test' | 'ttn') => Promise<{ ok: true; result: DbSizeReport } | { ok: false; error: string }>;
+    checkpoint: (identityKey: string, chain: 'main' | 'test' | 'ttn') => Promise<
+      | { ok: true; result: { busy: boolean; walBytesBefore: number; walBytesAfter: number } }
+      | { ok: false; error: string }
+    >;
+    vacuum: (identityKey: string, chain: 'main' | 'test' | 'ttn') => Promise<
+      | { ok: true; result: { bytesBefore: number; bytesAfter: number; durationMs: number } }
+      | { ok: false; error: string }
+    >;
+  };
+  watchOnly: {
+    chooseFile: () => Promise<string | null>;
+    /** Open a wallet database file read-only; `identityKey` picks the wallet in a file holding several. */
+    open: (filePath: string, identityKey?: string) => Promise<
+      | { ok: true; identityKey: string; chain: 'main' | 'test' | 'ttn' }
+      | { ok: false; error: string }
+    >;
+    status: () => Promise<{ identityKey: string; chain: 'main' | 'test' | 'ttn' } | null>;
+    close: () => Promise<{ ok: true } | { ok: false; error: string }>;
+    /** Write a watch-only export of the wallet database to a file the user picks. */
+    export: (identityKey: string, chain: 'main' | 'test' | 'ttn') => Promise<
+      | { ok: true; path: string }
+      | { ok: false; canceled?: boolean; error: string }
+    >;
   };
   bootConfig: {
     get: () => Promise<any>;
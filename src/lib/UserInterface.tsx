@@ -10,6 +10,7 @@ import Greeter from './pages/Greeter'
 import Dashboard from './pages/Dashboard'
 import RecoverPresentationKey from './pages/Recovery/RecoverPresentationKey'
 import RecoverPassword from './pages/Recovery/RecoverPassword'
+import RecoverFromShares from './pages/Recovery/RecoverFromShares'
 import Recovery from './pages/Recovery'
 import BasketAccessHandler from './components/BasketAccessHandler'
 import CertificateAccessHandler from './components/CertificateAccessHandler'
@@ -18,7 +19,9 @@ import PasswordHandler from './components/PasswordHandler'
 import RecoveryKeyHandler from './components/RecoveryKeyHandler'
 import FundingHandler from './components/FundingHandler'
 import SpendingAuthorizationHandler from './components/SpendingAuthorizationHandler'
-import StasTransferPermissionHandler from './components/StasTransferPermissionHandler'
+import TokenSpendPermissionHandler from './components/TokenSpendPermissionHandler'
+import BridgePairingHandler from './components/BridgePairingHandler'
+import ApprovalWindow from './components/ApprovalWindow'
 import AuthRedirector from './navigation/AuthRedirector'
 import ThemedToastContainer from './components/ThemedToastContainer'
 import { WalletInterface } from '@bsv/sdk'
@@ -70,13 +73,16 @@ const UserInterface: React.FC<UserInterfaceProps> = ({ onWalletReady, nativeHand
                 <PasswordHandler />
                 <RecoveryKeyHandler />
                 <FundingHandler />
-                <BasketAccessHandler />
-                <CertificateAccessHandler />
-                <ProtocolPermissionHandler />
-                <SpendingAuthorizationHandler />
-                <StasTransferPermissionHandler />
+                <ApprovalWindow>
+                  <BasketAccessHandler />
+                  <CertificateAccessHandler />
+                  <ProtocolPermissionHandler />
+                  <SpendingAuthorizationHandler />
+                  <TokenSpendPermissionHandler />
+                  <BridgePairingHandler />
+                  <GroupPermissionHandler />
+                </ApprovalWindow>
                 <ThemedToastContainer />
-                <GroupPermissionHandler />
                 <UpdateNotificationWrapper />
                 <NetworkSettingsDialog />
                 <Switch>
@@ -84,6 +90,7 @@ const UserInterface: React.FC<UserInterfaceProps> = ({ onWalletReady, nativeHand
                   <Route path='/dashboard' component={Dashboard} />
                   <Route exact path='/recovery/presentation-key' component={RecoverPresentationKey} />
                   <Route exact path='/recovery/password' component={RecoverPassword} />
+                  <Route exact path='/recovery/shares' component={RecoverFromShares} />
                   <Route exact path='/recovery' component={Recovery} />
                   <Route exact path='/privacy' component={PrivacyPolicy} />
                   <Route exact path='/usage' component={UsagePolicy} />
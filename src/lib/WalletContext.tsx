@@ -30,13 +30,17 @@ import { ADMIN_ORIGINATOR, DEFAULT_SETTINGS } from './config'
 import { UserContext } from './UserContext'
 import { useWalletService, getWalletService } from './hooks/useWalletService'
 import type { StasServices } from './services/WalletService'
+import type { WatchOnlyTarget } from './services/watchOnly'
 import { buildPermissionModuleRegistry } from './permissionModules/registry'
 import type { PermissionModuleDefinition, PermissionPromptHandler } from './permissionModules/types'
 import type { GroupPermissionRequest, CounterpartyPermissionRequest } from './types/GroupedPermissions'
 import type { WalletProfile } from './types/WalletProfile'
-import { setStasForHttpRoute, setStasTransferEnqueuer, setBsv21DiscoveryForHttpRoute, setPeerTokensForHttpRoute } from '../onWalletReady'
-import type { StasTransferRequest } from './types/StasTransferRequest'
+import { setStasForHttpRoute, setTokenSpendEnqueuer, setBridgePairingEnqueuer, setBsv21DiscoveryForHttpRoute, setPeerTokensForHttpRoute, setBridgeAuditTarget } from '../onWalletReady'
+import type { TokenSpendApproval, TokenSpendRequest } from './services/PermissionQueueManager'
+import type { TokenSpendAllowance, TokenSpendProtocol } from './services/tokenSpendAllowances'
+import type { BridgePairingRequest } from './types/BridgePairingRequest'
 import { RequestInterceptorWallet } from './RequestInterceptorWallet'
+import { forwardIncomingToBridge } from './services/bridgeEvents'
 import { updateRecentApp } from './pages/Dashboard/Apps/getApps'
 
 // -----
@@ -135,6 +139,11 @@ export interface WalletContextValue {
   activeProfile: WalletProfile | null;
   setActiveProfile: (profile: WalletProfile | null) => void;
   logout: () => void;
+  /** Set while a watch-only wallet is open: no keys, storage read-only. */
+  watchOnly: WatchOnlyTarget | null;
+  /** Open a wallet database or watch-only export read-only (desktop only). */
+  openWatchOnly: (filePath: string, identityKey?: string) => Promise<WatchOnlyTarget>;
+  closeWatchOnly: () => Promise<void>;
   adminOriginator: string;
   setPasswordRetriever: (retriever: (reason: string, test: (passwordCandidate: string) => boolean) => Promise<string>) => void;
   setRecoveryKeySaver: (saver: (key: number[]) => Promise<true>) => void;
@@ -144,13 +153,31 @@ export interface WalletContextValue {
   protocolRequests: any[];
   spendingRequests: any[];
   /**
-   * Pending STAS transfer authorization requests from external apps
-   * calling `POST /stas/transfer`. Surfaced by `StasTransferPermissionHandler`.
-   * Resolves the awaiting route handler when the user clicks Approve/Deny.
+   * Pending token transfers from apps calling `/stas/transfer`,
+   * `/dstas/transfer`, `/bsv-21/transfer` or `/peerToken/send` that no
+   * standing allowance covers. Surfaced by `TokenSpendPermissionHandler`.
    */
-  stasTransferRequests: StasTransferRequest[];
-  /** Resolves the head of `stasTransferRequests` and removes it from the queue. */
-  advanceStasTransferQueue: (approved: boolean) => void;
+  tokenSpendRequests: TokenSpendRequest[];
+  /** Approve a token spend, optionally with a standing allowance for the origin. */
+  grantTokenSpend: (requestID: string, allowance?: { ceiling: string; days: number }) => void;
+  denyTokenSpend: (requestID: string) => void;
+  /**
+   * Ask to move tokens from a first-party page (e.g. Peer Tokens). Resolves
+   * an approval to commit or release once an allowance or the user approves,
+   * null on deny.
+   */
+  requestTokenSpend: (args: Omit<TokenSpendRequest, 'requestID'>) => Promise<TokenSpendApproval | null>;
+  /** Live token spending authorizations for every origin. */
+  tokenSpendAllowances: TokenSpendAllowance[];
+  revokeTokenAllowance: (originator: string, protocol: TokenSpendProtocol, assetId: string) => void;
+  renewTokenAllowance: (originator: string, protocol: TokenSpendProtocol, assetId: string, days: number) => void;
+  /**
+   * Pending `POST /pair` requests from apps asking for a bridge capability
+   * token. Surfaced by `BridgePairingHandler`.
+   */
+  bridgePairingRequests: BridgePairingRequest[];
+  /** Resolves the head of `bridgePairingRequests` and removes it from the queue. */
+  advanceBridgePairingQueue: (approved: boolean) => void;
   groupPermissionRequests: GroupPermissionRequest[];
   counterpartyPermissionRequests: CounterpartyPermissionRequest[];
   startPactCooldownForCounterparty: (originator: string, counterparty: string) => void;
@@ -205,6 +232,9 @@ export const WalletContext = createContext<WalletContextValue>({
   activeProfile: null,
   setActiveProfile: () => {},
   logout: () => {},
+  watchOnly: null,
+  openWatchOnly: async () => { throw new Error('Not initialized') },
+  closeWatchOnly: async () => {},
   adminOriginator: ADMIN_ORIGINATOR,
   setPasswordRetriever: () => {},
   setRecoveryKeySaver: () => {},
@@ -213,8 +243,15 @@ export const WalletContext = createContext<WalletContextValue>({
   certificateRequests: [],
   protocolRequests: [],
   spendingRequests: [],
-  stasTransferRequests: [],
-  advanceStasTransferQueue: () => {},
+  tokenSpendRequests: [],
+  grantTokenSpend: () => {},
+  denyTokenSpend: () => {},
+  requestTokenSpend: async () => null,
+  tokenSpendAllowances: [],
+  revokeTokenAllowance: () => {},
+  renewTokenAllowance: () => {},
+  bridgePairingRequests: [],
+  advanceBridgePairingQueue: () => {},
   groupPermissionRequests: [],
   counterpartyPermissionRequests: [],
   startPactCooldownForCounterparty: () => {},
@@ -353,19 +390,26 @@ export const WalletContextProvider: React.FC<WalletContextProps> = ({
   // ---- React adapter hook — provides all the context values ----
   const walletServiceValues = useWalletService()
 
-  // ---- STAS transfer authorization queue (Apps API permission prompts) ----
-  // External apps hitting POST /stas/transfer get gated by a user prompt
-  // here. enqueueStasTransferRequest is exposed to the HTTP route handler
-  // via setStasTransferEnqueuer (parallel to setStasForHttpRoute).
-  const [stasTransferRequests, setStasTransferRequests] = useState<StasTransferRequest[]>([])
+  // ---- Token spend gate (Apps API transfer routes) ----
+  // The token routes in onWalletReady await the permission queue, which
+  // checks standing allowances and otherwise raises a TokenSpendRequest.
+  useEffect(() => {
+    setTokenSpendEnqueuer((args) => svc.permissionQueue.requestTokenSpend(args))
+    return () => setTokenSpendEnqueuer(null)
+  }, [svc])
+
+  // ---- Bridge pairing queue (POST /pair prompts) ----
+  // The route handler awaits the user's answer, and the main process mints
+  // the token on approval.
+  const [bridgePairingRequests, setBridgePairingRequests] = useState<BridgePairingRequest[]>([])
 
-  const enqueueStasTransferRequest = useCallback(
+  const enqueueBridgePairingRequest = useCallback(
     (
-      args: Omit<StasTransferRequest, 'requestId' | 'resolve'>
+      args: Omit<BridgePairingRequest, 'requestId' | 'resolve'>
     ): Promise<boolean> => {
       return new Promise<boolean>((resolve) => {
         const requestId = Math.random().toString(36).slice(2) + Date.now().toString(36)
-        setStasTransferRequests((q) => [
+        setBridgePairingRequests((q) => [
           ...q,
           { ...args, requestId, resolve },
         ])
@@ -374,8 +418,8 @@ export const WalletContextProvider: React.FC<WalletContextProps> = ({
     []
   )
 
-  const advanceStasTransferQueue = useCallback((approved: boolean) => {
-    setStasTransferRequests((q) => {
+  const advanceBridgePairingQueue = useCallback((approved: boolean) => {
+    setBridgePairingRequests((q) => {
       if (q.length === 0) return q
       const [head, ...rest] = q
       try { head.resolve(approved) } catch { /* ignore */ }
@@ -384,13 +428,13 @@ export const WalletContextProvider: React.FC<WalletContextProps> = ({
   }, [])
 
   useEffect(() => {
-    setStasTransferEnqueuer(enqueueStasTransferRequest)
-    return () => setStasTransferEnqueuer(null)
-  }, [enqueueStasTransferRequest])
+    setBridgePairingEnqueuer(enqueueBridgePairingRequest)
+    return () => setBridgePairingEnqueuer(null)
+  }, [enqueueBridgePairingRequest])
 
   // ---- onWalletReady integration (replaces Effect 14) ----
   // This stays in React because it depends on onWalletReady prop and activeProfile
-  const { managers, activeProfile } = walletServiceValues
+  const { managers, activeProfile, watchOnly } = walletServiceValues
   const recentOriginsRef = useRef<Map<string, number>>(new Map())
   const DEBOUNCE_TIME_MS = 5000
 
@@ -408,6 +452,11 @@ export const WalletContextProvider: React.FC<WalletContextProps> = ({
     if (!walletReady || !activeProfile?.id) {
       return
     }
+    // Apps never reach a watch-only wallet; the bridge keeps answering
+    // "wallet not ready" until a real wallet loads.
+    if (watchOnly) {
+      return
+    }
 
     console.log('[onWalletReady effect] guard passed — registering wallet ref')
 
@@ -445,6 +494,11 @@ export const WalletContextProvider: React.FC<WalletContextProps> = ({
       setStasForHttpRoute(null)
     }
 
+    // Bridge audit log lives in the same wallet DB as the STAS tables.
+    setBridgeAuditTarget(stas?.keyDeriver
+      ? { identityKey: stas.keyDeriver.identityKey, chain: stas.keyDeriver.chain }
+      : null)
+
     // Parallel injection for the BSV-21 register-by-txid demo fast-path.
     // The primary discovery mechanism is bsv21Discovery.scan() — fired by
     // the AssetsPage Refresh button — which queries the 1Sat overlay's
@@ -464,20 +518,24 @@ export const WalletContextProvider: React.FC<WalletContextProps> = ({
         // TokenProtocolRegistry — powers the /dstas/transfer + /bsv-21/transfer
         // legacy address-send routes (same adapters the Assets page Send uses).
         tokens: stas.tokens,
+        // Batch payouts for /tokens/batch-transfer (same service as the Assets page).
+        batch: stas.batch,
       })
     } else {
       setPeerTokensForHttpRoute(null)
     }
 
     // No cleanup — IPC listener is permanent, wallet ref is swapped not re-registered
-  }, [managers?.permissionsManager, activeProfile?.id, onWalletReady])
+  }, [managers?.permissionsManager, activeProfile?.id, onWalletReady, watchOnly])
 
   // STAS auto-scan: one shot when the raw wallet + STAS services first appear.
   // The dev-only Dashboard panel exposes a manual re-scan.
   useEffect(() => {
     const stas = walletServiceValues.stas
     const wallet = walletServiceValues.wallet
-    if (!wallet || !stas?.discovery) return
+    // A scan derives receive keys and internalizes what it finds; a
+    // watch-only wallet can do neither.
+    if (!wallet || !stas?.discovery || watchOnly) return
 
     let cancelled = false
     ;(async () => {
@@ -491,14 +549,19 @@ export const WalletContextProvider: React.FC<WalletContextProps> = ({
       }
     })()
     return () => { cancelled = true }
-  }, [walletServiceValues.wallet, walletServiceValues.stas])
+  }, [walletServiceValues.wallet, walletServiceValues.stas, watchOnly])
+
+  // Incoming peer-token offers → apps on GET /events.
+  useEffect(() => forwardIncomingToBridge({
+    peerTokens: watchOnly ? undefined : walletServiceValues.stas?.peerTokens,
+  }), [walletServiceValues.stas?.peerTokens, watchOnly])
 
   // ---- Context value ----
   const contextValue = useMemo<WalletContextValue>(() => ({
     ...walletServiceValues,
-    stasTransferRequests,
-    advanceStasTransferQueue,
-  }), [walletServiceValues, stasTransferRequests, advanceStasTransferQueue])
+    bridgePairingRequests,
+    advanceBridgePairingQueue,
+  }), [walletServiceValues, bridgePairingRequests, advanceBridgePairingQueue])
 
   return (
     <WalletContext.Provider value={contextValue}>
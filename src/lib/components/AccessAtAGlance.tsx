@@ -52,11 +52,12 @@ interface BasketAccessCache {
 const CACHE_KEY_PREFIX = 'basket_access_cache_'
 const CACHE_EXPIRY_MS = 5 * 60 * 1000 // 5 minutes
 
-const getCacheKey = (originator: string) => `${CACHE_KEY_PREFIX}${originator}`
+/** Scoped to the wallet's identity: another wallet on this machine reads none of it. */
+const getCacheKey = (identityKey: string, originator: string) => `${CACHE_KEY_PREFIX}${identityKey}_${originator}`
 
-const getCachedBasketAccess = (originator: string): string[] | null => {
+const getCachedBasketAccess = (identityKey: string, originator: string): string[] | null => {
   try {
-    const cached = localStorage.getItem(getCacheKey(originator))
+    const cached = localStorage.getItem(getCacheKey(identityKey, originator))
     if (!cached) return null
 
     const parsedCache: BasketAccessCache = JSON.parse(cached)
@@ -64,13 +65,13 @@ const getCachedBasketAccess = (originator: string): string[] | null => {
 
     // Check if cache is expired
     if (now - parsedCache.timestamp > CACHE_EXPIRY_MS) {
-      localStorage.removeItem(getCacheKey(originator))
+      localStorage.removeItem(getCacheKey(identityKey, originator))
       return null
     }
 
     // Verify originator matches (extra safety)
     if (parsedCache.originator !== originator) {
-      localStorage.removeItem(getCacheKey(originator))
+      localStorage.removeItem(getCacheKey(identityKey, originator))
       return null
     }
 
@@ -81,14 +82,14 @@ const getCachedBasketAccess = (originator: string): string[] | null => {
   }
 }
 
-const setCachedBasketAccess = (originator: string, data: string[]) => {
+const setCachedBasketAccess = (identityKey: string, originator: string, data: string[]) => {
   try {
     const cacheData: BasketAccessCache = {
       data,
       timestamp: Date.now(),
       originator
     }
-    localStorage.setItem(getCacheKey(originator), JSON.stringify(cacheData))
+    localStorage.setItem(getCacheKey(identityKey, originator), JSON.stringify(cacheData))
   } catch (error) {
     console.warn('Error saving basket access cache:', error)
   }
@@ -107,7 +108,8 @@ const AccessAtAGlance: React.FC<AccessAtAGlanceProps> = ({
   const { t } = useTranslation()
 
   /* ------------- Context / state ---------------------------------- */
-  const { managers, adminOriginator } = useContext(WalletContext)
+  const { managers, adminOriginator, activeProfile } = useContext(WalletContext)
+  const identityKey = activeProfile?.identityKey
   const permissionsManager = managers.permissionsManager
 
   const [recentBasketAccess, setRecentBasketAccess] = useState<string[]>([])
@@ -145,14 +147,14 @@ const AccessAtAGlance: React.FC<AccessAtAGlanceProps> = ({
 
   /* ------------- Effect: load cached data immediately ------------- */
   useEffect(() => {
-    if (!originator) return
+    if (!originator || !identityKey) return
 
     // Load cached data immediately for instant feedback
-    const cachedData = getCachedBasketAccess(originator)
+    const cachedData = getCachedBasketAccess(identityKey, originator)
     if (cachedData) {
       setRecentBasketAccess(cachedData)
     }
-  }, [originator])
+  }, [originator, identityKey])
 
   /* ------------- Effect: load fresh basket access ----------------- */
   useEffect(() => {
@@ -184,7 +186,7 @@ const AccessAtAGlance: React.FC<AccessAtAGlanceProps> = ({
         if (!controller.signal.aborted) {
           setRecentBasketAccess(filteredResults)
           // Cache the fresh data
-          setCachedBasketAccess(originator, filteredResults)
+          if (identityKey) setCachedBasketAccess(identityKey, originator, filteredResults)
         }
       } catch (err: unknown) {
         if ((err as Error).name !== 'AbortError')
@@ -195,7 +197,7 @@ const AccessAtAGlance: React.FC<AccessAtAGlanceProps> = ({
     }, 0)
 
     return () => controller.abort()
-  }, [originator, adminOriginator, permissionsManager, processActionsInChunks])
+  }, [originator, adminOriginator, permissionsManager, processActionsInChunks, identityKey])
 
   /* ------------- Memo: path for manage-app link ------------------- */
   const manageAppPath = useMemo(
@@ -0,0 +1,123 @@
+/**
+ * ApprovalWindow — optionally shows permission prompts in a compact window of
+ * their own instead of over the dashboard.
+ *
+ * When enabled (Settings → Approval window) and a prompt is pending, a blank
+ * child window is opened with `window.open` and the prompt handlers are
+ * portalled into it. They keep running in this renderer, so they read the same
+ * permission queue as always; only their DOM lives in the other window. The
+ * window closes once every queue is empty. If the user closes it early, the
+ * prompts fall back to the dashboard.
+ *
+ * The main process allows exactly this window (matched by name) and raises it
+ * instead of the dashboard when a prompt needs attention.
+ */
+
+import React, { useContext, useEffect, useMemo, useState, useSyncExternalStore } from 'react'
+import { createPortal } from 'react-dom'
+import createCache from '@emotion/cache'
+import { CacheProvider } from '@emotion/react'
+import { CssBaseline, ThemeProvider, type Theme } from '@mui/material'
+import { WalletContext } from '../../WalletContext'
+
+/** Must match APPROVAL_WINDOW_NAME in electron/bridgeDispatcher.ts. */
+const APPROVAL_WINDOW_NAME = 'bsv-desktop-approvals'
+const STORAGE_KEY = 'approvalWindow'
+
+const listeners = new Set<() => void>()
+
+function approvalWindowEnabled(): boolean {
+  return typeof localStorage !== 'undefined' && localStorage.getItem(STORAGE_KEY) === 'on'
+}
+
+export function setApprovalWindowEnabled(enabled: boolean) {
+  localStorage.setItem(STORAGE_KEY, enabled ? 'on' : 'off')
+  listeners.forEach(l => l())
+}
+
+export function useApprovalWindowEnabled(): boolean {
+  return useSyncExternalStore(
+    (listener) => {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    },
+    approvalWindowEnabled
+  )
+}
+
+/** Styles and MUI portals (dialogs, menus) target the child window's document. */
+const ChildDocumentTheme: React.FC<{ doc: Document; children: React.ReactNode }> = ({ doc, children }) => {
+  const cache = useMemo(() => createCache({ key: 'approvals', container: doc.head }), [doc])
+  const inChild = (outer: Theme): Theme => ({
+    ...outer,
+    components: {
+      ...outer.components,
+      MuiModal: { defaultProps: { container: doc.body } },
+      MuiDialog: { defaultProps: { container: doc.body } },
+      MuiPopover: { defaultProps: { container: doc.body } },
+      MuiPopper: { defaultProps: { container: doc.body } },
+    },
+  })
+  return (
+    <CacheProvider value={cache}>
+      <ThemeProvider theme={inChild}>
+        <CssBaseline />
+        {children}
+      </ThemeProvider>
+    </CacheProvider>
+  )
+}
+
+const ApprovalWindow: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const enabled = useApprovalWindowEnabled()
+  const {
+    basketRequests,
+    certificateRequests,
+    protocolRequests,
+    spendingRequests,
+    groupPermissionRequests,
+    counterpartyPermissionRequests,
+    tokenSpendRequests,
+    bridgePairingRequests,
+  } = useContext(WalletContext)
+  const [child, setChild] = useState<Window | null>(null)
+
+  const pending = [
+    basketRequests,
+    certificateRequests,
+    protocolRequests,
+    spendingRequests,
+    groupPermissionRequests,
+    counterpartyPermissionRequests,
+    tokenSpendRequests,
+    bridgePairingRequests,
+  ].some(queue => queue?.length > 0)
+
+  // The main process decides which window to raise for prompts.
+  useEffect(() => {
+    window.electronAPI?.bridge?.setApprovalWindow?.(enabled)
+  }, [enabled])
+
+  useEffect(() => {
+    if (!enabled || !pending) return
+    const win = window.open('about:blank', APPROVAL_WINDOW_NAME)
+    if (!win) return
+    win.document.title = 'BSV Desktop — Approvals'
+    const onClosed = () => setChild(null)
+    win.addEventListener('pagehide', onClosed)
+    setChild(win)
+    return () => {
+      win.removeEventListener('pagehide', onClosed)
+      win.close()
+      setChild(null)
+    }
+  }, [enabled, pending])
+
+  if (!child || child.closed) return <>{children}</>
+  return createPortal(
+    <ChildDocumentTheme doc={child.document}>{children}</ChildDocumentTheme>,
+    child.document.body
+  )
+}
+
+export default ApprovalWindow
@@ -44,6 +44,7 @@ const BasketChip: React.FC<BasketChipProps> = ({
     managers,
     settings,
     adminOriginator,
+    activeProfile,
   } = useContext(WalletContext)
 
   const { t } = useTranslation()
@@ -62,7 +63,7 @@ const BasketChip: React.FC<BasketChipProps> = ({
   const [documentationURL, setDocumentationURL] = useState('https://docs.bsvblockchain.org')
 
   useEffect(() => {
-    const cacheKey = `basketInfo_${basketId}`
+    const cacheKey = `basketInfo_${basketId}+${activeProfile?.identityKey}`
 
     const fetchAndCacheData = async () => {
       // Try to load data from cache
@@ -115,7 +116,7 @@ const BasketChip: React.FC<BasketChipProps> = ({
     }
 
     fetchAndCacheData()
-  }, [basketId, settings])
+  }, [basketId, settings, activeProfile?.identityKey])
 
   return (
     <Stack direction="column" spacing={1} alignItems="flex-start">
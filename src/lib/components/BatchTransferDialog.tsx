@@ -0,0 +1,249 @@
+import React, { useEffect, useState } from 'react'
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material'
+import UploadFileIcon from '@mui/icons-material/UploadFile'
+import type { TokenProtocolId } from '../services/tokens'
+import { parseBatchCsv, type BatchRow, type BatchRowError } from '../services/tokens/batch/batchRows'
+import type { BatchPlan } from '../services/tokens/batch/planBatchTransfer'
+import type {
+  TokenBatchResult,
+  TokenBatchTransferService
+} from '../services/tokens/batch/TokenBatchTransferService'
+
+interface BatchTransferDialogProps {
+  open: boolean
+  onClose: () => void
+  batch: TokenBatchTransferService | undefined
+  protocol: TokenProtocolId
+  /** The token, as `loadPeerHoldings` names it. */
+  assetId: string
+  symbol: string
+  /** Called once a batch has run, e.g. to reload holdings. */
+  onSent: (result: TokenBatchResult) => void
+}
+
+/**
+ * Airdrop / payroll for one token: paste or upload `recipient,amount` rows,
+ * review the planned transactions, fees and totals, then send and get a
+ * per-row report. Recipients are addresses or identity keys (peer channel).
+ */
+const BatchTransferDialog: React.FC<BatchTransferDialogProps> = ({
+  open,
+  onClose,
+  batch,
+  protocol,
+  assetId,
+  symbol,
+  onSent
+}) => {
+  const [csv, setCsv] = useState('')
+  const [rows, setRows] = useState<BatchRow[]>([])
+  const [rowErrors, setRowErrors] = useState<BatchRowError[]>([])
+  const [plan, setPlan] = useState<BatchPlan | null>(null)
+  const [result, setResult] = useState<TokenBatchResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setCsv('')
+    setRows([])
+    setRowErrors([])
+    setPlan(null)
+    setResult(null)
+    setError(null)
+  }, [open])
+
+  const args = { protocol, assetId, rows }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setCsv(await file.text())
+    setPlan(null)
+  }
+
+  const handlePreview = async () => {
+    if (!batch) return
+    const parsed = parseBatchCsv(csv)
+    setRows(parsed.rows)
+    setRowErrors(parsed.errors)
+    setPlan(null)
+    setError(null)
+    if (parsed.errors.length > 0) return
+    setBusy(true)
+    try {
+      setPlan(await batch.preview({ protocol, assetId, rows: parsed.rows }))
+    } catch (err: any) {
+      setError(err?.message || String(err))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleSend = async () => {
+    if (!batch || !plan?.ok) return
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await batch.execute(args, plan)
+      setResult(res)
+      onSent(res)
+    } catch (err: any) {
+      setError(err?.message || String(err))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const unplanned = plan?.rows.filter(r => r.tx === undefined) ?? []
+  const sentCount = result?.results.filter(r => r.ok).length ?? 0
+
+  return (
+    <Dialog open={open} onClose={busy ? undefined : onClose} maxWidth='md' fullWidth>
+      <DialogTitle>Batch send {symbol}</DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ mb: 2 }}>
+          One <code>recipient,amount</code> row per line. A recipient is an address, or an identity
+          key to deliver over the peer channel; amounts are raw token units. Rows are packed into as
+          few transactions as {protocol === 'bsv-21' ? 'BSV-21' : protocol.toUpperCase()} allows.
+        </DialogContentText>
+        <Stack spacing={2}>
+          {!result && (
+            <>
+              <TextField
+                label='Rows'
+                placeholder={'address,amount\n1BoatSLRHtKNngkdXEeobR76b53LETtpyT,100'}
+                value={csv}
+                onChange={e => {
+                  setCsv(e.target.value)
+                  setPlan(null)
+                }}
+                disabled={busy}
+                multiline
+                minRows={6}
+                maxRows={14}
+                fullWidth
+                InputProps={{ sx: { fontFamily: 'monospace', fontSize: 13 } }}
+              />
+              <Box>
+                <Button component='label' size='small' startIcon={<UploadFileIcon />} disabled={busy}>
+                  Upload CSV
+                  <input
+                    hidden
+                    type='file'
+                    accept='.csv,text/csv,text/plain'
+                    onChange={e => {
+                      handleFile(e.target.files?.[0])
+                      e.target.value = ''
+                    }}
+                  />
+                </Button>
+              </Box>
+            </>
+          )}
+
+          {rowErrors.length > 0 && (
+            <Alert severity='error'>
+              {rowErrors.slice(0, 10).map(e => (
+                <Typography key={`${e.line}-${e.message}`} variant='body2'>
+                  {e.line > 0 ? `Line ${e.line}: ` : ''}{e.message}
+                </Typography>
+              ))}
+              {rowErrors.length > 10 && (
+                <Typography variant='body2'>…and {rowErrors.length - 10} more</Typography>
+              )}
+            </Alert>
+          )}
+
+          {plan && !result && (
+            <Alert severity={plan.ok ? 'info' : 'warning'}>
+              <Typography variant='body2'>
+                {rows.length} {rows.length === 1 ? 'recipient' : 'recipients'} · total{' '}
+                {BigInt(plan.total).toLocaleString()} of {BigInt(plan.balance).toLocaleString()} held
+              </Typography>
+              <Typography variant='body2'>
+                {plan.txs.length} {plan.txs.length === 1 ? 'transaction' : 'transactions'}
+                {plan.txs.some(t => t.kind === 'merge') &&
+                  ` (${plan.txs.filter(t => t.kind === 'merge').length} to merge inputs first)`}
+                {' '}· estimated fee ~{plan.estimatedFee.toLocaleString()} sats
+              </Typography>
+              {unplanned.map(r => (
+                <Typography key={r.line} variant='body2'>
+                  Line {r.line}: {r.reason}
+                </Typography>
+              ))}
+            </Alert>
+          )}
+
+          {result && (
+            <>
+              <Alert severity={result.ok ? 'success' : 'warning'}>
+                Sent {sentCount} of {result.results.length} rows in {result.txids.length}{' '}
+                {result.txids.length === 1 ? 'transaction' : 'transactions'}.
+              </Alert>
+              <Table size='small'>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Line</TableCell>
+                    <TableCell>Recipient</TableCell>
+                    <TableCell align='right'>Amount</TableCell>
+                    <TableCell>Result</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {result.results.map(r => (
+                    <TableRow key={r.line}>
+                      <TableCell>{r.line}</TableCell>
+                      <TableCell sx={{ fontFamily: 'monospace', fontSize: 12, wordBreak: 'break-all' }}>
+                        {r.recipient.length > 24 ? `${r.recipient.substring(0, 24)}…` : r.recipient}
+                      </TableCell>
+                      <TableCell align='right'>{BigInt(r.amount).toLocaleString()}</TableCell>
+                      <TableCell sx={{ wordBreak: 'break-all' }}>
+                        <Typography variant='caption' color={r.ok ? 'success.main' : 'error'}>
+                          {r.ok ? `✓ ${r.txid ? `${r.txid.substring(0, 16)}…` : '(pending)'}` : r.reason}
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+
+          {error && <Alert severity='error'>{error}</Alert>}
+        </Stack>
+      </DialogContent>
+      <DialogActions sx={{ p: 2 }}>
+        <Button onClick={onClose} disabled={busy}>{result ? 'Done' : 'Cancel'}</Button>
+        {!result && !plan?.ok && (
+          <Button variant='outlined' onClick={handlePreview} disabled={busy || !batch || !csv.trim()}>
+            {busy ? 'Planning…' : 'Preview'}
+          </Button>
+        )}
+        {!result && plan?.ok && (
+          <Button variant='contained' onClick={handleSend} disabled={busy}>
+            {busy ? 'Sending…' : `Send ${plan.txs.length} ${plan.txs.length === 1 ? 'transaction' : 'transactions'}`}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+export default BatchTransferDialog
@@ -0,0 +1,82 @@
+/**
+ * BridgePairingHandler — modal that asks the user whether an external app
+ * may pair with the wallet's HTTP bridge via POST /pair.
+ *
+ * Hooks into WalletContext's `bridgePairingRequests` queue (populated by the
+ * route handler in onWalletReady.ts). Renders the head of the queue;
+ * Approve/Deny resolves the request and advances. Approving lets the main
+ * process mint a capability token bound to the app's origin.
+ */
+
+import React, { useContext } from 'react'
+import {
+  Alert,
+  DialogContent,
+  DialogActions,
+  Button,
+  Stack,
+  Typography,
+  Box,
+} from '@mui/material'
+import LinkIcon from '@mui/icons-material/Link'
+import CustomDialog from '../CustomDialog'
+import { WalletContext } from '../../WalletContext'
+
+const BridgePairingHandler: React.FC = () => {
+  const { bridgePairingRequests, advanceBridgePairingQueue } = useContext(WalletContext)
+
+  if (!bridgePairingRequests || bridgePairingRequests.length === 0) {
+    return null
+  }
+
+  const req = bridgePairingRequests[0]
+  const existing = req.existingPairing
+
+  const onDeny = () => advanceBridgePairingQueue(false)
+  const onApprove = () => advanceBridgePairingQueue(true)
+
+  return (
+    <CustomDialog open onClose={onDeny} title='Pair app with wallet' maxWidth='sm' fullWidth>
+      <DialogContent dividers>
+        <Stack spacing={2}>
+          <Box>
+            <Typography variant='caption' color='text.secondary'>Requested by</Typography>
+            <Typography
+              variant='body2'
+              sx={{ fontFamily: 'monospace', wordBreak: 'break-all', fontWeight: 600 }}
+            >
+              {req.originator}
+            </Typography>
+          </Box>
+
+          {existing && (
+            <Alert severity='warning'>
+              This origin is already paired (since {new Date(existing.createdAt).toLocaleString()}
+              {existing.lastUsedAt ? `, last used ${new Date(existing.lastUsedAt).toLocaleString()}` : ''}).
+              Approving replaces its token: the app using the current pairing is signed out and must
+              pair again. Deny unless you asked this app to pair again yourself.
+            </Alert>
+          )}
+
+          <Typography variant='body2'>
+            This app is asking for a pairing token so it can send requests to
+            your wallet. Only approve apps you opened yourself. Individual
+            actions will still ask for your permission as usual.
+          </Typography>
+
+          <Typography variant='caption' color='text.secondary'>
+            You can revoke the pairing at any time from the app's page under Apps.
+          </Typography>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onDeny} color='inherit'>Deny</Button>
+        <Button onClick={onApprove} variant='contained' startIcon={<LinkIcon />}>
+          {existing ? 'Replace pairing' : 'Pair app'}
+        </Button>
+      </DialogActions>
+    </CustomDialog>
+  )
+}
+
+export default BridgePairingHandler
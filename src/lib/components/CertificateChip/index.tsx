@@ -94,7 +94,7 @@ const CertificateChip: React.FC<CertificateChipProps> = ({
         const registryOperators: string[] = settings.trustSettings.trustedCertifiers.map(
           (x: any) => x.identityKey
         )
-        const cacheKey = `certData_${certType}_${registryOperators.join('_')}+${activeProfile.id}`
+        const cacheKey = `certData_${certType}_${registryOperators.join('_')}+${activeProfile.identityKey}`
         const cachedData = window.localStorage.getItem(cacheKey)
         if(cachedData)
         {
@@ -53,7 +53,7 @@ const CounterpartyChip: React.FC<CounterpartyChipProps> = ({
   const [avatarError, setAvatarError] = useState(false)
   const [badgeError, setBadgeError] = useState(false)
 
-  const { managers, adminOriginator } = useContext(WalletContext)
+  const { managers, adminOriginator, activeProfile } = useContext(WalletContext)
 
   // Handle image loading errors
   const handleAvatarError = () => {
@@ -71,7 +71,7 @@ const CounterpartyChip: React.FC<CounterpartyChipProps> = ({
       let actualCounterpartyKey = counterpartyKey // Store the actual key
       
       // Initial load from local storage for a specific counterparty
-      const cachedIdentity = window.localStorage.getItem(`identity_${counterpartyKey}`)
+      const cachedIdentity = window.localStorage.getItem(`identity_${counterpartyKey}+${activeProfile?.identityKey}`)
       if (cachedIdentity) {
         setIdentity(JSON.parse(cachedIdentity))
       }
@@ -94,7 +94,7 @@ const CounterpartyChip: React.FC<CounterpartyChipProps> = ({
         if (results && results.length > 0) {
           setIdentity(results[0])
           // Update component state and cache in local storage
-          window.localStorage.setItem(`identity_${actualCounterpartyKey}`, JSON.stringify(results[0]))
+          window.localStorage.setItem(`identity_${actualCounterpartyKey}+${activeProfile?.identityKey}`, JSON.stringify(results[0]))
         }
       } catch (e) {
         console.error(e)
@@ -103,7 +103,7 @@ const CounterpartyChip: React.FC<CounterpartyChipProps> = ({
 
     // Execute the loading function with the initial counterparty
     loadIdentity(counterparty)
-  }, [counterparty, managers.permissionsManager, adminOriginator])
+  }, [counterparty, managers.permissionsManager, adminOriginator, activeProfile?.identityKey])
 
   return (
     <>
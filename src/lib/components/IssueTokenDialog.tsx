@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from 'react'
+import {
+  Alert,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  FormControlLabel,
+  Stack,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography
+} from '@mui/material'
+import type {
+  TokenIssuanceService,
+  TokenIssueRequest,
+  TokenIssueResult
+} from '../services/tokens/issuance/TokenIssuanceService'
+
+interface IssueTokenDialogProps {
+  open: boolean
+  onClose: () => void
+  issuance: TokenIssuanceService | undefined
+  /** Called after a successful mint, e.g. to reload holdings. */
+  onIssued: (result: TokenIssueResult) => void
+}
+
+const WHOLE_NUMBER = /^[1-9]\d*$/
+
+/**
+ * Mint a new token from this wallet: STAS, DSTAS (with optional freeze /
+ * confiscation authority held by the wallet) or BSV-21. The minted supply
+ * lands in the wallet's own holdings, registered like any received token.
+ */
+const IssueTokenDialog: React.FC<IssueTokenDialogProps> = ({ open, onClose, issuance, onIssued }) => {
+  const [protocol, setProtocol] = useState<TokenIssueRequest['protocol']>('stas')
+  const [name, setName] = useState('')
+  const [symbol, setSymbol] = useState('')
+  const [supply, setSupply] = useState('')
+  const [freeze, setFreeze] = useState(false)
+  const [confiscation, setConfiscation] = useState(false)
+  const [decimals, setDecimals] = useState('')
+  const [icon, setIcon] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [result, setResult] = useState<TokenIssueResult | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setName('')
+    setSymbol('')
+    setSupply('')
+    setFreeze(false)
+    setConfiscation(false)
+    setDecimals('')
+    setIcon('')
+    setResult(null)
+  }, [open])
+
+  const isB21 = protocol === 'bsv-21'
+  const supplyInvalid = supply !== '' && (!WHOLE_NUMBER.test(supply) || (!isB21 && !Number.isSafeInteger(Number(supply))))
+  const decimalsInvalid = decimals !== '' && !(/^\d+$/.test(decimals) && Number(decimals) <= 18)
+  const ready = !!issuance && !!symbol.trim() && !!supply && !supplyInvalid && !decimalsInvalid &&
+    (isB21 || !!name.trim())
+
+  const handleIssue = async () => {
+    if (!issuance || !ready) return
+    let req: TokenIssueRequest
+    if (protocol === 'bsv-21') {
+      req = {
+        protocol,
+        symbol: symbol.trim(),
+        supply,
+        decimals: decimals === '' ? undefined : Number(decimals),
+        icon: icon.trim() || undefined
+      }
+    } else if (protocol === 'dstas') {
+      req = { protocol, name: name.trim(), symbol: symbol.trim(), supply: Number(supply), freeze, confiscation }
+    } else {
+      req = { protocol, name: name.trim(), symbol: symbol.trim(), supply: Number(supply) }
+    }
+    setBusy(true)
+    setResult(null)
+    try {
+      const res = await issuance.issue(req)
+      setResult(res)
+      if (res.ok) onIssued(res)
+    } catch (err: any) {
+      setResult({ ok: false, protocol, reason: err?.message || String(err) })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={busy ? undefined : onClose} maxWidth='sm' fullWidth>
+      <DialogTitle>Issue token</DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ mb: 2 }}>
+          Mint a new token with this wallet as its issuer. The whole supply is issued to your
+          own holdings; the wallet covers the BSV fees.
+        </DialogContentText>
+        <Stack spacing={2}>
+          <ToggleButtonGroup
+            size='small'
+            exclusive
+            value={protocol}
+            onChange={(_, v) => v && setProtocol(v)}
+            disabled={busy || result?.ok}
+          >
+            <ToggleButton value='stas'>STAS</ToggleButton>
+            <ToggleButton value='dstas'>DSTAS</ToggleButton>
+            <ToggleButton value='bsv-21'>BSV-21</ToggleButton>
+          </ToggleButtonGroup>
+          {!isB21 && (
+            <TextField
+              label='Name'
+              value={name}
+              onChange={e => setName(e.target.value)}
+              disabled={busy}
+              fullWidth
+              size='small'
+            />
+          )}
+          <TextField
+            label='Symbol'
+            value={symbol}
+            onChange={e => setSymbol(e.target.value)}
+            disabled={busy}
+            fullWidth
+            size='small'
+          />
+          <TextField
+            label={isB21 ? 'Supply (raw units)' : 'Supply (token satoshis)'}
+            value={supply}
+            onChange={e => setSupply(e.target.value)}
+            error={supplyInvalid}
+            helperText={supplyInvalid
+              ? 'A positive whole number'
+              : isB21
+                ? 'Raw units; with decimals 2, a supply of 10000 is 100.00 tokens'
+                : 'One token per satoshi — the contract locks this many satoshis'}
+            disabled={busy}
+            fullWidth
+            size='small'
+          />
+          {protocol === 'dstas' && (
+            <Stack>
+              <FormControlLabel
+                control={<Checkbox checked={freeze} onChange={e => setFreeze(e.target.checked)} disabled={busy} />}
+                label='Freezable — this wallet can freeze and unfreeze holders’ outputs'
+              />
+              <FormControlLabel
+                control={<Checkbox checked={confiscation} onChange={e => setConfiscation(e.target.checked)} disabled={busy} />}
+                label='Confiscatable — this wallet can confiscate holders’ outputs'
+              />
+            </Stack>
+          )}
+          {isB21 && (
+            <>
+              <TextField
+                label='Decimals (optional)'
+                value={decimals}
+                onChange={e => setDecimals(e.target.value)}
+                error={decimalsInvalid}
+                helperText={decimalsInvalid ? '0 to 18' : undefined}
+                disabled={busy}
+                fullWidth
+                size='small'
+              />
+              <TextField
+                label='Icon (optional)'
+                placeholder='Outpoint or URL'
+                value={icon}
+                onChange={e => setIcon(e.target.value)}
+                disabled={busy}
+                fullWidth
+                size='small'
+              />
+            </>
+          )}
+          {result?.ok && (
+            <Alert severity='success'>
+              <Typography variant='body2' sx={{ wordBreak: 'break-all' }}>
+                Issued. Token id {result.tokenId}
+                {result.contractTxid && ` · contract ${result.contractTxid}`}
+              </Typography>
+            </Alert>
+          )}
+          {result && !result.ok && (
+            <Alert severity='error'>
+              <Typography variant='body2' sx={{ wordBreak: 'break-all' }}>
+                {result.reason ?? 'issuance failed'}
+                {result.contractTxid && ` (contract ${result.contractTxid} still holds the supply satoshis)`}
+              </Typography>
+            </Alert>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions sx={{ p: 2 }}>
+        <Button onClick={onClose} disabled={busy}>{result?.ok ? 'Done' : 'Cancel'}</Button>
+        <Button variant='contained' onClick={handleIssue} disabled={busy || !ready || result?.ok}>
+          {busy ? 'Issuing…' : 'Issue'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+export default IssueTokenDialog
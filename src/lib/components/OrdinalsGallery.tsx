@@ -0,0 +1,330 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material'
+import SendIcon from '@mui/icons-material/Send'
+import OpenInNewIcon from '@mui/icons-material/OpenInNew'
+import VerifiedIcon from '@mui/icons-material/Verified'
+import GppBadIcon from '@mui/icons-material/GppBad'
+import HelpOutlineIcon from '@mui/icons-material/HelpOutline'
+import type { StasServices } from '../services/WalletService'
+import {
+  MAX_PREVIEW_BYTES,
+  contentDataUrl,
+  contentText,
+  previewKind,
+  sandboxedHtmlDocument,
+  type OrdinalHolding,
+  type OrdinalInscription
+} from '../services/tokens'
+import type { OutpointVerification } from '../services/tokens/TokenVerificationService'
+
+interface OrdinalsGalleryProps {
+  ordinals: OrdinalHolding[]
+  /** Back-to-Genesis verdicts, keyed by `${txid}_${vout}`. */
+  verifications: Map<string, OutpointVerification>
+  stas: StasServices | null | undefined
+  watchOnly: boolean
+  onReverify: (ordinal: OrdinalHolding) => void
+  onSent: () => void
+}
+
+/** Longest text body rendered in a card before it's cut off. */
+const MAX_PREVIEW_CHARS = 2000
+
+function isSendable(o: OrdinalHolding): boolean {
+  return o.spendable && o.satoshis === 1 && !!o.scriptHex && !!o.brc42KeyId
+}
+
+/**
+ * The inscription body, rendered inert: images via `<img>`, text as text and
+ * HTML in a sandboxed iframe with every capability off and no network access
+ * (sandboxedHtmlDocument). Content held at a
+ * transferred (bare P2PKH) output is read from the origin tx on first render.
+ */
+function InscriptionPreview({ ordinal, stas }: { ordinal: OrdinalHolding; stas: StasServices | null | undefined }) {
+  const [inscription, setInscription] = useState<OrdinalInscription | null | undefined>(ordinal.inscription)
+
+  useEffect(() => {
+    if (ordinal.inscription) {
+      setInscription(ordinal.inscription)
+      return
+    }
+    if (!stas?.ordinalsDiscovery) {
+      setInscription(null)
+      return
+    }
+    let cancelled = false
+    setInscription(undefined)
+    stas.ordinalsDiscovery.loadInscription(ordinal.origin).then(i => {
+      if (!cancelled) setInscription(i)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [ordinal.origin, ordinal.inscription, stas?.ordinalsDiscovery])
+
+  const contentType = inscription?.contentType || ordinal.contentType
+  const kind = previewKind(contentType)
+  const tooLarge = !!inscription && inscription.contentHex.length / 2 > MAX_PREVIEW_BYTES
+  const text = useMemo(
+    () => (inscription && !tooLarge && kind !== 'image' ? contentText(inscription) : ''),
+    [inscription, tooLarge, kind]
+  )
+
+  const frame = {
+    height: 180,
+    bgcolor: 'action.hover',
+    borderRadius: 1,
+    overflow: 'hidden',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center'
+  }
+
+  if (inscription === undefined) {
+    return <Box sx={frame}><CircularProgress size={20} /></Box>
+  }
+  if (!inscription || tooLarge || kind === 'unsupported') {
+    return (
+      <Box sx={frame}>
+        <Typography variant='caption' color='text.secondary' textAlign='center' sx={{ px: 1 }}>
+          {!inscription ? 'Content unavailable' : tooLarge ? 'Too large to preview' : 'No preview'}
+          <br />
+          {contentType || 'unknown type'}
+        </Typography>
+      </Box>
+    )
+  }
+  if (kind === 'image') {
+    return (
+      <Box sx={frame}>
+        <img
+          src={contentDataUrl(inscription)}
+          alt={ordinal.origin}
+          style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain', imageRendering: 'pixelated' }}
+        />
+      </Box>
+    )
+  }
+  if (kind === 'html') {
+    return (
+      <Box sx={frame}>
+        <iframe
+          title={ordinal.origin}
+          sandbox=''
+          referrerPolicy='no-referrer'
+          srcDoc={sandboxedHtmlDocument(text)}
+          style={{ width: '100%', height: '100%', border: 0, background: '#fff' }}
+        />
+      </Box>
+    )
+  }
+  return (
+    <Box sx={{ ...frame, alignItems: 'flex-start', justifyContent: 'flex-start' }}>
+      <Box
+        component='pre'
+        sx={{ m: 0, p: 1, fontSize: 11, whiteSpace: 'pre-wrap', wordBreak: 'break-word', overflow: 'hidden' }}
+      >
+        {text.length > MAX_PREVIEW_CHARS ? `${text.slice(0, MAX_PREVIEW_CHARS)}…` : text}
+      </Box>
+    </Box>
+  )
+}
+
+/**
+ * Provenance chip for one ordinal. Authentic means the satoshi was walked
+ * back to the output that inscribed it; not authentic means the walk reached
+ * an uninscribed satoshi (nothing was ever inscribed on it).
+ */
+function ProvenanceChip({ verification, onReverify }: { verification?: OutpointVerification; onReverify: () => void }) {
+  if (!verification) {
+    return <Chip size='small' variant='outlined' icon={<CircularProgress size={12} />} label='Verifying…' />
+  }
+  const reverify = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    onReverify()
+  }
+  if (verification.result === 'authentic') {
+    const depth = verification.genesisDepth ?? 0
+    return (
+      <Tooltip
+        title={`Traced to its inscription ${verification.genesis ?? ''}${depth ? ` · ${depth} ${depth === 1 ? 'transfer' : 'transfers'}` : ''} · click to re-verify`}
+      >
+        <Chip size='small' color='success' variant='outlined' icon={<VerifiedIcon />} label='Verified' onClick={reverify} clickable />
+      </Tooltip>
+    )
+  }
+  if (verification.result === 'not-authentic') {
+    return (
+      <Tooltip title={`Not an inscribed satoshi${verification.reason ? ` (${verification.reason})` : ''} — do not trust · click to re-verify`}>
+        <Chip size='small' color='error' variant='filled' icon={<GppBadIcon />} label='Not authentic' onClick={reverify} clickable />
+      </Tooltip>
+    )
+  }
+  return (
+    <Tooltip title={`Provenance could not be determined${verification.reason ? ` (${verification.reason})` : ''} · click to re-verify`}>
+      <Chip size='small' variant='outlined' icon={<HelpOutlineIcon />} label='Unverified' onClick={reverify} clickable />
+    </Tooltip>
+  )
+}
+
+/**
+ * The wallet's 1Sat Ordinals: one card per inscription with a content
+ * preview, its provenance, and a Send that moves the whole satoshi.
+ */
+const OrdinalsGallery: React.FC<OrdinalsGalleryProps> = ({
+  ordinals,
+  verifications,
+  stas,
+  watchOnly,
+  onReverify,
+  onSent
+}) => {
+  const [sendTarget, setSendTarget] = useState<OrdinalHolding | null>(null)
+  const [recipient, setRecipient] = useState('')
+  const [sending, setSending] = useState(false)
+  const [result, setResult] = useState<{ ok: boolean; message: string } | null>(null)
+
+  const adapter = stas?.tokens?.getById('ordinals')
+
+  const openSend = (o: OrdinalHolding) => {
+    setSendTarget(o)
+    setRecipient('')
+    setResult(null)
+  }
+
+  const handleSend = async () => {
+    if (!sendTarget || !adapter?.transfer || !sendTarget.scriptHex || !sendTarget.brc42KeyId) return
+    setSending(true)
+    setResult(null)
+    try {
+      const res = await adapter.transfer({
+        source: {
+          txid: sendTarget.txid,
+          vout: sendTarget.vout,
+          scriptHex: sendTarget.scriptHex,
+          satoshis: sendTarget.satoshis,
+          brc42KeyId: sendTarget.brc42KeyId
+        },
+        recipientAddress: recipient.trim()
+      })
+      if (res.ok) {
+        setResult({ ok: true, message: `Sent. txid ${res.txid ?? '(pending)'}` })
+        onSent()
+      } else {
+        setResult({ ok: false, message: res.reason ?? 'transfer failed' })
+      }
+    } catch (e) {
+      setResult({ ok: false, message: e instanceof Error ? e.message : String(e) })
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <Card sx={{ mt: 2 }}>
+      <CardContent>
+        <Stack direction='row' spacing={1} alignItems='center' sx={{ mb: 2 }}>
+          <Typography variant='h6'>Ordinals</Typography>
+          <Chip size='small' label={`${ordinals.length} ${ordinals.length === 1 ? 'inscription' : 'inscriptions'}`} />
+        </Stack>
+        <Box sx={{ display: 'grid', gap: 2, gridTemplateColumns: 'repeat(auto-fill, minmax(200px, 1fr))' }}>
+          {ordinals.map(o => (
+            <Card key={o.outpoint} variant='outlined'>
+              <CardContent sx={{ p: 1.5, '&:last-child': { pb: 1.5 } }}>
+                <InscriptionPreview ordinal={o} stas={stas} />
+                <Typography
+                  variant='caption'
+                  color='text.secondary'
+                  sx={{ display: 'block', mt: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                >
+                  {o.contentType || 'unknown type'}
+                </Typography>
+                <Typography
+                  variant='caption'
+                  sx={{ display: 'flex', alignItems: 'center', gap: 0.5, fontFamily: 'monospace' }}
+                >
+                  {o.origin.substring(0, 12)}…{o.origin.slice(o.origin.lastIndexOf('_'))}
+                  <a
+                    href={`https://whatsonchain.com/tx/${o.origin.slice(0, o.origin.lastIndexOf('_'))}`}
+                    target='_blank'
+                    rel='noreferrer'
+                    style={{ color: 'inherit', display: 'inline-flex' }}
+                  >
+                    <OpenInNewIcon sx={{ fontSize: 12 }} />
+                  </a>
+                </Typography>
+                <Stack direction='row' spacing={1} alignItems='center' justifyContent='space-between' sx={{ mt: 1 }}>
+                  <ProvenanceChip
+                    verification={verifications.get(`${o.txid}_${o.vout}`)}
+                    onReverify={() => onReverify(o)}
+                  />
+                  <Button
+                    size='small'
+                    startIcon={<SendIcon />}
+                    onClick={() => openSend(o)}
+                    disabled={watchOnly || !adapter?.transferSupported || !isSendable(o)}
+                  >
+                    Send
+                  </Button>
+                </Stack>
+              </CardContent>
+            </Card>
+          ))}
+        </Box>
+      </CardContent>
+
+      <Dialog open={!!sendTarget} onClose={sending ? undefined : () => setSendTarget(null)} maxWidth='sm' fullWidth>
+        <DialogTitle>Send ordinal</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 2 }}>
+            The inscribed satoshi moves to the recipient whole. Send only to an address whose
+            wallet understands ordinals, or it may be spent as an ordinary satoshi.
+          </DialogContentText>
+          <Stack spacing={2}>
+            {sendTarget && (
+              <Typography variant='caption' sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                {sendTarget.contentType} · origin {sendTarget.origin}
+              </Typography>
+            )}
+            <TextField
+              label='Recipient address'
+              value={recipient}
+              onChange={e => setRecipient(e.target.value)}
+              disabled={sending || !!result?.ok}
+              fullWidth
+              autoFocus
+            />
+            {result && <Alert severity={result.ok ? 'success' : 'error'}>{result.message}</Alert>}
+          </Stack>
+        </DialogContent>
+        <DialogActions sx={{ p: 2 }}>
+          <Button onClick={() => setSendTarget(null)} disabled={sending}>{result?.ok ? 'Done' : 'Cancel'}</Button>
+          {!result?.ok && (
+            <Button variant='contained' onClick={handleSend} disabled={sending || !recipient.trim()}>
+              {sending ? 'Sending…' : 'Send'}
+            </Button>
+          )}
+        </DialogActions>
+      </Dialog>
+    </Card>
+  )
+}
+
+export default OrdinalsGallery
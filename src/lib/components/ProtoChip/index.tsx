@@ -84,11 +84,11 @@ const ProtoChip: React.FC<ProtoChipProps> = ({
   const [description, setDescription] = useState(t('proto_chip_description_not_found'))
   const [imageError, setImageError] = useState(false)
   const [documentationURL, setDocumentationURL] = useState('https://docs.bsvblockchain.org')
-  const { managers, settings, adminOriginator } = useContext(WalletContext)
+  const { managers, settings, adminOriginator, activeProfile } = useContext(WalletContext)
   const registrant = new RegistryClient(managers.permissionsManager, undefined, adminOriginator)
 
   useEffect(() => {
-    const cacheKey = `protocolInfo_${protocolID}_${securityLevel}`
+    const cacheKey = `protocolInfo_${protocolID}_${securityLevel}+${activeProfile?.identityKey}`
 
     const fetchAndCacheData = async () => {
       // Try to load data from cache
@@ -148,7 +148,7 @@ const ProtoChip: React.FC<ProtoChipProps> = ({
     }
 
     fetchAndCacheData()
-  }, [protocolID, securityLevel, settings])
+  }, [protocolID, securityLevel, settings, activeProfile?.identityKey])
 
   useEffect(() => {
     if (typeof protocolID === 'string') {
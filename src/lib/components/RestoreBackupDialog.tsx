@@ -0,0 +1,222 @@
+import React, { useEffect, useState } from 'react'
+import {
+  Alert,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Stack,
+  TextField,
+  Typography
+} from '@mui/material'
+import { toast } from 'react-toastify'
+import { chooseBackupFile, inspectWalletBackup, restoreWalletBackup } from '../services/walletBackup'
+import { vaultStatus } from '../services/secrets'
+
+interface BackupSummary {
+  createdAt: string
+  identityKey: string
+  chain: 'main' | 'test' | 'ttn'
+  appVersion: string | null
+  receiveContexts: { stas: number; bsv21: number } | null
+  replacesDatabase: boolean
+  replacesOtherWallet: boolean
+  needsVaultPassphrase: boolean
+}
+
+interface RestoreBackupDialogProps {
+  open: boolean
+  onClose: () => void
+}
+
+/**
+ * Restore a wallet from an encrypted backup file (Settings → Security →
+ * Encrypted backup). The file is decrypted and fully verified first; only
+ * after the user has seen what it contains does restore replace anything.
+ */
+const RestoreBackupDialog: React.FC<RestoreBackupDialogProps> = ({ open, onClose }) => {
+  const [filePath, setFilePath] = useState<string | null>(null)
+  const [passphrase, setPassphrase] = useState('')
+  const [summary, setSummary] = useState<BackupSummary | null>(null)
+  const [vaultPassphrase, setVaultPassphrase] = useState('')
+  const [vaultConfirm, setVaultConfirm] = useState('')
+  const [biometricsAvailable, setBiometricsAvailable] = useState(false)
+  const [enableBiometrics, setEnableBiometrics] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setFilePath(null)
+    setPassphrase('')
+    setSummary(null)
+    setVaultPassphrase('')
+    setVaultConfirm('')
+    setError(null)
+    vaultStatus()
+      .then(status => {
+        setBiometricsAvailable(status.biometricsAvailable)
+        setEnableBiometrics(status.biometricsAvailable)
+      })
+      .catch(() => setBiometricsAvailable(false))
+  }, [open])
+
+  const handleChooseFile = async () => {
+    setError(null)
+    const chosen = await chooseBackupFile()
+    if (!chosen) return
+    if (chosen.error) {
+      setError(chosen.error)
+      return
+    }
+    setFilePath(chosen.path)
+    setSummary(null)
+  }
+
+  const handleVerify = async () => {
+    if (!filePath) return
+    setBusy(true)
+    setError(null)
+    try {
+      const result = await inspectWalletBackup(filePath, passphrase)
+      if (result.ok === false) {
+        setError(result.error)
+        return
+      }
+      setSummary(result.summary)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleRestore = async () => {
+    if (!filePath || !summary) return
+    if (summary.needsVaultPassphrase && vaultPassphrase !== vaultConfirm) {
+      setError('Vault passphrases do not match.')
+      return
+    }
+    setBusy(true)
+    setError(null)
+    try {
+      const result = await restoreWalletBackup(filePath, passphrase, summary.needsVaultPassphrase
+        ? { vaultPassphrase, enableBiometrics }
+        : undefined)
+      if (result.ok === false) {
+        setError(result.error)
+        return
+      }
+      toast.dark('Wallet restored')
+      // Start every service from the restored vault, database and settings.
+      window.location.reload()
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const canRestore = summary && !summary.replacesOtherWallet && (!summary.needsVaultPassphrase || (vaultPassphrase.length >= 8 && vaultConfirm))
+
+  return (
+    <Dialog open={open} onClose={busy ? undefined : onClose} maxWidth='sm' fullWidth>
+      <DialogTitle>Restore from backup</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <Stack direction='row' spacing={2} alignItems='center'>
+            <Button variant='outlined' onClick={handleChooseFile} disabled={busy}>
+              Choose file
+            </Button>
+            <Typography variant='body2' color='textSecondary' noWrap>
+              {filePath ?? 'No file selected'}
+            </Typography>
+          </Stack>
+
+          {filePath && !summary && (
+            <TextField
+              type='password'
+              label='Backup passphrase'
+              value={passphrase}
+              onChange={e => setPassphrase(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter' && passphrase) void handleVerify() }}
+              autoFocus
+              fullWidth
+            />
+          )}
+
+          {summary && (
+            <>
+              <Alert severity='success'>
+                Backup verified. Made {new Date(summary.createdAt).toLocaleString()}
+                {summary.appVersion ? ` by BSV Desktop ${summary.appVersion}` : ''} for identity{' '}
+                {summary.identityKey.slice(0, 12)}… on {summary.chain}net.
+                {summary.receiveContexts &&
+                  ` Includes ${summary.receiveContexts.stas} STAS and ${summary.receiveContexts.bsv21} BSV-21 receive contexts.`}
+              </Alert>
+              {summary.replacesOtherWallet && (
+                <Alert severity='error'>
+                  The unlocked vault profile already holds a different wallet, and restoring would replace its
+                  keys. Add a new vault profile, unlock it, and restore this backup there.
+                </Alert>
+              )}
+              {summary.replacesDatabase && (
+                <Alert severity='warning'>
+                  This computer already has wallet data for this identity. Restoring replaces it; the
+                  current database is kept alongside as a .pre-restore copy.
+                </Alert>
+              )}
+              {summary.needsVaultPassphrase && (
+                <>
+                  <Typography variant='body2' color='textSecondary'>
+                    Choose the passphrase that will unlock BSV Desktop on this computer.
+                  </Typography>
+                  <TextField
+                    type='password'
+                    label='Vault passphrase'
+                    helperText='At least 8 characters'
+                    value={vaultPassphrase}
+                    onChange={e => setVaultPassphrase(e.target.value)}
+                    autoComplete='new-password'
+                    fullWidth
+                  />
+                  <TextField
+                    type='password'
+                    label='Confirm vault passphrase'
+                    value={vaultConfirm}
+                    onChange={e => setVaultConfirm(e.target.value)}
+                    autoComplete='new-password'
+                    fullWidth
+                  />
+                  {biometricsAvailable && (
+                    <FormControlLabel
+                      control={<Checkbox checked={enableBiometrics} onChange={e => setEnableBiometrics(e.target.checked)} />}
+                      label='Also unlock with biometrics'
+                    />
+                  )}
+                </>
+              )}
+            </>
+          )}
+
+          {error && <Alert severity='error'>{error}</Alert>}
+        </Stack>
+      </DialogContent>
+      <DialogActions sx={{ p: 2 }}>
+        <Button onClick={onClose} disabled={busy}>Cancel</Button>
+        {summary
+          ? (
+            <Button variant='contained' color='primary' onClick={handleRestore} disabled={busy || !canRestore}>
+              {busy ? 'Restoring…' : 'Restore wallet'}
+            </Button>
+            )
+          : (
+            <Button variant='contained' color='primary' onClick={handleVerify} disabled={busy || !filePath || !passphrase}>
+              {busy ? 'Verifying…' : 'Verify backup'}
+            </Button>
+            )}
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+export default RestoreBackupDialog
@@ -12,6 +12,7 @@ import { PermissionToken, Services } from '@bsv/wallet-toolbox-client';
 // NOTE: rely on the same exchange-rate provider used by AmountDisplay
 import { ExchangeRateContext } from './AmountDisplay/ExchangeRateContextProvider';
 import AppLogo from './AppLogo';
+import TokenSpendingAuthorizationList from './TokenSpendingAuthorizationList';
 import { useTranslation } from 'react-i18next';
 
 type Props = {
@@ -499,6 +500,9 @@ export const SpendingAuthorizationList: FC<Props> = ({
           )}
         </Box>
       )}
+
+      {/* token allowances for the same app ---------------------------------- */}
+      <TokenSpendingAuthorizationList app={app} />
     </>
   );
 };
@@ -0,0 +1,183 @@
+/**
+ * TokenSpendPermissionHandler — modal that asks the user whether an external
+ * app may move tokens via `/stas/transfer`, `/dstas/transfer`,
+ * `/bsv-21/transfer` or `/peerToken/send`, and confirms sends from the wallet's
+ * own Peer Tokens page.
+ *
+ * Hooks into the permission queue's `tokenSpendRequests` (raised by the route
+ * handlers in onWalletReady.ts when no standing allowance covers the amount).
+ * Renders the head of the queue. "Allow once" approves just this transfer;
+ * "Allow up to" also stores an allowance so later transfers of the same token
+ * from this app go through until the ceiling or expiry is reached.
+ */
+
+import React, { useContext, useEffect, useState } from 'react'
+import {
+  DialogContent,
+  DialogActions,
+  Button,
+  Stack,
+  Typography,
+  Box,
+  Divider,
+  Chip,
+  TextField,
+  MenuItem,
+} from '@mui/material'
+import SendIcon from '@mui/icons-material/Send'
+import OpenInNewIcon from '@mui/icons-material/OpenInNew'
+import CustomDialog from '../CustomDialog'
+import { WalletContext } from '../../WalletContext'
+
+const PROTOCOL_LABELS: Record<string, string> = {
+  stas: 'STAS',
+  dstas: 'DSTAS',
+  'bsv-21': 'BSV-21',
+}
+
+const ALLOWANCE_DAYS = [1, 7, 30, 90]
+
+const TokenSpendPermissionHandler: React.FC = () => {
+  const { tokenSpendRequests, grantTokenSpend, denyTokenSpend, adminOriginator } = useContext(WalletContext)
+  const req = tokenSpendRequests?.[0]
+
+  const [ceiling, setCeiling] = useState('')
+  const [days, setDays] = useState(7)
+
+  // Start each prompt with an allowance of exactly this transfer.
+  useEffect(() => {
+    if (req) setCeiling(req.amount)
+  }, [req?.requestID])
+
+  if (!req) return null
+
+  const protocolLabel = PROTOCOL_LABELS[req.protocol] ?? req.protocol
+  const units = req.protocol === 'bsv-21' ? 'units' : 'sats'
+  const ceilingValid = /^\d+$/.test(ceiling) && BigInt(ceiling) >= BigInt(req.amount) && BigInt(ceiling) > 0n
+
+  const onDeny = () => denyTokenSpend(req.requestID)
+  const onAllowOnce = () => grantTokenSpend(req.requestID)
+  const onAllowUpTo = () => grantTokenSpend(req.requestID, { ceiling, days })
+
+  return (
+    <CustomDialog open onClose={onDeny} title={`Approve ${protocolLabel} transfer`} maxWidth='sm' fullWidth>
+      <DialogContent dividers>
+        <Stack spacing={2}>
+          <Box>
+            <Typography variant='caption' color='text.secondary'>Requested by</Typography>
+            <Typography
+              variant='body2'
+              sx={{ fontFamily: 'monospace', wordBreak: 'break-all', fontWeight: 600 }}
+            >
+              {req.originator === adminOriginator ? 'This wallet (Peer Tokens)' : req.originator}
+            </Typography>
+          </Box>
+
+          <Divider />
+
+          <Box>
+            <Typography variant='caption' color='text.secondary'>Sending</Typography>
+            <Stack direction='row' spacing={1} alignItems='baseline' sx={{ mt: 0.5 }}>
+              <Typography variant='h6' sx={{ fontWeight: 700 }}>
+                {BigInt(req.amount).toLocaleString()}
+              </Typography>
+              <Typography variant='body2' color='text.secondary'>{units}</Typography>
+              <Chip size='small' label={req.symbol ?? protocolLabel} variant='outlined' sx={{ ml: 0.5 }} />
+              <Chip size='small' label={protocolLabel} sx={{ ml: 0.5 }} />
+            </Stack>
+            <Typography
+              variant='caption'
+              color='text.secondary'
+              sx={{ fontFamily: 'monospace', display: 'block', mt: 0.5 }}
+              title={req.assetId}
+            >
+              token id {req.assetId.length > 12 ? `${req.assetId.substring(0, 12)}…` : req.assetId}
+            </Typography>
+          </Box>
+
+          <Box>
+            <Typography variant='caption' color='text.secondary'>From your wallet</Typography>
+            <Stack direction='row' spacing={1} alignItems='center' sx={{ mt: 0.5 }}>
+              <Typography variant='body2' sx={{ fontFamily: 'monospace', fontSize: 12 }}>
+                {req.outpoint.substring(0, 20)}…
+              </Typography>
+              <a
+                href={`https://whatsonchain.com/tx/${req.outpoint.split('.')[0]}`}
+                target='_blank'
+                rel='noreferrer'
+                style={{ color: 'inherit', display: 'inline-flex' }}
+              >
+                <OpenInNewIcon sx={{ fontSize: 14 }} />
+              </a>
+            </Stack>
+          </Box>
+
+          <Box>
+            <Typography variant='caption' color='text.secondary'>
+              {req.recipientCount
+                ? `Recipients (${req.recipientCount})`
+                : req.via === 'peer' ? 'Recipient identity key (via MessageBox)' : 'Recipient'}
+            </Typography>
+            <Typography
+              variant='body2'
+              sx={{ fontFamily: 'monospace', wordBreak: 'break-all', mt: 0.5 }}
+            >
+              {req.recipient}
+            </Typography>
+          </Box>
+
+          <Divider />
+
+          <Box>
+            <Typography variant='caption' color='text.secondary'>
+              Or let this app send up to
+            </Typography>
+            <Stack direction='row' spacing={1} alignItems='center' sx={{ mt: 1 }}>
+              <TextField
+                size='small'
+                value={ceiling}
+                onChange={e => setCeiling(e.target.value.trim())}
+                error={!ceilingValid}
+                inputProps={{ inputMode: 'numeric' }}
+                sx={{ flex: 1 }}
+              />
+              <Typography variant='body2' color='text.secondary'>
+                {units} of {req.symbol ?? protocolLabel} for
+              </Typography>
+              <TextField
+                select
+                size='small'
+                value={days}
+                onChange={e => setDays(Number(e.target.value))}
+              >
+                {ALLOWANCE_DAYS.map(d => (
+                  <MenuItem key={d} value={d}>{d === 1 ? '1 day' : `${d} days`}</MenuItem>
+                ))}
+              </TextField>
+            </Stack>
+            <Typography variant='caption' color='text.secondary' sx={{ display: 'block', mt: 0.5 }}>
+              Includes this transfer. Anything beyond it asks again.
+            </Typography>
+          </Box>
+
+          <Typography variant='caption' color='text.secondary'>
+            Approving will sign and broadcast a transaction. BSV fees come from your
+            default basket. This action cannot be undone once the transaction
+            confirms on chain.
+          </Typography>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onDeny} color='inherit'>Deny</Button>
+        <Button onClick={onAllowUpTo} disabled={!ceilingValid} variant='outlined'>
+          Allow up to {ceilingValid ? BigInt(ceiling).toLocaleString() : '…'}
+        </Button>
+        <Button onClick={onAllowOnce} variant='contained' startIcon={<SendIcon />}>
+          Allow once
+        </Button>
+      </DialogActions>
+    </CustomDialog>
+  )
+}
+
+export default TokenSpendPermissionHandler
@@ -0,0 +1,114 @@
+/**
+ * TokenSpendingAuthorizationList — the token counterpart of
+ * SpendingAuthorizationList. Lists the "up to N units" allowances an app holds
+ * for STAS / DSTAS / BSV-21 tokens (granted from TokenSpendPermissionHandler),
+ * with how much of each has been spent, and lets the user renew or revoke them.
+ */
+
+import React, { useContext, useMemo, useState } from 'react'
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  LinearProgress,
+  Stack,
+  Typography,
+} from '@mui/material'
+import { WalletContext } from '../../WalletContext'
+import { normalizeBridgeOrigin } from '../../services/httpBridgeSession'
+import type { TokenSpendAllowance } from '../../services/tokenSpendAllowances'
+
+const PROTOCOL_LABELS: Record<string, string> = {
+  stas: 'STAS',
+  dstas: 'DSTAS',
+  'bsv-21': 'BSV-21',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type Props = {
+  app: string
+}
+
+const TokenSpendingAuthorizationList: React.FC<Props> = ({ app }) => {
+  const { tokenSpendAllowances, revokeTokenAllowance, renewTokenAllowance } = useContext(WalletContext)
+  const [revoking, setRevoking] = useState<TokenSpendAllowance | null>(null)
+
+  const allowances = useMemo(() => {
+    const origin = normalizeBridgeOrigin(app)
+    return tokenSpendAllowances.filter(a => a.originator === origin)
+  }, [tokenSpendAllowances, app])
+
+  if (allowances.length === 0) return null
+
+  // Renewing keeps the period the user originally picked.
+  const renew = (a: TokenSpendAllowance) =>
+    renewTokenAllowance(a.originator, a.protocol, a.assetId, Math.max(1, Math.round((a.expiresAt - a.grantedAt) / DAY_MS)))
+
+  const confirmRevoke = () => {
+    if (revoking) revokeTokenAllowance(revoking.originator, revoking.protocol, revoking.assetId)
+    setRevoking(null)
+  }
+
+  return (
+    <Box mt={4}>
+      <Typography variant='h5' gutterBottom>Token spending limits</Typography>
+      <Typography variant='body2' color='text.secondary' gutterBottom>
+        This app can send up to these amounts of your tokens without asking.
+      </Typography>
+
+      <Stack spacing={3} sx={{ mt: 2 }}>
+        {allowances.map(a => {
+          const spent = BigInt(a.spent)
+          const ceiling = BigInt(a.ceiling)
+          const units = a.protocol === 'bsv-21' ? 'units' : 'sats'
+          return (
+            <Box key={`${a.protocol}:${a.assetId}`}>
+              <Stack direction='row' spacing={1} alignItems='center'>
+                <Chip size='small' label={a.symbol ?? PROTOCOL_LABELS[a.protocol] ?? a.protocol} variant='outlined' title={`token id ${a.assetId}`} />
+                <Chip size='small' label={PROTOCOL_LABELS[a.protocol] ?? a.protocol} />
+                <Typography variant='caption' color='text.secondary' sx={{ fontFamily: 'monospace' }} title={a.assetId}>
+                  {a.assetId.length > 12 ? `${a.assetId.substring(0, 12)}…` : a.assetId}
+                </Typography>
+                <Typography variant='caption' color='text.secondary' sx={{ flex: 1 }}>
+                  expires {new Date(a.expiresAt).toLocaleString()}
+                </Typography>
+                <Button size='small' onClick={() => renew(a)}>Renew</Button>
+                <Button size='small' color='error' onClick={() => setRevoking(a)}>Revoke</Button>
+              </Stack>
+              <LinearProgress
+                variant='determinate'
+                value={Number((spent * 100n) / ceiling)}
+                sx={{ height: 8, borderRadius: 4, my: 1 }}
+              />
+              <Box display='flex' justifyContent='space-between'>
+                <Typography variant='body2' color='text.secondary'>{spent.toLocaleString()} {units} spent</Typography>
+                <Typography variant='body2' color='text.secondary'>{ceiling.toLocaleString()} {units} limit</Typography>
+              </Box>
+            </Box>
+          )
+        })}
+      </Stack>
+
+      <Dialog open={!!revoking} onClose={() => setRevoking(null)}>
+        <DialogTitle>Revoke token spending limit?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            The app will have to ask again before sending any more {revoking?.symbol ?? revoking?.assetId}.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRevoking(null)}>Cancel</Button>
+          <Button color='error' onClick={confirmRevoke}>Revoke</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  )
+}
+
+export default TokenSpendingAuthorizationList
@@ -1,16 +1,19 @@
 /**
  * Cold-start gate: unlock or enroll the vault before the wallet tree runs.
  *
- * - hasVault && locked → Unlock (biometrics and/or passphrase)
+ * - hasVault && locked → Unlock (biometrics and/or passphrase), with a
+ *   profile picker when the vault holds more than one profile
  * - needsMigration → Enroll (migrate v1 secrets.dat)
  * - vault-needs-enroll event (first secret write) → Enroll
+ * - vault-locked event (logout, or auto-lock in the main process) → Unlock;
+ *   unlocking again then reloads the page (see finishUnlock)
  * - otherwise → children
  *
  * Styled to match Greeter / AppThemeProvider. VaultGate mounts above the
  * wallet tree (and often before AppThemeProvider), so it carries its own
  * ThemeProvider using the same palette tokens as Theme.tsx.
  */
-import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import {
   Box,
   Button,
@@ -29,6 +32,7 @@ import {
   useMediaQuery,
   InputAdornment,
   IconButton,
+  MenuItem,
 } from '@mui/material'
 import type { PaletteMode } from '@mui/material'
 import FingerprintIcon from '@mui/icons-material/Fingerprint'
@@ -163,6 +167,7 @@ const VaultGate: React.FC<Props> = ({ children, onReady, appName = 'BSV Desktop'
 
   const [gateMode, setGateMode] = useState<Mode>('loading')
   const [status, setStatus] = useState<secrets.VaultStatus | null>(null)
+  const [profileId, setProfileId] = useState<string | null>(null)
   const [passphrase, setPassphrase] = useState('')
   const [confirm, setConfirm] = useState('')
   const [enableBio, setEnableBio] = useState(true)
@@ -170,17 +175,32 @@ const VaultGate: React.FC<Props> = ({ children, onReady, appName = 'BSV Desktop'
   const [busy, setBusy] = useState(false)
   const [showPass, setShowPass] = useState(false)
   const [showConfirm, setShowConfirm] = useState(false)
+  /** A wallet has already run on this page (the gate reached ready once). */
+  const ranWallet = useRef(false)
 
   const finishReady = useCallback(async () => {
     await secrets.rehydrate()
+    ranWallet.current = true
     setGateMode('ready')
     onReady?.()
   }, [onReady])
 
+  // A different profile is a different wallet: start the page over with its
+  // secrets. So is any unlock after a lock, since the same profile can open
+  // its duress set: nothing the previous wallet left in memory may carry over.
+  const finishUnlock = useCallback(async () => {
+    if (ranWallet.current || (profileId && status?.activeProfile && profileId !== status.activeProfile)) {
+      window.location.reload()
+      return
+    }
+    await finishReady()
+  }, [finishReady, profileId, status])
+
   const refresh = useCallback(async () => {
     try {
       const s = await secrets.vaultStatus()
       setStatus(s)
+      setProfileId(s.activeProfile)
       if (s.needsMigration) {
         setGateMode('enroll')
         setEnableBio(s.biometricsAvailable)
@@ -220,6 +240,7 @@ const VaultGate: React.FC<Props> = ({ children, onReady, appName = 'BSV Desktop'
       setGateMode('unlock')
       void secrets.vaultStatus().then((s) => {
         setStatus(s)
+        setProfileId(s.activeProfile)
         setEnableBio(s.biometricsAvailable && s.methods.includes('se'))
         // If vault was destroyed somehow, fall back to enroll only when truly missing.
         if (!s.hasVault) {
@@ -229,23 +250,31 @@ const VaultGate: React.FC<Props> = ({ children, onReady, appName = 'BSV Desktop'
     }
     window.addEventListener('vault-needs-enroll', onNeedsEnroll)
     window.addEventListener('vault-locked', onLocked)
+    const stopWatchingLock = secrets.watchMainProcessLock()
     return () => {
       window.removeEventListener('vault-needs-enroll', onNeedsEnroll)
       window.removeEventListener('vault-locked', onLocked)
+      stopWatchingLock()
     }
   }, [])
 
+  // Input in the unlocked wallet postpones the idle auto-lock.
+  useEffect(() => {
+    if (gateMode !== 'ready') return
+    return secrets.reportActivity()
+  }, [gateMode])
+
   const handleUnlockPassphrase = async () => {
     setBusy(true)
     setError(null)
     try {
-      const r = await secrets.unlockWithPassphrase(passphrase)
+      const r = await secrets.unlockWithPassphrase(passphrase, profileId ?? undefined)
       if (r.ok === false) {
         setError(r.error)
         return
       }
       setPassphrase('')
-      await finishReady()
+      await finishUnlock()
     } catch (err: any) {
       setError(err?.message || 'Unlock failed')
     } finally {
@@ -257,12 +286,12 @@ const VaultGate: React.FC<Props> = ({ children, onReady, appName = 'BSV Desktop'
     setBusy(true)
     setError(null)
     try {
-      const r = await secrets.unlockWithBiometrics()
+      const r = await secrets.unlockWithBiometrics(profileId ?? undefined)
       if (r.ok === false) {
         setError(r.error)
         return
       }
-      await finishReady()
+      await finishUnlock()
     } catch (err: any) {
       setError(err?.message || 'Biometric unlock failed')
     } finally {
@@ -304,10 +333,12 @@ const VaultGate: React.FC<Props> = ({ children, onReady, appName = 'BSV Desktop'
   const isEnroll = gateMode === 'enroll'
   const isUnlock = gateMode === 'unlock'
   const showGate = isEnroll || isUnlock || gateMode === 'loading'
+  const profiles = status?.profiles ?? []
+  const selectedProfile = profiles.find((p) => p.id === profileId)
   const showBioUnlock =
     isUnlock &&
     !!status?.biometricsAvailable &&
-    !!status?.methods?.includes('se')
+    !!(selectedProfile?.methods ?? status?.methods)?.includes('se')
 
   const accentBlue = mode === 'dark' ? '#487dbf' : '#2196F3'
   const logoColor = '#2196F3'
@@ -393,6 +424,26 @@ const VaultGate: React.FC<Props> = ({ children, onReady, appName = 'BSV Desktop'
               </Alert>
             )}
 
+            {isUnlock && profiles.length > 1 && (
+              <TextField
+                select
+                label="Profile"
+                value={profileId ?? ''}
+                onChange={(e) => {
+                  setProfileId(e.target.value)
+                  setError(null)
+                }}
+                helperText={selectedProfile?.ownPassphrase ? 'This profile has its own passphrase.' : undefined}
+                fullWidth
+              >
+                {profiles.map((p) => (
+                  <MenuItem key={p.id} value={p.id}>
+                    {p.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+
             {showBioUnlock && (
               <Button
                 variant="contained"
@@ -0,0 +1,365 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Collapse,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  FormControlLabel,
+  IconButton,
+  List,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Stack,
+  TextField,
+  Typography,
+  alpha
+} from '@mui/material'
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  ExpandLess,
+  ExpandMore,
+  Fingerprint as FingerprintIcon,
+  Key as KeyIcon
+} from '@mui/icons-material'
+import { toast } from 'react-toastify'
+import * as secrets from '../services/secrets'
+
+type DialogState =
+  | { kind: 'switch'; profile: secrets.VaultProfile }
+  | { kind: 'create' }
+  | { kind: 'delete'; profile: secrets.VaultProfile }
+  | null
+
+/**
+ * Vault profiles in the side menu (desktop only). Each profile is a separate
+ * wallet identity sealed under its own key; switching unlocks the chosen
+ * profile, locks the current one and reloads the window into it.
+ */
+const VaultProfileSwitcher: React.FC = () => {
+  const [status, setStatus] = useState<secrets.VaultStatus | null>(null)
+  const [open, setOpen] = useState(false)
+  const [dialog, setDialog] = useState<DialogState>(null)
+  const [name, setName] = useState('')
+  const [passphrase, setPassphrase] = useState('')
+  const [confirm, setConfirm] = useState('')
+  const [ownPassphrase, setOwnPassphrase] = useState(false)
+  const [enableBio, setEnableBio] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const supported = Boolean(window.electronAPI?.vault?.createProfile)
+
+  const refresh = useCallback(async () => {
+    if (!supported) return
+    try {
+      setStatus(await secrets.vaultStatus())
+    } catch (err) {
+      console.error('[VaultProfileSwitcher] status failed:', err)
+    }
+  }, [supported])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  const openDialog = (next: DialogState) => {
+    setName('')
+    setPassphrase('')
+    setConfirm('')
+    setOwnPassphrase(false)
+    setEnableBio(false)
+    setError(null)
+    setDialog(next)
+  }
+
+  const closeDialog = () => {
+    if (!busy) setDialog(null)
+  }
+
+  const run = async (action: () => Promise<{ ok: true } | { ok: false; error: string }>, after: () => void) => {
+    setBusy(true)
+    setError(null)
+    try {
+      const result = await action()
+      if (result.ok === false) {
+        setError(result.error)
+        return
+      }
+      after()
+    } catch (err: any) {
+      setError(err?.message || 'Vault operation failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  // The page restarts so every service loads the other profile's wallet.
+  const switched = () => window.location.reload()
+
+  const handleSwitch = (profile: secrets.VaultProfile, useBiometrics: boolean) =>
+    run(
+      () => useBiometrics
+        ? secrets.unlockWithBiometrics(profile.id)
+        : secrets.unlockWithPassphrase(passphrase, profile.id),
+      switched
+    )
+
+  const handleCreate = () => {
+    if (ownPassphrase && passphrase !== confirm) {
+      setError('Passphrases do not match.')
+      return
+    }
+    return run(async () => {
+      const created = await secrets.createVaultProfile({
+        name,
+        passphrase,
+        ownPassphrase,
+        enableBiometrics: enableBio
+      })
+      if (created.ok === false) return created
+      // Move straight into the new, empty profile to set up its wallet.
+      return secrets.unlockWithPassphrase(passphrase, created.profileId)
+    }, switched)
+  }
+
+  const handleDelete = (profile: secrets.VaultProfile) =>
+    run(
+      () => secrets.deleteVaultProfile(profile.id, passphrase),
+      () => {
+        toast.dark(`Removed profile ${profile.name}`)
+        setDialog(null)
+        void refresh()
+      }
+    )
+
+  if (!supported || !status?.hasVault) return null
+
+  const active = status.profiles.find(p => p.active)
+
+  return (
+    <>
+      <List component="nav" sx={{ mb: 1 }}>
+        <ListItemButton onClick={() => setOpen(o => !o)} sx={{ borderRadius: '8px', margin: '4px 8px' }}>
+          <ListItemIcon sx={{ minWidth: 40 }}>
+            <KeyIcon />
+          </ListItemIcon>
+          <ListItemText
+            primary={<Typography variant="body1">Vault profiles</Typography>}
+            secondary={!open && active ? `Unlocked: ${active.name}` : undefined}
+          />
+          {open ? <ExpandLess /> : <ExpandMore />}
+        </ListItemButton>
+
+        <Collapse in={open} timeout="auto" unmountOnExit>
+          <List disablePadding sx={{ mt: 0.5 }}>
+            {status.profiles.map(profile => (
+              <ListItemButton
+                key={profile.id}
+                onClick={!profile.active ? () => openDialog({ kind: 'switch', profile }) : undefined}
+                disableRipple={profile.active}
+                sx={{
+                  borderRadius: '8px',
+                  mx: 1,
+                  mb: 0.5,
+                  py: 0.75,
+                  pl: 1.5,
+                  pr: 1,
+                  backgroundColor: profile.active ? alpha('#1976d2', 0.08) : 'transparent',
+                  cursor: profile.active ? 'default' : 'pointer',
+                  '&:hover .vault-profile-delete': { opacity: 1 }
+                }}
+              >
+                <Box sx={{ flex: 1, minWidth: 0 }}>
+                  <Typography
+                    variant="body2"
+                    sx={{
+                      fontWeight: profile.active ? 600 : 400,
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                      whiteSpace: 'nowrap'
+                    }}
+                  >
+                    {profile.name}
+                  </Typography>
+                  <Typography variant="caption" sx={{ color: 'text.disabled' }}>
+                    {profile.ownPassphrase ? 'Own passphrase' : 'Shared passphrase'}
+                  </Typography>
+                </Box>
+                {profile.active ? (
+                  <Box sx={{ width: 8, height: 8, borderRadius: '50%', backgroundColor: 'primary.main', ml: 1 }} />
+                ) : (
+                  <IconButton
+                    className="vault-profile-delete"
+                    size="small"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      openDialog({ kind: 'delete', profile })
+                    }}
+                    sx={{ opacity: 0, transition: 'opacity 0.15s', color: 'text.disabled', p: 0.5 }}
+                  >
+                    <DeleteIcon sx={{ fontSize: 16 }} />
+                  </IconButton>
+                )}
+              </ListItemButton>
+            ))}
+
+            <ListItemButton
+              onClick={() => openDialog({ kind: 'create' })}
+              sx={{ borderRadius: '8px', mx: 1, mt: 0.5, py: 0.75, pl: 1.5, opacity: 0.6, '&:hover': { opacity: 1 } }}
+            >
+              <AddIcon sx={{ fontSize: 16, color: 'text.disabled', mr: 1.5 }} />
+              <Typography variant="body2" color="text.secondary">
+                New vault profile
+              </Typography>
+            </ListItemButton>
+          </List>
+        </Collapse>
+      </List>
+
+      <Dialog open={dialog !== null} onClose={closeDialog} maxWidth="xs" fullWidth>
+        {dialog?.kind === 'switch' && (
+          <>
+            <DialogTitle>Switch to {dialog.profile.name}</DialogTitle>
+            <DialogContent>
+              <DialogContentText sx={{ mb: 2 }}>
+                {active?.name ?? 'The current profile'} will be locked.
+                {dialog.profile.ownPassphrase ? ' Enter this profile\'s own passphrase.' : ' Enter your vault passphrase.'}
+              </DialogContentText>
+              <Stack spacing={2}>
+                {status.biometricsAvailable && dialog.profile.methods.includes('se') && (
+                  <Button
+                    variant="outlined"
+                    startIcon={<FingerprintIcon />}
+                    onClick={() => handleSwitch(dialog.profile, true)}
+                    disabled={busy}
+                  >
+                    Switch with Touch ID
+                  </Button>
+                )}
+                <TextField
+                  type="password"
+                  label="Passphrase"
+                  value={passphrase}
+                  onChange={e => setPassphrase(e.target.value)}
+                  onKeyDown={e => { if (e.key === 'Enter' && passphrase) void handleSwitch(dialog.profile, false) }}
+                  autoComplete="current-password"
+                  autoFocus
+                  fullWidth
+                />
+                {error && <Alert severity="error">{error}</Alert>}
+              </Stack>
+            </DialogContent>
+            <DialogActions>
+              <Button onClick={closeDialog} disabled={busy}>Cancel</Button>
+              <Button variant="contained" onClick={() => handleSwitch(dialog.profile, false)} disabled={busy || !passphrase}>
+                Switch
+              </Button>
+            </DialogActions>
+          </>
+        )}
+
+        {dialog?.kind === 'create' && (
+          <>
+            <DialogTitle>New vault profile</DialogTitle>
+            <DialogContent>
+              <DialogContentText sx={{ mb: 2 }}>
+                A profile holds a separate wallet, sealed under its own key. You will switch to it and
+                set up its wallet next.
+              </DialogContentText>
+              <Stack spacing={2}>
+                <TextField
+                  label="Profile name"
+                  value={name}
+                  onChange={e => setName(e.target.value)}
+                  inputProps={{ maxLength: 40 }}
+                  autoFocus
+                  fullWidth
+                />
+                <FormControlLabel
+                  control={<Checkbox checked={ownPassphrase} onChange={e => setOwnPassphrase(e.target.checked)} />}
+                  label="Give this profile its own passphrase"
+                />
+                <TextField
+                  type="password"
+                  label={ownPassphrase ? 'New profile passphrase' : 'Vault passphrase'}
+                  helperText={ownPassphrase ? 'At least 8 characters' : 'The passphrase your other profiles use'}
+                  value={passphrase}
+                  onChange={e => setPassphrase(e.target.value)}
+                  autoComplete={ownPassphrase ? 'new-password' : 'current-password'}
+                  fullWidth
+                />
+                {ownPassphrase && (
+                  <TextField
+                    type="password"
+                    label="Confirm profile passphrase"
+                    value={confirm}
+                    onChange={e => setConfirm(e.target.value)}
+                    autoComplete="new-password"
+                    fullWidth
+                  />
+                )}
+                {status.biometricsAvailable && (
+                  <FormControlLabel
+                    control={<Checkbox checked={enableBio} onChange={e => setEnableBio(e.target.checked)} />}
+                    label="Allow Touch ID for this profile"
+                  />
+                )}
+                {error && <Alert severity="error">{error}</Alert>}
+              </Stack>
+            </DialogContent>
+            <DialogActions>
+              <Button onClick={closeDialog} disabled={busy}>Cancel</Button>
+              <Button
+                variant="contained"
+                onClick={handleCreate}
+                disabled={busy || !name.trim() || passphrase.length < 8 || (ownPassphrase && !confirm)}
+              >
+                Create and switch
+              </Button>
+            </DialogActions>
+          </>
+        )}
+
+        {dialog?.kind === 'delete' && (
+          <>
+            <DialogTitle>Remove {dialog.profile.name}?</DialogTitle>
+            <DialogContent>
+              <DialogContentText sx={{ mb: 2 }}>
+                The profile's keys are erased from this computer. Make sure you have its recovery phrase
+                or an encrypted backup first. Enter the profile's passphrase to confirm.
+              </DialogContentText>
+              <Stack spacing={2}>
+                <TextField
+                  type="password"
+                  label="Passphrase"
+                  value={passphrase}
+                  onChange={e => setPassphrase(e.target.value)}
+                  autoComplete="current-password"
+                  autoFocus
+                  fullWidth
+                />
+                {error && <Alert severity="error">{error}</Alert>}
+              </Stack>
+            </DialogContent>
+            <DialogActions>
+              <Button onClick={closeDialog} disabled={busy}>Cancel</Button>
+              <Button color="error" onClick={() => handleDelete(dialog.profile)} disabled={busy || !passphrase}>
+                Remove
+              </Button>
+            </DialogActions>
+          </>
+        )}
+      </Dialog>
+    </>
+  )
+}
+
+export default VaultProfileSwitcher
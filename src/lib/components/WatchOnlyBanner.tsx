@@ -0,0 +1,47 @@
+import { useContext, useState } from 'react'
+import { Alert, Button } from '@mui/material'
+import VisibilityIcon from '@mui/icons-material/Visibility'
+import { useHistory } from 'react-router-dom'
+import { WalletContext } from '../WalletContext'
+
+const CHAIN_NAMES = { main: 'mainnet', test: 'testnet', ttn: 'TeraTestNet' } as const
+
+/**
+ * Shown above every Dashboard page while a watch-only wallet is open, so it
+ * is never mistaken for a wallet that can spend.
+ */
+const WatchOnlyBanner = () => {
+  const { watchOnly, closeWatchOnly } = useContext(WalletContext)
+  const history = useHistory()
+  const [closing, setClosing] = useState(false)
+
+  if (!watchOnly) return null
+
+  const handleClose = async () => {
+    setClosing(true)
+    try {
+      await closeWatchOnly()
+      history.push('/')
+    } finally {
+      setClosing(false)
+    }
+  }
+
+  return (
+    <Alert
+      severity='info'
+      icon={<VisibilityIcon />}
+      sx={{ position: 'sticky', top: 0, zIndex: 10, mb: 2 }}
+      action={
+        <Button color='inherit' size='small' onClick={handleClose} disabled={closing}>
+          Close
+        </Button>
+      }
+    >
+      <strong>Watch-only</strong> — {watchOnly.identityKey.slice(0, 12)}… on {CHAIN_NAMES[watchOnly.chain]}.
+      No keys are loaded: nothing can be signed, sent or changed.
+    </Alert>
+  )
+}
+
+export default WatchOnlyBanner
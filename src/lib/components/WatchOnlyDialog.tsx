@@ -0,0 +1,110 @@
+import React, { useContext, useEffect, useState } from 'react'
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  Stack,
+  TextField,
+  Typography
+} from '@mui/material'
+import { useHistory } from 'react-router-dom'
+import { WalletContext } from '../WalletContext'
+
+interface WatchOnlyDialogProps {
+  open: boolean
+  onClose: () => void
+}
+
+const IDENTITY_KEY = /^0[23][0-9a-fA-F]{64}$/
+
+/**
+ * Open a wallet watch-only from the Greeter: a watch-only export (Settings →
+ * Security), a wallet database file, or a database snapshot. The identity
+ * key is only needed when the file holds several wallets, and is checked
+ * against the file when given.
+ */
+const WatchOnlyDialog: React.FC<WatchOnlyDialogProps> = ({ open, onClose }) => {
+  const { openWatchOnly } = useContext(WalletContext)
+  const history = useHistory()
+  const [filePath, setFilePath] = useState<string | null>(null)
+  const [identityKey, setIdentityKey] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setFilePath(null)
+    setIdentityKey('')
+    setError(null)
+  }, [open])
+
+  const handleChooseFile = async () => {
+    setError(null)
+    const chosen = await window.electronAPI.watchOnly.chooseFile()
+    if (chosen) setFilePath(chosen)
+  }
+
+  const key = identityKey.trim().toLowerCase()
+  const keyInvalid = key !== '' && !IDENTITY_KEY.test(key)
+
+  const handleOpen = async () => {
+    if (!filePath || keyInvalid) return
+    setBusy(true)
+    setError(null)
+    try {
+      await openWatchOnly(filePath, key || undefined)
+      onClose()
+      history.push('/dashboard/activity')
+    } catch (err: any) {
+      setError(err?.message || String(err))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={busy ? undefined : onClose} maxWidth='sm' fullWidth>
+      <DialogTitle>Open watch-only wallet</DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ mb: 2 }}>
+          Browse a wallet's history, baskets and token holdings without its keys. Nothing can be
+          signed, sent or changed, and the file you choose is copied, never modified.
+        </DialogContentText>
+        <Stack spacing={2}>
+          <Stack direction='row' spacing={2} alignItems='center'>
+            <Button variant='outlined' onClick={handleChooseFile} disabled={busy}>
+              Choose file
+            </Button>
+            <Typography variant='body2' color='textSecondary' noWrap>
+              {filePath ?? 'No file selected'}
+            </Typography>
+          </Stack>
+          <TextField
+            label='Identity key (optional)'
+            helperText={keyInvalid
+              ? 'A 33-byte compressed public key in hex (66 characters, starting 02 or 03)'
+              : 'Needed only when the file holds several wallets'}
+            error={keyInvalid}
+            value={identityKey}
+            onChange={e => setIdentityKey(e.target.value)}
+            fullWidth
+            size='small'
+          />
+          {error && <Alert severity='error'>{error}</Alert>}
+        </Stack>
+      </DialogContent>
+      <DialogActions sx={{ p: 2 }}>
+        <Button onClick={onClose} disabled={busy}>Cancel</Button>
+        <Button variant='contained' onClick={handleOpen} disabled={busy || !filePath || keyInvalid}>
+          {busy ? 'Opening…' : 'Open'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+export default WatchOnlyDialog
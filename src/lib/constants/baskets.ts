@@ -29,5 +29,19 @@ export const DSTAS_BASKET = 'dstas-tokens';
  */
 export const BSV21_BASKET = 'bsv-21-tokens';
 
+/**
+ * Basket holding wallet-owned 1Sat Ordinals — single-satoshi inscriptions
+ * (collectibles). Kept apart from BSV-21 so a non-fungible sat never shows up
+ * in, or gets spent as, a fungible token balance.
+ */
+export const ORDINALS_BASKET = 'ordinals';
+
+/** Basket each fungible token protocol's UTXOs settle into, by protocol id. */
+export const TOKEN_PROTOCOL_BASKETS: Readonly<Record<string, string>> = {
+  stas: STAS_BASKET,
+  dstas: DSTAS_BASKET,
+  'bsv-21': BSV21_BASKET,
+};
+
 /** All token-protocol baskets, in protocol-id order. */
-export const TOKEN_BASKETS = [STAS_BASKET, DSTAS_BASKET, BSV21_BASKET] as const;
+export const TOKEN_BASKETS = [STAS_BASKET, DSTAS_BASKET, BSV21_BASKET, ORDINALS_BASKET] as const;
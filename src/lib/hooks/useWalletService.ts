@@ -11,7 +11,8 @@
 import { useContext, useEffect, useRef, useSyncExternalStore, useCallback } from 'react'
 import { UserContext } from '../UserContext'
 import { WalletService, WalletServiceSnapshot } from '../services/WalletService'
-import type { QueueSnapshot } from '../services/PermissionQueueManager'
+import type { QueueSnapshot, TokenSpendRequest } from '../services/PermissionQueueManager'
+import type { TokenSpendProtocol } from '../services/tokenSpendAllowances'
 import type { PeerPaySnapshot } from '../services/PeerPayManager'
 import { DEFAULT_PERMISSIONS_CONFIG } from '../WalletContext'
 
@@ -242,6 +243,25 @@ export function useWalletService() {
   const advanceSpendingQueue = useCallback(() => svc.permissionQueue.advanceSpendingQueue(), [svc])
   const advanceGroupQueue = useCallback(() => svc.permissionQueue.advanceGroupQueue(), [svc])
   const advanceCounterpartyPermissionQueue = useCallback(() => svc.permissionQueue.advanceCounterpartyPermissionQueue(), [svc])
+  const grantTokenSpend = useCallback(
+    (requestID: string, allowance?: { ceiling: string; days: number }) => svc.permissionQueue.grantTokenSpend(requestID, allowance),
+    [svc]
+  )
+  const denyTokenSpend = useCallback((requestID: string) => svc.permissionQueue.denyTokenSpend(requestID), [svc])
+  const requestTokenSpend = useCallback(
+    (args: Omit<TokenSpendRequest, 'requestID'>) => svc.permissionQueue.requestTokenSpend(args),
+    [svc]
+  )
+  const revokeTokenAllowance = useCallback(
+    (originator: string, protocol: TokenSpendProtocol, assetId: string) =>
+      svc.permissionQueue.revokeTokenAllowance(originator, protocol, assetId),
+    [svc]
+  )
+  const renewTokenAllowance = useCallback(
+    (originator: string, protocol: TokenSpendProtocol, assetId: string, days: number) =>
+      svc.permissionQueue.renewTokenAllowance(originator, protocol, assetId, days),
+    [svc]
+  )
   const startPactCooldownForCounterparty = useCallback(
     (originator: string, counterparty: string) => svc.permissionQueue.startPactCooldownForCounterparty(originator, counterparty),
     [svc]
@@ -261,6 +281,11 @@ export function useWalletService() {
   )
 
   const logout = useCallback(() => svc.logout(), [svc])
+  const openWatchOnly = useCallback(
+    (filePath: string, identityKey?: string) => svc.openWatchOnly(filePath, identityKey),
+    [svc]
+  )
+  const closeWatchOnly = useCallback(() => svc.closeWatchOnly(), [svc])
   const finalizeConfig = useCallback((wabConfig: any) => svc.configure(wabConfig), [svc])
   const saveEnhancedSnapshot = useCallback(
     (overrides?: any) => svc.saveEnhancedSnapshot(overrides),
@@ -372,6 +397,9 @@ export function useWalletService() {
     setActiveProfile,
     // Auth
     logout,
+    watchOnly: walletState.watchOnly,
+    openWatchOnly,
+    closeWatchOnly,
     adminOriginator: walletState.adminOriginator,
     setPasswordRetriever,
     setRecoveryKeySaver,
@@ -383,6 +411,8 @@ export function useWalletService() {
     spendingRequests: queueState.spendingRequests,
     groupPermissionRequests: queueState.groupPermissionRequests,
     counterpartyPermissionRequests: queueState.counterpartyPermissionRequests,
+    tokenSpendRequests: queueState.tokenSpendRequests,
+    tokenSpendAllowances: queueState.tokenSpendAllowances,
     startPactCooldownForCounterparty,
     advanceBasketQueue,
     advanceCertificateQueue,
@@ -390,6 +420,11 @@ export function useWalletService() {
     advanceSpendingQueue,
     advanceGroupQueue,
     advanceCounterpartyPermissionQueue,
+    grantTokenSpend,
+    denyTokenSpend,
+    requestTokenSpend,
+    revokeTokenAllowance,
+    renewTokenAllowance,
     // Wallet funder
     setWalletFunder,
     // Config
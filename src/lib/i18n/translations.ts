@@ -917,6 +917,21 @@ const en = {
     wallet_diagnosis_no_operations: 'No operations performed yet.',
     wallet_diagnosis_cancel: 'Cancel',
     wallet_diagnosis_confirm: 'Confirm',
+    wallet_diagnosis_db_title: 'Database Maintenance',
+    wallet_diagnosis_db_description: 'Check the local wallet database for damage, see which tables take the space, and compact it. A wallet with many transactions slows down as its write-ahead log and free space grow.',
+    wallet_diagnosis_db_check: 'Check Integrity',
+    wallet_diagnosis_db_size_report: 'Size Report',
+    wallet_diagnosis_db_checkpoint: 'Checkpoint WAL',
+    wallet_diagnosis_db_vacuum: 'Compact (VACUUM)',
+    wallet_diagnosis_db_vacuum_confirm_title: 'Compact Database',
+    wallet_diagnosis_db_vacuum_confirm_message: 'Compacting rewrites the whole database file and can take several minutes on a large wallet. The wallet waits until it finishes. Continue?',
+    wallet_diagnosis_db_healthy: 'No problems found in {{count}} tables.',
+    wallet_diagnosis_db_integrity_problems: 'SQLite reported {{count}} integrity problem(s). Restore a database snapshot or an encrypted backup.',
+    wallet_diagnosis_db_foreign_keys: '{{count}} row(s) in {{table}} refer to missing {{parent}} rows.',
+    wallet_diagnosis_db_orphaned_stas: '{{count}} STAS output row(s) refer to wallet outputs that no longer exist.',
+    wallet_diagnosis_db_file: 'Database',
+    wallet_diagnosis_db_reclaimable: 'Reclaimable',
+    wallet_diagnosis_db_rows: '{{count}} rows',
     trust_add_entity_title: 'Add Provider',
     trust_add_entity_domain_prompt: 'Enter the domain name for the provider you\'d like to add.',
     trust_add_entity_domain_label: 'Domain Name',
@@ -1845,6 +1860,21 @@ const es = {
     wallet_diagnosis_no_operations: 'Aún no se han realizado operaciones.',
     wallet_diagnosis_cancel: 'Cancelar',
     wallet_diagnosis_confirm: 'Confirmar',
+    wallet_diagnosis_db_title: 'Mantenimiento de la base de datos',
+    wallet_diagnosis_db_description: 'Comprueba si la base de datos local de la billetera está dañada, mira qué tablas ocupan espacio y compáctala. Una billetera con muchas transacciones se vuelve lenta a medida que crecen su registro de escritura anticipada y su espacio libre.',
+    wallet_diagnosis_db_check: 'Comprobar integridad',
+    wallet_diagnosis_db_size_report: 'Informe de tamaño',
+    wallet_diagnosis_db_checkpoint: 'Aplicar WAL',
+    wallet_diagnosis_db_vacuum: 'Compactar (VACUUM)',
+    wallet_diagnosis_db_vacuum_confirm_title: 'Compactar base de datos',
+    wallet_diagnosis_db_vacuum_confirm_message: 'Compactar reescribe todo el archivo de la base de datos y puede tardar varios minutos en una billetera grande. La billetera espera hasta que termine. ¿Continuar?',
+    wallet_diagnosis_db_healthy: 'No se encontraron problemas en {{count}} tablas.',
+    wallet_diagnosis_db_integrity_problems: 'SQLite informó {{count}} problema(s) de integridad. Restaura una instantánea de la base de datos o una copia de seguridad cifrada.',
+    wallet_diagnosis_db_foreign_keys: '{{count}} fila(s) de {{table}} hacen referencia a filas de {{parent}} que no existen.',
+    wallet_diagnosis_db_orphaned_stas: '{{count}} fila(s) de salidas STAS hacen referencia a salidas de la billetera que ya no existen.',
+    wallet_diagnosis_db_file: 'Base de datos',
+    wallet_diagnosis_db_reclaimable: 'Recuperable',
+    wallet_diagnosis_db_rows: '{{count}} filas',
     trust_add_entity_title: 'Agregar proveedor',
     trust_add_entity_domain_prompt: 'Ingresa el nombre de dominio del proveedor que deseas agregar.',
     trust_add_entity_domain_label: 'Nombre de dominio',
@@ -2785,6 +2815,21 @@ const fr = {
     wallet_diagnosis_no_operations: 'Aucune opération effectuée pour l\'instant.',
     wallet_diagnosis_cancel: 'Annuler',
     wallet_diagnosis_confirm: 'Confirmer',
+    wallet_diagnosis_db_title: 'Maintenance de la base de données',
+    wallet_diagnosis_db_description: 'Vérifiez que la base de données locale du portefeuille n\'est pas endommagée, voyez quelles tables occupent l\'espace et compactez-la. Un portefeuille avec beaucoup de transactions ralentit à mesure que son journal WAL et son espace libre grossissent.',
+    wallet_diagnosis_db_check: 'Vérifier l\'intégrité',
+    wallet_diagnosis_db_size_report: 'Rapport de taille',
+    wallet_diagnosis_db_checkpoint: 'Appliquer le WAL',
+    wallet_diagnosis_db_vacuum: 'Compacter (VACUUM)',
+    wallet_diagnosis_db_vacuum_confirm_title: 'Compacter la base de données',
+    wallet_diagnosis_db_vacuum_confirm_message: 'Le compactage réécrit tout le fichier de la base de données et peut prendre plusieurs minutes pour un gros portefeuille. Le portefeuille attend la fin de l\'opération. Continuer ?',
+    wallet_diagnosis_db_healthy: 'Aucun problème trouvé dans {{count}} tables.',
+    wallet_diagnosis_db_integrity_problems: 'SQLite a signalé {{count}} problème(s) d\'intégrité. Restaurez un instantané de la base de données ou une sauvegarde chiffrée.',
+    wallet_diagnosis_db_foreign_keys: '{{count}} ligne(s) de {{table}} font référence à des lignes {{parent}} manquantes.',
+    wallet_diagnosis_db_orphaned_stas: '{{count}} ligne(s) de sorties STAS font référence à des sorties du portefeuille qui n\'existent plus.',
+    wallet_diagnosis_db_file: 'Base de données',
+    wallet_diagnosis_db_reclaimable: 'Récupérable',
+    wallet_diagnosis_db_rows: '{{count}} lignes',
     trust_add_entity_title: 'Ajouter un fournisseur',
     trust_add_entity_domain_prompt: 'Entrez le nom de domaine du fournisseur que vous souhaitez ajouter.',
     trust_add_entity_domain_label: 'Nom de domaine',
@@ -3725,6 +3770,21 @@ const pt = {
     wallet_diagnosis_no_operations: 'Nenhuma operação realizada ainda.',
     wallet_diagnosis_cancel: 'Cancelar',
     wallet_diagnosis_confirm: 'Confirmar',
+    wallet_diagnosis_db_title: 'Manutenção do banco de dados',
+    wallet_diagnosis_db_description: 'Verifique se o banco de dados local da carteira está danificado, veja quais tabelas ocupam espaço e compacte-o. Uma carteira com muitas transações fica lenta à medida que o log de gravação antecipada e o espaço livre crescem.',
+    wallet_diagnosis_db_check: 'Verificar integridade',
+    wallet_diagnosis_db_size_report: 'Relatório de tamanho',
+    wallet_diagnosis_db_checkpoint: 'Aplicar WAL',
+    wallet_diagnosis_db_vacuum: 'Compactar (VACUUM)',
+    wallet_diagnosis_db_vacuum_confirm_title: 'Compactar banco de dados',
+    wallet_diagnosis_db_vacuum_confirm_message: 'A compactação reescreve todo o arquivo do banco de dados e pode levar vários minutos em uma carteira grande. A carteira aguarda até terminar. Continuar?',
+    wallet_diagnosis_db_healthy: 'Nenhum problema encontrado em {{count}} tabelas.',
+    wallet_diagnosis_db_integrity_problems: 'O SQLite relatou {{count}} problema(s) de integridade. Restaure um snapshot do banco de dados ou um backup criptografado.',
+    wallet_diagnosis_db_foreign_keys: '{{count}} linha(s) em {{table}} referem-se a linhas de {{parent}} inexistentes.',
+    wallet_diagnosis_db_orphaned_stas: '{{count}} linha(s) de saídas STAS referem-se a saídas da carteira que não existem mais.',
+    wallet_diagnosis_db_file: 'Banco de dados',
+    wallet_diagnosis_db_reclaimable: 'Recuperável',
+    wallet_diagnosis_db_rows: '{{count}} linhas',
     trust_add_entity_title: 'Adicionar provedor',
     trust_add_entity_domain_prompt: 'Digite o nome de domínio do provedor que você deseja adicionar.',
     trust_add_entity_domain_label: 'Nome de domínio',
@@ -4665,6 +4725,21 @@ const zh = {
     wallet_diagnosis_no_operations: '暂无已执行的操作。',
     wallet_diagnosis_cancel: '取消',
     wallet_diagnosis_confirm: '确认',
+    wallet_diagnosis_db_title: '数据库维护',
+    wallet_diagnosis_db_description: '检查本地钱包数据库是否损坏，查看哪些表占用空间，并压缩数据库。交易很多的钱包会随着预写日志和空闲空间的增长而变慢。',
+    wallet_diagnosis_db_check: '检查完整性',
+    wallet_diagnosis_db_size_report: '大小报告',
+    wallet_diagnosis_db_checkpoint: '检查点 WAL',
+    wallet_diagnosis_db_vacuum: '压缩 (VACUUM)',
+    wallet_diagnosis_db_vacuum_confirm_title: '压缩数据库',
+    wallet_diagnosis_db_vacuum_confirm_message: '压缩会重写整个数据库文件，大型钱包可能需要几分钟。钱包会等待其完成。是否继续？',
+    wallet_diagnosis_db_healthy: '在 {{count}} 个表中未发现问题。',
+    wallet_diagnosis_db_integrity_problems: 'SQLite 报告了 {{count}} 个完整性问题。请恢复数据库快照或加密备份。',
+    wallet_diagnosis_db_foreign_keys: '{{table}} 中有 {{count}} 行引用了不存在的 {{parent}} 行。',
+    wallet_diagnosis_db_orphaned_stas: '有 {{count}} 行 STAS 输出引用了已不存在的钱包输出。',
+    wallet_diagnosis_db_file: '数据库',
+    wallet_diagnosis_db_reclaimable: '可回收',
+    wallet_diagnosis_db_rows: '{{count}} 行',
     trust_add_entity_title: '添加提供商',
     trust_add_entity_domain_prompt: '输入您要添加的提供商的域名。',
     trust_add_entity_domain_label: '域名',
@@ -5605,6 +5680,21 @@ const hi = {
     wallet_diagnosis_no_operations: 'अभी तक कोई ऑपरेशन नहीं किया गया।',
     wallet_diagnosis_cancel: 'रद्द करें',
     wallet_diagnosis_confirm: 'पुष्टि करें',
+    wallet_diagnosis_db_title: 'डेटाबेस रखरखाव',
+    wallet_diagnosis_db_description: 'स्थानीय वॉलेट डेटाबेस में क्षति की जाँच करें, देखें कि कौन सी तालिकाएँ जगह लेती हैं, और इसे संकुचित करें। कई लेनदेन वाला वॉलेट राइट-अहेड लॉग और खाली जगह बढ़ने के साथ धीमा हो जाता है।',
+    wallet_diagnosis_db_check: 'अखंडता जाँचें',
+    wallet_diagnosis_db_size_report: 'आकार रिपोर्ट',
+    wallet_diagnosis_db_checkpoint: 'WAL चेकपॉइंट',
+    wallet_diagnosis_db_vacuum: 'संकुचित करें (VACUUM)',
+    wallet_diagnosis_db_vacuum_confirm_title: 'डेटाबेस संकुचित करें',
+    wallet_diagnosis_db_vacuum_confirm_message: 'संकुचन पूरी डेटाबेस फ़ाइल को फिर से लिखता है और बड़े वॉलेट पर कई मिनट ले सकता है। वॉलेट इसके पूरा होने तक प्रतीक्षा करता है। जारी रखें?',
+    wallet_diagnosis_db_healthy: '{{count}} तालिकाओं में कोई समस्या नहीं मिली।',
+    wallet_diagnosis_db_integrity_problems: 'SQLite ने {{count}} अखंडता समस्या(एँ) बताईं। डेटाबेस स्नैपशॉट या एन्क्रिप्टेड बैकअप पुनर्स्थापित करें।',
+    wallet_diagnosis_db_foreign_keys: '{{table}} की {{count}} पंक्ति(याँ) गायब {{parent}} पंक्तियों को संदर्भित करती हैं।',
+    wallet_diagnosis_db_orphaned_stas: '{{count}} STAS आउटपुट पंक्ति(याँ) उन वॉलेट आउटपुट को संदर्भित करती हैं जो अब मौजूद नहीं हैं।',
+    wallet_diagnosis_db_file: 'डेटाबेस',
+    wallet_diagnosis_db_reclaimable: 'पुनः प्राप्त योग्य',
+    wallet_diagnosis_db_rows: '{{count}} पंक्तियाँ',
     trust_add_entity_title: 'प्रदाता जोड़ें',
     trust_add_entity_domain_prompt: 'उस प्रदाता का डोमेन नाम दर्ज करें जिसे आप जोड़ना चाहते हैं।',
     trust_add_entity_domain_label: 'डोमेन नाम',
@@ -6545,6 +6635,21 @@ const bn = {
     wallet_diagnosis_no_operations: 'এখনও কোনো অপারেশন সম্পন্ন হয়নি।',
     wallet_diagnosis_cancel: 'বাতিল করুন',
     wallet_diagnosis_confirm: 'নিশ্চিত করুন',
+    wallet_diagnosis_db_title: 'ডেটাবেস রক্ষণাবেক্ষণ',
+    wallet_diagnosis_db_description: 'স্থানীয় ওয়ালেট ডেটাবেসে ক্ষতি আছে কিনা পরীক্ষা করুন, কোন টেবিল জায়গা নিচ্ছে দেখুন এবং এটি সংকুচিত করুন। অনেক লেনদেনসহ ওয়ালেট রাইট-অ্যাহেড লগ ও খালি জায়গা বাড়ার সাথে ধীর হয়ে যায়।',
+    wallet_diagnosis_db_check: 'অখণ্ডতা পরীক্ষা',
+    wallet_diagnosis_db_size_report: 'আকারের প্রতিবেদন',
+    wallet_diagnosis_db_checkpoint: 'WAL চেকপয়েন্ট',
+    wallet_diagnosis_db_vacuum: 'সংকুচিত করুন (VACUUM)',
+    wallet_diagnosis_db_vacuum_confirm_title: 'ডেটাবেস সংকুচিত করুন',
+    wallet_diagnosis_db_vacuum_confirm_message: 'সংকোচন পুরো ডেটাবেস ফাইল পুনরায় লেখে এবং বড় ওয়ালেটে কয়েক মিনিট লাগতে পারে। এটি শেষ না হওয়া পর্যন্ত ওয়ালেট অপেক্ষা করে। চালিয়ে যাবেন?',
+    wallet_diagnosis_db_healthy: '{{count}}টি টেবিলে কোনো সমস্যা পাওয়া যায়নি।',
+    wallet_diagnosis_db_integrity_problems: 'SQLite {{count}}টি অখণ্ডতা সমস্যা জানিয়েছে। একটি ডেটাবেস স্ন্যাপশট বা এনক্রিপ্টেড ব্যাকআপ পুনরুদ্ধার করুন।',
+    wallet_diagnosis_db_foreign_keys: '{{table}}-এর {{count}}টি সারি অনুপস্থিত {{parent}} সারি নির্দেশ করে।',
+    wallet_diagnosis_db_orphaned_stas: '{{count}}টি STAS আউটপুট সারি এমন ওয়ালেট আউটপুট নির্দেশ করে যা আর নেই।',
+    wallet_diagnosis_db_file: 'ডেটাবেস',
+    wallet_diagnosis_db_reclaimable: 'পুনরুদ্ধারযোগ্য',
+    wallet_diagnosis_db_rows: '{{count}}টি সারি',
     trust_add_entity_title: 'প্রদানকারী যোগ করুন',
     trust_add_entity_domain_prompt: 'আপনি যে প্রদানকারী যোগ করতে চান তার ডোমেইন নাম দিন।',
     trust_add_entity_domain_label: 'ডোমেইন নাম',
@@ -7485,6 +7590,21 @@ const ar = {
     wallet_diagnosis_no_operations: 'لم يتم تنفيذ أي عمليات حتى الآن.',
     wallet_diagnosis_cancel: 'إلغاء',
     wallet_diagnosis_confirm: 'تأكيد',
+    wallet_diagnosis_db_title: 'صيانة قاعدة البيانات',
+    wallet_diagnosis_db_description: 'افحص قاعدة بيانات المحفظة المحلية بحثًا عن تلف، واعرف الجداول التي تشغل المساحة، واضغطها. تصبح المحفظة التي تحتوي على معاملات كثيرة أبطأ كلما كبر سجل الكتابة المسبقة والمساحة الفارغة.',
+    wallet_diagnosis_db_check: 'فحص السلامة',
+    wallet_diagnosis_db_size_report: 'تقرير الحجم',
+    wallet_diagnosis_db_checkpoint: 'نقطة تفتيش WAL',
+    wallet_diagnosis_db_vacuum: 'ضغط (VACUUM)',
+    wallet_diagnosis_db_vacuum_confirm_title: 'ضغط قاعدة البيانات',
+    wallet_diagnosis_db_vacuum_confirm_message: 'يعيد الضغط كتابة ملف قاعدة البيانات بالكامل وقد يستغرق عدة دقائق في محفظة كبيرة. تنتظر المحفظة حتى ينتهي. هل تريد المتابعة؟',
+    wallet_diagnosis_db_healthy: 'لم يتم العثور على مشكلات في {{count}} جدولًا.',
+    wallet_diagnosis_db_integrity_problems: 'أبلغ SQLite عن {{count}} مشكلة سلامة. استعد لقطة لقاعدة البيانات أو نسخة احتياطية مشفرة.',
+    wallet_diagnosis_db_foreign_keys: '{{count}} صف في {{table}} يشير إلى صفوف {{parent}} مفقودة.',
+    wallet_diagnosis_db_orphaned_stas: '{{count}} صف من مخرجات STAS يشير إلى مخرجات محفظة لم تعد موجودة.',
+    wallet_diagnosis_db_file: 'قاعدة البيانات',
+    wallet_diagnosis_db_reclaimable: 'قابل للاسترداد',
+    wallet_diagnosis_db_rows: '{{count}} صف',
     trust_add_entity_title: 'إضافة مزوّد',
     trust_add_entity_domain_prompt: 'أدخل اسم النطاق للمزوّد الذي تريد إضافته.',
     trust_add_entity_domain_label: 'اسم النطاق',
@@ -8425,6 +8545,21 @@ const ru = {
     wallet_diagnosis_no_operations: 'Операции ещё не выполнялись.',
     wallet_diagnosis_cancel: 'Отмена',
     wallet_diagnosis_confirm: 'Подтвердить',
+    wallet_diagnosis_db_title: 'Обслуживание базы данных',
+    wallet_diagnosis_db_description: 'Проверьте локальную базу данных кошелька на повреждения, посмотрите, какие таблицы занимают место, и сожмите её. Кошелёк с большим числом транзакций замедляется по мере роста журнала упреждающей записи и свободного места.',
+    wallet_diagnosis_db_check: 'Проверить целостность',
+    wallet_diagnosis_db_size_report: 'Отчёт о размере',
+    wallet_diagnosis_db_checkpoint: 'Контрольная точка WAL',
+    wallet_diagnosis_db_vacuum: 'Сжать (VACUUM)',
+    wallet_diagnosis_db_vacuum_confirm_title: 'Сжать базу данных',
+    wallet_diagnosis_db_vacuum_confirm_message: 'Сжатие перезаписывает весь файл базы данных и может занять несколько минут для большого кошелька. Кошелёк ждёт его завершения. Продолжить?',
+    wallet_diagnosis_db_healthy: 'В {{count}} таблицах проблем не найдено.',
+    wallet_diagnosis_db_integrity_problems: 'SQLite сообщил о проблемах целостности: {{count}}. Восстановите снимок базы данных или зашифрованную резервную копию.',
+    wallet_diagnosis_db_foreign_keys: 'Строк в {{table}}, ссылающихся на отсутствующие строки {{parent}}: {{count}}.',
+    wallet_diagnosis_db_orphaned_stas: 'Строк выходов STAS, ссылающихся на уже несуществующие выходы кошелька: {{count}}.',
+    wallet_diagnosis_db_file: 'База данных',
+    wallet_diagnosis_db_reclaimable: 'Можно освободить',
+    wallet_diagnosis_db_rows: 'Строк: {{count}}',
     trust_add_entity_title: 'Добавить провайдера',
     trust_add_entity_domain_prompt: 'Введите доменное имя провайдера, которого вы хотите добавить.',
     trust_add_entity_domain_label: 'Доменное имя',
@@ -9365,6 +9500,21 @@ const id = {
     wallet_diagnosis_no_operations: 'Belum ada operasi yang dilakukan.',
     wallet_diagnosis_cancel: 'Batal',
     wallet_diagnosis_confirm: 'Konfirmasi',
+    wallet_diagnosis_db_title: 'Pemeliharaan Basis Data',
+    wallet_diagnosis_db_description: 'Periksa kerusakan basis data dompet lokal, lihat tabel mana yang memakan ruang, dan padatkan. Dompet dengan banyak transaksi menjadi lambat seiring bertambahnya log write-ahead dan ruang kosongnya.',
+    wallet_diagnosis_db_check: 'Periksa Integritas',
+    wallet_diagnosis_db_size_report: 'Laporan Ukuran',
+    wallet_diagnosis_db_checkpoint: 'Checkpoint WAL',
+    wallet_diagnosis_db_vacuum: 'Padatkan (VACUUM)',
+    wallet_diagnosis_db_vacuum_confirm_title: 'Padatkan Basis Data',
+    wallet_diagnosis_db_vacuum_confirm_message: 'Pemadatan menulis ulang seluruh file basis data dan dapat memakan waktu beberapa menit pada dompet besar. Dompet menunggu hingga selesai. Lanjutkan?',
+    wallet_diagnosis_db_healthy: 'Tidak ada masalah ditemukan di {{count}} tabel.',
+    wallet_diagnosis_db_integrity_problems: 'SQLite melaporkan {{count}} masalah integritas. Pulihkan snapshot basis data atau cadangan terenkripsi.',
+    wallet_diagnosis_db_foreign_keys: '{{count}} baris di {{table}} merujuk ke baris {{parent}} yang hilang.',
+    wallet_diagnosis_db_orphaned_stas: '{{count}} baris output STAS merujuk ke output dompet yang sudah tidak ada.',
+    wallet_diagnosis_db_file: 'Basis data',
+    wallet_diagnosis_db_reclaimable: 'Dapat diklaim kembali',
+    wallet_diagnosis_db_rows: '{{count}} baris',
     trust_add_entity_title: 'Tambah Penyedia',
     trust_add_entity_domain_prompt: 'Masukkan nama domain untuk penyedia yang ingin Anda tambahkan.',
     trust_add_entity_domain_label: 'Nama Domain',
@@ -10368,6 +10518,21 @@ const ja = {
     wallet_diagnosis_no_operations: 'まだ操作が実行されていません。',
     wallet_diagnosis_cancel: 'キャンセル',
     wallet_diagnosis_confirm: '確認',
+    wallet_diagnosis_db_title: 'データベースのメンテナンス',
+    wallet_diagnosis_db_description: 'ローカルのウォレットデータベースに破損がないか確認し、どのテーブルが容量を使っているかを調べ、圧縮します。取引の多いウォレットは、先行書き込みログと空き領域が増えるにつれて遅くなります。',
+    wallet_diagnosis_db_check: '整合性をチェック',
+    wallet_diagnosis_db_size_report: 'サイズレポート',
+    wallet_diagnosis_db_checkpoint: 'WAL チェックポイント',
+    wallet_diagnosis_db_vacuum: '圧縮 (VACUUM)',
+    wallet_diagnosis_db_vacuum_confirm_title: 'データベースを圧縮',
+    wallet_diagnosis_db_vacuum_confirm_message: '圧縮はデータベースファイル全体を書き直すため、大きなウォレットでは数分かかることがあります。完了するまでウォレットは待機します。続行しますか？',
+    wallet_diagnosis_db_healthy: '{{count}} 個のテーブルに問題は見つかりませんでした。',
+    wallet_diagnosis_db_integrity_problems: 'SQLite が {{count}} 件の整合性の問題を報告しました。データベースのスナップショットまたは暗号化バックアップを復元してください。',
+    wallet_diagnosis_db_foreign_keys: '{{table}} の {{count}} 行が存在しない {{parent}} の行を参照しています。',
+    wallet_diagnosis_db_orphaned_stas: '{{count}} 行の STAS 出力が、もう存在しないウォレット出力を参照しています。',
+    wallet_diagnosis_db_file: 'データベース',
+    wallet_diagnosis_db_reclaimable: '回収可能',
+    wallet_diagnosis_db_rows: '{{count}} 行',
     trust_add_entity_title: 'プロバイダーを追加',
     trust_add_entity_domain_prompt: '追加したいプロバイダーのドメイン名を入力してください。',
     trust_add_entity_domain_label: 'ドメイン名',
@@ -11354,6 +11519,21 @@ const pl = {
     wallet_diagnosis_no_operations: 'Nie wykonano jeszcze żadnych operacji.',
     wallet_diagnosis_cancel: 'Anuluj',
     wallet_diagnosis_confirm: 'Potwierdź',
+    wallet_diagnosis_db_title: 'Konserwacja bazy danych',
+    wallet_diagnosis_db_description: 'Sprawdź, czy lokalna baza danych portfela nie jest uszkodzona, zobacz, które tabele zajmują miejsce, i skompaktuj ją. Portfel z wieloma transakcjami zwalnia w miarę wzrostu dziennika zapisu z wyprzedzeniem i wolnego miejsca.',
+    wallet_diagnosis_db_check: 'Sprawdź integralność',
+    wallet_diagnosis_db_size_report: 'Raport rozmiaru',
+    wallet_diagnosis_db_checkpoint: 'Punkt kontrolny WAL',
+    wallet_diagnosis_db_vacuum: 'Kompaktuj (VACUUM)',
+    wallet_diagnosis_db_vacuum_confirm_title: 'Kompaktuj bazę danych',
+    wallet_diagnosis_db_vacuum_confirm_message: 'Kompaktowanie zapisuje od nowa cały plik bazy danych i w dużym portfelu może potrwać kilka minut. Portfel czeka na jego zakończenie. Kontynuować?',
+    wallet_diagnosis_db_healthy: 'Nie znaleziono problemów w {{count}} tabelach.',
+    wallet_diagnosis_db_integrity_problems: 'SQLite zgłosił problemy z integralnością: {{count}}. Przywróć migawkę bazy danych lub zaszyfrowaną kopię zapasową.',
+    wallet_diagnosis_db_foreign_keys: 'Wiersze w {{table}} odwołujące się do brakujących wierszy {{parent}}: {{count}}.',
+    wallet_diagnosis_db_orphaned_stas: 'Wiersze wyjść STAS odwołujące się do nieistniejących już wyjść portfela: {{count}}.',
+    wallet_diagnosis_db_file: 'Baza danych',
+    wallet_diagnosis_db_reclaimable: 'Do odzyskania',
+    wallet_diagnosis_db_rows: 'Wiersze: {{count}}',
     trust_add_entity_title: 'Dodaj dostawcę',
     trust_add_entity_domain_prompt: 'Wprowadź nazwę domeny dostawcy, którego chcesz dodać.',
     trust_add_entity_domain_label: 'Nazwa domeny',
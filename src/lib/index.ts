@@ -17,6 +17,7 @@ export { default as PasswordHandler } from './components/PasswordHandler'
 export { default as RecoveryKeyHandler } from './components/RecoveryKeyHandler'
 export { default as SpendingAuthorizationHandler } from './components/SpendingAuthorizationHandler'
 export { default as SpendingAuthorizationList } from './components/SpendingAuthorizationList'
+export { default as TokenSpendingAuthorizationList } from './components/TokenSpendingAuthorizationList'
 
 // Chips
 export { default as ProtoChip } from './components/ProtoChip'
@@ -20,6 +20,7 @@ import VerifiedUserIcon from '@mui/icons-material/VerifiedUser'
 import GridViewIcon from '@mui/icons-material/GridView'
 import ReceiptLongIcon from '@mui/icons-material/ReceiptLong'
 import QrCodeIcon from '@mui/icons-material/QrCode'
+import HistoryIcon from '@mui/icons-material/History'
 import {
   List,
   ListItemButton,
@@ -44,6 +45,7 @@ import {
   FormControlLabel
 } from '@mui/material'
 import Profile from '../components/Profile.js'
+import VaultProfileSwitcher from '../components/VaultProfileSwitcher.js'
 import React, { useState, useContext, useEffect, useCallback } from 'react'
 import { toast } from 'react-toastify'
 import { useHistory } from 'react-router'
@@ -127,8 +129,8 @@ export default function Menu({ menuOpen, setMenuOpen, menuRef }: MenuProps) {
   useEffect(() => {
     let cancelled = false
     const run = async () => {
-      if (!managers?.walletManager || !activeProfile?.name) return
-      const cacheKey = `funds_${activeProfile.name}`
+      if (!managers?.walletManager || !activeProfile?.identityKey) return
+      const cacheKey = `funds_${activeProfile.identityKey}`
       const cached = localStorage.getItem(cacheKey)
       if (!cached) return
       try {
@@ -191,7 +193,7 @@ export default function Menu({ menuOpen, setMenuOpen, menuRef }: MenuProps) {
 
     void run()
     return () => { cancelled = true }
-  }, [activeProfile?.name, managers?.walletManager])
+  }, [activeProfile?.identityKey, managers?.walletManager])
 
   // Second useEffect to handle outside clicks
   useEffect(() => {
@@ -219,7 +221,8 @@ export default function Menu({ menuOpen, setMenuOpen, menuRef }: MenuProps) {
     {
       return
     }
-    const cacheKey = `funds_${newProfileName.trim()}`
+    // Keyed by the funded profile's identity, the only one that can claim it.
+    const cacheKey = `funds_${profile}`
     const pd = new PushDrop(managers.walletManager)
     const fields = [Utils.toArray(`Funding Wallet: ${newProfileName.trim()}`)]
     const counterparty = profile
@@ -605,6 +608,9 @@ export default function Menu({ menuOpen, setMenuOpen, menuRef }: MenuProps) {
           </>
         )}
 
+        {/* Vault profiles: separately sealed wallets on this computer (desktop only) */}
+        <VaultProfileSwitcher />
+
         <List component="nav" sx={{ mb: 2 }}>
           <ListItemButton
             onClick={() => navigation.push('/dashboard/app-catalog')}
@@ -786,6 +792,26 @@ export default function Menu({ menuOpen, setMenuOpen, menuRef }: MenuProps) {
             />
           </ListItemButton>
 
+          <ListItemButton
+            onClick={() => navigation.push('/dashboard/activity')}
+            selected={history.location.pathname === '/dashboard/activity'}
+            sx={menuItemStyle(history.location.pathname === '/dashboard/activity')}
+          >
+            <ListItemIcon sx={{ minWidth: 40, color: history.location.pathname === '/dashboard/activity' ? 'primary.main' : 'inherit' }}>
+              <HistoryIcon />
+            </ListItemIcon>
+            <ListItemText
+              primary={
+                <Typography
+                  variant="body1"
+                  fontWeight={history.location.pathname === '/dashboard/activity' ? 600 : 400}
+                >
+                  Activity
+                </Typography>
+              }
+            />
+          </ListItemButton>
+
           <ListItemButton
             onClick={() => navigation.push('/dashboard/legacybridge')}
             selected={history.location.pathname === '/dashboard/legacybridge'}
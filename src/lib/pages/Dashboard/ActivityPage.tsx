@@ -0,0 +1,299 @@
+/**
+ * ActivityPage — what connected apps have done with this wallet.
+ *
+ * Reads `bridge_audit_log` (one row per request an app sent over the local
+ * BRC-100 bridge) over the stas:query IPC. Filter by app, method, outcome
+ * and date range; export the filtered history as CSV or JSON.
+ */
+
+import { useCallback, useContext, useEffect, useState } from 'react'
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Button,
+  Stack,
+  Chip,
+  Divider,
+  CircularProgress,
+  MenuItem,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  TablePagination,
+  TextField,
+  Paper,
+} from '@mui/material'
+import RefreshIcon from '@mui/icons-material/Refresh'
+import HistoryIcon from '@mui/icons-material/History'
+import DownloadIcon from '@mui/icons-material/Download'
+import { toast } from 'react-toastify'
+import { WalletContext } from '../../WalletContext'
+import { useExportDataToFile } from '../../utils/exportDataToFile'
+import {
+  bridgeAuditToCsv,
+  listBridgeAudit,
+  listBridgeAuditFacets,
+  type BridgeAuditEntry,
+  type BridgeAuditFilter,
+  type BridgeAuditOutcome,
+} from '../../services/bridgeAudit'
+
+const OUTCOMES: BridgeAuditOutcome[] = ['approved', 'denied', 'cancelled', 'disconnected', 'error']
+
+const OUTCOME_COLORS: Record<BridgeAuditOutcome, 'success' | 'error' | 'warning' | 'default'> = {
+  approved: 'success',
+  denied: 'error',
+  cancelled: 'warning',
+  disconnected: 'warning',
+  error: 'default',
+}
+
+/** `yyyy-mm-dd` from a date input → ISO bound in local time. */
+function dayBound(day: string, endOfDay: boolean): string | undefined {
+  if (!day) return undefined
+  const d = new Date(`${day}T00:00:00`)
+  if (endOfDay) d.setDate(d.getDate() + 1)
+  return d.toISOString()
+}
+
+export default function ActivityPage() {
+  const { stas } = useContext(WalletContext)
+  const exportData = useExportDataToFile()
+  const identityKey = stas?.keyDeriver?.identityKey
+  const chain = stas?.keyDeriver?.chain
+
+  const [origin, setOrigin] = useState('')
+  const [path, setPath] = useState('')
+  const [outcome, setOutcome] = useState<BridgeAuditOutcome | ''>('')
+  const [fromDay, setFromDay] = useState('')
+  const [toDay, setToDay] = useState('')
+  const [page, setPage] = useState(0)
+  const [rowsPerPage, setRowsPerPage] = useState(25)
+
+  const [facets, setFacets] = useState<{ origins: string[]; paths: string[] }>({ origins: [], paths: [] })
+  const [rows, setRows] = useState<BridgeAuditEntry[] | null>(null)
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const buildFilter = useCallback((): BridgeAuditFilter => ({
+    origin: origin || undefined,
+    path: path || undefined,
+    outcome: outcome || undefined,
+    since: dayBound(fromDay, false),
+    until: dayBound(toDay, true),
+  }), [origin, path, outcome, fromDay, toDay])
+
+  const load = useCallback(async () => {
+    if (!identityKey || !chain) return
+    setLoading(true)
+    setError(null)
+    try {
+      const target = { identityKey, chain }
+      const [result, nextFacets] = await Promise.all([
+        listBridgeAudit(target, { ...buildFilter(), limit: rowsPerPage, offset: page * rowsPerPage }),
+        listBridgeAuditFacets(target),
+      ])
+      setRows(result.rows)
+      setTotal(result.total)
+      setFacets(nextFacets)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setLoading(false)
+    }
+  }, [identityKey, chain, buildFilter, page, rowsPerPage])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    if (!identityKey || !chain) return
+    try {
+      const { rows: all } = await listBridgeAudit({ identityKey, chain }, buildFilter())
+      const stamp = new Date().toISOString().slice(0, 10)
+      if (format === 'csv') {
+        await exportData({ data: bridgeAuditToCsv(all), filename: `wallet-activity-${stamp}.csv`, type: 'text/plain' })
+      } else {
+        await exportData({ data: all, filename: `wallet-activity-${stamp}.json`, type: 'application/json' })
+      }
+    } catch (e) {
+      toast.error(`Export failed: ${e instanceof Error ? e.message : String(e)}`)
+    }
+  }
+
+  const resetPageAnd = <T,>(setter: (v: T) => void) => (v: T) => {
+    setPage(0)
+    setter(v)
+  }
+
+  return (
+    <Card sx={{ m: 2 }}>
+      <CardContent>
+        <Stack
+          direction={{ xs: 'column', sm: 'row' }}
+          justifyContent='space-between'
+          alignItems={{ xs: 'stretch', sm: 'center' }}
+          spacing={2}
+          sx={{ mb: 1 }}
+        >
+          <Box sx={{ minWidth: 0 }}>
+            <Typography variant='h6' sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <HistoryIcon fontSize='small' /> Activity
+            </Typography>
+            <Typography variant='caption' color='text.secondary'>
+              Every request connected apps sent to this wallet, the prompts it raised and how it ended.
+              Request contents are not stored, only a fingerprint of them.
+            </Typography>
+          </Box>
+          <Stack direction='row' spacing={1} sx={{ flexShrink: 0 }}>
+            <Button
+              variant='outlined'
+              size='small'
+              startIcon={loading ? <CircularProgress size={14} /> : <RefreshIcon />}
+              onClick={load}
+              disabled={!identityKey || loading}
+            >
+              {loading ? 'Loading…' : 'Refresh'}
+            </Button>
+            <Button size='small' startIcon={<DownloadIcon />} onClick={() => handleExport('csv')} disabled={!total}>
+              CSV
+            </Button>
+            <Button size='small' startIcon={<DownloadIcon />} onClick={() => handleExport('json')} disabled={!total}>
+              JSON
+            </Button>
+          </Stack>
+        </Stack>
+
+        <Divider sx={{ my: 2 }} />
+
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={1.5} sx={{ mb: 2 }}>
+          <TextField
+            select
+            size='small'
+            label='App'
+            value={origin}
+            onChange={(e) => resetPageAnd(setOrigin)(e.target.value)}
+            sx={{ minWidth: 180 }}
+          >
+            <MenuItem value=''>All apps</MenuItem>
+            {facets.origins.map((o) => <MenuItem key={o} value={o}>{o}</MenuItem>)}
+          </TextField>
+          <TextField
+            select
+            size='small'
+            label='Method'
+            value={path}
+            onChange={(e) => resetPageAnd(setPath)(e.target.value)}
+            sx={{ minWidth: 180 }}
+          >
+            <MenuItem value=''>All methods</MenuItem>
+            {facets.paths.map((p) => <MenuItem key={p} value={p}>{p}</MenuItem>)}
+          </TextField>
+          <TextField
+            select
+            size='small'
+            label='Outcome'
+            value={outcome}
+            onChange={(e) => resetPageAnd(setOutcome)(e.target.value as BridgeAuditOutcome | '')}
+            sx={{ minWidth: 140 }}
+          >
+            <MenuItem value=''>Any</MenuItem>
+            {OUTCOMES.map((o) => <MenuItem key={o} value={o}>{o}</MenuItem>)}
+          </TextField>
+          <TextField
+            type='date'
+            size='small'
+            label='From'
+            value={fromDay}
+            onChange={(e) => resetPageAnd(setFromDay)(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            type='date'
+            size='small'
+            label='To'
+            value={toDay}
+            onChange={(e) => resetPageAnd(setToDay)(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+        </Stack>
+
+        {error && (
+          <Typography color='error' variant='caption' display='block' sx={{ mb: 1 }}>
+            {error}
+          </Typography>
+        )}
+
+        {rows && rows.length === 0 && !loading && (
+          <Typography variant='caption' color='text.secondary'>
+            No app activity matches these filters.
+          </Typography>
+        )}
+
+        {rows && rows.length > 0 && (
+          <TableContainer component={Paper} variant='outlined' sx={{ width: '100%', overflowX: 'auto' }}>
+            <Table size='small' sx={{ minWidth: 720 }}>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Time</TableCell>
+                  <TableCell>App</TableCell>
+                  <TableCell>Method</TableCell>
+                  <TableCell align='right'>Status</TableCell>
+                  <TableCell align='right'>Latency</TableCell>
+                  <TableCell>Prompts</TableCell>
+                  <TableCell>Outcome</TableCell>
+                  <TableCell>Args hash</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {rows.map((r) => (
+                  <TableRow key={r.id} hover>
+                    <TableCell sx={{ whiteSpace: 'nowrap', fontSize: 12 }}>
+                      {new Date(r.createdAt).toLocaleString()}
+                    </TableCell>
+                    <TableCell sx={{ fontSize: 12 }}>{r.origin}</TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace', fontSize: 11 }}>{r.path}</TableCell>
+                    <TableCell align='right' sx={{ fontFamily: 'monospace', fontSize: 11 }}>{r.status}</TableCell>
+                    <TableCell align='right' sx={{ fontFamily: 'monospace', fontSize: 11 }}>
+                      {r.latencyMs.toLocaleString()} ms
+                    </TableCell>
+                    <TableCell>
+                      <Stack direction='row' spacing={0.5} flexWrap='wrap'>
+                        {r.prompts.map((p, i) => <Chip key={i} size='small' label={p} variant='outlined' />)}
+                      </Stack>
+                    </TableCell>
+                    <TableCell>
+                      <Chip size='small' label={r.outcome} color={OUTCOME_COLORS[r.outcome]} variant='outlined' />
+                    </TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace', fontSize: 10 }}>
+                      <span title={r.argsHash ?? ''}>{r.argsHash ? `${r.argsHash.substring(0, 12)}…` : '—'}</span>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <TablePagination
+              component='div'
+              count={total}
+              page={page}
+              rowsPerPage={rowsPerPage}
+              rowsPerPageOptions={[25, 50, 100]}
+              onPageChange={(_e, next) => setPage(next)}
+              onRowsPerPageChange={(e) => {
+                setRowsPerPage(parseInt(e.target.value, 10))
+                setPage(0)
+              }}
+            />
+          </TableContainer>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -118,8 +118,9 @@ const App: React.FC<AppsProps> = ({ history }) => {
     DEFAULT_APP_ICON
 
   /* ---------- Context ------------------------------------------- */
-  const { managers, adminOriginator } = useContext(WalletContext)
+  const { managers, adminOriginator, activeProfile } = useContext(WalletContext)
   const permissionsManager = managers?.permissionsManager
+  const identityKey = activeProfile?.identityKey
 
   /* ---------- Local state --------------------------------------- */
   const [appDomain, setAppDomain] = useState(initialDomain)
@@ -146,7 +147,7 @@ const App: React.FC<AppsProps> = ({ history }) => {
     [appDomain],
   )
 
-  const cacheKey = useMemo(() => `transactions_${appDomain}`, [appDomain])
+  const cacheKey = useMemo(() => `transactions_${identityKey}_${appDomain}`, [identityKey, appDomain])
 
   /* ---------- Cache hydration (localStorage) -------------------- */
   useEffect(() => {
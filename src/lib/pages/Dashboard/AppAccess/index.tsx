@@ -1,10 +1,11 @@
 import React, { useState, useEffect, useContext } from 'react';
-import { Typography, IconButton, Grid, Tab, Tabs, Box, CircularProgress, Button } from '@mui/material';
+import { Typography, IconButton, Grid, Tab, Tabs, Box, CircularProgress, Button, Stack } from '@mui/material';
 import { useHistory, useParams } from 'react-router-dom';
 import { toast } from 'react-toastify';
 import CheckIcon from '@mui/icons-material/Check';
 import ContentCopyIcon from '@mui/icons-material/ContentCopy';
 import LaunchIcon from '@mui/icons-material/Launch';
+import LinkOffIcon from '@mui/icons-material/LinkOff';
 import { DEFAULT_APP_ICON } from '../../../constants/popularApps';
 import PageHeader from '../../../components/PageHeader'; // Assuming this component exists and is TSX
 // import ProtocolPermissionList from '../../../components/ProtocolPermissionList'; // Needs migration/creation
@@ -16,6 +17,7 @@ import BasketAccessList from '../../../components/BasketAccessList';
 import SpendingAuthorizationList from '../../../components/SpendingAuthorizationList';
 import CertificateAccessList from '../../../components/CertificateAccessList';
 import ProtocolPermissionList from '../../../components/ProtocolPermissionList';
+import { normalizeBridgeOrigin } from '../../../services/httpBridgeSession';
 
 // Placeholder type for App Data - adjust based on actual SDK response
 interface AppData {
@@ -25,6 +27,12 @@ interface AppData {
   // Add other relevant properties
 }
 
+interface BridgePairing {
+  origin: string;
+  createdAt: number;
+  lastUsedAt: number | null;
+}
+
 /**
  * Displays and manages access permissions for a specific app.
  */
@@ -45,6 +53,38 @@ const AppAccess: React.FC = () => {
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState<{ [key: string]: boolean }>({ id: false });
+  const [pairing, setPairing] = useState<BridgePairing | null>(null);
+  const [revoking, setRevoking] = useState<boolean>(false);
+
+  // Capability-token pairing for the HTTP bridge (POST /pair)
+  useEffect(() => {
+    let cancelled = false;
+    const loadPairing = async () => {
+      try {
+        const pairings = await window.electronAPI.bridge.listPairings();
+        const norm = normalizeBridgeOrigin(originator);
+        if (!cancelled) setPairing(pairings.find(p => p.origin === norm) ?? null);
+      } catch (err) {
+        console.warn('Failed to load bridge pairing:', err);
+      }
+    };
+    loadPairing();
+    return () => { cancelled = true; };
+  }, [originator]);
+
+  const handleRevokePairing = async () => {
+    if (!pairing) return;
+    setRevoking(true);
+    try {
+      await window.electronAPI.bridge.revokePairing(pairing.origin);
+      setPairing(null);
+      toast.success('Pairing revoked. The app must pair again before it can use your wallet.');
+    } catch (err: any) {
+      toast.error(`Failed to revoke pairing: ${err.message}`);
+    } finally {
+      setRevoking(false);
+    }
+  };
 
   // Copies the data and timeouts the checkmark icon
   const handleCopy = (data: string, type: string) => {
@@ -154,6 +194,29 @@ const AppAccess: React.FC = () => {
             You have the power to decide what each app can do, whether it's using certain tools (protocols), accessing specific bits of your data (baskets), verifying your identity (certificates), or spending amounts.
           </Typography>
         </Grid>
+        <Grid item>
+          <Stack direction='row' spacing={2} alignItems='center' justifyContent='space-between'>
+            <Box>
+              <Typography variant='subtitle2'>Wallet pairing</Typography>
+              <Typography variant='caption' color='textSecondary'>
+                {pairing
+                  ? `Paired ${new Date(pairing.createdAt).toLocaleString()}${pairing.lastUsedAt ? ` · last used ${new Date(pairing.lastUsedAt).toLocaleString()}` : ''}`
+                  : 'Not paired. This app cannot call your wallet until it pairs and you approve it.'}
+              </Typography>
+            </Box>
+            {pairing && (
+              <Button
+                color='error'
+                variant='outlined'
+                startIcon={<LinkOffIcon />}
+                onClick={handleRevokePairing}
+                disabled={revoking}
+              >
+                Revoke pairing
+              </Button>
+            )}
+          </Stack>
+        </Grid>
       </Grid>
 
       <Tabs
@@ -42,17 +42,30 @@ import GppBadIcon from '@mui/icons-material/GppBad'
 import HelpOutlineIcon from '@mui/icons-material/HelpOutline'
 import AddCircleOutlineIcon from '@mui/icons-material/AddCircleOutline'
 import SearchIcon from '@mui/icons-material/Search'
+import CallMergeIcon from '@mui/icons-material/CallMerge'
+import GroupsIcon from '@mui/icons-material/Groups'
 import { QRCodeSVG } from 'qrcode.react'
 import { Address, fromHex } from 'dxs-bsv-token-sdk/bsv'
 import { WalletContext } from '../../WalletContext'
+import IssueTokenDialog from '../../components/IssueTokenDialog'
+import BatchTransferDialog from '../../components/BatchTransferDialog'
+import OrdinalsGallery from '../../components/OrdinalsGallery'
 import { stasQuery } from '../../services/stas'
-import type { TokenProtocolId, Bsv21SendExtras } from '../../services/tokens'
-import { parseBsv21LockingScript } from '../../services/tokens'
-import { BSV21_BASKET } from '../../constants/baskets'
+import type {
+  TokenProtocolId,
+  TokenSourceUtxo,
+  Bsv21SendExtras,
+  Bsv21MergeExtras,
+  MergeArgs,
+} from '../../services/tokens'
+import { parseBsv21LockingScript, ordinalRowToHolding, type OrdinalHolding } from '../../services/tokens'
+import { selectTokenInputs } from '../../services/tokens/merge/selectTokenInputs'
+import { BSV21_BASKET, ORDINALS_BASKET } from '../../constants/baskets'
 import {
   TokenVerificationService,
   aggregateBadge,
   type OutpointVerification,
+  type VerifiableOutput,
   type VerificationBadge,
 } from '../../services/tokens/TokenVerificationService'
 
@@ -197,6 +210,53 @@ function groupByToken(outputs: OutputView[]): TokenGroup[] {
   })
 }
 
+/** Whether an output can be an input to a send or consolidation. */
+function isSendable(o: OutputView): boolean {
+  return o.spendable && !o.frozen && !o.confiscated && !!o.scriptHex && !!o.brc42KeyId
+}
+
+/**
+ * The token's id as `loadPeerHoldings` names it, which is what the batch
+ * service looks holdings up by.
+ */
+function holdingAssetId(o: OutputView): string {
+  return o.tokenId || `${o.txid}.${o.vout}`
+}
+
+/** Token amount of one output — raw units for BSV-21, satoshis otherwise. */
+function outputAmount(o: OutputView): bigint {
+  return o.protocol === 'bsv-21' ? safeBigInt(o.tokenAmount) : BigInt(o.satoshis)
+}
+
+/** Cross-protocol source shape for a sendable output (see `isSendable`). */
+function toTokenSource(o: OutputView): TokenSourceUtxo {
+  return {
+    txid: o.txid,
+    vout: o.vout,
+    scriptHex: o.scriptHex ?? '',
+    satoshis: o.satoshis,
+    brc42KeyId: o.brc42KeyId ?? '',
+  }
+}
+
+/**
+ * Adapter merge args for a set of outputs of one token. BSV-21 threads each
+ * input's amount plus the token metadata, like `Bsv21SendExtras` does.
+ */
+function mergeArgsFor(outputs: OutputView[]): MergeArgs {
+  const [first] = outputs
+  const base: MergeArgs = { sources: outputs.map(toTokenSource), tokenId: first.tokenId || undefined }
+  if (first.protocol !== 'bsv-21') return base
+  const extras: Bsv21MergeExtras = {
+    tokenId: first.tokenId,
+    sourceAmts: outputs.map((o) => o.tokenAmount),
+    dec: first.decimals || undefined,
+    sym: first.symbol ?? undefined,
+    icon: first.icon ?? undefined,
+  }
+  return { ...base, ...extras }
+}
+
 /**
  * Format a raw token amount (stringified bigint) with the protocol's
  * decimal precision. `dec=0` is the STAS/DSTAS case — render the integer
@@ -290,6 +350,7 @@ function protocolLabel(p: TokenProtocolId): string {
     case 'stas': return 'STAS'
     case 'dstas': return 'DSTAS'
     case 'bsv-21': return 'BSV-21'
+    case 'ordinals': return 'Ordinals'
   }
 }
 
@@ -375,10 +436,13 @@ function ownershipLabel(
 }
 
 export default function AssetsPage() {
-  const { wallet, stas } = useContext(WalletContext)
+  const { wallet, stas, watchOnly } = useContext(WalletContext)
 
   const [holdings, setHoldings] = useState<OutputView[]>([])
   const [sentHoldings, setSentHoldings] = useState<OutputView[]>([])
+  // 1Sat Ordinals — one-of-one inscriptions, shown in their own gallery
+  // rather than grouped into fungible token cards.
+  const [ordinals, setOrdinals] = useState<OrdinalHolding[]>([])
   // Back-to-Genesis verdicts, keyed by `${txid}_${vout}`. Filled in the
   // background after holdings load; merged into the grouped view as they arrive.
   const [verifications, setVerifications] = useState<Map<string, OutpointVerification>>(new Map())
@@ -414,6 +478,12 @@ export default function AssetsPage() {
   const [receiveProtocol, setReceiveProtocol] = useState<TokenProtocolId>('stas')
 
   const [sendTarget, setSendTarget] = useState<OutputView | null>(null)
+  /**
+   * Sendable outputs of `sendTarget`'s token. When the amount exceeds
+   * `sendTarget`, inputs are picked from here to cover it — STAS / DSTAS
+   * merge them first, BSV-21 spends them together.
+   */
+  const [sendPool, setSendPool] = useState<OutputView[]>([])
   const [sendRecipient, setSendRecipient] = useState('')
   /**
    * Amount to send. Empty string = full UTXO. For STAS/DSTAS it's an integer
@@ -424,6 +494,12 @@ export default function AssetsPage() {
   const [sendAmount, setSendAmount] = useState('')
   const [sending, setSending] = useState(false)
   const [sendResult, setSendResult] = useState<{ ok: boolean; message: string } | null>(null)
+  /** Card currently being consolidated, and the last consolidation outcome. */
+  const [consolidating, setConsolidating] = useState<string | null>(null)
+  const [batchGroup, setBatchGroup] = useState<TokenGroup | null>(null)
+  const [consolidateResult, setConsolidateResult] = useState<
+    { groupKey: string; ok: boolean; message: string } | null
+  >(null)
 
   // BSV-21 orphan recovery — pre-PR-32 sends produced change outputs
   // without basket+customInstructions+tags, so they don't show up in
@@ -434,6 +510,7 @@ export default function AssetsPage() {
   const [recoverVout, setRecoverVout] = useState('')
   const [recovering, setRecovering] = useState(false)
   const [recoverResult, setRecoverResult] = useState<{ ok: boolean; message: string } | null>(null)
+  const [issueDialogOpen, setIssueDialogOpen] = useState(false)
 
   // Filter state — applied to groups by symbol, name, or tokenId.
   const [filter, setFilter] = useState('')
@@ -443,7 +520,7 @@ export default function AssetsPage() {
 
   // One verification service per chain — it owns the per-outpoint cache, so a
   // re-open of the page verifies only newly-arrived tokens. Reuses the
-  // wallet-wide BackToGenesisClient when present (avoids a duplicate instance).
+  // wallet-wide B2G verifier when present (avoids a duplicate instance).
   const b2gClient = stas?.backToGenesis
   const verifier = useMemo(
     () =>
@@ -467,7 +544,7 @@ export default function AssetsPage() {
   // seed from it so a re-opened wallet shows badges with zero network, and only
   // freshly obtained verdicts are written back.
   const verifyHoldings = useCallback(
-    async (rows: OutputView[], opts: { force?: boolean } = {}) => {
+    async (rows: VerifiableOutput[], opts: { force?: boolean } = {}) => {
       if (!identityKey || !chain) return
       const force = opts.force === true
 
@@ -609,11 +686,31 @@ export default function AssetsPage() {
         }
       }
 
+      // Ordinals — same BRC-100 surface, own basket. The origin / content-type
+      // tags and the owning key come back on each row.
+      let ordinalHoldings: OrdinalHolding[] = []
+      if (wallet) {
+        try {
+          const res: any = await wallet.listOutputs({
+            basket: ORDINALS_BASKET,
+            includeTags: true,
+            includeCustomInstructions: true,
+            include: 'locking scripts',
+            limit: 10000,
+          } as any)
+          const rows: any[] = res?.outputs ?? []
+          ordinalHoldings = rows.map(ordinalRowToHolding).filter((h): h is OrdinalHolding => h !== null)
+        } catch {
+          /* no ordinals basket yet — the gallery stays empty */
+        }
+      }
+
       const combined = [...stasHoldings, ...bsv21Holdings]
       setHoldings(combined)
+      setOrdinals(ordinalHoldings)
       // Kick off Back-to-Genesis verification in the background — the card
       // badges fill in as verdicts arrive; holdings render immediately.
-      void verifyHoldings(combined)
+      void verifyHoldings([...combined, ...ordinalHoldings])
 
       // Sent = anything from the "all" set that has spentBy set (and isn't in
       // the current set). Newest first by createdAt (best proxy we have).
@@ -647,6 +744,7 @@ export default function AssetsPage() {
       stas: 'STAS',
       dstas: 'DSTAS',
       bsv21: 'BSV-21',
+      ordinals: 'Ordinals',
       register: 'registering',
     }
     const onProgress = (p: { phase: string; done: number; total: number }) =>
@@ -690,6 +788,23 @@ export default function AssetsPage() {
           failed = `BSV-21 scan failed: ${e instanceof Error ? e.message : String(e)}`
         }
       }
+      if (stas.ordinalsDiscovery) {
+        try {
+          const ordRes = await stas.ordinalsDiscovery.scan({ onProgress })
+          const ordErrors = describe(ordRes.errors)
+          if (ordErrors.length > 0) console.warn('[scan] Ordinals errors:', ordErrors)
+          rows.push({
+            label: 'Ordinals',
+            found: ordRes.candidates ?? 0,
+            registered: ordRes.registered ?? 0,
+            known: ordRes.skippedAlreadyKnown ?? 0,
+            errors: ordErrors.length,
+            errorMessages: ordErrors,
+          })
+        } catch (e) {
+          failed = `${failed ? `${failed}; ` : ''}Ordinals scan failed: ${e instanceof Error ? e.message : String(e)}`
+        }
+      }
       setScanStats({ rows, failed })
     } catch (e) {
       setScanStats({ rows: [], failed: `Scan failed: ${e instanceof Error ? e.message : String(e)}` })
@@ -698,7 +813,7 @@ export default function AssetsPage() {
       setScanProgress(null)
     }
     await loadHoldings()
-  }, [stas?.discovery, stas?.bsv21Discovery, loadHoldings])
+  }, [stas?.discovery, stas?.bsv21Discovery, stas?.ordinalsDiscovery, loadHoldings])
 
   useEffect(() => {
     if (!stas?.keyDeriver) return
@@ -814,16 +929,54 @@ export default function AssetsPage() {
     }
   }
 
-  const openSend = (o: OutputView) => {
+  const openSend = (o: OutputView, group: TokenGroup, amount?: string) => {
     setSendTarget(o)
+    setSendPool(group.outputs.filter(isSendable))
     setSendRecipient('')
     // Pre-fill the amount with the full balance so the default is "send
     // everything" (editable down to split). STAS/DSTAS are satoshi-denominated;
     // BSV-21 uses raw token units.
-    setSendAmount(o.protocol === 'bsv-21' ? o.tokenAmount : String(o.satoshis))
+    setSendAmount(amount ?? (o.protocol === 'bsv-21' ? o.tokenAmount : String(o.satoshis)))
     setSendResult(null)
   }
 
+  /**
+   * Card-level send: starts from the largest sendable output, pre-filled
+   * with the token's whole spendable balance, so inputs get picked for it.
+   */
+  const openGroupSend = (g: TokenGroup) => {
+    const pool = g.outputs.filter(isSendable)
+    if (pool.length === 0) return
+    const largest = pool.reduce((a, b) => (outputAmount(b) > outputAmount(a) ? b : a))
+    const total = pool.reduce((sum, o) => sum + outputAmount(o), 0n)
+    openSend(largest, g, total.toString())
+  }
+
+  const handleConsolidate = async (g: TokenGroup) => {
+    const adapter = stas?.tokens?.getById(g.protocol)
+    if (!adapter?.mergeSupported || !adapter.merge) return
+    const inputs = g.outputs.filter(isSendable)
+    if (inputs.length < 2) return
+    setConsolidating(g.groupKey)
+    setConsolidateResult(null)
+    try {
+      const result = await adapter.merge(mergeArgsFor(inputs))
+      setConsolidateResult({
+        groupKey: g.groupKey,
+        ok: result.ok,
+        message: result.ok
+          ? `Consolidated ${inputs.length} UTXOs into one · ${result.txids.length} ${result.txids.length === 1 ? 'tx' : 'txs'}`
+          : `${result.reason ?? 'consolidation failed'}${result.txids.length > 0 ? ` (after ${result.txids.length} broadcast ${result.txids.length === 1 ? 'tx' : 'txs'})` : ''}`,
+      })
+      // A failure part-way still moved UTXOs — reload either way.
+      loadHoldings()
+    } catch (e) {
+      setConsolidateResult({ groupKey: g.groupKey, ok: false, message: e instanceof Error ? e.message : String(e) })
+    } finally {
+      setConsolidating(null)
+    }
+  }
+
   const handleSendConfirm = async () => {
     if (!sendTarget || !stas?.tokens || !sendTarget.scriptHex || !sendTarget.brc42KeyId) return
     const adapter = stas.tokens.getById(sendTarget.protocol)
@@ -834,96 +987,93 @@ export default function AssetsPage() {
       })
       return
     }
+    const fail = (message: string) => {
+      setSendResult({ ok: false, message })
+      setSending(false)
+    }
     setSending(true)
     setSendResult(null)
     try {
-      // Build the cross-protocol args; per-protocol amount handling below.
-      const baseArgs = {
-        source: {
-          txid: sendTarget.txid,
-          vout: sendTarget.vout,
-          scriptHex: sendTarget.scriptHex,
-          satoshis: sendTarget.satoshis,
-          brc42KeyId: sendTarget.brc42KeyId,
-        },
-        recipientAddress: sendRecipient.trim(),
+      const isB21 = sendTarget.protocol === 'bsv-21'
+      const pool = sendPool.length > 0 ? sendPool : [sendTarget]
+      const poolTotal = pool.reduce((sum, o) => sum + outputAmount(o), 0n)
+      const maxLabel = isB21
+        ? formatTokenAmount(poolTotal.toString(), sendTarget.decimals)
+        : `${poolTotal.toLocaleString()} sats`
+
+      // Amounts are validated here at the UI boundary so the transfer
+      // services can trust their input. BSV-21 is a raw bigint string;
+      // STAS / DSTAS are token satoshis. Blank = the whole selected UTXO.
+      const raw = sendAmount.trim() || (isB21 ? sendTarget.tokenAmount : String(sendTarget.satoshis))
+      if (!/^\d+$/.test(raw)) {
+        return fail(isB21
+          ? 'Amount must be a non-negative integer (raw token units).'
+          : 'Amount must be a positive integer (token sats).')
       }
-      let args: any = baseArgs
-      let isPartial = false
-
-      if (sendTarget.protocol === 'bsv-21') {
-        // BSV-21 amount is a raw bigint string; validated here at the UI
-        // boundary so the transfer service can trust its input.
-        const raw = sendAmount.trim() || sendTarget.tokenAmount
-        if (!/^\d+$/.test(raw)) {
-          setSendResult({ ok: false, message: 'Amount must be a non-negative integer (raw token units).' })
-          setSending(false)
-          return
-        }
-        let sendAmtBig: bigint
-        let sourceAmtBig: bigint
-        try {
-          sendAmtBig = BigInt(raw)
-          sourceAmtBig = BigInt(sendTarget.tokenAmount)
-        } catch {
-          setSendResult({ ok: false, message: 'Could not parse amount as a bigint.' })
-          setSending(false)
-          return
-        }
-        if (sendAmtBig <= 0n) {
-          setSendResult({ ok: false, message: 'Amount must be > 0.' })
-          setSending(false)
-          return
-        }
-        if (sendAmtBig > sourceAmtBig) {
-          setSendResult({ ok: false, message: `Amount exceeds UTXO balance (${formatTokenAmount(sendTarget.tokenAmount, sendTarget.decimals)}).` })
-          setSending(false)
-          return
-        }
-        isPartial = sendAmtBig < sourceAmtBig
-        // BSV21TransferService builds a token-change output when sendAmt < sourceAmt.
+      const sendAmt = BigInt(raw)
+      if (sendAmt <= 0n) return fail('Amount must be > 0.')
+      if (sendAmt > poolTotal) return fail(`Amount exceeds spendable balance (${maxLabel}).`)
+
+      // Input selection. The output the dialog was opened on is used alone
+      // whenever it covers the amount; otherwise pick from the token's
+      // sendable outputs.
+      let inputs: OutputView[] = [sendTarget]
+      if (sendAmt > outputAmount(sendTarget)) {
+        const selection = selectTokenInputs(pool, sendAmt, outputAmount)
+        if (!selection) return fail(`Amount exceeds spendable balance (${maxLabel}).`)
+        inputs = selection.inputs
+      }
+      const inputTotal = inputs.reduce((sum, o) => sum + outputAmount(o), 0n)
+      const isPartial = sendAmt < inputTotal
+
+      let source: TokenSourceUtxo = toTokenSource(inputs[0])
+      let mergeNote = ''
+      let args: any
+
+      if (isB21) {
+        // BSV-21 spends every selected input in the one transfer tx; the
+        // service builds a token-change output when the amount < inputs.
         const extras: Bsv21SendExtras = {
-          tokenId: sendTarget.tokenId,
-          sourceAmt: sendTarget.tokenAmount,
-          amount: sendAmtBig.toString(),
+          tokenId: inputs[0].tokenId,
+          sourceAmt: inputs[0].tokenAmount,
+          amount: sendAmt.toString(),
           dec: sendTarget.decimals || undefined,
           sym: sendTarget.symbol ?? undefined,
           icon: sendTarget.icon ?? undefined,
+          additionalSources: inputs.length > 1
+            ? inputs.slice(1).map((o) => ({ source: toTokenSource(o), sourceAmt: o.tokenAmount }))
+            : undefined,
         }
-        args = { ...baseArgs, ...extras }
+        args = { source, recipientAddress: sendRecipient.trim(), ...extras }
       } else {
-        // STAS / DSTAS — satoshi-denominated. A blank amount (or the full
-        // balance) sends the whole UTXO; a smaller amount SPLITS, and we derive
-        // a self-owned change receive context so the remainder stays spendable
-        // (mirrors the peer settlement adapter).
-        const raw = sendAmount.trim()
-        if (raw) {
-          if (!/^\d+$/.test(raw)) {
-            setSendResult({ ok: false, message: 'Amount must be a positive integer (token sats).' })
-            setSending(false)
-            return
+        // STAS / DSTAS spend one token UTXO per transfer, so several inputs
+        // are merged into one first and the send goes out from the result.
+        if (inputs.length > 1) {
+          if (!adapter.mergeSupported || !adapter.merge) {
+            return fail(`No single UTXO covers ${sendAmt.toLocaleString()} sats and ${protocolLabel(sendTarget.protocol)} cannot consolidate.`)
+          }
+          const merged = await adapter.merge(mergeArgsFor(inputs))
+          if (!merged.ok || !merged.merged) {
+            loadHoldings()
+            return fail(`Merging inputs failed: ${merged.reason ?? 'unknown error'}`)
           }
-          const amt = Number(raw)
-          if (amt <= 0 || amt > sendTarget.satoshis) {
-            setSendResult({ ok: false, message: `Amount must be between 1 and ${sendTarget.satoshis.toLocaleString()} sats.` })
-            setSending(false)
-            return
+          source = merged.merged
+          mergeNote = ` · merged ${inputs.length} UTXOs first`
+        }
+        args = { source, recipientAddress: sendRecipient.trim() }
+        // A smaller amount SPLITS: derive a self-owned change receive context
+        // so the remainder stays spendable (mirrors the peer settlement adapter).
+        if (isPartial) {
+          if (!stas.keyDeriver) {
+            return fail('Key deriver unavailable — cannot build token-change for a partial send.')
           }
-          if (amt < sendTarget.satoshis) {
-            isPartial = true
-            if (!stas.keyDeriver) {
-              setSendResult({ ok: false, message: 'Key deriver unavailable — cannot build token-change for a partial send.' })
-              setSending(false)
-              return
-            }
-            const ctxRow = await stas.keyDeriver.createNextReceiveContext()
-            args = {
-              ...baseArgs,
-              amount: amt,
-              senderChangeHash160: ctxRow.ownerFieldHash160,
-              senderChangeKeyId: ctxRow.keyId,
-              tokenId: sendTarget.tokenId || undefined,
-            }
+          const ctxRow = await stas.keyDeriver.createNextReceiveContext()
+          args = {
+            ...args,
+            amount: Number(sendAmt),
+            senderChangeHash160: ctxRow.ownerFieldHash160,
+            senderChangeKeyId: ctxRow.keyId,
+            tokenId: sendTarget.tokenId || undefined,
           }
         }
       }
@@ -932,7 +1082,7 @@ export default function AssetsPage() {
       if (result.ok) {
         setSendResult({
           ok: true,
-          message: `Broadcast ✓ txid=${result.txid}${isPartial ? ' · change kept in your wallet' : ''}`,
+          message: `Broadcast ✓ txid=${result.txid}${mergeNote}${isPartial ? ' · change kept in your wallet' : ''}`,
         })
         // Both cases just reload from the DB — no scan needed. The transfer
         // service already spent the source and (on a partial send) registered
@@ -942,6 +1092,7 @@ export default function AssetsPage() {
         loadHoldings()
       } else {
         setSendResult({ ok: false, message: result.reason ?? 'transfer failed' })
+        if (mergeNote) loadHoldings()
       }
     } catch (e) {
       setSendResult({ ok: false, message: e instanceof Error ? e.message : String(e) })
@@ -1021,6 +1172,17 @@ export default function AssetsPage() {
                 >
                   Recover orphan
                 </Button>
+                {!watchOnly && stas?.issuance && (
+                  <Button
+                    size='small'
+                    variant='outlined'
+                    startIcon={<AddCircleOutlineIcon />}
+                    onClick={() => setIssueDialogOpen(true)}
+                    disabled={loading || scanning}
+                  >
+                    Issue token
+                  </Button>
+                )}
                 <Button
                   size='small'
                   variant='contained'
@@ -1199,7 +1361,7 @@ export default function AssetsPage() {
       </Card>
 
       {/* Token groups */}
-      {groups.length === 0 && !loading && (
+      {groups.length === 0 && ordinals.length === 0 && !loading && (
         <Card>
           <CardContent>
             <Typography variant='body2' color='text.secondary' textAlign='center'>
@@ -1212,6 +1374,10 @@ export default function AssetsPage() {
 
       {groups.map((g) => {
         const isExpanded = expanded.has(g.groupKey)
+        const groupAdapter = stas?.tokens?.getById(g.protocol)
+        const sendableCount = g.outputs.filter(isSendable).length
+        const canConsolidate = !watchOnly && !!groupAdapter?.mergeSupported && sendableCount >= 2
+        const cardResult = consolidateResult?.groupKey === g.groupKey ? consolidateResult : null
         return (
           <Card key={g.groupKey} sx={{ mb: 1.5 }}>
             <CardContent
@@ -1288,7 +1454,70 @@ export default function AssetsPage() {
                       </Tooltip>
                     )}
                   </Stack>
+                  {cardResult && (
+                    <Typography
+                      variant='caption'
+                      color={cardResult.ok ? 'success.main' : 'error'}
+                      sx={{ display: 'block', mt: 0.5, wordBreak: 'break-all' }}
+                    >
+                      {cardResult.message}
+                    </Typography>
+                  )}
                 </Box>
+                {!watchOnly && sendableCount > 0 && groupAdapter?.transferSupported && (
+                  <Button
+                    size='small'
+                    variant='outlined'
+                    startIcon={<SendIcon fontSize='small' />}
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      openGroupSend(g)
+                    }}
+                    disabled={consolidating === g.groupKey}
+                  >
+                    Send
+                  </Button>
+                )}
+                {!watchOnly && sendableCount > 0 && groupAdapter?.transferSupported && stas?.batch && (
+                  <Tooltip title='Send to many recipients from a CSV of recipient,amount rows'>
+                    <span>
+                      <Button
+                        size='small'
+                        variant='outlined'
+                        startIcon={<GroupsIcon fontSize='small' />}
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          setBatchGroup(g)
+                        }}
+                        disabled={consolidating === g.groupKey}
+                      >
+                        Batch
+                      </Button>
+                    </span>
+                  </Tooltip>
+                )}
+                {canConsolidate && (
+                  <Tooltip title={`Merge this token's ${sendableCount} spendable UTXOs into one`}>
+                    <span>
+                      <Button
+                        size='small'
+                        variant='outlined'
+                        startIcon={
+                          consolidating === g.groupKey
+                            ? <CircularProgress size={14} color='inherit' />
+                            : <CallMergeIcon fontSize='small' />
+                        }
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          handleConsolidate(g)
+                        }}
+                        disabled={consolidating !== null}
+                      >
+                        Consolidate
+                      </Button>
+                    </span>
+                  </Tooltip>
+                )}
                 <IconButton size='small'>
                   {isExpanded ? <ExpandLessIcon /> : <ExpandMoreIcon />}
                 </IconButton>
@@ -1321,7 +1550,7 @@ export default function AssetsPage() {
                       startIcon={<SendIcon fontSize='small' />}
                       onClick={(e) => {
                         e.stopPropagation()
-                        openSend(o)
+                        openSend(o, g)
                       }}
                       disabled={sendDisabled}
                     >
@@ -1404,6 +1633,17 @@ export default function AssetsPage() {
         )
       })}
 
+      {ordinals.length > 0 && (
+        <OrdinalsGallery
+          ordinals={ordinals}
+          verifications={verifications}
+          stas={stas}
+          watchOnly={!!watchOnly}
+          onReverify={(o) => { void verifyHoldings([o], { force: true }) }}
+          onSent={() => { loadHoldings() }}
+        />
+      )}
+
       {/* Activity — sent STAS history (uses includeSpent:true on listStasOutputs) */}
       {sentHoldings.length > 0 && (
         <Card sx={{ mt: 2 }}>
@@ -1523,6 +1763,7 @@ export default function AssetsPage() {
         onClose={() => {
           if (!sending) {
             setSendTarget(null)
+            setSendPool([])
             setSendResult(null)
           }
         }}
@@ -1582,6 +1823,13 @@ export default function AssetsPage() {
                     ? `${formatTokenAmount(sendTarget.tokenAmount, sendTarget.decimals)} ${sendTarget.symbol ?? ''}`
                     : `${sendTarget.satoshis.toLocaleString()} sats · ${sendTarget.symbol ?? 'STAS'}`}
                 </Typography>
+                {sendPool.length > 1 && (
+                  <Typography variant='caption' color='text.secondary' sx={{ display: 'block' }}>
+                    Larger amounts draw on this token's other {sendPool.length - 1} spendable{' '}
+                    {sendPool.length === 2 ? 'UTXO' : 'UTXOs'} automatically
+                    {sendTarget.protocol === 'bsv-21' ? '.' : ' (merged into one before sending).'}
+                  </Typography>
+                )}
                 <Typography
                   variant='caption'
                   color='text.secondary'
@@ -1602,23 +1850,33 @@ export default function AssetsPage() {
               {(() => {
                 // Amount + split preview — for all three standards. STAS/DSTAS
                 // are satoshi-denominated; BSV-21 uses raw token units.
+                // Beyond the selected UTXO, inputs are picked from the token's
+                // other sendable outputs; change is against those inputs.
                 const isB21 = sendTarget.protocol === 'bsv-21'
-                const maxStr = isB21 ? sendTarget.tokenAmount : String(sendTarget.satoshis)
+                const pool = sendPool.length > 0 ? sendPool : [sendTarget]
+                const maxStr = pool.reduce((sum, o) => sum + outputAmount(o), 0n).toString()
                 let helper: string = isB21
                   ? 'Raw token units (integer). Leave blank to send the whole UTXO.'
                   : 'Token satoshis (integer). Leave blank to send the whole UTXO.'
                 if (sendAmount && /^\d+$/.test(sendAmount)) {
                   try {
                     const amt = BigInt(sendAmount)
-                    const max = BigInt(maxStr)
+                    const selected = amt > outputAmount(sendTarget)
+                      ? selectTokenInputs(pool, amt, outputAmount)
+                      : { inputs: [sendTarget], total: outputAmount(sendTarget) }
+                    const max = selected?.total ?? 0n
                     const change = max > amt ? max - amt : 0n
-                    if (isB21) {
+                    const fromN = selected && selected.inputs.length > 1 ? ` · from ${selected.inputs.length} UTXOs` : ''
+                    if (!selected) {
+                      helper = `Exceeds the spendable balance of ${maxStr}.`
+                    } else if (isB21) {
                       helper = `≈ ${formatTokenAmount(sendAmount, sendTarget.decimals)} ${sendTarget.symbol ?? ''}` +
-                        (change > 0n ? ` · change ${formatTokenAmount(change.toString(), sendTarget.decimals)} ${sendTarget.symbol ?? ''} stays in your wallet` : '')
+                        (change > 0n ? ` · change ${formatTokenAmount(change.toString(), sendTarget.decimals)} ${sendTarget.symbol ?? ''} stays in your wallet` : '') +
+                        fromN
                     } else {
-                      helper = change > 0n
+                      helper = (change > 0n
                         ? `${amt.toLocaleString()} sats sent · ${change.toLocaleString()} sats change stays in your wallet`
-                        : `${amt.toLocaleString()} sats — whole UTXO`
+                        : `${amt.toLocaleString()} sats — whole ${fromN ? 'inputs' : 'UTXO'}`) + fromN
                     }
                   } catch { /* keep default helper */ }
                 }
@@ -1654,6 +1912,7 @@ export default function AssetsPage() {
           <Button
             onClick={() => {
               setSendTarget(null)
+              setSendPool([])
               setSendResult(null)
             }}
             disabled={sending}
@@ -1735,6 +1994,25 @@ export default function AssetsPage() {
           </Button>
         </DialogActions>
       </Dialog>
+
+      <IssueTokenDialog
+        open={issueDialogOpen}
+        onClose={() => setIssueDialogOpen(false)}
+        issuance={stas?.issuance}
+        onIssued={() => { loadHoldings() }}
+      />
+
+      {batchGroup && (
+        <BatchTransferDialog
+          open
+          onClose={() => setBatchGroup(null)}
+          batch={stas?.batch}
+          protocol={batchGroup.protocol}
+          assetId={holdingAssetId(batchGroup.outputs.find(isSendable) ?? batchGroup.outputs[0])}
+          symbol={batchGroup.symbol}
+          onSent={() => { loadHoldings() }}
+        />
+      )}
     </Box>
   )
 }
@@ -109,7 +109,7 @@ const CertificateCard: React.FC<CertificateCardProps> = ({
         const registryOperators: string[] = settings.trustSettings.trustedCertifiers.map(
           (x: any) => x.identityKey
         )
-        const cacheKey = `certData_${certificate.type}_${registryOperators.join('_')}+${activeProfile.id}`
+        const cacheKey = `certData_${certificate.type}_${registryOperators.join('_')}+${activeProfile.identityKey}`
         const cachedData = window.localStorage.getItem(cacheKey)
 
         if (cachedData) {
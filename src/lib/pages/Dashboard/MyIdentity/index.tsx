@@ -29,6 +29,8 @@ const MyIdentity = () => {
   const [privilegedIdentityKey, setPrivilegedIdentityKey] = useState('...')
   const [copied, setCopied] = useState({ id: false, privileged: false })
   const classes = useStyles()
+  // Cached per identity, so another wallet on this machine never shows these.
+  const cacheKey = activeProfile?.identityKey ? `provenCertificates_${activeProfile.identityKey}` : null
 
   const handleCopy = (data, type) => {
     navigator.clipboard.writeText(data)
@@ -44,13 +46,10 @@ const MyIdentity = () => {
       {
         return
       }
-      const profileId = activeProfile?.id ?? 'direct-key'
-      console.log("AP", profileId)
-      const cacheKey = `provenCertificates_${profileId}`
 
       const getProvenCertificates = async () => {
         // Attempt to load the proven certificates from cache
-        const cachedProvenCerts = window.localStorage.getItem(cacheKey)
+        const cachedProvenCerts = cacheKey && window.localStorage.getItem(cacheKey)
         if (cachedProvenCerts) {
           setCertificates(JSON.parse(cachedProvenCerts))
         }
@@ -91,7 +90,7 @@ const MyIdentity = () => {
           }
           if (provenCerts.length > 0) {
             setCertificates(provenCerts)
-            window.localStorage.setItem(cacheKey, JSON.stringify(provenCerts))
+            if (cacheKey) window.localStorage.setItem(cacheKey, JSON.stringify(provenCerts))
           }
         }
       }
@@ -106,7 +105,7 @@ const MyIdentity = () => {
 
       setIdentityKey()
     }
-  }, [setCertificates, setPrimaryIdentityKey, adminOriginator, activeProfile, isDirectKey])
+  }, [setCertificates, setPrimaryIdentityKey, adminOriginator, activeProfile, isDirectKey, cacheKey])
 
   const handleRevealPrivilegedKey = async () => {
     const { publicKey } = await managers.permissionsManager.getPublicKey({
@@ -125,7 +124,7 @@ const MyIdentity = () => {
       )
 
       // Update the local storage cache with the updated certificates
-      window.localStorage.setItem('provenCertificates', JSON.stringify(updatedCertificates))
+      if (cacheKey) window.localStorage.setItem(cacheKey, JSON.stringify(updatedCertificates))
 
       return updatedCertificates
     })
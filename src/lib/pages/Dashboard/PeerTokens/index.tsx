@@ -8,18 +8,20 @@
  *
  * Holdings load like AssetsPage (STAS/DSTAS via listStasOutputs, BSV-21 via
  * listOutputs); source resolution + BRC-29 derivation stay in the adapters.
+ * Sends are confirmed through the same token-spend prompt (and allowances)
+ * as the HTTP token routes.
  */
 import React, { useCallback, useContext, useEffect, useMemo, useState } from 'react'
 import {
   Container, Paper, Stack, Typography, TextField, Button, Chip, Divider, List,
   ListItem, ListItemText, IconButton, Tooltip, MenuItem, Tabs, Tab, Card, CardContent,
-  Link, Dialog, DialogTitle, DialogContent, DialogActions, Alert, CircularProgress, Box
+  Link, Alert, CircularProgress, Box
 } from '@mui/material'
 import RefreshIcon from '@mui/icons-material/Refresh'
 import { toast } from 'react-toastify'
 import { WalletContext } from '../../../WalletContext'
 import type { IncomingToken, SendTokenParams } from '@bsv/message-box-client'
-import { loadPeerHoldings, type PeerHolding as Holding } from '../../../services/tokens/peer/loadPeerHoldings'
+import { loadPeerHoldings, holdingSpendRequest, type PeerHolding as Holding } from '../../../services/tokens/peer/loadPeerHoldings'
 
 interface TokenTx {
   txid: string
@@ -46,7 +48,6 @@ export default function PeerTokens() {
   const [recipient, setRecipient] = useState('')
   const [amount, setAmount] = useState('')
   const [sending, setSending] = useState(false)
-  const [confirmOpen, setConfirmOpen] = useState(false)
 
   const [transactions, setTransactions] = useState<TokenTx[]>([])
   const [incoming, setIncoming] = useState<IncomingToken[]>([])
@@ -122,12 +123,11 @@ export default function PeerTokens() {
   const startSend = () => {
     if (!selected) return toast.error('Pick a token to send')
     if (!recipient.trim()) return toast.error('Enter a recipient identity key')
-    setConfirmOpen(true)
+    void doSend()
   }
 
   const doSend = async () => {
     if (!selected || !peerTokens) return
-    setConfirmOpen(false)
     setSending(true)
     try {
       const params: SendTokenParams = {
@@ -136,7 +136,21 @@ export default function PeerTokens() {
         source: selected.source,
         amount: amount || selected.amount,
       }
-      const sent = await peerTokens.sendToken(params)
+      const approval = await ctx.requestTokenSpend(holdingSpendRequest(selected, {
+        originator: originator ?? 'admin',
+        recipient: params.recipient,
+        amount: params.amount,
+        via: 'peer',
+      }))
+      if (!approval) return
+      let sent: any
+      try {
+        sent = await peerTokens.sendToken(params)
+      } catch (e) {
+        approval.release()
+        throw e
+      }
+      approval.commit()
       toast.success(`Sent ${selected.protocol} ✓ txid ${sent?.txid ? sent.txid.slice(0, 16) + '…' : '(pending)'}`)
       await loadHoldings()
       await getHistory()
@@ -292,23 +306,6 @@ export default function PeerTokens() {
           )}
         </Paper>
       )}
-
-      {/* Confirm send */}
-      <Dialog open={confirmOpen} onClose={() => setConfirmOpen(false)}>
-        <DialogTitle>Confirm token send</DialogTitle>
-        <DialogContent>
-          <Stack spacing={1} sx={{ mt: 1 }}>
-            <Typography variant="body2">Protocol: <b>{selected?.protocol}</b></Typography>
-            <Typography variant="body2">Token: <b>{selected?.label}</b></Typography>
-            <Typography variant="body2">Amount: <b>{amount || selected?.amount}</b></Typography>
-            <Typography variant="body2" sx={{ wordBreak: 'break-all' }}>To: <b>{recipient}</b></Typography>
-          </Stack>
-        </DialogContent>
-        <DialogActions>
-          <Button onClick={() => setConfirmOpen(false)}>Cancel</Button>
-          <Button variant="contained" onClick={() => void doSend()}>Send</Button>
-        </DialogActions>
-      </Dialog>
       </Box>
     </Container>
   )
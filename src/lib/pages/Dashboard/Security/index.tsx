@@ -22,6 +22,11 @@ import DownloadIcon from '@mui/icons-material/Download'
 import { useHistory } from 'react-router-dom'
 import ChangePassword from '../Settings/Password/index.js'
 import RecoveryKey from '../Settings/RecoveryKey/index.js'
+import VaultPassphrase from '../Settings/VaultPassphrase/index.js'
+import DuressPassphrase from '../Settings/DuressPassphrase/index.js'
+import EncryptedBackup from '../Settings/EncryptedBackup/index.js'
+import WatchOnlyExport from '../Settings/WatchOnlyExport/index.js'
+import RecoveryShares from '../Settings/RecoveryShares/index.js'
 import { UserContext } from '../../../UserContext.js'
 import { WalletContext } from '../../../WalletContext.js'
 import PageLoading from '../../../components/PageLoading.js'
@@ -59,7 +64,7 @@ const Security: React.FC = () => {
   const [showKeyDialog, setShowKeyDialog] = useState(false)
   const [recoveryKey, setRecoveryKey] = useState('')
   const { pageLoaded } = useContext(UserContext)
-  const { loginType } = useContext(WalletContext)
+  const { loginType, watchOnly } = useContext(WalletContext)
   const isDirectKey = loginType === 'direct-key'
   const [copied, setCopied] = useState(false)
   // Move the hook to component level where it belongs
@@ -136,6 +141,31 @@ const Security: React.FC = () => {
     return <PageLoading />
   }
 
+  // Desktop only: the passphrase for this computer's vault, whatever the login type.
+  const vaultPassphraseSection = window.electronAPI?.vault?.changePassphrase && (
+    <Paper elevation={0} className={classes.section} sx={{ p: 3, bgcolor: 'background.paper' }}>
+      <VaultPassphrase />
+    </Paper>
+  )
+
+  const duressPassphraseSection = window.electronAPI?.vault?.setDuress && (
+    <Paper elevation={0} className={classes.section} sx={{ p: 3, bgcolor: 'background.paper' }}>
+      <DuressPassphrase />
+    </Paper>
+  )
+
+  const encryptedBackupSection = window.electronAPI?.backup && (
+    <Paper elevation={0} className={classes.section} sx={{ p: 3, bgcolor: 'background.paper' }}>
+      <EncryptedBackup />
+    </Paper>
+  )
+
+  const watchOnlyExportSection = window.electronAPI?.watchOnly && !watchOnly && (
+    <Paper elevation={0} className={classes.section} sx={{ p: 3, bgcolor: 'background.paper' }}>
+      <WatchOnlyExport />
+    </Paper>
+  )
+
   if (isDirectKey) {
     return (
       <div className={classes.root}>
@@ -196,6 +226,17 @@ const Security: React.FC = () => {
           )}
         </Paper>
 
+        {(hasMnemonic || hasHex) && (
+          <Paper elevation={0} className={classes.section} sx={{ p: 3, bgcolor: 'background.paper' }}>
+            <RecoveryShares mnemonic={savedMnemonic} keyHex={privateKeyHex} />
+          </Paper>
+        )}
+
+        {vaultPassphraseSection}
+        {duressPassphraseSection}
+        {encryptedBackupSection}
+        {watchOnlyExportSection}
+
         <Dialog
           open={warningOpen}
           onClose={handleCloseWarning}
@@ -296,6 +337,14 @@ const Security: React.FC = () => {
         <ChangePassword history={history} />
       </Paper>
 
+      {vaultPassphraseSection}
+
+      {duressPassphraseSection}
+
+      {encryptedBackupSection}
+
+      {watchOnlyExportSection}
+
       <Paper elevation={0} className={classes.section} sx={{ p: 3, bgcolor: 'background.paper' }}>
         <RecoveryKey history={history} onViewKey={handleViewKey} />
       </Paper>
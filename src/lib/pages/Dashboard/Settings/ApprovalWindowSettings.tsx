@@ -0,0 +1,31 @@
+import { Typography, Box, Paper, Switch } from '@mui/material'
+import { setApprovalWindowEnabled, useApprovalWindowEnabled } from '../../../components/ApprovalWindow'
+
+/**
+ * Choose whether permission prompts open in a small window of their own
+ * rather than bringing the whole dashboard forward. Desktop build only.
+ */
+const ApprovalWindowSettings = () => {
+  const enabled = useApprovalWindowEnabled()
+
+  if (!window.electronAPI?.bridge?.setApprovalWindow) return null
+
+  return (
+    <Paper elevation={0} sx={{ p: 3, bgcolor: 'background.paper', mb: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h4">Approval window</Typography>
+        <Switch
+          checked={enabled}
+          onChange={(e) => setApprovalWindowEnabled(e.target.checked)}
+          inputProps={{ 'aria-label': 'Show prompts in a separate approval window' }}
+        />
+      </Box>
+      <Typography variant="body1" color="textSecondary">
+        Show requests from connected apps in a compact window that opens on its own, instead of
+        bringing the whole wallet to the front. It closes again once you have answered everything.
+      </Typography>
+    </Paper>
+  )
+}
+
+export default ApprovalWindowSettings
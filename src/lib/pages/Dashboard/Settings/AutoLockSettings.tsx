@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react'
+import { Typography, Box, Paper, Switch, MenuItem, TextField, FormControlLabel, Stack } from '@mui/material'
+import { toast } from 'react-toastify'
+
+interface Settings {
+  idleMinutes: number
+  lockOnSuspend: boolean
+  lockOnScreenLock: boolean
+}
+
+const IDLE_CHOICES: Array<{ minutes: number; label: string }> = [
+  { minutes: 0, label: 'Never' },
+  { minutes: 1, label: 'After 1 minute' },
+  { minutes: 5, label: 'After 5 minutes' },
+  { minutes: 15, label: 'After 15 minutes' },
+  { minutes: 30, label: 'After 30 minutes' },
+  { minutes: 60, label: 'After 1 hour' },
+  { minutes: 240, label: 'After 4 hours' },
+]
+
+/**
+ * When the wallet locks itself: after a period without use (in this window or
+ * from connected apps), when the computer sleeps, and when the screen locks.
+ * Desktop build only.
+ */
+const AutoLockSettings = () => {
+  const hasApi = Boolean(window.electronAPI?.vault?.getAutoLock)
+  const [settings, setSettings] = useState<Settings | null>(null)
+
+  useEffect(() => {
+    if (!hasApi) return
+    window.electronAPI.vault.getAutoLock()
+      .then(({ settings }) => setSettings(settings))
+      .catch((error) => {
+        console.error('[AutoLock] Failed to load settings:', error)
+      })
+  }, [hasApi])
+
+  if (!hasApi || !settings) return null
+
+  const update = async (patch: Partial<Settings>) => {
+    const result = await window.electronAPI.vault.setAutoLock(patch)
+    if (result.success && result.settings) {
+      setSettings(result.settings)
+    } else {
+      toast.error(result.error || 'Failed to save auto-lock settings')
+    }
+  }
+
+  // Keep a custom timeout (set elsewhere) selectable.
+  const choices = IDLE_CHOICES.some(c => c.minutes === settings.idleMinutes)
+    ? IDLE_CHOICES
+    : [...IDLE_CHOICES, { minutes: settings.idleMinutes, label: `After ${settings.idleMinutes} minutes` }]
+
+  return (
+    <Paper elevation={0} sx={{ p: 3, bgcolor: 'background.paper', mb: 4 }}>
+      <Typography variant="h4" sx={{ mb: 2 }}>Auto-lock</Typography>
+      <Typography variant="body1" color="textSecondary" sx={{ mb: 2 }}>
+        Lock the wallet when it has not been used for a while. Use in this window and calls from
+        connected apps both count. Once locked, you need your passphrase or biometrics again, and
+        apps get a "wallet locked" error until you unlock.
+      </Typography>
+      <Stack spacing={1} sx={{ maxWidth: 360 }}>
+        <TextField
+          select
+          label="Lock when idle"
+          size="small"
+          value={settings.idleMinutes}
+          onChange={(e) => update({ idleMinutes: Number(e.target.value) })}
+        >
+          {choices.map(c => (
+            <MenuItem key={c.minutes} value={c.minutes}>{c.label}</MenuItem>
+          ))}
+        </TextField>
+        <Box>
+          <FormControlLabel
+            control={<Switch checked={settings.lockOnSuspend} onChange={(e) => update({ lockOnSuspend: e.target.checked })} />}
+            label="Lock when the computer sleeps"
+          />
+        </Box>
+        <Box>
+          <FormControlLabel
+            control={<Switch checked={settings.lockOnScreenLock} onChange={(e) => update({ lockOnScreenLock: e.target.checked })} />}
+            label="Lock when the screen locks"
+          />
+        </Box>
+      </Stack>
+    </Paper>
+  )
+}
+
+export default AutoLockSettings
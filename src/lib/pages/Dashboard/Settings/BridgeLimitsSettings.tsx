@@ -0,0 +1,205 @@
+import { useCallback, useEffect, useState } from 'react'
+import {
+  Typography, Box, Paper, Button, Collapse, Grid, IconButton, TextField
+} from '@mui/material'
+import DeleteIcon from '@mui/icons-material/Delete'
+import AddIcon from '@mui/icons-material/Add'
+import { toast } from 'react-toastify'
+
+interface BridgeLimits {
+  perOriginRequestsPerSecond: number
+  perOriginBurst: number
+  globalRequestsPerSecond: number
+  globalBurst: number
+  maxInFlightPerOrigin: number
+  maxInFlightGlobal: number
+  maxBodyBytes: Record<string, number>
+}
+
+type NumericLimit = Exclude<keyof BridgeLimits, 'maxBodyBytes'>
+
+interface RouteRow {
+  route: string
+  megabytes: string
+}
+
+const NUMERIC_FIELDS: Array<{ key: NumericLimit; label: string; helper: string }> = [
+  { key: 'perOriginRequestsPerSecond', label: 'Requests / second per app', helper: 'Sustained rate for one origin' },
+  { key: 'perOriginBurst', label: 'Burst per app', helper: 'Short bursts allowed above the rate' },
+  { key: 'globalRequestsPerSecond', label: 'Requests / second (all apps)', helper: 'Combined sustained rate' },
+  { key: 'globalBurst', label: 'Burst (all apps)', helper: 'Combined burst size' },
+  { key: 'maxInFlightPerOrigin', label: 'Pending calls per app', helper: 'Unanswered calls, including open prompts' },
+  { key: 'maxInFlightGlobal', label: 'Pending calls (all apps)', helper: 'Combined unanswered calls' },
+]
+
+const MB = 1024 * 1024
+
+function toRows(maxBodyBytes: Record<string, number>): RouteRow[] {
+  return Object.entries(maxBodyBytes)
+    .filter(([route]) => route !== '*')
+    .map(([route, bytes]) => ({ route, megabytes: String(+(bytes / MB).toFixed(2)) }))
+}
+
+/**
+ * Limits for calls arriving from connected apps over the local bridge.
+ * Only shown in the desktop build, where the bridge exists.
+ */
+const BridgeLimitsSettings = () => {
+  const hasBridgeApi = Boolean(window.electronAPI?.bridge?.getLimits)
+
+  const [expanded, setExpanded] = useState(false)
+  const [defaults, setDefaults] = useState<BridgeLimits | null>(null)
+  const [values, setValues] = useState<Record<NumericLimit, string> | null>(null)
+  const [defaultBodyMb, setDefaultBodyMb] = useState('')
+  const [routes, setRoutes] = useState<RouteRow[]>([])
+  const [saving, setSaving] = useState(false)
+
+  const applyLimits = useCallback((limits: BridgeLimits) => {
+    const next = {} as Record<NumericLimit, string>
+    for (const { key } of NUMERIC_FIELDS) next[key] = String(limits[key])
+    setValues(next)
+    setDefaultBodyMb(String(+(limits.maxBodyBytes['*'] / MB).toFixed(2)))
+    setRoutes(toRows(limits.maxBodyBytes))
+  }, [])
+
+  useEffect(() => {
+    if (!hasBridgeApi) return
+    window.electronAPI.bridge.getLimits()
+      .then(({ limits, defaults }) => {
+        setDefaults(defaults)
+        applyLimits(limits)
+      })
+      .catch((error) => {
+        console.error('[BridgeLimits] Failed to load limits:', error)
+      })
+  }, [hasBridgeApi, applyLimits])
+
+  if (!hasBridgeApi || !values) return null
+
+  const handleSave = async () => {
+    const maxBodyBytes: Record<string, number> = { '*': Math.round(Number(defaultBodyMb) * MB) }
+    for (const row of routes) {
+      const route = row.route.trim()
+      if (!route) continue
+      if (!route.startsWith('/')) {
+        toast.error(`Route "${route}" must start with "/".`)
+        return
+      }
+      maxBodyBytes[route] = Math.round(Number(row.megabytes) * MB)
+    }
+    const limits = { maxBodyBytes } as BridgeLimits
+    for (const { key } of NUMERIC_FIELDS) limits[key] = Number(values[key])
+
+    setSaving(true)
+    try {
+      const result = await window.electronAPI.bridge.setLimits(limits)
+      if (!result.success || !result.limits) {
+        toast.error(result.error || 'Failed to save app limits.')
+        return
+      }
+      // The main process clamps invalid entries; show what was actually stored.
+      applyLimits(result.limits)
+      toast.success('App limits saved.')
+    } catch {
+      toast.error('Failed to save app limits.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Paper elevation={0} sx={{ p: 3, bgcolor: 'background.paper', mb: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h4">Connected app limits</Typography>
+        <Button size="small" onClick={() => setExpanded(!expanded)}>
+          {expanded ? 'Hide' : 'Adjust'}
+        </Button>
+      </Box>
+      <Typography variant="body1" color="textSecondary">
+        Caps how fast apps can call the wallet and how many requests can wait on you at once.
+        Apps that go over get a "try again later" reply instead of flooding you with prompts.
+      </Typography>
+
+      <Collapse in={expanded}>
+        <Grid container spacing={2} sx={{ mt: 2 }}>
+          {NUMERIC_FIELDS.map(({ key, label, helper }) => (
+            <Grid item key={key} xs={12} sm={6}>
+              <TextField
+                fullWidth
+                type="number"
+                label={label}
+                helperText={helper}
+                value={values[key]}
+                disabled={saving}
+                inputProps={{ min: 1 }}
+                onChange={(e) => setValues({ ...values, [key]: e.target.value })}
+              />
+            </Grid>
+          ))}
+        </Grid>
+
+        <Typography variant="h6" sx={{ mt: 3, mb: 1 }}>Request size</Typography>
+        <TextField
+          fullWidth
+          type="number"
+          label="Default max body (MB)"
+          helperText="Applies to any route without its own limit"
+          value={defaultBodyMb}
+          disabled={saving}
+          inputProps={{ min: 0.01, step: 0.5 }}
+          onChange={(e) => setDefaultBodyMb(e.target.value)}
+          sx={{ mb: 2 }}
+        />
+        {routes.map((row, i) => (
+          <Box key={i} sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 1 }}>
+            <TextField
+              size="small"
+              label="Route"
+              placeholder="/createAction"
+              value={row.route}
+              disabled={saving}
+              onChange={(e) => setRoutes(routes.map((r, j) => j === i ? { ...r, route: e.target.value } : r))}
+              sx={{ flex: 2 }}
+            />
+            <TextField
+              size="small"
+              type="number"
+              label="Max MB"
+              value={row.megabytes}
+              disabled={saving}
+              inputProps={{ min: 0.01, step: 0.5 }}
+              onChange={(e) => setRoutes(routes.map((r, j) => j === i ? { ...r, megabytes: e.target.value } : r))}
+              sx={{ flex: 1 }}
+            />
+            <IconButton
+              aria-label="Remove route limit"
+              disabled={saving}
+              onClick={() => setRoutes(routes.filter((_, j) => j !== i))}
+            >
+              <DeleteIcon />
+            </IconButton>
+          </Box>
+        ))}
+        <Button
+          size="small"
+          startIcon={<AddIcon />}
+          disabled={saving}
+          onClick={() => setRoutes([...routes, { route: '', megabytes: '1' }])}
+        >
+          Add route limit
+        </Button>
+
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 3 }}>
+          <Button disabled={saving || !defaults} onClick={() => defaults && applyLimits(defaults)}>
+            Reset to defaults
+          </Button>
+          <Button variant="contained" disabled={saving} onClick={handleSave}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </Box>
+      </Collapse>
+    </Paper>
+  )
+}
+
+export default BridgeLimitsSettings
@@ -0,0 +1,248 @@
+import { useCallback, useContext, useEffect, useState } from 'react'
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Paper,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material'
+import DeleteIcon from '@mui/icons-material/Delete'
+import RestoreIcon from '@mui/icons-material/Restore'
+import { toast } from 'react-toastify'
+import { WalletContext } from '../../../WalletContext.js'
+
+type SnapshotKind = 'scheduled' | 'manual' | 'pre-migration' | 'pre-sync' | 'pre-restore'
+
+interface Snapshot {
+  id: string
+  kind: SnapshotKind
+  createdAt: number
+  size: number
+}
+
+interface Settings {
+  intervalMinutes: number
+  keepHourly: number
+  keepDaily: number
+}
+
+const KIND_LABELS: Record<SnapshotKind, string> = {
+  scheduled: 'Scheduled',
+  manual: 'Manual',
+  'pre-migration': 'Before database upgrade',
+  'pre-sync': 'Before sync',
+  'pre-restore': 'Before restore',
+}
+
+const INTERVAL_CHOICES: Array<{ value: number; label: string }> = [
+  { value: 0, label: 'Off' },
+  { value: 15, label: 'Every 15 minutes' },
+  { value: 60, label: 'Every hour' },
+  { value: 6 * 60, label: 'Every 6 hours' },
+  { value: 24 * 60, label: 'Every day' },
+]
+const HOURLY_CHOICES = [0, 6, 12, 24, 48]
+const DAILY_CHOICES = [0, 3, 7, 14, 30]
+
+// Keep a value set elsewhere selectable.
+const withValue = (choices: number[], value: number) => (choices.includes(value) ? choices : [...choices, value].sort((a, b) => a - b))
+
+const formatSize = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+
+/**
+ * Point-in-time snapshots of this wallet's local database: the schedule and
+ * how many to keep, the list, and restoring one. Desktop build only.
+ */
+const DatabaseSnapshotsSettings = () => {
+  const { stas } = useContext(WalletContext)
+  const hasApi = Boolean(window.electronAPI?.snapshots)
+  const identityKey = stas?.keyDeriver?.identityKey
+  const chain = stas?.keyDeriver?.chain
+  const [snapshots, setSnapshots] = useState<Snapshot[] | null>(null)
+  const [settings, setSettings] = useState<Settings | null>(null)
+  const [restoreTarget, setRestoreTarget] = useState<Snapshot | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const refresh = useCallback(async () => {
+    if (!hasApi || !identityKey || !chain) return
+    const result = await window.electronAPI.snapshots.list(identityKey, chain)
+    if (result.ok === false) {
+      console.error('[Snapshots] Failed to list:', result.error)
+      return
+    }
+    setSnapshots(result.snapshots)
+    setSettings(result.settings)
+  }, [hasApi, identityKey, chain])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  if (!hasApi || !identityKey || !chain || !snapshots || !settings) return null
+
+  const update = async (patch: Partial<Settings>) => {
+    const result = await window.electronAPI.snapshots.setSettings(patch)
+    if (result.success && result.settings) {
+      setSettings(result.settings)
+    } else {
+      toast.error(result.error || 'Failed to save snapshot settings')
+    }
+  }
+
+  const handleCreate = async () => {
+    setBusy(true)
+    try {
+      const result = await window.electronAPI.snapshots.create(identityKey, chain)
+      if (result.ok === false) {
+        toast.error(result.error)
+        return
+      }
+      toast.dark('Snapshot taken')
+      await refresh()
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDelete = async (snapshot: Snapshot) => {
+    const result = await window.electronAPI.snapshots.delete(identityKey, chain, snapshot.id)
+    if (result.ok === false) toast.error(result.error)
+    await refresh()
+  }
+
+  const handleRestore = async () => {
+    if (!restoreTarget) return
+    setBusy(true)
+    try {
+      const result = await window.electronAPI.snapshots.restore(identityKey, chain, restoreTarget.id)
+      if (result.ok === false) {
+        toast.error(result.error)
+        return
+      }
+      toast.dark('Database restored')
+      // Start the wallet over on the restored database.
+      window.location.reload()
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const intervalChoices = INTERVAL_CHOICES.some(c => c.value === settings.intervalMinutes)
+    ? INTERVAL_CHOICES
+    : [...INTERVAL_CHOICES, { value: settings.intervalMinutes, label: `Every ${settings.intervalMinutes} minutes` }]
+
+  return (
+    <Paper elevation={0} sx={{ p: 3, bgcolor: 'background.paper', mb: 4 }}>
+      <Typography variant="h4" sx={{ mb: 2 }}>Database snapshots</Typography>
+      <Typography variant="body1" color="textSecondary" sx={{ mb: 2 }}>
+        Copies of this wallet's local database, taken on a schedule, before upgrades and syncs, and
+        whenever you ask. Restore one if the wallet's data goes wrong. Snapshots stay on this computer
+        and are not encrypted backups; use Encrypted backup under Security to move a wallet.
+      </Typography>
+      <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} sx={{ mb: 2 }}>
+        <TextField
+          select
+          label="Take snapshots"
+          size="small"
+          value={settings.intervalMinutes}
+          onChange={(e) => update({ intervalMinutes: Number(e.target.value) })}
+          sx={{ minWidth: 200 }}
+        >
+          {intervalChoices.map(c => <MenuItem key={c.value} value={c.value}>{c.label}</MenuItem>)}
+        </TextField>
+        <TextField
+          select
+          label="Keep hourly"
+          size="small"
+          value={settings.keepHourly}
+          onChange={(e) => update({ keepHourly: Number(e.target.value) })}
+          sx={{ minWidth: 140 }}
+        >
+          {withValue(HOURLY_CHOICES, settings.keepHourly).map(n => <MenuItem key={n} value={n}>{n}</MenuItem>)}
+        </TextField>
+        <TextField
+          select
+          label="Keep daily"
+          size="small"
+          value={settings.keepDaily}
+          onChange={(e) => update({ keepDaily: Number(e.target.value) })}
+          sx={{ minWidth: 140 }}
+        >
+          {withValue(DAILY_CHOICES, settings.keepDaily).map(n => <MenuItem key={n} value={n}>{n}</MenuItem>)}
+        </TextField>
+        <Box sx={{ flex: 1, display: 'flex', justifyContent: 'flex-end', alignItems: 'center' }}>
+          <Button variant="outlined" onClick={handleCreate} disabled={busy}>
+            Take snapshot now
+          </Button>
+        </Box>
+      </Stack>
+
+      {snapshots.length === 0
+        ? (
+          <Typography variant="body2" color="textSecondary">No snapshots yet.</Typography>
+          )
+        : (
+          <List dense sx={{ maxHeight: 320, overflowY: 'auto' }}>
+            {snapshots.map(snapshot => (
+              <ListItem
+                key={snapshot.id}
+                secondaryAction={
+                  <>
+                    <Tooltip title="Restore">
+                      <IconButton edge="end" onClick={() => setRestoreTarget(snapshot)} disabled={busy} sx={{ mr: 1 }}>
+                        <RestoreIcon />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Delete">
+                      <IconButton edge="end" onClick={() => handleDelete(snapshot)} disabled={busy}>
+                        <DeleteIcon />
+                      </IconButton>
+                    </Tooltip>
+                  </>
+                }
+              >
+                <ListItemText
+                  primary={new Date(snapshot.createdAt).toLocaleString()}
+                  secondary={`${KIND_LABELS[snapshot.kind]} · ${formatSize(snapshot.size)}`}
+                />
+              </ListItem>
+            ))}
+          </List>
+          )}
+
+      <Dialog open={restoreTarget !== null} onClose={busy ? undefined : () => setRestoreTarget(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Restore this snapshot?</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 2 }}>
+            The wallet database goes back to {restoreTarget && new Date(restoreTarget.createdAt).toLocaleString()}.
+            Background syncing stops while it is replaced, and the wallet reloads afterwards.
+          </DialogContentText>
+          <Alert severity="info">
+            The current database is kept as a "Before restore" snapshot, so you can undo this.
+          </Alert>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRestoreTarget(null)} disabled={busy}>Cancel</Button>
+          <Button variant="contained" onClick={handleRestore} disabled={busy}>
+            {busy ? 'Restoring…' : 'Restore'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  )
+}
+
+export default DatabaseSnapshotsSettings
@@ -0,0 +1,133 @@
+import { useEffect, useState, type FormEvent } from 'react'
+import { Typography, Button, TextField, Stack, Box } from '@mui/material'
+import { toast } from 'react-toastify'
+import * as secrets from '../../../../services/secrets'
+
+/**
+ * Set a duress passphrase: entered at the unlock screen instead of the real
+ * one, it opens a separate decoy wallet. Desktop build only; the Security
+ * page leaves it out elsewhere.
+ */
+const DuressPassphrase = () => {
+  const [configured, setConfigured] = useState(false)
+  const [current, setCurrent] = useState('')
+  const [duress, setDuress] = useState('')
+  const [confirm, setConfirm] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    secrets.hasDuressPassphrase()
+      .then(setConfigured)
+      .catch(() => setConfigured(false))
+  }, [])
+
+  const reset = () => {
+    setCurrent('')
+    setDuress('')
+    setConfirm('')
+  }
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (duress !== confirm) {
+      toast.error('Duress passphrases do not match.')
+      return
+    }
+    setSaving(true)
+    try {
+      const result = await secrets.setDuressPassphrase(current, duress)
+      if (result.ok === false) {
+        toast.error(result.error)
+        return
+      }
+      toast.dark(configured ? 'Duress passphrase changed' : 'Duress passphrase set')
+      setConfigured(true)
+      reset()
+    } catch (err: any) {
+      toast.error(err?.message || 'Failed to save the duress passphrase')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRemove = async () => {
+    setSaving(true)
+    try {
+      const result = await secrets.clearDuressPassphrase(current)
+      if (result.ok === false) {
+        toast.error(result.error)
+        return
+      }
+      toast.dark('Duress passphrase removed')
+      setConfigured(false)
+      reset()
+    } catch (err: any) {
+      toast.error(err?.message || 'Failed to remove the duress passphrase')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div>
+      <Typography variant='h4' color='textPrimary' sx={{ mb: 2 }}>Duress passphrase</Typography>
+      <Typography variant='body1' color='textSecondary' sx={{ mb: 2 }}>
+        A second passphrase that opens a separate decoy wallet instead of this one. The unlock screen
+        behaves the same for both. After setting it, lock BSV Desktop and unlock once with the duress
+        passphrase to set up the decoy wallet, and give it a plausible balance.
+      </Typography>
+      {configured && (
+        <Typography variant='body2' color='textSecondary' sx={{ mb: 2 }}>
+          A duress passphrase is set. Changing it keeps the decoy wallet; removing it erases the decoy
+          wallet's keys.
+        </Typography>
+      )}
+      <form onSubmit={handleSubmit}>
+        <Stack spacing={2} sx={{ mt: 3 }}>
+          <TextField
+            type='password'
+            label='Vault passphrase'
+            value={current}
+            onChange={e => setCurrent(e.target.value)}
+            autoComplete='current-password'
+            fullWidth
+          />
+          <TextField
+            type='password'
+            label={configured ? 'New duress passphrase' : 'Duress passphrase'}
+            helperText='At least 8 characters, different from your vault passphrase'
+            value={duress}
+            onChange={e => setDuress(e.target.value)}
+            autoComplete='new-password'
+            fullWidth
+          />
+          <TextField
+            type='password'
+            label='Confirm duress passphrase'
+            value={confirm}
+            onChange={e => setConfirm(e.target.value)}
+            autoComplete='new-password'
+            fullWidth
+          />
+        </Stack>
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 2 }}>
+          {configured && (
+            <Button color='error' onClick={handleRemove} disabled={saving || !current}>
+              Remove
+            </Button>
+          )}
+          <Button
+            color='primary'
+            variant='contained'
+            type='submit'
+            disabled={saving || !current || !duress || !confirm}
+          >
+            {saving ? 'Saving…' : configured ? 'Change duress passphrase' : 'Set duress passphrase'}
+          </Button>
+        </Box>
+      </form>
+    </div>
+  )
+}
+
+export default DuressPassphrase
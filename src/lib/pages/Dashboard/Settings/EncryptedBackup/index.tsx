@@ -0,0 +1,93 @@
+import { useContext, useState, type FormEvent } from 'react'
+import { Typography, Button, TextField, Stack, Box } from '@mui/material'
+import { toast } from 'react-toastify'
+import { WalletContext } from '../../../../WalletContext'
+import { exportWalletBackup } from '../../../../services/walletBackup'
+
+/**
+ * Export the whole wallet — vault secrets, wallet database, settings and
+ * token allowances — as one file encrypted under a passphrase chosen here.
+ * Restore it from the Greeter on another computer. Desktop build only.
+ */
+const EncryptedBackup = () => {
+  const { stas } = useContext(WalletContext)
+  const [passphrase, setPassphrase] = useState('')
+  const [confirm, setConfirm] = useState('')
+  const [exporting, setExporting] = useState(false)
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!stas?.keyDeriver) {
+      toast.error('The wallet is still loading.')
+      return
+    }
+    if (passphrase !== confirm) {
+      toast.error('Passphrases do not match.')
+      return
+    }
+    setExporting(true)
+    try {
+      const result = await exportWalletBackup({
+        passphrase,
+        identityKey: stas.keyDeriver.identityKey,
+        chain: stas.keyDeriver.chain
+      })
+      if (result.ok === false) {
+        if (!result.canceled) toast.error(result.error)
+        return
+      }
+      toast.dark(`Backup saved to ${result.path}`)
+      setPassphrase('')
+      setConfirm('')
+    } catch (err: any) {
+      toast.error(err?.message || 'Failed to export backup')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <div>
+      <Typography variant='h4' color='textPrimary' sx={{ mb: 2 }}>Encrypted backup</Typography>
+      <Typography variant='body1' color='textSecondary' sx={{ mb: 2 }}>
+        Save everything this computer holds for your wallet — keys, local wallet data, settings and
+        token spending allowances — to one encrypted file. Anyone with the file and its passphrase
+        can restore your wallet, so keep them apart. Connected apps will need to pair again after
+        a restore.
+      </Typography>
+      <form onSubmit={handleSubmit}>
+        <Stack spacing={2} sx={{ mt: 3 }}>
+          <TextField
+            type='password'
+            label='Backup passphrase'
+            helperText='At least 8 characters. Not recoverable if lost.'
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+            autoComplete='new-password'
+            fullWidth
+          />
+          <TextField
+            type='password'
+            label='Confirm backup passphrase'
+            value={confirm}
+            onChange={e => setConfirm(e.target.value)}
+            autoComplete='new-password'
+            fullWidth
+          />
+        </Stack>
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+          <Button
+            color='primary'
+            variant='contained'
+            type='submit'
+            disabled={exporting || passphrase.length < 8 || !confirm}
+          >
+            {exporting ? 'Exporting…' : 'Export encrypted backup'}
+          </Button>
+        </Box>
+      </form>
+    </div>
+  )
+}
+
+export default EncryptedBackup
@@ -0,0 +1,144 @@
+import { useState } from 'react'
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  MenuItem,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material'
+import ContentCopyIcon from '@mui/icons-material/ContentCopy'
+import DownloadIcon from '@mui/icons-material/Download'
+import { toast } from 'react-toastify'
+import { useExportDataToFile } from '../../../../utils/exportDataToFile'
+import { MAX_SHARES, formatShareSheet, splitSecret, type RecoveryShare, type ShareSecretKind } from '../../../../utils/recoveryShares'
+
+interface RecoverySharesProps {
+  mnemonic: string
+  keyHex: string
+}
+
+/**
+ * Split the recovery phrase or private key into M-of-N shares for separate
+ * keepers. Shares are shown once and never stored; recover them under
+ * Account Recovery → Recover from shares.
+ */
+const RecoveryShares = ({ mnemonic, keyHex }: RecoverySharesProps) => {
+  const exportData = useExportDataToFile()
+  const [kind, setKind] = useState<ShareSecretKind>(mnemonic ? 'mnemonic' : 'key')
+  const [threshold, setThreshold] = useState(2)
+  const [total, setTotal] = useState(3)
+  const [shares, setShares] = useState<RecoveryShare[] | null>(null)
+  const [createdAt, setCreatedAt] = useState(new Date())
+
+  const available = kind === 'mnemonic' ? !!mnemonic : !!keyHex
+
+  const handleSplit = () => {
+    try {
+      setShares(splitSecret(kind === 'mnemonic' ? { kind, mnemonic } : { kind, keyHex }, threshold, total))
+      setCreatedAt(new Date())
+    } catch (err: any) {
+      toast.error(err?.message || 'Failed to create shares')
+    }
+  }
+
+  const handleSave = async (share: RecoveryShare) => {
+    const ok = await exportData({
+      data: formatShareSheet(share, createdAt),
+      filename: `BSV Desktop recovery share ${share.index} of ${share.total}.txt`,
+      type: 'text/plain'
+    })
+    if (!ok) toast.error('Failed to save share')
+  }
+
+  const handleCopy = (share: RecoveryShare) => {
+    void navigator.clipboard.writeText(formatShareSheet(share, createdAt))
+    toast.dark(`Share ${share.index} copied`)
+  }
+
+  const numbers = Array.from({ length: MAX_SHARES - 1 }, (_, i) => i + 2)
+
+  return (
+    <div>
+      <Typography variant='h4' sx={{ mb: 2 }}>Recovery shares</Typography>
+      <Typography variant='body1' color='textSecondary' sx={{ mb: 2 }}>
+        Split your secret into shares for different people to keep. Any chosen number of them can
+        recover the wallet together; fewer reveal nothing.
+      </Typography>
+      <Stack spacing={2} direction={{ xs: 'column', sm: 'row' }}>
+        <TextField select label='Secret' value={kind} onChange={e => setKind(e.target.value as ShareSecretKind)} sx={{ flex: 2 }}>
+          <MenuItem value='mnemonic' disabled={!mnemonic}>Recovery phrase</MenuItem>
+          <MenuItem value='key' disabled={!keyHex}>Private key</MenuItem>
+        </TextField>
+        <TextField
+          select
+          label='Shares needed'
+          value={threshold}
+          onChange={e => {
+            const next = Number(e.target.value)
+            setThreshold(next)
+            if (total < next) setTotal(next)
+          }}
+          sx={{ flex: 1 }}
+        >
+          {numbers.map(n => <MenuItem key={n} value={n}>{n}</MenuItem>)}
+        </TextField>
+        <TextField select label='Total shares' value={total} onChange={e => setTotal(Number(e.target.value))} sx={{ flex: 1 }}>
+          {numbers.filter(n => n >= threshold).map(n => <MenuItem key={n} value={n}>{n}</MenuItem>)}
+        </TextField>
+      </Stack>
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+        <Button variant='contained' onClick={handleSplit} disabled={!available} sx={{ textTransform: 'none' }}>
+          Create {threshold}-of-{total} shares
+        </Button>
+      </Box>
+
+      <Dialog open={shares !== null} onClose={() => setShares(null)} fullWidth maxWidth='md'>
+        <DialogTitle>Recovery shares</DialogTitle>
+        <DialogContent dividers>
+          <Alert severity='warning' sx={{ mb: 2 }}>
+            Give each share to a different keeper and don't keep copies together. These shares are not
+            stored anywhere; closing this window discards them.
+          </Alert>
+          <Stack spacing={1.5}>
+            {shares?.map(share => (
+              <Box key={share.index} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Typography variant='subtitle2' sx={{ minWidth: 90 }}>
+                  Share {share.index}/{share.total}
+                </Typography>
+                <Typography
+                  variant='body2'
+                  sx={{ flex: 1, fontFamily: 'monospace', wordBreak: 'break-all', userSelect: 'all' }}
+                >
+                  {share.line}
+                </Typography>
+                <Tooltip title='Copy printable share'>
+                  <IconButton size='small' onClick={() => handleCopy(share)}>
+                    <ContentCopyIcon fontSize='small' />
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title='Save printable share'>
+                  <IconButton size='small' onClick={() => handleSave(share)}>
+                    <DownloadIcon fontSize='small' />
+                  </IconButton>
+                </Tooltip>
+              </Box>
+            ))}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setShares(null)}>Done</Button>
+        </DialogActions>
+      </Dialog>
+    </div>
+  )
+}
+
+export default RecoveryShares
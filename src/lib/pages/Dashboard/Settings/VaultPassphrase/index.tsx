@@ -0,0 +1,91 @@
+import { useState, type FormEvent } from 'react'
+import { Typography, Button, TextField, Stack, Box } from '@mui/material'
+import { toast } from 'react-toastify'
+import * as secrets from '../../../../services/secrets'
+
+/**
+ * Change the passphrase that unlocks this computer's vault. Separate from the
+ * wallet password, which protects the wallet itself. Desktop build only;
+ * the Security page leaves it out elsewhere.
+ */
+const VaultPassphrase = () => {
+  const [current, setCurrent] = useState('')
+  const [next, setNext] = useState('')
+  const [confirm, setConfirm] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (next !== confirm) {
+      toast.error('New passphrases do not match.')
+      return
+    }
+    setSaving(true)
+    try {
+      const result = await secrets.changeVaultPassphrase(current, next)
+      if (result.ok === false) {
+        toast.error(result.error)
+        return
+      }
+      toast.dark('Vault passphrase changed')
+      setCurrent('')
+      setNext('')
+      setConfirm('')
+    } catch (err: any) {
+      toast.error(err?.message || 'Failed to change vault passphrase')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div>
+      <Typography variant='h4' color='textPrimary' sx={{ mb: 2 }}>Vault passphrase</Typography>
+      <Typography variant='body1' color='textSecondary' sx={{ mb: 2 }}>
+        The passphrase you enter to unlock BSV Desktop on this computer. Biometric unlock keeps
+        working after you change it.
+      </Typography>
+      <form onSubmit={handleSubmit}>
+        <Stack spacing={2} sx={{ mt: 3 }}>
+          <TextField
+            type='password'
+            label='Current passphrase'
+            value={current}
+            onChange={e => setCurrent(e.target.value)}
+            autoComplete='current-password'
+            fullWidth
+          />
+          <TextField
+            type='password'
+            label='New passphrase'
+            helperText='At least 8 characters'
+            value={next}
+            onChange={e => setNext(e.target.value)}
+            autoComplete='new-password'
+            fullWidth
+          />
+          <TextField
+            type='password'
+            label='Confirm new passphrase'
+            value={confirm}
+            onChange={e => setConfirm(e.target.value)}
+            autoComplete='new-password'
+            fullWidth
+          />
+        </Stack>
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+          <Button
+            color='primary'
+            variant='contained'
+            type='submit'
+            disabled={saving || !current || !next || !confirm}
+          >
+            {saving ? 'Saving…' : 'Change passphrase'}
+          </Button>
+        </Box>
+      </form>
+    </div>
+  )
+}
+
+export default VaultPassphrase
@@ -27,6 +27,22 @@ interface ActionItem {
   labels: string[]
 }
 
+interface DbIntegrityReport {
+  ok: boolean
+  problems: string[]
+  foreignKeys: Array<{ table: string; parent: string; rows: number }>
+  orphanedStasOutputs: { count: number; outputIds: number[] }
+  tablesChecked: number
+  durationMs: number
+}
+
+interface DbSizeReport {
+  databaseBytes: number
+  walBytes: number
+  freeBytes: number
+  tables: Array<{ name: string; owner: string; rows: number; bytes: number | null }>
+}
+
 interface ConfirmationState {
   open: boolean
   title: string
@@ -34,9 +50,15 @@ interface ConfirmationState {
   onConfirm: () => void
 }
 
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
 const WalletDiagnosis = () => {
   const { t } = useTranslation()
-  const { wallet: rawWallet } = useContext(WalletContext)
+  const { wallet: rawWallet, stas } = useContext(WalletContext)
 
   const [expanded, setExpanded] = useState(false)
   const [loading, setLoading] = useState(false)
@@ -445,6 +467,80 @@ const WalletDiagnosis = () => {
     }
   }, [getWalletClass, addLog])
 
+  // --- Database Maintenance (desktop build, local storage) ---
+  const [dbIntegrity, setDbIntegrity] = useState<DbIntegrityReport | null>(null)
+  const [dbSizes, setDbSizes] = useState<DbSizeReport | null>(null)
+  const dbIdentityKey = stas?.keyDeriver?.identityKey
+  const dbChain = stas?.keyDeriver?.chain
+  const hasDbMaintenance = Boolean(window.electronAPI?.dbMaintenance && dbIdentityKey && dbChain)
+
+  const runDbTask = useCallback(async <T,>(
+    label: string,
+    task: (identityKey: string, chain: 'main' | 'test' | 'ttn') => Promise<{ ok: true; result: T } | { ok: false; error: string }>
+  ): Promise<T | null> => {
+    if (!dbIdentityKey || !dbChain) return null
+    setLoading(true)
+    addLog(`${label}...`)
+    try {
+      const response = await task(dbIdentityKey, dbChain)
+      if (response.ok === false) throw new Error(response.error)
+      return response.result
+    } catch (e: any) {
+      const msg = e?.message || String(e)
+      addLog(`${label} failed: ${msg}`)
+      toast.error(`${label} failed: ${msg}`)
+      return null
+    } finally {
+      setLoading(false)
+    }
+  }, [dbIdentityKey, dbChain, addLog])
+
+  const checkDatabase = useCallback(async () => {
+    const report = await runDbTask('Checking database integrity', window.electronAPI.dbMaintenance.check)
+    if (!report) return
+    setDbIntegrity(report)
+    addLog(`Integrity check of ${report.tablesChecked} tables finished in ${(report.durationMs / 1000).toFixed(1)}s`)
+    if (report.problems.length > 0) addLog(`SQLite integrity problems: ${report.problems.join('; ')}`)
+    for (const fk of report.foreignKeys) {
+      addLog(`${fk.rows} row(s) in ${fk.table} reference missing ${fk.parent} rows`)
+    }
+    if (report.orphanedStasOutputs.count > 0) {
+      addLog(`Orphaned stas_outputs rows (outputId): ${report.orphanedStasOutputs.outputIds.join(', ')}${report.orphanedStasOutputs.count > report.orphanedStasOutputs.outputIds.length ? ', …' : ''}`)
+    }
+    if (report.ok) toast.success('Database check complete')
+    else toast.warning('Database check found problems')
+  }, [runDbTask, addLog])
+
+  const loadDbSizes = useCallback(async () => {
+    const report = await runDbTask('Measuring database tables', window.electronAPI.dbMaintenance.report)
+    if (!report) return
+    setDbSizes(report)
+    addLog(`Database ${formatBytes(report.databaseBytes)}, WAL ${formatBytes(report.walBytes)}, ${formatBytes(report.freeBytes)} reclaimable`)
+  }, [runDbTask, addLog])
+
+  const checkpointDatabase = useCallback(async () => {
+    const result = await runDbTask('Checkpointing write-ahead log', window.electronAPI.dbMaintenance.checkpoint)
+    if (!result) return
+    addLog(`WAL checkpoint: ${formatBytes(result.walBytesBefore)} → ${formatBytes(result.walBytesAfter)}${result.busy ? ' (partly blocked by background sync; try again later)' : ''}`)
+    toast.success('Write-ahead log checkpointed')
+    if (dbSizes) void loadDbSizes()
+  }, [runDbTask, addLog, dbSizes, loadDbSizes])
+
+  const vacuumDatabase = useCallback(() => {
+    confirm(
+      t('wallet_diagnosis_db_vacuum_confirm_title'),
+      t('wallet_diagnosis_db_vacuum_confirm_message'),
+      async () => {
+        closeConfirmation()
+        const result = await runDbTask('Compacting database', window.electronAPI.dbMaintenance.vacuum)
+        if (!result) return
+        addLog(`Compacted in ${(result.durationMs / 1000).toFixed(1)}s: ${formatBytes(result.bytesBefore)} → ${formatBytes(result.bytesAfter)}`)
+        toast.success('Database compacted')
+        if (dbSizes) void loadDbSizes()
+      }
+    )
+  }, [confirm, closeConfirmation, t, runDbTask, addLog, dbSizes, loadDbSizes])
+
   const getStatusColor = (status: string): 'error' | 'warning' | 'info' | 'default' => {
     switch (status) {
       case 'failed': return 'error'
@@ -790,6 +886,108 @@ const WalletDiagnosis = () => {
 
         <Divider sx={{ my: 3 }} />
 
+        {hasDbMaintenance && (
+          <>
+            {/* --- Database Maintenance --- */}
+            <Box>
+              <Typography variant="h6" sx={{ mb: 1 }}>{t('wallet_diagnosis_db_title')}</Typography>
+              <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+                {t('wallet_diagnosis_db_description')}
+              </Typography>
+              <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+                <Button variant="outlined" size="small" onClick={checkDatabase} disabled={loading}>
+                  {t('wallet_diagnosis_db_check')}
+                </Button>
+                <Button variant="outlined" size="small" onClick={loadDbSizes} disabled={loading}>
+                  {t('wallet_diagnosis_db_size_report')}
+                </Button>
+                <Button variant="outlined" size="small" onClick={checkpointDatabase} disabled={loading}>
+                  {t('wallet_diagnosis_db_checkpoint')}
+                </Button>
+                <Button variant="contained" color="warning" size="small" onClick={vacuumDatabase} disabled={loading}>
+                  {t('wallet_diagnosis_db_vacuum')}
+                </Button>
+              </Box>
+
+              {dbIntegrity && (
+                <Box sx={{ mb: 2 }}>
+                  {dbIntegrity.ok && (
+                    <Alert severity="success">
+                      {t('wallet_diagnosis_db_healthy', { count: dbIntegrity.tablesChecked })}
+                    </Alert>
+                  )}
+                  {dbIntegrity.problems.length > 0 && (
+                    <Alert severity="error" sx={{ mb: 1 }}>
+                      {t('wallet_diagnosis_db_integrity_problems', { count: dbIntegrity.problems.length })}
+                    </Alert>
+                  )}
+                  {dbIntegrity.foreignKeys.map(fk => (
+                    <Alert key={`${fk.table}-${fk.parent}`} severity="warning" sx={{ mb: 1 }}>
+                      {t('wallet_diagnosis_db_foreign_keys', { count: fk.rows, table: fk.table, parent: fk.parent })}
+                    </Alert>
+                  ))}
+                  {dbIntegrity.orphanedStasOutputs.count > 0 && (
+                    <Alert severity="warning" sx={{ mb: 1 }}>
+                      {t('wallet_diagnosis_db_orphaned_stas', { count: dbIntegrity.orphanedStasOutputs.count })}
+                    </Alert>
+                  )}
+                </Box>
+              )}
+
+              {dbSizes && (
+                <>
+                  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+                    <Chip label={`${t('wallet_diagnosis_db_file')}: ${formatBytes(dbSizes.databaseBytes)}`} variant="outlined" />
+                    <Chip label={`WAL: ${formatBytes(dbSizes.walBytes)}`} variant="outlined" />
+                    <Chip
+                      label={`${t('wallet_diagnosis_db_reclaimable')}: ${formatBytes(dbSizes.freeBytes)}`}
+                      color={dbSizes.freeBytes > dbSizes.databaseBytes / 4 ? 'warning' : 'default'}
+                      variant="outlined"
+                    />
+                  </Box>
+                  <Box sx={{
+                    maxHeight: 300,
+                    overflowY: 'auto',
+                    border: 1,
+                    borderColor: 'divider',
+                    borderRadius: 1,
+                    p: 1,
+                  }}>
+                    {dbSizes.tables.map(table => (
+                      <Box
+                        key={table.name}
+                        sx={{
+                          display: 'flex',
+                          alignItems: 'center',
+                          gap: 1,
+                          py: 0.5,
+                          px: 1,
+                          '&:not(:last-child)': { borderBottom: 1, borderColor: 'divider' },
+                        }}
+                      >
+                        <Typography variant="body2" sx={{ flex: 1, fontFamily: 'monospace' }} noWrap>
+                          {table.name}
+                        </Typography>
+                        <Typography variant="body2" color="textSecondary" sx={{ minWidth: 110 }}>
+                          {table.owner}
+                        </Typography>
+                        <Typography variant="body2" sx={{ minWidth: 100, textAlign: 'right' }}>
+                          {t('wallet_diagnosis_db_rows', { count: table.rows })}
+                        </Typography>
+                        <Typography variant="body2" sx={{ minWidth: 80, textAlign: 'right' }}>
+                          {table.bytes === null ? '—' : formatBytes(table.bytes)}
+                        </Typography>
+                      </Box>
+                    ))}
+                  </Box>
+                </>
+              )}
+            </Box>
+
+            <Divider sx={{ my: 3 }} />
+          </>
+        )}
+
         {/* --- Operation Log --- */}
         <Box>
           <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
@@ -0,0 +1,51 @@
+import { useContext, useState } from 'react'
+import { Typography, Button } from '@mui/material'
+import { toast } from 'react-toastify'
+import { WalletContext } from '../../../../WalletContext'
+
+/**
+ * Save a watch-only export of this wallet: its local wallet data, without
+ * keys, for someone who should see history, baskets and token holdings but
+ * never spend. They open it from the Greeter. Desktop build only.
+ */
+const WatchOnlyExport = () => {
+  const { stas } = useContext(WalletContext)
+  const [exporting, setExporting] = useState(false)
+
+  const handleExport = async () => {
+    if (!stas?.keyDeriver) {
+      toast.error('The wallet is still loading.')
+      return
+    }
+    setExporting(true)
+    try {
+      const result = await window.electronAPI.watchOnly.export(stas.keyDeriver.identityKey, stas.keyDeriver.chain)
+      if (result.ok === false) {
+        if (!result.canceled) toast.error(result.error)
+        return
+      }
+      toast.dark(`Watch-only export saved to ${result.path}`)
+    } catch (err: any) {
+      toast.error(err?.message || 'Failed to export')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <div>
+      <Typography variant='h4' color='textPrimary' sx={{ mb: 2 }}>Watch-only export</Typography>
+      <Typography variant='body1' color='textSecondary' sx={{ mb: 2 }}>
+        Save your wallet's transaction history, baskets and token holdings — but no keys — to a
+        file that opens as a watch-only wallet in BSV Desktop. Whoever opens it can see everything
+        in it and spend nothing. The file is not encrypted, so share it only with people who should
+        see your finances.
+      </Typography>
+      <Button variant='contained' onClick={handleExport} disabled={exporting}>
+        {exporting ? 'Exporting…' : 'Export watch-only file'}
+      </Button>
+    </div>
+  )
+}
+
+export default WatchOnlyExport
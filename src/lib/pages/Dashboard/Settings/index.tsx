@@ -32,6 +32,10 @@ import { UserContext } from '../../../UserContext.js'
 import PageLoading from '../../../components/PageLoading.js'
 import MessageBoxConfig from '../../../components/MessageBoxConfig/index.tsx'
 import WalletDiagnosis from './WalletDiagnosis.tsx'
+import BridgeLimitsSettings from './BridgeLimitsSettings.tsx'
+import ApprovalWindowSettings from './ApprovalWindowSettings.tsx'
+import AutoLockSettings from './AutoLockSettings.tsx'
+import DatabaseSnapshotsSettings from './DatabaseSnapshotsSettings.tsx'
 const useStyles = makeStyles((theme: Theme) => ({
   root: {
     padding: theme.spacing(3),
@@ -825,6 +829,14 @@ const Settings = () => {
 
       <WalletDiagnosis />
 
+      <DatabaseSnapshotsSettings />
+
+      <AutoLockSettings />
+
+      <BridgeLimitsSettings />
+
+      <ApprovalWindowSettings />
+
       <Paper elevation={0} className={classes.section} sx={{ p: 3, bgcolor: 'background.paper' }}>
         <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
           <Typography variant="h4">
@@ -11,6 +11,7 @@ import {
 } from '@mui/material';
 import PageLoading from '../../components/PageLoading';
 import ErrorBoundary from '../../components/ErrorBoundary';
+import WatchOnlyBanner from '../../components/WatchOnlyBanner';
 import Menu from '../../navigation/Menu';
 import { Menu as MenuIcon } from '@mui/icons-material';
 import MyIdentity from './MyIdentity'; // Assuming index.tsx or similar
@@ -32,6 +33,7 @@ import CertificateAccess from './CertificateAccess'; // Assuming index.jsx or si
 import { WalletContext } from '../../WalletContext';
 import BasketsPage from './BasketsPage';
 import AssetsPage from './AssetsPage';
+import ActivityPage from './ActivityPage';
 // @ts-expect-error - Type issues with makeStyles
 const useStyles = makeStyles(style, {
   name: 'Dashboard'
@@ -43,14 +45,15 @@ const useStyles = makeStyles(style, {
 export default function Dashboard() {
   const { t } = useTranslation();
   const { pageLoaded } = useContext(UserContext);
-  const { activeProfile, managers, adminOriginator } = useContext(WalletContext)
+  const { activeProfile, managers, adminOriginator, watchOnly } = useContext(WalletContext)
   const history = useHistory();
   const breakpoints = useBreakpoint();
 
   // On first load, redirect to Onboarding if the wallet has zero balance
   useEffect(() => {
     const checkBalance = async () => {
-      if (!managers?.permissionsManager) return;
+      // A watch-only wallet cannot be funded from here
+      if (!managers?.permissionsManager || watchOnly) return;
       try {
         const result = await managers.permissionsManager.listOutputs(
           { basket: 'default', limit: 1 },
@@ -112,6 +115,7 @@ export default function Dashboard() {
       </div>
       <Menu menuOpen={menuOpen} setMenuOpen={setMenuOpen} menuRef={menuRef} />
       <div className={classes.page_container}>
+        <WatchOnlyBanner />
         <ErrorBoundary>
           <Switch>
           <Route
@@ -122,6 +126,10 @@ export default function Dashboard() {
             path='/dashboard/baskets'
             component={BasketsPage}
           />
+          <Route
+            path='/dashboard/activity'
+            component={ActivityPage}
+          />
           {/* Existing Redirects */}
           <Redirect from='/dashboard/counterparty/self' to={`/dashboard/counterparty/${myIdentityKey}`} />
           <Redirect from='/dashboard/counterparty/anyone' to='/dashboard/counterparty/0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798' />
@@ -51,6 +51,8 @@ import PageLoading from '../../components/PageLoading.js'
 import { Utils, Mnemonic, HD, PrivateKey } from '@bsv/sdk'
 import { Link as RouterLink } from 'react-router-dom'
 import WalletConfig from '../../components/WalletConfig.js'
+import RestoreBackupDialog from '../../components/RestoreBackupDialog.js'
+import WatchOnlyDialog from '../../components/WatchOnlyDialog.js'
 import { DEFAULT_CHAIN } from '../../config.js'
 import { deriveKeyMaterialFromMnemonic, persistKeyMaterial } from '../../utils/keyMaterial.js'
 
@@ -477,6 +479,8 @@ const Greeter: React.FC<any> = ({ history }) => {
   const [loading, setLoading] = useState(false)
   const [showPassword, setShowPassword] = useState(false)
   const [showMnemonicDialog, setShowMnemonicDialog] = useState(false)
+  const [showRestoreDialog, setShowRestoreDialog] = useState(false)
+  const [showWatchOnlyDialog, setShowWatchOnlyDialog] = useState(false)
   const [mnemonicLocked, setMnemonicLocked] = useState(false)
 
   // DirectKeyForm state lifted to Greeter level to survive re-renders
@@ -1047,6 +1051,30 @@ const Greeter: React.FC<any> = ({ history }) => {
               >
                 {t('login_button')}
               </Button>
+              {/* Desktop only: bring a wallet over from an encrypted backup file */}
+              {window.electronAPI?.backup && (
+                <Button
+                  variant="text"
+                  size="small"
+                  startIcon={<RestoreIcon />}
+                  onClick={() => setShowRestoreDialog(true)}
+                  sx={{ textTransform: 'none' }}
+                >
+                  Restore from encrypted backup
+                </Button>
+              )}
+              {/* Desktop only: browse a wallet read-only, with no keys */}
+              {window.electronAPI?.watchOnly && (
+                <Button
+                  variant="text"
+                  size="small"
+                  startIcon={<Visibility />}
+                  onClick={() => setShowWatchOnlyDialog(true)}
+                  sx={{ textTransform: 'none' }}
+                >
+                  Open watch-only wallet
+                </Button>
+              )}
             </Box>
           </>
         )}
@@ -1095,6 +1123,8 @@ const Greeter: React.FC<any> = ({ history }) => {
       </Box>
 
       {mnemonicDialog}
+      <RestoreBackupDialog open={showRestoreDialog} onClose={() => setShowRestoreDialog(false)} />
+      <WatchOnlyDialog open={showWatchOnlyDialog} onClose={() => setShowWatchOnlyDialog(false)} />
     </Container>
   )
 }
@@ -0,0 +1,181 @@
+import { useMemo, useState } from 'react'
+import { makeStyles } from '@mui/styles'
+import {
+  Alert,
+  Box,
+  Button,
+  IconButton,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material'
+import {
+  Add as AddIcon,
+  ContentCopy as ContentCopyIcon
+} from '@mui/icons-material'
+import { PrivateKey } from '@bsv/sdk'
+import { toast } from 'react-toastify'
+import * as secrets from '../../services/secrets'
+import { combineShares, parseShare, type RecoveredSecret, type RecoveryShare } from '../../utils/recoveryShares'
+import style from './style.js'
+
+const useStyles = makeStyles(style as any, { name: 'RecoverFromShares' })
+
+type Parsed = { share: RecoveryShare } | { error: string } | null
+
+const parse = (text: string): Parsed => {
+  if (!text.trim()) return null
+  try {
+    return { share: parseShare(text) }
+  } catch (err: any) {
+    return { error: err.message }
+  }
+}
+
+/** Identity key of the wallet key held on this computer, if there is one. */
+const storedIdentityKey = (): string | null => {
+  const keyHex = secrets.getKeyHex()
+  if (!keyHex) return null
+  try {
+    return PrivateKey.fromHex(keyHex).toPublicKey().toString()
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Rebuild a recovery phrase or private key from M-of-N recovery shares
+ * (made under Settings → Security → Recovery shares). Each share is checked
+ * as it is entered; the result is checked against the identity recorded in
+ * the shares and against the wallet on this computer, if any.
+ */
+const RecoverFromShares: React.FC<any> = ({ history }) => {
+  const classes = useStyles()
+  const [inputs, setInputs] = useState<string[]>(['', ''])
+  const [recovered, setRecovered] = useState<RecoveredSecret | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const parsed = useMemo(() => inputs.map(parse), [inputs])
+  const shares = parsed.flatMap(p => (p && 'share' in p ? [p.share] : []))
+  const threshold = shares[0]?.threshold
+
+  const setInput = (i: number, value: string) => {
+    setInputs(prev => {
+      const next = prev.map((v, j) => (j === i ? value : v))
+      // Once a share says how many are needed, offer that many fields.
+      const needed = parse(value)
+      if (needed && 'share' in needed) {
+        while (next.length < needed.share.threshold) next.push('')
+      }
+      return next
+    })
+    setRecovered(null)
+    setError(null)
+  }
+
+  const handleRecover = () => {
+    setError(null)
+    try {
+      setRecovered(combineShares(shares))
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }
+
+  const handleCopy = (value: string) => {
+    void navigator.clipboard.writeText(value)
+    toast.dark('Copied')
+  }
+
+  const stored = recovered ? storedIdentityKey() : null
+  const secretText = recovered?.mnemonic ?? recovered?.keyHex ?? ''
+
+  return (
+    <div className={classes.content_wrap}>
+      <Typography variant='h2' paragraph fontFamily='Helvetica' fontSize='2em'>
+        Recover from shares
+      </Typography>
+      <Typography variant='body1' paragraph>
+        Enter your recovery shares, one per field. Paste a whole printed sheet or just its share line.
+      </Typography>
+
+      <Stack spacing={2} sx={{ my: 2 }}>
+        {inputs.map((value, i) => {
+          const result = parsed[i]
+          return (
+            <TextField
+              key={i}
+              label={`Share ${i + 1}`}
+              value={value}
+              onChange={e => setInput(i, e.target.value)}
+              error={!!result && 'error' in result}
+              helperText={
+                result && 'share' in result
+                  ? `Share ${result.share.index} of ${result.share.total}, ${result.share.threshold} needed`
+                  : result && 'error' in result ? result.error : undefined
+              }
+              inputProps={{ spellCheck: false, style: { fontFamily: 'monospace' } }}
+              multiline
+              maxRows={4}
+              fullWidth
+            />
+          )
+        })}
+        <Box>
+          <Button startIcon={<AddIcon />} onClick={() => setInputs(prev => [...prev, ''])} sx={{ textTransform: 'none' }}>
+            Add another share
+          </Button>
+        </Box>
+      </Stack>
+
+      {error && <Alert severity='error' sx={{ mb: 2 }}>{error}</Alert>}
+
+      {recovered
+        ? (
+          <Stack spacing={2}>
+            <Alert severity='success'>
+              Recovered the {recovered.kind === 'mnemonic' ? 'recovery phrase' : 'private key'} for identity{' '}
+              {recovered.identityKey.slice(0, 12)}….
+            </Alert>
+            {stored && (
+              stored === recovered.identityKey
+                ? <Alert severity='info'>It matches the wallet on this computer.</Alert>
+                : <Alert severity='warning'>It belongs to a different wallet from the one on this computer.</Alert>
+            )}
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, p: 2, borderRadius: 1, bgcolor: 'action.hover' }}>
+              <Typography variant='body1' sx={{ flex: 1, fontFamily: 'monospace', wordBreak: 'break-word' }}>
+                {secretText}
+              </Typography>
+              <Tooltip title='Copy'>
+                <IconButton onClick={() => handleCopy(secretText)}>
+                  <ContentCopyIcon />
+                </IconButton>
+              </Tooltip>
+            </Box>
+            <Typography variant='body2' color='textSecondary'>
+              Write it down or import it from the welcome screen, then clear your clipboard.
+            </Typography>
+          </Stack>
+          )
+        : (
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+            <Button
+              variant='contained'
+              color='primary'
+              onClick={handleRecover}
+              disabled={!threshold || shares.length < threshold}
+            >
+              Recover
+            </Button>
+          </Box>
+          )}
+
+      <Button onClick={() => history.go(-1)} className={classes.back_button}>
+        Go back
+      </Button>
+    </div>
+  )
+}
+
+export default RecoverFromShares
@@ -2,6 +2,7 @@ import { useTranslation } from 'react-i18next'
 import style from './style'
 import { makeStyles } from '@mui/styles'
 import {
+  Groups as GroupsIcon,
   Lock as LockIcon,
   VpnKey as KeyIcon
 } from '@mui/icons-material'
@@ -48,6 +49,17 @@ const Recovery: React.FC<any> = ({ history }) => {
               />
             </ListItemButton>
           </ListItem>
+          <ListItem disablePadding>
+            <ListItemButton onClick={() => history.push('/recovery/shares')}>
+              <ListItemIcon>
+                <GroupsIcon />
+              </ListItemIcon>
+              <ListItemText
+                primary='Recover from shares'
+                secondary='Rebuild your recovery phrase or private key from M-of-N recovery shares'
+              />
+            </ListItemButton>
+          </ListItem>
         </List>
         <Button
           className={classes.back_button}
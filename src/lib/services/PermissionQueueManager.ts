@@ -29,6 +29,8 @@ import {
   normalizeBridgeOrigin,
   trackPermissionForHttpBridge,
 } from './httpBridgeSession'
+import { TokenSpendAllowanceStore, type TokenSpendAllowance, type TokenSpendProtocol } from './tokenSpendAllowances'
+import type { Chain } from '../utils/woc'
 
 // ---- Internal types (mirrors WalletContext private types) ----
 
@@ -88,12 +90,49 @@ export type SpendingRequest = {
   lineItems: any[]
 }
 
+/**
+ * An app asking to move tokens over the HTTP bridge (`/stas/transfer`,
+ * `/dstas/transfer`, `/bsv-21/transfer`, `/peerToken/send`). Unlike the other
+ * request types this is raised by the route handler, not the permissions
+ * manager, so the queue resolves it directly.
+ */
+export type TokenSpendRequest = {
+  requestID: string
+  originator: string
+  protocol: TokenSpendProtocol
+  /** Token id (STAS / DSTAS token id, BSV-21 deploy outpoint); keys allowances. */
+  assetId: string
+  /** Ticker shown in the prompt; a label only, since issuers can reuse it. */
+  symbol: string | null
+  /** Token units as a decimal string (STAS / DSTAS = satoshis, BSV-21 = raw amt). */
+  amount: string
+  /** Base58 address, or identity key for MessageBox sends. */
+  recipient: string
+  outpoint: string
+  /** 'peer' when delivered over MessageBox by `/peerToken/send`. */
+  via: 'address' | 'peer'
+  /** Set by `/tokens/batch-transfer`: `amount` is the batch total and `recipient` a summary. */
+  recipientCount?: number
+}
+
+/**
+ * An approved token spend. The caller reports back once the transfer is
+ * done, so a standing allowance is charged only for tokens that moved.
+ */
+export type TokenSpendApproval = {
+  /** The tokens moved; pass `amount` when less than was approved went out. */
+  commit: (amount?: string) => void
+  /** Nothing moved. */
+  release: () => void
+}
+
 type DeferredBuffers = {
   basket: BasketAccessRequest[]
   certificate: CertificateAccessRequest[]
   protocol: ProtocolAccessRequest[]
   spending: SpendingRequest[]
   counterparty: CounterpartyPermissionRequest[]
+  tokenSpend: TokenSpendRequest[]
 }
 
 export type QueueSnapshot = {
@@ -103,6 +142,9 @@ export type QueueSnapshot = {
   spendingRequests: SpendingRequest[]
   groupPermissionRequests: GroupPermissionRequest[]
   counterpartyPermissionRequests: CounterpartyPermissionRequest[]
+  tokenSpendRequests: TokenSpendRequest[]
+  /** Live token spending authorizations, across every origin. */
+  tokenSpendAllowances: TokenSpendAllowance[]
   groupPhase: GroupPhase
   permissionsConfig: PermissionsConfig
   enabledPermissionModules: string[]
@@ -132,10 +174,12 @@ export class PermissionQueueManager extends EventEmittable<PermissionQueueEvents
   private _spendingRequests: SpendingRequest[] = []
   private _groupRequests: GroupPermissionRequest[] = []
   private _counterpartyRequests: CounterpartyPermissionRequest[] = []
+  private _tokenSpendRequests: TokenSpendRequest[] = []
+  private _tokenSpendResolvers = new Map<string, (approval: TokenSpendApproval | null) => void>()
 
   // ---- Group phase state machine (previously useState + refs) ----
   private _groupPhase: GroupPhase = 'idle'
-  private _deferred: DeferredBuffers = { basket: [], certificate: [], protocol: [], spending: [], counterparty: [] }
+  private _deferred: DeferredBuffers = { basket: [], certificate: [], protocol: [], spending: [], counterparty: [], tokenSpend: [] }
   private _groupDecision: GroupDecision | null = null
   private _groupTimer: number | null = null
 
@@ -162,6 +206,12 @@ export class PermissionQueueManager extends EventEmittable<PermissionQueueEvents
   adminOriginator: string = ADMIN_ORIGINATOR
   enabledPermissionModules: string[] = []
 
+  /** Standing "up to N units" token approvals, checked before prompting. */
+  readonly tokenAllowances = new TokenSpendAllowanceStore(
+    typeof localStorage !== 'undefined' ? localStorage : null
+  )
+  private _tokenSpendAllowances: TokenSpendAllowance[] = this.tokenAllowances.list()
+
   // ---- Permission module support ----
   private _getPermissionModuleById: ((id: string) => any) | null = null
   private _promptHandlers: Map<string, PermissionPromptHandler> = new Map()
@@ -174,6 +224,16 @@ export class PermissionQueueManager extends EventEmittable<PermissionQueueEvents
     this._permissionsManager = pm
   }
 
+  /**
+   * Point token spending allowances at the wallet now loaded (`identityKey`
+   * on `chain`), or at none with null. Each wallet sees only its own.
+   */
+  setTokenAllowanceProfile(identityKey: string | null, chain: Chain) {
+    this.tokenAllowances.useProfile(identityKey, chain)
+    this._tokenSpendAllowances = this.tokenAllowances.list()
+    this._emitSnapshot()
+  }
+
   /**
    * Replace the current permissions config. Updates three things:
    *   1. The queue's `permissionsConfig` (snapshot/UI source).
@@ -216,8 +276,8 @@ export class PermissionQueueManager extends EventEmittable<PermissionQueueEvents
    * HTTP client abandoned an in-flight wallet call. Deny any permission prompts
    * associated with that bridge request so the modal does not outlive the caller.
    */
-  async cancelHttpBridgeRequest(requestId: number): Promise<void> {
-    const session = markHttpBridgeSessionCancelled(requestId)
+  async cancelHttpBridgeRequest(requestId: number, reason?: string): Promise<void> {
+    const session = markHttpBridgeSessionCancelled(requestId, reason)
     if (!session) return
 
     const ids = new Set(session.permissionIds)
@@ -251,6 +311,8 @@ export class PermissionQueueManager extends EventEmittable<PermissionQueueEvents
       spendingRequests: this._spendingRequests,
       groupPermissionRequests: this._groupRequests,
       counterpartyPermissionRequests: this._counterpartyRequests,
+      tokenSpendRequests: this._tokenSpendRequests,
+      tokenSpendAllowances: this._tokenSpendAllowances,
       groupPhase: this._groupPhase,
       permissionsConfig: this.permissionsConfig,
       enabledPermissionModules: this.enabledPermissionModules,
@@ -320,6 +382,7 @@ export class PermissionQueueManager extends EventEmittable<PermissionQueueEvents
       protocol: [...this._deferred.protocol, ...this._protocolRequests],
       spending: [...this._deferred.spending, ...this._spendingRequests],
       counterparty: [...this._deferred.counterparty, ...this._counterpartyRequests],
+      tokenSpend: [...this._deferred.tokenSpend, ...this._tokenSpendRequests],
     }
 
     // Clear live queues (modals will be closed by React via snapshot)
@@ -328,6 +391,7 @@ export class PermissionQueueManager extends EventEmittable<PermissionQueueEvents
     this._protocolRequests = []
     this._spendingRequests = []
     this._counterpartyRequests = []
+    this._tokenSpendRequests = []
 
     // Start grace timer
     if (this._groupTimer !== null) window.clearTimeout(this._groupTimer)
@@ -422,7 +486,7 @@ export class PermissionQueueManager extends EventEmittable<PermissionQueueEvents
     }
     this._groupDecision = decision
 
-    const requeue: DeferredBuffers = { basket: [], certificate: [], protocol: [], spending: [], counterparty: [] }
+    const requeue: DeferredBuffers = { basket: [], certificate: [], protocol: [], spending: [], counterparty: [], tokenSpend: [] }
 
     const maybeHandle = (list: any[], key: keyof DeferredBuffers) => {
       for (const r of list) {
@@ -437,8 +501,10 @@ export class PermissionQueueManager extends EventEmittable<PermissionQueueEvents
     maybeHandle(this._deferred.protocol, 'protocol')
     maybeHandle(this._deferred.spending, 'spending')
     maybeHandle(this._deferred.counterparty, 'counterparty')
+    // A group grant never covers token spends; they always come back.
+    requeue.tokenSpend = this._deferred.tokenSpend
 
-    this._deferred = { basket: [], certificate: [], protocol: [], spending: [], counterparty: [] }
+    this._deferred = { basket: [], certificate: [], protocol: [], spending: [], counterparty: [], tokenSpend: [] }
     this._groupPhase = 'idle'
 
     // Re-queue uncovered items
@@ -450,6 +516,7 @@ export class PermissionQueueManager extends EventEmittable<PermissionQueueEvents
       this._counterpartyRequests = requeue.counterparty
       this._hadCounterpartyRequest = true
     }
+    if (requeue.tokenSpend.length) this._tokenSpendRequests = requeue.tokenSpend
 
     this._emitSnapshot()
   }
@@ -506,6 +573,99 @@ export class PermissionQueueManager extends EventEmittable<PermissionQueueEvents
     this._emitSnapshot()
   }
 
+  // ------------------------------------------------------------------
+  // Token spends (raised by the HTTP token routes)
+  // ------------------------------------------------------------------
+
+  /**
+   * Resolve with an approval when the app may move the tokens: silently if a
+   * standing allowance covers the amount (which is reserved against it),
+   * otherwise once the user approves the prompt. Resolves null on deny, or
+   * when the HTTP caller has already gone away.
+   */
+  requestTokenSpend(args: Omit<TokenSpendRequest, 'requestID'>): Promise<TokenSpendApproval | null> {
+    const reservation = this.tokenAllowances.reserve(args.originator, args.protocol, args.assetId, args.amount)
+    if (reservation) return Promise.resolve(this._tokenSpendApproval(reservation))
+
+    const requestID = `token-spend:${Math.random().toString(36).slice(2)}${Date.now().toString(36)}`
+    return new Promise<TokenSpendApproval | null>(resolve => {
+      this._tokenSpendResolvers.set(requestID, resolve)
+      if (!this._acceptPermissionForHttpBridge(requestID, args.originator, 'token-spend')) {
+        return
+      }
+
+      const newItem: TokenSpendRequest = { ...args, requestID }
+      if (this._groupPhase === 'pending') {
+        this._deferred.tokenSpend.push(newItem)
+        return
+      }
+
+      const wasEmpty = this._tokenSpendRequests.length === 0
+      this._tokenSpendRequests = [...this._tokenSpendRequests, newItem]
+      if (wasEmpty) this.emit('focusNeeded')
+      this._emitSnapshot()
+    })
+  }
+
+  /**
+   * Approve a pending token spend. With `allowance`, also let the origin move
+   * up to `ceiling` units of this asset (this transfer included) for `days`
+   * without asking again.
+   */
+  grantTokenSpend(requestID: string, allowance?: { ceiling: string; days: number }) {
+    const request = this._tokenSpendRequests.find(r => r.requestID === requestID)
+    let reservation: string | null = null
+    if (request && allowance) {
+      this.tokenAllowances.grant({ ...request, ...allowance })
+      reservation = this.tokenAllowances.reserve(request.originator, request.protocol, request.assetId, request.amount)
+      this._tokenSpendAllowances = this.tokenAllowances.list()
+    }
+    this._settleTokenSpend(requestID, this._tokenSpendApproval(reservation))
+  }
+
+  denyTokenSpend(requestID: string) {
+    this._settleTokenSpend(requestID, null)
+  }
+
+  /** Withdraw a token spending authorization; the next transfer prompts again. */
+  revokeTokenAllowance(originator: string, protocol: TokenSpendProtocol, assetId: string) {
+    this.tokenAllowances.revoke(originator, protocol, assetId)
+    this._tokenSpendAllowances = this.tokenAllowances.list()
+    this._emitSnapshot()
+  }
+
+  /** Reset what has been spent and extend the authorization by `days`. */
+  renewTokenAllowance(originator: string, protocol: TokenSpendProtocol, assetId: string, days: number) {
+    this.tokenAllowances.renew(originator, protocol, assetId, days)
+    this._tokenSpendAllowances = this.tokenAllowances.list()
+    this._emitSnapshot()
+  }
+
+  /** Settles `reservation` (if any) against its allowance when the transfer reports back. */
+  private _tokenSpendApproval(reservation: string | null): TokenSpendApproval {
+    if (!reservation) return { commit: () => {}, release: () => {} }
+    return {
+      commit: (amount?: string) => {
+        this.tokenAllowances.commit(reservation, amount)
+        this._tokenSpendAllowances = this.tokenAllowances.list()
+        this._emitSnapshot()
+      },
+      release: () => this.tokenAllowances.release(reservation),
+    }
+  }
+
+  private _settleTokenSpend(requestID: string, approval: TokenSpendApproval | null) {
+    const resolve = this._tokenSpendResolvers.get(requestID)
+    this._tokenSpendResolvers.delete(requestID)
+    resolve?.(approval)
+
+    this._tokenSpendRequests = this._tokenSpendRequests.filter(r => r.requestID !== requestID)
+    if (this._tokenSpendRequests.length === 0) {
+      this.emit('focusReleasable', this._wasOriginallyFocused)
+    }
+    this._emitSnapshot()
+  }
+
   // ------------------------------------------------------------------
   // Auto-dismiss during cooldown (replaces Effect 15 in WalletContext)
   // ------------------------------------------------------------------
@@ -537,8 +697,8 @@ export class PermissionQueueManager extends EventEmittable<PermissionQueueEvents
    * Returns false when the HTTP client is already gone — permission is denied
    * immediately and must not be queued for UI.
    */
-  private _acceptPermissionForHttpBridge(requestID: string, originator?: string): boolean {
-    const decision = trackPermissionForHttpBridge(requestID, originator)
+  private _acceptPermissionForHttpBridge(requestID: string, originator: string | undefined, kind: string): boolean {
+    const decision = trackPermissionForHttpBridge(requestID, originator, kind)
     if (decision === 'auto-deny') {
       void this._denyPermissionRequest(requestID)
       return false
@@ -547,6 +707,13 @@ export class PermissionQueueManager extends EventEmittable<PermissionQueueEvents
   }
 
   private async _denyPermissionRequest(requestID: string): Promise<void> {
+    const resolveTokenSpend = this._tokenSpendResolvers.get(requestID)
+    if (resolveTokenSpend) {
+      this._tokenSpendResolvers.delete(requestID)
+      resolveTokenSpend(null)
+      return
+    }
+
     const pm = this._permissionsManager as any
     if (!pm) return
 
@@ -577,11 +744,13 @@ export class PermissionQueueManager extends EventEmittable<PermissionQueueEvents
     for (const r of this._spendingRequests) if (match(r.originator)) ids.push(r.requestID)
     for (const r of this._groupRequests) if (match(r.originator)) ids.push(r.requestID)
     for (const r of this._counterpartyRequests) if (match(r.originator)) ids.push(r.requestID)
+    for (const r of this._tokenSpendRequests) if (match(r.originator)) ids.push(r.requestID)
     for (const r of this._deferred.basket) if (match(r.originator)) ids.push(r.requestID)
     for (const r of this._deferred.certificate) if (match(r.originator)) ids.push(r.requestID)
     for (const r of this._deferred.protocol) if (match(r.originator)) ids.push(r.requestID)
     for (const r of this._deferred.spending) if (match(r.originator)) ids.push(r.requestID)
     for (const r of this._deferred.counterparty) if (match(r.originator)) ids.push(r.requestID)
+    for (const r of this._deferred.tokenSpend) if (match(r.originator)) ids.push(r.requestID)
     return ids
   }
 
@@ -595,12 +764,14 @@ export class PermissionQueueManager extends EventEmittable<PermissionQueueEvents
     this._spendingRequests = keep(this._spendingRequests)
     this._groupRequests = keep(this._groupRequests)
     this._counterpartyRequests = keep(this._counterpartyRequests)
+    this._tokenSpendRequests = keep(this._tokenSpendRequests)
     this._deferred = {
       basket: keep(this._deferred.basket),
       certificate: keep(this._deferred.certificate),
       protocol: keep(this._deferred.protocol),
       spending: keep(this._deferred.spending),
       counterparty: keep(this._deferred.counterparty),
+      tokenSpend: keep(this._deferred.tokenSpend),
     }
 
     for (const id of ids) {
@@ -620,7 +791,8 @@ export class PermissionQueueManager extends EventEmittable<PermissionQueueEvents
       this._protocolRequests.length === 0 &&
       this._spendingRequests.length === 0 &&
       this._groupRequests.length === 0 &&
-      this._counterpartyRequests.length === 0
+      this._counterpartyRequests.length === 0 &&
+      this._tokenSpendRequests.length === 0
     )
   }
 
@@ -637,7 +809,7 @@ export class PermissionQueueManager extends EventEmittable<PermissionQueueEvents
     renewal?: boolean
   }) => {
     if (!incomingRequest?.requestID) return
-    if (!this._acceptPermissionForHttpBridge(incomingRequest.requestID, incomingRequest.originator)) {
+    if (!this._acceptPermissionForHttpBridge(incomingRequest.requestID, incomingRequest.originator, 'basket')) {
       return
     }
 
@@ -677,7 +849,7 @@ export class PermissionQueueManager extends EventEmittable<PermissionQueueEvents
     renewal?: boolean
   }) => {
     if (!incomingRequest?.requestID) return
-    if (!this._acceptPermissionForHttpBridge(incomingRequest.requestID, incomingRequest.originator)) {
+    if (!this._acceptPermissionForHttpBridge(incomingRequest.requestID, incomingRequest.originator, 'certificate')) {
       return
     }
 
@@ -719,7 +891,7 @@ export class PermissionQueueManager extends EventEmittable<PermissionQueueEvents
     const { requestID, counterparty, originator, reason, renewal, protocolID } = args
 
     if (!requestID || !protocolID) return Promise.resolve()
-    if (!this._acceptPermissionForHttpBridge(requestID, originator)) {
+    if (!this._acceptPermissionForHttpBridge(requestID, originator, 'protocol')) {
       return Promise.resolve()
     }
 
@@ -764,7 +936,7 @@ export class PermissionQueueManager extends EventEmittable<PermissionQueueEvents
     const { requestID, originator, reason, renewal, spending } = args
 
     if (!requestID || !spending) return
-    if (!this._acceptPermissionForHttpBridge(requestID, originator)) {
+    if (!this._acceptPermissionForHttpBridge(requestID, originator, 'spending')) {
       return
     }
 
@@ -807,7 +979,7 @@ export class PermissionQueueManager extends EventEmittable<PermissionQueueEvents
     const { requestID, originator, permissions } = args
 
     if (!requestID || !permissions) return
-    if (!this._acceptPermissionForHttpBridge(requestID, originator)) {
+    if (!this._acceptPermissionForHttpBridge(requestID, originator, 'group')) {
       return
     }
 
@@ -887,7 +1059,7 @@ export class PermissionQueueManager extends EventEmittable<PermissionQueueEvents
   /** Counterparty permission callback — bound by createPermissionsManager. */
   readonly counterpartyPermissionCallback = async (args: CounterpartyPermissionRequest): Promise<void> => {
     if (!args?.requestID || !args?.permissions) return
-    if (!this._acceptPermissionForHttpBridge(args.requestID, args.originator)) {
+    if (!this._acceptPermissionForHttpBridge(args.requestID, args.originator, 'counterparty')) {
       return
     }
 
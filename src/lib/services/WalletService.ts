@@ -11,6 +11,7 @@
  *   'unconfigured' → configure() → 'configured'
  *   'configured' → initialize() → 'initializing' → 'authenticated' → 'ready'
  *   any → logout() → 'unconfigured'
+ *   'unconfigured' | 'configured' → openWatchOnly() → 'ready' → closeWatchOnly() → back
  *   any → error → 'error'
  *
  * React integration: subscribe to 'stateChanged' events to drive re-renders.
@@ -56,15 +57,24 @@ import {
   BSV21Registration,
   BSV21TransferService,
   BSV21DiscoveryService,
+  OrdinalsProtocolAdapter,
+  OrdinalRegistration,
+  OrdinalTransferService,
+  OrdinalDiscoveryService,
 } from './tokens'
 import { WocTokenIndexerClient } from './tokens/woc/WocTokenIndexerClient'
-import { BackToGenesisClient } from './tokens/woc/BackToGenesisClient'
+import type { BackToGenesisVerifier } from './tokens/woc/BackToGenesisClient'
+import { createWalletB2GVerifier } from './tokens/spv/LocalBackToGenesisVerifier'
 import { DstasTransferService } from './tokens/dstas/DstasTransferService'
+import { StasMergeService } from './tokens/merge/StasMergeService'
+import { TokenIssuanceService } from './tokens/issuance/TokenIssuanceService'
+import { TokenBatchTransferService } from './tokens/batch/TokenBatchTransferService'
 import { PeerTokenClient } from '@bsv/message-box-client'
 import { StasTokenSettlementAdapter } from './tokens/peer/StasTokenSettlementAdapter'
 import { Bsv21TokenSettlementAdapter } from './tokens/peer/Bsv21TokenSettlementAdapter'
 import { DstasTokenSettlementAdapter } from './tokens/peer/DstasTokenSettlementAdapter'
 import { StorageElectronIPC } from '../StorageElectronIPC'
+import { WatchOnlyKeyDeriver, guardWatchOnlyWallet, type WatchOnlyTarget } from './watchOnly'
 import * as secrets from './secrets'
 import { DEFAULT_CHAIN, ADMIN_ORIGINATOR, DEFAULT_USE_WAB, DEFAULT_SETTINGS, MESSAGEBOX_HOST } from '../config'
 import type { LoginType, WABConfig } from '../WalletContext'
@@ -98,17 +108,33 @@ export type StasServices = {
   /** 1Sat overlay REST client — exposed for diagnostics + the receive UI. */
   bsv21Indexer: OneSatIndexerClient
   /**
-   * Back-to-Genesis provenance client. Verifies that a held/received token
+   * 1Sat Ordinals discovery (owner queries against the 1Sat overlay, at the
+   * BSV-21 receive addresses) and the gallery's inscription reader.
+   */
+  ordinalsDiscovery: OrdinalDiscoveryService
+  /**
+   * Back-to-Genesis provenance verifier. Verifies that a held/received token
    * output provably descends from its genesis mint (counterfeit detection).
-   * Reads WOC's bStore-walking endpoints, independent of the token index.
+   * Walks the ancestry locally (wallet DB, then Services) with WOC's B2G
+   * endpoint as a cross-check — see LocalBackToGenesisVerifier.
    */
-  backToGenesis: BackToGenesisClient
+  backToGenesis: BackToGenesisVerifier
   /**
    * Peer-to-peer token client over MessageBox (the token analog of PeerPay).
    * Sends/accepts STAS, DSTAS, and BSV-21 tokens directly to a recipient's
    * identity key via the configured MessageBox host.
    */
   peerTokens: PeerTokenClient
+  /**
+   * Mints new tokens from this wallet — STAS / DSTAS CreateContract + Issue
+   * and BSV-21 deploy+mint — registering each into its basket.
+   */
+  issuance: TokenIssuanceService
+  /**
+   * Pays one token out to many recipients (CSV airdrops / payroll) in as few
+   * transactions as each protocol allows, with a fee-and-totals preview.
+   */
+  batch: TokenBatchTransferService
 }
 
 export type WalletServiceSnapshot = {
@@ -150,6 +176,8 @@ export type WalletServiceSnapshot = {
   activeProfile: WalletProfile | null
   snapshotLoaded: boolean
   initializingBackendServices: boolean
+  /** Set while a watch-only wallet (no keys, read-only storage) is open. */
+  watchOnly: WatchOnlyTarget | null
 }
 
 type WalletServiceEvents = {
@@ -186,6 +214,9 @@ export class WalletService extends EventEmittable<WalletServiceEvents> {
   private _activeProfile: WalletProfile | null = null
   private _snapshotLoaded = false
   private _initializingBackendServices = false
+  private _watchOnly: WatchOnlyTarget | null = null
+  // Lifecycle and network to return to when the watch-only wallet closes
+  private _beforeWatchOnly: { lifecycle: WalletLifecycle; network: 'main' | 'test' | 'ttn' } | null = null
 
   // ---- Callbacks provided by React UI ----
   private _passwordRetriever?: (reason: string, test: (pw: string) => boolean) => Promise<string>
@@ -224,6 +255,7 @@ export class WalletService extends EventEmittable<WalletServiceEvents> {
   get snapshotLoaded() { return this._snapshotLoaded }
   get initializingBackendServices() { return this._initializingBackendServices }
   get lifecycle() { return this._lifecycle }
+  get watchOnly() { return this._watchOnly }
 
   getSnapshot(): WalletServiceSnapshot {
     return {
@@ -246,6 +278,7 @@ export class WalletService extends EventEmittable<WalletServiceEvents> {
       activeProfile: this._activeProfile,
       snapshotLoaded: this._snapshotLoaded,
       initializingBackendServices: this._initializingBackendServices,
+      watchOnly: this._watchOnly,
     }
   }
 
@@ -509,7 +542,12 @@ export class WalletService extends EventEmittable<WalletServiceEvents> {
     }
   }
 
-  /** Internal: called by manager when user authenticates and provides primary key. */
+  /**
+   * Internal: called by manager when user authenticates and provides primary key.
+   * For a watch-only wallet (`this._watchOnly` set, see openWatchOnly) there is
+   * no primary key: the deriver and wallet refuse to sign, storage is the local
+   * read-only copy alone, and nothing that syncs, broadcasts or listens starts.
+   */
   private async _buildWallet(
     primaryKey: number[],
     privilegedKeyManager: any
@@ -518,38 +556,45 @@ export class WalletService extends EventEmittable<WalletServiceEvents> {
     this._initializingBackendServices = true
     this._emitState()
 
+    const watchOnly = this._watchOnly
     try {
       const chain = this._selectedNetwork
-      const keyDeriver = new CachedKeyDeriver(new PrivateKey(primaryKey))
+      const keyDeriver = watchOnly
+        ? new WatchOnlyKeyDeriver(watchOnly.identityKey)
+        : new CachedKeyDeriver(new PrivateKey(primaryKey))
       const services = new Services(chain)
+      const useRemoteStorage = this._useRemoteStorage && !watchOnly
 
       let activeStorage: any
 
-      if (this._useRemoteStorage) {
+      if (useRemoteStorage) {
         activeStorage = null // Created after wallet
       } else {
         const electronStorage = new StorageElectronIPC(keyDeriver.identityKey, chain)
         electronStorage.setServices(services as any)
-        await electronStorage.initializeBackendServices()
+        if (!watchOnly) {
+          await electronStorage.initializeBackendServices()
+        }
         await electronStorage.makeAvailable()
         activeStorage = electronStorage
       }
 
       const storageManager = new WalletStorageManager(keyDeriver.identityKey, activeStorage, [])
       const signer = new WalletSigner(chain, keyDeriver as any, storageManager)
-      const wallet = new Wallet(signer, services, undefined, privilegedKeyManager)
+      const baseWallet = new Wallet(signer, services, undefined, privilegedKeyManager)
+      const wallet = watchOnly ? guardWatchOnlyWallet(baseWallet, watchOnly.identityKey) : baseWallet
       // Set default settings including "Who I Am" certifier before first get().
       // config is private in the type declarations but settable at runtime.
       ;(wallet.settingsManager as any).config = { defaultSettings: DEFAULT_SETTINGS }
 
-      if (this._useRemoteStorage) {
+      if (useRemoteStorage) {
         const client = new StorageClient(wallet, this._selectedStorageUrl)
         await client.makeAvailable()
         await storageManager.addWalletStorageProvider(client)
       }
 
       // Add backup providers
-      for (const backupUrl of this._backupStorageUrls) {
+      for (const backupUrl of watchOnly ? [] : this._backupStorageUrls) {
         try {
           if (backupUrl === 'LOCAL_STORAGE') {
             const electronStorage = new StorageElectronIPC(keyDeriver.identityKey, chain)
@@ -567,14 +612,15 @@ export class WalletService extends EventEmittable<WalletServiceEvents> {
         }
       }
 
-      // Set primary store as active
+      // Set primary store as active (a write; the watch-only copy already is)
       const stores = storageManager.getStores()
-      if (stores && stores.length > 0) {
+      if (!watchOnly && stores && stores.length > 0) {
         await storageManager.setActive(stores[0].storageIdentityKey)
       }
 
       const permissionsManager = this.permissionQueue.createPermissionsManager(wallet)
       this.permissionQueue.setPermissionsManager(permissionsManager)
+      this.permissionQueue.setTokenAllowanceProfile(keyDeriver.identityKey, chain)
 
       this._managers = {
         ...this._managers,
@@ -596,6 +642,11 @@ export class WalletService extends EventEmittable<WalletServiceEvents> {
       // script byte-for-byte to match the template's witness format.
       const dstasTransfer = new DstasTransferService(wallet, keyDeriver.identityKey, chain)
 
+      // Token consolidation — pairwise STAS / DSTAS merge transactions, so a
+      // send can cover an amount spread over several UTXOs.
+      const stasMerge = new StasMergeService(wallet, keyDeriver.identityKey, chain, 'stas')
+      const dstasMerge = new StasMergeService(wallet, keyDeriver.identityKey, chain, 'dstas')
+
       // BSV-21 services — separate BRC-42 namespace, 1Sat REST indexer,
       // standard P2PKH unlock path.
       const bsv21KeyDeriver = new BSV21KeyDeriver(wallet, keyDeriver.identityKey, chain)
@@ -609,20 +660,26 @@ export class WalletService extends EventEmittable<WalletServiceEvents> {
         indexer: bsv21Indexer,
       })
 
+      // 1Sat Ordinals — single-satoshi inscriptions, owned by the BSV-21
+      // receive keys and found through the same 1Sat overlay client.
+      const ordinalsTransfer = new OrdinalTransferService({ wallet, identityKey: keyDeriver.identityKey, chain })
+
       // Token-protocol adapter registry. Order matters: STAS's prefix sniff
       // is cheap and unambiguous, DSTAS's SDK reader next, BSV-21's ord
-      // envelope last (also cheap but distinct prefix).
+      // envelope after (also cheap but distinct prefix), and Ordinals last —
+      // every BSV-21 output is an ord envelope too, so BSV-21 must claim first.
       const tokens = new TokenProtocolRegistry()
-      tokens.register(new StasProtocolAdapter(stasTransfer))
-      tokens.register(new DstasProtocolAdapter(dstasTransfer))
+      tokens.register(new StasProtocolAdapter(stasTransfer, stasMerge))
+      tokens.register(new DstasProtocolAdapter(dstasTransfer, dstasMerge))
       tokens.register(new BSV21ProtocolAdapter(bsv21Transfer))
+      tokens.register(new OrdinalsProtocolAdapter(ordinalsTransfer))
 
       // Token discovery — WhatsOnChain is the single source for all three
       // standards: STAS (by base58 address) and DSTAS (by owner hash160) ride
       // StasDiscoveryService, BSV-21 rides BSV21DiscoveryService, all fed by
       // the same WocTokenIndexerClient.
       const wocIndexer = new WocTokenIndexerClient({ chain })
-      const backToGenesis = new BackToGenesisClient({ chain })
+      const backToGenesis = createWalletB2GVerifier({ wallet, identityKey: keyDeriver.identityKey, chain })
 
       const stasDiscovery = new StasDiscoveryService({
         deriver: stasKeyDeriver,
@@ -637,6 +694,12 @@ export class WalletService extends EventEmittable<WalletServiceEvents> {
         registration: bsv21Registration,
         wallet,
       })
+      const ordinalsDiscovery = new OrdinalDiscoveryService({
+        deriver: bsv21KeyDeriver,
+        indexer: bsv21Indexer,
+        registration: new OrdinalRegistration(wallet, keyDeriver.identityKey, chain),
+        wallet,
+      })
 
       // Peer-token client (token analog of PeerPay). Uses the same raw
       // `wallet` the token services use, so signing/derivation namespaces
@@ -668,8 +731,27 @@ export class WalletService extends EventEmittable<WalletServiceEvents> {
         bsv21KeyDeriver,
         bsv21Discovery,
         bsv21Indexer,
+        ordinalsDiscovery,
         backToGenesis,
         peerTokens,
+        issuance: new TokenIssuanceService({
+          wallet,
+          identityKey: keyDeriver.identityKey,
+          chain,
+          stasDeriver: stasKeyDeriver,
+          bsv21Deriver: bsv21KeyDeriver,
+          registration: stasRegistration,
+          bsv21Indexer,
+        }),
+        batch: new TokenBatchTransferService({
+          wallet,
+          identityKey: keyDeriver.identityKey,
+          chain,
+          originator: this._adminOriginator,
+          tokens,
+          changeDeriver: stasKeyDeriver,
+          peerTokens,
+        }),
       }
 
       // Load settings
@@ -682,7 +764,7 @@ export class WalletService extends EventEmittable<WalletServiceEvents> {
       await this._updateActiveProfile()
 
       // Create PeerPay client if configured
-      if (this._messageBoxUrl && this._useMessageBox) {
+      if (!watchOnly && this._messageBoxUrl && this._useMessageBox) {
         await this.peerPay.createClient(permissionsManager, this._messageBoxUrl, this._adminOriginator)
       }
 
@@ -698,6 +780,9 @@ export class WalletService extends EventEmittable<WalletServiceEvents> {
       return permissionsManager
     } catch (error: any) {
       console.error('[WalletService] _buildWallet failed:', error)
+      if (!watchOnly && String(error?.message).includes('WALLET_DB_UNREADABLE') && await this._offerFreshDatabase(primaryKey)) {
+        return this._buildWallet(primaryKey, privilegedKeyManager)
+      }
       toast.error('Failed to build wallet: ' + error.message)
       this._initializingBackendServices = false
       this._lifecycle = this._managers.walletManager ? 'authenticated' : 'error'
@@ -706,6 +791,29 @@ export class WalletService extends EventEmittable<WalletServiceEvents> {
     }
   }
 
+  /**
+   * The local database did not open with the unlocked vault profile's key
+   * (it belongs to another profile, or to a vault that was reset). Nothing is
+   * moved unless the user asks; resolves true once an empty database can be
+   * opened in its place.
+   */
+  private async _offerFreshDatabase(primaryKey: number[]): Promise<boolean> {
+    const confirmed = window.confirm(
+      'This wallet\'s database does not open with the unlocked vault profile. It may belong to another profile: ' +
+      'cancel, lock, and unlock that profile to use it.\n\n' +
+      'Start a fresh, empty database instead? The existing file is kept beside it, not deleted.'
+    )
+    if (!confirmed) return false
+    const identityKey = new PrivateKey(primaryKey).toPublicKey().toString()
+    const result = await window.electronAPI.storage.startFresh(identityKey, this._selectedNetwork)
+    if (!result.success) {
+      toast.error('Could not set the database aside: ' + result.error)
+      return false
+    }
+    toast.info(`Started a fresh database. The previous one was kept at ${result.movedTo}`)
+    return true
+  }
+
   private async _updateActiveProfile() {
     const { walletManager } = this._managers
     const wallet = this._wallet
@@ -717,6 +825,17 @@ export class WalletService extends EventEmittable<WalletServiceEvents> {
       return
     }
 
+    if (this._watchOnly) {
+      this._activeProfile = {
+        id: Utils.toArray(this._watchOnly.identityKey, 'hex'),
+        name: 'Watch-only',
+        createdAt: null,
+        active: true,
+        identityKey: this._watchOnly.identityKey,
+      }
+      return
+    }
+
     if (this._loginType === 'direct-key') {
       const storedHex = secrets.getKeyHex()
       if (storedHex) {
@@ -751,6 +870,9 @@ export class WalletService extends EventEmittable<WalletServiceEvents> {
   // ------------------------------------------------------------------
 
   saveEnhancedSnapshot(configOverrides?: { backupStorageUrls?: string[]; messageBoxUrl?: string; useMessageBox?: boolean }): string {
+    if (this._watchOnly) {
+      throw new Error('A watch-only wallet has no configuration to save')
+    }
     if (!this._managers.walletManager) {
       throw new Error('Wallet manager not available for snapshot')
     }
@@ -1068,11 +1190,67 @@ export class WalletService extends EventEmittable<WalletServiceEvents> {
     this._emitState()
   }
 
+  // ------------------------------------------------------------------
+  // Watch-only
+  // ------------------------------------------------------------------
+
+  /**
+   * Open a wallet database file read-only (desktop only, see
+   * electron/watchOnly.ts) and build a wallet over it with no keys.
+   * `identityKey` picks the wallet in a file holding several. Only from the
+   * Greeter: a loaded wallet must be logged out first.
+   */
+  async openWatchOnly(filePath: string, identityKey?: string): Promise<WatchOnlyTarget> {
+    const api = window.electronAPI?.watchOnly
+    if (!api) throw new Error('Watch-only wallets need the desktop app')
+    if (this._wallet || this._initInFlight) throw new Error('Log out before opening a watch-only wallet')
+
+    const opened = await api.open(filePath, identityKey)
+    if (opened.ok === false) throw new Error(opened.error)
+
+    this._beforeWatchOnly = { lifecycle: this._lifecycle, network: this._selectedNetwork }
+    this._watchOnly = { identityKey: opened.identityKey, chain: opened.chain }
+    this._selectedNetwork = opened.chain
+    const built = await this._buildWallet([], this._createDisabledPrivilegedManager())
+    if (!built) {
+      await this.closeWatchOnly()
+      throw new Error('The watch-only wallet could not be opened')
+    }
+    return this._watchOnly
+  }
+
+  /** Close the watch-only wallet and return to where openWatchOnly was called. */
+  async closeWatchOnly(): Promise<void> {
+    if (!this._watchOnly) return
+    const before = this._beforeWatchOnly
+    this._watchOnly = null
+    this._beforeWatchOnly = null
+    this._managers = {}
+    this._wallet = undefined
+    this._stas = undefined
+    this._settings = DEFAULT_SETTINGS
+    this._activeProfile = null
+    this._lifecycle = before?.lifecycle ?? 'unconfigured'
+    if (before) this._selectedNetwork = before.network
+    this.permissionQueue.setTokenAllowanceProfile(null, this._selectedNetwork)
+    this._emitState()
+
+    const closed = await window.electronAPI?.watchOnly?.close()
+    if (closed?.ok === false) console.warn('[WalletService] closing watch-only storage failed:', closed.error)
+  }
+
   // ------------------------------------------------------------------
   // Logout
   // ------------------------------------------------------------------
 
   logout() {
+    // Leaving a watch-only wallet must not touch the configured wallet's
+    // snapshot, vault session or saved settings.
+    if (this._watchOnly) {
+      void this.closeWatchOnly()
+      return
+    }
+
     const preservedKeys: Record<string, string> = {}
     for (let i = 0; i < localStorage.length; i++) {
       const key = localStorage.key(i)
@@ -1099,6 +1277,7 @@ export class WalletService extends EventEmittable<WalletServiceEvents> {
     this._lifecycle = 'configured'
     this._snapshotLoaded = false
     this._activeProfile = null
+    this.permissionQueue.setTokenAllowanceProfile(null, this._selectedNetwork)
     this.peerPay.reset()
     this._emitState()
   }
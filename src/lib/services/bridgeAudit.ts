@@ -0,0 +1,140 @@
+/**
+ * Audit trail for the BRC-100 bridge.
+ *
+ * Every request that reaches the route switch in `onWalletReady` is written
+ * to `bridge_audit_log` in the wallet database (stas-migrations 0005) through
+ * the `stas:query` channel. The Activity page reads it back through the same
+ * channel. Request bodies are reduced to a SHA-256 before they leave this
+ * module.
+ */
+import { Hash, Utils } from '@bsv/sdk'
+import { stasQuery } from './stas/stasIpc'
+
+export type BridgeAuditOutcome = 'approved' | 'denied' | 'cancelled' | 'disconnected' | 'error'
+
+export type BridgeAuditTarget = {
+  identityKey: string
+  chain: 'main' | 'test' | 'ttn'
+}
+
+export type BridgeAuditEntry = {
+  id?: number
+  createdAt: string
+  origin: string
+  method: string
+  path: string
+  status: number
+  latencyMs: number
+  argsHash: string | null
+  prompts: string[]
+  outcome: BridgeAuditOutcome
+}
+
+export type BridgeAuditFilter = {
+  origin?: string
+  path?: string
+  outcome?: BridgeAuditOutcome
+  since?: string
+  until?: string
+  limit?: number
+  offset?: number
+}
+
+/** Hex SHA-256 of the raw request body; null for an empty body. */
+export function hashBridgeArgs(body: string): string | null {
+  if (!body) return null
+  return Utils.toHex(Hash.sha256(Utils.toArray(body, 'utf8')))
+}
+
+/**
+ * Decide what happened to a request from the bridge's point of view.
+ * A cancelled session wins over whatever status the handler produced, since
+ * the caller never saw that response.
+ */
+export function classifyBridgeOutcome(args: {
+  status: number
+  cancelled: boolean
+  cancelReason?: string
+  prompts: string[]
+}): BridgeAuditOutcome {
+  if (args.cancelled) {
+    return args.cancelReason === 'CLIENT_DISCONNECTED' ? 'disconnected' : 'cancelled'
+  }
+  if (args.status < 400) return 'approved'
+  // 403 is what the route handlers answer on an explicit user denial; any
+  // other failure after a prompt was shown is the wallet refusing the call
+  // because that prompt was declined.
+  if (args.status === 403 || args.prompts.length > 0) return 'denied'
+  return 'error'
+}
+
+/** Best effort — an audit write must never fail or delay the bridge response. */
+export async function recordBridgeAudit(
+  target: BridgeAuditTarget | null,
+  entry: BridgeAuditEntry
+): Promise<void> {
+  if (!target) return
+  try {
+    await stasQuery(target.identityKey, target.chain, 'insertBridgeAudit', [
+      { ...entry, prompts: JSON.stringify(entry.prompts) },
+    ])
+  } catch (err) {
+    console.warn('[bridgeAudit] failed to record request:', err)
+  }
+}
+
+function fromRow(row: any): BridgeAuditEntry {
+  let prompts: string[] = []
+  try {
+    prompts = JSON.parse(row.prompts || '[]')
+  } catch {
+    // leave empty
+  }
+  return {
+    id: row.id,
+    createdAt: row.createdAt,
+    origin: row.origin,
+    method: row.method,
+    path: row.path,
+    status: Number(row.status),
+    latencyMs: Number(row.latencyMs),
+    argsHash: row.argsHash ?? null,
+    prompts,
+    outcome: row.outcome,
+  }
+}
+
+export async function listBridgeAudit(
+  target: BridgeAuditTarget,
+  filter: BridgeAuditFilter
+): Promise<{ rows: BridgeAuditEntry[]; total: number }> {
+  const res = await stasQuery(target.identityKey, target.chain, 'listBridgeAudit', [filter])
+  return { rows: (res?.rows ?? []).map(fromRow), total: res?.total ?? 0 }
+}
+
+export async function listBridgeAuditFacets(
+  target: BridgeAuditTarget
+): Promise<{ origins: string[]; paths: string[] }> {
+  return (await stasQuery(target.identityKey, target.chain, 'listBridgeAuditFacets', [])) ??
+    { origins: [], paths: [] }
+}
+
+const CSV_COLUMNS: Array<keyof BridgeAuditEntry> = [
+  'createdAt', 'origin', 'method', 'path', 'status', 'latencyMs', 'outcome', 'prompts', 'argsHash',
+]
+
+function csvCell(value: unknown): string {
+  const text = Array.isArray(value) ? value.join(';') : value == null ? '' : String(value)
+  // Quote anything with a delimiter, and neutralise leading formula characters
+  // so an origin like "=HYPERLINK(...)" cannot execute when opened in a spreadsheet.
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+export function bridgeAuditToCsv(rows: BridgeAuditEntry[]): string {
+  const lines = [CSV_COLUMNS.join(',')]
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map((col) => csvCell(row[col])).join(','))
+  }
+  return lines.join('\n') + '\n'
+}
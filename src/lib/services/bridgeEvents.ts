@@ -0,0 +1,42 @@
+/**
+ * Forwards incoming peer-token offers to the main process, which publishes
+ * them to apps subscribed to `GET /events`.
+ *
+ * The renderer owns the MessageBox clients, so this event type starts here;
+ * action status, internalized outputs and vault lock state are raised in the
+ * main process.
+ *
+ * Each event names the basket the tokens settle into; the main process shows
+ * it only to apps that have used that basket. Incoming PeerPay payments are
+ * not forwarded: they land in `default`, which no app can be granted.
+ */
+import type { IncomingToken } from '@bsv/message-box-client'
+import { TOKEN_PROTOCOL_BASKETS } from '../constants/baskets'
+
+export function forwardIncomingToBridge(clients: {
+  peerTokens?: any
+}): () => void {
+  const publish = window.electronAPI?.bridge?.publishEvent
+  if (!publish) return () => {}
+  let active = true
+
+  clients.peerTokens
+    ?.listenForLiveTokens({
+      onToken: (t: IncomingToken) => {
+        if (!active) return
+        publish('peertoken.incoming', {
+          messageId: t.messageId,
+          sender: t.sender,
+          protocol: t.token?.protocol,
+          assetId: t.token?.assetId,
+          amount: t.token?.amount,
+          basket: TOKEN_PROTOCOL_BASKETS[t.token?.protocol as string],
+        })
+      },
+    })
+    .catch((e: unknown) => console.warn('[bridgeEvents] peer-token listen failed', e))
+
+  return () => {
+    active = false
+  }
+}
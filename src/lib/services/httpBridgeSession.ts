@@ -11,7 +11,11 @@ export type HttpBridgeSession = {
   requestId: number
   origin: string
   cancelled: boolean
+  /** Why the main process cancelled the call, e.g. 'CLIENT_DISCONNECTED'. */
+  cancelReason?: string
   permissionIds: Set<string>
+  /** Kinds of permission prompts raised while serving this call (audit log). */
+  prompts: string[]
 }
 
 const sessions = new Map<number, HttpBridgeSession>()
@@ -30,6 +34,7 @@ export function beginHttpBridgeSession(requestId: number, origin: string): void
     origin: normalizeBridgeOrigin(origin),
     cancelled: false,
     permissionIds: new Set(),
+    prompts: [],
   })
 }
 
@@ -41,13 +46,25 @@ export function getHttpBridgeSession(requestId: number): HttpBridgeSession | und
   return sessions.get(requestId)
 }
 
-export function markHttpBridgeSessionCancelled(requestId: number): HttpBridgeSession | undefined {
+export function markHttpBridgeSessionCancelled(
+  requestId: number,
+  reason?: string
+): HttpBridgeSession | undefined {
   const session = sessions.get(requestId)
   if (!session) return undefined
   session.cancelled = true
+  session.cancelReason = reason
   return session
 }
 
+/**
+ * Record a prompt the route handler raised itself (pairing)
+ * rather than through the permissions manager.
+ */
+export function noteHttpBridgePrompt(requestId: number, kind: string): void {
+  sessions.get(requestId)?.prompts.push(kind)
+}
+
 /**
  * Associate a permission prompt with live HTTP sessions for the same originator.
  * Returns 'auto-deny' when every matching in-flight session was already cancelled
@@ -55,7 +72,8 @@ export function markHttpBridgeSessionCancelled(requestId: number): HttpBridgeSes
  */
 export function trackPermissionForHttpBridge(
   requestID: string,
-  originator: string | undefined
+  originator: string | undefined,
+  kind?: string
 ): 'track' | 'auto-deny' {
   if (!originator) return 'track'
 
@@ -70,6 +88,7 @@ export function trackPermissionForHttpBridge(
 
   for (const session of live) {
     session.permissionIds.add(requestID)
+    if (kind) session.prompts.push(kind)
   }
   return 'track'
 }
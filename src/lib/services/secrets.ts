@@ -18,6 +18,17 @@ export type VaultStatus = {
   methods: Array<'se' | 'passphrase'>
   biometricsAvailable: boolean
   needsMigration: boolean
+  profiles: VaultProfile[]
+  activeProfile: string | null
+}
+
+export type VaultProfile = {
+  id: string
+  name: string
+  createdAt: number
+  ownPassphrase: boolean
+  methods: Array<'se' | 'passphrase'>
+  active: boolean
 }
 
 function vaultApi() {
@@ -28,12 +39,44 @@ export async function vaultStatus(): Promise<VaultStatus> {
   return vaultApi().status()
 }
 
-export async function unlockWithPassphrase(passphrase: string) {
-  return vaultApi().unlockWithPassphrase(passphrase)
+/** Unlock the active vault profile, or `profileId` (switching to it if another is open). */
+export async function unlockWithPassphrase(passphrase: string, profileId?: string) {
+  return vaultApi().unlockWithPassphrase(passphrase, profileId)
+}
+
+export async function unlockWithBiometrics(profileId?: string) {
+  return vaultApi().unlockWithBiometrics(profileId)
+}
+
+export async function createVaultProfile(options: {
+  name: string
+  passphrase: string
+  ownPassphrase: boolean
+  enableBiometrics: boolean
+}) {
+  return vaultApi().createProfile(options)
+}
+
+export async function deleteVaultProfile(profileId: string, passphrase: string) {
+  return vaultApi().deleteProfile(profileId, passphrase)
 }
 
-export async function unlockWithBiometrics() {
-  return vaultApi().unlockWithBiometrics()
+/** Change the vault unlock passphrase; secrets stay sealed under the same key. */
+export async function changeVaultPassphrase(currentPassphrase: string, newPassphrase: string) {
+  return vaultApi().changePassphrase(currentPassphrase, newPassphrase)
+}
+
+export async function hasDuressPassphrase(): Promise<boolean> {
+  return vaultApi().hasDuress()
+}
+
+/** Set or change the duress passphrase, which unlocks a decoy wallet instead of this one. */
+export async function setDuressPassphrase(currentPassphrase: string, duressPassphrase: string) {
+  return vaultApi().setDuress(currentPassphrase, duressPassphrase)
+}
+
+export async function clearDuressPassphrase(currentPassphrase: string) {
+  return vaultApi().clearDuress(currentPassphrase)
 }
 
 export async function enrollVault(options: {
@@ -71,6 +114,41 @@ export async function lockVault(): Promise<void> {
   window.dispatchEvent(new CustomEvent('vault-locked'))
 }
 
+/**
+ * The main process locks the vault on its own (idle timeout, suspend, screen
+ * lock). Drop cached secrets and raise `vault-locked` so VaultGate re-prompts.
+ * Returns an unsubscribe function.
+ */
+export function watchMainProcessLock(): () => void {
+  const unsubscribe = vaultApi().onLocked?.(() => {
+    cache.clear()
+    hydrated = false
+    window.dispatchEvent(new CustomEvent('vault-locked'))
+  })
+  return unsubscribe ?? (() => {})
+}
+
+/** UI input is reported at most this often; the idle timeout is in minutes. */
+const ACTIVITY_REPORT_MS = 15_000
+const ACTIVITY_EVENTS = ['keydown', 'pointerdown', 'pointermove', 'wheel'] as const
+
+/** Report UI input so the idle auto-lock is postponed. Returns a stop function. */
+export function reportActivity(): () => void {
+  const noteActivity = vaultApi().noteActivity
+  if (!noteActivity) return () => {}
+  let lastReport = 0
+  const onInput = () => {
+    const now = Date.now()
+    if (now - lastReport < ACTIVITY_REPORT_MS) return
+    lastReport = now
+    noteActivity()
+  }
+  for (const type of ACTIVITY_EVENTS) window.addEventListener(type, onInput, { passive: true })
+  return () => {
+    for (const type of ACTIVITY_EVENTS) window.removeEventListener(type, onInput)
+  }
+}
+
 /** Snapshot of in-memory cache for enroll/migration. */
 export function cacheSnapshot(): Record<string, string> {
   const out: Record<string, string> = {}
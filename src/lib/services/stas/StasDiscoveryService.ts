@@ -193,7 +193,10 @@ export class StasDiscoveryService {
         vout,
         wallet: this.deps.wallet,
       });
-      if (!match) {
+      // Ordinals sit at BSV-21 receive keys and register through
+      // OrdinalDiscoveryService, never here.
+      const protocolId = match?.adapter.id;
+      if (!match || !protocolId || protocolId === 'ordinals') {
         out.outputs.push({ vout, matched: false });
         continue;
       }
@@ -211,7 +214,7 @@ export class StasDiscoveryService {
         ownerFieldHash160: match.parsed.ownerFieldHash160,
         brc42KeyId: `recv ${keyIndex}`,
         parsed: toRichParsed(match.parsed),
-        protocol: { id: match.adapter.id, basketName: match.adapter.basketName },
+        protocol: { id: protocolId, basketName: match.adapter.basketName },
       });
       const ok = !!reg.registered;
       if (ok) out.registered++;
@@ -380,7 +383,8 @@ export class StasDiscoveryService {
             vout: utxo.vout,
             wallet: this.deps.wallet,
           });
-          if (!match) continue;
+          const protocolId = match?.adapter.id;
+          if (!match || !protocolId || protocolId === 'ordinals') continue;
 
           // Ownership: the script's owner field is authoritative when the
           // adapter recovered one (DSTAS / classic STAS — both always do).
@@ -413,7 +417,7 @@ export class StasDiscoveryService {
             brc42KeyId: `recv ${keyIndex}`,
             parsed: toRichParsed(match.parsed),
             protocol: {
-              id: match.adapter.id,
+              id: protocolId,
               basketName: match.adapter.basketName,
             },
           });
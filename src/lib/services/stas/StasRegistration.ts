@@ -16,6 +16,7 @@ import type { AtomicBEEF, WalletInterface } from '@bsv/sdk';
 import { STAS_BASKET } from '../../constants/baskets';
 import { buildChainedAtomicBeef } from './buildChainedAtomicBeef';
 import { verifyAndPersistOnReceive } from '../tokens/verifyOnReceive';
+import { createWalletB2GVerifier } from '../tokens/spv/LocalBackToGenesisVerifier';
 import type { ParsedDstas } from './dstasParser';
 
 /** Classic-STAS parsed payload extends ParsedDstas with optional symbol. */
@@ -67,6 +68,14 @@ export interface RegisterStasArgs {
    * sender's own token-change), so the wallet-toolbox output row already exists.
    */
   skipInternalize?: boolean;
+  /** Token display name for the `stas_tokens` row (known when we issued it). */
+  name?: string;
+  /**
+   * Identity key of the token's issuer, stamped on the `stas_tokens` row.
+   * Set by the issuance flow for tokens this wallet minted; discovery leaves
+   * it unset (an update never clears a stamped value).
+   */
+  issuerIdentityKey?: string;
 }
 
 export interface RegisterStasResult {
@@ -190,14 +199,14 @@ export class StasRegistration {
           {
             tokenId: parsed.tokenId,
             symbol: (parsed as RichParsed).symbol ?? 'STAS',
-            name: undefined,
+            name: args.name,
             satoshisPerToken: 1,
             freezeEnabled: parsed.freezeEnabled,
             confiscationEnabled: parsed.confiscationEnabled,
             // redemptionPkh remains the parsed value for DSTAS; classic STAS
             // doesn't carry one in the engine, so we leave it null-ish.
             redemptionPkh: parsed.tokenId === '' ? undefined : parsed.tokenId,
-            issuerIdentityKey: undefined,
+            issuerIdentityKey: args.issuerIdentityKey,
             flagsHex: parsed.flagsHex,
             createdAt: now,
             protocol: protocol.id,
@@ -237,7 +246,12 @@ export class StasRegistration {
     // Verify provenance the moment the token is ours — covers both the discovery
     // scan and peer-accept paths (both land here). Fire-and-forget; never blocks
     // the receive. `protocol.id` is 'stas' | 'dstas' | 'bsv-21'.
-    verifyAndPersistOnReceive(this.identityKey, this.chain, { txid, vout, protocol: protocol.id });
+    verifyAndPersistOnReceive(
+      this.identityKey,
+      this.chain,
+      { txid, vout, protocol: protocol.id },
+      createWalletB2GVerifier({ wallet: this.wallet, identityKey: this.identityKey, chain: this.chain })
+    );
 
     return { registered: true, txid, vout, outputId };
   }
@@ -10,6 +10,10 @@
  * keep the tx at exactly 2 outputs, we LOWER the basket target to 0 before
  * createAction (with `randomizeOutputs: false`), then restore it afterward.
  *
+ * A split adds STAS outputs ahead of the BSV change: further recipients
+ * (`extraRecipients`), then the sender's token change. The engine carries at
+ * most `MAX_STAS_SPLIT_OUTPUTS` token outputs per tx.
+ *
  * Signing:
  *   - STAS input (our outpoint): externally via `wallet.createSignature` with
  *     the BRC-42 derivation that owns the STAS.
@@ -41,6 +45,9 @@ async function loadStasDeps(): Promise<{
 
 const ORIGINATOR = 'admin.stas-transfer';
 
+/** STAS outputs one transfer tx can carry, change included (SDK split limit). */
+export const MAX_STAS_SPLIT_OUTPUTS = 4;
+
 export interface StasTransferArgs {
   source: {
     txid: string;
@@ -68,11 +75,18 @@ export interface StasTransferArgs {
   recipientAddress: string;
   /**
    * Token amount (satoshis) to send to the recipient. Defaults to the full
-   * `source.satoshis` (1-to-1 transfer). When less than the full value, the
-   * service performs a SPLIT: a recipient STAS output of `amount` plus a
-   * sender token-change STAS output of the remainder (to `senderChangeHash160`).
+   * `source.satoshis` (1-to-1 transfer), less any `extraRecipients`. When
+   * less than the full value, the service performs a SPLIT: a recipient STAS
+   * output of `amount` plus a sender token-change STAS output of the
+   * remainder (to `senderChangeHash160`).
    */
   amount?: number;
+  /**
+   * Further recipients paid from the same source in this tx, after
+   * `recipientAddress` (vout 1, 2, …). Batch payouts use this to spend one
+   * UTXO across several outputs; the token change then follows them.
+   */
+  extraRecipients?: Array<{ recipientAddress: string; amount: number }>;
   /**
    * Owner pkh (hex) for the sender's token-change STAS output. Required when
    * `amount` < `source.satoshis`. Derived from the sender's own STAS receive
@@ -96,6 +110,8 @@ export interface StasTransferResult {
   reason?: string;
   /** Signed AtomicBEEF of the transfer (from signAction) — for peer delivery. */
   beef?: number[];
+  /** The sender's token-change UTXO on a split, so a caller can chain from it. */
+  change?: { txid: string; vout: number; scriptHex: string; satoshis: number; brc42KeyId: string };
 }
 
 export class StasTransferService {
@@ -158,11 +174,16 @@ export class StasTransferService {
         '| MATCH:', derivedOwnerPkh === sourceOwnerPkh);
     } catch { /* never block on diagnostics */ }
 
-    // 2. Recipient hash160.
+    // 2. Recipient hash160(s).
     let recipientPkhHex: string;
+    const extraRecipients = args.extraRecipients ?? [];
+    const extraPkhHexes: string[] = [];
     try {
       const addr = bsv.Address.fromString(recipientAddress);
       recipientPkhHex = addr.hashBuffer.toString('hex');
+      for (const r of extraRecipients) {
+        extraPkhHexes.push(bsv.Address.fromString(r.recipientAddress).hashBuffer.toString('hex'));
+      }
     } catch (err) {
       return { ok: false, reason: `invalid recipient: ${errMsg(err)}` };
     }
@@ -195,24 +216,36 @@ export class StasTransferService {
     // 3b. Resolve send amount vs. token-change (SPLIT). Full-value send keeps
     //     the original 1-output path byte-for-byte; a partial send adds a
     //     second STAS output carrying the remainder back to the sender.
-    const sendAmt = args.amount ?? source.satoshis;
-    const changeAmt = source.satoshis - sendAmt;
+    const extraAmt = extraRecipients.reduce((sum, r) => sum + r.amount, 0);
+    const sendAmt = args.amount ?? source.satoshis - extraAmt;
+    const changeAmt = source.satoshis - sendAmt - extraAmt;
     if (!Number.isInteger(sendAmt) || sendAmt < 1) {
       return { ok: false, reason: `invalid amount ${sendAmt} (must be a positive integer ≤ ${source.satoshis})` };
     }
+    const badExtra = extraRecipients.find((r) => !Number.isInteger(r.amount) || r.amount < 1);
+    if (badExtra) {
+      return { ok: false, reason: `invalid amount ${badExtra.amount} for ${badExtra.recipientAddress}` };
+    }
     if (changeAmt < 0) {
-      return { ok: false, reason: `amount ${sendAmt} exceeds the token UTXO value ${source.satoshis}` };
+      return { ok: false, reason: `amount ${sendAmt + extraAmt} exceeds the token UTXO value ${source.satoshis}` };
     }
     if (changeAmt > 0 && !args.senderChangeHash160) {
       return { ok: false, reason: 'partial transfer requires senderChangeHash160 for the token-change output' };
     }
+    const tokenOutputCount = 1 + extraRecipients.length + (changeAmt > 0 ? 1 : 0);
+    if (tokenOutputCount > MAX_STAS_SPLIT_OUTPUTS) {
+      return { ok: false, reason: `a STAS split carries at most ${MAX_STAS_SPLIT_OUTPUTS} token outputs, change included (got ${tokenOutputCount})` };
+    }
+    const changeVout = 1 + extraRecipients.length;
 
     // 4. Build new STAS locking script(s): recipient + (optional) sender change.
     let newStasScriptHex: string;
+    let extraStasScriptHexes: string[];
     let changeStasScriptHex: string | null = null;
     let stasVersion: number;
     try {
       newStasScriptHex = updateStasScript(recipientPkhHex, sh);
+      extraStasScriptHexes = extraPkhHexes.map((pkh) => updateStasScript(pkh, sh));
       if (changeAmt > 0 && args.senderChangeHash160) {
         changeStasScriptHex = updateStasScript(args.senderChangeHash160, sh);
       }
@@ -330,6 +363,11 @@ export class StasTransferService {
                 satoshis: sendAmt,
                 outputDescription: 'STAS to recipient',
               },
+              ...extraStasScriptHexes.map((lockingScript, i) => ({
+                lockingScript,
+                satoshis: extraRecipients[i].amount,
+                outputDescription: 'STAS to recipient',
+              })),
               ...(changeStasScriptHex != null
                 ? [{
                     lockingScript: changeStasScriptHex,
@@ -443,6 +481,7 @@ export class StasTransferService {
           tx,
           [
             { satoshis: sendAmt, publicKey: recipientPkhHex },
+            ...extraPkhHexes.map((publicKey, i) => ({ satoshis: extraRecipients[i].amount, publicKey })),
             changeStasScriptHex != null && args.senderChangeHash160
               ? { satoshis: changeAmt, publicKey: args.senderChangeHash160 }
               : null,
@@ -525,9 +564,9 @@ export class StasTransferService {
       const wocBase = `${wocExplorerBase(this.chain)}/tx/`;
       tokenLog.info(`[stas-transfer] BROADCAST ✓ txid: ${signResp?.txid}  ${wocBase}${signResp?.txid}`);
 
-      // 14. Link the sender's token-change output (vout 1 — outputs are not
-      //     randomized) into the satellite tables. The Assets view reads STAS
-      //     holdings from `listStasOutputs`, NOT from the basket, so without
+      // 14. Link the sender's token-change output (after the recipients —
+      //     outputs are not randomized) into the satellite tables. The Assets
+      //     view reads STAS holdings from `listStasOutputs`, NOT from the basket, so without
       //     this the remainder of a partial send stays invisible until a
       //     discovery scan happens to pick it back up off the chain — even
       //     though we minted the output ourselves and know everything about it.
@@ -539,7 +578,7 @@ export class StasTransferService {
           const meta = parseClassicStasMetadata(source.scriptHex);
           const r = await new StasRegistration(this.wallet, this.identityKey, this.chain).register({
             txid: signResp.txid,
-            vout: 1,
+            vout: changeVout,
             tokenSatoshis: changeAmt,
             ownerFieldHash160: args.senderChangeHash160,
             brc42KeyId: args.senderChangeKeyId ?? source.brc42KeyId,
@@ -564,7 +603,16 @@ export class StasTransferService {
         }
       }
 
-      return { ok: true, txid: signResp?.txid, beef: signResp?.tx };
+      const change = changeStasScriptHex != null && signResp?.txid
+        ? {
+            txid: signResp.txid as string,
+            vout: changeVout,
+            scriptHex: changeStasScriptHex,
+            satoshis: changeAmt,
+            brc42KeyId: args.senderChangeKeyId ?? source.brc42KeyId,
+          }
+        : undefined;
+      return { ok: true, txid: signResp?.txid, beef: signResp?.tx, change };
     } finally {
       await restoreBasket();
     }
@@ -3,7 +3,9 @@
  *
  * The single import site of `dxs-bsv-token-sdk` for ownership recognition —
  * the rest of bsv-desktop works against the normalized `ParsedDstas` shape and
- * never touches the SDK's reader types directly.
+ * never touches the SDK's reader types directly. Also reads the redemption
+ * PKH of a classic STAS script (`parseClassicStasTokenFields`), which the
+ * OP_RETURN heuristics in parseClassicStasMetadata do not surface.
  */
 
 import { ScriptType, toHex } from 'dxs-bsv-token-sdk/bsv';
@@ -93,3 +95,23 @@ export function parseDstasLockingScript(scriptHex: string): ParsedDstas | null {
     frozen,
   };
 }
+
+/**
+ * Token fields of a classic STAS locking script: the redemption (issuer) PKH
+ * — B2G's `tokenId` — and the symbol. Returns `null` — never throws — for any
+ * script the SDK does not read as classic STAS.
+ */
+export function parseClassicStasTokenFields(
+  scriptHex: string
+): { tokenId: string; symbol: string | null } | null {
+  let reader: any;
+  try {
+    reader = LockingScriptReader.readHex(scriptHex);
+  } catch {
+    return null;
+  }
+  if (!reader || reader.ScriptType !== ScriptType.p2stas) return null;
+  const tokenId: string | null = reader.getTokenId();
+  if (!tokenId || tokenId.length !== 40) return null;
+  return { tokenId, symbol: reader.getSymbol() };
+}
@@ -0,0 +1,207 @@
+/**
+ * Standing approvals for apps to move tokens without a prompt per transfer.
+ *
+ * When the token-spend prompt is answered with "allow up to N units for X
+ * days", an allowance keyed by origin + protocol + asset is stored here. Later
+ * transfers from that origin for the same asset go through silently until the
+ * ceiling is reached or the allowance expires; anything beyond that prompts
+ * again. A transfer first reserves its amount, then commits it once the
+ * tokens have moved or releases it if they did not, so a failed transfer
+ * costs nothing and concurrent ones cannot overrun the ceiling together.
+ * Reservations live in memory only.
+ *
+ * Allowances belong to one wallet: each identity key and chain has its own
+ * localStorage entry (`tokenSpendAllowancesKey`), chosen with `useProfile`
+ * once the wallet is built. Until then nothing is read from storage.
+ *
+ * Amounts are token units as decimal strings (STAS / DSTAS = satoshis on the
+ * UTXO, BSV-21 = raw `amt`), compared as BigInts so large supplies are exact.
+ */
+import { normalizeBridgeOrigin } from './httpBridgeSession'
+import type { Chain } from '../utils/woc'
+
+export type TokenSpendProtocol = 'stas' | 'dstas' | 'bsv-21'
+
+export interface TokenSpendAllowance {
+  /** Normalized origin (`host[:port]`), as the bridge reports it. */
+  originator: string
+  protocol: TokenSpendProtocol
+  /** Token id (STAS / DSTAS token id, BSV-21 deploy outpoint). */
+  assetId: string
+  /** Ticker at the time of the grant, shown beside the token id. Never a key. */
+  symbol?: string | null
+  /** Most units the origin may move under this allowance. */
+  ceiling: string
+  /** Units already moved under it. */
+  spent: string
+  grantedAt: number
+  expiresAt: number
+}
+
+type AllowanceStorage = Pick<Storage, 'getItem' | 'setItem'>
+
+interface Reservation {
+  originator: string
+  protocol: TokenSpendProtocol
+  assetId: string
+  amount: bigint
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** localStorage entry holding one wallet's allowances. */
+export function tokenSpendAllowancesKey(identityKey: string, chain: Chain): string {
+  return `tokenSpendAllowances:${identityKey}:${chain}`
+}
+
+const sameKey = (a: TokenSpendAllowance, originator: string, protocol: TokenSpendProtocol, assetId: string) =>
+  a.originator === originator && a.protocol === protocol && a.assetId === assetId
+
+export class TokenSpendAllowanceStore {
+  private memory: TokenSpendAllowance[] = []
+  private reservations = new Map<string, Reservation>()
+  private nextReservation = 1
+  private storageKey: string | null = null
+
+  constructor(
+    private readonly storage: AllowanceStorage | null,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Switch to the allowances of the wallet `identityKey` on `chain`, or to an
+   * empty in-memory set with null (no wallet loaded). Reservations held for
+   * the previous wallet are dropped; committing them later charges nothing.
+   */
+  useProfile(identityKey: string | null, chain: Chain): void {
+    this.storageKey = identityKey ? tokenSpendAllowancesKey(identityKey, chain) : null
+    this.memory = []
+    this.reservations.clear()
+  }
+
+  /** Allowances that have not expired, soonest-expiring first. */
+  list(): TokenSpendAllowance[] {
+    const at = this.now()
+    return this.load()
+      .filter((a) => a.expiresAt > at)
+      .sort((a, b) => a.expiresAt - b.expiresAt)
+  }
+
+  find(originator: string, protocol: TokenSpendProtocol, assetId: string): TokenSpendAllowance | undefined {
+    const origin = normalizeBridgeOrigin(originator)
+    return this.list().find((a) => sameKey(a, origin, protocol, assetId))
+  }
+
+  /** Store (or replace) the allowance for this origin and asset. */
+  grant(args: {
+    originator: string
+    protocol: TokenSpendProtocol
+    assetId: string
+    symbol?: string | null
+    ceiling: string
+    days: number
+  }): TokenSpendAllowance {
+    if (!/^\d+$/.test(args.ceiling) || BigInt(args.ceiling) <= 0n) {
+      throw new Error('Allowance must be a positive whole number of token units')
+    }
+    if (!(args.days > 0)) throw new Error('Allowance must last at least one day')
+    const origin = normalizeBridgeOrigin(args.originator)
+    const grantedAt = this.now()
+    const allowance: TokenSpendAllowance = {
+      originator: origin,
+      protocol: args.protocol,
+      assetId: args.assetId,
+      symbol: args.symbol ?? null,
+      ceiling: args.ceiling,
+      spent: '0',
+      grantedAt,
+      expiresAt: grantedAt + args.days * DAY_MS,
+    }
+    this.save([
+      ...this.list().filter((a) => !sameKey(a, origin, args.protocol, args.assetId)),
+      allowance,
+    ])
+    return allowance
+  }
+
+  /**
+   * Hold `amount` against a live allowance that still covers it, counting
+   * transfers already in flight. Returns a reservation id to `commit` once the
+   * tokens have moved or `release` if they did not; null, leaving everything
+   * unchanged, when there is none or it would be exceeded.
+   */
+  reserve(originator: string, protocol: TokenSpendProtocol, assetId: string, amount: string): string | null {
+    if (!/^\d+$/.test(amount)) return null
+    const existing = this.find(originator, protocol, assetId)
+    if (!existing) return null
+    let held = BigInt(existing.spent) + BigInt(amount)
+    for (const r of this.reservations.values()) {
+      if (r.originator === existing.originator && r.protocol === protocol && r.assetId === assetId) held += r.amount
+    }
+    if (held > BigInt(existing.ceiling)) return null
+    const id = String(this.nextReservation++)
+    this.reservations.set(id, { originator: existing.originator, protocol, assetId, amount: BigInt(amount) })
+    return id
+  }
+
+  /**
+   * Charge a reservation to its allowance. `amount` is what actually moved
+   * when that was less than was reserved (e.g. part of a batch).
+   */
+  commit(reservationId: string, amount?: string): void {
+    const r = this.reservations.get(reservationId)
+    if (!r) return
+    this.reservations.delete(reservationId)
+    const moved = amount !== undefined && /^\d+$/.test(amount) && BigInt(amount) < r.amount ? BigInt(amount) : r.amount
+    if (moved === 0n) return
+    // A revoked or expired allowance has nothing left to charge.
+    this.save(this.list().map((a) =>
+      sameKey(a, r.originator, r.protocol, r.assetId) ? { ...a, spent: (BigInt(a.spent) + moved).toString() } : a
+    ))
+  }
+
+  /** Hand a reservation back untouched; nothing moved. */
+  release(reservationId: string): void {
+    this.reservations.delete(reservationId)
+  }
+
+  /**
+   * Start a fresh period for an existing allowance: same ceiling, nothing
+   * spent, expiring `days` from now.
+   */
+  renew(originator: string, protocol: TokenSpendProtocol, assetId: string, days: number): TokenSpendAllowance {
+    const existing = this.find(originator, protocol, assetId)
+    if (!existing) throw new Error('No live allowance to renew')
+    return this.grant({
+      originator: existing.originator,
+      protocol,
+      assetId,
+      symbol: existing.symbol,
+      ceiling: existing.ceiling,
+      days,
+    })
+  }
+
+  revoke(originator: string, protocol: TokenSpendProtocol, assetId: string): void {
+    const origin = normalizeBridgeOrigin(originator)
+    this.save(this.list().filter((a) => !sameKey(a, origin, protocol, assetId)))
+  }
+
+  private load(): TokenSpendAllowance[] {
+    if (!this.storage || !this.storageKey) return this.memory
+    try {
+      const parsed = JSON.parse(this.storage.getItem(this.storageKey) ?? '[]')
+      return Array.isArray(parsed) ? parsed : []
+    } catch {
+      return []
+    }
+  }
+
+  private save(allowances: TokenSpendAllowance[]): void {
+    if (!this.storage || !this.storageKey) {
+      this.memory = allowances
+      return
+    }
+    this.storage.setItem(this.storageKey, JSON.stringify(allowances))
+  }
+}
@@ -8,16 +8,22 @@
  * (e.g. if a foreign output ends up in a token basket and we want to
  * recognise it), but the main discovery loop calls
  * `stas.bsv21Discovery.scan()` directly.
+ *
+ * `merge` maps onto `BSV21TransferService.consolidate` — one tx, any
+ * number of inputs.
  */
 
 import { BSV21_BASKET } from '../../constants/baskets';
 import { parseBsv21LockingScript } from './bsv21/inscription';
-import type { BSV21TransferService } from './bsv21/BSV21TransferService';
+import type { BSV21SourceUtxo, BSV21TransferService } from './bsv21/BSV21TransferService';
 import type {
   TokenProtocolAdapter,
   ParsedTokenOutput,
+  TokenSourceUtxo,
   TransferArgs,
   TransferResult,
+  MergeArgs,
+  MergeResult,
 } from './TokenProtocolAdapter';
 
 export class BSV21ProtocolAdapter implements TokenProtocolAdapter {
@@ -25,6 +31,7 @@ export class BSV21ProtocolAdapter implements TokenProtocolAdapter {
   readonly basketName = BSV21_BASKET;
   readonly displayName = 'BSV-21';
   readonly transferSupported = true;
+  readonly mergeSupported = true;
 
   /**
    * `transferService` carries the wallet + indexer + deriver context the
@@ -64,22 +71,58 @@ export class BSV21ProtocolAdapter implements TokenProtocolAdapter {
       };
     }
     return this.transferService.transfer({
-      source: {
-        txid: args.source.txid,
-        vout: args.source.vout,
-        scriptHex: args.source.scriptHex,
-        satoshis: args.source.satoshis,
-        brc42KeyId: args.source.brc42KeyId,
-        tokenId: extra.tokenId,
-        amt: extra.sourceAmt,
-        dec: extra.dec,
-        sym: extra.sym,
-        icon: extra.icon,
-      },
+      source: toBsv21Source(args.source, extra.sourceAmt, extra),
+      additionalSources: extra.additionalSources?.map((s) =>
+        toBsv21Source(s.source, s.sourceAmt, extra)
+      ),
       amount: extra.amount,
       recipientAddress: args.recipientAddress,
+      extraRecipients: extra.extraRecipients,
     });
   }
+
+  /**
+   * Consolidate a token's UTXOs into one. Like `transfer`, BSV-21 needs
+   * each source's `amt` plus the token metadata — see `Bsv21MergeExtras`.
+   */
+  async merge(args: MergeArgs): Promise<MergeResult> {
+    const extra = args as MergeArgs & Bsv21MergeExtras;
+    if (!extra.tokenId || extra.sourceAmts?.length !== args.sources.length) {
+      return {
+        ok: false,
+        txids: [],
+        reason: 'BSV-21 merge requires tokenId and one sourceAmt per source — caller must thread these through',
+      };
+    }
+    const res = await this.transferService.consolidate({
+      sources: args.sources.map((s, i) => toBsv21Source(s, extra.sourceAmts[i], extra)),
+    });
+    return {
+      ok: res.ok,
+      txids: res.txid ? [res.txid] : [],
+      merged: res.merged,
+      reason: res.reason,
+    };
+  }
+}
+
+function toBsv21Source(
+  source: TokenSourceUtxo,
+  amt: string,
+  meta: { tokenId: string; dec?: number; sym?: string; icon?: string }
+): BSV21SourceUtxo {
+  return {
+    txid: source.txid,
+    vout: source.vout,
+    scriptHex: source.scriptHex,
+    satoshis: source.satoshis,
+    brc42KeyId: source.brc42KeyId,
+    tokenId: meta.tokenId,
+    amt,
+    dec: meta.dec,
+    sym: meta.sym,
+    icon: meta.icon,
+  };
 }
 
 /**
@@ -98,4 +141,21 @@ export interface Bsv21SendExtras {
   dec?: number;
   sym?: string;
   icon?: string;
+  /**
+   * Further UTXOs of the same token spent alongside `source`, each with its
+   * raw amount. `amount` may then be up to the sum of all inputs.
+   */
+  additionalSources?: Array<{ source: TokenSourceUtxo; sourceAmt: string }>;
+  /** Further recipients in the same tx, each with a raw amount (stringified bigint). */
+  extraRecipients?: Array<{ recipientAddress: string; amount: string }>;
+}
+
+/** Extra fields callers attach to `MergeArgs` when consolidating BSV-21. */
+export interface Bsv21MergeExtras {
+  tokenId: string;
+  /** Raw token amount of each entry in `sources`, same order. */
+  sourceAmts: string[];
+  dec?: number;
+  sym?: string;
+  icon?: string;
 }
@@ -7,6 +7,7 @@
  * handles funding + broadcast via createAction/signAction, and the
  * DSTAS unlocking script is hand-assembled to match the template's
  * expected witness format (mirror of the SDK's InputBuilder.sign).
+ * Merge goes through StasMergeService with the same witness builder.
  */
 
 import { DSTAS_BASKET } from '../../constants/baskets';
@@ -16,16 +17,23 @@ import type {
   ParsedTokenOutput,
   TransferArgs,
   TransferResult,
+  MergeArgs,
+  MergeResult,
 } from './TokenProtocolAdapter';
 import type { DstasTransferService } from './dstas/DstasTransferService';
+import type { StasMergeService } from './merge/StasMergeService';
 
 export class DstasProtocolAdapter implements TokenProtocolAdapter {
   readonly id = 'dstas' as const;
   readonly basketName = DSTAS_BASKET;
   readonly displayName = 'DSTAS';
   readonly transferSupported = true;
+  readonly mergeSupported = true;
 
-  constructor(private readonly transferService: DstasTransferService) {}
+  constructor(
+    private readonly transferService: DstasTransferService,
+    private readonly mergeService: StasMergeService
+  ) {}
 
   async parseOutput(scriptHex: string): Promise<ParsedTokenOutput | null> {
     const parsed = parseDstasLockingScript(scriptHex);
@@ -44,4 +52,8 @@ export class DstasProtocolAdapter implements TokenProtocolAdapter {
   async transfer(args: TransferArgs): Promise<TransferResult> {
     return this.transferService.transfer(args);
   }
+
+  async merge(args: MergeArgs): Promise<MergeResult> {
+    return this.mergeService.merge(args);
+  }
 }
@@ -0,0 +1,59 @@
+/**
+ * OrdinalsProtocolAdapter — wraps the ordinals/* service modules into the
+ * cross-protocol `TokenProtocolAdapter` contract.
+ *
+ * An ordinal is a single inscribed satoshi, not an amount: `transfer` sends
+ * the whole output to one recipient and there is nothing to merge. Like
+ * BSV-21, discovery is bespoke (`OrdinalDiscoveryService`, 1Sat owner
+ * queries) and the gallery drives it directly.
+ *
+ * `parseOutput` only claims scripts that carry an inscription. A transferred
+ * ordinal is bare P2PKH — indistinguishable by script from any payment — so
+ * those are recognised through the indexer's origin, never by `find`.
+ */
+
+import { ORDINALS_BASKET } from '../../constants/baskets';
+import { parseOrdinalLockingScript } from './ordinals/ordinalScript';
+import type { OrdinalTransferService } from './ordinals/OrdinalTransferService';
+import type {
+  TokenProtocolAdapter,
+  ParseContext,
+  ParsedTokenOutput,
+  TransferArgs,
+  TransferResult,
+} from './TokenProtocolAdapter';
+
+export class OrdinalsProtocolAdapter implements TokenProtocolAdapter {
+  readonly id = 'ordinals' as const;
+  readonly basketName = ORDINALS_BASKET;
+  readonly displayName = 'Ordinals';
+  readonly transferSupported = true;
+  readonly mergeSupported = false;
+
+  constructor(private readonly transferService: OrdinalTransferService) {}
+
+  /**
+   * An inscribed output is taken as its own origin, so `tokenId` is its
+   * outpoint (`txid_vout`) when the context names one. `symbol` carries the
+   * content type.
+   */
+  async parseOutput(scriptHex: string, ctx?: ParseContext): Promise<ParsedTokenOutput | null> {
+    const parsed = parseOrdinalLockingScript(scriptHex);
+    if (!parsed?.inscription) return null;
+    return {
+      tokenId: ctx?.txid !== undefined && ctx.vout !== undefined ? `${ctx.txid}_${ctx.vout}` : '',
+      ownerFieldHash160: parsed.ownerHash160,
+      symbol: parsed.inscription.contentType || undefined,
+    };
+  }
+
+  async transfer(args: TransferArgs): Promise<TransferResult> {
+    if (args.extraRecipients?.length) {
+      return { ok: false, reason: 'an ordinal goes to exactly one recipient' };
+    }
+    return this.transferService.transfer({
+      source: args.source,
+      recipientAddress: args.recipientAddress,
+    });
+  }
+}
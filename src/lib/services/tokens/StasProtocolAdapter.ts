@@ -8,18 +8,23 @@
  *
  * Transfer delegates to the existing StasTransferService, which carries
  * the BRC-42-unlock + stas-js engine logic.
+ * Merge goes through StasMergeService, which folds same-owner pairs with
+ * the SDK's merge witness.
  */
 
 import { STAS_BASKET } from '../../constants/baskets';
 import { parseClassicStasMetadata } from '../stas/parseClassicStasMetadata';
 import { findCreateContractTxid } from '../stas/findCreateContractTxid';
 import { StasTransferService } from '../stas/StasTransferService';
+import type { StasMergeService } from './merge/StasMergeService';
 import type {
   TokenProtocolAdapter,
   ParseContext,
   ParsedTokenOutput,
   TransferArgs,
   TransferResult,
+  MergeArgs,
+  MergeResult,
 } from './TokenProtocolAdapter';
 
 export class StasProtocolAdapter implements TokenProtocolAdapter {
@@ -27,8 +32,12 @@ export class StasProtocolAdapter implements TokenProtocolAdapter {
   readonly basketName = STAS_BASKET;
   readonly displayName = 'STAS';
   readonly transferSupported = true;
+  readonly mergeSupported = true;
 
-  constructor(private readonly transferService: StasTransferService) {}
+  constructor(
+    private readonly transferService: StasTransferService,
+    private readonly mergeService: StasMergeService
+  ) {}
 
   async parseOutput(scriptHex: string, ctx?: ParseContext): Promise<ParsedTokenOutput | null> {
     const meta = parseClassicStasMetadata(scriptHex);
@@ -63,4 +72,8 @@ export class StasProtocolAdapter implements TokenProtocolAdapter {
   async transfer(args: TransferArgs): Promise<TransferResult> {
     return this.transferService.transfer(args);
   }
+
+  async merge(args: MergeArgs): Promise<MergeResult> {
+    return this.mergeService.merge(args);
+  }
 }
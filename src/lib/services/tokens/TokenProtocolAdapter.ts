@@ -1,6 +1,6 @@
 /**
  * TokenProtocolAdapter — single seam between protocol-specific logic
- * (STAS, DSTAS, BSV-21) and the shared pipeline (DB, IPC, UI).
+ * (STAS, DSTAS, BSV-21, Ordinals) and the shared pipeline (DB, IPC, UI).
  *
  * Every protocol the wallet recognises is represented by exactly one
  * adapter instance. The adapter answers:
@@ -8,11 +8,12 @@
  *   - "which basket do my UTXOs go in?" (basketName)
  *   - "can I build a transfer right now?" (transferSupported)
  *   - "build me a transfer" (transfer, when supported)
+ *   - "fold these UTXOs into one" (merge, when supported)
  *
  * Adapters are held in a TokenProtocolRegistry and looked up by id.
  */
 
-export type TokenProtocolId = 'stas' | 'dstas' | 'bsv-21';
+export type TokenProtocolId = 'stas' | 'dstas' | 'bsv-21' | 'ordinals';
 
 /**
  * Output-level data every protocol must produce when it recognises one of
@@ -51,14 +52,17 @@ export interface ParseContext {
   wallet?: any;
 }
 
+/** One token UTXO the wallet holds, as the spend paths consume it. */
+export interface TokenSourceUtxo {
+  txid: string;
+  vout: number;
+  scriptHex: string;
+  satoshis: number;
+  brc42KeyId: string;
+}
+
 export interface TransferArgs {
-  source: {
-    txid: string;
-    vout: number;
-    scriptHex: string;
-    satoshis: number;
-    brc42KeyId: string;
-  };
+  source: TokenSourceUtxo;
   recipientAddress: string;
   /**
    * Token amount to send (satoshi-denominated for STAS/DSTAS). Omit to send the
@@ -68,6 +72,12 @@ export interface TransferArgs {
    * `Bsv21SendExtras` instead (raw bigint string), so it ignores this field.
    */
   amount?: number;
+  /**
+   * Further recipients paid from the same input(s) in this tx, after
+   * `recipientAddress`. STAS/DSTAS carry at most four token outputs per tx,
+   * change included; BSV-21 takes its amounts via `Bsv21SendExtras`.
+   */
+  extraRecipients?: Array<{ recipientAddress: string; amount: number }>;
   /** Owner pkh (hex) for the sender's token-change output on a partial send. */
   senderChangeHash160?: string;
   /** BRC-42 keyId of the sender's change receive key (for createAction tracking). */
@@ -80,6 +90,28 @@ export interface TransferResult {
   ok: boolean;
   txid?: string;
   reason?: string;
+  /** The sender's token-change UTXO on a partial send — the next send can spend it. */
+  change?: TokenSourceUtxo;
+}
+
+export interface MergeArgs {
+  /** Two or more UTXOs of ONE token, all held by this wallet. */
+  sources: TokenSourceUtxo[];
+  /** Canonical tokenId for the merged output's metadata. */
+  tokenId?: string;
+}
+
+export interface MergeResult {
+  ok: boolean;
+  /**
+   * Every tx broadcast, in order. A merge can take several (STAS/DSTAS merge
+   * two inputs per tx), and a failure part-way still reports the ones that
+   * went out — their outputs are registered, so nothing is lost.
+   */
+  txids: string[];
+  /** The single UTXO now holding the sum, on success. */
+  merged?: TokenSourceUtxo;
+  reason?: string;
 }
 
 /**
@@ -94,10 +126,12 @@ export interface TokenProtocolAdapter {
   readonly id: TokenProtocolId;
   /** Output basket this protocol's UTXOs are stored in. */
   readonly basketName: string;
-  /** Human-readable label for the UI badge ("STAS", "DSTAS", "BSV-21"). */
+  /** Human-readable label for the UI badge ("STAS", "DSTAS", "BSV-21", "Ordinals"). */
   readonly displayName: string;
   /** Whether `transfer(...)` is implemented yet on this adapter. */
   readonly transferSupported: boolean;
+  /** Whether `merge(...)` is implemented on this adapter. */
+  readonly mergeSupported: boolean;
 
   /**
    * Try to recognise a locking script as one of this protocol's outputs.
@@ -112,4 +146,10 @@ export interface TokenProtocolAdapter {
    * is true — callers must check before invoking.
    */
   transfer?(args: TransferArgs): Promise<TransferResult>;
+
+  /**
+   * Consolidate several UTXOs of one token into a single UTXO owned by this
+   * wallet. Only present when `mergeSupported` is true.
+   */
+  merge?(args: MergeArgs): Promise<MergeResult>;
 }
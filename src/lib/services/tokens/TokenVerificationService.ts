@@ -1,8 +1,9 @@
 /**
  * TokenVerificationService — Back-to-Genesis provenance for held tokens.
  *
- * Wraps BackToGenesisClient with the two things the UI needs on top of the raw
- * endpoint:
+ * Wraps a BackToGenesisVerifier — the wallet's LocalBackToGenesisVerifier, or
+ * the remote BackToGenesisClient where no wallet is at hand — with the two
+ * things the UI needs on top of the raw verdict:
  *
  *  1. A per-outpoint session cache. An outpoint's provenance is immutable
  *     (barring a reorg), so we verify each `(std, txid, vout)` at most once per
@@ -28,6 +29,7 @@ import {
   BackToGenesisClient,
   formatGenesisRef,
   type B2GVerifyResult,
+  type BackToGenesisVerifier,
   type TokenStd,
 } from './woc/BackToGenesisClient';
 import type { TokenProtocolId } from './TokenProtocolAdapter';
@@ -55,6 +57,7 @@ const PROTOCOL_TO_STD: Record<TokenProtocolId, TokenStd> = {
   stas: 'stas',
   dstas: 'dstas',
   'bsv-21': 'bsv21',
+  ordinals: 'ordinals',
 };
 
 /** Roll a set of per-outpoint verdicts into one card badge (worst wins). */
@@ -66,12 +69,12 @@ export function aggregateBadge(verdicts: OutpointVerification[]): VerificationBa
 }
 
 export class TokenVerificationService {
-  private readonly client: BackToGenesisClient;
+  private readonly client: BackToGenesisVerifier;
   private readonly chain: 'main' | 'test' | 'ttn';
   /** Same-session cache. Durable persistence is the wallet DB (see class doc). */
   private readonly cache = new Map<string, OutpointVerification>();
 
-  constructor(opts: { chain?: 'main' | 'test' | 'ttn'; client?: BackToGenesisClient } = {}) {
+  constructor(opts: { chain?: 'main' | 'test' | 'ttn'; client?: BackToGenesisVerifier } = {}) {
     this.chain = opts.chain ?? 'main';
     this.client = opts.client ?? new BackToGenesisClient({ chain: this.chain });
   }
@@ -0,0 +1,281 @@
+/**
+ * TokenBatchTransferService — pay one token out to many recipients (airdrops,
+ * payroll) in as few transactions as `planBatchTransfer` allows.
+ *
+ * `preview` plans against the wallet's current holdings of the token;
+ * `execute` sends the plan the user approved (or re-plans when given none),
+ * through the same registry adapters the Assets page Send uses:
+ *
+ *   BSV-21       `transfer` with `additionalSources` + `extraRecipients`; each
+ *                later tx spends the previous tx's token change.
+ *   STAS / DSTAS `merge` the selected inputs, then chained `transfer` splits
+ *                (`extraRecipients`), each spending the previous change.
+ *   identity key `PeerTokenClient.sendToken` from a single covering holding,
+ *                re-resolved after the address rows have gone out.
+ *
+ * A plan with unsendable rows is refused outright rather than half-sent, as
+ * is an approved plan whose rows differ or whose inputs are no longer held.
+ * Once a chained tx fails, the rows after it in the chain are reported as not
+ * sent; peer rows don't depend on each other and carry on.
+ */
+
+import type { WalletInterface } from '@bsv/sdk';
+import type { TokenProtocolId, TokenSourceUtxo, TransferArgs } from '../TokenProtocolAdapter';
+import type { TokenProtocolRegistry } from '../TokenProtocolRegistry';
+import type { Bsv21SendExtras } from '../BSV21ProtocolAdapter';
+import { loadPeerHoldings, type PeerHolding } from '../peer/loadPeerHoldings';
+import { selectTokenInputs } from '../merge/selectTokenInputs';
+import type { BatchRow } from './batchRows';
+import { planBatchTransfer, type BatchPlan, type BatchUtxo } from './planBatchTransfer';
+import { tokenLog } from '../tokenLog';
+
+export interface TokenBatchTransferDeps {
+  wallet: WalletInterface;
+  identityKey: string;
+  chain: 'main' | 'test' | 'ttn';
+  originator?: string;
+  tokens: TokenProtocolRegistry;
+  /** Receive deriver for STAS / DSTAS token change. */
+  changeDeriver: { createNextReceiveContext(): Promise<{ ownerFieldHash160: string; keyId: string }> };
+  /** Peer-token client; without it identity-key rows can't be sent. */
+  peerTokens?: { sendToken(params: any): Promise<any> };
+}
+
+export interface TokenBatchArgs {
+  protocol: TokenProtocolId;
+  /** The token id, as `PeerHolding.source.assetId` names it. Never the symbol. */
+  assetId: string;
+  rows: BatchRow[];
+}
+
+export interface BatchRowResult {
+  line: number;
+  recipient: string;
+  amount: string;
+  ok: boolean;
+  txid?: string;
+  reason?: string;
+}
+
+export interface TokenBatchResult {
+  /** True when every row was sent. */
+  ok: boolean;
+  results: BatchRowResult[];
+  /** Every tx broadcast, merges included, in order. */
+  txids: string[];
+  plan: BatchPlan;
+}
+
+function errMsg(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/** `PeerHolding.source` with the fields `loadPeerHoldings` fills in. */
+function sourceOf(h: PeerHolding): any {
+  return h.source;
+}
+
+function toSourceUtxo(h: PeerHolding): TokenSourceUtxo {
+  const s = sourceOf(h);
+  return {
+    txid: s.txid,
+    vout: s.outputIndex,
+    scriptHex: s.lockingScriptHex,
+    satoshis: s.satoshis,
+    brc42KeyId: s.brc42KeyId ?? 'recv 0',
+  };
+}
+
+function toBatchUtxo(h: PeerHolding): BatchUtxo {
+  return { outpoint: h.key, amount: BigInt(h.amount), scriptBytes: sourceOf(h).lockingScriptHex.length / 2 };
+}
+
+/** Why an approved plan can no longer be sent as approved, or null when it can. */
+function staleReason(args: TokenBatchArgs, approved: BatchPlan, holdings: PeerHolding[]): string | null {
+  const sameRows = approved.protocol === args.protocol
+    && approved.rows.length === args.rows.length
+    && approved.rows.every((r, i) =>
+      r.line === args.rows[i].line && r.recipient === args.rows[i].recipient && r.amount === args.rows[i].amount);
+  if (!sameRows) return 'not sent: the rows differ from the approved batch';
+  const held = new Set(holdings.map((h) => h.key));
+  if (!approved.inputs.every((o) => held.has(o))) return 'not sent: holdings changed since the batch was approved';
+  return null;
+}
+
+export class TokenBatchTransferService {
+  constructor(private readonly deps: TokenBatchTransferDeps) {}
+
+  async preview(args: TokenBatchArgs): Promise<BatchPlan> {
+    const holdings = await this.holdings(args);
+    return this.plan(args, holdings);
+  }
+
+  /**
+   * Send the batch. `approved` is the `preview` plan the user agreed to; it is
+   * sent as it stands, never re-planned into different inputs or totals.
+   */
+  async execute(args: TokenBatchArgs, approved?: BatchPlan): Promise<TokenBatchResult> {
+    const holdings = await this.holdings(args);
+    const plan = approved ?? this.plan(args, holdings);
+    const byLine = new Map(args.rows.map((r) => [r.line, r]));
+    const results = new Map<number, BatchRowResult>();
+    const txids: string[] = [];
+    const settle = (lines: number[], res: { ok: boolean; txid?: string; reason?: string }) => {
+      for (const line of lines) {
+        const row = byLine.get(line)!;
+        results.set(line, { line, recipient: row.recipient, amount: row.amount, ...res });
+      }
+    };
+    const report = (): TokenBatchResult => {
+      const rows = args.rows.map((r) => results.get(r.line)!);
+      return { ok: rows.every((r) => r.ok), results: rows, txids, plan };
+    };
+
+    const stale = approved ? staleReason(args, approved, holdings) : null;
+    if (stale) {
+      settle(args.rows.map((r) => r.line), { ok: false, reason: stale });
+      return report();
+    }
+    if (!plan.ok) {
+      for (const r of plan.rows) settle([r.line], { ok: false, reason: r.reason ?? 'not sent: batch has unsendable rows' });
+      return report();
+    }
+    const adapter = this.deps.tokens.getById(args.protocol);
+    const sendTxs = plan.txs.filter((t) => t.kind === 'send');
+    const addressLines = sendTxs.flatMap((t) => t.lines);
+    if (addressLines.length > 0 && (!adapter?.transferSupported || !adapter.transfer)) {
+      settle(addressLines, { ok: false, reason: `send not supported for ${args.protocol}` });
+    } else if (addressLines.length > 0) {
+      await this.sendAddressRows(args, plan, holdings, byLine, settle, txids);
+    }
+
+    for (const tx of plan.txs.filter((t) => t.kind === 'peer')) {
+      const row = byLine.get(tx.lines[0])!;
+      const res = await this.sendPeerRow(args, row);
+      if (res.txid) txids.push(res.txid);
+      settle(tx.lines, res);
+    }
+    return report();
+  }
+
+  private async holdings(args: TokenBatchArgs): Promise<PeerHolding[]> {
+    const { wallet, identityKey, chain, originator } = this.deps;
+    const all = await loadPeerHoldings({ wallet, identityKey, chain, originator });
+    return all.filter((h) => h.protocol === args.protocol && sourceOf(h).assetId === args.assetId);
+  }
+
+  private plan(args: TokenBatchArgs, holdings: PeerHolding[]): BatchPlan {
+    return planBatchTransfer({
+      protocol: args.protocol,
+      utxos: holdings.map(toBatchUtxo),
+      rows: args.rows,
+      peerAvailable: !!this.deps.peerTokens,
+    });
+  }
+
+  /** The planned address-row chain: optional merge, then the send txs in order. */
+  private async sendAddressRows(
+    args: TokenBatchArgs,
+    plan: BatchPlan,
+    holdings: PeerHolding[],
+    byLine: Map<number, BatchRow>,
+    settle: (lines: number[], res: { ok: boolean; txid?: string; reason?: string }) => void,
+    txids: string[]
+  ): Promise<void> {
+    const adapter = this.deps.tokens.getById(args.protocol)!;
+    const isBsv21 = args.protocol === 'bsv-21';
+    const inputs = plan.inputs.map((o) => holdings.find((h) => h.key === o)!);
+    const sendTxs = plan.txs.filter((t) => t.kind === 'send');
+    const abandon = (from: number, reason: string) => settle(sendTxs.slice(from).flatMap((t) => t.lines), { ok: false, reason });
+    const meta = sourceOf(inputs[0]);
+
+    let source = toSourceUtxo(inputs[0]);
+    let sourceAmt = inputs[0].amount;
+    if (!isBsv21 && inputs.length > 1) {
+      if (!adapter.mergeSupported || !adapter.merge) {
+        return abandon(0, `not sent: ${args.protocol} cannot consolidate the ${inputs.length} inputs needed`);
+      }
+      const merged = await adapter.merge({ sources: inputs.map(toSourceUtxo), tokenId: meta.tokenId });
+      txids.push(...merged.txids);
+      if (!merged.ok || !merged.merged) {
+        return abandon(0, `not sent: merging inputs failed: ${merged.reason ?? 'unknown error'}`);
+      }
+      source = merged.merged;
+    }
+
+    for (const [i, tx] of sendTxs.entries()) {
+      const [first, ...rest] = tx.lines.map((line) => byLine.get(line)!);
+      let transferArgs: TransferArgs;
+      try {
+        if (isBsv21) {
+          const extras: Bsv21SendExtras = {
+            tokenId: meta.tokenId ?? meta.assetId,
+            sourceAmt,
+            amount: first.amount,
+            dec: meta.dec,
+            sym: meta.sym,
+            icon: meta.icon,
+            additionalSources: i === 0 && inputs.length > 1
+              ? inputs.slice(1).map((h) => ({ source: toSourceUtxo(h), sourceAmt: h.amount }))
+              : undefined,
+            extraRecipients: rest.map((r) => ({ recipientAddress: r.recipient, amount: r.amount })),
+          };
+          transferArgs = { source, recipientAddress: first.recipient, ...extras } as any;
+        } else {
+          transferArgs = {
+            source,
+            recipientAddress: first.recipient,
+            amount: Number(first.amount),
+            extraRecipients: rest.map((r) => ({ recipientAddress: r.recipient, amount: Number(r.amount) })),
+            tokenId: meta.tokenId,
+          };
+          if (tx.change !== '0') {
+            const ctx = await this.deps.changeDeriver.createNextReceiveContext();
+            transferArgs.senderChangeHash160 = ctx.ownerFieldHash160;
+            transferArgs.senderChangeKeyId = ctx.keyId;
+          }
+        }
+      } catch (err) {
+        return abandon(i, `not sent: derive change key: ${errMsg(err)}`);
+      }
+
+      const res = await adapter.transfer!(transferArgs);
+      if (!res.ok) {
+        settle(tx.lines, { ok: false, reason: res.reason ?? 'transfer failed' });
+        return abandon(i + 1, 'not sent: an earlier tx in the batch failed');
+      }
+      if (res.txid) txids.push(res.txid);
+      settle(tx.lines, { ok: true, txid: res.txid });
+      tokenLog.info(`[batch] ${args.protocol} tx ${i + 1}/${sendTxs.length} paid ${tx.lines.length} rows: ${res.txid}`);
+
+      if (i + 1 < sendTxs.length) {
+        if (!res.change) return abandon(i + 1, `not sent: token change of ${res.txid} unavailable`);
+        source = res.change;
+        sourceAmt = tx.change;
+      }
+    }
+  }
+
+  /** One identity-key row from the smallest holding that covers it. */
+  private async sendPeerRow(args: TokenBatchArgs, row: BatchRow): Promise<{ ok: boolean; txid?: string; reason?: string }> {
+    const { peerTokens } = this.deps;
+    if (!peerTokens) return { ok: false, reason: 'peer-token delivery is unavailable' };
+    try {
+      const holdings = await this.holdings(args);
+      const selection = selectTokenInputs(holdings, BigInt(row.amount), (h) => BigInt(h.amount));
+      if (!selection || selection.inputs.length > 1) {
+        return { ok: false, reason: `no single UTXO covers ${row.amount}; consolidate first` };
+      }
+      const [holding] = selection.inputs;
+      const sent = await peerTokens.sendToken({
+        recipient: row.recipient,
+        protocol: holding.protocol,
+        source: holding.source,
+        amount: row.amount,
+      });
+      return { ok: true, txid: sent?.txid };
+    } catch (err) {
+      return { ok: false, reason: errMsg(err) };
+    }
+  }
+}
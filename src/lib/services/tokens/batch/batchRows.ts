@@ -0,0 +1,112 @@
+/**
+ * Batch payout rows — the `recipient,amount` list behind a token airdrop or
+ * payroll run, from an uploaded CSV or a JSON body.
+ *
+ * A recipient is either a base58 address (an on-chain send the recipient's
+ * wallet discovers) or a compressed identity key (delivered over the peer
+ * channel). Amounts are raw token units as positive integers: satoshis for
+ * STAS / DSTAS, raw `amt` for BSV-21. Rows are checked here for shape only;
+ * the transfer services still parse every address before signing.
+ */
+
+export type BatchRecipientKind = 'address' | 'identity';
+
+export interface BatchRow {
+  /** 1-based source line (CSV) or entry number (JSON), for the report. */
+  line: number;
+  recipient: string;
+  kind: BatchRecipientKind;
+  /** Raw token units, decimal string. */
+  amount: string;
+}
+
+export interface BatchRowError {
+  line: number;
+  message: string;
+}
+
+export interface ParsedBatchRows {
+  rows: BatchRow[];
+  errors: BatchRowError[];
+}
+
+/** Upper bound on rows per batch. */
+export const MAX_BATCH_ROWS = 1000;
+
+const IDENTITY_KEY_RE = /^0[23][0-9a-fA-F]{64}$/;
+const BASE58_ADDRESS_RE = /^[1-9A-HJ-NP-Za-km-z]{26,35}$/;
+const AMOUNT_RE = /^[0-9]+$/;
+
+export function recipientKind(recipient: string): BatchRecipientKind | null {
+  if (IDENTITY_KEY_RE.test(recipient)) return 'identity';
+  if (BASE58_ADDRESS_RE.test(recipient)) return 'address';
+  return null;
+}
+
+/**
+ * Parse `address,amount` lines. Blank lines and `#` comments are skipped, a
+ * first line whose amount column isn't a number is taken as a header, and
+ * fields may be quoted. Separators: comma, semicolon or tab.
+ */
+export function parseBatchCsv(text: string): ParsedBatchRows {
+  const entries: Array<{ line: number; recipient: string; amount: string }> = [];
+  const errors: BatchRowError[] = [];
+  const lines = text.split(/\r?\n/);
+  let seenData = false;
+  lines.forEach((raw, i) => {
+    const line = i + 1;
+    const trimmed = raw.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+    const fields = trimmed.split(/[,;\t]/).map((f) => f.trim().replace(/^"(.*)"$/, '$1').trim());
+    if (!seenData && fields.length >= 2 && !AMOUNT_RE.test(fields[1]) && !recipientKind(fields[0])) {
+      seenData = true;
+      return;
+    }
+    seenData = true;
+    if (fields.length !== 2) {
+      errors.push({ line, message: `expected 2 columns (recipient,amount), got ${fields.length}` });
+      return;
+    }
+    entries.push({ line, recipient: fields[0], amount: fields[1] });
+  });
+  const checked = checkRows(entries);
+  return { rows: checked.rows, errors: [...errors, ...checked.errors].sort((a, b) => a.line - b.line) };
+}
+
+/** Validate rows given as JSON (`[{ recipient, amount }]`), numbered from 1. */
+export function parseBatchEntries(entries: unknown): ParsedBatchRows {
+  if (!Array.isArray(entries)) {
+    return { rows: [], errors: [{ line: 0, message: 'rows must be an array of { recipient, amount }' }] };
+  }
+  return checkRows(
+    entries.map((e: any, i) => ({
+      line: i + 1,
+      recipient: typeof e?.recipient === 'string' ? e.recipient.trim() : '',
+      amount: typeof e?.amount === 'number' || typeof e?.amount === 'string' ? String(e.amount).trim() : '',
+    }))
+  );
+}
+
+function checkRows(entries: Array<{ line: number; recipient: string; amount: string }>): ParsedBatchRows {
+  const rows: BatchRow[] = [];
+  const errors: BatchRowError[] = [];
+  for (const e of entries) {
+    const kind = recipientKind(e.recipient);
+    if (!kind) {
+      errors.push({ line: e.line, message: `recipient must be a base58 address or identity key; got "${e.recipient}"` });
+      continue;
+    }
+    if (!AMOUNT_RE.test(e.amount) || BigInt(e.amount) <= 0n) {
+      errors.push({ line: e.line, message: `amount must be a positive integer (raw token units); got "${e.amount}"` });
+      continue;
+    }
+    rows.push({ line: e.line, recipient: e.recipient, kind, amount: BigInt(e.amount).toString() });
+  }
+  if (rows.length > MAX_BATCH_ROWS) {
+    errors.push({ line: rows[MAX_BATCH_ROWS].line, message: `batches are limited to ${MAX_BATCH_ROWS} rows` });
+  }
+  if (rows.length === 0 && errors.length === 0) {
+    errors.push({ line: 0, message: 'no rows' });
+  }
+  return { rows, errors };
+}
@@ -0,0 +1,217 @@
+/**
+ * Batch payout planning — how a list of rows becomes as few transactions as
+ * each protocol allows. Pure: the preview and the executor both run it.
+ *
+ * Address rows:
+ *   BSV-21       one tx spends every selected input and pays up to
+ *                `MAX_BSV21_RECIPIENTS_PER_TX` recipients plus token change;
+ *                a longer list continues from that change.
+ *   STAS / DSTAS the selected inputs are merged into one first (N-1 merge
+ *                txs), then split across outputs: each tx pays three rows and
+ *                returns change, or four when they use up what's left. The
+ *                next tx spends the previous one's change.
+ *
+ * Identity-key rows go over the peer channel, one send each from a single
+ * UTXO that covers the row — the peer adapters take one input. They draw on
+ * what the address rows leave behind, smallest fit first.
+ *
+ * Fees are estimates at `ESTIMATED_FEE_SAT_PER_KB` from typical sizes; the
+ * wallet funds each tx at its real size when it's built.
+ */
+
+import type { TokenProtocolId } from '../TokenProtocolAdapter';
+import { selectTokenInputs } from '../merge/selectTokenInputs';
+import type { BatchRow } from './batchRows';
+
+/** Token outputs per STAS / DSTAS tx, change included (the engines' split limit). */
+export const MAX_SPLIT_OUTPUTS = 4;
+
+/** Recipients per BSV-21 tx — keeps each tx a reasonable size to sign and relay. */
+export const MAX_BSV21_RECIPIENTS_PER_TX = 100;
+
+export const ESTIMATED_FEE_SAT_PER_KB = 100;
+
+/** Unlock size of a STAS / DSTAS token input (preimage + output segments). */
+const TOKEN_UNLOCK_BYTES = 4500;
+const P2PKH_INPUT_BYTES = 148;
+const P2PKH_OUTPUT_BYTES = 34;
+const TX_OVERHEAD_BYTES = 10;
+
+/** One token UTXO as the planner sees it. */
+export interface BatchUtxo {
+  outpoint: string;
+  amount: bigint;
+  /** Locking script length, for output sizes. */
+  scriptBytes: number;
+}
+
+export type BatchTxKind = 'merge' | 'send' | 'peer';
+
+export interface BatchTxPlan {
+  kind: BatchTxKind;
+  /** Lines of the rows this tx pays (empty for a merge). */
+  lines: number[];
+  tokenInputs: number;
+  /** Token change returned to the wallet, raw units. */
+  change: string;
+  estimatedFee: number;
+}
+
+export interface BatchRowPlan {
+  line: number;
+  recipient: string;
+  amount: string;
+  /** Index into `txs` of the tx that pays this row; absent when it can't be sent. */
+  tx?: number;
+  reason?: string;
+}
+
+export interface BatchPlan {
+  protocol: TokenProtocolId;
+  /** True when every row has a tx. */
+  ok: boolean;
+  rows: BatchRowPlan[];
+  txs: BatchTxPlan[];
+  /** Outpoints the address rows spend, in input order. */
+  inputs: string[];
+  /** Raw token units: spendable balance and the rows' sums. */
+  balance: string;
+  addressTotal: string;
+  peerTotal: string;
+  total: string;
+  /** Sum of the txs' fee estimates, in satoshis. */
+  estimatedFee: number;
+}
+
+export interface PlanBatchTransferArgs {
+  protocol: TokenProtocolId;
+  /** The token's spendable UTXOs. */
+  utxos: BatchUtxo[];
+  rows: BatchRow[];
+  /** Whether identity-key rows can be delivered (a peer-token client is available). */
+  peerAvailable: boolean;
+}
+
+export function planBatchTransfer(args: PlanBatchTransferArgs): BatchPlan {
+  const { protocol, utxos, rows } = args;
+  const isBsv21 = protocol === 'bsv-21';
+  const scriptBytes = utxos[0]?.scriptBytes ?? 0;
+  const txs: BatchTxPlan[] = [];
+  const planned = new Map<number, BatchRowPlan>(
+    rows.map((r) => [r.line, { line: r.line, recipient: r.recipient, amount: r.amount }])
+  );
+  const fail = (lines: number[], reason: string) => {
+    for (const line of lines) planned.get(line)!.reason = reason;
+  };
+  const addTx = (tx: Omit<BatchTxPlan, 'estimatedFee'>, outputs: number) => {
+    const index = txs.length;
+    txs.push({ ...tx, estimatedFee: estimateFee(isBsv21, tx.kind, tx.tokenInputs, outputs, scriptBytes) });
+    for (const line of tx.lines) planned.get(line)!.tx = index;
+  };
+
+  const addressRows = rows.filter((r) => r.kind === 'address');
+  const peerRows = rows.filter((r) => r.kind === 'identity');
+  const addressTotal = sum(addressRows);
+  const peerTotal = sum(peerRows);
+  const balance = utxos.reduce((s, u) => s + u.amount, 0n);
+
+  // Address rows: select inputs, then chain txs from the running change.
+  let remainingUtxos = [...utxos];
+  let inputs: string[] = [];
+  if (addressRows.length > 0) {
+    const selection = selectTokenInputs(utxos, addressTotal, (u) => u.amount);
+    if (!selection) {
+      fail(addressRows.map((r) => r.line), `address rows total ${addressTotal}, balance is ${balance}`);
+    } else {
+      inputs = selection.inputs.map((u) => u.outpoint);
+      remainingUtxos = utxos.filter((u) => !selection.inputs.includes(u));
+      let carried = selection.total;
+      let tokenInputs = selection.inputs.length;
+      if (!isBsv21) {
+        for (let i = 1; i < tokenInputs; i++) addTx({ kind: 'merge', lines: [], tokenInputs: 2, change: '0' }, 1);
+        tokenInputs = 1;
+      }
+      let queue = addressRows;
+      while (queue.length > 0) {
+        const chunk = isBsv21 ? queue.slice(0, MAX_BSV21_RECIPIENTS_PER_TX) : splitChunk(queue, carried);
+        const change = carried - sum(chunk);
+        addTx(
+          { kind: 'send', lines: chunk.map((r) => r.line), tokenInputs, change: change.toString() },
+          chunk.length + (change > 0n ? 1 : 0)
+        );
+        carried = change;
+        tokenInputs = 1;
+        queue = queue.slice(chunk.length);
+      }
+      if (carried > 0n) remainingUtxos.push({ outpoint: 'change', amount: carried, scriptBytes });
+    }
+  }
+
+  // Identity-key rows: one single-input send each.
+  for (const row of peerRows) {
+    if (!args.peerAvailable) {
+      fail([row.line], 'peer-token delivery is unavailable');
+      continue;
+    }
+    const amount = BigInt(row.amount);
+    const selection = selectTokenInputs(remainingUtxos, amount, (u) => u.amount);
+    if (!selection || selection.inputs.length > 1) {
+      fail([row.line], selection
+        ? `no single UTXO covers ${amount}; consolidate first`
+        : `not enough balance left for ${amount}`);
+      continue;
+    }
+    const [utxo] = selection.inputs;
+    const change = utxo.amount - amount;
+    remainingUtxos = remainingUtxos.filter((u) => u !== utxo);
+    if (change > 0n) remainingUtxos.push({ outpoint: 'change', amount: change, scriptBytes });
+    addTx({ kind: 'peer', lines: [row.line], tokenInputs: 1, change: change.toString() }, change > 0n ? 2 : 1);
+  }
+
+  const rowPlans = rows.map((r) => planned.get(r.line)!);
+  return {
+    protocol,
+    ok: rowPlans.every((r) => r.tx !== undefined),
+    rows: rowPlans,
+    txs,
+    inputs,
+    balance: balance.toString(),
+    addressTotal: addressTotal.toString(),
+    peerTotal: peerTotal.toString(),
+    total: (addressTotal + peerTotal).toString(),
+    estimatedFee: txs.reduce((s, t) => s + t.estimatedFee, 0),
+  };
+}
+
+/**
+ * The rows one STAS / DSTAS tx pays out of `carried`: four when they use it
+ * up exactly, otherwise three and a change output.
+ */
+function splitChunk(queue: BatchRow[], carried: bigint): BatchRow[] {
+  const full = queue.slice(0, MAX_SPLIT_OUTPUTS);
+  if (sum(full) === carried) return full;
+  return queue.slice(0, MAX_SPLIT_OUTPUTS - 1);
+}
+
+function sum(rows: BatchRow[]): bigint {
+  return rows.reduce((s, r) => s + BigInt(r.amount), 0n);
+}
+
+function estimateFee(
+  isBsv21: boolean,
+  kind: BatchTxKind,
+  tokenInputs: number,
+  tokenOutputs: number,
+  scriptBytes: number
+): number {
+  let unlock = isBsv21 ? P2PKH_INPUT_BYTES : 41 + TOKEN_UNLOCK_BYTES;
+  // Each merge input also carries the other input's parent tx.
+  if (kind === 'merge') unlock += TOKEN_UNLOCK_BYTES + 2 * (9 + scriptBytes) + P2PKH_OUTPUT_BYTES;
+  const bytes =
+    TX_OVERHEAD_BYTES +
+    tokenInputs * unlock +
+    P2PKH_INPUT_BYTES +
+    tokenOutputs * (9 + scriptBytes) +
+    P2PKH_OUTPUT_BYTES;
+  return Math.ceil((bytes * ESTIMATED_FEE_SAT_PER_KB) / 1000);
+}
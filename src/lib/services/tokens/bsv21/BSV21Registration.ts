@@ -23,6 +23,7 @@ import { BSV21_BASKET } from '../../../constants/baskets';
 import { BSV21_PROTOCOL_ID, BSV21_COUNTERPARTY } from './constants';
 import { buildChainedAtomicBeef } from '../../stas/buildChainedAtomicBeef';
 import { verifyAndPersistOnReceive } from '../verifyOnReceive';
+import { createWalletB2GVerifier } from '../spv/LocalBackToGenesisVerifier';
 
 const ORIGINATOR = 'admin.bsv21-discovery';
 
@@ -152,7 +153,12 @@ export class BSV21Registration {
     }
 
     // Verify provenance on receive (the BSV-21 discovery path). Fire-and-forget.
-    verifyAndPersistOnReceive(this.identityKey, this.chain, { txid, vout, protocol: 'bsv-21' });
+    verifyAndPersistOnReceive(
+      this.identityKey,
+      this.chain,
+      { txid, vout, protocol: 'bsv-21' },
+      createWalletB2GVerifier({ wallet: this.wallet, identityKey: this.identityKey, chain: this.chain })
+    );
 
     return { registered: true, txid, vout, outputId };
   }
@@ -5,9 +5,9 @@
  * standard P2PKH owner script — no engine, no custom sighash rules,
  * no payment segments. The transfer is:
  *
- *   in :  [ source BSV-21 UTXO (1 sat) ]   ← signed by BRC-42 owner key
+ *   in :  [ source BSV-21 UTXO(s) (1 sat) ] ← each signed by its BRC-42 owner key
  *         + wallet-funded BSV inputs       ← signed natively by wallet
- *   out:  [ recipient BSV-21 output (1 sat) ]
+ *   out:  [ recipient BSV-21 output(s) (1 sat each) ]
  *         [ optional token-change output (1 sat) ]
  *         [ wallet BSV change ]            ← added by createAction
  *
@@ -16,6 +16,12 @@
  * canonical `<sig> <pubkey>` pair — the ord envelope is dead code
  * (OP_FALSE OP_IF … OP_ENDIF) and never executes.
  *
+ * Nothing limits the number of token inputs, so a send larger than any one
+ * UTXO spends several (`additionalSources`), their `amt`s summed; and
+ * `consolidate` folds a token's UTXOs into one fresh self-owned output.
+ * Outputs are as unconstrained: `extraRecipients` pays several addresses in
+ * the one tx, ahead of the change.
+ *
  * Optional pre-flight origin verification can be enabled (default on)
  * — calls `OneSatIndexerClient.validateOutputs` and refuses to send if
  * the source outpoint isn't part of the token's overlay-validated DAG.
@@ -37,40 +43,54 @@ const ORIGINATOR = 'admin.bsv21-transfer';
 /** stas-js exports the SIGHASH ALL|FORKID byte we want for P2PKH sigs. */
 const SIGHASH_ALL_FORKID = 0x41; // SIGHASH_ALL (0x01) | SIGHASH_FORKID (0x40)
 
-export interface BSV21TransferArgs {
-  source: {
-    txid: string;
-    vout: number;
-    scriptHex: string;
-    satoshis: number;
-    brc42KeyId: string;
-    /** Token id this UTXO carries — `<txid>_<vout>` of the deploy+mint. */
-    tokenId: string;
-    /** Raw token amount the input holds. */
-    amt: string;
-    /** Decimals + symbol propagate to change tags for UI continuity. */
-    dec?: number;
-    sym?: string;
-    icon?: string;
-    /**
-     * Optional owner-key derivation override for signing the BSV-21 input.
-     * Defaults to the self-owned scheme (BSV21_PROTOCOL_ID, keyID
-     * `brc42KeyId`, counterparty 'self'). A token received over a peer
-     * channel (BRC-29) is owned under a derivation keyed to the SENDER, so
-     * re-spending it requires `keyID = "<prefix> <suffix>"` and
-     * `counterparty = senderIdentityKey`. Backward compatible.
-     */
-    owner?: {
-      protocolID?: [number, string];
-      keyID: string;
-      counterparty: string;
-      /** True for a BRC-29-received token: derive the recipient's OWN key. */
-      forSelf?: boolean;
-    };
+export interface BSV21SourceUtxo {
+  txid: string;
+  vout: number;
+  scriptHex: string;
+  satoshis: number;
+  brc42KeyId: string;
+  /** Token id this UTXO carries — `<txid>_<vout>` of the deploy+mint. */
+  tokenId: string;
+  /** Raw token amount the input holds. */
+  amt: string;
+  /** Decimals + symbol propagate to change tags for UI continuity. */
+  dec?: number;
+  sym?: string;
+  icon?: string;
+  /**
+   * Optional owner-key derivation override for signing the BSV-21 input.
+   * Defaults to the self-owned scheme (BSV21_PROTOCOL_ID, keyID
+   * `brc42KeyId`, counterparty 'self'). A token received over a peer
+   * channel (BRC-29) is owned under a derivation keyed to the SENDER, so
+   * re-spending it requires `keyID = "<prefix> <suffix>"` and
+   * `counterparty = senderIdentityKey`. Backward compatible.
+   */
+  owner?: {
+    protocolID?: [number, string];
+    keyID: string;
+    counterparty: string;
+    /** True for a BRC-29-received token: derive the recipient's OWN key. */
+    forSelf?: boolean;
   };
+}
+
+export interface BSV21TransferArgs {
+  source: BSV21SourceUtxo;
+  /**
+   * Further UTXOs of the same token spent alongside `source`; the amount to
+   * send may then be up to the sum of all their `amt`s.
+   */
+  additionalSources?: BSV21SourceUtxo[];
   /** Amount of tokens (raw integer units) to send. */
   amount: string;
   recipientAddress: string;
+  /** Further recipients paid in the same tx, after `recipientAddress`. */
+  extraRecipients?: Array<{ recipientAddress: string; amount: string }>;
+}
+
+export interface BSV21ConsolidateArgs {
+  /** Two or more UTXOs of one token. */
+  sources: BSV21SourceUtxo[];
 }
 
 export interface BSV21TransferResult {
@@ -81,6 +101,16 @@ export interface BSV21TransferResult {
   beef?: number[];
 }
 
+export interface BSV21SendResult extends BSV21TransferResult {
+  /** The token-change output, when one was made — a caller can chain from it. */
+  change?: BSV21SourceUtxo;
+}
+
+export interface BSV21ConsolidateResult extends BSV21TransferResult {
+  /** The consolidated output (vout 0), on success. */
+  merged?: BSV21SourceUtxo;
+}
+
 export interface BSV21TransferDeps {
   wallet: WalletInterface;
   identityKey: string;
@@ -108,78 +138,117 @@ function errMsg(err: unknown): string {
   return err instanceof Error ? err.message : String(err);
 }
 
+/** Underscore form of a token id — see the note at step 4 of `transfer`. */
+function canonicalId(tokenId: string): string {
+  return tokenId.replace('.', '_');
+}
+
+/** Sum of the sources' `amt`s; throws on a non-integer or negative amount. */
+function sumAmt(sources: BSV21SourceUtxo[]): bigint {
+  let total = 0n;
+  for (const s of sources) {
+    const amt = BigInt(s.amt);
+    if (amt < 0n) throw new Error(`negative amt on ${s.txid}.${s.vout}`);
+    total += amt;
+  }
+  return total;
+}
+
+/** Failure reason when the sources don't all carry one token, else null. */
+function checkSameToken(sources: BSV21SourceUtxo[]): string | null {
+  const tokenId = canonicalId(sources[0].tokenId);
+  const other = sources.find((s) => canonicalId(s.tokenId) !== tokenId);
+  return other ? `${other.txid}.${other.vout} carries ${other.tokenId}, not ${tokenId}` : null;
+}
+
+/**
+ * A BSV-21 output back to a wallet-derived key, declared in our basket.
+ *
+ * Without `basket` + `customInstructions` + `tags`, createAction creates
+ * the on-chain output but leaves `outputs.basketId = NULL` in the SQL row,
+ * which means the user permanently loses sight of those tokens — the
+ * AssetsPage basket query never returns them. The shape mirrors
+ * `BSV21Registration.register()`'s internalize call so
+ * listOutputs(bsv-21-tokens) returns identical row metadata for
+ * organic-discovery and self-change paths.
+ */
+function selfOutput(
+  template: BSV21SourceUtxo,
+  amt: bigint,
+  ownerHash160Hex: string,
+  keyId: string,
+  outputDescription: string
+): { lockingScript: string; satoshis: number; outputDescription: string; basket: string; customInstructions: string; tags: string[] } {
+  const tokenId = canonicalId(template.tokenId);
+  const lockingScript = buildBsv21Transfer({
+    payload: {
+      id: tokenId,
+      amt: amt.toString(),
+      dec: template.dec,
+      sym: template.sym,
+      icon: template.icon,
+    },
+    ownerHash160: ownerHash160Hex,
+  });
+  // Owner address for the customInstructions.
+  let ownerAddress: string;
+  try {
+    ownerAddress = new (Address as any)(fromHex(ownerHash160Hex)).Value as string;
+  } catch {
+    ownerAddress = '';
+  }
+  const tags: string[] = ['bsv21', `id:${tokenId}`, `amt:${amt.toString()}`];
+  if (template.dec !== undefined) tags.push(`dec:${template.dec}`);
+  if (template.sym) tags.push(`sym:${template.sym}`);
+  if (template.icon) tags.push(`icon:${template.icon}`);
+  return {
+    lockingScript,
+    satoshis: 1,
+    outputDescription,
+    basket: BSV21_BASKET,
+    customInstructions: JSON.stringify({
+      kind: 'bsv-21',
+      protocolID: BSV21_PROTOCOL_ID,
+      keyID: keyId,
+      counterparty: BSV21_COUNTERPARTY,
+      tokenId,
+      ownerAddress,
+    }),
+    tags,
+  };
+}
+
 export class BSV21TransferService {
   constructor(private readonly deps: BSV21TransferDeps) {}
 
-  async transfer(args: BSV21TransferArgs): Promise<BSV21TransferResult> {
-    const { source, amount, recipientAddress } = args;
-    const { wallet, deriver, indexer } = this.deps;
-    const originVerify = this.deps.originVerify ?? true;
+  async transfer(args: BSV21TransferArgs): Promise<BSV21SendResult> {
+    const { amount, recipientAddress } = args;
+    const sources = [args.source, ...(args.additionalSources ?? [])];
+    const recipients = [{ recipientAddress, amount }, ...(args.extraRecipients ?? [])];
+    const { deriver } = this.deps;
 
     // 1. Validate amounts up front. BSV-21 amounts are bigint strings.
-    let sendAmt: bigint;
+    let sendAmts: bigint[];
     let inAmt: bigint;
+    let outAmt = 0n;
     try {
-      sendAmt = BigInt(amount);
-      inAmt = BigInt(source.amt);
-      if (sendAmt <= 0n) throw new Error('amount must be > 0');
-      if (sendAmt > inAmt) throw new Error(`amount ${sendAmt} exceeds input ${inAmt}`);
+      sendAmts = recipients.map((r) => BigInt(r.amount));
+      inAmt = sumAmt(sources);
+      for (const amt of sendAmts) {
+        if (amt <= 0n) throw new Error('amount must be > 0');
+        outAmt += amt;
+      }
+      if (outAmt > inAmt) throw new Error(`amount ${outAmt} exceeds input ${inAmt}`);
     } catch (err) {
       return { ok: false, reason: `amount validation: ${errMsg(err)}` };
     }
-    const changeAmt = inAmt - sendAmt;
+    const changeAmt = inAmt - outAmt;
 
-    // 2. Optional origin verification — fail closed where we can,
-    //    short-circuit where we can't.
-    //
-    //    Three branches:
-    //    a) Source IS the deploy+mint output itself (first transfer from
-    //       the root). It's canonical by construction — no validation
-    //       needed. Token id encodes the deploy outpoint as `<txid>_<vout>`.
-    //    b) Overlay returns `null` for the validate-outputs call. This
-    //       happens when the per-token topic-manager (`tm_{tokenId}`)
-    //       isn't active (1sat-stack fee-gate). We can't verify, but
-    //       can't fail closed either — log a warning and proceed.
-    //    c) Overlay returns an array. Standard path — outpoint must be
-    //       in the validated set or we refuse.
-    const sourceOutpointUnderscored = OneSatIndexerClient.dotToUnderscore(
-      `${source.txid}.${source.vout}`
-    );
-    const isDeployRoot = sourceOutpointUnderscored === source.tokenId;
-    if (originVerify && !isDeployRoot) {
-      let valid: Set<string> | null;
-      try {
-        valid = await indexer.validateOutputs(source.tokenId, [
-          sourceOutpointUnderscored,
-        ]);
-      } catch (err) {
-        return { ok: false, reason: `origin overlay unreachable: ${errMsg(err)}` };
-      }
-      if (valid === null) {
-        // Per-token validation unavailable. Most common cause: token's
-        // per-token worker isn't active yet (overlay returns 200 + null
-        // body). Log and proceed — the recipient's wallet still trusts
-        // the inscription bytes for ownership; the worst case is they
-        // can't see a token-scoped balance until activation.
-        tokenLog.warn(
-          `[bsv-21 transfer] origin validate unavailable for ${source.tokenId} — proceeding without ancestry check`
-        );
-      } else if (!valid.has(sourceOutpointUnderscored)) {
-        // Fail-open (not fail-closed): the overlay returned a validated set
-        // that omits our outpoint. This is common for self-broadcast transfers
-        // and tokens whose per-token worker lagged or rejected the submit — it
-        // does NOT mean the token is counterfeit. Blocking here would refuse a
-        // legitimate send of a UTXO we hold. Two facts make the overlay's set
-        // non-authoritative now:
-        //   • discovery migrated to WOC, whose BSV-21 indexer runs its OWN
-        //     origin validation on the receive side (the real gate), and
-        //   • the broadcast goes through wallet-toolbox/ARC, not the overlay.
-        // So warn and proceed; the recipient's indexer decides admissibility.
-        tokenLog.warn(
-          `[bsv-21 transfer] origin outpoint ${sourceOutpointUnderscored} not in overlay validated set for ${source.tokenId} — proceeding (WOC indexer is the receive-side gate)`
-        );
-      }
-    }
+    const sameToken = checkSameToken(sources);
+    if (sameToken) return { ok: false, reason: sameToken };
+
+    const origin = await this.verifyOrigins(sources);
+    if (origin) return { ok: false, reason: origin };
 
     // 3. Resolve recipient + (optional) change hash160s. Addresses come in
     //    base58 — bsv-js's Address gives us the hash buffer.
@@ -189,11 +258,13 @@ export class BSV21TransferService {
     } catch (err) {
       return { ok: false, reason: `load bsv-js: ${errMsg(err)}` };
     }
-    let recipientHash160Hex: string;
-    try {
-      recipientHash160Hex = bsv.Address.fromString(recipientAddress).hashBuffer.toString('hex');
-    } catch (err) {
-      return { ok: false, reason: `invalid recipient: ${errMsg(err)}` };
+    const recipientHash160Hexes: string[] = [];
+    for (const r of recipients) {
+      try {
+        recipientHash160Hexes.push(bsv.Address.fromString(r.recipientAddress).hashBuffer.toString('hex'));
+      } catch (err) {
+        return { ok: false, reason: `invalid recipient ${r.recipientAddress}: ${errMsg(err)}` };
+      }
     }
 
     let changeHash160Hex: string | undefined;
@@ -208,7 +279,7 @@ export class BSV21TransferService {
       }
     }
 
-    // 4. Build the two BSV-21 outputs. Both are 1 sat.
+    // 4. Build the BSV-21 outputs. All are 1 sat.
     //
     // Normalize tokenId to underscore form per BSV-21 spec. Historical
     // registration paths in this wallet sometimes wrote the dot form (the
@@ -216,109 +287,217 @@ export class BSV21TransferService {
     // field MUST be `txid_vout` or the topic-manager rejects the transfer.
     // Normalising at the boundary makes the on-chain bytes correct
     // regardless of how the source was stored.
-    const canonicalTokenId = source.tokenId.replace('.', '_');
-    const destScriptHex = buildBsv21Transfer({
-      payload: {
-        id: canonicalTokenId,
-        amt: sendAmt.toString(),
-        dec: source.dec,
-        sym: source.sym,
-        icon: source.icon,
-      },
-      ownerHash160: recipientHash160Hex,
-    });
-    let changeScriptHex: string | undefined;
-    if (changeAmt > 0n && changeHash160Hex) {
-      changeScriptHex = buildBsv21Transfer({
+    const { source } = args;
+    const canonicalTokenId = canonicalId(source.tokenId);
+    // The recipient outputs stay external — wallet-toolbox should NOT add
+    // them to any basket. The token-change output goes back to a
+    // wallet-derived BSV-21 address, so it is declared in our basket (see
+    // `selfOutput`).
+    const outputs: any[] = recipientHash160Hexes.map((ownerHash160, i) => ({
+      lockingScript: buildBsv21Transfer({
         payload: {
           id: canonicalTokenId,
-          amt: changeAmt.toString(),
+          amt: sendAmts[i].toString(),
           dec: source.dec,
           sym: source.sym,
           icon: source.icon,
         },
-        ownerHash160: changeHash160Hex,
-      });
+        ownerHash160,
+      }),
+      satoshis: 1,
+      outputDescription: 'BSV-21 to recipient',
+    }));
+    const changeVout = outputs.length;
+    let changeOutput: ReturnType<typeof selfOutput> | undefined;
+    if (changeAmt > 0n && changeHash160Hex && changeKeyId) {
+      changeOutput = selfOutput(source, changeAmt, changeHash160Hex, changeKeyId, 'BSV-21 token change');
+      outputs.push(changeOutput);
     }
 
-    // 5. Build the inputBEEF that lets internalize/createAction verify the
-    //    spent output. Same chained walkback STAS uses.
-    let inputBEEF: number[];
+    const res = await this.spend(sources, outputs, 'BSV-21 transfer', bsv);
+    if (!res.ok || !res.txid || !changeOutput || !changeKeyId) return res;
+    return {
+      ...res,
+      change: {
+        txid: res.txid,
+        vout: changeVout,
+        scriptHex: changeOutput.lockingScript,
+        satoshis: 1,
+        brc42KeyId: changeKeyId,
+        tokenId: canonicalTokenId,
+        amt: changeAmt.toString(),
+        dec: source.dec,
+        sym: source.sym,
+        icon: source.icon,
+      },
+    };
+  }
+
+  /**
+   * Fold several UTXOs of one token into a single output at a fresh
+   * self-owned key — the BSV-21 side of the adapter's `merge`. One tx, since
+   * BSV-21 puts no limit on token inputs.
+   */
+  async consolidate(args: BSV21ConsolidateArgs): Promise<BSV21ConsolidateResult> {
+    const { sources } = args;
+    if (sources.length < 2) return { ok: false, reason: 'consolidate needs at least two UTXOs' };
+
+    let total: bigint;
     try {
-      const built = await buildChainedAtomicBeef({ wallet, txid: source.txid });
-      inputBEEF = built.beef;
+      total = sumAmt(sources);
     } catch (err) {
-      return { ok: false, reason: `inputBEEF: ${errMsg(err)}` };
+      return { ok: false, reason: `amount validation: ${errMsg(err)}` };
     }
+    const sameToken = checkSameToken(sources);
+    if (sameToken) return { ok: false, reason: sameToken };
 
-    // 6. createAction. The wallet auto-funds BSV and adds standard change.
-    //
-    // The recipient output stays external — wallet-toolbox should NOT add
-    // it to any basket. The token-change output, by contrast, goes back to
-    // a wallet-derived BSV-21 address (see step 3 — `changeHash160Hex`
-    // comes from `deriver.createNextReceiveContext()`), so we declare its
-    // `basket` + `customInstructions` + `tags` here. Without these,
-    // createAction creates the on-chain output but leaves
-    // `outputs.basketId = NULL` in the SQL row, which means the user
-    // permanently loses sight of their change tokens — the AssetsPage
-    // basket query never returns them.
-    //
-    // The shape mirrors `BSV21Registration.register()`'s internalize call
-    // so listOutputs(bsv-21-tokens) returns identical row metadata for
-    // organic-discovery and self-change paths.
-    const outputs: any[] = [
-      {
-        lockingScript: destScriptHex,
+    const origin = await this.verifyOrigins(sources);
+    if (origin) return { ok: false, reason: origin };
+
+    let bsv: any;
+    try {
+      ({ bsv } = await loadBsvJs());
+    } catch (err) {
+      return { ok: false, reason: `load bsv-js: ${errMsg(err)}` };
+    }
+
+    let ownerHash160Hex: string;
+    let keyId: string;
+    try {
+      const ctx = await this.deps.deriver.createNextReceiveContext();
+      ownerHash160Hex = ctx.ownerFieldHash160;
+      keyId = ctx.keyId;
+    } catch (err) {
+      return { ok: false, reason: `derive consolidation key: ${errMsg(err)}` };
+    }
+
+    const [first] = sources;
+    const output = selfOutput(first, total, ownerHash160Hex, keyId, 'BSV-21 consolidated');
+    const res = await this.spend(sources, [output], 'BSV-21 consolidate', bsv);
+    if (!res.ok || !res.txid) return res;
+    return {
+      ...res,
+      merged: {
+        txid: res.txid,
+        vout: 0,
+        scriptHex: output.lockingScript,
         satoshis: 1,
-        outputDescription: 'BSV-21 to recipient',
+        brc42KeyId: keyId,
+        tokenId: canonicalId(first.tokenId),
+        amt: total.toString(),
+        dec: first.dec,
+        sym: first.sym,
+        icon: first.icon,
       },
-    ];
-    if (changeScriptHex && changeHash160Hex && changeKeyId) {
-      // Owner address for the customInstructions.
-      let changeOwnerAddress: string;
-      try {
-        changeOwnerAddress = new (Address as any)(fromHex(changeHash160Hex)).Value as string;
-      } catch {
-        changeOwnerAddress = '';
+    };
+  }
+
+  /**
+   * 2. Optional origin verification — fail closed where we can,
+   *    short-circuit where we can't. Returns a failure reason, or null to
+   *    proceed.
+   *
+   *    Three branches:
+   *    a) Source IS the deploy+mint output itself (first transfer from
+   *       the root). It's canonical by construction — no validation
+   *       needed. Token id encodes the deploy outpoint as `<txid>_<vout>`.
+   *    b) Overlay returns `null` for the validate-outputs call. This
+   *       happens when the per-token topic-manager (`tm_{tokenId}`)
+   *       isn't active (1sat-stack fee-gate). We can't verify, but
+   *       can't fail closed either — log a warning and proceed.
+   *    c) Overlay returns an array. Standard path — outpoint must be
+   *       in the validated set or we refuse.
+   */
+  private async verifyOrigins(sources: BSV21SourceUtxo[]): Promise<string | null> {
+    if (!(this.deps.originVerify ?? true)) return null;
+    const { tokenId } = sources[0];
+    const outpoints = sources
+      .map((s) => OneSatIndexerClient.dotToUnderscore(`${s.txid}.${s.vout}`))
+      .filter((o) => o !== tokenId);
+    if (outpoints.length === 0) return null;
+
+    let valid: Set<string> | null;
+    try {
+      valid = await this.deps.indexer.validateOutputs(tokenId, outpoints);
+    } catch (err) {
+      return `origin overlay unreachable: ${errMsg(err)}`;
+    }
+    if (valid === null) {
+      // Per-token validation unavailable. Most common cause: token's
+      // per-token worker isn't active yet (overlay returns 200 + null
+      // body). Log and proceed — the recipient's wallet still trusts
+      // the inscription bytes for ownership; the worst case is they
+      // can't see a token-scoped balance until activation.
+      tokenLog.warn(
+        `[bsv-21 transfer] origin validate unavailable for ${tokenId} — proceeding without ancestry check`
+      );
+      return null;
+    }
+    for (const outpoint of outpoints) {
+      if (!valid.has(outpoint)) {
+        // Fail-open (not fail-closed): the overlay returned a validated set
+        // that omits our outpoint. This is common for self-broadcast transfers
+        // and tokens whose per-token worker lagged or rejected the submit — it
+        // does NOT mean the token is counterfeit. Blocking here would refuse a
+        // legitimate send of a UTXO we hold. Two facts make the overlay's set
+        // non-authoritative now:
+        //   • discovery migrated to WOC, whose BSV-21 indexer runs its OWN
+        //     origin validation on the receive side (the real gate), and
+        //   • the broadcast goes through wallet-toolbox/ARC, not the overlay.
+        // So warn and proceed; the recipient's indexer decides admissibility.
+        tokenLog.warn(
+          `[bsv-21 transfer] origin outpoint ${outpoint} not in overlay validated set for ${tokenId} — proceeding (WOC indexer is the receive-side gate)`
+        );
       }
-      const changeCustomInstructions = JSON.stringify({
-        kind: 'bsv-21',
-        protocolID: BSV21_PROTOCOL_ID,
-        keyID: changeKeyId,
-        counterparty: BSV21_COUNTERPARTY,
-        tokenId: canonicalTokenId,
-        ownerAddress: changeOwnerAddress,
-      });
-      const changeTags: string[] = ['bsv21', `id:${canonicalTokenId}`, `amt:${changeAmt.toString()}`];
-      if (source.dec !== undefined) changeTags.push(`dec:${source.dec}`);
-      if (source.sym) changeTags.push(`sym:${source.sym}`);
-      if (source.icon) changeTags.push(`icon:${source.icon}`);
+    }
+    return null;
+  }
 
-      outputs.push({
-        lockingScript: changeScriptHex,
-        satoshis: 1,
-        outputDescription: 'BSV-21 token change',
-        basket: BSV21_BASKET,
-        customInstructions: changeCustomInstructions,
-        tags: changeTags,
-      });
+  /**
+   * Steps 5–11: spend `sources` (token inputs 0..n-1, in order) into
+   * `outputs`, sign each token input with its own owner key, broadcast, and
+   * submit to the overlay.
+   */
+  private async spend(
+    sources: BSV21SourceUtxo[],
+    outputs: any[],
+    description: string,
+    bsv: any
+  ): Promise<BSV21TransferResult> {
+    const { wallet } = this.deps;
+
+    // 5. Build the inputBEEF that lets internalize/createAction verify the
+    //    spent outputs. Same chained walkback STAS uses, once per parent tx.
+    let inputBEEF: number[];
+    try {
+      const txids = [...new Set(sources.map((s) => s.txid))];
+      if (txids.length === 1) {
+        inputBEEF = (await buildChainedAtomicBeef({ wallet, txid: txids[0] })).beef;
+      } else {
+        const merged = new Beef();
+        for (const txid of txids) {
+          merged.mergeBeef((await buildChainedAtomicBeef({ wallet, txid })).beef);
+        }
+        inputBEEF = merged.toBinary();
+      }
+    } catch (err) {
+      return { ok: false, reason: `inputBEEF: ${errMsg(err)}` };
     }
 
+    // 6. createAction. The wallet auto-funds BSV and adds standard change.
     let createRes: any;
     try {
       createRes = await wallet.createAction(
         {
           labels: ['peertoken'],
           inputBEEF,
-          inputs: [
-            {
-              outpoint: `${source.txid}.${source.vout}`,
-              unlockingScriptLength: 108, // standard P2PKH unlock: ~73 sig + 33 pubkey + push opcodes
-              inputDescription: 'BSV-21 token input',
-            },
-          ],
+          inputs: sources.map((s) => ({
+            outpoint: `${s.txid}.${s.vout}`,
+            unlockingScriptLength: 108, // standard P2PKH unlock: ~73 sig + 33 pubkey + push opcodes
+            inputDescription: 'BSV-21 token input',
+          })),
           outputs,
-          description: 'BSV-21 transfer',
+          description,
           options: { randomizeOutputs: false },
         } as any,
         ORIGINATOR
@@ -343,70 +522,76 @@ export class BSV21TransferService {
       if (!btx?.tx) return { ok: false, reason: `signable BEEF missing atomic tx ${atomicTxid}` };
       const rawTxBytes = btx.tx.toBinary();
       tx = new bsv.Transaction(Buffer.from(rawTxBytes).toString('hex'));
-      tx.inputs[0].output = new bsv.Transaction.Output({
-        script: bsv.Script.fromHex(source.scriptHex),
-        satoshis: source.satoshis,
+      sources.forEach((s, i) => {
+        tx.inputs[i].output = new bsv.Transaction.Output({
+          script: bsv.Script.fromHex(s.scriptHex),
+          satoshis: s.satoshis,
+        });
       });
     } catch (err) {
       return { ok: false, reason: `parse signable tx: ${errMsg(err)}` };
     }
 
-    // 8. Compute the P2PKH sighash for input 0 over the full source script.
-    //    The ord envelope at the head is dead code on eval but participates
-    //    in the sighash subject (BSV sighash hashes whole locking script).
-    let sigHex: string;
-    let ownerPubKeyHex: string;
-    // Effective owner-key derivation. Defaults to the self-owned scheme; a
-    // BRC-29 peer-received token overrides keyID + counterparty so it stays
-    // spendable.
-    const ownerDerivation = {
-      protocolID: (source.owner?.protocolID ?? BSV21_PROTOCOL_ID) as any,
-      keyID: source.owner?.keyID ?? source.brc42KeyId,
-      counterparty: (source.owner?.counterparty ?? BSV21_COUNTERPARTY) as any,
-      forSelf: source.owner?.forSelf === true,
-    };
-    try {
-      const sourceLocking = bsv.Script.fromHex(source.scriptHex);
-      const satsBN = new bsv.crypto.BN(source.satoshis);
-      const preimage = bsv.Transaction.sighash.sighashPreimage(
-        tx, SIGHASH_ALL_FORKID, 0, sourceLocking, satsBN
-      );
-      const digestBuf = bsv.crypto.Hash.sha256sha256(preimage);
-      const digestBytes = Array.from(digestBuf as Buffer) as number[];
+    // 8. Compute the P2PKH sighash for each token input over its full source
+    //    script. The ord envelope at the head is dead code on eval but
+    //    participates in the sighash subject (BSV sighash hashes whole
+    //    locking script).
+    // 9. Standard P2PKH unlocking script: <sig> <pubkey>.
+    const spends: Record<number, { unlockingScript: string }> = {};
+    for (let i = 0; i < sources.length; i++) {
+      const source = sources[i];
+      // Effective owner-key derivation. Defaults to the self-owned scheme; a
+      // BRC-29 peer-received token overrides keyID + counterparty so it stays
+      // spendable.
+      const ownerDerivation = {
+        protocolID: (source.owner?.protocolID ?? BSV21_PROTOCOL_ID) as any,
+        keyID: source.owner?.keyID ?? source.brc42KeyId,
+        counterparty: (source.owner?.counterparty ?? BSV21_COUNTERPARTY) as any,
+        forSelf: source.owner?.forSelf === true,
+      };
+      let sigHex: string;
+      let ownerPubKeyHex: string;
+      try {
+        const sourceLocking = bsv.Script.fromHex(source.scriptHex);
+        const satsBN = new bsv.crypto.BN(source.satoshis);
+        const preimage = bsv.Transaction.sighash.sighashPreimage(
+          tx, SIGHASH_ALL_FORKID, i, sourceLocking, satsBN
+        );
+        const digestBuf = bsv.crypto.Hash.sha256sha256(preimage);
+        const digestBytes = Array.from(digestBuf as Buffer) as number[];
 
-      const sigRes = await wallet.createSignature(
-        {
-          protocolID: ownerDerivation.protocolID,
-          keyID: ownerDerivation.keyID,
-          counterparty: ownerDerivation.counterparty,
-          hashToDirectlySign: digestBytes,
-        } as any,
-        ORIGINATOR
-      );
-      sigHex = toHex(sigRes.signature) + SIGHASH_ALL_FORKID.toString(16).padStart(2, '0');
+        const sigRes = await wallet.createSignature(
+          {
+            protocolID: ownerDerivation.protocolID,
+            keyID: ownerDerivation.keyID,
+            counterparty: ownerDerivation.counterparty,
+            hashToDirectlySign: digestBytes,
+          } as any,
+          ORIGINATOR
+        );
+        sigHex = toHex(sigRes.signature) + SIGHASH_ALL_FORKID.toString(16).padStart(2, '0');
 
-      // Derive the matching pubkey for the unlocking script.
-      const { publicKey } = await wallet.getPublicKey(
-        {
-          protocolID: ownerDerivation.protocolID,
-          keyID: ownerDerivation.keyID,
-          counterparty: ownerDerivation.counterparty,
-          forSelf: ownerDerivation.forSelf,
-        } as any,
-        ORIGINATOR
-      );
-      ownerPubKeyHex = publicKey;
-    } catch (err) {
-      return { ok: false, reason: `sighash/sign: ${errMsg(err)}` };
-    }
+        // Derive the matching pubkey for the unlocking script.
+        const { publicKey } = await wallet.getPublicKey(
+          {
+            protocolID: ownerDerivation.protocolID,
+            keyID: ownerDerivation.keyID,
+            counterparty: ownerDerivation.counterparty,
+            forSelf: ownerDerivation.forSelf,
+          } as any,
+          ORIGINATOR
+        );
+        ownerPubKeyHex = publicKey;
+      } catch (err) {
+        return { ok: false, reason: `sighash/sign input ${i}: ${errMsg(err)}` };
+      }
 
-    // 9. Standard P2PKH unlocking script: <sig> <pubkey>.
-    let unlockingScriptHex: string;
-    try {
-      const asm = `${sigHex} ${ownerPubKeyHex}`;
-      unlockingScriptHex = bsv.Script.fromASM(asm).toHex();
-    } catch (err) {
-      return { ok: false, reason: `unlocking script assembly: ${errMsg(err)}` };
+      try {
+        const asm = `${sigHex} ${ownerPubKeyHex}`;
+        spends[i] = { unlockingScript: bsv.Script.fromASM(asm).toHex() };
+      } catch (err) {
+        return { ok: false, reason: `unlocking script assembly: ${errMsg(err)}` };
+      }
     }
 
     // 10. signAction — the wallet queues + monitor worker handles broadcast.
@@ -415,7 +600,7 @@ export class BSV21TransferService {
       signResp = await wallet.signAction(
         {
           reference: signable.reference,
-          spends: { 0: { unlockingScript: unlockingScriptHex } },
+          spends,
         } as any,
         ORIGINATOR
       );
@@ -433,7 +618,6 @@ export class BSV21TransferService {
         reason: `broadcast failed: ${JSON.stringify(failed)} (txid was ${signResp?.txid})`,
       };
     }
-
     // 11. Indexer-coupling step: submit the AtomicBEEF to the overlay's
     //     `/1sat/bsv21/overlay/submit` endpoint with the per-token topic
     //     (`tm_<tokenId>`) so the BSV-21 topic-manager admits the transfer
@@ -455,7 +639,7 @@ export class BSV21TransferService {
       const signedBeef: number[] | undefined = signResp?.tx;
       if (signedBeef && signedBeef.length > 0) {
         const submit = await this.deps.indexer.submitTransaction(signedBeef, {
-          tokenId: source.tokenId,
+          tokenId: sources[0].tokenId,
         });
         if (submit.ok) {
           tokenLog.debug(`[bsv-21 transfer] overlay submit ✓ ${submit.body.slice(0, 200)}`);
@@ -1,9 +1,9 @@
 /**
  * OneSatIndexerClient — REST client for the 1Sat overlay API.
  *
- * Discovers BSV-21 UTXOs at wallet-owned addresses, fetches token
- * metadata, and optionally validates that outpoints trace back to the
- * canonical deploy (origin-verification before send).
+ * Discovers BSV-21 UTXOs and 1Sat Ordinals at wallet-owned addresses,
+ * fetches token metadata, and optionally validates that outpoints trace back
+ * to the canonical deploy (origin-verification before send).
  *
  * Endpoint patterns mirror @1sat/wallet-toolbox's `Bsv21Client` /
  * `OwnerClient` / `OverlayClient` so future protocol changes show up on
@@ -51,6 +51,24 @@ export interface IndexedOutput {
   height?: number;
   /** Event / tag list assigned by the indexer (e.g. ["bsv21"]). */
   events?: string[];
+  /** Ordinals: outpoint (`txid_vout`) the satoshi was inscribed at. */
+  origin?: string;
+  /** Ordinals: the origin inscription's content type. */
+  contentType?: string;
+}
+
+/** A row of `/1sat/owner/{address}/txos` (the subset we consume). */
+interface OwnerTxo {
+  outpoint?: string;
+  satoshis?: number;
+  height?: number;
+  owners?: string[];
+  events?: string[];
+  data?: {
+    bsv21?: { id?: string; amt?: string | number; dec?: string | number; sym?: string; icon?: string };
+    insc?: { file?: { type?: string } };
+    origin?: { outpoint?: string; data?: { insc?: { file?: { type?: string } } } };
+  };
 }
 
 export interface TokenDetailResponse {
@@ -136,6 +154,39 @@ export class OneSatIndexerClient {
     return (await r.json()) as IndexedOutput[];
   }
 
+  /**
+   * GET /1sat/owner/{address}/txos?unspent=true — every unspent output the
+   * overlay has indexed at `address`, whatever it carries: BSV-21 balances,
+   * ordinals (with their `origin`), plain sats. Callers filter. Fail-soft:
+   * a non-OK response is `[]`.
+   */
+  async getOwnedTxos(address: string): Promise<IndexedOutput[]> {
+    const r = await fetch(`${this.baseUrl}/1sat/owner/${encodeURIComponent(address)}/txos?unspent=true`);
+    if (!r.ok) return [];
+    const rows = (await r.json()) as OwnerTxo[] | null;
+    if (!Array.isArray(rows)) return [];
+    return rows
+      .filter((t) => typeof t?.outpoint === 'string')
+      .map((t) => {
+        const bsv21 = t.data?.bsv21;
+        const origin = t.data?.origin;
+        const dec = bsv21?.dec !== undefined ? Number(bsv21.dec) : undefined;
+        return {
+          outpoint: t.outpoint!,
+          id: bsv21?.id,
+          amt: bsv21?.amt !== undefined ? String(bsv21.amt) : undefined,
+          dec: Number.isFinite(dec as number) ? dec : undefined,
+          sym: bsv21?.sym,
+          icon: bsv21?.icon,
+          owner: t.owners?.[0] ?? address,
+          satoshis: t.satoshis,
+          height: t.height,
+          events: t.events ?? [],
+          origin: origin?.outpoint,
+          contentType: origin?.data?.insc?.file?.type ?? t.data?.insc?.file?.type,
+        };
+      });
+  }
 
   /**
    * POST /1sat/bsv21/{id}/outputs?unspent=true — origin-validate a batch
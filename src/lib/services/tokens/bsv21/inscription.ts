@@ -13,7 +13,8 @@
  *   76 a9 14 <20-byte pkh> 88 ac
  *                              P2PKH owner lock
  *
- * JSON payload shape (transfer):  {"p":"bsv-20","op":"transfer","id":"<txid_vout>","amt":"<int>"}
+ * JSON payload shape (transfer):    {"p":"bsv-20","op":"transfer","id":"<txid_vout>","amt":"<int>"}
+ * JSON payload shape (deploy+mint): {"p":"bsv-20","op":"deploy+mint","sym":"<ticker>","amt":"<int>"}
  * Field order is fixed by our builder so the produced bytes are reproducible,
  * but the parser accepts any order — the wire format is JSON, not byte-significant.
  *
@@ -25,6 +26,9 @@
  * would index our outputs. Verified empirically 2026-05-28 against
  * `$NINJAPUNKGIRLS` and other indexed tokens; they all use OP_1.
  *
+ * The envelope itself is read by `parseOrdEnvelope`, which knows nothing of
+ * BSV-20 — the ordinals adapter parses arbitrary inscriptions with it.
+ *
  * No dependency on @bopen-io/templates; this module talks bytes directly.
  */
 
@@ -60,6 +64,23 @@ export interface Bsv21BuildArgs {
   ownerHash160: string;
 }
 
+export interface Bsv21DeployMintPayload {
+  /** Symbol / ticker — required on a deploy. */
+  sym: string;
+  /** Total supply, stringified bigint (raw integer units). */
+  amt: string;
+  /** Decimals, 0..18. */
+  dec?: number;
+  /** Optional icon outpoint / URL. */
+  icon?: string;
+}
+
+export interface Bsv21DeployMintArgs {
+  payload: Bsv21DeployMintPayload;
+  /** P2PKH owner of the minted supply — hash160 hex (40 chars). */
+  ownerHash160: string;
+}
+
 export interface ParsedBsv21Output extends Bsv21TransferPayload {
   /** 20-byte owner field (PKH), hex — the trailing P2PKH owner. */
   ownerHash160: string;
@@ -130,6 +151,41 @@ export function buildBsv21Transfer(args: Bsv21BuildArgs): string {
   if (payload.dec !== undefined) obj.dec = String(payload.dec);
   if (payload.sym !== undefined) obj.sym = payload.sym;
   if (payload.icon !== undefined) obj.icon = payload.icon;
+  return buildEnvelope(obj, ownerHash160);
+}
+
+/**
+ * Build a BSV-21 deploy+mint locking-script (hex) — the genesis of a new
+ * token. There is no `id` in the payload: the token's id is the outpoint
+ * this output lands at (`<txid>_<vout>`), known only once the tx is signed.
+ * The whole supply (`amt`) is minted to `ownerHash160`.
+ */
+export function buildBsv21DeployMint(args: Bsv21DeployMintArgs): string {
+  const { payload, ownerHash160 } = args;
+  if (!/^[0-9a-fA-F]{40}$/.test(ownerHash160)) {
+    throw new Error(`buildBsv21DeployMint: ownerHash160 must be 40 hex chars (got ${ownerHash160.length})`);
+  }
+  if (!/^[1-9]\d*$/.test(payload.amt)) {
+    throw new Error(`buildBsv21DeployMint: amt must be a positive integer string (got "${payload.amt}")`);
+  }
+  if (payload.dec !== undefined && (!Number.isInteger(payload.dec) || payload.dec < 0 || payload.dec > 18)) {
+    throw new Error(`buildBsv21DeployMint: dec must be an integer 0..18 (got ${payload.dec})`);
+  }
+
+  // Same all-strings rule as transfers (see buildBsv21Transfer).
+  const obj: Record<string, string> = {
+    p: 'bsv-20',
+    op: 'deploy+mint',
+    sym: payload.sym,
+    amt: payload.amt,
+  };
+  if (payload.dec !== undefined) obj.dec = String(payload.dec);
+  if (payload.icon !== undefined) obj.icon = payload.icon;
+  return buildEnvelope(obj, ownerHash160);
+}
+
+/** Wrap a BSV-20 JSON payload in the ord envelope, followed by the P2PKH owner lock. */
+function buildEnvelope(obj: Record<string, string>, ownerHash160: string): string {
   const jsonHex = utf8ToHex(JSON.stringify(obj));
 
   // ord envelope.
@@ -224,75 +280,133 @@ function hexToUtf8(hex: string): string {
   }
 }
 
+/** A parsed `ord` envelope plus the P2PKH owner lock it sits with. */
+export interface OrdEnvelope {
+  /** Content-type field (tag 1), UTF-8 decoded; '' when the envelope has none. */
+  contentType: string;
+  /** Inscription body, hex — every push between OP_0 and OP_ENDIF, concatenated. */
+  contentHex: string;
+  /** Every field by numeric tag, value hex (content type is tag 1). */
+  fields: Record<number, string>;
+  /** 20-byte owner field (PKH), hex. */
+  ownerHash160: string;
+}
+
+/** Read `76a914 <pkh> 88ac` at the reader's position; returns the pkh hex or null. */
+function readP2pkh(r: HexReader): string | null {
+  const dup = r.readByteHex();
+  const hash160Op = r.readByteHex();
+  const pushLen = r.readByteHex();
+  if (dup !== OP_DUP_HEX || hash160Op !== OP_HASH160_HEX || pushLen !== PKH_PUSH_LEN_HEX) {
+    return null;
+  }
+  const pkh = r.readBytesHex(20);
+  if (!pkh) return null;
+  const equalVerify = r.readByteHex();
+  const checkSig = r.readByteHex();
+  if (equalVerify !== OP_EQUALVERIFY_HEX || checkSig !== OP_CHECKSIG_HEX) return null;
+  return pkh;
+}
+
 /**
- * Parse a locking script as a BSV-21 transfer (or deploy+mint) output.
- * Returns null for non-BSV-21 scripts — never throws.
+ * Parse any 1Sat `ord` inscription: the envelope, followed (or, as some
+ * minters write it, preceded) by the P2PKH owner lock. A trailing
+ * `OP_RETURN` (MAP metadata) is tolerated. Returns null for anything else —
+ * never throws.
+ *
+ *   00 63 03 6f7264            OP_FALSE OP_IF "ord"
+ *   <tag> <value> …            fields; tag 1 (OP_1 or push 01) = content type
+ *   00 <push> …                OP_0, then the body, possibly split over pushes
+ *   68                         OP_ENDIF
  *
- * Recognises both `OP_1 (0x51)` and `push-of-0x01` for the ord field-id
- * marker, since toolboxes in the wild emit both shapes — including our own
- * older outputs before the canonical-form fix.
+ * Content type and body are bytes here; what they mean (a BSV-20 JSON
+ * payload, an image, …) is the caller's business.
  */
-export function parseBsv21LockingScript(scriptHex: string): ParsedBsv21Output | null {
+export function parseOrdEnvelope(scriptHex: string): OrdEnvelope | null {
   if (typeof scriptHex !== 'string' || scriptHex.length < 60) return null;
   const lower = scriptHex.toLowerCase();
-  // Must start with OP_FALSE OP_IF.
-  if (!lower.startsWith(OP_FALSE_HEX + OP_IF_HEX)) return null;
-
   const r = new HexReader(lower);
-  r.pos = 4; // past OP_FALSE OP_IF
-
-  // First push: "ord".
-  const tag = r.readPushHex();
-  if (tag !== ORD_TAG_HEX) return null;
-
-  // Field id: 0x01 (content-type marker) — accept OP_1 (0x51) or push-of-1-byte-0x01.
-  const peek = lower.substring(r.pos, r.pos + 2);
-  if (peek === '51') {
-    r.pos += 2;
-  } else {
-    const fieldIdBytes = r.readPushHex();
-    if (fieldIdBytes !== '01') return null;
+
+  // Owner lock ahead of the envelope.
+  let ownerHash160: string | null = null;
+  if (lower.startsWith(OP_DUP_HEX + OP_HASH160_HEX + PKH_PUSH_LEN_HEX)) {
+    ownerHash160 = readP2pkh(r);
+    if (!ownerHash160) return null;
+  }
+
+  // OP_FALSE OP_IF, then the "ord" tag.
+  if (r.readByteHex() !== OP_FALSE_HEX || r.readByteHex() !== OP_IF_HEX) return null;
+  if (r.readPushHex() !== ORD_TAG_HEX) return null;
+
+  // Fields until the OP_0 body marker. Tags are small numbers written as
+  // OP_1..OP_16 or as a one-byte push — toolboxes in the wild emit both.
+  const fields: Record<number, string> = {};
+  for (;;) {
+    const peek = lower.substring(r.pos, r.pos + 2);
+    if (peek === '' || peek === OP_ENDIF_HEX) return null;
+    if (peek === OP_FALSE_HEX) {
+      r.pos += 2;
+      break;
+    }
+    let tag: number;
+    const code = parseInt(peek, 16);
+    if (code >= 0x51 && code <= 0x60) {
+      r.pos += 2;
+      tag = code - 0x50;
+    } else {
+      const tagHex = r.readPushHex();
+      if (tagHex === null || tagHex.length !== 2) return null;
+      tag = parseInt(tagHex, 16);
+    }
+    const value = r.readPushHex();
+    if (value === null) return null;
+    fields[tag] = value;
   }
 
-  // Content-type push.
-  const ctHex = r.readPushHex();
-  if (ctHex === null) return null;
-  const ct = hexToUtf8(ctHex);
-  if (ct !== BSV20_CONTENT_TYPE) return null;
+  // Body pushes until OP_ENDIF.
+  let contentHex = '';
+  while (lower.substring(r.pos, r.pos + 2) !== OP_ENDIF_HEX) {
+    const chunk = r.readPushHex();
+    if (chunk === null) return null;
+    contentHex += chunk;
+  }
+  r.pos += 2;
 
-  // OP_0 separator.
-  const sep = r.readByteHex();
-  if (sep !== '00') return null;
+  if (!ownerHash160) {
+    ownerHash160 = readP2pkh(r);
+    if (!ownerHash160) return null;
+  }
+  // Nothing else, or an OP_RETURN metadata tail.
+  if (r.remaining() > 0 && lower.substring(r.pos, r.pos + 2) !== '6a') return null;
+
+  return {
+    contentType: fields[1] !== undefined ? hexToUtf8(fields[1]) : '',
+    contentHex,
+    fields,
+    ownerHash160,
+  };
+}
+
+/**
+ * Parse a locking script as a BSV-21 transfer (or deploy+mint) output.
+ * Returns null for non-BSV-21 scripts — never throws.
+ *
+ * An `ord` envelope (see `parseOrdEnvelope`) whose content type is
+ * `application/bsv-20` and whose body is a `"p":"bsv-20"` JSON payload.
+ */
+export function parseBsv21LockingScript(scriptHex: string): ParsedBsv21Output | null {
+  const envelope = parseOrdEnvelope(scriptHex);
+  if (!envelope || envelope.contentType !== BSV20_CONTENT_TYPE) return null;
+  const { ownerHash160 } = envelope;
 
-  // Content payload — the BSV-20 JSON.
-  const contentHex = r.readPushHex();
-  if (contentHex === null) return null;
-  const jsonText = hexToUtf8(contentHex);
   let payload: any;
   try {
-    payload = JSON.parse(jsonText);
+    payload = JSON.parse(hexToUtf8(envelope.contentHex));
   } catch {
     return null;
   }
   if (!payload || payload.p !== 'bsv-20') return null;
 
-  // OP_ENDIF.
-  const endIf = r.readByteHex();
-  if (endIf !== OP_ENDIF_HEX) return null;
-
-  // Trailing P2PKH lock.
-  const dup = r.readByteHex();
-  const hash160Op = r.readByteHex();
-  const pushLen = r.readByteHex();
-  if (dup !== OP_DUP_HEX || hash160Op !== OP_HASH160_HEX || pushLen !== PKH_PUSH_LEN_HEX) {
-    return null;
-  }
-  const ownerHash160 = r.readBytesHex(20);
-  if (!ownerHash160) return null;
-  const equalVerify = r.readByteHex();
-  const checkSig = r.readByteHex();
-  if (equalVerify !== OP_EQUALVERIFY_HEX || checkSig !== OP_CHECKSIG_HEX) return null;
-
   // Map JSON payload into our parsed shape. `op` may be 'transfer' or
   // 'deploy+mint'; transfers have an `id`, mints don't (the deploy outpoint
   // IS the id). Surface both — the caller picks what it needs.
@@ -12,6 +12,9 @@
  *   vout 0 = new DSTAS to recipient (spending-type=1, 1-to-1)
  *   vout 1 = BSV change back to funder
  *
+ * A split puts further DSTAS outputs between the two: `extraRecipients`,
+ * then the sender's token change — at most `MAX_DSTAS_SPLIT_OUTPUTS` in all.
+ *
  * Funding fragmentation suppressed the same way StasTransferService does
  * (lower default basket's numberOfDesiredUTXOs to 0 around the call,
  * restore on every exit path).
@@ -57,6 +60,9 @@ async function loadBsvJs(): Promise<any> {
 const ORIGINATOR = 'admin.dstas-transfer'
 const SIGHASH = DSTAS_SIGHASH_TYPE // 0x41 — ALL | FORKID
 
+/** DSTAS outputs one transfer tx can carry, change included (SDK bundle limit). */
+export const MAX_DSTAS_SPLIT_OUTPUTS = 4
+
 export interface DstasTransferArgs {
   source: {
     txid: string
@@ -82,11 +88,14 @@ export interface DstasTransferArgs {
   }
   recipientAddress: string
   /**
-   * Token amount (satoshis) to send. Defaults to the full `source.satoshis`.
-   * When less, the service SPLITS: recipient DSTAS output of `amount` + a
-   * sender token-change DSTAS output of the remainder (to `senderChangeHash160`).
+   * Token amount (satoshis) to send. Defaults to the full `source.satoshis`,
+   * less any `extraRecipients`. When less, the service SPLITS: recipient
+   * DSTAS output of `amount` + a sender token-change DSTAS output of the
+   * remainder (to `senderChangeHash160`).
    */
   amount?: number
+  /** Further recipients paid from the same source in this tx, after `recipientAddress`. */
+  extraRecipients?: Array<{ recipientAddress: string; amount: number }>
   /** Owner pkh (hex) for the sender's token-change DSTAS output (partial sends). */
   senderChangeHash160?: string
   /** BRC-42 keyId of the sender's change receive key (for createAction tracking). */
@@ -101,6 +110,8 @@ export interface DstasTransferResult {
   reason?: string
   /** Signed AtomicBEEF of the transfer (from signAction) — for peer delivery. */
   beef?: number[]
+  /** The sender's token-change UTXO on a split, so a caller can chain from it. */
+  change?: { txid: string; vout: number; scriptHex: string; satoshis: number; brc42KeyId: string }
 }
 
 export class DstasTransferService {
@@ -168,11 +179,16 @@ export class DstasTransferService {
       return { ok: false, reason: `getPublicKey: ${errMsg(err)}` }
     }
 
-    // 3. Recipient hash160 (bsv-js parses base58check + extracts).
+    // 3. Recipient hash160(s) (bsv-js parses base58check + extracts).
     let recipientPkhHex: string
+    const extraRecipients = args.extraRecipients ?? []
+    const extraPkhHexes: string[] = []
     try {
       const addr = bsvJs.Address.fromString(recipientAddress, 'livenet')
       recipientPkhHex = addr.hashBuffer.toString('hex')
+      for (const r of extraRecipients) {
+        extraPkhHexes.push(bsvJs.Address.fromString(r.recipientAddress, 'livenet').hashBuffer.toString('hex'))
+      }
     } catch (err) {
       return { ok: false, reason: `invalid recipient: ${errMsg(err)}` }
     }
@@ -184,16 +200,27 @@ export class DstasTransferService {
     //    Fresh transfer → actionData: null, frozen: false.
     // Resolve send amount vs. token change (SPLIT). Full-value keeps the
     // single-output path; partial adds a sender token-change DSTAS output.
-    const sendAmt = args.amount ?? source.satoshis
-    const changeAmt = source.satoshis - sendAmt
+    const extraAmt = extraRecipients.reduce((sum, r) => sum + r.amount, 0)
+    const sendAmt = args.amount ?? source.satoshis - extraAmt
+    const changeAmt = source.satoshis - sendAmt - extraAmt
     if (!Number.isInteger(sendAmt) || sendAmt < 1 || changeAmt < 0) {
-      return { ok: false, reason: `invalid amount ${sendAmt} (must be 1..${source.satoshis})` }
+      return { ok: false, reason: `invalid amount ${sendAmt} (must be 1..${source.satoshis - extraAmt})` }
+    }
+    const badExtra = extraRecipients.find((r) => !Number.isInteger(r.amount) || r.amount < 1)
+    if (badExtra) {
+      return { ok: false, reason: `invalid amount ${badExtra.amount} for ${badExtra.recipientAddress}` }
     }
     if (changeAmt > 0 && !args.senderChangeHash160) {
       return { ok: false, reason: 'partial DSTAS transfer requires senderChangeHash160' }
     }
+    const tokenOutputCount = 1 + extraRecipients.length + (changeAmt > 0 ? 1 : 0)
+    if (tokenOutputCount > MAX_DSTAS_SPLIT_OUTPUTS) {
+      return { ok: false, reason: `a DSTAS split carries at most ${MAX_DSTAS_SPLIT_OUTPUTS} token outputs, change included (got ${tokenOutputCount})` }
+    }
+    const changeVout = 1 + extraRecipients.length
 
     let newDstasScriptHex: string
+    let extraDstasScriptHexes: string[]
     let changeDstasScriptHex: string | null = null
     try {
       const flagsBytes = fromHex(parsed.flagsHex || '00')
@@ -209,6 +236,7 @@ export class DstasTransferService {
         frozen: false,
       }))
       newDstasScriptHex = buildFor(recipientPkhHex)
+      extraDstasScriptHexes = extraPkhHexes.map(buildFor)
       if (changeAmt > 0 && args.senderChangeHash160) {
         changeDstasScriptHex = buildFor(args.senderChangeHash160)
       }
@@ -300,6 +328,11 @@ export class DstasTransferService {
                 satoshis: sendAmt,
                 outputDescription: 'DSTAS to recipient',
               },
+              ...extraDstasScriptHexes.map((lockingScript, i) => ({
+                lockingScript,
+                satoshis: extraRecipients[i].amount,
+                outputDescription: 'DSTAS to recipient',
+              })),
               ...(changeDstasScriptHex != null
                 ? [{
                     lockingScript: changeDstasScriptHex,
@@ -385,7 +418,7 @@ export class DstasTransferService {
       const fundingInputIdx = nonDstasInputs[0]
 
       // Same constraint on outputs: the DSTAS template walks outputs and
-      // expects exactly the recipient DSTAS output + at most 1 P2PKH
+      // expects only the DSTAS outputs (recipients + change) + at most 1 P2PKH
       // change output (+ optional null-data). Multiple P2PKH outputs from
       // fragmentation would break the template's per-output handling.
       let p2pkhOutputCount = 0
@@ -526,7 +559,7 @@ export class DstasTransferService {
       const wocBase = `${wocExplorerBase(this.chain)}/tx/`
       tokenLog.info(`[dstas-transfer] BROADCAST ✓ txid: ${signResp?.txid}  ${wocBase}${signResp?.txid}`)
 
-      // 16. Link the sender's token-change output (vout 1) into the satellite
+      // 16. Link the sender's token-change output (after the recipients) into the satellite
       //     tables. The Assets view reads DSTAS holdings from `listStasOutputs`,
       //     not from the basket, so without this the remainder of a partial send
       //     is invisible until a discovery scan re-finds it on-chain. We built
@@ -539,7 +572,7 @@ export class DstasTransferService {
           const parsedChange = parseDstasLockingScript(source.scriptHex)
           const r = await new StasRegistration(this.wallet, this.identityKey, this.chain).register({
             txid: signResp.txid,
-            vout: 1,
+            vout: changeVout,
             tokenSatoshis: changeAmt,
             ownerFieldHash160: args.senderChangeHash160,
             brc42KeyId: args.senderChangeKeyId ?? source.brc42KeyId,
@@ -559,7 +592,16 @@ export class DstasTransferService {
         }
       }
 
-      return { ok: true, txid: signResp?.txid, beef: signResp?.tx }
+      const change = changeDstasScriptHex != null && signResp?.txid
+        ? {
+            txid: signResp.txid as string,
+            vout: changeVout,
+            scriptHex: changeDstasScriptHex,
+            satoshis: changeAmt,
+            brc42KeyId: args.senderChangeKeyId ?? source.brc42KeyId,
+          }
+        : undefined
+      return { ok: true, txid: signResp?.txid, beef: signResp?.tx, change }
     } finally {
       await restoreBasket()
     }
@@ -1,5 +1,7 @@
 /**
- * Build the DSTAS unlocking script for a regular spend (spendingType=1).
+ * Build the DSTAS unlocking script for a regular spend (spendingType=1) or
+ * for one side of a two-input merge. Classic STAS shares the witness layout,
+ * so the merge flow reuses this builder for STAS inputs too.
  *
  * This is the load-bearing piece of F3 — it mirrors
  * `dxs-bsv-token-sdk/src/transaction/build/input-builder.ts:91-178` byte
@@ -25,15 +27,21 @@
  *     push OP_0
  *   push <fundingOutpoint.vout>     (ScriptNum)
  *   push <reversedFundingTxId>      (32 bytes)
- *   push OP_0                       (not-merge marker)
+ *   if merge:
+ *     push <other input's vout>     (ScriptNum)
+ *     push <segment> …              (other input's parent tx, cut — see mergeSegments.ts)
+ *     push <segment count>          (ScriptNum)
+ *   else:
+ *     push OP_0                     (not-merge marker)
  *   push <sighashPreimage>
  *   push <spendingType>             (DSTAS only — 1 byte for spendingType=1)
  *   push <signature + sighashType byte>
  *   push <pubKey>                   (33-byte compressed)
  *
  * The DSTAS-output owner field comes from `LockingScriptReader.Dstas.Owner`
- * (token 0). The P2PKH-change owner field is the hash160 push inside the
- * canonical `76 a9 14 <pkh> 88 ac` shape.
+ * (token 0). The P2PKH-change and classic-STAS owner fields are the hash160
+ * push inside the leading `76 a9 14 <pkh> 88 ac` shape. Classic STAS inputs
+ * use the same layout minus the spending-type push (`spendingType: null`).
  */
 
 import { fromHex, toHex, ScriptType } from 'dxs-bsv-token-sdk/bsv'
@@ -62,8 +70,16 @@ export interface DstasUnlockSpec {
   signatureDer: Uint8Array
   /** Compressed public key bytes (33 bytes). */
   publicKey: Uint8Array
-  /** Spending type for DSTAS template — 1 = regular transfer. */
-  spendingType: number
+  /**
+   * Spending type for DSTAS template — 1 = regular transfer. `null` for a
+   * classic STAS input, whose witness carries no spending-type push.
+   */
+  spendingType: number | null
+  /**
+   * Set when this input is one of the two token inputs of a merge: the OTHER
+   * token input's vout and its parent tx cut into segments.
+   */
+  merge?: { vout: number; segments: Uint8Array[] }
 }
 
 // ──────────────── byte-encoding primitives ────────────────
@@ -153,7 +169,7 @@ const OP_RETURN = 0x6a
 // ──────────────── output classification (mirror of input-builder.ts) ────────────────
 
 interface OutputInfo {
-  scriptType: 'p2pkh' | 'dstas' | 'nullData' | 'other'
+  scriptType: 'p2pkh' | 'stas' | 'dstas' | 'nullData' | 'other'
   ownerField?: Uint8Array
   actionDataToken?: { data?: Uint8Array; opCode?: number }
   /** For null-data: the payload bytes AFTER OP_RETURN's pushdata header. */
@@ -188,6 +204,19 @@ function classifyOutput(scriptBytes: Uint8Array): OutputInfo {
     }
   }
 
+  // Classic STAS: 76 a9 14 <20> 88 ac 69 <engine…>. No action-data token.
+  if (
+    scriptBytes.length > 26 &&
+    scriptBytes[0] === 0x76 && scriptBytes[1] === 0xa9 &&
+    scriptBytes[2] === 0x14 && scriptBytes[23] === 0x88 &&
+    scriptBytes[24] === 0xac && scriptBytes[25] === 0x69
+  ) {
+    return {
+      scriptType: 'stas',
+      ownerField: scriptBytes.slice(3, 23),
+    }
+  }
+
   // Else try DSTAS via the SDK's reader.
   try {
     const reader: any = LockingScriptReader.read(scriptBytes)
@@ -210,7 +239,7 @@ function classifyOutput(scriptBytes: Uint8Array): OutputInfo {
 // ──────────────── main builder ────────────────
 
 export function buildDstasUnlockingScript(spec: DstasUnlockSpec): string {
-  const { unsignedTx, fundingInputIdx, preimage, signatureDer, publicKey, spendingType } = spec
+  const { unsignedTx, fundingInputIdx, preimage, signatureDer, publicKey, spendingType, merge } = spec
 
   // Re-encode the signature with the sighash type byte appended — same
   // shape `InputBuilder.sign` produces (`derWithSigHashType`).
@@ -285,14 +314,22 @@ export function buildDstasUnlockingScript(spec: DstasUnlockSpec): string {
   chunks.push(scriptNumPush(BigInt(fundingVout)))
   chunks.push(pushBytes(reversedFundingTxId))
 
-  // ── merge marker (not-merge for transfer) ──
-  chunks.push(pushOpcode(OP_0))
+  // ── merge info, or the not-merge marker for a plain transfer ──
+  if (merge) {
+    chunks.push(scriptNumPush(BigInt(merge.vout)))
+    for (const segment of merge.segments) chunks.push(pushBytes(segment))
+    chunks.push(scriptNumPush(BigInt(merge.segments.length)))
+  } else {
+    chunks.push(pushOpcode(OP_0))
+  }
 
   // ── sighash preimage ──
   chunks.push(pushBytes(preimage))
 
   // ── DSTAS spending-type byte ──
-  chunks.push(scriptNumPush(BigInt(spendingType)))
+  if (spendingType !== null) {
+    chunks.push(scriptNumPush(BigInt(spendingType)))
+  }
 
   // ── signature + pubkey ──
   chunks.push(pushBytes(sigWithType))
@@ -1,6 +1,6 @@
 /**
  * Token-protocol adapter layer — the single seam between protocol-specific
- * logic (STAS, DSTAS, BSV-21) and the shared discovery / registration / UI
+ * logic (STAS, DSTAS, BSV-21, Ordinals) and the shared discovery / registration / UI
  * pipeline.
  */
 
@@ -9,4 +9,6 @@ export * from './TokenProtocolRegistry';
 export * from './StasProtocolAdapter';
 export * from './DstasProtocolAdapter';
 export * from './BSV21ProtocolAdapter';
+export * from './OrdinalsProtocolAdapter';
 export * from './bsv21';
+export * from './ordinals';
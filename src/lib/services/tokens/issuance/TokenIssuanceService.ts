@@ -0,0 +1,492 @@
+/**
+ * TokenIssuanceService — mint new tokens from the wallet: STAS and DSTAS
+ * (CreateContract + Issue) and BSV-21 (deploy+mint).
+ *
+ * Same architectural shape as the transfer services: wallet-toolbox owns tx
+ * assembly and funding via createAction; the one input the wallet can't
+ * unlock itself — the contract output — is signed externally via
+ * wallet.createSignature with the BRC-42 key that owns it.
+ *
+ * STAS / DSTAS (see issuanceScripts.ts for the layout):
+ *   1. derive two STAS receive keys — the ISSUER (its PKH is the redemption
+ *      PKH, and the DSTAS token id) and the HOLDER the supply is minted to
+ *   2. CreateContract — wallet-funded; out 0 = contract, `supply` satoshis
+ *   3. Issue — in 0 = the contract (issuer signs, P2PKH), out 0 = the token
+ *      output, declared into the protocol's basket at createAction time
+ *   4. link the `stas_tokens` / `stas_outputs` satellite rows, stamping this
+ *      wallet's identity key as `issuerIdentityKey`
+ *
+ * BSV-21:
+ *   1. derive a BSV-21 receive key for the holder
+ *   2. one wallet-funded createAction with the deploy+mint inscription at
+ *      out 0, declared into the BSV-21 basket
+ *   3. the token id is that outpoint, so the `id:` tag and customInstructions
+ *      are written after signing (StasQueries.annotateOutput)
+ *
+ * Every call is fail-soft like the transfer services: a failure returns
+ * `{ ok: false, reason }` naming the step, never a throw. A failure after the
+ * CreateContract broadcast leaves the contract output unspent — it carries
+ * `contractTxid`, and the issuer key can still spend it.
+ */
+
+import type { WalletInterface } from '@bsv/sdk';
+import { Beef } from '@bsv/sdk';
+import { Address, fromHex } from 'dxs-bsv-token-sdk/bsv';
+import { STAS_PROTOCOL_ID, STAS_COUNTERPARTY } from '../../stas/constants';
+import { BSV21_PROTOCOL_ID, BSV21_COUNTERPARTY } from '../bsv21/constants';
+import { BSV21_BASKET, DSTAS_BASKET, STAS_BASKET } from '../../../constants/baskets';
+import { buildBsv21DeployMint } from '../bsv21/inscription';
+import { parseDstasLockingScript, type ParsedDstas } from '../../stas/dstasParser';
+import { stasQuery } from '../../stas/stasIpc';
+import type { StasKeyDeriver } from '../../stas/StasKeyDeriver';
+import type { StasRegistration } from '../../stas/StasRegistration';
+import type { BSV21KeyDeriver } from '../bsv21/BSV21KeyDeriver';
+import type { OneSatIndexerClient } from '../bsv21/OneSatIndexerClient';
+import type { TokenProtocolId } from '../TokenProtocolAdapter';
+import {
+  buildContractLockingScript,
+  buildDstasIssueLockingScript,
+  buildStasIssueLockingScript,
+  buildTokenScheme,
+} from './issuanceScripts';
+import { tokenLog } from '../tokenLog';
+
+const ORIGINATOR = 'admin.token-issuance';
+
+/** SIGHASH_ALL | SIGHASH_FORKID — the contract input is a plain P2PKH spend. */
+const SIGHASH_ALL_FORKID = 0x41;
+
+/** STAS / DSTAS symbols ride the locking script; keep them short and printable. */
+const SYMBOL_PATTERN = /^[A-Za-z0-9$_.-]{1,32}$/;
+
+export type TokenIssueRequest =
+  | {
+      protocol: 'stas';
+      name: string;
+      symbol: string;
+      /** Total supply in token satoshis (1 token = 1 satoshi). */
+      supply: number;
+    }
+  | {
+      protocol: 'dstas';
+      name: string;
+      symbol: string;
+      supply: number;
+      /** Issuer may freeze / unfreeze holders' outputs. */
+      freeze: boolean;
+      /** Issuer may confiscate holders' outputs. */
+      confiscation: boolean;
+    }
+  | {
+      protocol: 'bsv-21';
+      symbol: string;
+      /** Total supply in raw units, stringified bigint. */
+      supply: string;
+      decimals?: number;
+      /** Icon outpoint / URL. */
+      icon?: string;
+    };
+
+export interface TokenIssueResult {
+  ok: boolean;
+  protocol: TokenProtocolId;
+  /**
+   * The token id as the wallet keys it: the CreateContract txid (STAS), the
+   * redemption PKH (DSTAS), or `<txid>_<vout>` of the deploy+mint (BSV-21).
+   */
+  tokenId?: string;
+  /** STAS / DSTAS: the CreateContract txid. */
+  contractTxid?: string;
+  /** The issue (STAS / DSTAS) or deploy+mint (BSV-21) txid. */
+  txid?: string;
+  reason?: string;
+}
+
+export interface TokenIssuanceDeps {
+  wallet: WalletInterface;
+  identityKey: string;
+  chain: 'main' | 'test' | 'ttn';
+  stasDeriver: StasKeyDeriver;
+  bsv21Deriver: BSV21KeyDeriver;
+  registration: StasRegistration;
+  /** Overlay the BSV-21 deploy is submitted to (best-effort) when present. */
+  bsv21Indexer?: OneSatIndexerClient;
+}
+
+/** Dynamic bsv-js import — same pattern StasTransferService uses. */
+async function loadBsvJs(): Promise<any> {
+  const mod: any = await import('bsv');
+  return mod.default ?? mod;
+}
+
+export class TokenIssuanceService {
+  constructor(private readonly deps: TokenIssuanceDeps) {}
+
+  async issue(req: TokenIssueRequest): Promise<TokenIssueResult> {
+    if (req.protocol === 'bsv-21') return this.deployBsv21(req);
+    return this.issueStasFamily(req);
+  }
+
+  private async issueStasFamily(
+    req: Extract<TokenIssueRequest, { protocol: 'stas' | 'dstas' }>
+  ): Promise<TokenIssueResult> {
+    const { wallet, identityKey, chain, stasDeriver } = this.deps;
+    const fail = (reason: string, extra: Partial<TokenIssueResult> = {}): TokenIssueResult => ({
+      ok: false,
+      protocol: req.protocol,
+      reason,
+      ...extra,
+    });
+
+    // 1. Validate.
+    const name = req.name.trim();
+    if (!name) return fail('name is required');
+    if (!SYMBOL_PATTERN.test(req.symbol)) {
+      return fail('symbol must be 1-32 letters, digits or $_.- characters');
+    }
+    if (!Number.isSafeInteger(req.supply) || req.supply < 1) {
+      return fail(`supply must be a positive whole number of token satoshis (got ${req.supply})`);
+    }
+
+    // 2. Issuer + holder keys. Both are ordinary STAS receive keys, so the
+    //    minted output is found again by a discovery scan like any receive.
+    let issuer: Awaited<ReturnType<StasKeyDeriver['createNextReceiveContext']>>;
+    let holder: Awaited<ReturnType<StasKeyDeriver['createNextReceiveContext']>>;
+    try {
+      issuer = await stasDeriver.createNextReceiveContext();
+      holder = await stasDeriver.createNextReceiveContext();
+    } catch (err) {
+      return fail(`derive issuer key: ${errMsg(err)}`);
+    }
+
+    let scheme: ReturnType<typeof buildTokenScheme>;
+    let contractScriptHex: string;
+    let tokenScriptHex: string;
+    try {
+      scheme = buildTokenScheme({
+        name,
+        symbol: req.symbol,
+        issuerPkh: issuer.ownerFieldHash160,
+        issuerPublicKey: issuer.derivedPublicKey,
+        freeze: req.protocol === 'dstas' && req.freeze,
+        confiscation: req.protocol === 'dstas' && req.confiscation,
+      });
+      contractScriptHex = buildContractLockingScript(scheme);
+      tokenScriptHex =
+        req.protocol === 'dstas'
+          ? buildDstasIssueLockingScript(scheme, holder.ownerFieldHash160)
+          : buildStasIssueLockingScript(scheme, holder.ownerFieldHash160);
+    } catch (err) {
+      return fail(`script build: ${errMsg(err)}`);
+    }
+
+    // 3. CreateContract. No foreign inputs, so the wallet signs it outright.
+    let contractTxid: string;
+    let contractBeef: number[];
+    try {
+      const res: any = await wallet.createAction(
+        {
+          labels: ['token-issuance'],
+          outputs: [
+            {
+              lockingScript: contractScriptHex,
+              satoshis: req.supply,
+              outputDescription: `${req.symbol} token contract`,
+            },
+          ],
+          description: `${req.protocol.toUpperCase()} contract`,
+          options: { randomizeOutputs: false },
+        } as any,
+        ORIGINATOR
+      );
+      contractTxid = res?.txid;
+      contractBeef = res?.tx;
+      if (!contractTxid || !contractBeef) throw new Error('createAction returned no txid / tx');
+    } catch (err) {
+      return fail(`CreateContract: ${errMsg(err)}`);
+    }
+
+    // The contract output sits in no basket, so wallet-toolbox marked it
+    // unspendable; flip it so the issue createAction may reference it.
+    try {
+      const outputId: number | null = await stasQuery(identityKey, chain, 'findOutputIdByOutpoint', [contractTxid, 0]);
+      if (outputId) await stasQuery(identityKey, chain, 'setOutputSpendable', [outputId, true]);
+    } catch {
+      /* best effort — createAction below reports it if it matters */
+    }
+
+    // 4. Issue: spend the contract into the token output.
+    const tokenId = req.protocol === 'dstas' ? issuer.ownerFieldHash160 : contractTxid;
+    const basket = req.protocol === 'dstas' ? DSTAS_BASKET : STAS_BASKET;
+    let signable: any;
+    try {
+      const res: any = await wallet.createAction(
+        {
+          labels: ['token-issuance'],
+          inputBEEF: contractBeef,
+          inputs: [
+            {
+              outpoint: `${contractTxid}.0`,
+              unlockingScriptLength: 108, // standard P2PKH unlock: ~73 sig + 33 pubkey + push opcodes
+              inputDescription: `${req.symbol} token contract`,
+            },
+          ],
+          outputs: [
+            {
+              lockingScript: tokenScriptHex,
+              satoshis: req.supply,
+              outputDescription: `${req.symbol} issue`,
+              basket,
+              customInstructions: JSON.stringify({ brc42KeyId: holder.keyId, tokenId }),
+              tags: [req.protocol],
+            },
+          ],
+          description: `${req.protocol.toUpperCase()} issue`,
+          options: { randomizeOutputs: false },
+        } as any,
+        ORIGINATOR
+      );
+      signable = res?.signableTransaction;
+      if (!signable?.tx) throw new Error('createAction did not return signableTransaction');
+    } catch (err) {
+      return fail(`issue createAction: ${errMsg(err)}`, { contractTxid });
+    }
+
+    let unlockingScriptHex: string;
+    try {
+      unlockingScriptHex = await this.signP2pkhInput(signable.tx, 0, {
+        scriptHex: contractScriptHex,
+        satoshis: req.supply,
+        protocolID: STAS_PROTOCOL_ID,
+        keyID: issuer.keyId,
+        counterparty: STAS_COUNTERPARTY,
+      });
+    } catch (err) {
+      return fail(`sign contract input: ${errMsg(err)}`, { contractTxid });
+    }
+
+    let txid: string;
+    try {
+      txid = await this.sign(signable.reference, { 0: { unlockingScript: unlockingScriptHex } });
+    } catch (err) {
+      return fail(`issue signAction: ${errMsg(err)}`, { contractTxid });
+    }
+    tokenLog.info(`[token-issuance] ${req.protocol} ${req.symbol} issued ✓ contract ${contractTxid} issue ${txid}`);
+
+    // 5. Satellite rows. The basket was declared above, so only link them.
+    let parsed: ParsedDstas & { symbol?: string };
+    if (req.protocol === 'dstas') {
+      const p = parseDstasLockingScript(tokenScriptHex);
+      if (!p) return fail('issued DSTAS script does not parse', { contractTxid, txid, tokenId });
+      parsed = { ...p, symbol: req.symbol };
+    } else {
+      parsed = {
+        tokenId,
+        ownerFieldHash160: holder.ownerFieldHash160,
+        symbol: req.symbol,
+        flagsHex: '',
+        serviceFields: [],
+        optionalData: [],
+        freezeEnabled: false,
+        confiscationEnabled: false,
+        frozen: false,
+        actionData: {},
+      };
+    }
+    try {
+      const r = await this.deps.registration.register({
+        txid,
+        vout: 0,
+        tokenSatoshis: req.supply,
+        ownerFieldHash160: holder.ownerFieldHash160,
+        brc42KeyId: holder.keyId,
+        parsed,
+        protocol: { id: req.protocol, basketName: basket },
+        skipInternalize: true,
+        name,
+        issuerIdentityKey: identityKey,
+      });
+      if (!r.registered && r.reason !== 'already registered') {
+        tokenLog.warn(`[token-issuance] issued output NOT registered: ${r.reason} (scan will recover)`);
+      }
+    } catch (err) {
+      // The tokens exist on-chain and in the basket either way; a scan
+      // re-registers them. Never fail a broadcast issuance here.
+      tokenLog.warn(`[token-issuance] registration threw: ${errMsg(err)} (scan will recover)`);
+    }
+
+    return { ok: true, protocol: req.protocol, tokenId, contractTxid, txid };
+  }
+
+  private async deployBsv21(
+    req: Extract<TokenIssueRequest, { protocol: 'bsv-21' }>
+  ): Promise<TokenIssueResult> {
+    const { wallet, identityKey, chain, bsv21Deriver } = this.deps;
+    const fail = (reason: string, extra: Partial<TokenIssueResult> = {}): TokenIssueResult => ({
+      ok: false,
+      protocol: 'bsv-21',
+      reason,
+      ...extra,
+    });
+
+    if (!req.symbol.trim()) return fail('symbol is required');
+
+    let holder: Awaited<ReturnType<BSV21KeyDeriver['createNextReceiveContext']>>;
+    try {
+      holder = await bsv21Deriver.createNextReceiveContext();
+    } catch (err) {
+      return fail(`derive holder key: ${errMsg(err)}`);
+    }
+
+    let scriptHex: string;
+    try {
+      scriptHex = buildBsv21DeployMint({
+        payload: { sym: req.symbol.trim(), amt: req.supply, dec: req.decimals, icon: req.icon },
+        ownerHash160: holder.ownerFieldHash160,
+      });
+    } catch (err) {
+      return fail(errMsg(err));
+    }
+
+    let ownerAddress: string;
+    try {
+      ownerAddress = new (Address as any)(fromHex(holder.ownerFieldHash160)).Value as string;
+    } catch {
+      ownerAddress = '';
+    }
+    // Mirrors BSV21Registration's shape; `tokenId` joins once the txid is known.
+    const instructions = {
+      kind: 'bsv-21',
+      protocolID: BSV21_PROTOCOL_ID,
+      keyID: holder.keyId,
+      counterparty: BSV21_COUNTERPARTY,
+      ownerAddress,
+      issuerIdentityKey: identityKey,
+    };
+    const tags: string[] = ['bsv21', `amt:${req.supply}`, `sym:${req.symbol.trim()}`];
+    if (req.decimals !== undefined) tags.push(`dec:${req.decimals}`);
+    if (req.icon) tags.push(`icon:${req.icon}`);
+
+    let txid: string;
+    let beef: number[] | undefined;
+    try {
+      const res: any = await wallet.createAction(
+        {
+          labels: ['token-issuance'],
+          outputs: [
+            {
+              lockingScript: scriptHex,
+              satoshis: 1,
+              outputDescription: `${req.symbol.trim()} deploy+mint`,
+              basket: BSV21_BASKET,
+              customInstructions: JSON.stringify(instructions),
+              tags,
+            },
+          ],
+          description: 'BSV-21 deploy+mint',
+          options: { randomizeOutputs: false },
+        } as any,
+        ORIGINATOR
+      );
+      txid = res?.txid;
+      beef = res?.tx;
+      if (!txid) throw new Error('createAction returned no txid');
+    } catch (err) {
+      return fail(`createAction: ${errMsg(err)}`);
+    }
+    const tokenId = `${txid}_0`;
+    tokenLog.info(`[token-issuance] bsv-21 ${req.symbol} deployed ✓ ${tokenId}`);
+
+    try {
+      const res = await stasQuery(identityKey, chain, 'annotateOutput', [
+        {
+          txid,
+          vout: 0,
+          customInstructions: JSON.stringify({ ...instructions, tokenId }),
+          tags: [`id:${tokenId}`],
+        },
+      ]);
+      // wallet-toolbox files non-template scripts unspendable; flip it as
+      // BSV21Registration does so the minted supply can be sent.
+      if (res?.outputId) await stasQuery(identityKey, chain, 'setOutputSpendable', [res.outputId, true]);
+      else if (res && !res.ok) tokenLog.warn(`[token-issuance] annotate deploy output: ${res.reason}`);
+    } catch (err) {
+      tokenLog.warn(`[token-issuance] annotate deploy output threw: ${errMsg(err)}`);
+    }
+
+    // Best-effort overlay submit — tm_bsv21 admits any deploy. Same contract
+    // as the transfer path: the tx is already broadcast through the wallet.
+    if (this.deps.bsv21Indexer && beef && beef.length > 0) {
+      try {
+        const submit = await this.deps.bsv21Indexer.submitTransaction(beef, { tokenId });
+        if (!submit.ok) tokenLog.warn(`[token-issuance] overlay submit ${submit.status}: ${submit.body.slice(0, 200)}`);
+      } catch (err) {
+        tokenLog.warn(`[token-issuance] overlay submit threw: ${errMsg(err)}`);
+      }
+    }
+
+    return { ok: true, protocol: 'bsv-21', tokenId, txid };
+  }
+
+  /**
+   * P2PKH-sign input `index` of a signable AtomicBEEF with a BRC-42 key —
+   * sighash over the full source script, as BSV21TransferService does.
+   * Returns the `<sig> <pubkey>` unlocking script hex.
+   */
+  private async signP2pkhInput(
+    signableTx: number[],
+    index: number,
+    source: {
+      scriptHex: string;
+      satoshis: number;
+      protocolID: [number, string];
+      keyID: string;
+      counterparty: string;
+    }
+  ): Promise<string> {
+    const bsv = await loadBsvJs();
+    const beef = Beef.fromBinary(signableTx);
+    const atomicTxid = (beef as any).atomicTxid as string | undefined;
+    const btx = atomicTxid ? beef.findTxid(atomicTxid) : undefined;
+    if (!btx?.tx) throw new Error('signable BEEF has no atomic tx');
+    const tx = new bsv.Transaction(Buffer.from(btx.tx.toBinary()).toString('hex'));
+    const sourceLocking = bsv.Script.fromHex(source.scriptHex);
+    tx.inputs[index].output = new bsv.Transaction.Output({ script: sourceLocking, satoshis: source.satoshis });
+
+    const preimage = bsv.Transaction.sighash.sighashPreimage(
+      tx, SIGHASH_ALL_FORKID, index, sourceLocking, new bsv.crypto.BN(source.satoshis)
+    );
+    const digest = Array.from(bsv.crypto.Hash.sha256sha256(preimage) as Buffer) as number[];
+    const derivation = {
+      protocolID: source.protocolID as any,
+      keyID: source.keyID,
+      counterparty: source.counterparty as any,
+    };
+    const { signature } = await this.deps.wallet.createSignature(
+      { ...derivation, hashToDirectlySign: digest } as any,
+      ORIGINATOR
+    );
+    const { publicKey } = await this.deps.wallet.getPublicKey(derivation as any, ORIGINATOR);
+    const sigHex = toHex(signature) + SIGHASH_ALL_FORKID.toString(16).padStart(2, '0');
+    return bsv.Script.fromASM(`${sigHex} ${publicKey}`).toHex();
+  }
+
+  /** signAction, surfacing a rejected broadcast the way the transfer services do. */
+  private async sign(reference: string, spends: Record<number, { unlockingScript: string }>): Promise<string> {
+    const res: any = await this.deps.wallet.signAction({ reference, spends } as any, ORIGINATOR);
+    const sendResults: any[] = Array.isArray(res?.sendWithResults) ? res.sendWithResults : [];
+    const failed = sendResults.find((r) => r?.status === 'failed');
+    if (failed) throw new Error(`broadcast failed: ${JSON.stringify(failed)} (txid was ${res?.txid})`);
+    if (!res?.txid) throw new Error('signAction returned no txid');
+    return res.txid;
+  }
+}
+
+function errMsg(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function toHex(bytes: number[] | Uint8Array): string {
+  const arr = Array.isArray(bytes) ? bytes : Array.from(bytes);
+  return arr.map((b) => b.toString(16).padStart(2, '0')).join('');
+}
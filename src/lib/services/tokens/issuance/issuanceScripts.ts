@@ -0,0 +1,98 @@
+/**
+ * Locking scripts for token issuance — pure, built with the vendored
+ * dxs-bsv-token-sdk so the bytes match what its own `BuildDstasIssueTxs` /
+ * STAS CreateContract flows produce.
+ *
+ * STAS and DSTAS issue in two transactions:
+ *
+ *   CreateContract:  out 0 = P2PKH(issuer) OP_RETURN <token scheme JSON>,
+ *                            carrying the whole supply in satoshis
+ *   Issue:           in  0 = the contract output (issuer signs)
+ *                    out 0 = the token output, supply satoshis, to its holder
+ *
+ * The issuer PKH is the token's redemption PKH — and the DSTAS token id —
+ * so only the issuer's key can ever spend a contract for it. BSV-21 needs no
+ * contract: its deploy+mint is `buildBsv21DeployMint` in bsv21/inscription.
+ */
+
+import { Address, TokenScheme, fromHex, hash160, toHex } from 'dxs-bsv-token-sdk/bsv';
+// Leaf-module imports — the `/bsv` aggregator forwards these through
+// __exportStar, which Rollup can't see (see DstasTransferService.ts). Each
+// path is whitelisted in vendor/dxs-bsv-token-sdk/package.json's `exports`.
+import * as P2pkhBuilderModule from 'dxs-bsv-token-sdk/script/build/p2pkh-builder';
+import * as P2stasBuilderModule from 'dxs-bsv-token-sdk/script/build/p2stas-builder';
+import * as DstasLockingBuilderModule from 'dxs-bsv-token-sdk/script/build/dstas-locking-builder';
+const { P2pkhBuilder } = P2pkhBuilderModule;
+const { P2stasBuilder } = P2stasBuilderModule;
+const { buildDstasFlags, buildDstasLockingScript } = DstasLockingBuilderModule;
+
+/** STAS satoshis back tokens 1:1 in this wallet (see StasRegistration). */
+const SATOSHIS_PER_TOKEN = 1;
+
+export interface IssuanceSchemeArgs {
+  name: string;
+  symbol: string;
+  /** hash160 of the issuer's key, hex — the redemption PKH. */
+  issuerPkh: string;
+  /** DSTAS only: the issuer's compressed public key, the freeze / confiscation authority. */
+  issuerPublicKey?: string;
+  freeze?: boolean;
+  confiscation?: boolean;
+}
+
+/** The token scheme a CreateContract commits to. */
+export function buildTokenScheme(args: IssuanceSchemeArgs): TokenScheme {
+  const authority =
+    args.issuerPublicKey !== undefined ? { m: 1, publicKeys: [args.issuerPublicKey] } : undefined;
+  if ((args.freeze || args.confiscation) && !authority) {
+    throw new Error('freeze / confiscation need the issuer public key as their authority');
+  }
+  return new TokenScheme(args.name, args.issuerPkh, args.symbol, SATOSHIS_PER_TOKEN, {
+    isDivisible: true,
+    freeze: args.freeze === true,
+    confiscation: args.confiscation === true,
+    freezeAuthority: args.freeze ? authority : undefined,
+    confiscationAuthority: args.confiscation ? authority : undefined,
+  });
+}
+
+/** CreateContract output 0: P2PKH to the issuer, then OP_RETURN <scheme JSON>. */
+export function buildContractLockingScript(scheme: TokenScheme): string {
+  const script = new P2pkhBuilder(new Address(fromHex(scheme.TokenId)));
+  script.addReturnData(scheme.toBytes());
+  return script.toHex();
+}
+
+/** Classic STAS issue output, owned by `ownerPkh`. */
+export function buildStasIssueLockingScript(scheme: TokenScheme, ownerPkh: string): string {
+  return new P2stasBuilder(new Address(fromHex(ownerPkh)), scheme.TokenId, scheme.Symbol).toHex();
+}
+
+/**
+ * DSTAS issue output, owned by `ownerPkh`. Freeze / confiscation service
+ * fields are hash160 of the (single-key) authority, as the SDK derives them.
+ */
+export function buildDstasIssueLockingScript(scheme: TokenScheme, ownerPkh: string): string {
+  const serviceFields: Uint8Array[] = [];
+  if (scheme.Freeze) serviceFields.push(authorityField(scheme.FreezeAuthority));
+  if (scheme.Confiscation) serviceFields.push(authorityField(scheme.ConfiscationAuthority));
+  return toHex(
+    buildDstasLockingScript({
+      owner: fromHex(ownerPkh),
+      actionData: null,
+      redemptionPkh: fromHex(scheme.TokenId),
+      frozen: false,
+      flags: buildDstasFlags({ freezable: scheme.Freeze, confiscatable: scheme.Confiscation }),
+      serviceFields,
+      optionalData: [],
+    })
+  );
+}
+
+function authorityField(authority: TokenScheme['FreezeAuthority']): Uint8Array {
+  const key = authority?.publicKeys[0];
+  if (!key || authority.publicKeys.length !== 1 || authority.m !== 1) {
+    throw new Error('issuance supports a single-key freeze / confiscation authority');
+  }
+  return hash160(fromHex(key));
+}
@@ -0,0 +1,490 @@
+/**
+ * StasMergeService — consolidate many STAS or DSTAS UTXOs of one token into
+ * a single UTXO, via createAction + signAction.
+ *
+ * The token engines spend at most TWO token inputs per tx, so N sources take
+ * N-1 merge txs, paired off level by level:
+ *
+ *   in :  [ token A ] [ token B ]   ← each signed by its own BRC-42 owner key
+ *         + exactly one wallet funding input
+ *   out:  [ token, A+B satoshis ]   ← to the destination owner, our basket
+ *         [ wallet BSV change ]
+ *
+ * Each token input's witness is the regular transfer witness (see
+ * buildDstasUnlockingScript.ts) with the merge slot filled: the OTHER
+ * input's vout plus its parent tx cut into segments (mergeSegments.ts). That
+ * embeds a whole parent tx per input, so a merge-of-merges roughly doubles in
+ * size every level. The SDK's bundle factory resets the growth with a plain
+ * transfer-to-self every three levels; we measure the parent directly and
+ * reset any UTXO whose parent has grown past `RESET_PARENT_TX_BYTES`, which
+ * also covers UTXOs left by an earlier consolidation.
+ *
+ * Destination owner = the first self-owned source, so its locking script is
+ * reused byte for byte. Classic STAS merges need both inputs at the SAME
+ * owner (the SDK's `BuildMergeTx` rule), so STAS sources held by other keys
+ * are first moved to the destination owner; DSTAS has no such rule.
+ *
+ * Every output is declared in the protocol basket at createAction and linked
+ * into the satellite tables right away, so a run that fails part-way leaves
+ * fewer, fully-tracked UTXOs behind rather than orphans.
+ */
+
+import type { WalletInterface } from '@bsv/sdk';
+import { Beef } from '@bsv/sdk';
+import { STAS_PROTOCOL_ID, STAS_COUNTERPARTY } from '../../stas/constants';
+import { STAS_BASKET, DSTAS_BASKET } from '../../../constants/baskets';
+import { parseDstasLockingScript } from '../../stas/dstasParser';
+import { parseClassicStasMetadata } from '../../stas/parseClassicStasMetadata';
+import { stasQuery } from '../../stas/stasIpc';
+import { buildChainedAtomicBeef } from '../../stas/buildChainedAtomicBeef';
+import { StasRegistration } from '../../stas/StasRegistration';
+import { buildDstasUnlockingScript, DSTAS_SIGHASH_TYPE } from '../dstas/buildDstasUnlockingScript';
+import { decodeBrc29KeyId } from '../peer/brc29KeyId';
+import { mergeSegments, dstasCounterpartyScript, type MergeProtocol } from './mergeSegments';
+import type { MergeArgs, MergeResult, TokenSourceUtxo } from '../TokenProtocolAdapter';
+import { tokenLog } from '../tokenLog';
+import { wocExplorerBase } from '../../../utils/woc';
+
+const ORIGINATOR = 'admin.token-merge';
+
+/** Parent-tx size past which a UTXO is transferred to itself before merging again. */
+const RESET_PARENT_TX_BYTES = 50_000;
+
+/** Fee-estimate unlock size of a token input, before any merge segments. */
+const TOKEN_UNLOCK_ESTIMATE = 4500;
+
+/** A source plus a BEEF holding its parent tx (inputBEEF + merge segments). */
+interface HeldUtxo extends TokenSourceUtxo {
+  beef: Beef;
+}
+
+interface OwnerDerivation {
+  protocolID: [number, string];
+  keyID: string;
+  counterparty: string;
+  forSelf: boolean;
+}
+
+async function loadBsvJs(): Promise<any> {
+  const mod: any = await import('bsv');
+  return mod.default ?? mod;
+}
+
+/**
+ * The signing derivation for a UTXO's owner. A peer-received token packs its
+ * BRC-29 derivation into `brc42KeyId` (see brc29KeyId.ts); everything else is
+ * a self-derived receive key.
+ */
+function ownerDerivationFor(brc42KeyId: string): OwnerDerivation {
+  const brc29 = decodeBrc29KeyId(brc42KeyId);
+  return brc29
+    ? {
+        protocolID: STAS_PROTOCOL_ID,
+        keyID: `${brc29.derivationPrefix} ${brc29.derivationSuffix}`,
+        counterparty: brc29.senderIdentityKey,
+        forSelf: true,
+      }
+    : { protocolID: STAS_PROTOCOL_ID, keyID: brc42KeyId, counterparty: STAS_COUNTERPARTY, forSelf: false };
+}
+
+export class StasMergeService {
+  constructor(
+    private readonly wallet: WalletInterface,
+    private readonly identityKey: string,
+    private readonly chain: 'main' | 'test' | 'ttn',
+    private readonly protocol: MergeProtocol
+  ) {}
+
+  async merge(args: MergeArgs): Promise<MergeResult> {
+    const txids: string[] = [];
+    const label = this.protocol === 'stas' ? 'STAS' : 'DSTAS';
+    if (args.sources.length < 2) {
+      return { ok: false, txids, reason: 'merge needs at least two UTXOs' };
+    }
+
+    // 1. Validate every source before anything is broadcast: right engine,
+    //    one token (identical script body past the owner), not frozen.
+    const owners = new Map<string, string>();
+    let body: string | null = null;
+    for (const s of args.sources) {
+      const outpoint = `${s.txid}.${s.vout}`;
+      let ownerPkh: string;
+      let sourceBody: string;
+      if (this.protocol === 'stas') {
+        if (!s.scriptHex.startsWith('76a914') || s.scriptHex.substring(46, 52) !== '88ac69') {
+          return { ok: false, txids, reason: `${outpoint} isn't a classic STAS script` };
+        }
+        ownerPkh = s.scriptHex.substring(6, 46);
+        sourceBody = s.scriptHex.substring(46);
+      } else {
+        const parsed = parseDstasLockingScript(s.scriptHex);
+        if (!parsed) return { ok: false, txids, reason: `${outpoint} isn't a DSTAS script` };
+        if (parsed.frozen) return { ok: false, txids, reason: `${outpoint} is frozen` };
+        if (parsed.actionData.data) {
+          return { ok: false, txids, reason: `${outpoint} carries action data (e.g. a swap offer) — only plain outputs merge` };
+        }
+        ownerPkh = parsed.ownerFieldHash160;
+        sourceBody = toHex(dstasCounterpartyScript(fromHex(s.scriptHex)));
+      }
+      if (body === null) body = sourceBody;
+      else if (sourceBody !== body) {
+        return { ok: false, txids, reason: `${outpoint} belongs to a different token than the first source` };
+      }
+      owners.set(outpoint, ownerPkh);
+    }
+
+    let bsv: any;
+    try {
+      bsv = await loadBsvJs();
+    } catch (err) {
+      return { ok: false, txids, reason: `load bsv-js failed: ${errMsg(err)}` };
+    }
+
+    // 2. Check we hold every owner key — a wrong keyId would otherwise only
+    //    surface as a script failure after earlier merges already went out.
+    for (const s of args.sources) {
+      const outpoint = `${s.txid}.${s.vout}`;
+      try {
+        const pub = await this.ownerPublicKey(s.brc42KeyId);
+        const pkh = bsv.crypto.Hash.sha256ripemd160(Buffer.from(pub, 'hex')).toString('hex');
+        if (pkh !== owners.get(outpoint)) {
+          return { ok: false, txids, reason: `${outpoint}: keyId ${s.brc42KeyId} does not own this output` };
+        }
+      } catch (err) {
+        return { ok: false, txids, reason: `getPublicKey for ${outpoint}: ${errMsg(err)}` };
+      }
+    }
+
+    const dest =
+      args.sources.find((s) => !decodeBrc29KeyId(s.brc42KeyId)) ?? args.sources[0];
+    const destOwner = owners.get(`${dest.txid}.${dest.vout}`)!;
+
+    // 3. Parent BEEFs, one chained walk per distinct txid.
+    let held: HeldUtxo[];
+    try {
+      const beefs = new Map<string, Beef>();
+      for (const s of args.sources) {
+        if (!beefs.has(s.txid)) {
+          const built = await buildChainedAtomicBeef({ wallet: this.wallet, txid: s.txid });
+          beefs.set(s.txid, Beef.fromBinary(built.beef));
+        }
+      }
+      // Destination first — for STAS it is the one source never moved.
+      held = [dest, ...args.sources.filter((s) => s !== dest)].map((s) => ({
+        ...s,
+        beef: beefs.get(s.txid)!,
+      }));
+    } catch (err) {
+      return { ok: false, txids, reason: `inputBEEF assembly: ${errMsg(err)}` };
+    }
+
+    // 4. One funding input per tx and no change fragments — the engine
+    //    commits to a single funding outpoint and at most one P2PKH change.
+    //    Held low for the whole run, restored on every exit path.
+    let previousBasketTarget: number | null = null;
+    try {
+      const res: any = await stasQuery(this.identityKey, this.chain, 'setDefaultBasketUTXOTarget', [0]);
+      previousBasketTarget = res?.previous ?? null;
+    } catch (err) {
+      tokenLog.warn('[token-merge] setDefaultBasketUTXOTarget failed — fragmentation may break the engine:', err);
+    }
+
+    const ctx = { bsv, dest, tokenId: args.tokenId, txids };
+    try {
+      // 5. Classic STAS: bring every source to the destination owner.
+      if (this.protocol === 'stas') {
+        for (let i = 0; i < held.length; i++) {
+          if (owners.get(`${held[i].txid}.${held[i].vout}`) !== destOwner) {
+            held[i] = await this.spend([held[i]], ctx, `${label} move to merge owner`);
+          }
+        }
+      }
+
+      // 6. Pair off level by level; an odd one out carries to the next level.
+      while (held.length > 1) {
+        const next: HeldUtxo[] = [];
+        for (let i = 0; i + 1 < held.length; i += 2) {
+          const pair = [held[i], held[i + 1]];
+          for (let k = 0; k < 2; k++) {
+            if (parentRawTx(pair[k]).length > RESET_PARENT_TX_BYTES) {
+              pair[k] = await this.spend([pair[k]], ctx, `${label} merge reset`);
+            }
+          }
+          next.push(await this.spend(pair, ctx, `${label} merge`));
+        }
+        if (held.length % 2 === 1) next.push(held[held.length - 1]);
+        held = next;
+      }
+
+      const [last] = held;
+      return {
+        ok: true,
+        txids,
+        merged: {
+          txid: last.txid,
+          vout: last.vout,
+          scriptHex: last.scriptHex,
+          satoshis: last.satoshis,
+          brc42KeyId: last.brc42KeyId,
+        },
+      };
+    } catch (err) {
+      return { ok: false, txids, reason: errMsg(err) };
+    } finally {
+      if (previousBasketTarget != null) {
+        try {
+          await stasQuery(this.identityKey, this.chain, 'setDefaultBasketUTXOTarget', [previousBasketTarget]);
+        } catch { /* best effort */ }
+      }
+    }
+  }
+
+  /**
+   * Spend one (move / reset) or two (merge) token UTXOs into a single output
+   * at the destination owner. Throws with the failing step in the message;
+   * `merge` turns that into its result.
+   */
+  private async spend(
+    inputs: HeldUtxo[],
+    ctx: { bsv: any; dest: TokenSourceUtxo; tokenId?: string; txids: string[] },
+    description: string
+  ): Promise<HeldUtxo> {
+    const { bsv, dest } = ctx;
+    const isMerge = inputs.length === 2;
+    const satoshis = inputs.reduce((n, u) => n + u.satoshis, 0);
+    const basket = this.protocol === 'stas' ? STAS_BASKET : DSTAS_BASKET;
+
+    // Token outputs are non-spendable in wallet-toolbox until flipped.
+    for (const u of inputs) {
+      try {
+        const outputId: number | null = await stasQuery(
+          this.identityKey, this.chain, 'findOutputIdByOutpoint', [u.txid, u.vout]
+        );
+        if (outputId) await stasQuery(this.identityKey, this.chain, 'setOutputSpendable', [outputId, true]);
+      } catch { /* best effort */ }
+    }
+
+    const inputBeef = new Beef();
+    for (const u of inputs) inputBeef.mergeBeef(u.beef);
+
+    let createRes: any;
+    try {
+      createRes = await this.wallet.createAction(
+        {
+          labels: ['peertoken'],
+          inputBEEF: inputBeef.toBinary(),
+          inputs: inputs.map((u, k) => ({
+            outpoint: `${u.txid}.${u.vout}`,
+            // A merge witness embeds the other input's whole parent tx.
+            unlockingScriptLength:
+              TOKEN_UNLOCK_ESTIMATE + (isMerge ? parentRawTx(inputs[1 - k]).length : 0),
+            inputDescription: `${description} input`,
+          })),
+          outputs: [
+            {
+              lockingScript: dest.scriptHex,
+              satoshis,
+              outputDescription: description,
+              basket,
+              customInstructions: JSON.stringify({ brc42KeyId: dest.brc42KeyId, tokenId: ctx.tokenId }),
+              tags: [this.protocol],
+            },
+          ],
+          description,
+          options: { randomizeOutputs: false },
+        } as any,
+        ORIGINATOR
+      );
+    } catch (err) {
+      throw new Error(`${description}: createAction: ${errMsg(err)}`);
+    }
+    const signable = createRes?.signableTransaction;
+    if (!signable?.tx) throw new Error(`${description}: createAction did not return signableTransaction`);
+
+    let tx: any;
+    try {
+      const beef = Beef.fromBinary(signable.tx);
+      const atomicTxid = (beef as any).atomicTxid as string | undefined;
+      const btx = atomicTxid ? beef.findTxid(atomicTxid) : undefined;
+      if (!btx?.tx) throw new Error('signable BEEF has no atomic tx');
+      tx = new bsv.Transaction(Buffer.from(btx.tx.toBinary()).toString('hex'));
+      inputs.forEach((u, k) => {
+        const prevTxid =
+          typeof tx.inputs[k].prevTxId === 'string'
+            ? tx.inputs[k].prevTxId
+            : Buffer.from(tx.inputs[k].prevTxId).toString('hex');
+        if (prevTxid !== u.txid || tx.inputs[k].outputIndex !== u.vout) {
+          throw new Error(`input ${k} is not ${u.txid}.${u.vout}`);
+        }
+        tx.inputs[k].output = new bsv.Transaction.Output({
+          script: bsv.Script.fromHex(u.scriptHex),
+          satoshis: u.satoshis,
+        });
+      });
+    } catch (err) {
+      throw new Error(`${description}: parse signable tx: ${errMsg(err)}`);
+    }
+
+    // Same single-funding / single-change constraint as the transfer services.
+    const fundingCount = tx.inputs.length - inputs.length;
+    if (fundingCount !== 1) {
+      throw new Error(
+        `${description}: the token engine needs exactly one BSV funding input, but the wallet picked ` +
+        `${fundingCount}. Consolidate your BSV by sending a small payment to yourself, then retry.`
+      );
+    }
+    const fundingInputIdx = inputs.length;
+
+    const spends: Record<number, { unlockingScript: string }> = {};
+    for (let k = 0; k < inputs.length; k++) {
+      const u = inputs[k];
+      const owner = ownerDerivationFor(u.brc42KeyId);
+      try {
+        const preimageBuf: Buffer = bsv.Transaction.sighash.sighashPreimage(
+          tx, DSTAS_SIGHASH_TYPE, k, bsv.Script.fromHex(u.scriptHex), new bsv.crypto.BN(u.satoshis)
+        );
+        const digest = Array.from(bsv.crypto.Hash.sha256sha256(preimageBuf) as Buffer) as number[];
+        const sigRes = await this.wallet.createSignature(
+          {
+            protocolID: owner.protocolID,
+            keyID: owner.keyID,
+            counterparty: owner.counterparty,
+            hashToDirectlySign: digest,
+          } as any,
+          ORIGINATOR
+        );
+        const other = isMerge ? inputs[1 - k] : null;
+        spends[k] = {
+          unlockingScript: buildDstasUnlockingScript({
+            unsignedTx: tx,
+            inputIdx: k,
+            fundingInputIdx,
+            preimage: new Uint8Array(preimageBuf),
+            signatureDer: new Uint8Array(sigRes.signature),
+            publicKey: fromHex(await this.ownerPublicKey(u.brc42KeyId)),
+            spendingType: this.protocol === 'dstas' ? 1 : null,
+            merge: other
+              ? {
+                  vout: other.vout,
+                  segments: mergeSegments(this.protocol, parentRawTx(other), fromHex(inputs[0].scriptHex)),
+                }
+              : undefined,
+          }),
+        };
+      } catch (err) {
+        throw new Error(`${description}: sign input ${k}: ${errMsg(err)}`);
+      }
+    }
+
+    let signResp: any;
+    try {
+      signResp = await this.wallet.signAction({ reference: signable.reference, spends } as any, ORIGINATOR);
+    } catch (err) {
+      throw new Error(`${description}: signAction: ${errMsg(err)}`);
+    }
+    const sendResults: any[] = Array.isArray(signResp?.sendWithResults) ? signResp.sendWithResults : [];
+    const failed = sendResults.find((r) => r?.status === 'failed');
+    if (failed || !signResp?.txid || !signResp?.tx) {
+      throw new Error(
+        `${description}: broadcast failed: ${JSON.stringify(failed ?? null)} (txid was ${signResp?.txid})`
+      );
+    }
+    const txid: string = signResp.txid;
+    ctx.txids.push(txid);
+    tokenLog.info(`[token-merge] ${description} ✓ ${wocExplorerBase(this.chain)}/tx/${txid}`);
+
+    await this.registerOutput(txid, satoshis, dest, ctx.tokenId);
+
+    return {
+      txid,
+      vout: 0,
+      scriptHex: dest.scriptHex,
+      satoshis,
+      brc42KeyId: dest.brc42KeyId,
+      beef: Beef.fromBinary(signResp.tx),
+    };
+  }
+
+  /**
+   * Link the new output into the satellite tables (the Assets view reads
+   * STAS / DSTAS holdings from there). The basket was declared at
+   * createAction, so no internalize. Best-effort: a scan re-finds it.
+   */
+  private async registerOutput(
+    txid: string,
+    satoshis: number,
+    dest: TokenSourceUtxo,
+    tokenId: string | undefined
+  ): Promise<void> {
+    const ownerFieldHash160 =
+      this.protocol === 'stas'
+        ? dest.scriptHex.substring(6, 46)
+        : parseDstasLockingScript(dest.scriptHex)?.ownerFieldHash160 ?? '';
+    const parsed =
+      this.protocol === 'stas'
+        ? (() => {
+            const meta = parseClassicStasMetadata(dest.scriptHex);
+            return {
+              tokenId: tokenId ?? '',
+              ownerFieldHash160,
+              symbol: meta?.symbol ?? undefined,
+              flagsHex: meta?.flagsHex ?? '',
+              serviceFields: [], optionalData: [],
+              freezeEnabled: false, confiscationEnabled: false, frozen: false, actionData: {},
+            };
+          })()
+        : { ...(parseDstasLockingScript(dest.scriptHex) ?? {}), tokenId: tokenId ?? '' };
+    try {
+      const r = await new StasRegistration(this.wallet, this.identityKey, this.chain).register({
+        txid,
+        vout: 0,
+        tokenSatoshis: satoshis,
+        ownerFieldHash160,
+        brc42KeyId: dest.brc42KeyId,
+        parsed: parsed as any,
+        protocol: { id: this.protocol, basketName: this.protocol === 'stas' ? STAS_BASKET : DSTAS_BASKET },
+        skipInternalize: true,
+      });
+      if (!r.registered && r.reason !== 'already registered') {
+        tokenLog.warn(`[token-merge] ${txid}.0 NOT registered: ${r.reason} (scan will recover)`);
+      }
+    } catch (err) {
+      tokenLog.warn(`[token-merge] ${txid}.0 registration threw: ${errMsg(err)} (scan will recover)`);
+    }
+  }
+
+  private async ownerPublicKey(brc42KeyId: string): Promise<string> {
+    const owner = ownerDerivationFor(brc42KeyId);
+    const { publicKey } = await this.wallet.getPublicKey(
+      {
+        protocolID: owner.protocolID,
+        keyID: owner.keyID,
+        counterparty: owner.counterparty,
+        forSelf: owner.forSelf,
+      } as any,
+      ORIGINATOR
+    );
+    return publicKey;
+  }
+}
+
+/** Raw bytes of the tx that created `u`, from its BEEF. */
+function parentRawTx(u: HeldUtxo): Uint8Array {
+  const btx = u.beef.findTxid(u.txid);
+  if (!btx?.tx) throw new Error(`BEEF for ${u.txid}.${u.vout} is missing its parent tx`);
+  return new Uint8Array(btx.tx.toBinary());
+}
+
+function fromHex(hex: string): Uint8Array {
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  return out;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function errMsg(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
@@ -0,0 +1,103 @@
+/**
+ * Merge-witness segments — pure byte helpers, mirror of the SDK's
+ * `InputBuilder.prepareMergeInfo` (dxs-bsv-token-sdk
+ * transaction/build/input-builder.js).
+ *
+ * A merge spends two token UTXOs of the same token in one tx. Each token
+ * input's witness carries the OTHER input's parent transaction, cut at every
+ * occurrence of the token's script body, so the engine can rebuild that
+ * parent, hash it, and check it really created the other input:
+ *
+ *   STAS   cut = first token input's locking script from byte 23 (everything
+ *                after `76 a9 14 <owner pkh>`); empty pieces are dropped.
+ *   DSTAS  cut = first token input's locking script after the owner and
+ *                action-data chunks; empty pieces are kept.
+ *
+ * Both lists are pushed in reverse order.
+ */
+
+export type MergeProtocol = 'stas' | 'dstas';
+
+/** Segments for one merge input's witness, already in push order. */
+export function mergeSegments(
+  protocol: MergeProtocol,
+  otherParentRawTx: Uint8Array,
+  firstInputLockingScript: Uint8Array
+): Uint8Array[] {
+  if (protocol === 'stas') {
+    if (firstInputLockingScript.length <= 23) {
+      throw new Error('STAS locking script too short to cut a merge segment');
+    }
+    return splitDroppingEmpty(otherParentRawTx, firstInputLockingScript.subarray(23)).reverse();
+  }
+  return splitKeepingEmpty(otherParentRawTx, dstasCounterpartyScript(firstInputLockingScript)).reverse();
+}
+
+/** DSTAS script body after the owner and action-data chunks. */
+export function dstasCounterpartyScript(lockingScript: Uint8Array): Uint8Array {
+  const owner = chunkEnd(lockingScript, 0);
+  if (owner === null || owner === 1) {
+    throw new Error('DSTAS locking script must start with owner field');
+  }
+  const actionData = chunkEnd(lockingScript, owner);
+  if (actionData === null) {
+    throw new Error('DSTAS locking script must include action data');
+  }
+  return lockingScript.subarray(actionData);
+}
+
+/** Offset just past the script chunk at `offset`, or null when truncated. */
+function chunkEnd(script: Uint8Array, offset: number): number | null {
+  if (offset >= script.length) return null;
+  const op = script[offset];
+  let header = 1;
+  let size = 0;
+  if (op > 0x00 && op < 0x4c) {
+    size = op;
+  } else if (op === 0x4c) {
+    header = 2;
+    size = script[offset + 1];
+  } else if (op === 0x4d) {
+    header = 3;
+    size = script[offset + 1] | (script[offset + 2] << 8);
+  } else if (op === 0x4e) {
+    header = 5;
+    size =
+      (script[offset + 1] |
+        (script[offset + 2] << 8) |
+        (script[offset + 3] << 16) |
+        (script[offset + 4] << 24)) >>>
+      0;
+  }
+  const end = offset + header + size;
+  return end > script.length ? null : end;
+}
+
+function indexOf(source: Uint8Array, needle: Uint8Array, from: number): number {
+  outer: for (let i = from; i <= source.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (source[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+function splitKeepingEmpty(source: Uint8Array, by: Uint8Array): Uint8Array[] {
+  if (by.length === 0) throw new Error('merge cut script must not be empty');
+  const pieces: Uint8Array[] = [];
+  let cursor = 0;
+  for (;;) {
+    const at = indexOf(source, by, cursor);
+    if (at < 0) {
+      pieces.push(source.subarray(cursor));
+      return pieces;
+    }
+    pieces.push(source.subarray(cursor, at));
+    cursor = at + by.length;
+  }
+}
+
+function splitDroppingEmpty(source: Uint8Array, by: Uint8Array): Uint8Array[] {
+  return splitKeepingEmpty(source, by).filter((p) => p.length > 0);
+}
@@ -0,0 +1,49 @@
+/**
+ * Coin selection for token sends — which of a token's UTXOs to spend to
+ * cover an amount.
+ *
+ *   1. If one UTXO covers the amount, use the smallest one that does: a
+ *      single-input send needs no merge, and the smallest fit leaves the
+ *      least token change behind.
+ *   2. Otherwise take UTXOs largest-first until the amount is covered —
+ *      the fewest inputs, so the fewest merge transactions.
+ *
+ * Amounts are bigints so BSV-21 values past 2^53 select correctly; STAS /
+ * DSTAS callers pass their satoshi amounts through `BigInt`.
+ */
+
+export interface TokenInputSelection<T> {
+  inputs: T[];
+  /** Sum of the selected inputs' amounts. */
+  total: bigint;
+}
+
+/** Returns null when all UTXOs together don't cover `amount`. */
+export function selectTokenInputs<T>(
+  utxos: readonly T[],
+  amount: bigint,
+  amountOf: (utxo: T) => bigint
+): TokenInputSelection<T> | null {
+  if (amount <= 0n) return null;
+
+  let bestSingle: T | null = null;
+  for (const u of utxos) {
+    const v = amountOf(u);
+    if (v >= amount && (bestSingle === null || v < amountOf(bestSingle))) bestSingle = u;
+  }
+  if (bestSingle !== null) return { inputs: [bestSingle], total: amountOf(bestSingle) };
+
+  const byAmountDesc = [...utxos].sort((a, b) => {
+    const av = amountOf(a);
+    const bv = amountOf(b);
+    return av < bv ? 1 : av > bv ? -1 : 0;
+  });
+  const inputs: T[] = [];
+  let total = 0n;
+  for (const u of byAmountDesc) {
+    inputs.push(u);
+    total += amountOf(u);
+    if (total >= amount) return { inputs, total };
+  }
+  return null;
+}
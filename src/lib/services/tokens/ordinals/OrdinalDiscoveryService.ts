@@ -0,0 +1,245 @@
+/**
+ * OrdinalDiscoveryService — find the 1Sat ordinals the wallet owns at its
+ * BSV-21 receive addresses (ordinals share those keys — see ./constants) and
+ * register them via OrdinalRegistration.
+ *
+ * Discovery shape mirrors BSV21DiscoveryService:
+ *   enumerate derived owner addresses
+ *   → query the 1Sat overlay's owner endpoint per address; keep the 1-sat
+ *      outputs it knows an inscription origin for, dropping BSV-21 balances
+ *   → parse the on-chain script locally and confirm owner + 1 sat
+ *   → register into the ordinals basket
+ *   → return a structured ScanResult
+ *
+ * WhatsOnChain's token endpoints don't index ordinals, so unlike the
+ * fungible scans this one reads the 1Sat overlay (`OneSatIndexerClient`).
+ * One scan per call; the Assets page Refresh triggers it.
+ */
+
+import { Transaction } from '@bsv/sdk';
+import { Address, fromHex } from 'dxs-bsv-token-sdk/bsv';
+import type { BSV21KeyDeriver } from '../bsv21/BSV21KeyDeriver';
+import type { IndexedOutput } from '../bsv21/OneSatIndexerClient';
+import { BSV20_CONTENT_TYPE, BSV21_GAP_LIMIT } from '../bsv21/constants';
+import { ORDINALS_BASKET } from '../../../constants/baskets';
+import type { OrdinalRegistration } from './OrdinalRegistration';
+import { parseOrdinalLockingScript, type OrdinalInscription } from './ordinalScript';
+import { ORDINAL_SATOSHIS } from './constants';
+import { loadInscription } from './gallery';
+
+export interface OrdinalsScanResult {
+  scannedAddresses: number;
+  /** Ordinals the indexer reported across scanned addresses. */
+  candidates: number;
+  /** Candidates whose output parses as an ordinal owned by the scanned address. */
+  ordinals: number;
+  registered: number;
+  skippedAlreadyKnown: number;
+  errors: Array<{ outpoint?: string; message: string }>;
+  registeredOutpoints: Array<{ txid: string; vout: number; origin: string }>;
+}
+
+/** Per-address owner query — `OneSatIndexerClient.getOwnedTxos`. */
+export interface OrdinalsDiscoveryIndexer {
+  getOwnedTxos(address: string): Promise<IndexedOutput[]>;
+}
+
+export interface OrdinalDiscoveryDeps {
+  /** The BSV-21 receive-key deriver; ordinals live at the same addresses. */
+  deriver: BSV21KeyDeriver;
+  indexer: OrdinalsDiscoveryIndexer;
+  registration: OrdinalRegistration;
+  /** Wallet exposing `getServices()` (wallet-toolbox Wallet). */
+  wallet: any;
+  gapLimit?: number;
+}
+
+function hash160ToAddress(hash160Hex: string): string {
+  return new (Address as any)(fromHex(hash160Hex)).Value as string;
+}
+
+/** An indexer row for an ordinal — one sat with an inscription origin, not a BSV-21 balance. */
+function isOrdinalCandidate(o: IndexedOutput): boolean {
+  const evs = o.events ?? [];
+  const bsv21 =
+    evs.includes('bsv21') || evs.includes(`type:${BSV20_CONTENT_TYPE}`) || !!o.id || o.amt !== undefined;
+  return o.satoshis === ORDINAL_SATOSHIS && !bsv21 && (!!o.origin || evs.includes('insc'));
+}
+
+/** Split a `txid_vout` / `txid.vout` outpoint on its last separator. */
+function splitOutpoint(outpoint: string): { txid: string; vout: number } | null {
+  const sep = Math.max(outpoint.lastIndexOf('.'), outpoint.lastIndexOf('_'));
+  if (sep <= 0) return null;
+  const vout = Number(outpoint.slice(sep + 1));
+  return Number.isNaN(vout) ? null : { txid: outpoint.slice(0, sep), vout };
+}
+
+export class OrdinalDiscoveryService {
+  constructor(private readonly deps: OrdinalDiscoveryDeps) {}
+
+  /**
+   * The inscription at `origin` (`txid_vout`), read from the origin tx. For
+   * the gallery's preview of an ordinal held away from its origin.
+   */
+  loadInscription(origin: string): Promise<OrdinalInscription | null> {
+    return loadInscription(this.deps.wallet, origin);
+  }
+
+  async scan(
+    opts: { onProgress?: (p: { phase: 'ordinals' | 'register'; done: number; total: number }) => void } = {}
+  ): Promise<OrdinalsScanResult> {
+    const result: OrdinalsScanResult = {
+      scannedAddresses: 0,
+      candidates: 0,
+      ordinals: 0,
+      registered: 0,
+      skippedAlreadyKnown: 0,
+      errors: [],
+      registeredOutpoints: [],
+    };
+
+    // 1. Derived owner hashes (hash160 → keyIndex), same window as BSV-21.
+    const gap = this.deps.gapLimit ?? BSV21_GAP_LIMIT;
+    const hwm = await this.deps.deriver.getHighWaterMark();
+    const upTo = hwm > 0 ? hwm + gap : Math.min(5, gap);
+    const ownerMap = await this.deps.deriver.enumerateOwnerFields(upTo);
+
+    const addressToHash = new Map<string, string>();
+    for (const hash160Hex of ownerMap.keys()) {
+      try {
+        addressToHash.set(hash160ToAddress(hash160Hex), hash160Hex);
+      } catch {
+        /* skip undecodable */
+      }
+    }
+    result.scannedAddresses = addressToHash.size;
+    if (addressToHash.size === 0) return result;
+
+    // 2. Owner query per address, filtered to ordinals.
+    const candidates: Array<{ address: string; out: IndexedOutput }> = [];
+    const addressList = [...addressToHash.keys()];
+    for (const [i, address] of addressList.entries()) {
+      opts.onProgress?.({ phase: 'ordinals', done: i, total: addressList.length });
+      try {
+        const txos = await this.deps.indexer.getOwnedTxos(address);
+        for (const o of txos) {
+          if (isOrdinalCandidate(o)) candidates.push({ address, out: o });
+        }
+      } catch (err) {
+        result.errors.push({
+          message: `indexer getOwnedTxos(${address}) failed: ${err instanceof Error ? err.message : String(err)}`,
+        });
+      }
+    }
+    result.candidates = candidates.length;
+    if (candidates.length === 0) return result;
+
+    const services = this.deps.wallet?.getServices?.();
+    if (!services) {
+      result.errors.push({ message: 'wallet.getServices() unavailable' });
+      return result;
+    }
+
+    // Ordinals already in the basket are skipped before any tx fetch.
+    const known = new Set<string>();
+    try {
+      const held: any = await this.deps.wallet.listOutputs({ basket: ORDINALS_BASKET, limit: 10000 });
+      for (const o of held?.outputs ?? []) {
+        const op = splitOutpoint(o.outpoint ?? '');
+        if (op) known.add(`${op.txid}_${op.vout}`);
+      }
+    } catch {
+      /* basket may not exist yet — treat everything as new */
+    }
+
+    // 3. Parse each candidate's output locally, then register.
+    const txCache = new Map<string, Transaction>();
+    for (const [i, { address, out }] of candidates.entries()) {
+      opts.onProgress?.({ phase: 'register', done: i, total: candidates.length });
+      const op = splitOutpoint(out.outpoint);
+      if (!op) {
+        result.errors.push({ outpoint: out.outpoint, message: 'malformed outpoint from indexer' });
+        continue;
+      }
+      const { txid, vout } = op;
+      if (known.has(`${txid}_${vout}`)) {
+        result.skippedAlreadyKnown++;
+        continue;
+      }
+
+      try {
+        let tx = txCache.get(txid);
+        if (!tx) {
+          const rawTxRes = await services.getRawTx(txid);
+          if (!rawTxRes?.rawTx) {
+            result.errors.push({
+              outpoint: `${txid}.${vout}`,
+              message: rawTxRes?.error?.message ?? 'getRawTx returned no rawTx',
+            });
+            continue;
+          }
+          tx = Transaction.fromBinary(rawTxRes.rawTx as number[]);
+          txCache.set(txid, tx);
+        }
+
+        const txout = tx.outputs[vout];
+        if (!txout) {
+          result.errors.push({ outpoint: `${txid}.${vout}`, message: 'output index out of range' });
+          continue;
+        }
+        const parsed = parseOrdinalLockingScript(txout.lockingScript.toHex());
+        if (!parsed || txout.satoshis !== ORDINAL_SATOSHIS) {
+          result.errors.push({ outpoint: `${txid}.${vout}`, message: 'parser rejected ordinal claim' });
+          continue;
+        }
+        const expectedHash160 = addressToHash.get(address);
+        if (parsed.ownerHash160 !== expectedHash160) {
+          result.errors.push({
+            outpoint: `${txid}.${vout}`,
+            message: `owner hash160 mismatch (script ${parsed.ownerHash160}, address-derived ${expectedHash160 ?? 'unknown'})`,
+          });
+          continue;
+        }
+        const keyIndex = ownerMap.get(parsed.ownerHash160);
+        if (keyIndex === undefined) continue;
+
+        // The indexer names the origin; an inscribed output it has no
+        // origin for yet is taken as its own.
+        const origin = out.origin
+          ? out.origin.replace('.', '_')
+          : parsed.inscription
+            ? `${txid}_${vout}`
+            : undefined;
+        if (!origin) {
+          result.errors.push({ outpoint: `${txid}.${vout}`, message: 'indexer reported no origin' });
+          continue;
+        }
+        result.ordinals++;
+
+        const reg = await this.deps.registration.register({
+          txid,
+          vout,
+          origin,
+          contentType: out.contentType ?? parsed.inscription?.contentType ?? '',
+          brc42KeyId: `recv ${keyIndex}`,
+          ownerAddress: address,
+        });
+        if (reg.registered) {
+          result.registered++;
+          result.registeredOutpoints.push({ txid, vout, origin });
+        } else if (reg.reason === 'already registered') {
+          result.skippedAlreadyKnown++;
+        } else if (reg.reason) {
+          result.errors.push({ outpoint: `${txid}.${vout}`, message: reg.reason });
+        }
+      } catch (err) {
+        result.errors.push({
+          outpoint: `${txid}.${vout}`,
+          message: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+
+    return result;
+  }
+}
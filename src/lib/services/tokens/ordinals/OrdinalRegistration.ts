@@ -0,0 +1,154 @@
+/**
+ * OrdinalRegistration — internalize a discovered 1Sat ordinal into the
+ * `ordinals` basket via `wallet.internalizeAction`.
+ *
+ * Same shape as BSV21Registration: no satellite table, the ordinal's identity
+ * rides on basket TAGS (`ordinal`, `origin:<txid_vout>`, `type:<content
+ * type>`) and the unlock recipe on `customInstructions`. Ordinals are owned
+ * by the BSV-21 receive keys (see ./constants), so the recipe names the
+ * BSV-21 protocolID.
+ *
+ * `outputs.spendable` is flipped to true after internalize, as for BSV-21 —
+ * wallet-toolbox marks the inscribed script non-standard, and the flag would
+ * otherwise keep the ordinal out of `createAction`.
+ */
+
+import type { WalletInterface } from '@bsv/sdk';
+import { ORDINALS_BASKET } from '../../../constants/baskets';
+import { BSV21_PROTOCOL_ID, BSV21_COUNTERPARTY } from '../bsv21/constants';
+import { ORDINAL_TAG } from './constants';
+import { buildChainedAtomicBeef } from '../../stas/buildChainedAtomicBeef';
+import { verifyAndPersistOnReceive } from '../verifyOnReceive';
+import { createWalletB2GVerifier } from '../spv/LocalBackToGenesisVerifier';
+
+const ORIGINATOR = 'admin.ordinals-discovery';
+
+export interface RegisterOrdinalArgs {
+  txid: string;
+  vout: number;
+  /** `txid_vout` the satoshi was inscribed at. */
+  origin: string;
+  /** The origin inscription's content type ('' when unknown). */
+  contentType: string;
+  /** BRC-42 keyID of the receive key that owns this output (e.g. `"recv 7"`). */
+  brc42KeyId: string;
+  /** Owner address (base58). Stored in customInstructions for diagnostics. */
+  ownerAddress: string;
+}
+
+export interface RegisterOrdinalResult {
+  registered: boolean;
+  txid: string;
+  vout: number;
+  outputId?: number;
+  reason?: string;
+}
+
+export class OrdinalRegistration {
+  constructor(
+    private readonly wallet: WalletInterface,
+    private readonly identityKey: string,
+    private readonly chain: 'main' | 'test' | 'ttn'
+  ) {}
+
+  async register(args: RegisterOrdinalArgs): Promise<RegisterOrdinalResult> {
+    const { txid, vout, origin, contentType, brc42KeyId, ownerAddress } = args;
+
+    // 1. Idempotency — the outputs row is the "have I seen this UTXO?" probe.
+    try {
+      const existingId = await this.stasQuery('findOutputIdByOutpoint', [txid, vout]);
+      if (existingId) {
+        return { registered: false, txid, vout, outputId: existingId, reason: 'already registered' };
+      }
+    } catch {
+      /* best-effort — proceed and let internalize handle duplicates */
+    }
+
+    // 2. Chained AtomicBEEF back to proven ancestors.
+    let atomicBeef: number[];
+    try {
+      const built = await buildChainedAtomicBeef({ wallet: this.wallet, txid });
+      atomicBeef = built.atomicBeef;
+    } catch (err) {
+      return {
+        registered: false,
+        txid,
+        vout,
+        reason: `chained BEEF assembly failed: ${err instanceof Error ? err.message : String(err)}`,
+      };
+    }
+
+    // 3. Unlock recipe + identity tags.
+    const customInstructions = JSON.stringify({
+      kind: 'ordinal',
+      protocolID: BSV21_PROTOCOL_ID,
+      keyID: brc42KeyId,
+      counterparty: BSV21_COUNTERPARTY,
+      origin,
+      ownerAddress,
+    });
+    const tags: string[] = [ORDINAL_TAG, `origin:${origin}`];
+    if (contentType) tags.push(`type:${contentType.toLowerCase()}`);
+
+    try {
+      await this.wallet.internalizeAction(
+        {
+          tx: atomicBeef,
+          outputs: [
+            {
+              outputIndex: vout,
+              protocol: 'basket insertion',
+              insertionRemittance: {
+                basket: ORDINALS_BASKET,
+                customInstructions,
+                tags,
+              },
+            },
+          ],
+          description: 'ordinals discovery',
+          seekPermission: false,
+        } as any,
+        ORIGINATOR
+      );
+    } catch (err) {
+      return {
+        registered: false,
+        txid,
+        vout,
+        reason: `internalizeAction failed: ${err instanceof Error ? err.message : String(err)}`,
+      };
+    }
+
+    // 4. Flip spendable=true so createAction accepts the ordinal as an input.
+    let outputId: number | undefined;
+    try {
+      outputId = await this.stasQuery('findOutputIdByOutpoint', [txid, vout]);
+      if (outputId) {
+        await this.stasQuery('setOutputSpendable', [outputId, true]);
+      }
+    } catch (err) {
+      console.warn(`[OrdinalRegistration] post-internalize step failed for ${txid}:${vout}`, err);
+    }
+
+    // Provenance back to the origin inscription. Fire-and-forget.
+    verifyAndPersistOnReceive(
+      this.identityKey,
+      this.chain,
+      { txid, vout, protocol: 'ordinals' },
+      createWalletB2GVerifier({ wallet: this.wallet, identityKey: this.identityKey, chain: this.chain })
+    );
+
+    return { registered: true, txid, vout, outputId };
+  }
+
+  private async stasQuery(method: string, args: any[]): Promise<any> {
+    const api =
+      typeof window !== 'undefined' ? (window as any).electronAPI?.stas : undefined;
+    if (!api) throw new Error('STAS query channel unavailable');
+    const res = await api.query(this.identityKey, this.chain, method, args);
+    if (!res || !res.success) {
+      throw new Error(`stas:query ${method} failed: ${res && res.error}`);
+    }
+    return res.result;
+  }
+}
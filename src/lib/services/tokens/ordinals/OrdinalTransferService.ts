@@ -0,0 +1,177 @@
+/**
+ * OrdinalTransferService — send one 1Sat ordinal to an address.
+ *
+ *   in :  [ the ordinal (1 sat) ]          ← signed by its BRC-42 owner key
+ *         + wallet-funded BSV inputs        ← signed natively by wallet
+ *   out:  [ recipient P2PKH (1 sat) ]
+ *         [ wallet BSV change ]             ← added by createAction
+ *
+ * Ordinals move by position: the satoshi at offset 0 of the inputs lands at
+ * offset 0 of the outputs. So the ordinal MUST be input 0 and the recipient
+ * output MUST be output 0 — createAction puts explicit inputs ahead of the
+ * funding it adds, and `randomizeOutputs: false` keeps our output first.
+ * Reordering either would hand the ordinal to the fee or to wallet change.
+ *
+ * Signing is the BSV-21 recipe: P2PKH sighash (ALL|FORKID) over the full
+ * source script — the `ord` envelope, when present, is dead code but part of
+ * what is signed.
+ */
+
+import type { WalletInterface } from '@bsv/sdk';
+import { Beef } from '@bsv/sdk';
+import { BSV21_PROTOCOL_ID, BSV21_COUNTERPARTY } from '../bsv21/constants';
+import { buildChainedAtomicBeef } from '../../stas/buildChainedAtomicBeef';
+import { buildOrdinalTransfer } from './ordinalScript';
+import { ORDINAL_SATOSHIS } from './constants';
+import { tokenLog } from '../tokenLog';
+
+const ORIGINATOR = 'admin.ordinals-transfer';
+
+const SIGHASH_ALL_FORKID = 0x41; // SIGHASH_ALL (0x01) | SIGHASH_FORKID (0x40)
+
+export interface OrdinalSourceUtxo {
+  txid: string;
+  vout: number;
+  scriptHex: string;
+  satoshis: number;
+  brc42KeyId: string;
+}
+
+export interface OrdinalTransferArgs {
+  source: OrdinalSourceUtxo;
+  recipientAddress: string;
+}
+
+export interface OrdinalTransferResult {
+  ok: boolean;
+  txid?: string;
+  reason?: string;
+  /** Signed AtomicBEEF of the transfer (from signAction). */
+  beef?: number[];
+}
+
+export interface OrdinalTransferDeps {
+  wallet: WalletInterface;
+  identityKey: string;
+  chain: 'main' | 'test' | 'ttn';
+}
+
+/** Dynamic bsv-js import — same pattern BSV21TransferService uses. */
+async function loadBsvJs(): Promise<{ bsv: any }> {
+  const bsvMod: any = await import('bsv');
+  return { bsv: bsvMod.default ?? bsvMod };
+}
+
+function toHex(bytes: number[] | Uint8Array): string {
+  const arr = Array.isArray(bytes) ? bytes : Array.from(bytes);
+  return arr.map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function errMsg(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+export class OrdinalTransferService {
+  constructor(private readonly deps: OrdinalTransferDeps) {}
+
+  async transfer(args: OrdinalTransferArgs): Promise<OrdinalTransferResult> {
+    const { source, recipientAddress } = args;
+    const { wallet } = this.deps;
+    if (source.satoshis !== ORDINAL_SATOSHIS) {
+      return { ok: false, reason: `an ordinal is one satoshi; ${source.txid}.${source.vout} holds ${source.satoshis}` };
+    }
+
+    let bsv: any;
+    try {
+      ({ bsv } = await loadBsvJs());
+    } catch (err) {
+      return { ok: false, reason: `load bsv-js: ${errMsg(err)}` };
+    }
+    let lockingScript: string;
+    try {
+      lockingScript = buildOrdinalTransfer(bsv.Address.fromString(recipientAddress).hashBuffer.toString('hex'));
+    } catch (err) {
+      return { ok: false, reason: `invalid recipient ${recipientAddress}: ${errMsg(err)}` };
+    }
+
+    let inputBEEF: number[];
+    try {
+      inputBEEF = (await buildChainedAtomicBeef({ wallet, txid: source.txid })).beef;
+    } catch (err) {
+      return { ok: false, reason: `inputBEEF: ${errMsg(err)}` };
+    }
+
+    let createRes: any;
+    try {
+      createRes = await wallet.createAction(
+        {
+          labels: ['peertoken'],
+          inputBEEF,
+          inputs: [
+            {
+              outpoint: `${source.txid}.${source.vout}`,
+              unlockingScriptLength: 108, // standard P2PKH unlock
+              inputDescription: 'Ordinal input',
+            },
+          ],
+          outputs: [{ lockingScript, satoshis: ORDINAL_SATOSHIS, outputDescription: 'Ordinal to recipient' }],
+          description: 'Ordinal transfer',
+          options: { randomizeOutputs: false },
+        } as any,
+        ORIGINATOR
+      );
+    } catch (err) {
+      return { ok: false, reason: `createAction: ${errMsg(err)}` };
+    }
+
+    const signable = createRes?.signableTransaction;
+    if (!signable || !signable.tx) {
+      return { ok: false, reason: 'createAction did not return signableTransaction' };
+    }
+
+    let unlockingScript: string;
+    try {
+      const beef = Beef.fromBinary(signable.tx);
+      const atomicTxid = (beef as any).atomicTxid as string | undefined;
+      if (!atomicTxid) return { ok: false, reason: 'signable BEEF has no atomic txid' };
+      const btx = beef.findTxid(atomicTxid);
+      if (!btx?.tx) return { ok: false, reason: `signable BEEF missing atomic tx ${atomicTxid}` };
+      const tx = new bsv.Transaction(Buffer.from(btx.tx.toBinary()).toString('hex'));
+
+      const sourceLocking = bsv.Script.fromHex(source.scriptHex);
+      const preimage = bsv.Transaction.sighash.sighashPreimage(
+        tx, SIGHASH_ALL_FORKID, 0, sourceLocking, new bsv.crypto.BN(source.satoshis)
+      );
+      const digest = Array.from(bsv.crypto.Hash.sha256sha256(preimage) as Buffer) as number[];
+      const derivation = {
+        protocolID: BSV21_PROTOCOL_ID,
+        keyID: source.brc42KeyId,
+        counterparty: BSV21_COUNTERPARTY,
+      };
+      const sigRes = await wallet.createSignature({ ...derivation, hashToDirectlySign: digest } as any, ORIGINATOR);
+      const { publicKey } = await wallet.getPublicKey(derivation as any, ORIGINATOR);
+      const sigHex = toHex(sigRes.signature) + SIGHASH_ALL_FORKID.toString(16).padStart(2, '0');
+      unlockingScript = bsv.Script.fromASM(`${sigHex} ${publicKey}`).toHex();
+    } catch (err) {
+      return { ok: false, reason: `sign ordinal input: ${errMsg(err)}` };
+    }
+
+    let signResp: any;
+    try {
+      signResp = await wallet.signAction(
+        { reference: signable.reference, spends: { 0: { unlockingScript } } } as any,
+        ORIGINATOR
+      );
+    } catch (err) {
+      return { ok: false, reason: `signAction: ${errMsg(err)}` };
+    }
+    const failed = (Array.isArray(signResp?.sendWithResults) ? signResp.sendWithResults : []).find(
+      (r: any) => r?.status === 'failed'
+    );
+    if (failed) {
+      return { ok: false, reason: `broadcast failed: ${JSON.stringify(failed)} (txid was ${signResp?.txid})` };
+    }
+    tokenLog.info(`[ordinals transfer] ${source.txid}.${source.vout} → ${recipientAddress}: ${signResp?.txid}`);
+    return { ok: true, txid: signResp?.txid, beef: signResp?.tx };
+  }
+}
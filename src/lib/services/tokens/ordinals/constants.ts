@@ -0,0 +1,18 @@
+/**
+ * 1Sat Ordinals constants.
+ *
+ * Ordinals have no key namespace of their own: they are owned by the BSV-21
+ * receive keys (`BSV21_PROTOCOL_ID`, keyID `recv N`, counterparty `self`).
+ * 1Sat wallets hand out a single "ordinals address" for fungible tokens and
+ * collectibles alike, so an inscription sent to the address this wallet gave
+ * out for BSV-21 has to be found — and spent — under the same key.
+ */
+
+/** An ordinal is exactly one satoshi. */
+export const ORDINAL_SATOSHIS = 1;
+
+/** Basket tag every ordinal carries, next to `origin:<txid_vout>` and `type:<content type>`. */
+export const ORDINAL_TAG = 'ordinal';
+
+/** Largest inscription body the gallery renders inline; bigger ones get a placeholder. */
+export const MAX_PREVIEW_BYTES = 5 * 1024 * 1024;
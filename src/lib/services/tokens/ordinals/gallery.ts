@@ -0,0 +1,146 @@
+/**
+ * Ordinals gallery helpers — shape a basket row for display, find an
+ * ordinal's inscription, and decide how (and whether) to preview it.
+ *
+ * The inscription lives at the ordinal's origin, which is only sometimes the
+ * output the wallet holds: once an ordinal has been transferred the held
+ * script is bare P2PKH and the content has to be read from the origin tx.
+ *
+ * Previews are inert by construction: images go through `<img>` (an SVG
+ * rendered that way runs no script), text is shown as text, and HTML only in
+ * a fully sandboxed iframe — no scripts, no same-origin, no navigation — under
+ * a Content-Security-Policy that loads nothing from the network.
+ * Anything else gets a placeholder with its content type.
+ */
+
+import { Transaction } from '@bsv/sdk';
+import { parseOrdEnvelope } from '../bsv21/inscription';
+import { parseOrdinalLockingScript, type OrdinalInscription } from './ordinalScript';
+import { ORDINAL_TAG } from './constants';
+
+export type InscriptionPreviewKind = 'image' | 'text' | 'html' | 'unsupported';
+
+/** One ordinal the wallet holds, as the gallery renders and sends it. */
+export interface OrdinalHolding {
+  /** `txid.vout` — wallet-toolbox form. */
+  outpoint: string;
+  txid: string;
+  vout: number;
+  satoshis: number;
+  spendable: boolean;
+  /** `txid_vout` the satoshi was inscribed at — the ordinal's identity. */
+  origin: string;
+  contentType: string;
+  brc42KeyId: string | null;
+  ownerAddress: string;
+  scriptHex: string | null;
+  /** The inscription, when the held script carries it (the ordinal sits at its origin). */
+  inscription?: OrdinalInscription;
+  protocol: 'ordinals';
+}
+
+/** Extract tag values like `origin:abc_0` → `abc_0`. */
+function tagValue(tags: string[] | undefined, prefix: string): string | undefined {
+  return tags?.find((t) => t.startsWith(`${prefix}:`))?.slice(prefix.length + 1);
+}
+
+/**
+ * Shape a wallet-toolbox `listOutputs` row from the ordinals basket (listed
+ * with tags, custom instructions and locking scripts) into an
+ * `OrdinalHolding`. Returns null for a row that isn't an ordinal.
+ */
+export function ordinalRowToHolding(row: any): OrdinalHolding | null {
+  const tags: string[] | undefined = row?.tags;
+  if (!tags?.includes(ORDINAL_TAG)) return null;
+  let ci: any = null;
+  try {
+    ci = row.customInstructions ? JSON.parse(row.customInstructions) : null;
+  } catch {
+    /* unreadable instructions — the row shows, but can't be sent */
+  }
+  const [txid, voutStr] = String(row.outpoint ?? '.').split('.');
+  const vout = Number(voutStr);
+  const scriptHex: string | null = row.lockingScript ?? null;
+  const parsed = scriptHex ? parseOrdinalLockingScript(scriptHex) : null;
+  return {
+    outpoint: row.outpoint,
+    txid,
+    vout: Number.isNaN(vout) ? 0 : vout,
+    satoshis: row.satoshis ?? 1,
+    spendable: !!row.spendable,
+    origin: tagValue(tags, 'origin') ?? ci?.origin ?? `${txid}_${voutStr}`,
+    contentType: tagValue(tags, 'type') ?? parsed?.inscription?.contentType ?? '',
+    brc42KeyId: typeof ci?.keyID === 'string' ? ci.keyID : null,
+    ownerAddress: typeof ci?.ownerAddress === 'string' ? ci.ownerAddress : '',
+    scriptHex,
+    inscription: parsed?.inscription,
+    protocol: 'ordinals',
+  };
+}
+
+/** How the gallery shows content of `contentType`. */
+export function previewKind(contentType: string): InscriptionPreviewKind {
+  const ct = contentType.split(';')[0].trim().toLowerCase();
+  if (ct.startsWith('image/')) return 'image';
+  if (ct === 'text/html') return 'html';
+  if (ct.startsWith('text/') || ct === 'application/json') return 'text';
+  return 'unsupported';
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  return bytes;
+}
+
+/** `data:` URL of an inscription body, for an `<img>`. */
+export function contentDataUrl(inscription: OrdinalInscription): string {
+  const bytes = hexToBytes(inscription.contentHex);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  const ct = inscription.contentType.split(';')[0].trim() || 'application/octet-stream';
+  return `data:${ct};base64,${btoa(binary)}`;
+}
+
+/** An inscription body decoded as UTF-8 (text / HTML previews). */
+export function contentText(inscription: OrdinalInscription): string {
+  return new TextDecoder('utf-8', { fatal: false }).decode(hexToBytes(inscription.contentHex));
+}
+
+/** What an HTML preview may load: inline styles and `data:` images, nothing fetched. */
+export const HTML_PREVIEW_CSP = "default-src 'none'; img-src data:; style-src 'unsafe-inline'";
+
+/**
+ * An HTML inscription as the preview iframe's `srcdoc`, with
+ * HTML_PREVIEW_CSP set ahead of any of its own markup so no remote image,
+ * stylesheet or font is requested (which would tell the host the wallet
+ * holds it). Kept after a leading doctype so the page keeps its mode.
+ */
+export function sandboxedHtmlDocument(html: string): string {
+  const meta = `<meta http-equiv="Content-Security-Policy" content="${HTML_PREVIEW_CSP}">`;
+  const doctype = /^\s*<!doctype[^>]*>/i.exec(html);
+  return doctype ? doctype[0] + meta + html.slice(doctype[0].length) : meta + html;
+}
+
+/**
+ * Read the inscription at `origin` (`txid_vout`) from the origin tx, through
+ * the wallet's Services. Null when the tx can't be fetched or the output
+ * carries no inscription — never throws.
+ */
+export async function loadInscription(wallet: any, origin: string): Promise<OrdinalInscription | null> {
+  const sep = origin.lastIndexOf('_');
+  const txid = origin.slice(0, sep);
+  const vout = Number(origin.slice(sep + 1));
+  if (sep <= 0 || Number.isNaN(vout)) return null;
+  try {
+    const res = await wallet?.getServices?.()?.getRawTx(txid);
+    if (!res?.rawTx) return null;
+    const output = Transaction.fromBinary(res.rawTx as number[]).outputs[vout];
+    const envelope = output ? parseOrdEnvelope(output.lockingScript.toHex()) : null;
+    return envelope ? { contentType: envelope.contentType, contentHex: envelope.contentHex } : null;
+  } catch {
+    return null;
+  }
+}
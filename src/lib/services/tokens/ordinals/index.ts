@@ -0,0 +1,12 @@
+/**
+ * 1Sat Ordinals service barrel. Script helpers, gallery helpers,
+ * registration, discovery and transfer — composed by
+ * `OrdinalsProtocolAdapter`. Keys and the indexer client are BSV-21's.
+ */
+
+export * from './constants';
+export * from './ordinalScript';
+export * from './gallery';
+export * from './OrdinalRegistration';
+export * from './OrdinalDiscoveryService';
+export * from './OrdinalTransferService';
@@ -0,0 +1,63 @@
+/**
+ * 1Sat Ordinals locking scripts: recognise an ordinal's output, and build the
+ * one a transfer pays.
+ *
+ * An ordinal's output is one satoshi locked to a P2PKH owner. The output the
+ * satoshi was inscribed at (its origin) carries the `ord` envelope ahead of
+ * the lock; a transfer usually re-locks it as bare P2PKH, the inscription
+ * staying at the origin. Either shape is an ordinal output here — whether
+ * the satoshi really is one is the indexer's claim, checked by the
+ * Back-to-Genesis walk (spv/tokenRules.ts).
+ *
+ * `application/bsv-20` inscriptions are BSV-21 balances, not collectibles,
+ * and are left to the BSV-21 parser.
+ */
+
+import { parseOrdEnvelope } from '../bsv21/inscription';
+import { BSV20_CONTENT_TYPE } from '../bsv21/constants';
+
+export interface OrdinalInscription {
+  /** Content type as inscribed, e.g. `image/png` or `text/plain;charset=utf-8`. */
+  contentType: string;
+  /** Inscription body, hex. */
+  contentHex: string;
+}
+
+export interface ParsedOrdinalOutput {
+  /** 20-byte owner field (PKH), hex. */
+  ownerHash160: string;
+  /** Present when this script carries the inscription itself. */
+  inscription?: OrdinalInscription;
+}
+
+const P2PKH_RE = /^76a914([0-9a-f]{40})88ac$/;
+
+/**
+ * Parse a locking script as an ordinal output: an inscribed P2PKH or a bare
+ * one. Returns null for anything else — never throws.
+ */
+export function parseOrdinalLockingScript(scriptHex: string): ParsedOrdinalOutput | null {
+  if (typeof scriptHex !== 'string') return null;
+  const lower = scriptHex.toLowerCase();
+  const bare = P2PKH_RE.exec(lower);
+  if (bare) return { ownerHash160: bare[1] };
+
+  const envelope = parseOrdEnvelope(lower);
+  if (!envelope || envelope.contentType === BSV20_CONTENT_TYPE) return null;
+  return {
+    ownerHash160: envelope.ownerHash160,
+    inscription: { contentType: envelope.contentType, contentHex: envelope.contentHex },
+  };
+}
+
+/**
+ * The locking script an ordinal transfer pays: plain P2PKH to the recipient.
+ * The inscription is not repeated — it lives at the origin, and the satoshi
+ * carries the ordinal by position.
+ */
+export function buildOrdinalTransfer(ownerHash160: string): string {
+  if (!/^[0-9a-fA-F]{40}$/.test(ownerHash160)) {
+    throw new Error(`buildOrdinalTransfer: ownerHash160 must be 40 hex chars (got ${ownerHash160.length})`);
+  }
+  return `76a914${ownerHash160.toLowerCase()}88ac`;
+}
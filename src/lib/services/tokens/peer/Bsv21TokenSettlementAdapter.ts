@@ -18,6 +18,7 @@ import { BSV21TransferService, type BSV21TransferDeps } from '../bsv21/BSV21Tran
 import { buildChainedAtomicBeef } from '../../stas/buildChainedAtomicBeef';
 import { parseBsv21LockingScript } from '../bsv21/inscription';
 import { verifyAndPersistOnReceive } from '../verifyOnReceive';
+import { createWalletB2GVerifier } from '../spv/LocalBackToGenesisVerifier';
 import { BSV21_PROTOCOL_ID } from '../bsv21/constants';
 import { BSV21_BASKET } from '../../../constants/baskets';
 import type {
@@ -198,11 +199,12 @@ export class Bsv21TokenSettlementAdapter implements TokenSettlementAdapter {
         const txid = (beef as any).atomicTxid as string | undefined
           ?? (beef as any).txs?.[(beef as any).txs.length - 1]?.txid;
         if (txid) {
-          verifyAndPersistOnReceive(this.deps.identityKey, this.chain, {
-            txid,
-            vout: settlement.outputIndex,
-            protocol: 'bsv-21',
-          });
+          verifyAndPersistOnReceive(
+            this.deps.identityKey,
+            this.chain,
+            { txid, vout: settlement.outputIndex, protocol: 'bsv-21' },
+            createWalletB2GVerifier({ wallet: this.wallet, identityKey: this.deps.identityKey, chain: this.chain })
+          );
         }
       } catch { /* best-effort — the Assets load-time pass is the backstop */ }
 
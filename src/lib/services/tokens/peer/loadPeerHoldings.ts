@@ -20,6 +20,7 @@ import { BSV21_BASKET } from '../../../constants/baskets';
 import { parseBsv21LockingScript } from './../bsv21/inscription';
 import { decodeBrc29KeyId } from './brc29KeyId';
 import type { TokenSourceRef } from './tokenSettlementTypes';
+import type { TokenSpendRequest } from '../../PermissionQueueManager';
 
 export type ProtocolId = 'stas' | 'dstas' | 'bsv-21';
 
@@ -75,7 +76,9 @@ export async function loadPeerHoldings(args: LoadPeerHoldingsArgs): Promise<Peer
           lockingScriptHex: scriptHex,
           satoshis: sats,
           protocol,
-          assetId: o.symbol ?? o.tokenId ?? protocol,
+          // The token id, never the symbol: any issuer can reuse a ticker.
+          // Without one, the outpoint keeps the holding from matching others.
+          assetId: o.tokenId ?? `${o.txid}.${o.vout}`,
           brc42KeyId: o.brc42KeyId ?? undefined,
           owner: brc29
             ? { keyID: `${brc29.derivationPrefix} ${brc29.derivationSuffix}`, counterparty: brc29.senderIdentityKey, forSelf: true }
@@ -140,3 +143,24 @@ export async function loadPeerHoldings(args: LoadPeerHoldingsArgs): Promise<Peer
 
   return next;
 }
+
+/**
+ * The token-spend permission request for sending `amount` units of a holding,
+ * so every entry point (HTTP routes and the Peer Tokens page) checks the same
+ * origin + protocol + asset allowance.
+ */
+export function holdingSpendRequest(
+  holding: PeerHolding,
+  args: { originator: string; recipient: string; amount: string; via: TokenSpendRequest['via'] }
+): Omit<TokenSpendRequest, 'requestID'> {
+  return {
+    originator: args.originator,
+    protocol: holding.protocol,
+    assetId: holding.source.assetId,
+    symbol: holding.label.split(' · ')[0],
+    amount: args.amount,
+    recipient: args.recipient,
+    outpoint: holding.key,
+    via: args.via,
+  };
+}
@@ -0,0 +1,348 @@
+/**
+ * LocalBackToGenesisVerifier — Back-to-Genesis provenance decided inside the
+ * wallet, from transactions it can read itself (transactionSources.ts), so
+ * counterfeit detection does not depend on WhatsOnChain's B2G endpoint.
+ *
+ * From the queried output it walks back through every input that carries the
+ * same asset, to the transaction that created the asset (tokenRules.ts):
+ *
+ *   - each hop must conserve the asset — its outputs carry no more than its
+ *     inputs did, else `not-authentic` / `conservation-violation`;
+ *   - the walk must end at a valid genesis — for STAS / DSTAS an issue that
+ *     spends the issuer's contract output, for BSV-21 the deploy+mint — else
+ *     `not-authentic` / `no-genesis`;
+ *   - every hop with a merkle path is checked against the chain tracker
+ *     (SPV). A path that does not verify is `undetermined` / `proof-invalid`:
+ *     a lagging chain tracker must not make a real token look fake.
+ *
+ * An ordinal carries no amount to conserve: its single satoshi is followed
+ * back by position to the output it first appeared at, which must carry the
+ * inscription, else `not-authentic` / `no-genesis`.
+ *
+ * The result has the same shape as BackToGenesisClient.verify and the same
+ * fail-safe contract: a tx no source can supply, a walk past `maxDepth`, or
+ * an output that does not read as the standard is `undetermined`, never
+ * `not-authentic` and never a throw. Only a rule that was actually checked
+ * and failed makes a counterfeit.
+ *
+ * `crossCheck` (typically the remote BackToGenesisClient) is consulted after
+ * the local walk: it decides what the walk could not, and when both reach
+ * different settled verdicts the result is `undetermined` /
+ * `verifiers-disagree` — neither side alone marks a token fake or real.
+ * WoC has no ordinals endpoint, so ordinals are never cross-checked.
+ */
+
+import type { Transaction, WalletInterface } from '@bsv/sdk';
+import {
+  BackToGenesisClient,
+  formatGenesisRef,
+  type B2GOutpoint,
+  type B2GResultState,
+  type B2GVerifyResult,
+  type BackToGenesisVerifier,
+  type TokenStd,
+} from '../woc/BackToGenesisClient';
+import { isIssuerContractOutput, readOrdinalSat, readTokenUnit, type TokenUnit } from './tokenRules';
+import { walletTransactionSource, type TransactionSource } from './transactionSources';
+
+/** WoC clamps B2G walks at 100 hops; match it. */
+const DEFAULT_MAX_DEPTH = 100;
+
+const COINBASE_TXID = '0'.repeat(64);
+
+/** The SDK's ChainTracker, narrowed to what merkle path checks call. */
+export interface RootChecker {
+  isValidRootForHeight(root: string, height: number): Promise<boolean>;
+}
+
+export interface LocalBackToGenesisOptions {
+  source: TransactionSource;
+  /** Checks merkle roots; resolved lazily. Omitted: proofs are not checked. */
+  chainTracker?: () => Promise<RootChecker | null | undefined>;
+  crossCheck?: BackToGenesisVerifier;
+  maxDepth?: number;
+}
+
+/** Why a walk stopped short of `authentic`. */
+class WalkStop extends Error {
+  constructor(
+    readonly result: Exclude<B2GResultState, 'authentic'>,
+    readonly reason: string,
+    readonly failedAt: B2GOutpoint
+  ) {
+    super(reason);
+  }
+}
+
+interface Walked {
+  genesis: B2GOutpoint;
+  /** Hops from the walked tx back to the genesis tx. */
+  hops: number;
+}
+
+export class LocalBackToGenesisVerifier implements BackToGenesisVerifier {
+  private readonly maxDepth: number;
+  private tracker: Promise<RootChecker | null> | null = null;
+
+  constructor(private readonly opts: LocalBackToGenesisOptions) {
+    this.maxDepth = opts.maxDepth ?? DEFAULT_MAX_DEPTH;
+  }
+
+  async verify(
+    std: TokenStd,
+    txid: string,
+    index: number,
+    opts: { expectedGenesis?: string } = {}
+  ): Promise<B2GVerifyResult> {
+    const local = await this.verifyLocally(std, txid, index, opts);
+    if (!this.opts.crossCheck || std === 'ordinals') return local;
+
+    let remote: B2GVerifyResult;
+    try {
+      remote = await this.opts.crossCheck.verify(std, txid, index, opts);
+    } catch {
+      return local;
+    }
+    if (local.result === 'undetermined') return remote.result === 'undetermined' ? local : remote;
+    if (remote.result === 'undetermined' || remote.result === local.result) return local;
+    return { outpoint: local.outpoint, result: 'undetermined', reason: 'verifiers-disagree' };
+  }
+
+  /** The local walk alone, without the cross-check. */
+  async verifyLocally(
+    std: TokenStd,
+    txid: string,
+    index: number,
+    opts: { expectedGenesis?: string } = {}
+  ): Promise<B2GVerifyResult> {
+    const outpoint = { txid, index };
+    try {
+      const tx = await this.load(txid, outpoint);
+      const output = tx.outputs[index];
+      let walked: Walked;
+      let result: B2GVerifyResult;
+      if (std === 'ordinals') {
+        if (!output || !readOrdinalSat(output.lockingScript.toHex(), output.satoshis ?? 0)) {
+          return { outpoint, result: 'undetermined', reason: 'not-a-token' };
+        }
+        walked = await this.walkOrdinal(tx, index);
+        result = {
+          outpoint,
+          result: 'authentic',
+          assetKey: { id: formatGenesisRef(walked.genesis) },
+          genesis: walked.genesis,
+          genesisDepth: walked.hops,
+          amount: '1',
+          conservationOk: true,
+        };
+      } else {
+        const unit = output && readTokenUnit(std, output.lockingScript.toHex(), output.satoshis ?? 0, { txid, vout: index });
+        if (!unit) {
+          return { outpoint, result: 'undetermined', reason: 'not-a-token' };
+        }
+        walked = await this.walk(std, tx, unit, 0, new Map());
+        result = {
+          outpoint,
+          result: 'authentic',
+          assetKey: unit.assetKey,
+          genesis: walked.genesis,
+          genesisDepth: walked.hops,
+          amount: unit.amount.toString(),
+          conservationOk: true,
+        };
+      }
+      if (opts.expectedGenesis) {
+        result.matchesExpectedGenesis = formatGenesisRef(walked.genesis) === opts.expectedGenesis;
+      }
+      return result;
+    } catch (err) {
+      if (err instanceof WalkStop) {
+        return {
+          outpoint,
+          result: err.result,
+          reason: err.reason,
+          conservationOk: err.reason === 'conservation-violation' ? false : undefined,
+          failedAt: err.failedAt,
+        };
+      }
+      return { outpoint, result: 'undetermined', reason: 'source-unavailable', failedAt: outpoint };
+    }
+  }
+
+  /**
+   * Walk `tx` back to the genesis of `unit`'s asset. `seen` shares the result
+   * for a tx reached through several inputs (merges), so each is walked once.
+   */
+  private walk(
+    std: TokenStd,
+    tx: Transaction,
+    unit: TokenUnit,
+    depth: number,
+    seen: Map<string, Promise<Walked>>
+  ): Promise<Walked> {
+    const txid = tx.id('hex');
+    let walked = seen.get(txid);
+    if (!walked) {
+      walked = this.walkTx(std, tx, txid, unit, depth, seen);
+      seen.set(txid, walked);
+    }
+    return walked;
+  }
+
+  private async walkTx(
+    std: TokenStd,
+    tx: Transaction,
+    txid: string,
+    unit: TokenUnit,
+    depth: number,
+    seen: Map<string, Promise<Walked>>
+  ): Promise<Walked> {
+    const here = { txid, index: 0 };
+    if (depth > this.maxDepth) {
+      throw new WalkStop('undetermined', 'max-depth-exceeded', here);
+    }
+    await this.checkProof(tx, txid);
+
+    // This tx's outputs of the asset; a BSV-21 deploy+mint ends the walk.
+    let firstOut: B2GOutpoint | null = null;
+    let outTotal = 0n;
+    for (const [vout, o] of tx.outputs.entries()) {
+      const u = readTokenUnit(std, o.lockingScript.toHex(), o.satoshis ?? 0, { txid, vout });
+      if (!u || u.asset !== unit.asset) continue;
+      if (u.mint) return { genesis: { txid, index: vout }, hops: 0 };
+      outTotal += u.amount;
+      firstOut = firstOut ?? { txid, index: vout };
+    }
+
+    // Inputs carrying the asset, and whether one spends the issuer's contract output.
+    const tokenInputs: Transaction[] = [];
+    let inTotal = 0n;
+    let issuerInput = false;
+    for (const input of tx.inputs) {
+      const sourceTxid = input.sourceTXID ?? input.sourceTransaction?.id('hex');
+      if (!sourceTxid) throw new WalkStop('undetermined', 'source-unavailable', here);
+      if (sourceTxid === COINBASE_TXID) continue;
+      const source = await this.load(sourceTxid, here);
+      const sourceOutput = source.outputs[input.sourceOutputIndex];
+      if (!sourceOutput) throw new WalkStop('undetermined', 'source-unavailable', here);
+      const scriptHex = sourceOutput.lockingScript.toHex();
+      const u = readTokenUnit(std, scriptHex, sourceOutput.satoshis ?? 0, {
+        txid: sourceTxid,
+        vout: input.sourceOutputIndex,
+      });
+      if (u && u.asset === unit.asset) {
+        inTotal += u.amount;
+        tokenInputs.push(source);
+      } else if (std !== 'bsv21' && isIssuerContractOutput(unit, scriptHex)) {
+        issuerInput = true;
+      }
+    }
+
+    if (tokenInputs.length === 0) {
+      if (issuerInput && firstOut) return { genesis: firstOut, hops: 0 };
+      throw new WalkStop('not-authentic', 'no-genesis', firstOut ?? here);
+    }
+    if (outTotal > inTotal) {
+      throw new WalkStop('not-authentic', 'conservation-violation', firstOut ?? here);
+    }
+
+    // Every token input must lead back to a genesis; the first one names it.
+    const parents = await Promise.all(tokenInputs.map((source) => this.walk(std, source, unit, depth + 1, seen)));
+    return { genesis: parents[0].genesis, hops: parents[0].hops + 1 };
+  }
+
+  /**
+   * Follow an ordinal's satoshi back from output `vout` of `tx`: its offset
+   * among the outputs names the input it came from. A 1-sat input is the
+   * previous hop; anything else means the satoshi is new here, so this
+   * output is the origin and must be inscribed.
+   */
+  private async walkOrdinal(tx: Transaction, vout: number): Promise<Walked> {
+    let txid = tx.id('hex');
+    for (let hops = 0; hops <= this.maxDepth; hops++) {
+      const here = { txid, index: vout };
+      await this.checkProof(tx, txid);
+
+      let offset = 0;
+      for (let i = 0; i < vout; i++) offset += tx.outputs[i].satoshis ?? 0;
+
+      let parent: { txid: string; vout: number; tx: Transaction } | null = null;
+      let covered = 0;
+      for (const input of tx.inputs) {
+        const sourceTxid = input.sourceTXID ?? input.sourceTransaction?.id('hex');
+        if (!sourceTxid) throw new WalkStop('undetermined', 'source-unavailable', here);
+        if (sourceTxid === COINBASE_TXID) break;
+        const source = await this.load(sourceTxid, here);
+        const sourceOutput = source.outputs[input.sourceOutputIndex];
+        if (!sourceOutput) throw new WalkStop('undetermined', 'source-unavailable', here);
+        const sats = sourceOutput.satoshis ?? 0;
+        if (offset < covered + sats) {
+          if (sats === 1) parent = { txid: sourceTxid, vout: input.sourceOutputIndex, tx: source };
+          break;
+        }
+        covered += sats;
+      }
+
+      if (!parent) {
+        const output = tx.outputs[vout];
+        if (readOrdinalSat(output.lockingScript.toHex(), output.satoshis ?? 0)?.inscribed) {
+          return { genesis: here, hops };
+        }
+        throw new WalkStop('not-authentic', 'no-genesis', here);
+      }
+      ({ tx, txid, vout } = parent);
+    }
+    throw new WalkStop('undetermined', 'max-depth-exceeded', { txid, index: vout });
+  }
+
+  private async load(txid: string, failedAt: B2GOutpoint): Promise<Transaction> {
+    const tx = await this.opts.source.getTransaction(txid);
+    if (!tx) throw new WalkStop('undetermined', 'source-unavailable', failedAt);
+    return tx;
+  }
+
+  /** SPV: a merkle path the tx carries must lead to a block root the chain tracker knows. */
+  private async checkProof(tx: Transaction, txid: string): Promise<void> {
+    if (!tx.merklePath) return;
+    const tracker = await this.chainTracker();
+    if (!tracker) return;
+    let ok = false;
+    try {
+      ok = await tx.merklePath.verify(txid, tracker as any);
+    } catch {
+      throw new WalkStop('undetermined', 'source-unavailable', { txid, index: 0 });
+    }
+    if (!ok) throw new WalkStop('undetermined', 'proof-invalid', { txid, index: 0 });
+  }
+
+  private chainTracker(): Promise<RootChecker | null> {
+    if (!this.tracker) {
+      this.tracker = (async () => {
+        try {
+          return (await this.opts.chainTracker?.()) ?? null;
+        } catch {
+          return null;
+        }
+      })();
+    }
+    return this.tracker;
+  }
+}
+
+/**
+ * The wallet's verifier: reads from its DB, then its Services; checks merkle
+ * paths with its chain tracker; cross-checks against WhatsOnChain's B2G
+ * unless `crossCheck` is false.
+ */
+export function createWalletB2GVerifier(args: {
+  wallet: WalletInterface;
+  identityKey: string;
+  chain: 'main' | 'test' | 'ttn';
+  crossCheck?: boolean;
+}): LocalBackToGenesisVerifier {
+  return new LocalBackToGenesisVerifier({
+    source: walletTransactionSource(args),
+    chainTracker: async () => (args.wallet as any).getServices?.()?.getChainTracker?.(),
+    crossCheck: args.crossCheck === false ? undefined : new BackToGenesisClient({ chain: args.chain }),
+  });
+}
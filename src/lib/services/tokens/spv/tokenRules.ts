@@ -0,0 +1,94 @@
+/**
+ * Per-protocol token rules for the local Back-to-Genesis verifier: what a
+ * token output carries, and what makes a transaction a valid genesis for it.
+ *
+ *  - STAS / DSTAS are satoshi-backed: an output's amount is its satoshis. The
+ *    asset is the redemption (issuer) PKH — plus the symbol for classic STAS,
+ *    whose PKH is shared by every token an issuer minted. An issue spends the
+ *    issuer's contract output, a P2PKH to that same PKH, so only the issuer's
+ *    key can mint: a transaction that creates the asset from nothing WITHOUT
+ *    spending such an output is a counterfeit.
+ *  - BSV-21 carries its amount in the inscription. The asset is the
+ *    deploy+mint outpoint, and a deploy+mint output is its own genesis; a
+ *    transfer of an id that none of its inputs carry mints nothing.
+ *
+ * Conservation, all three: in one transaction, the outputs of an asset may
+ * not carry more than that asset's inputs brought in. Less is allowed (a STAS
+ * redeem, a BSV-21 burn).
+ *
+ * Ordinals are not counted but followed: a 1Sat ordinal is one satoshi, and a
+ * satoshi moves by position (first in, first out). An output's satoshi comes
+ * from the input covering the same offset; when that input was itself a
+ * 1-sat output the ordinal moved, otherwise the satoshi is new here and this
+ * output is its origin — which must carry the inscription.
+ */
+
+import { parseClassicStasTokenFields, parseDstasLockingScript } from '../../stas/dstasParser';
+import { parseBsv21LockingScript, parseOrdEnvelope } from '../bsv21/inscription';
+import type { TokenStd } from '../woc/BackToGenesisClient';
+
+export interface TokenUnit {
+  /** What conservation is counted per. */
+  asset: string;
+  amount: bigint;
+  /** Standard-specific identity, as B2G reports it. */
+  assetKey: { tokenId?: string; id?: string };
+  /** BSV-21 deploy+mint: this output is its asset's genesis. */
+  mint?: boolean;
+}
+
+/**
+ * Read one output as a token of standard `std`. Returns null for anything
+ * else — never throws. `outpoint` names the output, which a BSV-21
+ * deploy+mint needs for its id.
+ */
+export function readTokenUnit(
+  std: TokenStd,
+  scriptHex: string,
+  satoshis: number,
+  outpoint: { txid: string; vout: number }
+): TokenUnit | null {
+  if (std === 'stas') {
+    const fields = parseClassicStasTokenFields(scriptHex);
+    if (!fields) return null;
+    return {
+      asset: `${fields.tokenId}:${fields.symbol ?? ''}`,
+      amount: BigInt(satoshis),
+      assetKey: { tokenId: fields.tokenId },
+    };
+  }
+  if (std === 'dstas') {
+    const parsed = parseDstasLockingScript(scriptHex);
+    if (!parsed) return null;
+    return { asset: parsed.tokenId, amount: BigInt(satoshis), assetKey: { tokenId: parsed.tokenId } };
+  }
+  const parsed = parseBsv21LockingScript(scriptHex);
+  if (!parsed || !/^\d+$/.test(parsed.amt)) return null;
+  // A deploy+mint has no id in its payload: its own outpoint is the id.
+  const mint = parsed.id === '';
+  const id = mint ? `${outpoint.txid}_${outpoint.vout}` : parsed.id;
+  return { asset: id, amount: BigInt(parsed.amt), assetKey: { id }, mint };
+}
+
+/**
+ * True when `sourceScriptHex` is the issuer's contract output for `unit`: a
+ * P2PKH to its redemption PKH, bare or followed by the OP_RETURN token scheme
+ * a CreateContract writes after it. Only meaningful for STAS / DSTAS.
+ */
+export function isIssuerContractOutput(unit: TokenUnit, sourceScriptHex: string): boolean {
+  const pkh = unit.assetKey.tokenId;
+  if (!pkh) return false;
+  const hex = sourceScriptHex.toLowerCase();
+  const p2pkh = `76a914${pkh.toLowerCase()}88ac`;
+  return hex === p2pkh || hex.startsWith(`${p2pkh}6a`);
+}
+
+/**
+ * Read one output as a 1Sat ordinal: a single satoshi, with or without the
+ * inscription in its own script (transfers usually re-lock it as plain
+ * P2PKH). Returns null for any other output.
+ */
+export function readOrdinalSat(scriptHex: string, satoshis: number): { inscribed: boolean } | null {
+  if (satoshis !== 1) return null;
+  return { inscribed: parseOrdEnvelope(scriptHex) !== null };
+}
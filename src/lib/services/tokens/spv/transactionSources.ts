@@ -0,0 +1,142 @@
+/**
+ * Where the local Back-to-Genesis verifier reads transactions from.
+ *
+ * A source answers one txid with the parsed transaction — its merkle path
+ * attached when the source has one — or `null` when it doesn't hold it.
+ * Sources are tried in order (`chainSources`), cheapest first:
+ *
+ *  1. `BeefTransactionSource` — transactions already in hand: fixtures in
+ *     tests, and every BEEF a later source returned (ancestors included).
+ *  2. `StorageTransactionSource` — the wallet DB: proven txs with their
+ *     merkle paths, and the input BEEF each wallet transaction arrived with.
+ *     No network at all.
+ *  3. `ServicesTransactionSource` — buildChainedAtomicBeef through the
+ *     wallet's Services, which brings the tx and its unconfirmed ancestry
+ *     back to a merkle proof in one BEEF.
+ *
+ * Only (3) can touch the network, and none of them touch WhatsOnChain's
+ * token endpoints.
+ */
+
+import { Beef, MerklePath, Transaction, type WalletInterface } from '@bsv/sdk';
+import { buildChainedAtomicBeef } from '../../stas/buildChainedAtomicBeef';
+import { stasQuery } from '../../stas/stasIpc';
+
+export interface TransactionSource {
+  getTransaction(txid: string): Promise<Transaction | null>;
+}
+
+/** Transactions held in a BEEF, which later sources add to. */
+export class BeefTransactionSource implements TransactionSource {
+  private readonly beef = new Beef();
+
+  constructor(beefs: Array<Beef | number[]> = []) {
+    beefs.forEach((b) => this.add(b));
+  }
+
+  add(beef: Beef | number[]): void {
+    this.beef.mergeBeef(beef);
+  }
+
+  async getTransaction(txid: string): Promise<Transaction | null> {
+    const btx = this.beef.findTxid(txid);
+    if (!btx?.tx) return null;
+    const tx = btx.tx;
+    tx.merklePath = tx.merklePath ?? this.beef.findBump(txid);
+    return tx;
+  }
+}
+
+/** Transactions the wallet DB already holds (see StasQueries.getStoredTransactions). */
+export class StorageTransactionSource implements TransactionSource {
+  constructor(
+    private readonly identityKey: string,
+    private readonly chain: 'main' | 'test' | 'ttn',
+    private readonly known: BeefTransactionSource = new BeefTransactionSource()
+  ) {}
+
+  async getTransaction(txid: string): Promise<Transaction | null> {
+    const rows: Array<{ txid: string; rawTx: number[] | null; merklePath: number[] | null; inputBEEF: number[] | null }> =
+      (await stasQuery(this.identityKey, this.chain, 'getStoredTransactions', [[txid]])) ?? [];
+    let found: Transaction | null = null;
+    for (const row of rows) {
+      // The input BEEF carries this tx's ancestors; keep them for the next hops.
+      if (row.inputBEEF) {
+        try {
+          this.known.add(row.inputBEEF);
+        } catch {
+          /* a malformed BEEF only costs us the shortcut */
+        }
+      }
+      if (row.rawTx && !found) {
+        found = Transaction.fromBinary(row.rawTx);
+      }
+      if (row.merklePath && found) {
+        found.merklePath = MerklePath.fromBinary(row.merklePath);
+      }
+    }
+    return found;
+  }
+}
+
+/** Transactions fetched through the wallet's Services as a chained BEEF. */
+export class ServicesTransactionSource implements TransactionSource {
+  constructor(
+    private readonly wallet: WalletInterface,
+    private readonly known: BeefTransactionSource = new BeefTransactionSource()
+  ) {}
+
+  async getTransaction(txid: string): Promise<Transaction | null> {
+    try {
+      const built = await buildChainedAtomicBeef({ wallet: this.wallet, txid });
+      this.known.add(built.beef);
+    } catch {
+      return null;
+    }
+    return this.known.getTransaction(txid);
+  }
+}
+
+/**
+ * Try `sources` in order; the first that has the tx wins. Results are cached
+ * for the life of the returned source, and a failing source counts as a miss.
+ */
+export function chainSources(sources: TransactionSource[]): TransactionSource {
+  const cache = new Map<string, Transaction>();
+  return {
+    async getTransaction(txid: string): Promise<Transaction | null> {
+      const cached = cache.get(txid);
+      if (cached) return cached;
+      for (const source of sources) {
+        let tx: Transaction | null = null;
+        try {
+          tx = await source.getTransaction(txid);
+        } catch {
+          /* try the next source */
+        }
+        if (tx) {
+          cache.set(txid, tx);
+          return tx;
+        }
+      }
+      return null;
+    },
+  };
+}
+
+/**
+ * The sources the wallet verifies with: what it has seen, its DB, then its
+ * Services. BEEF from the DB and Services land in the shared first source.
+ */
+export function walletTransactionSource(args: {
+  wallet: WalletInterface;
+  identityKey: string;
+  chain: 'main' | 'test' | 'ttn';
+}): TransactionSource {
+  const known = new BeefTransactionSource();
+  return chainSources([
+    known,
+    new StorageTransactionSource(args.identityKey, args.chain, known),
+    new ServicesTransactionSource(args.wallet, known),
+  ]);
+}
@@ -15,7 +15,12 @@
  * written; `undetermined` is left for a retry, never frozen.
  */
 
-import { BackToGenesisClient, formatGenesisRef, type TokenStd } from './woc/BackToGenesisClient';
+import {
+  BackToGenesisClient,
+  formatGenesisRef,
+  type BackToGenesisVerifier,
+  type TokenStd,
+} from './woc/BackToGenesisClient';
 import { stasQuery } from '../stas/stasIpc';
 import type { TokenProtocolId } from './TokenProtocolAdapter';
 
@@ -23,13 +28,14 @@ const PROTOCOL_TO_STD: Record<TokenProtocolId, TokenStd> = {
   stas: 'stas',
   dstas: 'dstas',
   'bsv-21': 'bsv21',
+  ordinals: 'ordinals',
 };
 
 export function verifyAndPersistOnReceive(
   identityKey: string,
   chain: 'main' | 'test' | 'ttn',
   outpoint: { txid: string; vout: number; protocol: TokenProtocolId },
-  client: BackToGenesisClient = new BackToGenesisClient({ chain })
+  client: BackToGenesisVerifier = new BackToGenesisClient({ chain })
 ): void {
   void (async () => {
     try {
@@ -35,8 +35,11 @@
 import { wocFetch } from '../../../utils/RateLimitedFetch';
 import { wocApiBase, type Chain } from '../../../utils/woc';
 
-/** Token standard discriminator, matching the endpoint path segment. */
-export type TokenStd = 'stas' | 'dstas' | 'bsv21';
+/**
+ * Token standard discriminator, matching the endpoint path segment. WoC has
+ * no `ordinals` endpoint; that standard is verified locally only.
+ */
+export type TokenStd = 'stas' | 'dstas' | 'bsv21' | 'ordinals';
 
 export type B2GResultState = 'authentic' | 'not-authentic' | 'undetermined';
 
@@ -86,6 +89,19 @@ export interface B2GTraceResult {
   truncated?: boolean;
 }
 
+/**
+ * Anything that answers a B2G verify: this client, or the wallet's own
+ * LocalBackToGenesisVerifier (spv/), which can cross-check against it.
+ */
+export interface BackToGenesisVerifier {
+  verify(
+    std: TokenStd,
+    txid: string,
+    index: number,
+    opts?: { expectedGenesis?: string }
+  ): Promise<B2GVerifyResult>;
+}
+
 export interface BackToGenesisOptions {
   chain?: Chain;
   /** Base URL override (tests). Defaults to `wocApiBase(chain)`. */
@@ -97,7 +113,7 @@ export function formatGenesisRef(g: B2GOutpoint): string {
   return `${g.txid}_${g.index}`;
 }
 
-export class BackToGenesisClient {
+export class BackToGenesisClient implements BackToGenesisVerifier {
   private readonly base: string;
 
   constructor(opts: BackToGenesisOptions = {}) {
@@ -0,0 +1,71 @@
+/**
+ * Renderer side of the encrypted full-wallet backup (electron/walletBackup.ts).
+ * The main process packs the vault, database and boot config itself; this
+ * module adds the grants that only live in localStorage and writes them back
+ * after a restore. Only the backed-up wallet's own entries travel: other
+ * identities and chains on this machine are neither exported nor touched.
+ */
+import { tokenSpendAllowancesKey } from './tokenSpendAllowances'
+import type { Chain } from '../utils/woc'
+
+/**
+ * Renderer state carried in a backup, by entry name, with the localStorage
+ * key each one has for a given wallet. Entry names must match
+ * RENDERER_STATE_KEYS in electron/walletBackup.ts.
+ */
+const RENDERER_STATE: Record<string, (identityKey: string, chain: Chain) => string> = {
+  tokenSpendAllowances: tokenSpendAllowancesKey,
+}
+
+function backupApi() {
+  return window.electronAPI.backup
+}
+
+/** True in the desktop build, where backups are available. */
+export function backupSupported(): boolean {
+  return Boolean(window.electronAPI?.backup)
+}
+
+function collectRendererState(identityKey: string, chain: Chain): Record<string, string> {
+  const state: Record<string, string> = {}
+  for (const [entry, keyFor] of Object.entries(RENDERER_STATE)) {
+    const value = localStorage.getItem(keyFor(identityKey, chain))
+    if (value !== null) state[entry] = value
+  }
+  return state
+}
+
+function applyRendererState(state: Record<string, string>, identityKey: string, chain: Chain): void {
+  for (const [entry, keyFor] of Object.entries(RENDERER_STATE)) {
+    const key = keyFor(identityKey, chain)
+    if (typeof state[entry] === 'string') localStorage.setItem(key, state[entry])
+    else localStorage.removeItem(key)
+  }
+}
+
+export async function exportWalletBackup(options: {
+  passphrase: string
+  identityKey: string
+  chain: Chain
+}) {
+  return backupApi().export({ ...options, rendererState: collectRendererState(options.identityKey, options.chain) })
+}
+
+export async function chooseBackupFile() {
+  return backupApi().chooseFile()
+}
+
+export async function inspectWalletBackup(filePath: string, passphrase: string) {
+  return backupApi().inspect(filePath, passphrase)
+}
+
+/** Restore a backup. On success the caller should reload so every service starts from the restored state. */
+export async function restoreWalletBackup(
+  filePath: string,
+  passphrase: string,
+  options?: { vaultPassphrase?: string; enableBiometrics?: boolean }
+) {
+  const result = await backupApi().restore(filePath, passphrase, options)
+  if (result.ok) applyRendererState(result.rendererState, result.identityKey, result.chain)
+  return result
+}
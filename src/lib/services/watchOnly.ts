@@ -0,0 +1,89 @@
+/**
+ * Watch-only wallets — an identity public key with no private key behind it.
+ *
+ * WalletService builds one over a read-only copy of a wallet database (see
+ * electron/watchOnly.ts) so history, baskets and token holdings can be
+ * browsed on a machine that never holds the keys. Two layers keep it from
+ * signing:
+ *
+ * - WatchOnlyKeyDeriver stands in for CachedKeyDeriver: it knows the
+ *   identity key and throws WatchOnlyError for every derivation.
+ * - guardWatchOnlyWallet wraps the built `Wallet` and rejects the methods
+ *   that sign, encrypt, or change what the wallet holds before they reach
+ *   the deriver or storage.
+ */
+import type { Counterparty, KeyDeriverApi, PrivateKey, PublicKey, SymmetricKey, WalletProtocol } from '@bsv/sdk'
+
+export const WATCH_ONLY_MESSAGE = 'This wallet is watch-only.'
+
+export class WatchOnlyError extends Error {
+  constructor() {
+    super(WATCH_ONLY_MESSAGE)
+    this.name = 'WatchOnlyError'
+  }
+}
+
+/** What a watch-only wallet was opened as. */
+export interface WatchOnlyTarget {
+  identityKey: string
+  chain: 'main' | 'test' | 'ttn'
+}
+
+/** Wallet methods a watch-only wallet refuses outright. */
+export const WATCH_ONLY_BLOCKED_METHODS: ReadonlySet<string> = new Set([
+  'createAction', 'signAction', 'abortAction', 'internalizeAction', 'relinquishOutput',
+  'acquireCertificate', 'proveCertificate', 'relinquishCertificate',
+  'createSignature', 'createHmac', 'encrypt', 'decrypt',
+  'revealCounterpartyKeyLinkage', 'revealSpecificKeyLinkage',
+  'sweepTo',
+])
+
+export class WatchOnlyKeyDeriver implements KeyDeriverApi {
+  constructor(readonly identityKey: string) {}
+
+  get rootKey(): PrivateKey {
+    throw new WatchOnlyError()
+  }
+
+  derivePublicKey(_protocolID: WalletProtocol, _keyID: string, _counterparty: Counterparty, _forSelf?: boolean): PublicKey {
+    throw new WatchOnlyError()
+  }
+
+  derivePrivateKey(_protocolID: WalletProtocol, _keyID: string, _counterparty: Counterparty): PrivateKey {
+    throw new WatchOnlyError()
+  }
+
+  deriveSymmetricKey(_protocolID: WalletProtocol, _keyID: string, _counterparty: Counterparty): SymmetricKey {
+    throw new WatchOnlyError()
+  }
+
+  revealCounterpartySecret(_counterparty: Counterparty): number[] {
+    throw new WatchOnlyError()
+  }
+
+  revealSpecificSecret(_counterparty: Counterparty, _protocolID: WalletProtocol, _keyID: string): number[] {
+    throw new WatchOnlyError()
+  }
+}
+
+/**
+ * Wrap a wallet so WATCH_ONLY_BLOCKED_METHODS reject with WatchOnlyError.
+ * `getPublicKey` answers for the identity key and refuses everything else;
+ * other members (listActions, listOutputs, settingsManager, ...) pass through.
+ */
+export function guardWatchOnlyWallet<T extends object>(wallet: T, identityKey: string): T {
+  return new Proxy(wallet, {
+    get(target, prop, receiver) {
+      if (typeof prop === 'string' && WATCH_ONLY_BLOCKED_METHODS.has(prop)) {
+        return async () => { throw new WatchOnlyError() }
+      }
+      if (prop === 'getPublicKey') {
+        return async (args: { identityKey?: boolean }) => {
+          if (args?.identityKey === true) return { publicKey: identityKey }
+          throw new WatchOnlyError()
+        }
+      }
+      return Reflect.get(target, prop, receiver)
+    }
+  })
+}
@@ -0,0 +1,21 @@
+/**
+ * Pairing request shape for the `/pair` route on the wallet's HTTP bridge.
+ *
+ * An app that wants to talk to the wallet calls `POST /pair` once. The
+ * `BridgePairingHandler` modal asks the user whether that origin may pair;
+ * on approval the main process mints a capability token bound to the
+ * origin and returns it to the app. Every later call must carry it.
+ */
+export interface BridgePairingRequest {
+  /** Internal id used to match approve/deny back to a pending request. */
+  requestId: string;
+  /** Origin of the caller (e.g. `localhost:8090`). */
+  originator: string;
+  /**
+   * The pairing this origin already has. Approving replaces its token, so
+   * the app holding it is signed out; null for a first pairing.
+   */
+  existingPairing: { createdAt: number; lastUsedAt: number | null } | null;
+  /** Resolver invoked by the modal when the user clicks Approve / Deny. */
+  resolve: (approved: boolean) => void;
+}
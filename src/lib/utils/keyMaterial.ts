@@ -5,7 +5,7 @@ import * as secrets from '../services/secrets'
 export const normalizeMnemonic = (phrase: string): string =>
   phrase.trim().replace(/\s+/g, ' ')
 
-const mnemonicToEntropy = (m: Mnemonic): number[] => {
+export const mnemonicToEntropy = (m: Mnemonic): number[] => {
   const mnemonic = m.toString()
   const { value: wordlist, space } = m.Wordlist
   const words = mnemonic.split(space)
@@ -0,0 +1,164 @@
+import { Hash, PrivateKey, Utils } from '@bsv/sdk'
+import { Mnemonic } from '@bsv/sdk/compat'
+import { deriveKeyMaterialFromMnemonic, mnemonicToEntropy, normalizeMnemonic } from './keyMaterial'
+
+/**
+ * M-of-N recovery shares (Shamir secret sharing) for the recovery phrase or
+ * primary key, so no single person has to hold the whole seed.
+ *
+ * Splitting uses the SDK's key shares. The secret is the phrase's entropy for
+ * a recovery phrase, or the key itself. Each share is one line of text:
+ *
+ *   bsvshare1:<kind>:<index>/<total>:<identity>:<x>.<y>.<threshold>.<integrity>:<checksum>
+ *
+ * - kind: `m12` / `m24` (recovery phrase of that length) or `key`
+ * - identity: the first 16 hex digits of the wallet's identity key, to check
+ *   the recovered secret against
+ * - checksum: the first 8 hex digits of SHA-256 over everything before it,
+ *   which catches typos in a single share
+ */
+
+const PREFIX = 'bsvshare1'
+const IDENTITY_HINT_LENGTH = 16
+export const MAX_SHARES = 16
+
+export type ShareSecretKind = 'mnemonic' | 'key'
+
+export type ShareSecret =
+  | { kind: 'mnemonic'; mnemonic: string }
+  | { kind: 'key'; keyHex: string }
+
+export interface RecoveryShare {
+  kind: 'm12' | 'm24' | 'key'
+  index: number
+  total: number
+  threshold: number
+  identityHint: string
+  /** The line to write down or print. */
+  line: string
+}
+
+export interface RecoveredSecret {
+  kind: ShareSecretKind
+  /** Present when the shares hold a recovery phrase. */
+  mnemonic?: string
+  keyHex: string
+  identityKey: string
+}
+
+function checksum(body: string): string {
+  return Utils.toHex(Hash.sha256(Utils.toArray(body, 'utf8'))).slice(0, 8)
+}
+
+function identityKeyOf(keyHex: string): string {
+  return PrivateKey.fromHex(keyHex).toPublicKey().toString()
+}
+
+/**
+ * Split `secret` into `total` shares, any `threshold` of which recover it.
+ * Each call draws new random shares: shares from different splits don't mix.
+ */
+export function splitSecret(secret: ShareSecret, threshold: number, total: number): RecoveryShare[] {
+  if (!Number.isInteger(threshold) || !Number.isInteger(total) || threshold < 2 || total < threshold || total > MAX_SHARES) {
+    throw new Error(`Choose at least 2 shares to recover, and no more than ${MAX_SHARES} shares in total.`)
+  }
+
+  let kind: RecoveryShare['kind']
+  let secretBytes: number[]
+  let keyHex: string
+  if (secret.kind === 'mnemonic') {
+    const material = deriveKeyMaterialFromMnemonic(secret.mnemonic)
+    secretBytes = mnemonicToEntropy(Mnemonic.fromString(material.mnemonic))
+    if (secretBytes.length !== 16 && secretBytes.length !== 32) {
+      throw new Error('Only 12- and 24-word recovery phrases can be split.')
+    }
+    kind = secretBytes.length === 16 ? 'm12' : 'm24'
+    keyHex = material.keyHex
+  } else {
+    keyHex = secret.keyHex.trim().toLowerCase()
+    if (!/^[0-9a-f]{64}$/.test(keyHex)) throw new Error('The private key must be 64 hex characters.')
+    secretBytes = Utils.toArray(keyHex, 'hex')
+    kind = 'key'
+  }
+
+  const identityHint = identityKeyOf(keyHex).slice(0, IDENTITY_HINT_LENGTH)
+  const points = new PrivateKey(secretBytes).toBackupShares(threshold, total)
+  return points.map((point, i) => {
+    const body = [PREFIX, kind, `${i + 1}/${total}`, identityHint, point].join(':')
+    return { kind, index: i + 1, total, threshold, identityHint, line: `${body}:${checksum(body)}` }
+  })
+}
+
+/** Printable sheet for one share: the share line plus what it is and how to use it. */
+export function formatShareSheet(share: RecoveryShare, createdAt: Date = new Date()): string {
+  const secretName = share.kind === 'key' ? 'private key' : `${share.kind === 'm12' ? '12' : '24'}-word recovery phrase`
+  return [
+    'BSV Desktop recovery share',
+    '',
+    `Share ${share.index} of ${share.total}. Any ${share.threshold} shares together recover the wallet's ${secretName}.`,
+    `Wallet identity key begins: ${share.identityHint}`,
+    `Created: ${createdAt.toISOString().slice(0, 10)}`,
+    '',
+    share.line,
+    '',
+    'Keep this share apart from the others. On its own it reveals nothing about the wallet.',
+    'To recover: BSV Desktop → Account Recovery → Recover from shares, then enter enough shares.',
+    ''
+  ].join('\n')
+}
+
+/** Find and check the share line in `text` (a bare line or a whole printed sheet). */
+export function parseShare(text: string): RecoveryShare {
+  const line = text.split(/\s+/).find(word => word.startsWith(PREFIX + ':'))
+  if (!line) throw new Error('No recovery share found in the text.')
+  const parts = line.split(':')
+  if (parts.length !== 6) throw new Error('The share is incomplete.')
+  const [, kind, position, identityHint, point, sum] = parts
+  if (checksum(parts.slice(0, 5).join(':')) !== sum.toLowerCase()) {
+    throw new Error('The share has a typo: its checksum does not match.')
+  }
+  if (kind !== 'm12' && kind !== 'm24' && kind !== 'key') throw new Error('Unknown share type.')
+  const [index, total] = position.split('/').map(n => Number.parseInt(n, 10))
+  const threshold = Number.parseInt(point.split('.')[2], 10)
+  return { kind, index, total, threshold, identityHint, line }
+}
+
+/**
+ * Rebuild the secret from shares. Throws if the shares come from different
+ * splits or too few were given; the recovered key is checked against the
+ * identity recorded in the shares.
+ */
+export function combineShares(shares: RecoveryShare[]): RecoveredSecret {
+  if (shares.length === 0) throw new Error('Enter at least one share.')
+  const [first] = shares
+  for (const share of shares) {
+    if (share.kind !== first.kind || share.identityHint !== first.identityHint || share.total !== first.total) {
+      throw new Error('These shares belong to different wallets or different splits.')
+    }
+  }
+  const unique = [...new Map(shares.map(s => [s.index, s])).values()]
+  if (unique.length < first.threshold) {
+    throw new Error(`${first.threshold} different shares are needed; ${unique.length} entered.`)
+  }
+
+  let key: PrivateKey
+  try {
+    key = PrivateKey.fromBackupShares(unique.map(s => s.line.split(':')[4]))
+  } catch {
+    throw new Error('These shares do not fit together. They may come from different splits.')
+  }
+
+  let recovered: RecoveredSecret
+  if (first.kind === 'key') {
+    const keyHex = Utils.toHex(key.toArray('be', 32))
+    recovered = { kind: 'key', keyHex, identityKey: identityKeyOf(keyHex) }
+  } else {
+    const mnemonic = normalizeMnemonic(Mnemonic.fromEntropy(key.toArray('be', first.kind === 'm12' ? 16 : 32)).toString())
+    const { keyHex } = deriveKeyMaterialFromMnemonic(mnemonic)
+    recovered = { kind: 'mnemonic', mnemonic, keyHex, identityKey: identityKeyOf(keyHex) }
+  }
+  if (!recovered.identityKey.startsWith(first.identityHint)) {
+    throw new Error('The recovered secret does not match the wallet identity recorded in the shares.')
+  }
+  return recovered
+}
@@ -1,5 +1,7 @@
 import { stasQuery } from './lib/services/stas/stasIpc';
-import { loadPeerHoldings } from './lib/services/tokens/peer/loadPeerHoldings';
+import { loadPeerHoldings, holdingSpendRequest } from './lib/services/tokens/peer/loadPeerHoldings';
+import { parseBatchCsv, parseBatchEntries } from './lib/services/tokens/batch/batchRows';
+import { TOKEN_PROTOCOL_BASKETS } from './lib/constants/baskets';
 import {
   WalletInterface,
   CreateActionArgs,
@@ -35,7 +37,17 @@ import {
 import {
   beginHttpBridgeSession,
   endHttpBridgeSession,
+  getHttpBridgeSession,
+  markHttpBridgeSessionCancelled,
+  noteHttpBridgePrompt,
 } from './lib/services/httpBridgeSession';
+import type { TokenSpendApproval, TokenSpendRequest } from './lib/services/PermissionQueueManager';
+import {
+  classifyBridgeOutcome,
+  hashBridgeArgs,
+  recordBridgeAudit,
+  type BridgeAuditTarget,
+} from './lib/services/bridgeAudit';
 
 interface HttpRequestEvent {
   method: string;
@@ -43,6 +55,10 @@ interface HttpRequestEvent {
   headers: Record<string, string>;
   body: string;
   request_id: number;
+  /** Origin resolved by the main process after checking the caller's bearer token. */
+  origin?: string;
+  /** On /pair: the pairing this origin already has, which approving would replace. */
+  existingPairing?: { createdAt: number; lastUsedAt: number | null } | null;
 }
 
 interface HttpResponseEvent {
@@ -141,6 +157,191 @@ function parseOrigin(headers: Record<string, string>): string | null {
   return null;
 }
 
+// ===== JSON-RPC 2.0 (`POST /rpc`) =====
+// One HTTP round trip for many BRC-100 calls. `method` is the WalletInterface
+// method name (the REST path without its slash) and `params` its args object.
+
+/** BRC-100 methods reachable over `/rpc`; the same calls the REST cases make. */
+const RPC_WALLET_METHODS = new Set<string>([
+  'createAction',
+  'signAction',
+  'abortAction',
+  'listActions',
+  'internalizeAction',
+  'listOutputs',
+  'relinquishOutput',
+  'getPublicKey',
+  'revealCounterpartyKeyLinkage',
+  'revealSpecificKeyLinkage',
+  'encrypt',
+  'decrypt',
+  'createHmac',
+  'verifyHmac',
+  'createSignature',
+  'verifySignature',
+  'acquireCertificate',
+  'listCertificates',
+  'proveCertificate',
+  'relinquishCertificate',
+  'discoverByIdentityKey',
+  'discoverByAttributes',
+  'isAuthenticated',
+  'waitForAuthentication',
+  'getHeight',
+  'getHeaderForHeight',
+  'getNetwork',
+  'getVersion',
+]);
+
+/** Upper bound on calls per batch; the body-size limit applies as well. */
+const MAX_RPC_BATCH = 1000;
+
+const RPC_PARSE_ERROR = -32700;
+const RPC_INVALID_REQUEST = -32600;
+const RPC_METHOD_NOT_FOUND = -32601;
+const RPC_INVALID_PARAMS = -32602;
+/** Implementation-defined server error: the wallet call itself threw. */
+const RPC_WALLET_ERROR = -32000;
+
+type JsonRpcId = string | number | null;
+
+interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+type JsonRpcResponse =
+  | { jsonrpc: '2.0'; id: JsonRpcId; result: unknown }
+  | { jsonrpc: '2.0'; id: JsonRpcId; error: JsonRpcError };
+
+function rpcError(id: JsonRpcId, code: number, message: string, data?: unknown): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: data === undefined ? { code, message } : { code, message, data } };
+}
+
+/**
+ * Run one JSON-RPC call against the wallet. Returns null for notifications
+ * (no `id` member), which are executed but never answered.
+ *
+ * A WERR_REVIEW_ACTIONS failure keeps its SDK code (5) and carries the exact
+ * body the REST routes return in `error.data`, so callers can recover the
+ * signed transaction and review results the same way.
+ */
+async function runRpcCall(
+  wallet: WalletInterface,
+  origin: string,
+  call: unknown
+): Promise<JsonRpcResponse | null> {
+  if (!call || typeof call !== 'object' || Array.isArray(call)) {
+    return rpcError(null, RPC_INVALID_REQUEST, 'Invalid Request');
+  }
+  const c = call as { jsonrpc?: unknown; method?: unknown; params?: unknown; id?: unknown };
+  const isNotification = !('id' in c);
+  const id: JsonRpcId =
+    typeof c.id === 'string' || typeof c.id === 'number' ? c.id : null;
+
+  if (c.jsonrpc !== '2.0' || typeof c.method !== 'string' ||
+      (!isNotification && id === null && c.id !== null)) {
+    return rpcError(id, RPC_INVALID_REQUEST, 'Invalid Request');
+  }
+  if (!RPC_WALLET_METHODS.has(c.method)) {
+    return isNotification ? null : rpcError(id, RPC_METHOD_NOT_FOUND, `Method not found: ${c.method}`);
+  }
+  if (c.params !== undefined && (c.params === null || typeof c.params !== 'object' || Array.isArray(c.params))) {
+    return isNotification
+      ? null
+      : rpcError(id, RPC_INVALID_PARAMS, 'params must be the method\'s argument object');
+  }
+
+  let response: JsonRpcResponse;
+  try {
+    const result = await (wallet as any)[c.method](c.params ?? {}, origin);
+    response = { jsonrpc: '2.0', id, result };
+  } catch (error) {
+    if (isWerrReviewActions(error)) {
+      const e = toSdkWerrReviewActions(error);
+      console.error(`rpc ${c.method} WERR_REVIEW_ACTIONS:`, e);
+      response = rpcError(id, e.code, e.message, JSON.parse(JSON.stringify(e)));
+    } else {
+      console.error(`rpc ${c.method} error:`, error);
+      response = rpcError(
+        id,
+        RPC_WALLET_ERROR,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+  return isNotification ? null : response;
+}
+
+/**
+ * Handle a `/rpc` body: a single call or a batch. Batch items run in order
+ * within the caller's bridge session, so permission prompts stay one at a
+ * time and a disconnect cancels every remaining item.
+ */
+async function handleRpcRequest(
+  wallet: WalletInterface,
+  origin: string,
+  requestId: number,
+  body: string
+): Promise<{ status: number; body: string }> {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return { status: 200, body: JSON.stringify(rpcError(null, RPC_PARSE_ERROR, 'Parse error')) };
+  }
+
+  if (!Array.isArray(payload)) {
+    const reply = await runRpcCall(wallet, origin, payload);
+    return reply ? { status: 200, body: JSON.stringify(reply) } : { status: 204, body: '' };
+  }
+
+  if (payload.length === 0) {
+    return { status: 200, body: JSON.stringify(rpcError(null, RPC_INVALID_REQUEST, 'Invalid Request')) };
+  }
+  if (payload.length > MAX_RPC_BATCH) {
+    return {
+      status: 200,
+      body: JSON.stringify(
+        rpcError(null, RPC_INVALID_REQUEST, `Batches are limited to ${MAX_RPC_BATCH} calls`)
+      ),
+    };
+  }
+
+  const replies: JsonRpcResponse[] = [];
+  for (const call of payload) {
+    // Client gone: nobody will read the rest, and running it could raise prompts.
+    if (getHttpBridgeSession(requestId)?.cancelled) break;
+    const reply = await runRpcCall(wallet, origin, call);
+    if (reply) replies.push(reply);
+  }
+  return replies.length > 0
+    ? { status: 200, body: JSON.stringify(replies) }
+    : { status: 204, body: '' };
+}
+
+/**
+ * `wallet` for one bridge call: every method refuses once the main process
+ * has cancelled the call (client gone, vault locked), so work still waiting
+ * behind a prompt or a batch is not signed after the caller was answered.
+ */
+function walletForRequest(wallet: WalletInterface, requestId: number): WalletInterface {
+  return new Proxy(wallet, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      if (typeof value !== 'function') return value;
+      return (...args: unknown[]) => {
+        const session = getHttpBridgeSession(requestId);
+        if (session?.cancelled) {
+          return Promise.reject(new Error(`Request cancelled: ${session.cancelReason ?? 'cancelled'}`));
+        }
+        return value.apply(target, args);
+      };
+    },
+  });
+}
+
 // Module-level wallet ref — survives React effect cleanup/re-runs
 let _currentWallet: WalletInterface | null = null;
 let _currentStasDiscovery: any = null;
@@ -173,21 +374,26 @@ let _currentStasBundle: {
   chain: 'main' | 'test' | 'ttn';
 } | null = null;
 /**
- * Permission gate for /stas/transfer. Set by WalletContext, called by the
- * route handler with the transfer details. Resolves true (approve) or false
- * (deny) once the user clicks one of the modal buttons.
+ * Permission gate for every route that moves tokens (`/stas/transfer`,
+ * `/dstas/transfer`, `/bsv-21/transfer`, `/peerToken/send`). Set by
+ * WalletContext to the permission queue, which resolves an approval straight
+ * away when a standing allowance covers the amount, otherwise once the user
+ * answers the prompt.
  */
-type StasTransferPermissionArgs = {
+let _currentTokenSpendEnqueuer:
+  | ((args: Omit<TokenSpendRequest, 'requestID'>) => Promise<TokenSpendApproval | null>)
+  | null = null;
+/**
+ * Approval gate for `POST /pair`. Set by WalletContext; resolves true once
+ * the user approves the pairing prompt. The main process only mints the
+ * app's capability token when this route answers 200.
+ */
+type BridgePairingPermissionArgs = {
   originator: string;
-  outpoint: string;
-  symbol: string | null;
-  tokenId: string | null;
-  satoshis: number;
-  recipient: string;
-  brc42KeyId: string | null;
+  existingPairing: { createdAt: number; lastUsedAt: number | null } | null;
 };
-let _currentStasTransferEnqueuer:
-  | ((args: StasTransferPermissionArgs) => Promise<boolean>)
+let _currentBridgePairingEnqueuer:
+  | ((args: BridgePairingPermissionArgs) => Promise<boolean>)
   | null = null;
 /**
  * Peer-token client bundle exposed to the `/peerToken/*` routes (Phase B).
@@ -209,7 +415,14 @@ let _currentPeerTokensBundle: {
    * drive an on-chain, no-MessageBox transfer without touching PeerTokenClient.
    */
   tokens?: any;
+  /** TokenBatchTransferService — powers `/tokens/batch-transfer`. */
+  batch?: any;
 } | null = null;
+/**
+ * Wallet database that receives the bridge audit log. Set from WalletContext
+ * with the same identityKey/chain the STAS bundle uses.
+ */
+let _bridgeAuditTarget: BridgeAuditTarget | null = null;
 let _listenerRegistered = false;
 let _cancelListenerRegistered = false;
 
@@ -221,6 +434,9 @@ export function _test_isListenerRegistered(): boolean { return _listenerRegister
 export function _test_reset(): void {
   _currentWallet = null;
   _currentStasDiscovery = null;
+  _currentBridgePairingEnqueuer = null;
+  _currentTokenSpendEnqueuer = null;
+  _bridgeAuditTarget = null;
   _listenerRegistered = false;
   _cancelListenerRegistered = false;
 }
@@ -270,13 +486,96 @@ export function setBsv21DiscoveryForHttpRoute(
 }
 
 /**
- * Inject (or clear) the permission-prompt enqueuer used by /stas/transfer
- * to gate external app calls on user approval. Set by WalletContext.
+ * Inject (or clear) the token-spend gate used by the transfer routes. Set by
+ * WalletContext.
+ */
+export function setTokenSpendEnqueuer(
+  fn: ((args: Omit<TokenSpendRequest, 'requestID'>) => Promise<TokenSpendApproval | null>) | null
+): void {
+  _currentTokenSpendEnqueuer = fn;
+}
+
+/**
+ * Ask the token-spend gate before a route signs anything. Resolves the
+ * approval to settle with `spendApproved` when the transfer may go ahead,
+ * otherwise the response to send: 503 while the gate is not wired up yet
+ * (fail closed rather than silently sign), 403 when the user denies.
+ */
+async function gateTokenSpend(
+  requestId: number,
+  args: Omit<TokenSpendRequest, 'requestID'>
+): Promise<{ approval: TokenSpendApproval } | { response: HttpResponseEvent }> {
+  if (!_currentTokenSpendEnqueuer) {
+    return {
+      response: {
+        request_id: requestId,
+        status: 503,
+        body: JSON.stringify({ ok: false, reason: 'Token spend permission gate not ready' }),
+      },
+    };
+  }
+  const approval = await _currentTokenSpendEnqueuer(args);
+  // The vault may have locked, or the caller left, while the prompt was up.
+  const session = getHttpBridgeSession(requestId);
+  if (session?.cancelled) {
+    approval?.release();
+    return {
+      response: {
+        request_id: requestId,
+        status: 409,
+        body: JSON.stringify({ ok: false, reason: `request cancelled: ${session.cancelReason ?? 'cancelled'}` }),
+      },
+    };
+  }
+  if (approval) return { approval };
+  return {
+    response: {
+      request_id: requestId,
+      status: 403,
+      body: JSON.stringify({ ok: false, reason: 'transfer denied by user' }),
+    },
+  };
+}
+
+/**
+ * Run an approved transfer, then settle its approval: commit what `moved`
+ * says went out (true = the whole amount), or release it when nothing did,
+ * including when the transfer throws.
+ */
+async function spendApproved<T>(
+  approval: TokenSpendApproval,
+  transfer: () => Promise<T>,
+  moved: (result: T) => boolean | string
+): Promise<T> {
+  let result: T;
+  try {
+    result = await transfer();
+  } catch (e) {
+    approval.release();
+    throw e;
+  }
+  const amount = moved(result);
+  if (amount === false || amount === '0') approval.release();
+  else approval.commit(amount === true ? undefined : amount);
+  return result;
+}
+
+/**
+ * Inject (or clear) the pairing-prompt enqueuer used by `/pair`. Set by
+ * WalletContext alongside setTokenSpendEnqueuer.
  */
-export function setStasTransferEnqueuer(
-  fn: ((args: StasTransferPermissionArgs) => Promise<boolean>) | null
+export function setBridgePairingEnqueuer(
+  fn: ((args: BridgePairingPermissionArgs) => Promise<boolean>) | null
 ): void {
-  _currentStasTransferEnqueuer = fn;
+  _currentBridgePairingEnqueuer = fn;
+}
+
+/**
+ * Inject (or clear) the wallet database that `bridge_audit_log` rows are
+ * written to. Without a target, requests are served but not recorded.
+ */
+export function setBridgeAuditTarget(target: BridgeAuditTarget | null): void {
+  _bridgeAuditTarget = target;
 }
 
 /**
@@ -292,6 +591,7 @@ export function setPeerTokensForHttpRoute(
     chain: 'main' | 'test' | 'ttn';
     originator?: string;
     tokens?: any;
+    batch?: any;
   } | null
 ): void {
   _currentPeerTokensBundle = bundle;
@@ -316,9 +616,11 @@ export const onWalletReady = async (
   if (!_cancelListenerRegistered && typeof window.electronAPI.onHttpRequestCancelled === 'function') {
     _cancelListenerRegistered = true;
     window.electronAPI.onHttpRequestCancelled(async (event: { request_id: number; reason?: string }) => {
+      // Mark it first, synchronously, so nothing signs while prompts are torn down.
+      markHttpBridgeSessionCancelled(event.request_id, event.reason);
       try {
         const { getWalletService } = await import('./lib/hooks/useWalletService');
-        await getWalletService().permissionQueue.cancelHttpBridgeRequest(event.request_id);
+        await getWalletService().permissionQueue.cancelHttpBridgeRequest(event.request_id, event.reason);
       } catch (err) {
         console.warn('[onWalletReady] failed to cancel permissions for abandoned HTTP request:', err);
       }
@@ -329,9 +631,10 @@ export const onWalletReady = async (
   window.electronAPI.onHttpRequest(async (req: HttpRequestEvent) => {
     let response: HttpResponseEvent;
     let sessionStarted = false;
+    let origin: string | null = null;
+    const receivedAt = Date.now();
 
-    const wallet = _currentWallet;
-    if (!wallet) {
+    if (!_currentWallet) {
       response = {
         request_id: req.request_id,
         status: 503,
@@ -340,9 +643,10 @@ export const onWalletReady = async (
       window.electronAPI.sendHttpResponse(response);
       return;
     }
+    const wallet = walletForRequest(_currentWallet, req.request_id);
 
     try {
-      const origin = parseOrigin(req.headers);
+      origin = req.origin ?? parseOrigin(req.headers);
 
       if (!origin) {
         response = {
@@ -358,6 +662,36 @@ export const onWalletReady = async (
       sessionStarted = true;
 
       switch (req.path) {
+        // Capability-token pairing handshake. The user approves the origin
+        // once; on 200 the main process replaces this body with the token.
+        case '/pair': {
+          if (!_currentBridgePairingEnqueuer) {
+            response = {
+              request_id: req.request_id,
+              status: 503,
+              body: JSON.stringify({ message: 'Pairing prompt not ready' }),
+            };
+            break;
+          }
+          noteHttpBridgePrompt(req.request_id, 'pairing');
+          const approved = await _currentBridgePairingEnqueuer({
+            originator: origin,
+            existingPairing: req.existingPairing ?? null,
+          });
+          response = approved
+            ? {
+                request_id: req.request_id,
+                status: 200,
+                body: JSON.stringify({ approved: true }),
+              }
+            : {
+                request_id: req.request_id,
+                status: 403,
+                body: JSON.stringify({ message: 'Pairing denied by user' }),
+              };
+          break;
+        }
+
         // 1. createAction
         case '/createAction': {
           try {
@@ -1027,6 +1361,13 @@ export const onWalletReady = async (
           break;
         }
 
+        // 29. JSON-RPC 2.0 — single calls and batches of the methods above
+        case '/rpc': {
+          const reply = await handleRpcRequest(wallet, origin, req.request_id, req.body);
+          response = { request_id: req.request_id, ...reply };
+          break;
+        }
+
         // ===== STAS Apps API (Task 7a) =====
         // Five HTTP routes that wrap the wallet's STAS surface so external
         // BRC-100 apps don't have to re-implement the createAction +
@@ -1252,21 +1593,6 @@ export const onWalletReady = async (
               break;
             }
 
-            // Permission gate: surface a modal to the user before we sign
-            // and broadcast. The enqueuer is set by WalletContext;
-            // if it's missing (e.g. the page is still mounting on first
-            // boot) we fail closed with 503 rather than silently sign.
-            if (!_currentStasTransferEnqueuer) {
-              response = {
-                request_id: req.request_id,
-                status: 503,
-                body: JSON.stringify({
-                  ok: false,
-                  reason: 'STAS transfer permission gate not ready',
-                }),
-              };
-              break;
-            }
             // Look up the token's symbol so the prompt shows something
             // meaningful (otherwise it would just say "100 sats").
             let tokenSymbol: string | null = null;
@@ -1277,28 +1603,24 @@ export const onWalletReady = async (
               tokenSymbol = tok?.symbol ?? null;
             } catch { /* best effort */ }
 
-            const approved = await _currentStasTransferEnqueuer({
+            const gate = await gateTokenSpend(req.request_id, {
               originator: origin || 'unknown',
-              outpoint,
-              symbol: tokenSymbol,
-              tokenId: source.tokenId ?? null,
-              satoshis: source.outputSatoshis ?? source.tokenSatoshis,
+              protocol: 'stas',
+              // Same asset key loadPeerHoldings gives the /peerToken routes:
+              // the token id, with the symbol only as the prompt's label.
+              assetId: source.tokenId ?? outpoint,
+              symbol: tokenSymbol ?? source.symbol ?? null,
+              amount: String(source.outputSatoshis ?? source.tokenSatoshis),
               recipient: recipientAddress,
-              brc42KeyId: source.brc42KeyId ?? null,
+              outpoint,
+              via: 'address',
             });
-            if (!approved) {
-              response = {
-                request_id: req.request_id,
-                status: 403,
-                body: JSON.stringify({
-                  ok: false,
-                  reason: 'transfer denied by user',
-                }),
-              };
+            if ('response' in gate) {
+              response = gate.response;
               break;
             }
 
-            const result = await transfer.transfer({
+            const result = await spendApproved(gate.approval, () => transfer.transfer({
               source: {
                 txid: source.txid,
                 vout: source.vout,
@@ -1307,7 +1629,7 @@ export const onWalletReady = async (
                 brc42KeyId: source.brc42KeyId,
               },
               recipientAddress,
-            });
+            }), (r: any) => r?.ok === true);
             // Always return 200 when the transfer service produced a result —
             // success/failure is in the body's `ok` field. Reserve 500 for
             // actual handler exceptions (caught below). Previously a
@@ -1626,7 +1948,17 @@ export const onWalletReady = async (
               const token = await client.createTokenToken(params, true);
               response = { request_id: req.request_id, status: 200, body: JSON.stringify({ dryRun: true, token }) };
             } else {
-              const sent = await client.sendToken(params);
+              const gate = await gateTokenSpend(req.request_id, holdingSpendRequest(holding, {
+                originator: origin || 'unknown',
+                recipient: params.recipient,
+                amount: params.amount,
+                via: 'peer',
+              }));
+              if ('response' in gate) {
+                response = gate.response;
+                break;
+              }
+              const sent: any = await spendApproved(gate.approval, () => client.sendToken(params), () => true);
               response = { request_id: req.request_id, status: 200, body: JSON.stringify({ dryRun: false, txid: sent?.txid ?? null, token: sent }) };
             }
           } catch (e) {
@@ -1684,7 +2016,8 @@ export const onWalletReady = async (
         // WITHOUT MessageBox (receiver discovers it via WOC), using the SAME
         // TokenProtocolRegistry adapters the Assets page uses
         // (`tokens.getById(protocol).transfer(...)`). PeerTokenClient is not
-        // involved. STAS keeps its own `/stas/transfer` (with permission modal).
+        // involved. STAS keeps its own `/stas/transfer`. Like it and
+        // /peerToken/send, both go through the token-spend gate first.
         //   POST /dstas/transfer  { outpoint, recipientAddress }            (whole UTXO)
         //   POST /bsv-21/transfer { outpoint, recipientAddress, amount? }   (amount = raw units, default whole)
         case '/dstas/transfer':
@@ -1748,10 +2081,17 @@ export const onWalletReady = async (
               }
               args = { ...baseArgs, tokenId: s.tokenId ?? s.assetId, sourceAmt: String(s.amt), amount: sendAmt, dec: s.dec, sym: s.sym, icon: s.icon };
             }
-            // No permission modal here (unlike /stas/transfer): these are
-            // Origin-gated routes, parity with /peerToken/send, which also
-            // avoids the 30s HTTP-bridge timeout racing a human click.
-            const result = await adapter.transfer(args);
+            const gate = await gateTokenSpend(req.request_id, holdingSpendRequest(holding, {
+              originator: origin || 'unknown',
+              recipient: baseArgs.recipientAddress,
+              amount: holding.protocol === 'bsv-21' ? args.amount : holding.amount,
+              via: 'address',
+            }));
+            if ('response' in gate) {
+              response = gate.response;
+              break;
+            }
+            const result = await spendApproved(gate.approval, () => adapter.transfer(args), (r: any) => r?.ok === true);
             response = { request_id: req.request_id, status: 200, body: JSON.stringify(result) };
           } catch (e) {
             response = { request_id: req.request_id, status: 500, body: JSON.stringify({ ok: false, reason: e instanceof Error ? e.message : String(e) }) };
@@ -1759,6 +2099,87 @@ export const onWalletReady = async (
           break;
         }
 
+        // Batch payouts (airdrops, payroll) of one token to many recipients —
+        // address rows on-chain, identity-key rows over MessageBox — in as few
+        // txs as the protocol allows (TokenBatchTransferService). `dryRun`
+        // returns the plan: tx count, fee estimate, totals, per-row placement.
+        // A real run asks the token-spend gate ONCE for the batch total, sends
+        // exactly the plan that was approved, and answers with a per-row report.
+        // A dry run still needs the app to hold basket access to the token.
+        //   POST /tokens/batch-transfer { protocol, assetId, rows: [{ recipient, amount }] | csv, dryRun? }
+        case '/tokens/batch-transfer': {
+          if (!_currentPeerTokensBundle?.batch) {
+            response = { request_id: req.request_id, status: 503, body: JSON.stringify({ error: 'Token services not ready' }) };
+            break;
+          }
+          try {
+            const { wallet: w, identityKey, chain, originator, batch } = _currentPeerTokensBundle;
+            const { protocol, assetId, rows, csv, dryRun } = (req.body ? JSON.parse(req.body) : {}) as {
+              protocol?: string; assetId?: string; rows?: unknown; csv?: string; dryRun?: boolean;
+            };
+            if (protocol !== 'stas' && protocol !== 'dstas' && protocol !== 'bsv-21') {
+              response = { request_id: req.request_id, status: 400, body: JSON.stringify({ error: 'protocol must be stas, dstas or bsv-21' }) };
+              break;
+            }
+            if (!assetId || (rows === undefined) === (csv === undefined)) {
+              response = { request_id: req.request_id, status: 400, body: JSON.stringify({ error: 'assetId and exactly one of rows or csv are required' }) };
+              break;
+            }
+            const parsed = typeof csv === 'string' ? parseBatchCsv(csv) : parseBatchEntries(rows);
+            if (parsed.errors.length > 0) {
+              response = { request_id: req.request_id, status: 400, body: JSON.stringify({ error: 'invalid rows', errors: parsed.errors }) };
+              break;
+            }
+            if (dryRun) {
+              // A plan reveals the wallet's holdings of the token: the app needs
+              // the basket access a listOutputs of that basket would.
+              const basket = TOKEN_PROTOCOL_BASKETS[protocol];
+              try {
+                await wallet.listOutputs({ basket, limit: 1 }, origin);
+              } catch {
+                response = { request_id: req.request_id, status: 403, body: JSON.stringify({ error: `basket access to ${basket} is required for a dry run` }) };
+                break;
+              }
+            }
+            const batchArgs = { protocol, assetId: String(assetId), rows: parsed.rows };
+            const plan = await batch.preview(batchArgs);
+            if (dryRun || !plan.ok) {
+              response = { request_id: req.request_id, status: plan.ok ? 200 : 422, body: JSON.stringify({ dryRun: true, plan }) };
+              break;
+            }
+            const holdings = await loadPeerHoldings({ wallet: w, identityKey, chain, originator });
+            const first = holdings.find((h) => h.key === plan.inputs[0])
+              ?? holdings.find((h) => h.protocol === protocol && h.source.assetId === assetId);
+            if (!first) {
+              response = { request_id: req.request_id, status: 404, body: JSON.stringify({ error: `no ${protocol} holdings of ${assetId}` }) };
+              break;
+            }
+            const gate = await gateTokenSpend(req.request_id, {
+              ...holdingSpendRequest(first, {
+                originator: origin || 'unknown',
+                recipient: `${parsed.rows.length} recipients, ${plan.txs.length} txs`,
+                amount: plan.total,
+                via: plan.peerTotal === '0' ? 'address' : 'peer',
+              }),
+              recipientCount: parsed.rows.length,
+            });
+            if ('response' in gate) {
+              response = gate.response;
+              break;
+            }
+            // Charge the allowance only for the rows that went out.
+            const result = await spendApproved(gate.approval, () => batch.execute(batchArgs, plan), (r: any) =>
+              (r.results as Array<{ ok: boolean; amount: string }>)
+                .filter((row) => row.ok)
+                .reduce((sum, row) => sum + BigInt(row.amount), 0n)
+                .toString());
+            response = { request_id: req.request_id, status: 200, body: JSON.stringify({ dryRun: false, ...result }) };
+          } catch (e) {
+            response = { request_id: req.request_id, status: 500, body: JSON.stringify({ ok: false, reason: e instanceof Error ? e.message : String(e) }) };
+          }
+          break;
+        }
+
         default: {
           response = {
             request_id: req.request_id,
@@ -1781,11 +2202,33 @@ export const onWalletReady = async (
       window.electronAPI.sendHttpResponse(response);
     } finally {
       if (sessionStarted) {
+        const session = getHttpBridgeSession(req.request_id);
         endHttpBridgeSession(req.request_id);
+        const prompts = session?.prompts ?? [];
+        void recordBridgeAudit(_bridgeAuditTarget, {
+          createdAt: new Date(receivedAt).toISOString(),
+          origin: origin as string,
+          method: req.method,
+          path: req.path,
+          status: response.status,
+          latencyMs: Date.now() - receivedAt,
+          argsHash: hashBridgeArgs(req.body),
+          prompts,
+          outcome: classifyBridgeOutcome({
+            status: response.status,
+            cancelled: session?.cancelled ?? false,
+            cancelReason: session?.cancelReason,
+            prompts,
+          }),
+        });
       }
     }
   });
 
+  // Let the main process route bridge calls here, including any it held while
+  // this window was loading or reloading.
+  window.electronAPI.bridge?.rendererReady?.();
+
   // No cleanup — listener is permanent
   return undefined;
 };
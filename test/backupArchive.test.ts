@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { BACKUP_MAGIC, openBackup, readBackupHeader, sealBackup } from '../electron/backupArchive'
+
+const entries = [
+  { name: 'vault-secrets.json', data: Buffer.from(JSON.stringify({ snap: 'SNAPDATA' }), 'utf8') },
+  { name: 'wallet.db', data: Buffer.from('SQLite format 3\0' + 'x'.repeat(5000), 'binary') },
+  { name: 'empty', data: Buffer.alloc(0) },
+]
+
+describe('backupArchive', () => {
+  // One seal shared across cases: scrypt at the current cost is slow.
+  const archive = sealBackup(entries, { identityKey: '02ab', chain: 'main' }, 'backup-passphrase', new Date('2026-01-02T03:04:05Z'))
+
+  it('round-trips entries and metadata', () => {
+    expect(archive.subarray(0, BACKUP_MAGIC.length).equals(BACKUP_MAGIC)).toBe(true)
+    expect(archive.includes(Buffer.from('SNAPDATA'))).toBe(false)
+
+    const opened = openBackup(archive, 'backup-passphrase')
+    expect(opened.manifest.meta).toEqual({ identityKey: '02ab', chain: 'main' })
+    expect(opened.manifest.createdAt).toBe('2026-01-02T03:04:05.000Z')
+    expect([...opened.entries.keys()]).toEqual(['vault-secrets.json', 'wallet.db', 'empty'])
+    for (const { name, data } of entries) expect(opened.entries.get(name)!.equals(data)).toBe(true)
+  })
+
+  it('reads the header without the passphrase', () => {
+    const { header } = readBackupHeader(archive)
+    expect(header).toMatchObject({ format: 'bsv-desktop-backup', version: 1, createdAt: '2026-01-02T03:04:05.000Z' })
+  })
+
+  it('rejects a wrong passphrase', () => {
+    expect(() => openBackup(archive, 'not-the-passphrase')).toThrow(/Wrong backup passphrase/)
+  })
+
+  it('rejects tampering with the body or the header', () => {
+    const body = Buffer.from(archive)
+    body[body.length - 40] ^= 1
+    expect(() => openBackup(body, 'backup-passphrase')).toThrow(/altered/)
+
+    // The header is authenticated too: rewriting createdAt breaks the tag.
+    const header = Buffer.from(archive.toString('binary').replace('2026-01-02', '2025-01-02'), 'binary')
+    expect(() => openBackup(header, 'backup-passphrase')).toThrow(/altered/)
+  })
+
+  it('rejects files that are not backups', () => {
+    expect(() => readBackupHeader(Buffer.from('hello world, not a backup'))).toThrow(/Not a BSV Desktop backup/)
+    expect(() => readBackupHeader(archive.subarray(0, 20))).toThrow(/truncated/)
+  })
+
+  it('refuses duplicate entry names', () => {
+    expect(() => sealBackup([entries[0], entries[0]], {}, 'backup-passphrase')).toThrow(/duplicate/)
+  })
+})
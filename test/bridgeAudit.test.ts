@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import {
+  bridgeAuditToCsv,
+  classifyBridgeOutcome,
+  hashBridgeArgs,
+  type BridgeAuditEntry,
+} from '../src/lib/services/bridgeAudit'
+
+describe('bridgeAudit', () => {
+  it('hashes request bodies without keeping them', () => {
+    expect(hashBridgeArgs('')).toBeNull()
+    expect(hashBridgeArgs('{"a":1}')).toBe('015abd7f5cc57a2dd94b7590f04ad8084273905ee33ec5cebeae62276a97f862')
+  })
+
+  it('classifies outcomes', () => {
+    const base = { cancelled: false, prompts: [] as string[] }
+    expect(classifyBridgeOutcome({ ...base, status: 200 })).toBe('approved')
+    expect(classifyBridgeOutcome({ ...base, status: 403 })).toBe('denied')
+    expect(classifyBridgeOutcome({ ...base, status: 400, prompts: ['spending'] })).toBe('denied')
+    expect(classifyBridgeOutcome({ ...base, status: 500 })).toBe('error')
+    expect(classifyBridgeOutcome({ ...base, status: 400, cancelled: true, cancelReason: 'CLIENT_DISCONNECTED' })).toBe('disconnected')
+    expect(classifyBridgeOutcome({ ...base, status: 400, cancelled: true })).toBe('cancelled')
+  })
+
+  it('exports CSV with quoting and formula neutralisation', () => {
+    const row: BridgeAuditEntry = {
+      id: 1,
+      createdAt: '2026-01-01T00:00:00.000Z',
+      origin: '=cmd|calc',
+      method: 'POST',
+      path: '/createAction',
+      status: 200,
+      latencyMs: 12,
+      argsHash: 'ab',
+      prompts: ['spending', 'protocol'],
+      outcome: 'approved',
+    }
+    const csv = bridgeAuditToCsv([row, { ...row, origin: 'a,"b"' }])
+    expect(csv.split('\n')).toEqual([
+      'createdAt,origin,method,path,status,latencyMs,outcome,prompts,argsHash',
+      "2026-01-01T00:00:00.000Z,'=cmd|calc,POST,/createAction,200,12,approved,spending;protocol,ab",
+      '2026-01-01T00:00:00.000Z,"a,""b""",POST,/createAction,200,12,approved,spending;protocol,ab',
+      '',
+    ])
+  })
+})
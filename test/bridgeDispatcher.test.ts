@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { EventEmitter } from 'events'
+
+const ipcHandlers = new Map<string, (...args: any[]) => void>()
+
+vi.mock('electron', () => ({
+  ipcMain: { on: (channel: string, fn: (...args: any[]) => void) => ipcHandlers.set(channel, fn) },
+}))
+
+import {
+  APPROVAL_WINDOW_NAME,
+  RENDERER_GRACE_MS,
+  attachWalletWindow,
+  failAllBridgeCalls,
+  forwardToWallet,
+  promptWindow,
+  registerBridgeDispatcherIpc,
+  setApprovalMode,
+  _resetForTests,
+  type HttpRequestEvent,
+} from '../electron/bridgeDispatcher'
+
+let nextContentsId = 1
+
+/** Just enough of a BrowserWindow + webContents for the dispatcher. */
+function fakeWindow() {
+  const contents = Object.assign(new EventEmitter(), {
+    id: nextContentsId++,
+    sent: [] as Array<[string, any]>,
+    destroyed: false,
+    send(channel: string, payload: any) { this.sent.push([channel, payload]) },
+    isDestroyed() { return this.destroyed },
+  })
+  const win = Object.assign(new EventEmitter(), {
+    webContents: contents,
+    destroyed: false,
+    isDestroyed() { return this.destroyed },
+    close() { this.destroyed = true; this.emit('closed') },
+    focus: vi.fn(),
+  })
+  return win as typeof win & any
+}
+
+let requestId = 100
+function request(): HttpRequestEvent {
+  return { method: 'POST', path: '/getPublicKey', headers: {}, body: '{}', request_id: requestId++ }
+}
+
+const ready = (win: any) => ipcHandlers.get('bridge:renderer-ready')!({ sender: win.webContents })
+const answer = (win: any, request_id: number, status = 200) =>
+  ipcHandlers.get('http-response')!({ sender: win.webContents }, { request_id, status, body: '{}' })
+const reload = (win: any) =>
+  win.webContents.emit('did-start-navigation', { isMainFrame: true, isSameDocument: false })
+
+describe('bridge dispatcher', () => {
+  beforeEach(() => {
+    _resetForTests()
+    ipcHandlers.clear()
+    registerBridgeDispatcherIpc()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('delivers to the ready wallet renderer and resolves with its answer', async () => {
+    const win = fakeWindow()
+    attachWalletWindow(win)
+    ready(win)
+
+    const req = request()
+    const pending = forwardToWallet(req, () => {})
+    expect(win.webContents.sent).toEqual([['http-request', req]])
+
+    answer(win, req.request_id, 201)
+    await expect(pending).resolves.toMatchObject({ request_id: req.request_id, status: 201 })
+  })
+
+  it('holds calls while the window reloads and delivers them once it is ready again', async () => {
+    const win = fakeWindow()
+    attachWalletWindow(win)
+    ready(win)
+    reload(win)
+
+    const req = request()
+    const pending = forwardToWallet(req, () => {})
+    expect(win.webContents.sent).toEqual([])
+
+    ready(win)
+    expect(win.webContents.sent).toEqual([['http-request', req]])
+    answer(win, req.request_id)
+    await expect(pending).resolves.toMatchObject({ status: 200 })
+  })
+
+  it('follows a recreated window', async () => {
+    const first = fakeWindow()
+    attachWalletWindow(first)
+    ready(first)
+    first.close()
+
+    const second = fakeWindow()
+    attachWalletWindow(second)
+    ready(second)
+
+    const req = request()
+    const pending = forwardToWallet(req, () => {})
+    expect(second.webContents.sent).toEqual([['http-request', req]])
+
+    // The old window's renderer cannot answer for the new one.
+    answer(first, req.request_id, 500)
+    answer(second, req.request_id, 200)
+    await expect(pending).resolves.toMatchObject({ status: 200 })
+  })
+
+  it('fails calls already delivered when their renderer goes away', async () => {
+    const win = fakeWindow()
+    attachWalletWindow(win)
+    ready(win)
+
+    const pending = forwardToWallet(request(), () => {})
+    win.webContents.emit('render-process-gone', {}, { reason: 'crashed' })
+    await expect(pending).rejects.toThrow('WALLET_BRIDGE_UNAVAILABLE: renderer process gone (crashed)')
+  })
+
+  it('keeps the renderer across in-page navigations', async () => {
+    const win = fakeWindow()
+    attachWalletWindow(win)
+    ready(win)
+
+    const req = request()
+    const pending = forwardToWallet(req, () => {})
+    win.webContents.emit('did-start-navigation', { isMainFrame: true, isSameDocument: true })
+    win.webContents.emit('did-start-navigation', { isMainFrame: false, isSameDocument: false })
+
+    answer(win, req.request_id)
+    await expect(pending).resolves.toMatchObject({ status: 200 })
+  })
+
+  it('gives up when no renderer becomes ready within the grace period', async () => {
+    vi.useFakeTimers()
+    const pending = forwardToWallet(request(), () => {})
+    const settled = expect(pending).rejects.toThrow('WALLET_BRIDGE_UNAVAILABLE')
+    vi.advanceTimersByTime(RENDERER_GRACE_MS)
+    await settled
+  })
+
+  it('ignores readiness from windows that were never attached', async () => {
+    vi.useFakeTimers()
+    const stranger = fakeWindow()
+    const pending = forwardToWallet(request(), () => {})
+    ready(stranger)
+    expect(stranger.webContents.sent).toEqual([])
+
+    const settled = expect(pending).rejects.toThrow('WALLET_BRIDGE_UNAVAILABLE')
+    vi.advanceTimersByTime(RENDERER_GRACE_MS)
+    await settled
+  })
+
+  it('tells the renderer to dismiss prompts when the client goes away', async () => {
+    const win = fakeWindow()
+    attachWalletWindow(win)
+    ready(win)
+
+    let abandon = () => {}
+    const req = request()
+    const pending = forwardToWallet(req, (fn) => { abandon = fn })
+    abandon()
+
+    await expect(pending).rejects.toThrow('CLIENT_DISCONNECTED')
+    expect(win.webContents.sent[1]).toEqual([
+      'http-request-cancelled',
+      { request_id: req.request_id, reason: 'CLIENT_DISCONNECTED' },
+    ])
+  })
+
+  it('fails waiting and delivered calls on shutdown', async () => {
+    const win = fakeWindow()
+    attachWalletWindow(win)
+    ready(win)
+    const delivered = forwardToWallet(request(), () => {})
+    reload(win)
+    const waiting = forwardToWallet(request(), () => {})
+
+    failAllBridgeCalls('WALLET_BRIDGE_UNAVAILABLE: HTTP server shutting down')
+    await expect(delivered).rejects.toThrow('renderer reloading')
+    await expect(waiting).rejects.toThrow('shutting down')
+  })
+
+  it('tells the renderer to cancel calls failed by a vault lock', async () => {
+    const win = fakeWindow()
+    attachWalletWindow(win)
+    ready(win)
+    const req = request()
+    const pending = forwardToWallet(req, () => {})
+
+    failAllBridgeCalls('WALLET_LOCKED: wallet vault locked while the request was pending')
+
+    await expect(pending).rejects.toThrow('WALLET_LOCKED')
+    expect(win.webContents.sent[1]).toEqual([
+      'http-request-cancelled',
+      { request_id: req.request_id, reason: 'WALLET_LOCKED' },
+    ])
+  })
+
+  it('raises the approval window for prompts when one is open', () => {
+    const win = fakeWindow()
+    attachWalletWindow(win)
+    expect(promptWindow()).toBe(win)
+
+    setApprovalMode(true)
+    expect(promptWindow()).toBeNull()
+
+    const approvals = fakeWindow()
+    win.webContents.emit('did-create-window', approvals, { frameName: APPROVAL_WINDOW_NAME })
+    expect(promptWindow()).toBe(approvals)
+    expect(approvals.focus).toHaveBeenCalled()
+
+    // Its prompts live in the wallet renderer, so it closes with it.
+    reload(win)
+    expect(approvals.isDestroyed()).toBe(true)
+    setApprovalMode(false)
+    expect(promptWindow()).toBe(win)
+  })
+})
@@ -0,0 +1,241 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import http from 'http'
+import type { AddressInfo } from 'net'
+
+const ipcHandlers = new Map<string, (...args: any[]) => void>()
+
+vi.mock('electron', () => ({
+  ipcMain: { on: (channel: string, fn: (...args: any[]) => void) => ipcHandlers.set(channel, fn) },
+}))
+
+import {
+  STREAM_TICKET_TTL_MS,
+  atomicBeefTxid,
+  closeEventStreams,
+  eventVisibleTo,
+  issueStreamTicket,
+  openStreamCount,
+  parseEventTypes,
+  publishBridgeEvent,
+  publishInternalizedOutputs,
+  redeemStreamTicket,
+  registerBridgeEventsIpc,
+  serveEventStream,
+  subscribeBridgeEvents,
+  trackBridgeCall,
+  _resetForTests,
+  type BridgeEvent,
+} from '../electron/bridgeEvents'
+
+/** Record a successful createAction by `origin` that produced `txid`. */
+function owns(origin: string, txid: string) {
+  trackBridgeCall(origin, '/createAction', JSON.stringify({ outputs: [] }))(200, JSON.stringify({ txid }))
+}
+
+const event = (type: BridgeEvent['type'], data: Record<string, unknown>): BridgeEvent =>
+  ({ id: 1, type, at: '', data })
+
+/** Serves every request as an event stream for `app.test`, filtered by ?types=. */
+async function startServer(): Promise<{ url: string; close: () => Promise<void> }> {
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+    const types = parseEventTypes(url.searchParams.get('types') ?? undefined)
+    const last = req.headers['last-event-id']
+    serveEventStream(res, {
+      origin: 'app.test',
+      types: types.ok ? types.types : null,
+      lastEventId: last ? Number(last) : undefined,
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve) => {
+      closeEventStreams('app.test')
+      server.close(() => resolve())
+    }),
+  }
+}
+
+/** Collects parsed SSE messages until `count` arrive. */
+function readEvents(url: string, count: number, headers: Record<string, string> = {}) {
+  const events: Array<{ id: string; event: string; data: any }> = []
+  let req: http.ClientRequest
+  const done = new Promise<typeof events>((resolve, reject) => {
+    req = http.get(url, { headers }, (res) => {
+      let buffered = ''
+      res.setEncoding('utf8')
+      res.on('data', (chunk: string) => {
+        buffered += chunk
+        let end: number
+        while ((end = buffered.indexOf('\n\n')) !== -1) {
+          const block = buffered.slice(0, end)
+          buffered = buffered.slice(end + 2)
+          const fields: Record<string, string> = {}
+          for (const line of block.split('\n')) {
+            const colon = line.indexOf(': ')
+            if (colon > 0) fields[line.slice(0, colon)] = line.slice(colon + 2)
+          }
+          if (fields.event) {
+            events.push({ id: fields.id, event: fields.event, data: JSON.parse(fields.data) })
+          }
+        }
+        if (events.length >= count) resolve(events)
+      })
+    })
+    req.on('error', reject)
+  })
+  return { done, ready: () => vi.waitFor(() => expect(openStreamCount('app.test')).toBeGreaterThan(0)), abort: () => req.destroy() }
+}
+
+describe('bridgeEvents', () => {
+  let server: Awaited<ReturnType<typeof startServer>> | null = null
+
+  beforeEach(() => {
+    _resetForTests()
+    ipcHandlers.clear()
+  })
+
+  afterEach(async () => {
+    if (server) await server.close()
+    server = null
+  })
+
+  it('streams published events as SSE, honouring the type filter', async () => {
+    owns('app.test', 'aa')
+    server = await startServer()
+    const client = readEvents(`${server.url}/events?types=action.status,vault.locked`, 2)
+    await client.ready()
+
+    publishBridgeEvent('peertoken.incoming', { messageId: 'm1', basket: 'tickets' })
+    publishBridgeEvent('action.status', { txid: 'ff', status: 'completed' })
+    publishBridgeEvent('action.status', { txid: 'aa', status: 'completed' })
+    publishBridgeEvent('vault.locked')
+
+    const events = await client.done
+    expect(events.map((e) => e.event)).toEqual(['action.status', 'vault.locked'])
+    expect(events[0]).toMatchObject({ id: '3', data: { txid: 'aa', status: 'completed' } })
+    expect(events[0].data.at).toMatch(/^\d{4}-\d{2}-\d{2}T/)
+    client.abort()
+    await vi.waitFor(() => expect(openStreamCount('app.test')).toBe(0))
+  })
+
+  it('replays missed events after Last-Event-ID', async () => {
+    owns('app.test', 'bb')
+    publishBridgeEvent('vault.unlocked')
+    publishBridgeEvent('action.status', { txid: 'bb', status: 'unproven' })
+    publishBridgeEvent('action.status', { txid: 'ee', status: 'unproven' })
+    publishBridgeEvent('action.status', { txid: 'bb', status: 'completed' })
+
+    server = await startServer()
+    const client = readEvents(`${server.url}/events`, 2, { 'Last-Event-ID': '1' })
+    const events = await client.done
+    expect(events.map((e) => [e.id, e.data.status])).toEqual([['2', 'unproven'], ['4', 'completed']])
+    client.abort()
+  })
+
+  it('shows an app only its own actions and the baskets it has used', () => {
+    owns('a.test', 'aa')
+    trackBridgeCall('a.test', '/listOutputs', JSON.stringify({ basket: 'tickets' }))(200, '{"outputs":[]}')
+    trackBridgeCall('b.test', '/listOutputs', JSON.stringify({ basket: 'coupons' }))(403, '{}')
+
+    expect(eventVisibleTo(event('action.status', { txid: 'aa' }), 'a.test')).toBe(true)
+    expect(eventVisibleTo(event('action.status', { txid: 'aa' }), 'b.test')).toBe(false)
+    expect(eventVisibleTo(event('output.internalized', { txid: 'cc', basket: 'tickets' }), 'a.test')).toBe(true)
+    expect(eventVisibleTo(event('output.internalized', { txid: 'cc', basket: 'tickets' }), 'b.test')).toBe(false)
+    expect(eventVisibleTo(event('output.internalized', { txid: 'cc', basket: 'coupons' }), 'b.test')).toBe(false)
+    expect(eventVisibleTo(event('vault.locked', {}), 'b.test')).toBe(true)
+  })
+
+  it('gives an internalized tx to the app only once its call succeeds', () => {
+    const txid = 'ab'.repeat(32)
+    const tx = [1, 1, 1, 1, ...Buffer.from(txid, 'hex').reverse(), 0]
+    expect(atomicBeefTxid(tx)).toBe(txid)
+    const body = JSON.stringify({ tx, outputs: [{ outputIndex: 0, protocol: 'wallet payment' }] })
+    const status = event('action.status', { txid, status: 'completed' })
+
+    // Naming another app's tx in a call that is still running, or fails, claims nothing.
+    const failing = trackBridgeCall('b.test', '/internalizeAction', body)
+    expect(eventVisibleTo(status, 'b.test')).toBe(false)
+    failing(400, '{}')
+    expect(eventVisibleTo(status, 'b.test')).toBe(false)
+
+    const settle = trackBridgeCall('a.test', '/internalizeAction', body)
+    expect(eventVisibleTo(status, 'a.test')).toBe(false)
+    settle(200, '{"accepted":true}')
+    expect(eventVisibleTo(status, 'a.test')).toBe(true)
+  })
+
+  it('tracks each call of a JSON-RPC batch by its own result', () => {
+    const settle = trackBridgeCall('a.test', '/rpc', JSON.stringify([
+      { jsonrpc: '2.0', id: 1, method: 'createAction', params: { outputs: [{ basket: 'tickets' }] } },
+      { jsonrpc: '2.0', id: 2, method: 'listOutputs', params: { basket: 'coupons' } },
+    ]))
+    settle(200, JSON.stringify([
+      { jsonrpc: '2.0', id: 1, result: { txid: 'dd' } },
+      { jsonrpc: '2.0', id: 2, error: { code: 2, message: 'denied' } },
+    ]))
+
+    expect(eventVisibleTo(event('action.status', { txid: 'dd' }), 'a.test')).toBe(true)
+    expect(eventVisibleTo(event('output.internalized', { basket: 'tickets' }), 'a.test')).toBe(true)
+    expect(eventVisibleTo(event('output.internalized', { basket: 'coupons' }), 'a.test')).toBe(false)
+  })
+
+  it('stream tickets work once, before they expire, and die with the pairing', () => {
+    const ticket = issueStreamTicket('a.test', 1000)
+    expect(redeemStreamTicket(ticket, 1001)).toBe('a.test')
+    expect(redeemStreamTicket(ticket, 1002)).toBeNull()
+
+    const late = issueStreamTicket('a.test', 1000)
+    expect(redeemStreamTicket(late, 1000 + STREAM_TICKET_TTL_MS)).toBeNull()
+
+    const revoked = issueStreamTicket('a.test')
+    closeEventStreams('a.test')
+    expect(redeemStreamTicket(revoked)).toBeNull()
+  })
+
+  it('rejects unknown event types', () => {
+    expect(parseEventTypes('action.status, vault.locked')).toEqual({
+      ok: true,
+      types: new Set(['action.status', 'vault.locked']),
+    })
+    expect(parseEventTypes('')).toEqual({ ok: true, types: null })
+    expect(parseEventTypes('action.status,keys.exported')).toMatchObject({ ok: false })
+  })
+
+  it('publishes one output.internalized event per basket', () => {
+    const seen: BridgeEvent[] = []
+    subscribeBridgeEvents((e) => seen.push(e))
+
+    publishInternalizedOutputs(
+      {
+        outputs: [
+          { outputIndex: 0, protocol: 'wallet payment' },
+          { outputIndex: 1, protocol: 'basket insertion', insertionRemittance: { basket: 'tickets' } },
+          { outputIndex: 2, protocol: 'basket insertion', insertionRemittance: { basket: 'tickets' } },
+        ],
+      },
+      { txid: 'cc', satoshis: 1500, isMerge: false }
+    )
+
+    expect(seen.map((e) => e.data)).toEqual([
+      { txid: 'cc', basket: 'default', outputIndexes: [0], merged: false, satoshis: 1500 },
+      { txid: 'cc', basket: 'tickets', outputIndexes: [1, 2], merged: false },
+    ])
+  })
+
+  it('only lets the renderer publish peer-token events', () => {
+    const seen: BridgeEvent[] = []
+    subscribeBridgeEvents((e) => seen.push(e))
+    registerBridgeEventsIpc()
+    const publish = ipcHandlers.get('bridge-events:publish')!
+
+    publish({}, 'peertoken.incoming', { messageId: 'm2', protocol: 'bsv-21' })
+    publish({}, 'vault.unlocked', {})
+    publish({}, 'peerpay.incoming', { messageId: 'm3', basket: 'default' })
+    publish({}, 'peertoken.incoming', 'not an object')
+
+    expect(seen.map((e) => e.type)).toEqual(['peertoken.incoming'])
+  })
+})
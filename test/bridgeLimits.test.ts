@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import os from 'os'
+import path from 'path'
+import fs from 'fs'
+
+const TMP = path.join(os.tmpdir(), `bridge-limits-test-${process.pid}-${Date.now()}`)
+
+vi.mock('electron', () => ({
+  app: { getPath: () => TMP },
+  ipcMain: { handle: vi.fn() },
+}))
+
+import {
+  BridgeLimiter,
+  DEFAULT_BRIDGE_LIMITS,
+  HARD_MAX_BODY_BYTES,
+  MAX_ORIGIN_BUCKETS,
+  getBridgeLimits,
+  normalizeBridgeLimits,
+  _resetForTests,
+  type BridgeLimits,
+} from '../electron/bridgeLimits'
+
+function limiterWith(overrides: Partial<BridgeLimits>) {
+  let t = 1_000_000
+  const limits = normalizeBridgeLimits({ ...DEFAULT_BRIDGE_LIMITS, ...overrides })
+  const limiter = new BridgeLimiter(() => limits, () => t)
+  return { limiter, advance: (ms: number) => { t += ms } }
+}
+
+describe('bridgeLimits', () => {
+  beforeEach(() => {
+    fs.rmSync(TMP, { recursive: true, force: true })
+    fs.mkdirSync(TMP, { recursive: true })
+    _resetForTests()
+  })
+
+  it('rate-limits per origin with Retry-After and refills over time', () => {
+    const { limiter, advance } = limiterWith({ perOriginRequestsPerSecond: 2, perOriginBurst: 2 })
+    for (let i = 0; i < 2; i++) {
+      const ok = limiter.admit('a.test', '/getPublicKey', 10)
+      expect(ok.ok).toBe(true)
+      if (ok.ok) ok.release()
+    }
+
+    const limited = limiter.admit('a.test', '/getPublicKey', 10)
+    expect(limited).toMatchObject({ ok: false, status: 429, code: 'RATE_LIMITED', retryAfterSeconds: 1 })
+
+    // Another origin has its own bucket.
+    expect(limiter.admit('b.test', '/getPublicKey', 10).ok).toBe(true)
+
+    advance(500)
+    expect(limiter.admit('a.test', '/getPublicKey', 10).ok).toBe(true)
+  })
+
+  it('applies the global bucket across origins', () => {
+    const { limiter } = limiterWith({ globalRequestsPerSecond: 3, globalBurst: 3, perOriginBurst: 3 })
+    expect(limiter.admit('a.test', '/x', 0).ok).toBe(true)
+    expect(limiter.admit('b.test', '/x', 0).ok).toBe(true)
+    expect(limiter.admit('c.test', '/x', 0).ok).toBe(true)
+    expect(limiter.admit('d.test', '/x', 0)).toMatchObject({ ok: false, code: 'RATE_LIMITED' })
+  })
+
+  it('forgets refilled buckets and caps how many origins it tracks', () => {
+    const { limiter, advance } = limiterWith({ globalRequestsPerSecond: 1e6, globalBurst: 1e6 })
+    const buckets = () => (limiter as any).originBuckets as Map<string, unknown>
+    for (let i = 0; i < MAX_ORIGIN_BUCKETS + 50; i++) {
+      const ok = limiter.admit(`rotating-${i}.test`, '/x', 0)
+      expect(ok.ok).toBe(true)
+      if (ok.ok) ok.release()
+    }
+    expect(buckets().size).toBeLessThanOrEqual(MAX_ORIGIN_BUCKETS)
+    // The most recent origin keeps its (drained) bucket.
+    expect(buckets().has(`rotating-${MAX_ORIGIN_BUCKETS + 49}.test`)).toBe(true)
+
+    advance(60_000)
+    limiter.admit('a.test', '/x', 0)
+    expect([...buckets().keys()]).toEqual(['a.test'])
+  })
+
+  it('caps in-flight calls per origin until they are released', () => {
+    const { limiter } = limiterWith({ maxInFlightPerOrigin: 2 })
+    const a = limiter.admit('a.test', '/createAction', 0)
+    const b = limiter.admit('a.test', '/createAction', 0)
+    expect(limiter.admit('a.test', '/createAction', 0)).toMatchObject({
+      ok: false, status: 429, code: 'TOO_MANY_IN_FLIGHT', retryAfterSeconds: 1,
+    })
+    if (a.ok) {
+      a.release()
+      a.release() // idempotent
+    }
+    expect(limiter.admit('a.test', '/createAction', 0).ok).toBe(true)
+    expect(limiter.admit('a.test', '/createAction', 0).ok).toBe(false)
+    expect(b.ok).toBe(true)
+  })
+
+  it('gives /pair one budget whatever Origin it claims, with one prompt pending', () => {
+    const { limiter } = limiterWith({ perOriginRequestsPerSecond: 2, perOriginBurst: 2 })
+    const first = limiter.admit('a.test', '/pair', 0)
+    expect(first.ok).toBe(true)
+    expect(limiter.admit('b.test', '/pair', 0)).toMatchObject({ ok: false, status: 429, code: 'TOO_MANY_IN_FLIGHT' })
+    // Other routes from the same origins keep their own budgets.
+    expect(limiter.admit('b.test', '/getVersion', 0).ok).toBe(true)
+
+    if (first.ok) first.release()
+    const second = limiter.admit('c.test', '/pair', 0)
+    expect(second.ok).toBe(true)
+    if (second.ok) second.release()
+    expect(limiter.admit('d.test', '/pair', 0)).toMatchObject({ ok: false, code: 'RATE_LIMITED' })
+  })
+
+  it('enforces per-route body limits with a wildcard fallback', () => {
+    const { limiter } = limiterWith({ maxBodyBytes: { '*': 100, '/createAction': 1000 } })
+    expect(limiter.admit('a.test', '/createAction', 900).ok).toBe(true)
+    expect(limiter.admit('a.test', '/listOutputs', 101)).toMatchObject({ ok: false, status: 413, code: 'PAYLOAD_TOO_LARGE' })
+  })
+
+  it('normalizes untrusted settings', () => {
+    const limits = normalizeBridgeLimits({
+      perOriginRequestsPerSecond: -5,
+      perOriginBurst: 50,
+      globalBurst: 10,
+      maxBodyBytes: { 'no-slash': 5, '/big': HARD_MAX_BODY_BYTES * 2 },
+    } as any)
+    expect(limits.perOriginRequestsPerSecond).toBe(DEFAULT_BRIDGE_LIMITS.perOriginRequestsPerSecond)
+    expect(limits.globalBurst).toBe(50)
+    expect(limits.maxBodyBytes).toEqual({ '/big': HARD_MAX_BODY_BYTES, '*': DEFAULT_BRIDGE_LIMITS.maxBodyBytes['*'] })
+  })
+
+  it('reads persisted limits from userData', () => {
+    expect(getBridgeLimits()).toEqual(normalizeBridgeLimits(DEFAULT_BRIDGE_LIMITS))
+    fs.writeFileSync(path.join(TMP, 'bridge-limits.json'), JSON.stringify({ maxInFlightPerOrigin: 3 }))
+    _resetForTests()
+    expect(getBridgeLimits().maxInFlightPerOrigin).toBe(3)
+  })
+})
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+
+import {
+  BRIDGE_ROUTES,
+  BRIDGE_SCHEMAS,
+  buildOpenApiDocument,
+  validateBridgeRequest,
+} from '../electron/bridgeOpenApi'
+import { validateSchema } from '../electron/bridgeSchema'
+
+const TXID = 'ab'.repeat(32)
+
+function errorsOf(path: string, body: unknown): string[] {
+  const reply = validateBridgeRequest(path, typeof body === 'string' ? body : JSON.stringify(body))
+  if (!reply) return []
+  expect(reply.status).toBe(400)
+  return JSON.parse(reply.body).errors
+}
+
+describe('bridgeOpenApi', () => {
+  it('documents exactly the routes the renderer switch handles', () => {
+    const source = readFileSync(join(__dirname, '..', 'src', 'onWalletReady.ts'), 'utf8')
+    const handled = new Set([...source.matchAll(/case '(\/[^']+)':/g)].map((m) => m[1]))
+    const documented = new Set(BRIDGE_ROUTES.filter((r) => !r.mainProcess).map((r) => r.path))
+    expect([...documented].sort()).toEqual([...handled].sort())
+  })
+
+  it('builds a document whose $refs all resolve', () => {
+    const doc = buildOpenApiDocument('1.2.3')
+    expect(doc.openapi).toBe('3.1.0')
+    expect(Object.keys(doc.paths as object)).toHaveLength(BRIDGE_ROUTES.length)
+
+    const refs = [...JSON.stringify(doc).matchAll(/"\$ref":"#\/components\/(\w+)\/(\w+)"/g)]
+    const components = doc.components as Record<string, Record<string, unknown>>
+    for (const [, kind, name] of refs) {
+      expect(components[kind]?.[name], `${kind}/${name}`).toBeDefined()
+    }
+  })
+
+  it('accepts every documented example', () => {
+    for (const route of BRIDGE_ROUTES) {
+      if (route.example === undefined || !route.request) continue
+      expect(validateSchema(route.request, route.example, 'body', BRIDGE_SCHEMAS), route.path).toEqual([])
+    }
+  })
+
+  it('reports each problem with its path', () => {
+    expect(errorsOf('/createAction', {
+      outputs: [{ lockingScript: 'zz', satoshis: '1000', outputDescription: 'x' }],
+      options: { knownTxids: ['abc'] },
+    })).toEqual([
+      'body.description: is required',
+      'body.outputs[0].lockingScript: must be a hex string',
+      'body.outputs[0].satoshis: expected integer, got string "1000"',
+      'body.options.knownTxids[0]: must be a 64-character hex txid',
+    ])
+    expect(errorsOf('/encrypt', { plaintext: [1, 256], protocolID: [3, 'x'], keyID: '1' })).toEqual([
+      'body.plaintext[1]: must be <= 255',
+      'body.protocolID[0]: must be <= 2',
+    ])
+    expect(errorsOf('/getPublicKey', { counterparty: 'me' })).toEqual([
+      'body.counterparty: must be a compressed public key (66 hex characters)',
+    ])
+  })
+
+  it('validates token routes and leaves body-less and JSON-RPC routes alone', () => {
+    expect(errorsOf('/bsv-21/transfer', { outpoint: `${TXID}.0`, recipientAddress: '1BoatSLRHtKNngkdXEeobR76b53LETtpyT', amount: '12' })).toEqual([])
+    expect(errorsOf('/bsv-21/transfer', { outpoint: TXID, amount: -1 })).toEqual([
+      'body.recipientAddress: is required',
+      'body.outpoint: must be an outpoint "<txid>.<vout>"',
+      'body.amount: must be >= 0',
+    ])
+    expect(errorsOf('/stas/register-by-txid', '')).toEqual(['body.txid: is required'])
+
+    const badJson = validateBridgeRequest('/peerToken/accept', '{nope')
+    expect(JSON.parse(badJson!.body)).toMatchObject({ code: 'INVALID_REQUEST', errors: [] })
+
+    expect(validateBridgeRequest('/getHeight', 'ignored')).toBeNull()
+    expect(validateBridgeRequest('/rpc', '[]')).toBeNull()
+    expect(validateBridgeRequest('/not-a-route', '{}')).toBeNull()
+  })
+})
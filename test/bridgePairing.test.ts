@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import os from 'os'
+import path from 'path'
+import fs from 'fs'
+
+const TMP = path.join(os.tmpdir(), `bridge-pairing-test-${process.pid}-${Date.now()}`)
+
+vi.mock('electron', () => ({
+  app: { getPath: () => TMP },
+}))
+
+let pairing: typeof import('../electron/bridgePairing')
+
+describe('bridgePairing', () => {
+  beforeEach(async () => {
+    fs.rmSync(TMP, { recursive: true, force: true })
+    fs.mkdirSync(TMP, { recursive: true })
+    vi.resetModules()
+    pairing = await import('../electron/bridgePairing')
+    pairing._resetForTests()
+  })
+
+  it('resolves origins from origin and originator headers', () => {
+    expect(pairing.originFromHeaders({ origin: 'https://App.Example.com:8080' })).toBe('app.example.com:8080')
+    expect(pairing.originFromHeaders({ originator: 'legacy-app.com' })).toBe('legacy-app.com')
+    expect(pairing.originFromHeaders({})).toBeNull()
+  })
+
+  it('parses bearer tokens', () => {
+    expect(pairing.bearerFromHeaders({ authorization: 'Bearer abc_DEF-123' })).toBe('abc_DEF-123')
+    expect(pairing.bearerFromHeaders({ authorization: 'Basic abc' })).toBeNull()
+    expect(pairing.bearerFromHeaders({})).toBeNull()
+  })
+
+  it('issues a token that verifies only for its own origin', () => {
+    const token = pairing.issueToken('app.example.com')
+    expect(pairing.verifyToken(token, 'app.example.com')).toEqual({ ok: true, origin: 'app.example.com' })
+
+    const other = pairing.verifyToken(token, 'evil.example.com')
+    expect(other.ok).toBe(false)
+    expect(!other.ok && other.code).toBe('BRIDGE_TOKEN_ORIGIN_MISMATCH')
+  })
+
+  it('rejects missing and unknown tokens', () => {
+    const missing = pairing.verifyToken(null, 'app.example.com')
+    expect(!missing.ok && missing.code).toBe('BRIDGE_TOKEN_REQUIRED')
+
+    const unknown = pairing.verifyToken('not-a-token', 'app.example.com')
+    expect(!unknown.ok && unknown.code).toBe('BRIDGE_TOKEN_INVALID')
+  })
+
+  it('persists only token digests with owner-only permissions', () => {
+    const token = pairing.issueToken('app.example.com')
+    const file = path.join(TMP, 'bridge-pairings.json')
+    expect(fs.readFileSync(file, 'utf8')).not.toContain(token)
+    if (process.platform !== 'win32') {
+      expect(fs.statSync(file).mode & 0o777).toBe(0o600)
+    }
+
+    pairing._resetForTests()
+    expect(pairing.verifyToken(token, 'app.example.com').ok).toBe(true)
+  })
+
+  it('re-pairing replaces the previous token', () => {
+    expect(pairing.findPairing('app.example.com')).toBeNull()
+    const first = pairing.issueToken('app.example.com')
+    expect(pairing.findPairing('https://APP.example.com')).toMatchObject({ origin: 'app.example.com', lastUsedAt: null })
+    const second = pairing.issueToken('app.example.com')
+    expect(pairing.verifyToken(first, 'app.example.com').ok).toBe(false)
+    expect(pairing.verifyToken(second, 'app.example.com').ok).toBe(true)
+    expect(pairing.listPairings()).toHaveLength(1)
+  })
+
+  it('revokes a pairing', () => {
+    const token = pairing.issueToken('app.example.com')
+    expect(pairing.revokePairing('https://app.example.com')).toBe(true)
+    expect(pairing.verifyToken(token, 'app.example.com').ok).toBe(false)
+    expect(pairing.listPairings()).toEqual([])
+    expect(pairing.revokePairing('app.example.com')).toBe(false)
+  })
+})
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import os from 'os'
+import path from 'path'
+import fs from 'fs'
+import net from 'net'
+
+const TMP = path.join(os.tmpdir(), `bridge-socket-test-${process.pid}-${Date.now()}`)
+
+vi.mock('electron', () => ({
+  app: { getPath: () => TMP },
+}))
+
+import { parseRequestFrame, startBridgeSocket } from '../electron/bridgeSocket'
+import type { BridgeCall, BridgeDispatcher } from '../electron/httpServer'
+
+function connect(socketPath: string): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const conn = net.connect(socketPath)
+    conn.once('connect', () => resolve(conn))
+    conn.once('error', reject)
+  })
+}
+
+function readFrames(conn: net.Socket, count: number): Promise<any[]> {
+  return new Promise((resolve) => {
+    let buffered = ''
+    const frames: any[] = []
+    conn.setEncoding('utf8')
+    conn.on('data', (chunk: string) => {
+      buffered += chunk
+      let newline: number
+      while ((newline = buffered.indexOf('\n')) !== -1) {
+        frames.push(JSON.parse(buffered.slice(0, newline)))
+        buffered = buffered.slice(newline + 1)
+      }
+      if (frames.length >= count) resolve(frames)
+    })
+  })
+}
+
+describe.skipIf(process.platform === 'win32')('bridgeSocket', () => {
+  const socketPath = path.join(TMP, 'bridge.sock')
+  let close: (() => Promise<void>) | null = null
+
+  beforeEach(() => {
+    fs.rmSync(TMP, { recursive: true, force: true })
+    fs.mkdirSync(TMP, { recursive: true })
+  })
+
+  afterEach(async () => {
+    if (close) await close()
+    close = null
+  })
+
+  it('validates frames', () => {
+    expect(parseRequestFrame('not json')).toMatchObject({ request_id: null, status: 400 })
+    expect(parseRequestFrame('{"request_id":7,"path":"nope"}')).toMatchObject({ request_id: 7, status: 400 })
+    expect(parseRequestFrame('{"request_id":7,"path":"/x","body":{}}')).toMatchObject({ status: 400 })
+    expect(parseRequestFrame('{"request_id":"a","path":"/getVersion","headers":{"Origin":"app.test"}}')).toEqual({
+      request_id: 'a',
+      method: 'POST',
+      path: '/getVersion',
+      headers: { origin: 'app.test' },
+      body: '',
+    })
+  })
+
+  it('round-trips pipelined calls and echoes the client request_id', async () => {
+    const calls: BridgeCall[] = []
+    const dispatch: BridgeDispatcher = async (call) => {
+      calls.push(call)
+      // Answer the first call last to prove replies are matched by id, not order.
+      if (call.path === '/slow') await new Promise((r) => setTimeout(r, 30))
+      return { status: 200, body: JSON.stringify({ path: call.path }) }
+    }
+    close = await startBridgeSocket(dispatch, socketPath)
+    expect(fs.statSync(socketPath).mode & 0o777).toBe(0o600)
+
+    const conn = await connect(socketPath)
+    const replies = readFrames(conn, 2)
+    conn.write('{"request_id":1,"method":"post","path":"/slow","body":"{}"}\n{"request_id":2,"path":"/fast"}\n')
+    const frames = await replies
+    conn.destroy()
+
+    expect(frames).toEqual([
+      { request_id: 2, status: 200, body: '{"path":"/fast"}' },
+      { request_id: 1, status: 200, body: '{"path":"/slow"}' },
+    ])
+    expect(calls[0]).toMatchObject({ method: 'POST', path: '/slow', body: '{}' })
+  })
+
+  it('abandons in-flight calls when the client disconnects', async () => {
+    let abandoned = false
+    const dispatch: BridgeDispatcher = (call) =>
+      new Promise((resolve) => {
+        call.onClientGone(() => {
+          abandoned = true
+          resolve(null)
+        })
+      })
+    close = await startBridgeSocket(dispatch, socketPath)
+
+    const conn = await connect(socketPath)
+    conn.write('{"request_id":1,"path":"/createAction","body":"{}"}\n')
+    await new Promise((r) => setTimeout(r, 20))
+    conn.destroy()
+    await vi.waitFor(() => expect(abandoned).toBe(true))
+  })
+
+  it('cleanup does not wait for idle clients to hang up', async () => {
+    const stop = await startBridgeSocket(async () => ({ status: 200, body: '{}' }), socketPath)
+    const conn = await connect(socketPath)
+    const ended = new Promise((r) => conn.once('close', r))
+    await stop()
+    await ended
+    expect(fs.existsSync(socketPath)).toBe(false)
+  })
+
+  it('replaces a stale socket file left by a crashed run', async () => {
+    fs.writeFileSync(socketPath, '')
+    close = await startBridgeSocket(async () => ({ status: 200, body: '{}' }), socketPath)
+    const conn = await connect(socketPath)
+    conn.destroy()
+  })
+
+  it('does not steal a socket another instance is serving', async () => {
+    close = await startBridgeSocket(async () => ({ status: 200, body: '{}' }), socketPath)
+    const second = await startBridgeSocket(async () => ({ status: 500, body: '{}' }), socketPath)
+    await second()
+    // The first listener is still reachable.
+    const conn = await connect(socketPath)
+    conn.destroy()
+  })
+})
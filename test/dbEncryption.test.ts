@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import os from 'os'
+import path from 'path'
+import fs from 'fs'
+import { createRequire } from 'module'
+import { randomBytes } from 'crypto'
+import {
+  applyDatabaseKey,
+  decryptDatabaseFile,
+  encryptDatabaseFile,
+  encryptPlaintextFiles,
+  isPlaintextDatabase,
+  opensWithKey,
+} from '../electron/dbEncryption'
+
+const { createKnex } = createRequire(import.meta.url)('../electron/storage-loader.cjs')
+
+const TMP = path.join(os.tmpdir(), `db-encryption-test-${process.pid}-${Date.now()}`)
+const DB = path.join(TMP, 'wallet.db')
+const SECRET = 'counterparty-label-that-must-not-leak'
+
+function open(filePath: string, key: Buffer | null) {
+  return createKnex({
+    client: 'better-sqlite3',
+    connection: { filename: filePath },
+    useNullAsDefault: true,
+    pool: {
+      afterCreate: (conn: any, cb: any) => {
+        if (key) applyDatabaseKey(conn, key)
+        conn.pragma('journal_mode = WAL')
+        cb(null, conn)
+      },
+    },
+  })
+}
+
+async function writePlaintext(filePath: string) {
+  const db = open(filePath, null)
+  await db.schema.createTable('labels', (t: any) => { t.text('label') })
+  await db('labels').insert({ label: SECRET })
+  await db.destroy()
+}
+
+async function readLabels(filePath: string, key: Buffer | null) {
+  const db = open(filePath, key)
+  try {
+    return (await db('labels').select('label')).map((r: any) => r.label)
+  } finally {
+    await db.destroy()
+  }
+}
+
+describe('wallet database encryption', () => {
+  beforeEach(() => {
+    fs.rmSync(TMP, { recursive: true, force: true })
+    fs.mkdirSync(TMP, { recursive: true })
+  })
+
+  afterEach(() => {
+    fs.rmSync(TMP, { recursive: true, force: true })
+  })
+
+  it('encrypts a plaintext database in place', async () => {
+    const key = randomBytes(32)
+    await writePlaintext(DB)
+    expect(isPlaintextDatabase(DB)).toBe(true)
+
+    await encryptDatabaseFile(createKnex, DB, key)
+
+    expect(isPlaintextDatabase(DB)).toBe(false)
+    expect(fs.readFileSync(DB).includes(SECRET)).toBe(false)
+    expect(fs.existsSync(`${DB}-wal`)).toBe(false)
+    expect(await readLabels(DB, key)).toEqual([SECRET])
+  })
+
+  it('does not open with another key or none', async () => {
+    await writePlaintext(DB)
+    await encryptDatabaseFile(createKnex, DB, randomBytes(32))
+    await expect(readLabels(DB, randomBytes(32))).rejects.toMatchObject({ code: 'SQLITE_NOTADB' })
+    await expect(readLabels(DB, null)).rejects.toMatchObject({ code: 'SQLITE_NOTADB' })
+    await expect(decryptDatabaseFile(createKnex, DB, randomBytes(32))).rejects.toThrow('encrypted with a different key')
+  })
+
+  it('tells whether a key opens a database, without changing the file', async () => {
+    const key = randomBytes(32)
+    await writePlaintext(DB)
+    await encryptDatabaseFile(createKnex, DB, key)
+    const before = fs.readFileSync(DB)
+
+    expect(await opensWithKey(createKnex, DB, key)).toBe(true)
+    expect(await opensWithKey(createKnex, DB, randomBytes(32))).toBe(false)
+    expect(fs.readFileSync(DB).equals(before)).toBe(true)
+    await expect(opensWithKey(createKnex, path.join(TMP, 'missing.db'), key)).rejects.toThrow()
+  })
+
+  it('decrypts a copy for export', async () => {
+    const key = randomBytes(32)
+    await writePlaintext(DB)
+    await encryptDatabaseFile(createKnex, DB, key)
+
+    await decryptDatabaseFile(createKnex, DB, key)
+
+    expect(isPlaintextDatabase(DB)).toBe(true)
+    expect(await readLabels(DB, null)).toEqual([SECRET])
+  })
+
+  it('migrates the plaintext files and leaves encrypted ones alone', async () => {
+    const key = randomBytes(32)
+    const snapshot = path.join(TMP, 'snapshot.db')
+    await writePlaintext(DB)
+    await writePlaintext(snapshot)
+    await encryptDatabaseFile(createKnex, snapshot, key)
+
+    expect(await encryptPlaintextFiles(createKnex, [DB, snapshot, path.join(TMP, 'missing.db')], key)).toBe(1)
+    expect(await readLabels(DB, key)).toEqual([SECRET])
+    expect(await readLabels(snapshot, key)).toEqual([SECRET])
+    expect(await encryptPlaintextFiles(createKnex, [DB, snapshot], key)).toBe(0)
+  })
+
+  it('reports a missing or empty file as not plaintext', () => {
+    expect(isPlaintextDatabase(path.join(TMP, 'missing.db'))).toBe(false)
+    fs.writeFileSync(DB, '')
+    expect(isPlaintextDatabase(DB)).toBe(false)
+  })
+})
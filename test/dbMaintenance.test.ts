@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import os from 'os'
+import path from 'path'
+import fs from 'fs'
+import knex from 'knex'
+
+vi.mock('electron', () => ({
+  ipcMain: { handle: () => {} },
+}))
+
+import { checkIntegrity, checkpointWal, sizeReport, tableOwner, vacuum } from '../electron/dbMaintenance'
+
+const TMP = path.join(os.tmpdir(), `maintenance-test-${process.pid}-${Date.now()}`)
+const DB = path.join(TMP, 'wallet.db')
+
+let db: any
+
+async function createSchema(): Promise<void> {
+  await db.schema.createTable('outputs', (t: any) => {
+    t.increments('outputId')
+    t.text('lockingScript')
+  })
+  await db.schema.createTable('stas_tokens', (t: any) => {
+    t.text('tokenId').primary()
+  })
+  await db.schema.createTable('stas_outputs', (t: any) => {
+    t.integer('outputId').primary().references('outputId').inTable('outputs')
+    t.text('tokenId').notNullable().references('tokenId').inTable('stas_tokens')
+  })
+}
+
+describe('dbMaintenance', () => {
+  beforeEach(async () => {
+    fs.rmSync(TMP, { recursive: true, force: true })
+    fs.mkdirSync(TMP, { recursive: true })
+    db = knex({
+      client: 'better-sqlite3',
+      connection: { filename: DB },
+      useNullAsDefault: true,
+      pool: { afterCreate: (conn: any, cb: any) => { conn.pragma('journal_mode = WAL'); cb(null, conn) } },
+    })
+    await createSchema()
+    await db('stas_tokens').insert({ tokenId: 'tok' })
+    await db('outputs').insert([{ lockingScript: 'aa' }, { lockingScript: 'bb' }])
+    await db('stas_outputs').insert([{ outputId: 1, tokenId: 'tok' }, { outputId: 2, tokenId: 'tok' }])
+  })
+
+  afterEach(async () => {
+    await db.destroy()
+    fs.rmSync(TMP, { recursive: true, force: true })
+  })
+
+  it('reports a healthy database', async () => {
+    const report = await checkIntegrity(db)
+    expect(report).toMatchObject({
+      ok: true,
+      problems: [],
+      foreignKeys: [],
+      orphanedStasOutputs: { count: 0, outputIds: [] },
+      tablesChecked: 3,
+    })
+  })
+
+  it('flags stas_outputs rows whose output is gone', async () => {
+    await db.raw('PRAGMA foreign_keys = OFF')
+    await db('outputs').where({ outputId: 2 }).delete()
+    await db('stas_outputs').insert({ outputId: 7, tokenId: 'missing' })
+
+    const report = await checkIntegrity(db)
+    expect(report.ok).toBe(false)
+    expect(report.orphanedStasOutputs).toEqual({ count: 2, outputIds: [2, 7] })
+    expect(report.foreignKeys).toEqual([
+      { table: 'stas_outputs', parent: 'outputs', rows: 2 },
+      { table: 'stas_outputs', parent: 'stas_tokens', rows: 1 },
+    ])
+  })
+
+  it('reports rows and bytes per table', async () => {
+    const report = await sizeReport(db, DB)
+    const byName = Object.fromEntries(report.tables.map(t => [t.name, t]))
+    expect(byName.outputs).toMatchObject({ owner: 'wallet-toolbox', rows: 2 })
+    expect(byName.stas_outputs).toMatchObject({ owner: 'bsv-desktop', rows: 2 })
+    expect(byName.stas_outputs.bytes).toBeGreaterThan(0)
+    expect(report.walBytes).toBeGreaterThan(0)
+    expect(tableOwner('bsv21_receive_contexts')).toBe('bsv-desktop')
+    expect(tableOwner('proven_txs')).toBe('wallet-toolbox')
+  })
+
+  it('truncates the WAL and compacts the file', async () => {
+    await db('outputs').insert(Array.from({ length: 500 }, (_, i) => ({ lockingScript: 'ff'.repeat(200) + i })))
+    await db('outputs').where('outputId', '>', 2).delete()
+
+    const checkpoint = await checkpointWal(db, DB)
+    expect(checkpoint.busy).toBe(false)
+    expect(checkpoint.walBytesBefore).toBeGreaterThan(0)
+    expect(checkpoint.walBytesAfter).toBe(0)
+
+    expect((await sizeReport(db, DB)).freeBytes).toBeGreaterThan(0)
+    const result = await vacuum(db, DB)
+    expect(result.bytesAfter).toBeLessThan(result.bytesBefore)
+    expect((await sizeReport(db, DB)).freeBytes).toBe(0)
+  })
+})
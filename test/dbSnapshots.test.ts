@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import os from 'os'
+import path from 'path'
+import fs from 'fs'
+
+const TMP = path.join(os.tmpdir(), `snapshots-test-${process.pid}-${Date.now()}`)
+
+vi.mock('electron', () => ({
+  app: { getPath: () => TMP },
+  ipcMain: { handle: () => {} },
+}))
+
+let snapshots: typeof import('../electron/dbSnapshots')
+const DB = path.join(TMP, 'wallet-02ab-main.db')
+
+const copyOf = (source: string) => async (dest: string) => {
+  fs.copyFileSync(source, dest)
+}
+
+const info = (kind: string, at: Date) => ({
+  id: `${at.toISOString().replace(/[-:.]/g, '')}-${kind}`,
+  kind: kind as any,
+  createdAt: at.getTime(),
+  size: 1,
+})
+
+describe('dbSnapshots', () => {
+  beforeEach(async () => {
+    fs.rmSync(TMP, { recursive: true, force: true })
+    fs.mkdirSync(TMP, { recursive: true })
+    vi.resetModules()
+    snapshots = await import('../electron/dbSnapshots')
+    snapshots._resetForTests()
+    fs.writeFileSync(DB, 'LIVE')
+  })
+
+  it('writes, lists and deletes snapshots beside the database', async () => {
+    const first = await snapshots.createSnapshot(DB, 'manual', copyOf(DB), new Date('2026-05-01T10:00:00Z'))
+    fs.writeFileSync(DB, 'LATER')
+    const second = await snapshots.createSnapshot(DB, 'pre-migration', copyOf(DB), new Date('2026-05-01T11:00:00Z'))
+
+    expect(first.id).toBe('20260501T100000000Z-manual')
+    const file = snapshots.snapshotPath(DB, first.id)
+    expect(path.dirname(file)).toBe(path.join(TMP, 'snapshots', 'wallet-02ab-main'))
+    expect(fs.readFileSync(file, 'utf8')).toBe('LIVE')
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600)
+    expect(snapshots.listSnapshots(DB).map(s => s.id)).toEqual([second.id, first.id])
+
+    snapshots.deleteSnapshot(DB, first.id)
+    expect(snapshots.listSnapshots(DB).map(s => s.id)).toEqual([second.id])
+  })
+
+  it('leaves nothing behind when the backup fails', async () => {
+    await expect(snapshots.createSnapshot(DB, 'manual', async (dest) => {
+      fs.writeFileSync(dest, 'HALF')
+      throw new Error('disk full')
+    })).rejects.toThrow('disk full')
+    expect(fs.readdirSync(snapshots.snapshotDir(DB))).toEqual([])
+  })
+
+  it('keeps the newest automatic snapshot of each recent hour and day', () => {
+    const at = (iso: string) => new Date(iso)
+    const list = [
+      info('scheduled', at('2026-05-03T12:40:00')),
+      info('scheduled', at('2026-05-03T12:10:00')),
+      info('pre-sync', at('2026-05-03T11:30:00')),
+      info('scheduled', at('2026-05-03T10:30:00')),
+      info('scheduled', at('2026-05-02T09:00:00')),
+      info('scheduled', at('2026-05-01T09:00:00')),
+      info('manual', at('2026-04-01T09:00:00')),
+    ]
+    const expired = snapshots.expiredSnapshots(list, { keepHourly: 2, keepDaily: 2 }).map(s => s.id)
+    // Hours keep 12:40 and 11:30; days keep 12:40 (May 3) and May 2; manual is never pruned.
+    expect(expired).toEqual([list[1].id, list[3].id, list[5].id])
+    expect(snapshots.expiredSnapshots(list, { keepHourly: 0, keepDaily: 0 })).toHaveLength(6)
+  })
+
+  it('prunes on each new snapshot using the saved settings', async () => {
+    snapshots.setSnapshotSettings({ keepHourly: 1, keepDaily: 0 })
+    await snapshots.createSnapshot(DB, 'scheduled', copyOf(DB), new Date('2026-05-01T10:00:00Z'))
+    await snapshots.createSnapshot(DB, 'manual', copyOf(DB), new Date('2026-05-01T10:30:00Z'))
+    await snapshots.createSnapshot(DB, 'scheduled', copyOf(DB), new Date('2026-05-01T11:00:00Z'))
+    expect(snapshots.listSnapshots(DB).map(s => s.kind)).toEqual(['scheduled', 'manual'])
+  })
+
+  it('restores a snapshot and drops the old WAL and shared-memory files', async () => {
+    const snap = await snapshots.createSnapshot(DB, 'manual', copyOf(DB))
+    fs.writeFileSync(DB, 'BROKEN')
+    fs.writeFileSync(`${DB}-wal`, 'WAL')
+    fs.writeFileSync(`${DB}-shm`, 'SHM')
+
+    snapshots.replaceDatabaseWithSnapshot(DB, snap.id)
+    expect(fs.readFileSync(DB, 'utf8')).toBe('LIVE')
+    expect(fs.existsSync(`${DB}-wal`)).toBe(false)
+    expect(fs.existsSync(`${DB}-shm`)).toBe(false)
+    expect(fs.readdirSync(TMP).filter(n => n.endsWith('.tmp'))).toEqual([])
+  })
+
+  it('refuses ids that are not snapshots', () => {
+    expect(() => snapshots.snapshotPath(DB, '../wallet-02ab-main')).toThrow('Unknown snapshot.')
+    expect(() => snapshots.replaceDatabaseWithSnapshot(DB, '20260501T100000000Z-manual/../../x')).toThrow('Unknown snapshot.')
+  })
+
+  it('takes at most one pre-sync snapshot every 10 minutes', () => {
+    const t = Date.UTC(2026, 4, 1)
+    expect(snapshots.claimPreSyncSnapshot(DB, t)).toBe(true)
+    expect(snapshots.claimPreSyncSnapshot(DB, t + 9 * 60_000)).toBe(false)
+    expect(snapshots.claimPreSyncSnapshot(`${DB}.other`, t + 60_000)).toBe(true)
+    expect(snapshots.claimPreSyncSnapshot(DB, t + 10 * 60_000)).toBe(true)
+  })
+
+  it('validates and persists settings', async () => {
+    expect(snapshots.getSnapshotSettings()).toEqual(snapshots.DEFAULT_SNAPSHOT_SETTINGS)
+    expect(() => snapshots.setSnapshotSettings({ intervalMinutes: -1 })).toThrow(/intervalMinutes/)
+    expect(() => snapshots.setSnapshotSettings({ keepDaily: 1.5 })).toThrow(/keepDaily/)
+    snapshots.setSnapshotSettings({ intervalMinutes: 0, keepHourly: 12 })
+
+    vi.resetModules()
+    const reloaded = await import('../electron/dbSnapshots')
+    expect(reloaded.getSnapshotSettings()).toEqual({ intervalMinutes: 0, keepHourly: 12, keepDaily: 7 })
+  })
+})
@@ -3,6 +3,7 @@ import {
   beginHttpBridgeSession,
   endHttpBridgeSession,
   markHttpBridgeSessionCancelled,
+  noteHttpBridgePrompt,
   trackPermissionForHttpBridge,
   getHttpBridgeSession,
   _test_resetHttpBridgeSessions,
@@ -40,6 +41,18 @@ describe('httpBridgeSession', () => {
     expect(getHttpBridgeSession(1)?.permissionIds.has('perm-3')).toBe(false)
   })
 
+  it('records prompt kinds and the cancel reason for the audit log', () => {
+    beginHttpBridgeSession(3, 'app.example.com')
+    trackPermissionForHttpBridge('perm-4', 'app.example.com', 'spending')
+    noteHttpBridgePrompt(3, 'pairing')
+    markHttpBridgeSessionCancelled(3, 'CLIENT_DISCONNECTED')
+    expect(getHttpBridgeSession(3)).toMatchObject({
+      prompts: ['spending', 'pairing'],
+      cancelled: true,
+      cancelReason: 'CLIENT_DISCONNECTED',
+    })
+  })
+
   it('allows unscoped permissions when no HTTP session exists', () => {
     expect(trackPermissionForHttpBridge('perm-ui', 'desktop-admin')).toBe('track')
   })
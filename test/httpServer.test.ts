@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import os from 'os'
+import path from 'path'
+import fs from 'fs'
+import http from 'http'
+import express from 'express'
+import type { AddressInfo } from 'net'
+
+const TMP = path.join(os.tmpdir(), `http-server-test-${process.pid}-${Date.now()}`)
+
+vi.mock('electron', async () => {
+  const { EventEmitter } = await vi.importActual<typeof import('events')>('events')
+  return {
+    app: { getPath: () => TMP, getVersion: () => '0.0.0-test' },
+    ipcMain: { on: () => {}, handle: () => {} },
+    powerMonitor: new EventEmitter(),
+  }
+})
+
+vi.mock('../electron/bridgeDispatcher', async () => ({
+  ...(await vi.importActual<typeof import('../electron/bridgeDispatcher')>('../electron/bridgeDispatcher')),
+  forwardToWallet: vi.fn(async () => ({ request_id: 0, status: 200, body: '{}' })),
+}))
+
+import { bridgeBodyParser, createBridgeDispatcher, type BridgeCall } from '../electron/httpServer'
+import { BridgeLimiter } from '../electron/bridgeLimits'
+import * as pairing from '../electron/bridgePairing'
+import { forwardToWallet } from '../electron/bridgeDispatcher'
+import {
+  DEFAULT_AUTO_LOCK,
+  startVaultAutoLock,
+  vaultLockStateChanged,
+  _resetForTests as resetAutoLock,
+} from '../electron/vaultAutoLock'
+
+const MINUTE = 60_000
+const ORIGIN = 'https://app.example'
+
+function call(pathname: string, headers: Record<string, string> = {}): BridgeCall {
+  return {
+    method: 'POST',
+    path: pathname,
+    headers: { origin: ORIGIN, ...headers },
+    body: '{}',
+    onClientGone: () => {},
+  }
+}
+
+describe('bridge dispatch and the idle lock', () => {
+  let lock: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    fs.rmSync(TMP, { recursive: true, force: true })
+    fs.mkdirSync(TMP, { recursive: true })
+    pairing._resetForTests()
+    vi.useFakeTimers()
+    resetAutoLock()
+    lock = vi.fn(() => vaultLockStateChanged(true))
+    startVaultAutoLock(lock)
+    vaultLockStateChanged(false)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('does not postpone the lock for unpaired /getVersion polling', async () => {
+    const dispatch = createBridgeDispatcher(new BridgeLimiter())
+
+    vi.advanceTimersByTime(DEFAULT_AUTO_LOCK.idleMinutes * MINUTE - 1)
+    const reply = await dispatch(call('/getVersion'))
+    expect(reply?.status).toBe(200)
+
+    vi.advanceTimersByTime(1)
+    expect(lock).toHaveBeenCalledTimes(1)
+  })
+
+  it('postpones the lock for calls with a valid token', async () => {
+    const dispatch = createBridgeDispatcher(new BridgeLimiter())
+    const token = pairing.issueToken(ORIGIN)
+
+    vi.advanceTimersByTime(DEFAULT_AUTO_LOCK.idleMinutes * MINUTE - 1)
+    const reply = await dispatch(call('/getVersion', { authorization: `Bearer ${token}` }))
+    expect(reply?.status).toBe(200)
+
+    vi.advanceTimersByTime(1)
+    expect(lock).not.toHaveBeenCalled()
+  })
+
+  it('tells the pairing prompt when the origin is already paired', async () => {
+    const dispatch = createBridgeDispatcher(new BridgeLimiter())
+    await dispatch(call('/pair'))
+    expect(vi.mocked(forwardToWallet).mock.lastCall?.[0]).toMatchObject({ existingPairing: null })
+
+    await dispatch(call('/pair'))
+    expect(vi.mocked(forwardToWallet).mock.lastCall?.[0]).toMatchObject({
+      existingPairing: { createdAt: expect.any(Number), lastUsedAt: null },
+    })
+  })
+})
+
+describe('bridge body limits', () => {
+  let server: http.Server
+
+  beforeEach(async () => {
+    fs.rmSync(TMP, { recursive: true, force: true })
+    fs.mkdirSync(TMP, { recursive: true })
+    const app = express()
+    app.use(bridgeBodyParser())
+    app.post('*', (req, res) => { res.send(String(req.body.length)) })
+    server = http.createServer(app)
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  })
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  /** POST `bytes` bytes to `route`, chunked (no Content-Length) unless `declared`. */
+  function post(route: string, bytes: number, declared = false): Promise<{ status: number; body: any }> {
+    const { port } = server.address() as AddressInfo
+    return new Promise((resolve, reject) => {
+      const req = http.request({
+        host: '127.0.0.1',
+        port,
+        path: route,
+        method: 'POST',
+        headers: { 'Content-Type': 'text/plain', ...(declared ? { 'Content-Length': bytes } : {}) },
+      }, (res) => {
+        let text = ''
+        res.on('data', (c) => { text += c })
+        res.on('end', () => resolve({ status: res.statusCode!, body: text.startsWith('{') ? JSON.parse(text) : text }))
+      })
+      req.on('error', reject)
+      const chunk = Buffer.alloc(64 * 1024, 'a')
+      for (let sent = 0; sent < bytes; sent += chunk.length) req.write(chunk.subarray(0, Math.min(chunk.length, bytes - sent)))
+      req.end()
+    })
+  }
+
+  it('cuts off a chunked upload once it passes the route limit', async () => {
+    expect(await post('/listOutputs', 512 * 1024)).toEqual({ status: 200, body: String(512 * 1024) })
+    expect(await post('/listOutputs', 2 * 1024 * 1024)).toMatchObject({ status: 413, body: { code: 'PAYLOAD_TOO_LARGE' } })
+    expect(await post('/createAction', 2 * 1024 * 1024)).toEqual({ status: 200, body: String(2 * 1024 * 1024) })
+  })
+
+  it('refuses a declared Content-Length over the limit before reading', async () => {
+    expect(await post('/listOutputs', 2 * 1024 * 1024, true)).toMatchObject({ status: 413, body: { code: 'PAYLOAD_TOO_LARGE' } })
+  })
+})
@@ -5,6 +5,7 @@ const mockOnHttpRequest = vi.fn()
 const mockOnHttpRequestCancelled = vi.fn()
 const mockSendHttpResponse = vi.fn()
 const mockRemoveHttpRequestListener = vi.fn()
+const mockRendererReady = vi.fn()
 
 ;(globalThis as any).window = {
   electronAPI: {
@@ -12,6 +13,7 @@ const mockRemoveHttpRequestListener = vi.fn()
     onHttpRequestCancelled: mockOnHttpRequestCancelled,
     sendHttpResponse: mockSendHttpResponse,
     removeHttpRequestListener: mockRemoveHttpRequestListener,
+    bridge: { rendererReady: mockRendererReady },
   },
 }
 
@@ -62,6 +64,7 @@ describe('onWalletReady', () => {
     mockOnHttpRequestCancelled.mockReset()
     mockSendHttpResponse.mockReset()
     mockRemoveHttpRequestListener.mockReset()
+    mockRendererReady.mockReset()
 
     // Re-import to get fresh module state
     const mod = await import('../src/onWalletReady')
@@ -78,6 +81,8 @@ describe('onWalletReady', () => {
 
     expect(_test_isListenerRegistered()).toBe(true)
     expect(mockOnHttpRequest).toHaveBeenCalledOnce()
+    expect(mockRendererReady).toHaveBeenCalledOnce()
+    expect(mockRendererReady.mock.invocationCallOrder[0]).toBeGreaterThan(mockOnHttpRequest.mock.invocationCallOrder[0])
     expect(_test_getCurrentWallet()).toBe(wallet)
   })
 
@@ -362,6 +367,322 @@ describe('onWalletReady', () => {
     )
   })
 
+  it('prefers the origin resolved by the main process', async () => {
+    const wallet = makeMockWallet()
+    await onWalletReady(wallet)
+    const handler = mockOnHttpRequest.mock.calls[0][0]
+
+    await handler({
+      request_id: 11,
+      path: '/isAuthenticated',
+      headers: { origin: 'https://spoofed.example.com' },
+      origin: 'paired.example.com',
+      body: '',
+      method: 'GET',
+    })
+
+    expect(wallet.isAuthenticated).toHaveBeenCalledWith({}, 'paired.example.com')
+  })
+
+  it('answers /pair with 200 only when the user approves', async () => {
+    const mod = await import('../src/onWalletReady')
+    const enqueuer = vi.fn()
+      .mockResolvedValueOnce(true)
+      .mockResolvedValueOnce(false)
+    mod.setBridgePairingEnqueuer(enqueuer)
+    await onWalletReady(makeMockWallet())
+    const handler = mockOnHttpRequest.mock.calls[0][0]
+
+    await handler({ request_id: 12, path: '/pair', headers: { origin: 'https://app.example.com' }, body: '', method: 'POST' })
+    await handler({
+      request_id: 13,
+      path: '/pair',
+      headers: { origin: 'https://app.example.com' },
+      existingPairing: { createdAt: 1, lastUsedAt: null },
+      body: '',
+      method: 'POST',
+    })
+
+    expect(enqueuer).toHaveBeenNthCalledWith(1, { originator: 'app.example.com', existingPairing: null })
+    // An origin that is already paired is flagged, so the prompt can say approving replaces it.
+    expect(enqueuer).toHaveBeenNthCalledWith(2, {
+      originator: 'app.example.com',
+      existingPairing: { createdAt: 1, lastUsedAt: null },
+    })
+    expect(mockSendHttpResponse).toHaveBeenNthCalledWith(1, expect.objectContaining({ request_id: 12, status: 200 }))
+    expect(mockSendHttpResponse).toHaveBeenNthCalledWith(2, expect.objectContaining({ request_id: 13, status: 403 }))
+  })
+
+  it('returns 503 for /pair while the prompt is not mounted', async () => {
+    await onWalletReady(makeMockWallet())
+    const handler = mockOnHttpRequest.mock.calls[0][0]
+
+    await handler({ request_id: 14, path: '/pair', headers: { origin: 'https://app.example.com' }, body: '', method: 'POST' })
+
+    expect(mockSendHttpResponse).toHaveBeenCalledWith(expect.objectContaining({ request_id: 14, status: 503 }))
+  })
+
+  it('only sends DSTAS tokens once the token-spend gate approves', async () => {
+    const txid = 'cd'.repeat(32)
+    ;(globalThis as any).window.electronAPI.stas = {
+      query: vi.fn().mockResolvedValue({
+        success: true,
+        result: [{ txid, vout: 0, protocol: 'dstas', tokenId: 'tok1', symbol: 'GOLD', outputSatoshis: 500, lockingScript: '00' }],
+      }),
+    }
+    const transfer = vi.fn()
+      .mockResolvedValueOnce({ ok: true, txid: 'ef'.repeat(32) })
+      .mockResolvedValueOnce({ ok: false, reason: 'broadcast failed' })
+    const mod = await import('../src/onWalletReady')
+    mod.setPeerTokensForHttpRoute({
+      client: {},
+      wallet: makeMockWallet(),
+      identityKey: '02abc',
+      chain: 'main',
+      tokens: { getById: () => ({ transferSupported: true, transfer }) },
+    })
+    const sent = { commit: vi.fn(), release: vi.fn() }
+    const failed = { commit: vi.fn(), release: vi.fn() }
+    const gate = vi.fn().mockResolvedValueOnce(null).mockResolvedValueOnce(sent).mockResolvedValueOnce(failed)
+    await onWalletReady(makeMockWallet())
+    const handler = mockOnHttpRequest.mock.calls[0][0]
+    const call = (request_id: number) => handler({
+      request_id,
+      path: '/dstas/transfer',
+      headers: { origin: 'https://app.example.com' },
+      body: JSON.stringify({ outpoint: `${txid}.0`, recipientAddress: '1BoatSLRHtKNngkdXEeobR76b53LETtpyT' }),
+      method: 'POST',
+    })
+
+    await call(20)
+    expect(mockSendHttpResponse).toHaveBeenLastCalledWith(expect.objectContaining({ request_id: 20, status: 503 }))
+
+    mod.setTokenSpendEnqueuer(gate)
+    await call(21)
+    await call(22)
+    await call(23)
+
+    expect(gate).toHaveBeenCalledWith({
+      originator: 'app.example.com',
+      protocol: 'dstas',
+      assetId: 'tok1',
+      symbol: 'GOLD',
+      amount: '500',
+      recipient: '1BoatSLRHtKNngkdXEeobR76b53LETtpyT',
+      outpoint: `${txid}.0`,
+      via: 'address',
+    })
+    expect(mockSendHttpResponse).toHaveBeenNthCalledWith(2, expect.objectContaining({ request_id: 21, status: 403 }))
+    expect(mockSendHttpResponse).toHaveBeenNthCalledWith(3, expect.objectContaining({ request_id: 22, status: 200 }))
+    expect(transfer).toHaveBeenCalledTimes(2)
+    // The allowance is charged only for the transfer that went out.
+    expect(sent.commit).toHaveBeenCalledOnce()
+    expect(sent.release).not.toHaveBeenCalled()
+    expect(failed.release).toHaveBeenCalledOnce()
+    expect(failed.commit).not.toHaveBeenCalled()
+  })
+
+  it('signs nothing for a call the vault lock cancelled while its prompt was open', async () => {
+    const txid = 'cd'.repeat(32)
+    ;(globalThis as any).window.electronAPI.stas = {
+      query: vi.fn().mockResolvedValue({
+        success: true,
+        result: [{ txid, vout: 0, protocol: 'dstas', tokenId: 'tok1', symbol: 'GOLD', outputSatoshis: 500, lockingScript: '00' }],
+      }),
+    }
+    const transfer = vi.fn()
+    const mod = await import('../src/onWalletReady')
+    mod.setPeerTokensForHttpRoute({
+      client: {},
+      wallet: makeMockWallet(),
+      identityKey: '02abc',
+      chain: 'main',
+      tokens: { getById: () => ({ transferSupported: true, transfer }) },
+    })
+    const approval = { commit: vi.fn(), release: vi.fn() }
+    await onWalletReady(makeMockWallet())
+    const cancel = mockOnHttpRequestCancelled.mock.calls[0][0]
+    // The main process fails the call on lock while the user is still looking at the prompt.
+    mod.setTokenSpendEnqueuer(vi.fn(async () => {
+      cancel({ request_id: 24, reason: 'WALLET_LOCKED' })
+      return approval
+    }))
+
+    await mockOnHttpRequest.mock.calls[0][0]({
+      request_id: 24,
+      path: '/dstas/transfer',
+      headers: { origin: 'https://app.example.com' },
+      body: JSON.stringify({ outpoint: `${txid}.0`, recipientAddress: '1BoatSLRHtKNngkdXEeobR76b53LETtpyT' }),
+      method: 'POST',
+    })
+
+    expect(transfer).not.toHaveBeenCalled()
+    expect(approval.release).toHaveBeenCalledOnce()
+    expect(mockSendHttpResponse).toHaveBeenCalledWith(expect.objectContaining({ request_id: 24, status: 409 }))
+  })
+
+  it('dry-runs a batch only with basket access and sends exactly the approved plan', async () => {
+    const txid = 'cd'.repeat(32)
+    ;(globalThis as any).window.electronAPI.stas = {
+      query: vi.fn().mockResolvedValue({
+        success: true,
+        result: [{ txid, vout: 0, protocol: 'dstas', tokenId: 'tok1', symbol: 'GOLD', outputSatoshis: 500, lockingScript: '00' }],
+      }),
+    }
+    const plan = { ok: true, inputs: [`${txid}.0`], txs: [{ kind: 'send' }], total: '100', peerTotal: '0' }
+    const batch = {
+      preview: vi.fn().mockResolvedValue(plan),
+      execute: vi.fn().mockResolvedValue({ ok: true, results: [{ ok: true, amount: '100' }], txids: ['t1'], plan }),
+    }
+    const mod = await import('../src/onWalletReady')
+    mod.setPeerTokensForHttpRoute({ client: {}, wallet: makeMockWallet(), identityKey: '02abc', chain: 'main', batch })
+    const approval = { commit: vi.fn(), release: vi.fn() }
+    mod.setTokenSpendEnqueuer(vi.fn().mockResolvedValue(approval))
+    const listOutputs = vi.fn()
+      .mockRejectedValueOnce(new Error('basket access denied'))
+      .mockResolvedValue({ outputs: [], totalOutputs: 0 })
+    await onWalletReady(makeMockWallet({ listOutputs }))
+    const call = (request_id: number, dryRun: boolean) => mockOnHttpRequest.mock.calls[0][0]({
+      request_id,
+      path: '/tokens/batch-transfer',
+      headers: { origin: 'https://app.example.com' },
+      body: JSON.stringify({ protocol: 'dstas', assetId: 'tok1', rows: [{ recipient: '1BoatSLRHtKNngkdXEeobR76b53LETtpyT', amount: '100' }], dryRun }),
+      method: 'POST',
+    })
+
+    await call(30, true)
+    expect(mockSendHttpResponse).toHaveBeenLastCalledWith(expect.objectContaining({ request_id: 30, status: 403 }))
+    expect(batch.preview).not.toHaveBeenCalled()
+    await call(31, true)
+    expect(listOutputs).toHaveBeenLastCalledWith({ basket: 'dstas-tokens', limit: 1 }, 'app.example.com')
+    expect(mockSendHttpResponse).toHaveBeenLastCalledWith(expect.objectContaining({ request_id: 31, status: 200 }))
+
+    await call(32, false)
+    expect(batch.execute).toHaveBeenCalledWith(expect.objectContaining({ assetId: 'tok1' }), plan)
+    expect(approval.commit).toHaveBeenCalledWith('100')
+    expect(mockSendHttpResponse).toHaveBeenLastCalledWith(expect.objectContaining({ request_id: 32, status: 200 }))
+  })
+
+  it('records each routed request in the bridge audit log', async () => {
+    const query = vi.fn().mockResolvedValue({ success: true, result: undefined })
+    ;(globalThis as any).window.electronAPI.stas = { query }
+    const mod = await import('../src/onWalletReady')
+    mod.setBridgeAuditTarget({ identityKey: '02ab', chain: 'test' })
+    await onWalletReady(makeMockWallet())
+    const handler = mockOnHttpRequest.mock.calls[0][0]
+
+    await handler({ request_id: 15, path: '/getPublicKey', headers: { origin: 'https://app.example.com' }, body: '{"identityKey":true}', method: 'POST' })
+    await vi.waitFor(() => expect(query).toHaveBeenCalled())
+
+    const [identityKey, chain, method, [row]] = query.mock.calls[0]
+    expect([identityKey, chain, method]).toEqual(['02ab', 'test', 'insertBridgeAudit'])
+    expect(row).toMatchObject({
+      origin: 'app.example.com',
+      method: 'POST',
+      path: '/getPublicKey',
+      status: 200,
+      prompts: '[]',
+      outcome: 'approved',
+    })
+    expect(row.argsHash).toMatch(/^[0-9a-f]{64}$/)
+    delete (globalThis as any).window.electronAPI.stas
+  })
+
+  it('answers a JSON-RPC batch with per-item results and errors in one response', async () => {
+    const wallet = makeMockWallet({
+      listOutputs: vi.fn().mockResolvedValue({ outputs: [], totalOutputs: 3 }),
+      listActions: vi.fn().mockRejectedValue(new Error('basket missing')),
+    })
+    await onWalletReady(wallet)
+    const handler = mockOnHttpRequest.mock.calls[0][0]
+
+    await handler({
+      request_id: 16,
+      path: '/rpc',
+      headers: { origin: 'https://indexer.example.com' },
+      body: JSON.stringify([
+        { jsonrpc: '2.0', id: 1, method: 'listOutputs', params: { basket: 'a' } },
+        { jsonrpc: '2.0', id: 'b', method: 'listActions', params: { labels: [] } },
+        { jsonrpc: '2.0', id: 3, method: 'stealKeys' },
+        { jsonrpc: '2.0', method: 'getVersion' },
+        { id: 5 },
+      ]),
+      method: 'POST',
+    })
+
+    expect(mockSendHttpResponse).toHaveBeenCalledOnce()
+    const response = mockSendHttpResponse.mock.calls[0][0]
+    expect(response.status).toBe(200)
+    expect(JSON.parse(response.body)).toEqual([
+      { jsonrpc: '2.0', id: 1, result: { outputs: [], totalOutputs: 3 } },
+      { jsonrpc: '2.0', id: 'b', error: { code: -32000, message: 'basket missing' } },
+      { jsonrpc: '2.0', id: 3, error: { code: -32601, message: 'Method not found: stealKeys' } },
+      { jsonrpc: '2.0', id: 5, error: { code: -32600, message: 'Invalid Request' } },
+    ])
+    expect(wallet.listOutputs).toHaveBeenCalledWith({ basket: 'a' }, 'indexer.example.com')
+    expect(wallet.getVersion).toHaveBeenCalledWith({}, 'indexer.example.com')
+  })
+
+  it('keeps the WERR_REVIEW_ACTIONS body in JSON-RPC error data', async () => {
+    const reviewActionResults = [{ txid: '22'.repeat(32), status: 'doubleSpend' }]
+    const sendWithResults = [{ txid: '22'.repeat(32), status: 'failed' }]
+    const wallet = makeMockWallet({
+      createAction: vi.fn().mockRejectedValue({
+        name: 'a',
+        code: 5,
+        reviewActionResults,
+        sendWithResults,
+        txid: '22'.repeat(32),
+        tx: [4, 5, 6],
+      }),
+    })
+    await onWalletReady(wallet)
+    const handler = mockOnHttpRequest.mock.calls[0][0]
+
+    await handler({
+      request_id: 17,
+      path: '/rpc',
+      headers: { origin: 'https://example.com' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 9, method: 'createAction', params: {} }),
+      method: 'POST',
+    })
+
+    const reply = JSON.parse(mockSendHttpResponse.mock.calls[0][0].body)
+    expect(reply.id).toBe(9)
+    expect(reply.error.code).toBe(5)
+    expect(reply.error.data).toEqual(
+      expect.objectContaining({
+        code: 5,
+        isError: true,
+        reviewActionResults,
+        sendWithResults,
+        txid: '22'.repeat(32),
+        tx: [4, 5, 6],
+      })
+    )
+  })
+
+  it('answers JSON-RPC parse errors and notification-only batches per spec', async () => {
+    const wallet = makeMockWallet()
+    await onWalletReady(wallet)
+    const handler = mockOnHttpRequest.mock.calls[0][0]
+
+    await handler({ request_id: 18, path: '/rpc', headers: { origin: 'https://example.com' }, body: '[{', method: 'POST' })
+    await handler({
+      request_id: 19,
+      path: '/rpc',
+      headers: { origin: 'https://example.com' },
+      body: JSON.stringify([{ jsonrpc: '2.0', method: 'getHeight' }]),
+      method: 'POST',
+    })
+
+    expect(JSON.parse(mockSendHttpResponse.mock.calls[0][0].body)).toEqual({
+      jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' },
+    })
+    expect(mockSendHttpResponse.mock.calls[1][0]).toEqual({ request_id: 19, status: 204, body: '' })
+    expect(wallet.getHeight).toHaveBeenCalledOnce()
+  })
+
   it('survives 10 rapid wallet swaps without losing listener', async () => {
     const wallets = Array.from({ length: 10 }, (_, i) =>
       makeMockWallet({ getVersion: vi.fn().mockResolvedValue({ version: `${i}` }) })
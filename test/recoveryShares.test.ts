@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { PrivateKey } from '@bsv/sdk'
+import { combineShares, formatShareSheet, parseShare, splitSecret } from '../src/lib/utils/recoveryShares'
+
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+const KEY_HEX = '1f'.repeat(32)
+
+const reparse = (lines: string[]) => lines.map(parseShare)
+
+describe('recoveryShares', () => {
+  it('recovers a recovery phrase from any threshold of shares', () => {
+    const shares = splitSecret({ kind: 'mnemonic', mnemonic: MNEMONIC }, 3, 5)
+    expect(shares).toHaveLength(5)
+    expect(shares[0].line).toMatch(/^bsvshare1:m12:1\/5:[0-9a-f]{16}:/)
+
+    const lines = shares.map(s => s.line)
+    for (const pick of [[0, 1, 2], [4, 2, 0], [1, 3, 4]]) {
+      const recovered = combineShares(reparse(pick.map(i => lines[i])))
+      expect(recovered.kind).toBe('mnemonic')
+      expect(recovered.mnemonic).toBe(MNEMONIC)
+    }
+  })
+
+  it('recovers a private key and its identity', () => {
+    const shares = splitSecret({ kind: 'key', keyHex: KEY_HEX }, 2, 3)
+    const recovered = combineShares(reparse([shares[2].line, shares[0].line]))
+    expect(recovered).toEqual({
+      kind: 'key',
+      keyHex: KEY_HEX,
+      identityKey: PrivateKey.fromHex(KEY_HEX).toPublicKey().toString()
+    })
+  })
+
+  it('reads a share out of a printed sheet', () => {
+    const [share] = splitSecret({ kind: 'key', keyHex: KEY_HEX }, 2, 2)
+    const sheet = formatShareSheet(share, new Date('2026-03-04T00:00:00Z'))
+    expect(sheet).toContain('Share 1 of 2. Any 2 shares')
+    expect(parseShare(sheet)).toEqual(share)
+  })
+
+  it('catches a typo with the checksum', () => {
+    const [share] = splitSecret({ kind: 'key', keyHex: KEY_HEX }, 2, 3)
+    const parts = share.line.split(':')
+    const point = parts[4]
+    parts[4] = (point[0] === 'A' ? 'B' : 'A') + point.slice(1)
+    expect(() => parseShare(parts.join(':'))).toThrow(/checksum/)
+    expect(() => parseShare('no share here')).toThrow(/No recovery share/)
+  })
+
+  it('refuses too few shares, repeated shares and mixed splits', () => {
+    const a = splitSecret({ kind: 'key', keyHex: KEY_HEX }, 3, 4)
+    const b = splitSecret({ kind: 'key', keyHex: KEY_HEX }, 3, 4)
+    expect(() => combineShares(reparse([a[0].line, a[1].line]))).toThrow(/3 different shares are needed; 2 entered/)
+    expect(() => combineShares(reparse([a[0].line, a[1].line, a[1].line]))).toThrow(/needed/)
+    expect(() => combineShares(reparse([a[0].line, a[1].line, b[2].line]))).toThrow()
+
+    const other = splitSecret({ kind: 'key', keyHex: '2e'.repeat(32) }, 3, 4)
+    expect(() => combineShares(reparse([a[0].line, a[1].line, other[2].line]))).toThrow(/different wallets/)
+  })
+
+  it('validates split parameters', () => {
+    expect(() => splitSecret({ kind: 'key', keyHex: KEY_HEX }, 1, 3)).toThrow()
+    expect(() => splitSecret({ kind: 'key', keyHex: KEY_HEX }, 4, 3)).toThrow()
+    expect(() => splitSecret({ kind: 'key', keyHex: KEY_HEX }, 2, 17)).toThrow()
+    expect(() => splitSecret({ kind: 'key', keyHex: 'zz' }, 2, 3)).toThrow(/64 hex/)
+  })
+})
@@ -137,3 +137,44 @@ describe.skipIf(!sqliteAvailable)('STAS migration 0004 — token_verifications',
     await db.destroy()
   })
 })
+
+describe.skipIf(!sqliteAvailable)('migration 0005 — bridge_audit_log', () => {
+  test('creates the table and StasQueries filters, pages and lists facets', async () => {
+    const db = await freshDb()
+    await db.migrate.latest(MIGRATOR)
+    expect(await db.schema.hasTable('bridge_audit_log')).toBe(true)
+
+    const { StasQueries } = await import('../../electron/stas-queries')
+    const q = new StasQueries(db)
+
+    const base = { method: 'POST', status: 200, latencyMs: 5, argsHash: null, prompts: '[]', outcome: 'approved' as const }
+    await q.insertBridgeAudit({ ...base, createdAt: '2026-01-01T00:00:00.000Z', origin: 'a.test', path: '/createAction', prompts: '["spending"]' })
+    await q.insertBridgeAudit({ ...base, createdAt: '2026-01-02T00:00:00.000Z', origin: 'a.test', path: '/getPublicKey' })
+    await q.insertBridgeAudit({ ...base, createdAt: '2026-01-03T00:00:00.000Z', origin: 'b.test', path: '/createAction', status: 400, outcome: 'denied' })
+
+    const all = await q.listBridgeAudit()
+    expect(all.total).toBe(3)
+    // Newest first.
+    expect(all.rows.map((r: any) => r.origin)).toEqual(['b.test', 'a.test', 'a.test'])
+
+    const byApp = await q.listBridgeAudit({ origin: 'a.test', path: '/createAction' })
+    expect(byApp.total).toBe(1)
+    expect(byApp.rows[0].prompts).toBe('["spending"]')
+
+    const ranged = await q.listBridgeAudit({ since: '2026-01-02T00:00:00.000Z', until: '2026-01-03T00:00:00.000Z' })
+    expect(ranged.rows.map((r: any) => r.path)).toEqual(['/getPublicKey'])
+
+    const page = await q.listBridgeAudit({ limit: 1, offset: 1 })
+    expect(page.total).toBe(3)
+    expect(page.rows).toHaveLength(1)
+    expect(page.rows[0].createdAt).toBe('2026-01-02T00:00:00.000Z')
+
+    expect(await q.listBridgeAudit({ outcome: 'denied' })).toMatchObject({ total: 1 })
+    expect(await q.listBridgeAuditFacets()).toEqual({
+      origins: ['a.test', 'b.test'],
+      paths: ['/createAction', '/getPublicKey'],
+    })
+
+    await db.destroy()
+  })
+})
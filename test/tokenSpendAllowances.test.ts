@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  TokenSpendAllowanceStore,
+  tokenSpendAllowancesKey,
+  type TokenSpendProtocol,
+} from '../src/lib/services/tokenSpendAllowances'
+
+const DAY = 24 * 60 * 60 * 1000
+const ALICE = '02' + 'aa'.repeat(32)
+const BOB = '03' + 'bb'.repeat(32)
+
+function memoryStorage() {
+  const items = new Map<string, string>()
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  }
+}
+
+/** Reserve and immediately commit, as a transfer that went out does. */
+function spend(store: TokenSpendAllowanceStore, originator: string, protocol: TokenSpendProtocol, assetId: string, amount: string) {
+  const held = store.reserve(originator, protocol, assetId, amount)
+  if (held) store.commit(held)
+  return held !== null
+}
+
+describe('TokenSpendAllowanceStore', () => {
+  let now: number
+  let storage: ReturnType<typeof memoryStorage>
+  let store: TokenSpendAllowanceStore
+
+  beforeEach(() => {
+    now = 1_700_000_000_000
+    storage = memoryStorage()
+    store = new TokenSpendAllowanceStore(storage, () => now)
+    store.useProfile(ALICE, 'main')
+  })
+
+  it('deducts transfers until the ceiling is reached', () => {
+    store.grant({ originator: 'https://App.example.com', protocol: 'bsv-21', assetId: 'abc_0', ceiling: '1000', days: 7 })
+
+    expect(spend(store, 'app.example.com', 'bsv-21', 'abc_0', '600')).toBe(true)
+    expect(spend(store, 'app.example.com', 'bsv-21', 'abc_0', '500')).toBe(false)
+    expect(spend(store, 'app.example.com', 'bsv-21', 'abc_0', '400')).toBe(true)
+    expect(store.find('app.example.com', 'bsv-21', 'abc_0')?.spent).toBe('1000')
+  })
+
+  it('keys allowances by origin, protocol and token id, never the symbol', () => {
+    const gold = 'aa'.repeat(20)
+    const lookalike = 'bb'.repeat(20)
+    store.grant({ originator: 'app.example.com', protocol: 'stas', assetId: gold, symbol: 'GOLD', ceiling: '100', days: 1 })
+
+    expect(spend(store, 'other.example.com', 'stas', gold, '1')).toBe(false)
+    expect(spend(store, 'app.example.com', 'dstas', gold, '1')).toBe(false)
+    expect(spend(store, 'app.example.com', 'stas', lookalike, '1')).toBe(false)
+    expect(spend(store, 'app.example.com', 'stas', 'GOLD', '1')).toBe(false)
+    expect(spend(store, 'app.example.com', 'stas', gold, '1')).toBe(true)
+    expect(store.renew('app.example.com', 'stas', gold, 1).symbol).toBe('GOLD')
+  })
+
+  it('stops covering transfers once expired and survives a reload', () => {
+    store.grant({ originator: 'app.example.com', protocol: 'stas', assetId: 'GOLD', ceiling: '100', days: 2 })
+    const reloaded = new TokenSpendAllowanceStore(storage, () => now)
+    expect(reloaded.list()).toEqual([])
+    reloaded.useProfile(ALICE, 'main')
+    expect(reloaded.list()).toHaveLength(1)
+
+    now += 2 * DAY
+    expect(spend(reloaded, 'app.example.com', 'stas', 'GOLD', '1')).toBe(false)
+    expect(reloaded.list()).toEqual([])
+  })
+
+  it('keeps each identity and chain to its own allowances', () => {
+    store.grant({ originator: 'app.example.com', protocol: 'stas', assetId: 'GOLD', ceiling: '100', days: 1 })
+    const held = store.reserve('app.example.com', 'stas', 'GOLD', '10')!
+
+    store.useProfile(BOB, 'main')
+    expect(store.list()).toEqual([])
+    expect(spend(store, 'app.example.com', 'stas', 'GOLD', '1')).toBe(false)
+    store.commit(held)
+    store.useProfile(ALICE, 'test')
+    expect(store.list()).toEqual([])
+    store.useProfile(null, 'main')
+    expect(store.list()).toEqual([])
+
+    store.useProfile(ALICE, 'main')
+    expect(store.list()).toMatchObject([{ assetId: 'GOLD', spent: '0' }])
+    expect(storage.getItem(tokenSpendAllowancesKey(BOB, 'main'))).toBeNull()
+    expect(storage.getItem('tokenSpendAllowances')).toBeNull()
+  })
+
+  it('renews with the same ceiling and nothing spent, and revokes', () => {
+    store.grant({ originator: 'app.example.com', protocol: 'dstas', assetId: 'GOLD', ceiling: '100', days: 7 })
+    spend(store, 'app.example.com', 'dstas', 'GOLD', '80')
+    now += DAY
+
+    const renewed = store.renew('https://app.example.com', 'dstas', 'GOLD', 7)
+    expect(renewed).toMatchObject({ ceiling: '100', spent: '0', expiresAt: now + 7 * DAY })
+    expect(spend(store, 'app.example.com', 'dstas', 'GOLD', '100')).toBe(true)
+
+    store.revoke('app.example.com', 'dstas', 'GOLD')
+    expect(store.list()).toEqual([])
+    expect(() => store.renew('app.example.com', 'dstas', 'GOLD', 7)).toThrow()
+  })
+
+  it('holds amounts in flight and charges only what a transfer moved', () => {
+    store.grant({ originator: 'app.example.com', protocol: 'bsv-21', assetId: 'abc_0', ceiling: '1000', days: 7 })
+
+    const first = store.reserve('app.example.com', 'bsv-21', 'abc_0', '600')!
+    // A second transfer in flight cannot overrun the ceiling with the first.
+    expect(store.reserve('app.example.com', 'bsv-21', 'abc_0', '500')).toBeNull()
+    const second = store.reserve('app.example.com', 'bsv-21', 'abc_0', '400')!
+    expect(store.find('app.example.com', 'bsv-21', 'abc_0')?.spent).toBe('0')
+
+    // The first fails: its hold goes back and nothing is charged.
+    store.release(first)
+    // The second moves only part of what it reserved.
+    store.commit(second, '150')
+    expect(store.find('app.example.com', 'bsv-21', 'abc_0')?.spent).toBe('150')
+    expect(store.reserve('app.example.com', 'bsv-21', 'abc_0', '850')).not.toBeNull()
+  })
+
+  it('handles amounts beyond Number precision and rejects bad grants', () => {
+    store.grant({ originator: 'a.test', protocol: 'bsv-21', assetId: 'big', ceiling: '90000000000000000001', days: 1 })
+    expect(spend(store, 'a.test', 'bsv-21', 'big', '90000000000000000000')).toBe(true)
+    expect(spend(store, 'a.test', 'bsv-21', 'big', '2')).toBe(false)
+    expect(spend(store, 'a.test', 'bsv-21', 'big', '-1')).toBe(false)
+
+    expect(() => store.grant({ originator: 'a.test', protocol: 'stas', assetId: 'x', ceiling: '0', days: 1 })).toThrow()
+    expect(() => store.grant({ originator: 'a.test', protocol: 'stas', assetId: 'x', ceiling: '10', days: 0 })).toThrow()
+  })
+})
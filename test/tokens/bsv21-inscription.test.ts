@@ -9,6 +9,7 @@
 
 import { describe, test, expect } from 'vitest'
 import {
+  buildBsv21DeployMint,
   buildBsv21Transfer,
   parseBsv21LockingScript,
 } from '../../src/lib/services/tokens/bsv21/inscription'
@@ -251,3 +252,37 @@ describe('parseBsv21LockingScript deploy+mint vs transfer', () => {
     expect(parsed!.sym).toBe('NEW')
   })
 })
+
+describe('buildBsv21DeployMint', () => {
+  test('a deploy+mint round-trips with an empty id and the minted supply', () => {
+    const hex = buildBsv21DeployMint({
+      payload: { sym: 'LOYAL', amt: '250000', dec: 2, icon: 'abc123_0' },
+      ownerHash160: OWNER_HASH160,
+    })
+    const parsed = parseBsv21LockingScript(hex)
+    expect(parsed).not.toBeNull()
+    expect(parsed!.id).toBe('')
+    expect(parsed!.amt).toBe('250000')
+    expect(parsed!.dec).toBe(2)
+    expect(parsed!.sym).toBe('LOYAL')
+    expect(parsed!.icon).toBe('abc123_0')
+    expect(parsed!.ownerHash160).toBe(OWNER_HASH160)
+  })
+
+  test('writes op=deploy+mint with string-typed amt and dec', () => {
+    const hex = buildBsv21DeployMint({ payload: { sym: 'X', amt: '1', dec: 0 }, ownerHash160: OWNER_HASH160 })
+    const json = Buffer.from(hex, 'hex').toString('latin1')
+    expect(json).toContain('"op":"deploy+mint"')
+    expect(json).toContain('"amt":"1"')
+    expect(json).toContain('"dec":"0"')
+  })
+
+  test('rejects a zero, negative or fractional supply and an out-of-range dec', () => {
+    for (const amt of ['0', '-5', '1.5', '']) {
+      expect(() => buildBsv21DeployMint({ payload: { sym: 'X', amt }, ownerHash160: OWNER_HASH160 })).toThrow()
+    }
+    expect(() =>
+      buildBsv21DeployMint({ payload: { sym: 'X', amt: '1', dec: 19 }, ownerHash160: OWNER_HASH160 }),
+    ).toThrow()
+  })
+})
@@ -0,0 +1,211 @@
+/**
+ * LocalBackToGenesisVerifier — the in-wallet B2G walk, run offline against
+ * fixture transactions built here (no wallet DB, no Services, no WOC).
+ *
+ * Pins the verdicts that matter: a real transfer walks back to its mint, a
+ * clone with no token input and an inflating transfer are counterfeit, and
+ * anything the walk could not decide stays `undetermined` — including when a
+ * cross-check disagrees.
+ */
+
+import { describe, test, expect, vi } from 'vitest'
+import { LockingScript, Transaction, UnlockingScript } from '@bsv/sdk'
+import { LocalBackToGenesisVerifier } from '../../src/lib/services/tokens/spv/LocalBackToGenesisVerifier'
+import type { TransactionSource } from '../../src/lib/services/tokens/spv/transactionSources'
+import type { BackToGenesisVerifier } from '../../src/lib/services/tokens/woc/BackToGenesisClient'
+import { buildBsv21Transfer } from '../../src/lib/services/tokens/bsv21/inscription'
+import { isIssuerContractOutput } from '../../src/lib/services/tokens/spv/tokenRules'
+
+// The fixtures are BSV-21 only; keep the STAS token SDK out of the module graph.
+vi.mock('../../src/lib/services/stas/dstasParser', () => ({
+  parseClassicStasTokenFields: () => null,
+  parseDstasLockingScript: () => null,
+}))
+
+const OWNER = '675d894f5ea1dbc6f1677850d07eef4d35fcdff6'
+
+function push(hex: string): string {
+  const len = hex.length / 2
+  return (len < 0x4c ? len.toString(16).padStart(2, '0') : '4c' + len.toString(16).padStart(2, '0')) + hex
+}
+
+function utf8Hex(s: string): string {
+  return Buffer.from(s, 'utf8').toString('hex')
+}
+
+/** buildBsv21Transfer always writes op=transfer; a deploy+mint is assembled by hand. */
+function mintScript(amt: string): string {
+  const json = JSON.stringify({ p: 'bsv-20', op: 'deploy+mint', amt, sym: 'FIX' })
+  return (
+    '0063' + push(utf8Hex('ord')) + '51' + push(utf8Hex('application/bsv-20')) + '00' +
+    push(utf8Hex(json)) + '68' + `76a914${OWNER}88ac`
+  )
+}
+
+function transferScript(id: string, amt: string): string {
+  return buildBsv21Transfer({ payload: { id, amt }, ownerHash160: OWNER })
+}
+
+function tx(inputs: Array<[string, number]>, outputs: string[]): Transaction {
+  const t = new Transaction()
+  for (const [sourceTXID, sourceOutputIndex] of inputs) {
+    t.addInput({ sourceTXID, sourceOutputIndex, unlockingScript: new UnlockingScript(), sequence: 0xffffffff })
+  }
+  for (const hex of outputs) {
+    t.addOutput({ lockingScript: LockingScript.fromHex(hex), satoshis: 1 })
+  }
+  return t
+}
+
+function mapSource(txs: Transaction[]): TransactionSource {
+  const byId = new Map(txs.map((t) => [t.id('hex'), t]))
+  return { getTransaction: async (txid) => byId.get(txid) ?? null }
+}
+
+/** Funding tx → deploy+mint of 1000 → transfer of 600 + change of 400. */
+function fixture() {
+  const funding = tx([], [`76a914${OWNER}88ac`])
+  const mint = tx([[funding.id('hex'), 0]], [mintScript('1000')])
+  const id = `${mint.id('hex')}_0`
+  const transfer = tx([[mint.id('hex'), 0]], [transferScript(id, '600'), transferScript(id, '400')])
+  return { funding, mint, id, transfer }
+}
+
+describe('LocalBackToGenesisVerifier', () => {
+  test('a transfer walks back to its deploy+mint', async () => {
+    const { funding, mint, id, transfer } = fixture()
+    const verifier = new LocalBackToGenesisVerifier({ source: mapSource([funding, mint, transfer]) })
+
+    const res = await verifier.verify('bsv21', transfer.id('hex'), 1, { expectedGenesis: id })
+    expect(res.result).toBe('authentic')
+    expect(res.genesis).toEqual({ txid: mint.id('hex'), index: 0 })
+    expect(res.genesisDepth).toBe(1)
+    expect(res.amount).toBe('400')
+    expect(res.assetKey).toEqual({ id })
+    expect(res.matchesExpectedGenesis).toBe(true)
+  })
+
+  test('the deploy+mint output is its own genesis', async () => {
+    const { funding, mint } = fixture()
+    const verifier = new LocalBackToGenesisVerifier({ source: mapSource([funding, mint]) })
+
+    const res = await verifier.verify('bsv21', mint.id('hex'), 0)
+    expect(res.result).toBe('authentic')
+    expect(res.genesisDepth).toBe(0)
+  })
+
+  test('a clone of a real id with no token input is not-authentic / no-genesis', async () => {
+    const { funding, mint, id } = fixture()
+    const clone = tx([[funding.id('hex'), 0]], [transferScript(id, '1000')])
+    const verifier = new LocalBackToGenesisVerifier({ source: mapSource([funding, mint, clone]) })
+
+    const res = await verifier.verify('bsv21', clone.id('hex'), 0)
+    expect(res.result).toBe('not-authentic')
+    expect(res.reason).toBe('no-genesis')
+  })
+
+  test('a transfer that outputs more than it spent is a conservation violation', async () => {
+    const { funding, mint, id, transfer } = fixture()
+    const inflated = tx([[transfer.id('hex'), 1]], [transferScript(id, '400'), transferScript(id, '1')])
+    const verifier = new LocalBackToGenesisVerifier({ source: mapSource([funding, mint, transfer, inflated]) })
+
+    const res = await verifier.verify('bsv21', inflated.id('hex'), 0)
+    expect(res.result).toBe('not-authentic')
+    expect(res.reason).toBe('conservation-violation')
+    expect(res.conservationOk).toBe(false)
+  })
+
+  test('an ancestor no source holds is undetermined, never counterfeit', async () => {
+    const { funding, transfer } = fixture()
+    const verifier = new LocalBackToGenesisVerifier({ source: mapSource([funding, transfer]) })
+
+    const res = await verifier.verify('bsv21', transfer.id('hex'), 0)
+    expect(res.result).toBe('undetermined')
+    expect(res.reason).toBe('source-unavailable')
+  })
+
+  test('a walk past maxDepth is undetermined', async () => {
+    const { funding, mint, transfer } = fixture()
+    const verifier = new LocalBackToGenesisVerifier({ source: mapSource([funding, mint, transfer]), maxDepth: 0 })
+
+    const res = await verifier.verify('bsv21', transfer.id('hex'), 0)
+    expect(res.result).toBe('undetermined')
+    expect(res.reason).toBe('max-depth-exceeded')
+  })
+
+  test('a merkle path the chain tracker rejects is undetermined / proof-invalid', async () => {
+    const { funding, mint, transfer } = fixture()
+    ;(mint as any).merklePath = { verify: vi.fn(async () => false) }
+    const verifier = new LocalBackToGenesisVerifier({
+      source: mapSource([funding, mint, transfer]),
+      chainTracker: async () => ({ isValidRootForHeight: async () => false }),
+    })
+
+    const res = await verifier.verify('bsv21', transfer.id('hex'), 0)
+    expect(res.result).toBe('undetermined')
+    expect(res.reason).toBe('proof-invalid')
+  })
+
+  describe('cross-check', () => {
+    const remote = (result: 'authentic' | 'not-authentic' | 'undetermined'): BackToGenesisVerifier => ({
+      verify: vi.fn(async (_std, txid, index) => ({ outpoint: { txid, index }, result })),
+    })
+
+    test('agreement keeps the local verdict', async () => {
+      const { funding, mint, transfer } = fixture()
+      const verifier = new LocalBackToGenesisVerifier({
+        source: mapSource([funding, mint, transfer]),
+        crossCheck: remote('authentic'),
+      })
+      const res = await verifier.verify('bsv21', transfer.id('hex'), 0)
+      expect(res.result).toBe('authentic')
+      expect(res.genesisDepth).toBe(1)
+    })
+
+    test('disagreement is undetermined / verifiers-disagree', async () => {
+      const { funding, mint, transfer } = fixture()
+      const verifier = new LocalBackToGenesisVerifier({
+        source: mapSource([funding, mint, transfer]),
+        crossCheck: remote('not-authentic'),
+      })
+      const res = await verifier.verify('bsv21', transfer.id('hex'), 0)
+      expect(res.result).toBe('undetermined')
+      expect(res.reason).toBe('verifiers-disagree')
+    })
+
+    test('the remote verdict decides what the local walk could not', async () => {
+      const { transfer } = fixture()
+      const verifier = new LocalBackToGenesisVerifier({ source: mapSource([transfer]), crossCheck: remote('authentic') })
+      const res = await verifier.verify('bsv21', transfer.id('hex'), 0)
+      expect(res.result).toBe('authentic')
+    })
+
+    test('an undetermined remote does not override a local verdict', async () => {
+      const { funding, mint, id } = fixture()
+      const clone = tx([[funding.id('hex'), 0]], [transferScript(id, '5')])
+      const verifier = new LocalBackToGenesisVerifier({
+        source: mapSource([funding, mint, clone]),
+        crossCheck: remote('undetermined'),
+      })
+      const res = await verifier.verify('bsv21', clone.id('hex'), 0)
+      expect(res.result).toBe('not-authentic')
+    })
+  })
+})
+
+describe('isIssuerContractOutput', () => {
+  const unit = { asset: OWNER, amount: 1n, assetKey: { tokenId: OWNER } }
+
+  test('accepts a bare P2PKH to the redemption PKH', () => {
+    expect(isIssuerContractOutput(unit, `76a914${OWNER}88ac`)).toBe(true)
+  })
+
+  test('accepts the CreateContract shape: P2PKH followed by the OP_RETURN scheme', () => {
+    expect(isIssuerContractOutput(unit, `76a914${OWNER}88ac6a${push(utf8Hex('{"name":"x"}'))}`)).toBe(true)
+  })
+
+  test('rejects a P2PKH to another key, or a longer script that is not OP_RETURN', () => {
+    expect(isIssuerContractOutput(unit, `76a914${'11'.repeat(20)}88ac`)).toBe(false)
+    expect(isIssuerContractOutput(unit, `76a914${OWNER}88ac69`)).toBe(false)
+  })
+})
@@ -0,0 +1,241 @@
+/**
+ * 1Sat Ordinals — the `ord` envelope reader, the ordinal script and gallery
+ * helpers, the owner-query mapping, and the Back-to-Genesis sat walk run
+ * offline against fixture transactions.
+ */
+
+import { describe, test, expect, vi, afterEach } from 'vitest'
+import { LockingScript, Transaction, UnlockingScript } from '@bsv/sdk'
+import { parseOrdEnvelope, buildBsv21Transfer } from '../../src/lib/services/tokens/bsv21/inscription'
+import {
+  buildOrdinalTransfer,
+  parseOrdinalLockingScript,
+} from '../../src/lib/services/tokens/ordinals/ordinalScript'
+import {
+  contentDataUrl,
+  contentText,
+  ordinalRowToHolding,
+  previewKind,
+  sandboxedHtmlDocument,
+} from '../../src/lib/services/tokens/ordinals/gallery'
+import { OneSatIndexerClient } from '../../src/lib/services/tokens/bsv21/OneSatIndexerClient'
+import { LocalBackToGenesisVerifier } from '../../src/lib/services/tokens/spv/LocalBackToGenesisVerifier'
+import type { TransactionSource } from '../../src/lib/services/tokens/spv/transactionSources'
+
+// No STAS fixtures here; keep the STAS token SDK out of the module graph.
+vi.mock('../../src/lib/services/stas/dstasParser', () => ({
+  parseClassicStasTokenFields: () => null,
+  parseDstasLockingScript: () => null,
+}))
+
+const OWNER = '675d894f5ea1dbc6f1677850d07eef4d35fcdff6'
+const OTHER = '11'.repeat(20)
+const P2PKH = (h: string) => `76a914${h}88ac`
+const PNG_HEX = '89504e470d0a1a0a'
+
+function push(hex: string): string {
+  const len = hex.length / 2
+  return (len < 0x4c ? len.toString(16).padStart(2, '0') : '4c' + len.toString(16).padStart(2, '0')) + hex
+}
+
+function utf8Hex(s: string): string {
+  return Buffer.from(s, 'utf8').toString('hex')
+}
+
+function envelope(contentType: string, ...bodyHex: string[]): string {
+  return '0063' + push(utf8Hex('ord')) + '51' + push(utf8Hex(contentType)) + '00' + bodyHex.map(push).join('') + '68'
+}
+
+function inscribed(contentType: string, bodyHex: string, owner = OWNER): string {
+  return envelope(contentType, bodyHex) + P2PKH(owner)
+}
+
+describe('parseOrdEnvelope', () => {
+  test('reads content type, body and the trailing P2PKH owner', () => {
+    const env = parseOrdEnvelope(inscribed('image/png', PNG_HEX))
+    expect(env).toMatchObject({ contentType: 'image/png', contentHex: PNG_HEX, ownerHash160: OWNER })
+  })
+
+  test('accepts the lock ahead of the envelope and a body split over pushes', () => {
+    const env = parseOrdEnvelope(P2PKH(OWNER) + envelope('text/plain', utf8Hex('hello '), utf8Hex('world')))
+    expect(env?.ownerHash160).toBe(OWNER)
+    expect(Buffer.from(env!.contentHex, 'hex').toString('utf8')).toBe('hello world')
+  })
+
+  test('rejects a script with no envelope or no owner', () => {
+    expect(parseOrdEnvelope(P2PKH(OWNER))).toBeNull()
+    expect(parseOrdEnvelope(envelope('text/plain', utf8Hex('x')))).toBeNull()
+  })
+})
+
+describe('parseOrdinalLockingScript', () => {
+  test('an inscribed output carries its inscription', () => {
+    expect(parseOrdinalLockingScript(inscribed('image/png', PNG_HEX))).toEqual({
+      ownerHash160: OWNER,
+      inscription: { contentType: 'image/png', contentHex: PNG_HEX },
+    })
+  })
+
+  test('a transferred ordinal is bare P2PKH', () => {
+    expect(parseOrdinalLockingScript(P2PKH(OWNER))).toEqual({ ownerHash160: OWNER })
+    expect(buildOrdinalTransfer(OWNER.toUpperCase())).toBe(P2PKH(OWNER))
+  })
+
+  test('BSV-21 balances are left to the BSV-21 parser', () => {
+    const bsv21 = buildBsv21Transfer({ payload: { id: 'ab_0', amt: '5' }, ownerHash160: OWNER })
+    expect(parseOrdinalLockingScript(bsv21)).toBeNull()
+  })
+})
+
+describe('gallery helpers', () => {
+  test('previewKind sandboxes HTML and shows only known kinds', () => {
+    expect(previewKind('image/svg+xml')).toBe('image')
+    expect(previewKind('text/html;charset=utf-8')).toBe('html')
+    expect(previewKind('text/markdown')).toBe('text')
+    expect(previewKind('application/json')).toBe('text')
+    expect(previewKind('model/gltf-binary')).toBe('unsupported')
+  })
+
+  test('content renders as a data URL or text', () => {
+    expect(contentDataUrl({ contentType: 'image/png', contentHex: PNG_HEX })).toBe(
+      `data:image/png;base64,${Buffer.from(PNG_HEX, 'hex').toString('base64')}`
+    )
+    expect(contentText({ contentType: 'text/plain', contentHex: utf8Hex('gm ☀') })).toBe('gm ☀')
+  })
+
+  test('HTML previews carry a CSP that fetches nothing, ahead of the content', () => {
+    const csp = `<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src data:; style-src 'unsafe-inline'">`
+    expect(sandboxedHtmlDocument('<img src="https://tracker.example/p.gif">')).toBe(`${csp}<img src="https://tracker.example/p.gif">`)
+    expect(sandboxedHtmlDocument('<!DOCTYPE html><html><head><link rel="stylesheet" href="https://x/y.css"></head></html>'))
+      .toBe(`<!DOCTYPE html>${csp}<html><head><link rel="stylesheet" href="https://x/y.css"></head></html>`)
+  })
+
+  test('ordinalRowToHolding reads origin, type and key; skips untagged rows', () => {
+    const holding = ordinalRowToHolding({
+      outpoint: 'aa.1',
+      satoshis: 1,
+      spendable: true,
+      tags: ['ordinal', 'origin:bb_0', 'type:image/png'],
+      customInstructions: JSON.stringify({ keyID: 'recv 3', ownerAddress: '1Owner' }),
+      lockingScript: P2PKH(OWNER),
+    })
+    expect(holding).toMatchObject({
+      txid: 'aa',
+      vout: 1,
+      origin: 'bb_0',
+      contentType: 'image/png',
+      brc42KeyId: 'recv 3',
+      ownerAddress: '1Owner',
+      protocol: 'ordinals',
+    })
+    expect(holding!.inscription).toBeUndefined()
+    expect(ordinalRowToHolding({ outpoint: 'aa.1', tags: ['bsv21'] })).toBeNull()
+  })
+})
+
+describe('OneSatIndexerClient.getOwnedTxos', () => {
+  afterEach(() => vi.unstubAllGlobals())
+
+  test('maps origin and content type off each owner row', async () => {
+    const fetchMock = vi.fn(async () => ({
+      ok: true,
+      json: async () => [
+        {
+          outpoint: 'aa_0',
+          satoshis: 1,
+          events: ['insc'],
+          data: { origin: { outpoint: 'bb_0', data: { insc: { file: { type: 'image/png' } } } } },
+        },
+        { outpoint: 'cc_1', satoshis: 1, data: { bsv21: { id: 'dd_0', amt: 7, dec: '2' } } },
+        { satoshis: 5 },
+      ],
+    }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const rows = await new OneSatIndexerClient({ baseUrl: 'https://idx' }).getOwnedTxos('1Owner')
+    expect(fetchMock).toHaveBeenCalledWith('https://idx/1sat/owner/1Owner/txos?unspent=true')
+    expect(rows).toHaveLength(2)
+    expect(rows[0]).toMatchObject({ outpoint: 'aa_0', origin: 'bb_0', contentType: 'image/png', owner: '1Owner' })
+    expect(rows[1]).toMatchObject({ id: 'dd_0', amt: '7', dec: 2 })
+  })
+
+  test('a failed query is an empty list', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => ({ ok: false, json: async () => null })))
+    expect(await new OneSatIndexerClient().getOwnedTxos('1Owner')).toEqual([])
+  })
+})
+
+describe('LocalBackToGenesisVerifier — ordinals', () => {
+  function tx(inputs: Array<[string, number]>, outputs: Array<[string, number]>): Transaction {
+    const t = new Transaction()
+    for (const [sourceTXID, sourceOutputIndex] of inputs) {
+      t.addInput({ sourceTXID, sourceOutputIndex, unlockingScript: new UnlockingScript(), sequence: 0xffffffff })
+    }
+    for (const [hex, satoshis] of outputs) {
+      t.addOutput({ lockingScript: LockingScript.fromHex(hex), satoshis })
+    }
+    return t
+  }
+
+  function mapSource(txs: Transaction[]): TransactionSource {
+    const byId = new Map(txs.map((t) => [t.id('hex'), t]))
+    return { getTransaction: async (txid) => byId.get(txid) ?? null }
+  }
+
+  /** Funding → inscribe at output 1 (after a 1000-sat change) → transfer behind a funding input. */
+  function fixture() {
+    const funding = tx([], [[P2PKH(OWNER), 5000]])
+    const inscribe = tx([[funding.id('hex'), 0]], [[P2PKH(OWNER), 1000], [inscribed('image/png', PNG_HEX), 1]])
+    const transfer = tx(
+      [[inscribe.id('hex'), 1], [inscribe.id('hex'), 0]],
+      [[P2PKH(OTHER), 1], [P2PKH(OWNER), 900]]
+    )
+    return { funding, inscribe, transfer }
+  }
+
+  test('the inscribed output is its own genesis', async () => {
+    const { funding, inscribe } = fixture()
+    const verifier = new LocalBackToGenesisVerifier({ source: mapSource([funding, inscribe]) })
+
+    const res = await verifier.verify('ordinals', inscribe.id('hex'), 1)
+    expect(res.result).toBe('authentic')
+    expect(res.genesis).toEqual({ txid: inscribe.id('hex'), index: 1 })
+    expect(res.genesisDepth).toBe(0)
+    expect(res.amount).toBe('1')
+  })
+
+  test('a transfer walks its satoshi back to the inscription', async () => {
+    const { funding, inscribe, transfer } = fixture()
+    const crossCheck = { verify: vi.fn() }
+    const verifier = new LocalBackToGenesisVerifier({
+      source: mapSource([funding, inscribe, transfer]),
+      crossCheck: crossCheck as any,
+    })
+
+    const res = await verifier.verify('ordinals', transfer.id('hex'), 0, { expectedGenesis: `${inscribe.id('hex')}_1` })
+    expect(res.result).toBe('authentic')
+    expect(res.genesisDepth).toBe(1)
+    expect(res.matchesExpectedGenesis).toBe(true)
+    // WoC has no ordinals endpoint.
+    expect(crossCheck.verify).not.toHaveBeenCalled()
+  })
+
+  test('a satoshi split off a funding output was never inscribed', async () => {
+    const { funding, inscribe } = fixture()
+    const fake = tx([[inscribe.id('hex'), 0]], [[P2PKH(OTHER), 1], [P2PKH(OWNER), 900]])
+    const verifier = new LocalBackToGenesisVerifier({ source: mapSource([funding, inscribe, fake]) })
+
+    const res = await verifier.verify('ordinals', fake.id('hex'), 0)
+    expect(res.result).toBe('not-authentic')
+    expect(res.reason).toBe('no-genesis')
+  })
+
+  test('an output of more than one satoshi is not an ordinal', async () => {
+    const { funding, inscribe } = fixture()
+    const verifier = new LocalBackToGenesisVerifier({ source: mapSource([funding, inscribe]) })
+
+    const res = await verifier.verify('ordinals', inscribe.id('hex'), 0)
+    expect(res.result).toBe('undetermined')
+    expect(res.reason).toBe('not-a-token')
+  })
+})
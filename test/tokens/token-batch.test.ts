@@ -0,0 +1,255 @@
+/**
+ * Batch token payouts — CSV / JSON row parsing, the per-protocol tx planner,
+ * and TokenBatchTransferService chaining each send from the previous tx's
+ * token change, against fake adapters.
+ */
+
+import { describe, test, expect, vi, beforeEach } from 'vitest'
+
+const holdingsMock = vi.fn()
+vi.mock('../../src/lib/services/tokens/peer/loadPeerHoldings', () => ({
+  loadPeerHoldings: (...args: any[]) => holdingsMock(...args),
+}))
+
+import { parseBatchCsv, parseBatchEntries, MAX_BATCH_ROWS } from '../../src/lib/services/tokens/batch/batchRows'
+import { planBatchTransfer, type BatchUtxo } from '../../src/lib/services/tokens/batch/planBatchTransfer'
+import { TokenBatchTransferService } from '../../src/lib/services/tokens/batch/TokenBatchTransferService'
+
+const ADDR = (n: number) => `1BoatSLRHtKNngkdXEeobR76b53LETtp${'abcdefghijk'[n]}`
+const IDENTITY = '03' + 'ab'.repeat(32)
+
+const rowsOf = (...amounts: number[]) =>
+  amounts.map((a, i) => ({ line: i + 1, recipient: ADDR(i), kind: 'address' as const, amount: String(a) }))
+const utxo = (outpoint: string, amount: number): BatchUtxo => ({ outpoint, amount: BigInt(amount), scriptBytes: 1500 })
+
+describe('parseBatchCsv', () => {
+  test('skips a header, blank lines and comments; tells addresses from identity keys', () => {
+    const { rows, errors } = parseBatchCsv(
+      `address,amount\n\n# payroll\n${ADDR(0)},100\r\n"${IDENTITY}" ; 25\n${ADDR(1)}\t007\n`
+    )
+    expect(errors).toEqual([])
+    expect(rows).toEqual([
+      { line: 4, recipient: ADDR(0), kind: 'address', amount: '100' },
+      { line: 5, recipient: IDENTITY, kind: 'identity', amount: '25' },
+      { line: 6, recipient: ADDR(1), kind: 'address', amount: '7' },
+    ])
+  })
+
+  test('reports bad rows by line and keeps the good ones', () => {
+    const { rows, errors } = parseBatchCsv(`${ADDR(0)},10\nnot-an-address,5\n${ADDR(1)},0\n${ADDR(2)},1.5\n${ADDR(3)}`)
+    expect(rows.map((r) => r.line)).toEqual([1])
+    expect(errors.map((e) => e.line)).toEqual([2, 3, 4, 5])
+    expect(errors[0].message).toMatch(/recipient/)
+    expect(errors[1].message).toMatch(/positive integer/)
+    expect(errors[3].message).toMatch(/2 columns/)
+  })
+
+  test('an empty file is an error, not an empty batch', () => {
+    expect(parseBatchCsv('address,amount\n').errors).toEqual([{ line: 0, message: 'no rows' }])
+  })
+})
+
+describe('parseBatchEntries', () => {
+  test('accepts numeric or string amounts and numbers entries from 1', () => {
+    const { rows, errors } = parseBatchEntries([{ recipient: ADDR(0), amount: 5 }, { recipient: IDENTITY, amount: '6' }])
+    expect(errors).toEqual([])
+    expect(rows.map((r) => [r.line, r.kind, r.amount])).toEqual([[1, 'address', '5'], [2, 'identity', '6']])
+  })
+
+  test('rejects a non-array and caps the row count', () => {
+    expect(parseBatchEntries({}).errors[0].message).toMatch(/array/)
+    const many = Array.from({ length: MAX_BATCH_ROWS + 1 }, () => ({ recipient: ADDR(0), amount: 1 }))
+    expect(parseBatchEntries(many).errors[0].message).toMatch(/limited/)
+  })
+})
+
+describe('planBatchTransfer', () => {
+  test('STAS merges the inputs, then pays three rows per tx plus change', () => {
+    const plan = planBatchTransfer({
+      protocol: 'stas',
+      utxos: [utxo('a.0', 400), utxo('b.0', 250), utxo('c.0', 50)],
+      rows: rowsOf(100, 100, 100, 100, 100, 100, 50),
+      peerAvailable: false,
+    })
+    expect(plan.ok).toBe(true)
+    expect(plan.inputs).toEqual(['a.0', 'b.0'])
+    expect(plan.txs.map((t) => [t.kind, t.lines, t.change])).toEqual([
+      ['merge', [], '0'],
+      ['send', [1, 2, 3], '350'],
+      ['send', [4, 5, 6, 7], '0'],
+    ])
+    expect(plan.rows[6].tx).toBe(2)
+    expect(plan.total).toBe('650')
+    expect(plan.balance).toBe('700')
+    expect(plan.estimatedFee).toBe(plan.txs.reduce((s, t) => s + t.estimatedFee, 0))
+  })
+
+  test('STAS keeps the final change when the last rows leave some over', () => {
+    const plan = planBatchTransfer({ protocol: 'dstas', utxos: [utxo('a.0', 1000)], rows: rowsOf(1, 2, 3, 4, 5), peerAvailable: false })
+    expect(plan.txs.map((t) => [t.lines, t.change])).toEqual([[[1, 2, 3], '994'], [[4, 5], '985']])
+  })
+
+  test('BSV-21 pays every row from all inputs in one tx', () => {
+    const plan = planBatchTransfer({
+      protocol: 'bsv-21',
+      utxos: [utxo('a.0', 60), utxo('b.0', 50)],
+      rows: rowsOf(30, 30, 30),
+      peerAvailable: false,
+    })
+    expect(plan.txs).toHaveLength(1)
+    expect(plan.txs[0]).toMatchObject({ kind: 'send', lines: [1, 2, 3], tokenInputs: 2, change: '20' })
+  })
+
+  test('identity rows each need one covering UTXO from what is left', () => {
+    const plan = planBatchTransfer({
+      protocol: 'bsv-21',
+      utxos: [utxo('a.0', 100), utxo('b.0', 10), utxo('c.0', 10)],
+      rows: [
+        { line: 1, recipient: ADDR(0), kind: 'address', amount: '60' },
+        { line: 2, recipient: IDENTITY, kind: 'identity', amount: '30' },
+        { line: 3, recipient: IDENTITY, kind: 'identity', amount: '15' },
+      ],
+      peerAvailable: true,
+    })
+    // Row 2 spends the 40 of change; row 3 finds only 10s left.
+    expect(plan.txs.map((t) => [t.kind, t.lines, t.change])).toEqual([['send', [1], '40'], ['peer', [2], '10']])
+    expect(plan.ok).toBe(false)
+    expect(plan.rows[2].reason).toMatch(/consolidate first/)
+  })
+
+  test('reports a shortfall on every address row and no txs', () => {
+    const plan = planBatchTransfer({ protocol: 'stas', utxos: [utxo('a.0', 10)], rows: rowsOf(6, 6), peerAvailable: false })
+    expect(plan.ok).toBe(false)
+    expect(plan.txs).toEqual([])
+    expect(plan.rows.every((r) => /balance is 10/.test(r.reason!))).toBe(true)
+  })
+})
+
+describe('TokenBatchTransferService', () => {
+  const TOKEN_ID = '22'.repeat(20)
+  const holding = (txid: string, amount: number, protocol = 'dstas', tokenId = TOKEN_ID) => ({
+    key: `${txid}.0`,
+    protocol,
+    label: `PTS · ${amount}`,
+    amount: String(amount),
+    source: { txid, outputIndex: 0, lockingScriptHex: 'ab'.repeat(100), satoshis: amount, protocol, assetId: tokenId, tokenId, brc42KeyId: 'recv 1' },
+  })
+  const change = (txid: string, satoshis: number) => ({ txid, vout: 3, scriptHex: 'cd', satoshis, brc42KeyId: 'recv 9' })
+
+  function setup(adapter: any) {
+    const changeDeriver = { createNextReceiveContext: vi.fn(async () => ({ ownerFieldHash160: '11'.repeat(20), keyId: 'recv 9' })) }
+    const service = new TokenBatchTransferService({
+      wallet: {} as any,
+      identityKey: IDENTITY,
+      chain: 'main',
+      tokens: { getById: () => adapter } as any,
+      changeDeriver,
+    })
+    return { service, changeDeriver }
+  }
+
+  beforeEach(() => holdingsMock.mockReset())
+
+  test('merges, then chains each split from the previous change', async () => {
+    holdingsMock.mockResolvedValue([holding('aa', 200), holding('bb', 200)])
+    const transfer = vi.fn()
+      .mockResolvedValueOnce({ ok: true, txid: 't1', change: change('t1', 250) })
+      .mockResolvedValueOnce({ ok: true, txid: 't2' })
+    const merge = vi.fn(async () => ({ ok: true, txids: ['m1'], merged: change('m1', 400) }))
+    const { service, changeDeriver } = setup({ transferSupported: true, mergeSupported: true, transfer, merge })
+
+    const res = await service.execute({ protocol: 'dstas', assetId: TOKEN_ID, rows: rowsOf(50, 50, 50, 100, 150) })
+
+    expect(res.ok).toBe(true)
+    expect(res.txids).toEqual(['m1', 't1', 't2'])
+    expect(res.results.map((r) => r.txid)).toEqual(['t1', 't1', 't1', 't2', 't2'])
+    const [first, second] = transfer.mock.calls.map((c: any[]) => c[0])
+    expect(first).toMatchObject({
+      source: { txid: 'm1' },
+      recipientAddress: ADDR(0),
+      amount: 50,
+      extraRecipients: [{ recipientAddress: ADDR(1), amount: 50 }, { recipientAddress: ADDR(2), amount: 50 }],
+      senderChangeHash160: '11'.repeat(20),
+    })
+    expect(second).toMatchObject({ source: { txid: 't1', vout: 3 }, amount: 100 })
+    expect(second.senderChangeHash160).toBeUndefined()
+    expect(changeDeriver.createNextReceiveContext).toHaveBeenCalledTimes(1)
+  })
+
+  test('draws only on the requested token id, not on others sharing its symbol', async () => {
+    holdingsMock.mockResolvedValue([holding('aa', 500, 'dstas', '33'.repeat(20)), holding('bb', 100)])
+    const transfer = vi.fn()
+    const { service } = setup({ transferSupported: true, mergeSupported: true, transfer })
+
+    const plan = await service.preview({ protocol: 'dstas', assetId: TOKEN_ID, rows: rowsOf(200) })
+
+    expect(plan.ok).toBe(false)
+    expect(plan.rows[0].reason).toMatch(/balance is 100/)
+  })
+
+  test('a failed tx stops the chain and marks the rest not sent', async () => {
+    holdingsMock.mockResolvedValue([holding('aa', 1000)])
+    const transfer = vi.fn(async () => ({ ok: false, reason: 'insufficient funds' }))
+    const { service } = setup({ transferSupported: true, mergeSupported: true, transfer })
+
+    const res = await service.execute({ protocol: 'dstas', assetId: TOKEN_ID, rows: rowsOf(1, 1, 1, 1) })
+
+    expect(res.ok).toBe(false)
+    expect(transfer).toHaveBeenCalledTimes(1)
+    expect(res.results.map((r) => r.reason)).toEqual([
+      'insufficient funds', 'insufficient funds', 'insufficient funds', 'not sent: an earlier tx in the batch failed',
+    ])
+  })
+
+  test('refuses a plan with unsendable rows without signing anything', async () => {
+    holdingsMock.mockResolvedValue([holding('aa', 10)])
+    const transfer = vi.fn()
+    const { service } = setup({ transferSupported: true, mergeSupported: true, transfer })
+
+    const res = await service.execute({ protocol: 'dstas', assetId: TOKEN_ID, rows: rowsOf(20) })
+
+    expect(res.ok).toBe(false)
+    expect(res.txids).toEqual([])
+    expect(transfer).not.toHaveBeenCalled()
+  })
+
+  test('sends the approved plan as is and nothing once its inputs are gone', async () => {
+    holdingsMock.mockResolvedValue([holding('aa', 100)])
+    const transfer = vi.fn(async () => ({ ok: true, txid: 't1' }))
+    const { service } = setup({ transferSupported: true, mergeSupported: true, transfer })
+    const args = { protocol: 'dstas' as const, assetId: TOKEN_ID, rows: rowsOf(60) }
+    const approved = await service.preview(args)
+
+    // A closer fit turned up: a re-plan would spend it, the approved plan does not.
+    holdingsMock.mockResolvedValue([holding('bb', 60), holding('aa', 100)])
+    expect((await service.execute(args, approved)).ok).toBe(true)
+    expect(transfer.mock.calls[0][0]).toMatchObject({ source: { txid: 'aa' } })
+
+    holdingsMock.mockResolvedValue([holding('bb', 60)])
+    const stale = await service.execute(args, approved)
+    expect(stale.ok).toBe(false)
+    expect(stale.results[0].reason).toMatch(/holdings changed/)
+    const changed = await service.execute({ ...args, rows: rowsOf(70) }, approved)
+    expect(changed.results[0].reason).toMatch(/rows differ/)
+    expect(transfer).toHaveBeenCalledTimes(1)
+  })
+
+  test('BSV-21 threads amounts and extra recipients as raw strings', async () => {
+    const b21 = holding('aa', 500, 'bsv-21')
+    Object.assign(b21.source, { assetId: 'tid_0', tokenId: 'tid_0', amt: '500', sym: 'PTS', satoshis: 1 })
+    holdingsMock.mockResolvedValue([b21, { ...holding('cc', 900, 'dstas') }])
+    const transfer = vi.fn(async () => ({ ok: true, txid: 't1' }))
+    const { service } = setup({ transferSupported: true, mergeSupported: true, transfer })
+
+    const res = await service.execute({ protocol: 'bsv-21', assetId: 'tid_0', rows: rowsOf(200, 300) })
+
+    expect(res.ok).toBe(true)
+    expect(transfer.mock.calls[0][0]).toMatchObject({
+      tokenId: 'tid_0',
+      sourceAmt: '500',
+      amount: '200',
+      sym: 'PTS',
+      extraRecipients: [{ recipientAddress: ADDR(1), amount: '300' }],
+    })
+  })
+})
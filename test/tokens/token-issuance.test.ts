@@ -0,0 +1,118 @@
+/**
+ * TokenIssuanceService — request validation and the BSV-21 deploy+mint
+ * flow, against a fake wallet. The STAS / DSTAS two-tx path needs bsv-js to
+ * sign the contract input, so only its early rejections are covered here.
+ */
+
+import { describe, test, expect, vi, beforeEach } from 'vitest'
+
+// The SDK-backed modules stay out of the graph; BSV-21 needs none of them.
+vi.mock('dxs-bsv-token-sdk/bsv', () => ({
+  Address: class { Value = '1OwnerAddress' },
+  fromHex: (h: string) => h,
+}))
+vi.mock('../../src/lib/services/tokens/issuance/issuanceScripts', () => ({}))
+vi.mock('../../src/lib/services/stas/dstasParser', () => ({
+  parseDstasLockingScript: () => null,
+}))
+
+const stasQueryMock = vi.fn()
+vi.mock('../../src/lib/services/stas/stasIpc', () => ({
+  stasQuery: (...args: any[]) => stasQueryMock(...args),
+}))
+
+import { TokenIssuanceService } from '../../src/lib/services/tokens/issuance/TokenIssuanceService'
+import { parseBsv21LockingScript } from '../../src/lib/services/tokens/bsv21/inscription'
+
+const IDENTITY_KEY = '02' + 'aa'.repeat(32)
+const OWNER = '675d894f5ea1dbc6f1677850d07eef4d35fcdff6'
+const TXID = 'cd'.repeat(32)
+
+function setup() {
+  const wallet = {
+    createAction: vi.fn(async () => ({ txid: TXID, tx: [1, 2, 3] })),
+  }
+  const stasDeriver = { createNextReceiveContext: vi.fn() }
+  const bsv21Deriver = {
+    createNextReceiveContext: vi.fn(async () => ({ keyId: 'recv 4', ownerFieldHash160: OWNER })),
+  }
+  const bsv21Indexer = { submitTransaction: vi.fn(async () => ({ ok: true, status: 200, body: '' })) }
+  const service = new TokenIssuanceService({
+    wallet: wallet as any,
+    identityKey: IDENTITY_KEY,
+    chain: 'main',
+    stasDeriver: stasDeriver as any,
+    bsv21Deriver: bsv21Deriver as any,
+    registration: { register: vi.fn() } as any,
+    bsv21Indexer: bsv21Indexer as any,
+  })
+  return { wallet, stasDeriver, bsv21Indexer, service }
+}
+
+beforeEach(() => {
+  stasQueryMock.mockReset()
+  stasQueryMock.mockResolvedValue({ ok: true, outputId: 9 })
+})
+
+describe('TokenIssuanceService — BSV-21 deploy+mint', () => {
+  test('mints into the BSV-21 basket and keys the token by its outpoint', async () => {
+    const { wallet, bsv21Indexer, service } = setup()
+    const res = await service.issue({ protocol: 'bsv-21', symbol: 'LOYAL', supply: '5000', decimals: 2 })
+
+    expect(res).toEqual({ ok: true, protocol: 'bsv-21', tokenId: `${TXID}_0`, txid: TXID })
+
+    const args = (wallet.createAction.mock.calls[0] as any[])[0]
+    const out = args.outputs[0]
+    expect(out.basket).toBe('bsv-21-tokens')
+    expect(out.satoshis).toBe(1)
+    expect(out.tags).toEqual(expect.arrayContaining(['bsv21', 'amt:5000', 'sym:LOYAL', 'dec:2']))
+    expect(JSON.parse(out.customInstructions)).toMatchObject({
+      kind: 'bsv-21',
+      keyID: 'recv 4',
+      issuerIdentityKey: IDENTITY_KEY,
+    })
+    const parsed = parseBsv21LockingScript(out.lockingScript)
+    expect(parsed).toMatchObject({ id: '', amt: '5000', dec: 2, sym: 'LOYAL', ownerHash160: OWNER })
+
+    // The id is only known after signing: tagged + stamped afterwards.
+    const [, , method, [annotate]] = stasQueryMock.mock.calls[0]
+    expect(method).toBe('annotateOutput')
+    expect(annotate).toMatchObject({ txid: TXID, vout: 0, tags: [`id:${TXID}_0`] })
+    expect(JSON.parse(annotate.customInstructions).tokenId).toBe(`${TXID}_0`)
+    expect(stasQueryMock.mock.calls[1].slice(2)).toEqual(['setOutputSpendable', [9, true]])
+
+    expect(bsv21Indexer.submitTransaction).toHaveBeenCalledWith([1, 2, 3], { tokenId: `${TXID}_0` })
+  })
+
+  test('an invalid supply is rejected before anything is broadcast', async () => {
+    const { wallet, service } = setup()
+    const res = await service.issue({ protocol: 'bsv-21', symbol: 'LOYAL', supply: '0' })
+    expect(res.ok).toBe(false)
+    expect(res.reason).toMatch(/amt/)
+    expect(wallet.createAction).not.toHaveBeenCalled()
+  })
+
+  test('a failed createAction is reported, not thrown', async () => {
+    const { wallet, service } = setup()
+    wallet.createAction.mockRejectedValueOnce(new Error('insufficient funds'))
+    const res = await service.issue({ protocol: 'bsv-21', symbol: 'LOYAL', supply: '10' })
+    expect(res).toMatchObject({ ok: false, protocol: 'bsv-21', reason: 'createAction: insufficient funds' })
+    expect(stasQueryMock).not.toHaveBeenCalled()
+  })
+})
+
+describe('TokenIssuanceService — STAS / DSTAS validation', () => {
+  test.each([
+    [{ name: '', symbol: 'PTS', supply: 100 }, /name/],
+    [{ name: 'Points', symbol: 'has space', supply: 100 }, /symbol/],
+    [{ name: 'Points', symbol: 'PTS', supply: 0 }, /supply/],
+    [{ name: 'Points', symbol: 'PTS', supply: 1.5 }, /supply/],
+  ])('rejects %o before deriving keys', async (fields, reason) => {
+    const { wallet, stasDeriver, service } = setup()
+    const res = await service.issue({ protocol: 'stas', ...fields })
+    expect(res.ok).toBe(false)
+    expect(res.reason).toMatch(reason)
+    expect(stasDeriver.createNextReceiveContext).not.toHaveBeenCalled()
+    expect(wallet.createAction).not.toHaveBeenCalled()
+  })
+})
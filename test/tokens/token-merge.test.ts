@@ -0,0 +1,108 @@
+/**
+ * Token consolidation — the pure pieces behind `merge` and multi-input
+ * sends: coin selection, the merge-witness segment cutter (mirror of the
+ * SDK's `InputBuilder.prepareMergeInfo`), and the BSV-21 adapter's mapping
+ * of `MergeArgs` onto `BSV21TransferService.consolidate`.
+ */
+
+import { describe, test, expect, vi } from 'vitest'
+import { selectTokenInputs } from '../../src/lib/services/tokens/merge/selectTokenInputs'
+import { mergeSegments, dstasCounterpartyScript } from '../../src/lib/services/tokens/merge/mergeSegments'
+import { BSV21ProtocolAdapter } from '../../src/lib/services/tokens/BSV21ProtocolAdapter'
+
+const bytes = (hex: string) => Uint8Array.from(hex.match(/../g)!.map((b) => parseInt(b, 16)))
+const hex = (u: Uint8Array) => Array.from(u, (b) => b.toString(16).padStart(2, '0')).join('')
+
+describe('selectTokenInputs', () => {
+  const amountOf = (n: number) => BigInt(n)
+
+  test('uses the smallest single UTXO that covers the amount', () => {
+    expect(selectTokenInputs([500, 120, 100, 90], 100n, amountOf)).toEqual({ inputs: [100], total: 100n })
+    expect(selectTokenInputs([500, 120, 90], 100n, amountOf)).toEqual({ inputs: [120], total: 120n })
+  })
+
+  test('falls back to largest-first when no single UTXO covers it', () => {
+    expect(selectTokenInputs([100, 100, 300, 50, 200], 550n, amountOf)).toEqual({
+      inputs: [300, 200, 100],
+      total: 600n,
+    })
+  })
+
+  test('returns null when the UTXOs cannot cover the amount', () => {
+    expect(selectTokenInputs([100, 100], 201n, amountOf)).toBeNull()
+    expect(selectTokenInputs([], 1n, amountOf)).toBeNull()
+    expect(selectTokenInputs([100], 0n, amountOf)).toBeNull()
+  })
+
+  test('compares amounts beyond 2^53 exactly', () => {
+    const big = [9007199254740993n, 9007199254740992n]
+    const res = selectTokenInputs(big, 9007199254740993n, (v) => v)
+    expect(res).toEqual({ inputs: [9007199254740993n], total: 9007199254740993n })
+  })
+})
+
+describe('mergeSegments', () => {
+  // `76 a9 14 <pkh> 88 ac 69` followed by a stand-in engine body.
+  const stasScript = bytes('76a914' + '11'.repeat(20) + '88ac69' + 'abcdef')
+
+  test('STAS cuts the parent tx on the script after byte 23 and drops empty pieces', () => {
+    const body = hex(stasScript.subarray(23))
+    const parent = bytes('0100' + body + 'ff' + body + body + 'ee')
+    expect(mergeSegments('stas', parent, stasScript).map(hex)).toEqual(['ee', 'ff', '0100'])
+  })
+
+  test('STAS rejects a script with no body to cut on', () => {
+    expect(() => mergeSegments('stas', bytes('00'), bytes('76a914' + '11'.repeat(20)))).toThrow(/too short/)
+  })
+
+  // DSTAS: <20-byte owner push> <action-data push> <counterparty script>.
+  const dstasScript = bytes('14' + '22'.repeat(20) + '4c02' + 'aabb' + 'c0ffee')
+
+  test('dstasCounterpartyScript skips the owner and action-data chunks', () => {
+    expect(hex(dstasCounterpartyScript(dstasScript))).toBe('c0ffee')
+    expect(hex(dstasCounterpartyScript(bytes('14' + '22'.repeat(20) + '00' + 'c0ffee')))).toBe('c0ffee')
+  })
+
+  test('dstasCounterpartyScript rejects a script without owner or action data', () => {
+    expect(() => dstasCounterpartyScript(bytes('00c0ffee'))).toThrow(/owner field/)
+    expect(() => dstasCounterpartyScript(bytes('14' + '22'.repeat(20)))).toThrow(/action data/)
+  })
+
+  test('DSTAS keeps empty pieces and reverses them', () => {
+    const parent = bytes('01' + 'c0ffee' + 'c0ffee' + '02')
+    expect(mergeSegments('dstas', parent, dstasScript).map(hex)).toEqual(['02', '', '01'])
+  })
+})
+
+describe('BSV21ProtocolAdapter.merge', () => {
+  const source = (vout: number) => ({ txid: 'aa'.repeat(32), vout, scriptHex: '00', satoshis: 1, brc42KeyId: `k ${vout}` })
+
+  test('threads each source amount into consolidate and maps the result', async () => {
+    const merged = { ...source(0), txid: 'bb'.repeat(32), tokenId: 'tid_0', amt: '30' }
+    const consolidate = vi.fn(async () => ({ ok: true, txid: 'bb'.repeat(32), merged }))
+    const adapter = new BSV21ProtocolAdapter({ consolidate } as any)
+
+    const res = await adapter.merge({
+      sources: [source(1), source(2)],
+      tokenId: 'tid_0',
+      sourceAmts: ['10', '20'],
+      sym: 'PTS',
+    } as any)
+
+    expect(res).toEqual({ ok: true, txids: ['bb'.repeat(32)], merged, reason: undefined })
+    const [{ sources }] = (consolidate.mock.calls[0] as any[])
+    expect(sources.map((s: any) => [s.vout, s.amt, s.tokenId, s.sym])).toEqual([
+      [1, '10', 'tid_0', 'PTS'],
+      [2, '20', 'tid_0', 'PTS'],
+    ])
+  })
+
+  test('refuses without one amount per source', async () => {
+    const consolidate = vi.fn()
+    const adapter = new BSV21ProtocolAdapter({ consolidate } as any)
+    const res = await adapter.merge({ sources: [source(1), source(2)], tokenId: 'tid_0', sourceAmts: ['10'] } as any)
+    expect(res.ok).toBe(false)
+    expect(res.txids).toEqual([])
+    expect(consolidate).not.toHaveBeenCalled()
+  })
+})
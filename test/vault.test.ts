@@ -2,6 +2,15 @@ import { describe, it, expect, beforeEach, vi } from 'vitest'
 import os from 'os'
 import path from 'path'
 import fs from 'fs'
+import { randomBytes } from 'crypto'
+import {
+  AAD,
+  KDF_VERSIONS,
+  CURRENT_KDF_VERSION,
+  aesGcmEncrypt,
+  randomDek,
+  wrapDekWithPassphrase,
+} from '../electron/vaultCrypto'
 
 const TMP = path.join(os.tmpdir(), `vault-test-${process.pid}-${Date.now()}`)
 
@@ -54,6 +63,18 @@ describe('vault', () => {
     expect(vault.getSecret('primaryKeyHex')).toBe('aabb')
   })
 
+  it('notifies lock state listeners only on transitions', async () => {
+    const states: boolean[] = []
+    vault.onLockStateChange((locked) => states.push(locked))
+
+    vault.enroll({ passphrase: 'test-passphrase-ok', enableBiometrics: false })
+    vault.lock()
+    vault.lock()
+    await vault.unlockWithPassphrase('test-passphrase-ok')
+
+    expect(states).toEqual([false, true, false])
+  })
+
   it('rejects wrong passphrase', async () => {
     vault.enroll({ passphrase: 'test-passphrase-ok', enableBiometrics: false })
     vault.lock()
@@ -128,4 +149,247 @@ describe('vault', () => {
     vault.setSecret('snap', 'after-relogin')
     expect(vault.getSecret('snap')).toBe('after-relogin')
   })
+
+  const readVault = () => JSON.parse(fs.readFileSync(path.join(TMP, 'vault.dat'), 'utf8'))
+  /** The sealed record of the active profile. */
+  const readFile = () => {
+    const file = readVault()
+    return file.profiles.find((p: { id: string }) => p.id === file.activeProfile)
+  }
+
+  it('changes the passphrase by rewrapping the DEK only', async () => {
+    vault.enroll({
+      passphrase: 'test-passphrase-ok',
+      enableBiometrics: false,
+      initialSecrets: { snap: 'SNAPDATA' },
+    })
+    const before = readFile()
+
+    const r = await vault.changePassphrase('test-passphrase-ok', 'a-brand-new-passphrase')
+    expect(r.ok).toBe(true)
+
+    const after = readFile()
+    expect(after.ciphertext).toBe(before.ciphertext)
+    expect(after.nonce).toBe(before.nonce)
+    expect(after.kdf.salt).not.toBe(before.kdf.salt)
+    expect(after.wraps.passphrase.blob).not.toBe(before.wraps.passphrase.blob)
+    // The running session is unaffected.
+    expect(vault.getSecret('snap')).toBe('SNAPDATA')
+
+    vault.lock()
+    expect((await vault.unlockWithPassphrase('test-passphrase-ok')).ok).toBe(false)
+    vault._resetForTests()
+    expect((await vault.unlockWithPassphrase('a-brand-new-passphrase')).ok).toBe(true)
+    expect(vault.getSecret('snap')).toBe('SNAPDATA')
+  })
+
+  it('refuses a passphrase change without the current passphrase', async () => {
+    vault.enroll({ passphrase: 'test-passphrase-ok', enableBiometrics: false })
+    const before = readFile()
+
+    const wrong = await vault.changePassphrase('not-the-passphrase', 'a-brand-new-passphrase')
+    expect(wrong).toEqual({ ok: false, error: 'Current passphrase is incorrect.' })
+    const short = await vault.changePassphrase('test-passphrase-ok', 'short')
+    expect(short.ok).toBe(false)
+    expect(readFile()).toEqual(before)
+  })
+
+  it('re-derives a legacy KDF wrap at the current cost on unlock', async () => {
+    // A vault written before KDF versioning: N=16384 and no version field.
+    const dek = randomDek()
+    const legacyKdf = { alg: 'scrypt' as const, salt: randomBytes(16).toString('base64'), params: { ...KDF_VERSIONS[1] } }
+    const sealed = aesGcmEncrypt(dek, Buffer.from(JSON.stringify({ snap: 'LEGACY' }), 'utf8'), AAD)
+    fs.writeFileSync(path.join(TMP, 'vault.dat'), JSON.stringify({
+      version: 2,
+      kdf: legacyKdf,
+      wraps: { passphrase: { blob: wrapDekWithPassphrase('test-passphrase-ok', dek, legacyKdf) } },
+      ...sealed,
+      aad: 'bsv-desktop-vault-v2',
+    }))
+
+    expect((await vault.unlockWithPassphrase('test-passphrase-ok')).ok).toBe(true)
+    expect(readVault()).toMatchObject({ version: 3, activeProfile: 'default' })
+    const upgraded = readFile()
+    expect(upgraded.kdf.version).toBe(CURRENT_KDF_VERSION)
+    expect(upgraded.kdf.params).toEqual(KDF_VERSIONS[CURRENT_KDF_VERSION])
+    expect(upgraded.ciphertext).toBe(sealed.ciphertext)
+
+    vault.lock()
+    expect((await vault.unlockWithPassphrase('test-passphrase-ok')).ok).toBe(true)
+    expect(vault.getSecret('snap')).toBe('LEGACY')
+  })
+  describe('profiles', () => {
+    const SHARED = 'test-passphrase-ok'
+
+    it('seals each profile under its own key and unlocks only the selected one', async () => {
+      vault.enroll({ passphrase: SHARED, enableBiometrics: false, initialSecrets: { snap: 'PERSONAL' } })
+      const created = vault.createProfile({ name: 'Treasury', passphrase: SHARED, ownPassphrase: false, enableBiometrics: false })
+      expect(created.ok).toBe(true)
+      const treasury = created.ok ? created.profileId : ''
+      // Creating does not switch.
+      expect(vault.getSecret('snap')).toBe('PERSONAL')
+
+      const states: boolean[] = []
+      vault.onLockStateChange((locked) => states.push(locked))
+      expect((await vault.unlockWithPassphrase(SHARED, treasury)).ok).toBe(true)
+      expect(states).toEqual([true, false])
+      expect(vault.getSecret('snap')).toBeNull()
+      vault.setSecret('snap', 'TREASURY')
+
+      const file = readVault()
+      expect(file.activeProfile).toBe(treasury)
+      const [personal, company] = file.profiles
+      expect(personal.wraps.passphrase.blob).not.toBe(company.wraps.passphrase.blob)
+      expect(vault.status().profiles.map((p) => [p.name, p.active])).toEqual([['Default', false], ['Treasury', true]])
+
+      // The next plain unlock opens the last-used profile.
+      vault.lock()
+      expect((await vault.unlockWithPassphrase(SHARED)).ok).toBe(true)
+      expect(vault.getSecret('snap')).toBe('TREASURY')
+      expect((await vault.unlockWithPassphrase(SHARED, 'default')).ok).toBe(true)
+      expect(vault.getSecret('snap')).toBe('PERSONAL')
+    })
+
+    it('keeps a profile with its own passphrase out of reach of the shared one', async () => {
+      vault.enroll({ passphrase: SHARED, enableBiometrics: false })
+      const wrongShared = vault.createProfile({ name: 'Treasury', passphrase: 'not-the-shared-one', ownPassphrase: false, enableBiometrics: false })
+      expect(wrongShared).toEqual({ ok: false, error: 'That is not the shared vault passphrase.' })
+      vault._resetForTests()
+      await vault.unlockWithPassphrase(SHARED)
+
+      const created = vault.createProfile({ name: 'Treasury', passphrase: 'treasury-only-pass', ownPassphrase: true, enableBiometrics: false })
+      const treasury = created.ok ? created.profileId : ''
+      expect((await vault.unlockWithPassphrase(SHARED, treasury)).ok).toBe(false)
+      // A failed switch leaves the open profile as it was.
+      expect(vault.isUnlocked()).toBe(true)
+      expect(vault.status().activeProfile).toBe('default')
+
+      // Changing the shared passphrase does not touch the private one.
+      vault._resetForTests()
+      await vault.unlockWithPassphrase(SHARED)
+      expect((await vault.changePassphrase(SHARED, 'new-shared-passphrase')).ok).toBe(true)
+      expect((await vault.unlockWithPassphrase('treasury-only-pass', treasury)).ok).toBe(true)
+    })
+
+    it('removes only an inactive profile, given its passphrase', async () => {
+      vault.enroll({ passphrase: SHARED, enableBiometrics: false })
+      const created = vault.createProfile({ name: 'Old', passphrase: SHARED, ownPassphrase: false, enableBiometrics: false })
+      const old = created.ok ? created.profileId : ''
+
+      expect(vault.deleteProfile('default', SHARED).ok).toBe(false)
+      expect(vault.deleteProfile(old, 'wrong-passphrase')).toEqual({ ok: false, error: 'Incorrect passphrase.' })
+      vault._resetForTests()
+      expect(vault.deleteProfile(old, SHARED)).toEqual({ ok: true })
+      expect(readVault().profiles.map((p: { id: string }) => p.id)).toEqual(['default'])
+    })
+  })
+
+  describe('duress passphrase', () => {
+    const REAL = 'test-passphrase-ok'
+    const DURESS = 'duress-passphrase'
+
+    it('opens a separate decoy set that status cannot tell apart', async () => {
+      vault.enroll({ passphrase: REAL, enableBiometrics: false, initialSecrets: { snap: 'REAL' } })
+      const before = readVault().profiles[0]
+      // Filler is written from the start, so setting a duress passphrase adds nothing new to the file.
+      expect(before.wraps.duress).toBeDefined()
+      expect(before.decoy).toBeDefined()
+      expect(vault.hasDuressPassphrase()).toBe(false)
+
+      expect(await vault.setDuressPassphrase(REAL, REAL)).toEqual({
+        ok: false, error: 'The duress passphrase must differ from your vault passphrase.',
+      })
+      expect((await vault.setDuressPassphrase('wrong-passphrase', DURESS)).ok).toBe(false)
+      vault._resetForTests()
+      await vault.unlockWithPassphrase(REAL)
+      expect(await vault.setDuressPassphrase(REAL, DURESS)).toEqual({ ok: true })
+      expect(vault.hasDuressPassphrase()).toBe(true)
+      expect(Object.keys(readVault().profiles[0]).sort()).toEqual(Object.keys(before).sort())
+
+      vault.lock()
+      const locked = vault.status()
+      expect((await vault.unlockWithPassphrase(DURESS)).ok).toBe(true)
+      expect(vault.getAll()).toEqual({})
+      expect(vault.hasDuressPassphrase()).toBe(false)
+      vault.setSecret('snap', 'DECOY')
+      const decoyStatus = vault.status()
+
+      // Switching between the sets locks the open one first.
+      const states: boolean[] = []
+      vault.onLockStateChange((l) => states.push(l))
+      expect((await vault.unlockWithPassphrase(REAL)).ok).toBe(true)
+      expect(states).toEqual([true, false])
+      expect(vault.getSecret('snap')).toBe('REAL')
+      expect(vault.status()).toEqual(decoyStatus)
+      vault.lock()
+      expect(vault.status()).toEqual(locked)
+
+      expect((await vault.unlockWithPassphrase(DURESS)).ok).toBe(true)
+      expect(vault.getSecret('snap')).toBe('DECOY')
+    })
+
+    it('leaves a vault the same shape and size with or without a duress passphrase', async () => {
+      // Every string replaced by its length: what an observer of the file learns.
+      const shape = (v: any): any => typeof v === 'string'
+        ? v.length
+        : v && typeof v === 'object' ? Object.fromEntries(Object.entries(v).map(([k, x]) => [k, shape(x)])) : v
+      const file = () => fs.readFileSync(path.join(TMP, 'vault.dat'), 'utf8')
+
+      vault.enroll({ passphrase: REAL, enableBiometrics: false, initialSecrets: { snap: 'REAL'.repeat(500) } })
+      const without = file()
+      await vault.setDuressPassphrase(REAL, DURESS)
+      const withDuress = file()
+      expect(shape(JSON.parse(withDuress))).toEqual(shape(JSON.parse(without)))
+      expect(withDuress.length).toBe(without.length)
+
+      // The decoy seal is sized by its bucket, not by the profile's own secrets.
+      const profile = JSON.parse(withDuress).profiles[0]
+      expect(profile.decoy.ciphertext.length).not.toBe(profile.ciphertext.length)
+
+      await vault.unlockWithPassphrase(DURESS)
+      vault.setSecret('snap', 'DECOY')
+      expect(file().length).toBe(without.length)
+    })
+
+    it('keeps the real wrap out of reach of a decoy session', async () => {
+      vault.enroll({ passphrase: REAL, enableBiometrics: false, initialSecrets: { snap: 'REAL' } })
+      await vault.setDuressPassphrase(REAL, DURESS)
+      vault.lock()
+      await vault.unlockWithPassphrase(DURESS)
+
+      expect((await vault.setDuressPassphrase(DURESS, 'another-passphrase')).ok).toBe(false)
+      expect(await vault.clearDuressPassphrase(DURESS)).toEqual({ ok: true })
+      expect(await vault.changePassphrase(DURESS, 'new-decoy-passphrase')).toEqual({ ok: true })
+
+      vault.lock()
+      expect((await vault.unlockWithPassphrase(DURESS)).ok).toBe(false)
+      vault._resetForTests()
+      expect((await vault.unlockWithPassphrase(REAL)).ok).toBe(true)
+      expect(vault.getSecret('snap')).toBe('REAL')
+      expect(vault.hasDuressPassphrase()).toBe(true)
+    })
+
+    it('keeps the decoy wallet across a duress change and erases it on removal', async () => {
+      vault.enroll({ passphrase: REAL, enableBiometrics: false })
+      await vault.setDuressPassphrase(REAL, DURESS)
+      await vault.unlockWithPassphrase(DURESS)
+      vault.setSecret('snap', 'DECOY')
+      await vault.unlockWithPassphrase(REAL)
+
+      expect(await vault.changePassphrase(REAL, DURESS)).toEqual({
+        ok: false, error: 'Choose a passphrase different from your duress passphrase.',
+      })
+      vault._resetForTests()
+      await vault.unlockWithPassphrase(REAL)
+      await vault.setDuressPassphrase(REAL, 'second-duress-pass')
+      expect((await vault.unlockWithPassphrase('second-duress-pass')).ok).toBe(true)
+      expect(vault.getSecret('snap')).toBe('DECOY')
+
+      await vault.unlockWithPassphrase(REAL)
+      expect(await vault.clearDuressPassphrase(REAL)).toEqual({ ok: true })
+      expect(vault.hasDuressPassphrase()).toBe(false)
+      vault.lock()
+      expect((await vault.unlockWithPassphrase('second-duress-pass')).ok).toBe(false)
+    })
+  })
 })
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import os from 'os'
+import path from 'path'
+import fs from 'fs'
+
+const TMP = path.join(os.tmpdir(), `vault-autolock-test-${process.pid}-${Date.now()}`)
+const ipcHandlers = new Map<string, (...args: any[]) => any>()
+
+vi.mock('electron', async () => {
+  const { EventEmitter } = await vi.importActual<typeof import('events')>('events')
+  return {
+    app: { getPath: () => TMP },
+    ipcMain: {
+      on: (channel: string, fn: (...args: any[]) => any) => ipcHandlers.set(channel, fn),
+      handle: (channel: string, fn: (...args: any[]) => any) => ipcHandlers.set(channel, fn),
+    },
+    powerMonitor: new EventEmitter(),
+  }
+})
+
+import {
+  DEFAULT_AUTO_LOCK,
+  noteVaultActivity,
+  setAutoLockSettings,
+  startVaultAutoLock,
+  vaultLockStateChanged,
+  _resetForTests,
+} from '../electron/vaultAutoLock'
+import { getBootConfig } from '../electron/bootConfig'
+import { powerMonitor } from 'electron'
+
+const MINUTE = 60_000
+
+describe('vault auto-lock', () => {
+  let lock: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    fs.rmSync(TMP, { recursive: true, force: true })
+    fs.mkdirSync(TMP, { recursive: true })
+    vi.useFakeTimers()
+    _resetForTests()
+    ipcHandlers.clear()
+    powerMonitor.removeAllListeners()
+    // Mirrors main.ts: locking reports back through vaultLockStateChanged.
+    lock = vi.fn(() => vaultLockStateChanged(true))
+    startVaultAutoLock(lock)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('locks after the idle timeout once unlocked', () => {
+    vaultLockStateChanged(false)
+    vi.advanceTimersByTime(DEFAULT_AUTO_LOCK.idleMinutes * MINUTE - 1)
+    expect(lock).not.toHaveBeenCalled()
+    vi.advanceTimersByTime(1)
+    expect(lock).toHaveBeenCalledTimes(1)
+  })
+
+  it('postpones the lock on UI input and bridge activity', () => {
+    setAutoLockSettings({ idleMinutes: 5 })
+    vaultLockStateChanged(false)
+
+    vi.advanceTimersByTime(4 * MINUTE)
+    ipcHandlers.get('vault:activity')!({})
+    vi.advanceTimersByTime(4 * MINUTE)
+    noteVaultActivity()
+    vi.advanceTimersByTime(4 * MINUTE)
+    expect(lock).not.toHaveBeenCalled()
+
+    vi.advanceTimersByTime(MINUTE)
+    expect(lock).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not run while locked or when disabled', () => {
+    vi.advanceTimersByTime(60 * MINUTE)
+    expect(lock).not.toHaveBeenCalled()
+
+    setAutoLockSettings({ idleMinutes: 0 })
+    vaultLockStateChanged(false)
+    vi.advanceTimersByTime(24 * 60 * MINUTE)
+    expect(lock).not.toHaveBeenCalled()
+  })
+
+  it('locks on suspend and screen lock unless turned off', () => {
+    vaultLockStateChanged(false)
+    powerMonitor.emit('suspend')
+    expect(lock).toHaveBeenCalledTimes(1)
+
+    vaultLockStateChanged(false)
+    powerMonitor.emit('lock-screen')
+    expect(lock).toHaveBeenCalledTimes(2)
+
+    setAutoLockSettings({ lockOnSuspend: false, lockOnScreenLock: false })
+    vaultLockStateChanged(false)
+    powerMonitor.emit('suspend')
+    powerMonitor.emit('lock-screen')
+    expect(lock).toHaveBeenCalledTimes(2)
+  })
+
+  it('persists settings in the boot config and rejects bad values over IPC', async () => {
+    const set = ipcHandlers.get('vault:set-auto-lock')!
+    expect(await set({}, { idleMinutes: 30 })).toMatchObject({ success: true, settings: { idleMinutes: 30 } })
+    expect(getBootConfig()?.autoLock).toEqual({ ...DEFAULT_AUTO_LOCK, idleMinutes: 30 })
+
+    expect(await set({}, { idleMinutes: -1 })).toMatchObject({ success: false })
+    expect(await set({}, { idleMinutes: 2.5 })).toMatchObject({ success: false })
+    expect(await set({}, { lockOnSuspend: 'yes' })).toMatchObject({ success: false })
+
+    const { settings } = await ipcHandlers.get('vault:get-auto-lock')!({})
+    expect(settings.idleMinutes).toBe(30)
+  })
+})
@@ -4,11 +4,14 @@ import {
   aesGcmEncrypt,
   aesGcmDecrypt,
   defaultKdf,
+  kdfNeedsUpgrade,
+  CURRENT_KDF_VERSION,
   wrapDekWithPassphrase,
   unwrapDekWithPassphrase,
   wrapKey,
   unwrapKey,
   AAD,
+  deriveSubkey,
 } from '../electron/vaultCrypto'
 
 describe('vaultCrypto', () => {
@@ -41,10 +44,26 @@ describe('vaultCrypto', () => {
     expect(() => unwrapDekWithPassphrase('wrong-passphrase', blob, kdf)).toThrow()
   })
 
+  it('versions the KDF and flags older presets for upgrade', () => {
+    const kdf = defaultKdf()
+    expect(kdf.version).toBe(CURRENT_KDF_VERSION)
+    expect(kdfNeedsUpgrade(kdf)).toBe(false)
+    const { version: _version, ...legacy } = kdf
+    expect(kdfNeedsUpgrade({ ...legacy, params: { N: 16384, r: 8, p: 1 } })).toBe(true)
+  })
+
   it('wrapKey round-trip', () => {
     const wrapping = randomDek()
     const dek = randomDek()
     const blob = wrapKey(wrapping, dek)
     expect(unwrapKey(wrapping, blob).equals(dek)).toBe(true)
   })
+  it('derives a distinct subkey per purpose', () => {
+    const dek = randomDek()
+    const a = deriveSubkey(dek, 'wallet-db:a')
+    expect(a.length).toBe(32)
+    expect(deriveSubkey(dek, 'wallet-db:a').equals(a)).toBe(true)
+    expect(deriveSubkey(dek, 'wallet-db:b').equals(a)).toBe(false)
+    expect(deriveSubkey(randomDek(), 'wallet-db:a').equals(a)).toBe(false)
+  })
 })
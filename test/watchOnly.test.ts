@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import os from 'os'
+import path from 'path'
+import fs from 'fs'
+import knex from 'knex'
+
+vi.mock('electron', () => ({
+  app: { getPath: () => os.tmpdir() },
+  BrowserWindow: { fromWebContents: () => null },
+  dialog: {},
+  ipcMain: { handle: () => {} },
+}))
+
+import { pruneForWatchOnly, readWatchOnlyTarget, WATCH_ONLY_STORAGE_METHODS } from '../electron/watchOnly'
+import { guardWatchOnlyWallet, WatchOnlyError, WatchOnlyKeyDeriver } from '../src/lib/services/watchOnly'
+
+const TMP = path.join(os.tmpdir(), `watch-only-test-${process.pid}-${Date.now()}`)
+const DB = path.join(TMP, 'wallet.db')
+const ALICE = '02' + 'a'.repeat(64)
+const BOB = '03' + 'b'.repeat(64)
+
+let db: any
+
+describe('watch-only wallet database', () => {
+  beforeEach(async () => {
+    fs.rmSync(TMP, { recursive: true, force: true })
+    fs.mkdirSync(TMP, { recursive: true })
+    db = knex({ client: 'better-sqlite3', connection: { filename: DB }, useNullAsDefault: true })
+    await db.schema.createTable('settings', (t: any) => { t.text('chain') })
+    await db.schema.createTable('users', (t: any) => { t.increments('userId'); t.text('identityKey') })
+    await db.schema.createTable('monitor_events', (t: any) => { t.increments('id'); t.text('event') })
+    await db.schema.createTable('outputs', (t: any) => { t.increments('outputId') })
+    await db('settings').insert({ chain: 'test' })
+    await db('users').insert({ identityKey: ALICE })
+    await db('monitor_events').insert({ event: 'x' })
+    await db('outputs').insert({})
+  })
+
+  afterEach(async () => {
+    await db.destroy()
+    fs.rmSync(TMP, { recursive: true, force: true })
+  })
+
+  it('reads the identity and chain the file belongs to', async () => {
+    expect(await readWatchOnlyTarget(db)).toEqual({ identityKey: ALICE, chain: 'test' })
+    await expect(readWatchOnlyTarget(db, BOB)).rejects.toThrow('no wallet for that identity key')
+  })
+
+  it('needs an identity key when the file holds several wallets', async () => {
+    await db('users').insert({ identityKey: BOB })
+    await expect(readWatchOnlyTarget(db)).rejects.toThrow('several wallets')
+    expect(await readWatchOnlyTarget(db, BOB)).toEqual({ identityKey: BOB, chain: 'test' })
+  })
+
+  it('refuses files that are not wallet databases', async () => {
+    await db.schema.dropTable('settings')
+    await expect(readWatchOnlyTarget(db)).rejects.toThrow('not a wallet database')
+  })
+
+  it('empties the operational tables and keeps holdings', async () => {
+    await pruneForWatchOnly(db)
+    expect(await db('monitor_events').count({ n: '*' })).toEqual([{ n: 0 }])
+    expect(await db('outputs').count({ n: '*' })).toEqual([{ n: 1 }])
+  })
+
+  it('lets only reading storage methods through', () => {
+    expect(WATCH_ONLY_STORAGE_METHODS.has('listActions')).toBe(true)
+    for (const method of ['createAction', 'processAction', 'internalizeAction', 'insertOutput', 'updateOutput', 'processSyncChunk', 'setActive']) {
+      expect(WATCH_ONLY_STORAGE_METHODS.has(method)).toBe(false)
+    }
+  })
+})
+
+describe('watch-only wallet guard', () => {
+  const inner = {
+    createAction: vi.fn(async () => ({ txid: 'x' })),
+    createSignature: vi.fn(async () => ({ signature: [] })),
+    getPublicKey: vi.fn(async () => ({ publicKey: 'derived' })),
+    listActions: vi.fn(async () => ({ totalActions: 0, actions: [] })),
+  }
+
+  it('rejects signing and spending before the wallet sees them', async () => {
+    const wallet = guardWatchOnlyWallet(inner, ALICE)
+    await expect(wallet.createAction()).rejects.toBeInstanceOf(WatchOnlyError)
+    await expect(wallet.createSignature()).rejects.toThrow('This wallet is watch-only.')
+    expect(inner.createAction).not.toHaveBeenCalled()
+    expect(inner.createSignature).not.toHaveBeenCalled()
+  })
+
+  it('answers the identity key and lets reads through', async () => {
+    const wallet = guardWatchOnlyWallet(inner, ALICE)
+    expect(await wallet.getPublicKey({ identityKey: true } as any)).toEqual({ publicKey: ALICE })
+    await expect(wallet.getPublicKey({ protocolID: [2, 'x'], keyID: '1' } as any)).rejects.toBeInstanceOf(WatchOnlyError)
+    expect(inner.getPublicKey).not.toHaveBeenCalled()
+    expect(await wallet.listActions()).toEqual({ totalActions: 0, actions: [] })
+  })
+
+  it('has no key to derive from', () => {
+    const deriver = new WatchOnlyKeyDeriver(ALICE)
+    expect(deriver.identityKey).toBe(ALICE)
+    expect(() => deriver.rootKey).toThrow(WatchOnlyError)
+    expect(() => deriver.derivePrivateKey([2, 'x'], '1', 'self')).toThrow(WatchOnlyError)
+    expect(() => deriver.derivePublicKey([2, 'x'], '1', 'self', true)).toThrow(WatchOnlyError)
+  })
+})
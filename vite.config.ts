@@ -58,6 +58,8 @@ export default defineConfig({
       // whitelisted in the SDK's package.json `exports` field.
       'dxs-bsv-token-sdk/script/read/locking-script-reader',
       'dxs-bsv-token-sdk/script/build/dstas-locking-builder',
+      'dxs-bsv-token-sdk/script/build/p2pkh-builder',
+      'dxs-bsv-token-sdk/script/build/p2stas-builder',
       'dxs-bsv-token-sdk/script/eval/script-evaluator',
       // stas-js + its bsv-js peer for the BRC-100 STAS transfer path.
       // Explicit file paths — stas-js's package.json points `module` at